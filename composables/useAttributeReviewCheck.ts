@@ -0,0 +1,33 @@
+/**
+ * Composable for checking product attributes before labels or travelers are printed in the browser
+ * The server refuses to mark blocked items printed either way; checking first saves printing them.
+ */
+export const useAttributeReviewCheck = () => {
+  /**
+   * Check items against the unverified items policy, confirming any warning with the user
+   * @param orderItemIds - Order items about to be printed
+   * @returns Whether to go ahead with the print
+   */
+  const confirmPrint = async (orderItemIds: string[]): Promise<boolean> => {
+    if (orderItemIds.length === 0) {
+      return true;
+    }
+
+    try {
+      const response = await $fetch('/api/admin/attribute-review/check', {
+        method: 'POST',
+        body: { orderItemIds, action: 'print' }
+      });
+      const warning = response.data.warning;
+      return !warning || confirm('Warning: ' + warning + '\n\nPrint anyway?');
+    } catch (err) {
+      const statusMessage = (err as { data?: { statusMessage?: string } }).data?.statusMessage;
+      alert('Cannot Print: ' + (statusMessage || 'Could not check the product attributes.'));
+      return false;
+    }
+  };
+
+  return {
+    confirmPrint
+  };
+};
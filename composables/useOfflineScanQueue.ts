@@ -0,0 +1,182 @@
+import { ref, computed, readonly } from 'vue'
+import {
+  createOfflineScan,
+  getPendingScans,
+  getReplayErrorMessage,
+  getReplayOutcome,
+  type OfflineScan,
+  type ReplayOutcome
+} from '~/utils/offlineScans'
+
+const STORAGE_KEY = 'warehouse-kiosk-offline-scans'
+const RETRY_INTERVAL_MS = 30000
+
+// Drop anything in storage that is not a scan this queue wrote
+const isStoredScan = (value: unknown): value is OfflineScan => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const scan = value as Partial<Record<keyof OfflineScan, unknown>>
+  return typeof scan.id === 'string' && typeof scan.barcode === 'string' && typeof scan.scannedAt === 'string'
+}
+
+export interface OfflineScanQueueConfig {
+  // Sends one queued scan to the server; throws when it is not applied
+  replayScan: (scan: OfflineScan) => Promise<void>
+  onReplayed?: (scan: OfflineScan, outcome: Exclude<ReplayOutcome, 'retry'>, error?: unknown) => void
+  // Replays only run while this returns true, e.g. while the kiosk is logged in
+  canReplay?: () => boolean
+}
+
+/**
+ * Composable for the kiosk's offline scan queue
+ * Scans made while the kiosk has no connection are kept in localStorage with the time they were made, and
+ * replayed oldest first when the connection comes back. A replay the server turns down is kept as a conflict
+ * until the worker dismisses it; one that cannot reach the server stops the replay so nothing jumps ahead.
+ */
+export const useOfflineScanQueue = (config: OfflineScanQueueConfig) => {
+  const scans = ref<OfflineScan[]>([])
+  const isOnline = ref(true)
+  const isSyncing = ref(false)
+
+  const pendingScans = computed(() => getPendingScans(scans.value))
+  const conflictScans = computed(() => scans.value.filter(scan => scan.state === 'conflict'))
+
+  let retryTimer: ReturnType<typeof setInterval> | null = null
+
+  const loadScans = (): void => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      const parsed = stored ? JSON.parse(stored) : []
+      scans.value = Array.isArray(parsed)
+        ? parsed.filter(isStoredScan)
+        : []
+    } catch (err) {
+      console.error('Failed to load offline scans from localStorage:', err)
+      scans.value = []
+    }
+  }
+
+  const saveScans = (): void => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(scans.value))
+    } catch (err) {
+      console.error('Failed to save offline scans to localStorage:', err)
+    }
+  }
+
+  const updateScan = (id: string, changes: Partial<OfflineScan>): void => {
+    scans.value = scans.value.map(scan => scan.id === id ? { ...scan, ...changes } : scan)
+    saveScans()
+  }
+
+  const removeScan = (id: string): void => {
+    scans.value = scans.value.filter(scan => scan.id !== id)
+    saveScans()
+  }
+
+  // Keep a scan that could not be sent; pass the scan made for the live attempt so a replay reuses its ID
+  const enqueue = (barcodeOrScan: string | OfflineScan): OfflineScan => {
+    const scan = typeof barcodeOrScan === 'string' ? createOfflineScan(barcodeOrScan) : { ...barcodeOrScan, state: 'pending' as const }
+    scans.value = [...scans.value.filter(existing => existing.id !== scan.id), scan]
+    saveScans()
+    return scan
+  }
+
+  // Replay pending scans in the order they were made
+  const sync = async (): Promise<void> => {
+    if (isSyncing.value || !isOnline.value || (config.canReplay && !config.canReplay())) {
+      return
+    }
+
+    isSyncing.value = true
+    try {
+      for (const queued of pendingScans.value) {
+        const scan = { ...queued, attempts: queued.attempts + 1 }
+        updateScan(scan.id, { attempts: scan.attempts })
+
+        try {
+          await config.replayScan(scan)
+          removeScan(scan.id)
+          config.onReplayed?.(scan, 'applied')
+        } catch (err) {
+          const outcome = getReplayOutcome(err, scan.attempts)
+          if (outcome === 'retry') {
+            console.warn(`Offline scan ${scan.id} could not be synced yet:`, err)
+            break
+          }
+
+          const message = getReplayErrorMessage(err)
+          updateScan(scan.id, { state: 'conflict', message })
+          config.onReplayed?.({ ...scan, state: 'conflict', message }, 'conflict', err)
+        }
+      }
+    } finally {
+      isSyncing.value = false
+    }
+  }
+
+  const dismiss = (id: string): void => {
+    removeScan(id)
+  }
+
+  const handleOnline = (): void => {
+    isOnline.value = true
+    sync()
+  }
+
+  const handleOffline = (): void => {
+    isOnline.value = false
+  }
+
+  // Start listening for the connection coming back and retry on a timer in case the event is missed
+  const start = (): void => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    loadScans()
+    isOnline.value = navigator.onLine
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    if (!retryTimer) {
+      retryTimer = setInterval(() => {
+        if (pendingScans.value.length > 0) {
+          isOnline.value = navigator.onLine
+          sync()
+        }
+      }, RETRY_INTERVAL_MS)
+    }
+    sync()
+  }
+
+  const stop = (): void => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    if (retryTimer) {
+      clearInterval(retryTimer)
+      retryTimer = null
+    }
+  }
+
+  return {
+    scans: readonly(scans),
+    pendingScans,
+    conflictScans,
+    isOnline: readonly(isOnline),
+    isSyncing: readonly(isSyncing),
+    enqueue,
+    sync,
+    dismiss,
+    start,
+    stop
+  }
+}
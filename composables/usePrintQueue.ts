@@ -7,6 +7,7 @@ import {
   logPrintQueueError,
   checkSystemHealth
 } from '~/utils/printQueueErrorHandling'
+import type { UnitLabelEntry } from '~/utils/orderItemUnits'
 
 // Types for the print queue system
 export interface QueuedLabel {
@@ -18,6 +19,7 @@ export interface QueuedLabel {
   labelData: SplitLabelData
   createdAt: Date
   position: number
+  unitNumber?: number | null // Set when the label is for one unit of a multi-quantity order item
 }
 
 export interface SplitLabelData {
@@ -39,6 +41,7 @@ export interface SplitLabelData {
   date: string
   barcode: string
   productNumber: string
+  unitLabel?: string | null
   upgrades: string[]
 }
 
@@ -245,7 +248,7 @@ export const usePrintQueue = () => {
   }
 
   // Validate order item data with comprehensive checks
-  const validateOrderItem = (orderItem: OrderItemWithRelations): QueueValidationError | null => {
+  const validateOrderItem = (orderItem: OrderItemWithRelations, unit?: UnitLabelEntry | null): QueueValidationError | null => {
     // Check if orderItem exists and is an object
     if (!orderItem || typeof orderItem !== 'object') {
       return {
@@ -309,9 +312,11 @@ export const usePrintQueue = () => {
     }
 
     // Check for duplicate with more detailed message
-    const exists = queue.value.some(label => label.orderItemId === orderItem.id)
+    // Each unit of a multi-quantity order item has a label of its own
+    const isSameLabel = (label: QueuedLabel) => label.orderItemId === orderItem.id && (label.unitNumber ?? null) === (unit?.unitNumber ?? null)
+    const exists = queue.value.some(isSameLabel)
     if (exists) {
-      const existingLabel = queue.value.find(label => label.orderItemId === orderItem.id)
+      const existingLabel = queue.value.find(isSameLabel)
       return {
         type: 'DUPLICATE_ITEM',
         message: 'This item is already in the print queue',
@@ -362,7 +367,7 @@ export const usePrintQueue = () => {
   }
 
   // Generate optimized label data
-  const generateLabelData = (orderItem: OrderItemWithRelations): SplitLabelData => {
+  const generateLabelData = (orderItem: OrderItemWithRelations, unit?: UnitLabelEntry | null): SplitLabelData => {
     // Get product attributes from ProductAttribute table first
     const attrs = orderItem.productAttributes
     const upgrades: string[] = []
@@ -466,14 +471,16 @@ export const usePrintQueue = () => {
       foam,
       date: new Date().toLocaleDateString('en-US', { month: '2-digit', day: '2-digit' }),
       // NEW FORMAT: Use productNumber if available, fallback to orderItemId for backward compatibility
-      barcode: `${orderItem.order.salesOrderNumber || orderItem.order.id?.slice(-8) || 'N/A'}-${(orderItem as any).productNumber || orderItem.id}`,
-      productNumber: orderItem.productNumber ? `P0${orderItem.productNumber}` : `P`,
+      // A unit's label carries the unit's own product number
+      barcode: `${orderItem.order.salesOrderNumber || orderItem.order.id?.slice(-8) || 'N/A'}-${unit?.productNumber || (orderItem as any).productNumber || orderItem.id}`,
+      productNumber: (unit?.productNumber || orderItem.productNumber) ? `P0${unit?.productNumber || orderItem.productNumber}` : `P`,
+      unitLabel: unit?.unitLabel || null,
       upgrades
     }
   }
 
   // Add item to queue with comprehensive error handling
-  const addToQueue = async (orderItem: OrderItemWithRelations): Promise<boolean> => {
+  const addToQueue = async (orderItem: OrderItemWithRelations, unit?: UnitLabelEntry | null): Promise<boolean> => {
     isLoading.value = true
     error.value = null
 
@@ -495,7 +502,7 @@ export const usePrintQueue = () => {
       }
 
       // Validate order item
-      const validationError = validateOrderItem(orderItem)
+      const validationError = validateOrderItem(orderItem, unit)
       if (validationError) {
         error.value = validationError
         return false
@@ -504,7 +511,7 @@ export const usePrintQueue = () => {
       // Generate label data with error handling
       let labelData: SplitLabelData
       try {
-        labelData = generateLabelData(orderItem)
+        labelData = generateLabelData(orderItem, unit)
       } catch (err) {
         console.error('Failed to generate label data:', err)
         error.value = {
@@ -533,7 +540,8 @@ export const usePrintQueue = () => {
           itemName: orderItem.item.name,
           labelData,
           createdAt: new Date(),
-          position: queue.value.length
+          position: queue.value.length,
+          unitNumber: unit?.unitNumber ?? null
         }
 
         // Validate the created label
@@ -1241,6 +1249,7 @@ export const usePrintQueue = () => {
       const safeDistance = sanitizeText(labelData.distance)
       const safeFoam = sanitizeText(labelData.foam)
       const safeProductNumber = sanitizeText(labelData.productNumber)
+      const safeUnitLabel = labelData.unitLabel ? sanitizeText(labelData.unitLabel) : null
 
       // Get Purchase Order Number - check order item first, then order level
       const getPONumber = () => {
@@ -1284,7 +1293,7 @@ export const usePrintQueue = () => {
                 <span class="customer-name">${safeCustomer}</span>
               </div>
               <div class="order-info">
-                <div class="order-number">#${safeOrderNumber} - ${safeProductNumber}</div>
+                <div class="order-number">#${safeOrderNumber} - ${safeProductNumber}${safeUnitLabel ? ` (${safeUnitLabel})` : ''}</div>
                 ${safePONumber ? `<div class="order-date purchase-order">| PO# ${safePONumber}</div>` : ''}
                 <div class="order-date">| ${safeDate}</div>
               </div>
@@ -1398,7 +1407,7 @@ export const usePrintQueue = () => {
                 <span class="customer-name">${safeCustomer}</span>
               </div>
               <div class="order-info compact">
-                <div class="order-number">#${safeOrderNumber} - ${safeProductNumber}</div>
+                <div class="order-number">#${safeOrderNumber} - ${safeProductNumber}${safeUnitLabel ? ` (${safeUnitLabel})` : ''}</div>
                 ${safePONumber ? `<div class="order-date purchase-order">| PO# ${safePONumber}</div>` : ''}
                 <div class="order-date">| ${safeDate}</div>
               </div>
@@ -1,4 +1,6 @@
+import type { MaybeRefOrGetter } from 'vue';
 import { usePriorityItemsPerformance } from '~/utils/priorityItemsPerformance';
+import type { PriorityScoreComponent } from '~/utils/priorityScoring';
 
 interface PriorityItem {
   id: string;
@@ -6,11 +8,17 @@ interface PriorityItem {
   itemName: string; // Now contains attribute description (e.g., "Spa Cover, Navy Blue, Size: 84, Shape: Round")
   customerName: string;
   status: 'NOT_STARTED_PRODUCTION' | 'CUTTING' | 'SEWING' | 'FOAM_CUTTING' | 'STUFFING' | 'PACKAGING' | 'PRODUCT_FINISHED';
-  priority: 'HIGH' | 'MEDIUM' | 'LOW'; // Priority level for grouping
+  priority: 'HIGH' | 'MEDIUM' | 'LOW'; // Manual order priority, one of the score factors
   isUrgent: boolean; // True only for HIGH priority orders
   createdAt: string;
   orderCreatedAt: string;
   estimatedDueDate?: string;
+  score: number;
+  scoreBreakdown: PriorityScoreComponent[];
+  priorityBoost: number;
+  isPinned: boolean;
+  nextStationName: string | null;
+  isAtStation: boolean; // Waiting for the viewing station's step
 }
 
 interface PriorityItemsResponse {
@@ -19,6 +27,7 @@ interface PriorityItemsResponse {
   meta: {
     totalCount: number;
     lastUpdated: string;
+    stationName?: string | null;
   };
   error?: string;
 }
@@ -40,7 +49,12 @@ interface ItemStatusChangeEvent {
   itemName?: string;
 }
 
-export const usePriorityItems = () => {
+interface PriorityItemsOptions {
+  // Station viewing the list - items waiting for its step are ranked first
+  stationName?: MaybeRefOrGetter<string | null | undefined>;
+}
+
+export const usePriorityItems = (options: PriorityItemsOptions = {}) => {
   const state = reactive<PriorityItemsState>({
     items: [],
     loading: false,
@@ -75,7 +89,10 @@ export const usePriorityItems = () => {
       }
       state.error = null;
       
-      const response = await $fetch<PriorityItemsResponse>('/api/warehouse/priority-items');
+      const stationName = toValue(options.stationName);
+      const response = await $fetch<PriorityItemsResponse>('/api/warehouse/priority-items', {
+        query: stationName ? { station: stationName } : undefined
+      });
       const apiTime = endApiTimer();
       
       if (response.success) {
@@ -205,7 +222,8 @@ export const usePriorityItems = () => {
     );
   };
 
-  const startAutoRefresh = () => {
+  // Polling is only a fallback for when the real-time stream is not connected
+  const startPolling = () => {
     // Clear any existing interval
     if (refreshInterval) {
       clearInterval(refreshInterval);
@@ -220,16 +238,46 @@ export const usePriorityItems = () => {
       fetchPriorityItems(true);
     }, optimalInterval);
     
-    console.log(`Priority items auto-refresh started with ${optimalInterval}ms interval`);
+    console.log(`Priority items polling started with ${optimalInterval}ms interval`);
   };
 
-  const stopAutoRefresh = () => {
+  const stopPolling = () => {
     if (refreshInterval) {
       clearInterval(refreshInterval);
       refreshInterval = null;
     }
   };
 
+  // Status changes pushed by the server over SSE; missed events are replayed on reconnect
+  let autoRefreshEnabled = false;
+  // Pins and boosts made by an admin re-rank the list as well
+  const realtime = useRealtimeEvents<ItemStatusChangeEvent>({
+    types: ['itemStatusChange', 'priorityChange'],
+    onEvent: (type, data) => (type === 'priorityChange' ? debouncedRefresh(true) : handleItemStatusChange(data)),
+    onResync: () => debouncedRefresh(true),
+    onConnectionChange: (connected) => {
+      if (connected) {
+        stopPolling();
+      } else if (autoRefreshEnabled) {
+        startPolling();
+      }
+    }
+  });
+
+  const startAutoRefresh = () => {
+    autoRefreshEnabled = true;
+    realtime.connect();
+    if (!realtime.connected.value) {
+      startPolling();
+    }
+  };
+
+  const stopAutoRefresh = () => {
+    autoRefreshEnabled = false;
+    realtime.disconnect();
+    stopPolling();
+  };
+
   const cleanup = () => {
     stopAutoRefresh();
     
@@ -278,6 +326,13 @@ export const usePriorityItems = () => {
     }
   };
 
+  // Re-rank for the new station when the kiosk switches to another scanner's station
+  watch(() => toValue(options.stationName), (stationName, previousStationName) => {
+    if (stationName !== previousStationName && state.lastUpdated) {
+      fetchPriorityItems(false);
+    }
+  });
+
   // Cleanup function for component unmount
   onUnmounted(() => {
     cleanup();
@@ -286,6 +341,7 @@ export const usePriorityItems = () => {
   return {
     // Reactive state (readonly to prevent external mutations)
     priorityItems: readonly(toRef(state, 'items')),
+    isLive: realtime.connected,
     loading: readonly(toRef(state, 'loading')),
     error: readonly(toRef(state, 'error')),
     lastUpdated: readonly(toRef(state, 'lastUpdated')),
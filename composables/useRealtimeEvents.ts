@@ -0,0 +1,131 @@
+// Subscribes to the server's real-time event stream (/api/realtime/events) over Server-Sent Events
+
+type RealtimeEventType = 'itemStatusChange' | 'orderStatusChange' | 'printQueueChange' | 'priorityChange';
+
+interface RealtimeEventOptions<T> {
+  types: RealtimeEventType[];
+  orderId?: string;
+  stationName?: string;
+  customerId?: string;
+  onEvent: (type: RealtimeEventType, data: T) => void;
+  // Called when events were missed and could not be replayed - the caller should refetch its data
+  onResync?: () => void;
+  // Called whenever the connection state changes, e.g. to fall back to polling while disconnected
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// Delay before reopening a stream the browser gave up on (e.g. server restart, session expired)
+const MIN_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 30000;
+
+export const useRealtimeEvents = <T = unknown>(options: RealtimeEventOptions<T>) => {
+  const connected = ref(false);
+
+  let eventSource: EventSource | null = null;
+  let lastEventId: string | null = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = MIN_RECONNECT_DELAY;
+  let stopped = true;
+
+  const setConnected = (value: boolean) => {
+    if (connected.value !== value) {
+      connected.value = value;
+      options.onConnectionChange?.(value);
+    }
+  };
+
+  const buildUrl = () => {
+    const params = new URLSearchParams({ types: options.types.join(',') });
+    if (options.orderId) params.set('orderId', options.orderId);
+    if (options.stationName) params.set('stationName', options.stationName);
+    if (options.customerId) params.set('customerId', options.customerId);
+    // EventSource only sends Last-Event-ID on its own reconnects, so pass it along when we reopen the stream ourselves
+    if (lastEventId) params.set('lastEventId', lastEventId);
+    return `/api/realtime/events?${params.toString()}`;
+  };
+
+  const trackEventId = (event: MessageEvent) => {
+    if (event.lastEventId) {
+      lastEventId = event.lastEventId;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimeout) {
+      return;
+    }
+
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      open();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  };
+
+  const open = () => {
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    eventSource?.close();
+    eventSource = new EventSource(buildUrl(), { withCredentials: true });
+
+    eventSource.onopen = () => {
+      reconnectDelay = MIN_RECONNECT_DELAY;
+      setConnected(true);
+    };
+
+    eventSource.onerror = () => {
+      setConnected(false);
+      // While CONNECTING the browser retries by itself (sending Last-Event-ID); once CLOSED it has given up
+      if (eventSource?.readyState === EventSource.CLOSED) {
+        scheduleReconnect();
+      }
+    };
+
+    eventSource.addEventListener('connected', trackEventId as EventListener);
+
+    eventSource.addEventListener('resync', ((event: MessageEvent) => {
+      trackEventId(event);
+      options.onResync?.();
+    }) as EventListener);
+
+    options.types.forEach(type => {
+      eventSource?.addEventListener(type, ((event: MessageEvent) => {
+        trackEventId(event);
+        try {
+          options.onEvent(type, JSON.parse(event.data) as T);
+        } catch (error) {
+          console.error(`Failed to handle realtime ${type} event:`, error);
+        }
+      }) as EventListener);
+    });
+  };
+
+  const connect = () => {
+    stopped = false;
+    open();
+  };
+
+  const disconnect = () => {
+    stopped = true;
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout);
+      reconnectTimeout = null;
+    }
+    eventSource?.close();
+    eventSource = null;
+    // Not reported through onConnectionChange - the caller asked for this and should not fall back to polling
+    connected.value = false;
+  };
+
+  onUnmounted(() => {
+    disconnect();
+  });
+
+  return {
+    connected: readonly(connected),
+    connect,
+    disconnect
+  };
+};
@@ -60,6 +60,30 @@ const metadata = {
                     name: "banExpires",
                     type: "DateTime",
                     isOptional: true,
+                }, badgeCode: {
+                    name: "badgeCode",
+                    type: "String",
+                    isOptional: true,
+                }, badgeIssuedAt: {
+                    name: "badgeIssuedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, kioskPinHash: {
+                    name: "kioskPinHash",
+                    type: "String",
+                    isOptional: true,
+                }, kioskPinSetAt: {
+                    name: "kioskPinSetAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, kioskPinFailedAttempts: {
+                    name: "kioskPinFailedAttempts",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, kioskPinLockedUntil: {
+                    name: "kioskPinLockedUntil",
+                    type: "DateTime",
+                    isOptional: true,
                 }, roles: {
                     name: "roles",
                     type: "UserRole",
@@ -90,6 +114,12 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'user',
+                }, approvedStatusChanges: {
+                    name: "approvedStatusChanges",
+                    type: "ItemStatusLog",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'approvedBy',
                 }, sessions: {
                     name: "sessions",
                     type: "Session",
@@ -114,6 +144,48 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'user',
+                }, reportedReworks: {
+                    name: "reportedReworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'reportedBy',
+                }, responsibleReworks: {
+                    name: "responsibleReworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'responsibleUser',
+                }, shipments: {
+                    name: "shipments",
+                    type: "Shipment",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'createdBy',
+                }, materialTransactions: {
+                    name: "materialTransactions",
+                    type: "MaterialTransaction",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'user',
+                }, payStatements: {
+                    name: "payStatements",
+                    type: "PayStatement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'user',
+                }, approvedPayStatements: {
+                    name: "approvedPayStatements",
+                    type: "PayStatement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'approvedBy',
+                }, lockedPayPeriods: {
+                    name: "lockedPayPeriods",
+                    type: "PayPeriod",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'lockedBy',
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -134,6 +206,9 @@ const metadata = {
                 }, email: {
                     name: "email",
                     fields: ["email"]
+                }, badgeCode: {
+                    name: "badgeCode",
+                    fields: ["badgeCode"]
                 },
             },
         },
@@ -481,6 +556,18 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'customer',
+                }, portalTokens: {
+                    name: "portalTokens",
+                    type: "CustomerPortalToken",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'customer',
+                }, portalSessions: {
+                    name: "portalSessions",
+                    type: "CustomerPortalSession",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'customer',
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -700,6 +787,48 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'station',
+                }, workflowSteps: {
+                    name: "workflowSteps",
+                    type: "WorkflowStep",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'station',
+                }, reportedReworks: {
+                    name: "reportedReworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'reportedAtStation',
+                }, responsibleReworks: {
+                    name: "responsibleReworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'responsibleStation',
+                }, materialBomRules: {
+                    name: "materialBomRules",
+                    type: "MaterialBomRule",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'station',
+                }, materialRequirements: {
+                    name: "materialRequirements",
+                    type: "MaterialRequirement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'station',
+                }, labelPrinters: {
+                    name: "labelPrinters",
+                    type: "LabelPrinter",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'station',
+                }, pieceRates: {
+                    name: "pieceRates",
+                    type: "PieceRate",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'station',
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -831,6 +960,136 @@ const metadata = {
                 },
             },
         },
+        workflow: {
+            name: 'Workflow', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, description: {
+                    name: "description",
+                    type: "String",
+                    isOptional: true,
+                }, productType: {
+                    name: "productType",
+                    type: "ProductType",
+                    isOptional: true,
+                }, isDefault: {
+                    name: "isDefault",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": false }] }],
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, steps: {
+                    name: "steps",
+                    type: "WorkflowStep",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'workflow',
+                }, orderItems: {
+                    name: "orderItems",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'workflow',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, name: {
+                    name: "name",
+                    fields: ["name"]
+                },
+            },
+        },
+        workflowStep: {
+            name: 'WorkflowStep', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, workflowId: {
+                    name: "workflowId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'workflow',
+                }, workflow: {
+                    name: "workflow",
+                    type: "Workflow",
+                    isDataModel: true,
+                    backLink: 'steps',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "workflowId" },
+                }, position: {
+                    name: "position",
+                    type: "Int",
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'workflowSteps',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "stationId" },
+                }, itemStatus: {
+                    name: "itemStatus",
+                    type: "OrderItemProcessingStatus",
+                }, description: {
+                    name: "description",
+                    type: "String",
+                    isOptional: true,
+                }, currentItems: {
+                    name: "currentItems",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'currentStep',
+                }, currentUnits: {
+                    name: "currentUnits",
+                    type: "OrderItemUnit",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'currentStep',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
         order: {
             name: 'Order', fields: {
                 id: {
@@ -1023,6 +1282,18 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'order',
+                }, shipments: {
+                    name: "shipments",
+                    type: "Shipment",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'order',
+                }, quickbooksSyncs: {
+                    name: "quickbooksSyncs",
+                    type: "QuickBooksOutboundSync",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'order',
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -1204,6 +1475,48 @@ const metadata = {
                     name: "packaging",
                     type: "Boolean",
                     attributes: [{ "name": "@default", "args": [{ "value": false }] }],
+                }, workflowId: {
+                    name: "workflowId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'workflow',
+                }, workflow: {
+                    name: "workflow",
+                    type: "Workflow",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'orderItems',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "workflowId" },
+                }, currentStepId: {
+                    name: "currentStepId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'currentStep',
+                }, currentStep: {
+                    name: "currentStep",
+                    type: "WorkflowStep",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'currentItems',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "currentStepId" },
+                }, reworkCount: {
+                    name: "reworkCount",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, priorityPinnedAt: {
+                    name: "priorityPinnedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, priorityBoost: {
+                    name: "priorityBoost",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -1224,6 +1537,18 @@ const metadata = {
                     isDataModel: true,
                     isArray: true,
                     backLink: 'orderItem',
+                }, reworks: {
+                    name: "reworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'orderItem',
+                }, units: {
+                    name: "units",
+                    type: "OrderItemUnit",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'orderItem',
                 }, productAttributes: {
                     name: "productAttributes",
                     type: "ProductAttribute",
@@ -1236,6 +1561,18 @@ const metadata = {
                     isDataModel: true,
                     isOptional: true,
                     backLink: 'orderItem',
+                }, materialRequirements: {
+                    name: "materialRequirements",
+                    type: "MaterialRequirement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'orderItem',
+                }, materialTransactions: {
+                    name: "materialTransactions",
+                    type: "MaterialTransaction",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'orderItem',
                 },
             }, uniqueConstraints: {
                 id: {
@@ -1250,8 +1587,8 @@ const metadata = {
                 },
             },
         },
-        itemProcessingLog: {
-            name: 'ItemProcessingLog', fields: {
+        orderItemUnit: {
+            name: 'OrderItemUnit', fields: {
                 id: {
                     name: "id",
                     type: "String",
@@ -1266,49 +1603,35 @@ const metadata = {
                     name: "orderItem",
                     type: "OrderItem",
                     isDataModel: true,
-                    backLink: 'itemProcessingLogs',
+                    backLink: 'units',
                     isRelationOwner: true,
                     onDeleteAction: 'Cascade',
                     foreignKeyMapping: { "id": "orderItemId" },
-                }, stationId: {
-                    name: "stationId",
-                    type: "String",
-                    isForeignKey: true,
-                    relationField: 'station',
-                }, station: {
-                    name: "station",
-                    type: "Station",
-                    isDataModel: true,
-                    backLink: 'itemProcessingLogs',
-                    isRelationOwner: true,
-                    foreignKeyMapping: { "id": "stationId" },
-                }, userId: {
-                    name: "userId",
+                }, unitNumber: {
+                    name: "unitNumber",
+                    type: "Int",
+                }, productNumber: {
+                    name: "productNumber",
+                    type: "Int",
+                }, itemStatus: {
+                    name: "itemStatus",
+                    type: "OrderItemProcessingStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, currentStepId: {
+                    name: "currentStepId",
                     type: "String",
+                    isOptional: true,
                     isForeignKey: true,
-                    relationField: 'user',
-                }, user: {
-                    name: "user",
-                    type: "User",
+                    relationField: 'currentStep',
+                }, currentStep: {
+                    name: "currentStep",
+                    type: "WorkflowStep",
                     isDataModel: true,
-                    backLink: 'itemProcessingLogs',
-                    isRelationOwner: true,
-                    foreignKeyMapping: { "id": "userId" },
-                }, startTime: {
-                    name: "startTime",
-                    type: "DateTime",
-                }, endTime: {
-                    name: "endTime",
-                    type: "DateTime",
-                    isOptional: true,
-                }, durationInSeconds: {
-                    name: "durationInSeconds",
-                    type: "Int",
-                    isOptional: true,
-                }, notes: {
-                    name: "notes",
-                    type: "String",
                     isOptional: true,
+                    backLink: 'currentUnits',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "currentStepId" },
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -1317,17 +1640,190 @@ const metadata = {
                     name: "updatedAt",
                     type: "DateTime",
                     attributes: [{ "name": "@updatedAt", "args": [] }],
-                },
-            }, uniqueConstraints: {
-                id: {
-                    name: "id",
-                    fields: ["id"]
-                },
-            },
-        },
-        productAttribute: {
-            name: 'ProductAttribute', fields: {
-                id: {
+                }, itemProcessingLogs: {
+                    name: "itemProcessingLogs",
+                    type: "ItemProcessingLog",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'unit',
+                }, itemStatusLogs: {
+                    name: "itemStatusLogs",
+                    type: "ItemStatusLog",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'unit',
+                }, itemReworks: {
+                    name: "itemReworks",
+                    type: "ItemRework",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'unit',
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, productNumber: {
+                    name: "productNumber",
+                    fields: ["productNumber"]
+                }, orderItemId_unitNumber: {
+                    name: "orderItemId_unitNumber",
+                    fields: ["orderItemId", "unitNumber"]
+                },
+            },
+        },
+        itemProcessingLog: {
+            name: 'ItemProcessingLog', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, orderItemId: {
+                    name: "orderItemId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'orderItem',
+                }, orderItem: {
+                    name: "orderItem",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    backLink: 'itemProcessingLogs',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "orderItemId" },
+                }, unitId: {
+                    name: "unitId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'unit',
+                }, unit: {
+                    name: "unit",
+                    type: "OrderItemUnit",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'itemProcessingLogs',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "unitId" },
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'itemProcessingLogs',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "stationId" },
+                }, userId: {
+                    name: "userId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'user',
+                }, user: {
+                    name: "user",
+                    type: "User",
+                    isDataModel: true,
+                    backLink: 'itemProcessingLogs',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "userId" },
+                }, startTime: {
+                    name: "startTime",
+                    type: "DateTime",
+                }, endTime: {
+                    name: "endTime",
+                    type: "DateTime",
+                    isOptional: true,
+                }, durationInSeconds: {
+                    name: "durationInSeconds",
+                    type: "Int",
+                    isOptional: true,
+                }, notes: {
+                    name: "notes",
+                    type: "String",
+                    isOptional: true,
+                }, clientScanId: {
+                    name: "clientScanId",
+                    type: "String",
+                    isOptional: true,
+                }, autoClosed: {
+                    name: "autoClosed",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": false }] }],
+                }, pauses: {
+                    name: "pauses",
+                    type: "ItemProcessingPause",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'processingLog',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, clientScanId: {
+                    name: "clientScanId",
+                    fields: ["clientScanId"]
+                },
+            },
+        },
+        itemProcessingPause: {
+            name: 'ItemProcessingPause', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, processingLogId: {
+                    name: "processingLogId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'processingLog',
+                }, processingLog: {
+                    name: "processingLog",
+                    type: "ItemProcessingLog",
+                    isDataModel: true,
+                    backLink: 'pauses',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "processingLogId" },
+                }, reason: {
+                    name: "reason",
+                    type: "WorkPauseReason",
+                }, pausedAt: {
+                    name: "pausedAt",
+                    type: "DateTime",
+                }, resumedAt: {
+                    name: "resumedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        productAttribute: {
+            name: 'ProductAttribute', fields: {
+                id: {
                     name: "id",
                     type: "String",
                     isId: true,
@@ -1460,6 +1956,14 @@ const metadata = {
                     name: "parsingErrors",
                     type: "String",
                     isArray: true,
+                }, parserVersion: {
+                    name: "parserVersion",
+                    type: "Int",
+                    isOptional: true,
+                }, parseConfidence: {
+                    name: "parseConfidence",
+                    type: "Float",
+                    isOptional: true,
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -1653,6 +2157,128 @@ const metadata = {
                 },
             },
         },
+        itemRework: {
+            name: 'ItemRework', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, orderItemId: {
+                    name: "orderItemId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'orderItem',
+                }, orderItem: {
+                    name: "orderItem",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    backLink: 'reworks',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "orderItemId" },
+                }, unitId: {
+                    name: "unitId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'unit',
+                }, unit: {
+                    name: "unit",
+                    type: "OrderItemUnit",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'itemReworks',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "unitId" },
+                }, reason: {
+                    name: "reason",
+                    type: "ReworkReason",
+                }, notes: {
+                    name: "notes",
+                    type: "String",
+                    isOptional: true,
+                }, fromStatus: {
+                    name: "fromStatus",
+                    type: "OrderItemProcessingStatus",
+                }, toStatus: {
+                    name: "toStatus",
+                    type: "OrderItemProcessingStatus",
+                }, toStepName: {
+                    name: "toStepName",
+                    type: "String",
+                    isOptional: true,
+                }, scrapCost: {
+                    name: "scrapCost",
+                    type: "Decimal",
+                    isOptional: true,
+                }, reportedAtStationId: {
+                    name: "reportedAtStationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'reportedAtStation',
+                }, reportedAtStation: {
+                    name: "reportedAtStation",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'reportedReworks',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "reportedAtStationId" },
+                }, reportedById: {
+                    name: "reportedById",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'reportedBy',
+                }, reportedBy: {
+                    name: "reportedBy",
+                    type: "User",
+                    isDataModel: true,
+                    backLink: 'reportedReworks',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "reportedById" },
+                }, responsibleStationId: {
+                    name: "responsibleStationId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'responsibleStation',
+                }, responsibleStation: {
+                    name: "responsibleStation",
+                    type: "Station",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'responsibleReworks',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "responsibleStationId" },
+                }, responsibleUserId: {
+                    name: "responsibleUserId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'responsibleUser',
+                }, responsibleUser: {
+                    name: "responsibleUser",
+                    type: "User",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'responsibleReworks',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "responsibleUserId" },
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
         itemStatusLog: {
             name: 'ItemStatusLog', fields: {
                 id: {
@@ -1673,6 +2299,21 @@ const metadata = {
                     isRelationOwner: true,
                     onDeleteAction: 'Cascade',
                     foreignKeyMapping: { "id": "orderItemId" },
+                }, unitId: {
+                    name: "unitId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'unit',
+                }, unit: {
+                    name: "unit",
+                    type: "OrderItemUnit",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'itemStatusLogs',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "unitId" },
                 }, userId: {
                     name: "userId",
                     type: "String",
@@ -1688,6 +2329,21 @@ const metadata = {
                     isRelationOwner: true,
                     onDeleteAction: 'SetNull',
                     foreignKeyMapping: { "id": "userId" },
+                }, approvedById: {
+                    name: "approvedById",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'approvedBy',
+                }, approvedBy: {
+                    name: "approvedBy",
+                    type: "User",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'approvedStatusChanges',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "approvedById" },
                 }, fromStatus: {
                     name: "fromStatus",
                     type: "OrderItemProcessingStatus",
@@ -1997,23 +2653,168 @@ const metadata = {
                 },
             },
         },
-        estimate: {
-            name: 'Estimate', fields: {
+        quickBooksOutboundSync: {
+            name: 'QuickBooksOutboundSync', fields: {
                 id: {
                     name: "id",
                     type: "String",
                     isId: true,
                     attributes: [{ "name": "@default", "args": [] }],
-                }, quickbooksEstimateId: {
-                    name: "quickbooksEstimateId",
-                    type: "String",
-                }, customerId: {
-                    name: "customerId",
+                }, orderId: {
+                    name: "orderId",
                     type: "String",
                     isForeignKey: true,
-                    relationField: 'customer',
-                }, estimateNumber: {
-                    name: "estimateNumber",
+                    relationField: 'order',
+                }, order: {
+                    name: "order",
+                    type: "Order",
+                    isDataModel: true,
+                    backLink: 'quickbooksSyncs',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "orderId" },
+                }, quickbooksInvoiceId: {
+                    name: "quickbooksInvoiceId",
+                    type: "String",
+                }, status: {
+                    name: "status",
+                    type: "QuickBooksSyncStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, reason: {
+                    name: "reason",
+                    type: "String",
+                    isOptional: true,
+                }, attempts: {
+                    name: "attempts",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, nextAttemptAt: {
+                    name: "nextAttemptAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, lastError: {
+                    name: "lastError",
+                    type: "String",
+                    isOptional: true,
+                }, syncToken: {
+                    name: "syncToken",
+                    type: "String",
+                    isOptional: true,
+                }, pushedValues: {
+                    name: "pushedValues",
+                    type: "Json",
+                    isOptional: true,
+                }, forceOverwrite: {
+                    name: "forceOverwrite",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": false }] }],
+                }, completedAt: {
+                    name: "completedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        backgroundJob: {
+            name: 'BackgroundJob', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, payload: {
+                    name: "payload",
+                    type: "Json",
+                    isOptional: true,
+                }, status: {
+                    name: "status",
+                    type: "BackgroundJobStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, uniqueKey: {
+                    name: "uniqueKey",
+                    type: "String",
+                    isOptional: true,
+                }, runAt: {
+                    name: "runAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, attempts: {
+                    name: "attempts",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, maxAttempts: {
+                    name: "maxAttempts",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 5 }] }],
+                }, lastError: {
+                    name: "lastError",
+                    type: "String",
+                    isOptional: true,
+                }, lockedAt: {
+                    name: "lockedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, lockedBy: {
+                    name: "lockedBy",
+                    type: "String",
+                    isOptional: true,
+                }, completedAt: {
+                    name: "completedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, uniqueKey: {
+                    name: "uniqueKey",
+                    fields: ["uniqueKey"]
+                },
+            },
+        },
+        estimate: {
+            name: 'Estimate', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, quickbooksEstimateId: {
+                    name: "quickbooksEstimateId",
+                    type: "String",
+                    isOptional: true,
+                }, customerId: {
+                    name: "customerId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'customer',
+                }, estimateNumber: {
+                    name: "estimateNumber",
                     type: "String",
                     isOptional: true,
                 }, transactionDate: {
@@ -2027,6 +2828,46 @@ const metadata = {
                 }, totalAmount: {
                     name: "totalAmount",
                     type: "Decimal",
+                }, status: {
+                    name: "status",
+                    type: "EstimateStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, customerEmail: {
+                    name: "customerEmail",
+                    type: "String",
+                    isOptional: true,
+                }, customerMemo: {
+                    name: "customerMemo",
+                    type: "String",
+                    isOptional: true,
+                }, acceptToken: {
+                    name: "acceptToken",
+                    type: "String",
+                    isOptional: true,
+                }, sentAt: {
+                    name: "sentAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, acceptedAt: {
+                    name: "acceptedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, reminderSentAt: {
+                    name: "reminderSentAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, quickbooksSyncToken: {
+                    name: "quickbooksSyncToken",
+                    type: "String",
+                    isOptional: true,
+                }, quickbooksSyncedAt: {
+                    name: "quickbooksSyncedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, quickbooksSyncError: {
+                    name: "quickbooksSyncError",
+                    type: "String",
+                    isOptional: true,
                 }, customer: {
                     name: "customer",
                     type: "Customer",
@@ -2062,6 +2903,9 @@ const metadata = {
                 }, quickbooksEstimateId: {
                     name: "quickbooksEstimateId",
                     fields: ["quickbooksEstimateId"]
+                }, acceptToken: {
+                    name: "acceptToken",
+                    fields: ["acceptToken"]
                 },
             },
         },
@@ -2125,52 +2969,1056 @@ const metadata = {
                 },
             },
         },
-        estimateItem: {
-            name: 'EstimateItem', fields: {
+        shipment: {
+            name: 'Shipment', fields: {
                 id: {
                     name: "id",
                     type: "String",
                     isId: true,
                     attributes: [{ "name": "@default", "args": [] }],
-                }, estimateId: {
-                    name: "estimateId",
+                }, orderId: {
+                    name: "orderId",
                     type: "String",
                     isForeignKey: true,
-                    relationField: 'estimate',
-                }, itemId: {
-                    name: "itemId",
+                    relationField: 'order',
+                }, order: {
+                    name: "order",
+                    type: "Order",
+                    isDataModel: true,
+                    backLink: 'shipments',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "orderId" },
+                }, carrier: {
+                    name: "carrier",
                     type: "String",
-                    isForeignKey: true,
-                    relationField: 'item',
-                }, quickbooksEstimateLineId: {
-                    name: "quickbooksEstimateLineId",
+                }, serviceCode: {
+                    name: "serviceCode",
                     type: "String",
-                    isOptional: true,
-                }, lineDescription: {
-                    name: "lineDescription",
+                }, serviceName: {
+                    name: "serviceName",
                     type: "String",
                     isOptional: true,
-                }, quantity: {
-                    name: "quantity",
-                    type: "Int",
-                }, pricePerItem: {
-                    name: "pricePerItem",
+                }, trackingNumber: {
+                    name: "trackingNumber",
+                    type: "String",
+                }, status: {
+                    name: "status",
+                    type: "ShipmentStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, rateAmount: {
+                    name: "rateAmount",
                     type: "Decimal",
-                }, estimate: {
-                    name: "estimate",
-                    type: "Estimate",
+                    isOptional: true,
+                }, currency: {
+                    name: "currency",
+                    type: "String",
+                    attributes: [{ "name": "@default", "args": [{ "value": "USD" }] }],
+                }, trackingStatus: {
+                    name: "trackingStatus",
+                    type: "String",
+                    isOptional: true,
+                }, estimatedDelivery: {
+                    name: "estimatedDelivery",
+                    type: "DateTime",
+                    isOptional: true,
+                }, deliveredAt: {
+                    name: "deliveredAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, lastTrackedAt: {
+                    name: "lastTrackedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, voidedAt: {
+                    name: "voidedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdById: {
+                    name: "createdById",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'createdBy',
+                }, createdBy: {
+                    name: "createdBy",
+                    type: "User",
                     isDataModel: true,
-                    backLink: 'items',
+                    isOptional: true,
+                    backLink: 'shipments',
                     isRelationOwner: true,
-                    onDeleteAction: 'Cascade',
-                    foreignKeyMapping: { "id": "estimateId" },
-                }, item: {
-                    name: "item",
-                    type: "Item",
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "createdById" },
+                }, packages: {
+                    name: "packages",
+                    type: "ShipmentPackage",
                     isDataModel: true,
-                    backLink: 'estimateItems',
-                    isRelationOwner: true,
-                    foreignKeyMapping: { "id": "itemId" },
+                    isArray: true,
+                    backLink: 'shipment',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        shipmentPackage: {
+            name: 'ShipmentPackage', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, shipmentId: {
+                    name: "shipmentId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'shipment',
+                }, shipment: {
+                    name: "shipment",
+                    type: "Shipment",
+                    isDataModel: true,
+                    backLink: 'packages',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "shipmentId" },
+                }, sequence: {
+                    name: "sequence",
+                    type: "Int",
+                }, trackingNumber: {
+                    name: "trackingNumber",
+                    type: "String",
+                    isOptional: true,
+                }, lengthIn: {
+                    name: "lengthIn",
+                    type: "Decimal",
+                }, widthIn: {
+                    name: "widthIn",
+                    type: "Decimal",
+                }, heightIn: {
+                    name: "heightIn",
+                    type: "Decimal",
+                }, weightLb: {
+                    name: "weightLb",
+                    type: "Decimal",
+                }, orderItemIds: {
+                    name: "orderItemIds",
+                    type: "String",
+                    isArray: true,
+                }, labelFormat: {
+                    name: "labelFormat",
+                    type: "String",
+                    attributes: [{ "name": "@default", "args": [{ "value": "PDF" }] }],
+                }, labelData: {
+                    name: "labelData",
+                    type: "Bytes",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, shipmentId_sequence: {
+                    name: "shipmentId_sequence",
+                    fields: ["shipmentId", "sequence"]
+                },
+            },
+        },
+        customerPortalToken: {
+            name: 'CustomerPortalToken', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, customerId: {
+                    name: "customerId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'customer',
+                }, customer: {
+                    name: "customer",
+                    type: "Customer",
+                    isDataModel: true,
+                    backLink: 'portalTokens',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "customerId" },
+                }, email: {
+                    name: "email",
+                    type: "String",
+                }, tokenHash: {
+                    name: "tokenHash",
+                    type: "String",
+                }, expiresAt: {
+                    name: "expiresAt",
+                    type: "DateTime",
+                }, usedAt: {
+                    name: "usedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, tokenHash: {
+                    name: "tokenHash",
+                    fields: ["tokenHash"]
+                },
+            },
+        },
+        customerPortalSession: {
+            name: 'CustomerPortalSession', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, customerId: {
+                    name: "customerId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'customer',
+                }, customer: {
+                    name: "customer",
+                    type: "Customer",
+                    isDataModel: true,
+                    backLink: 'portalSessions',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "customerId" },
+                }, email: {
+                    name: "email",
+                    type: "String",
+                }, tokenHash: {
+                    name: "tokenHash",
+                    type: "String",
+                }, expiresAt: {
+                    name: "expiresAt",
+                    type: "DateTime",
+                }, lastSeenAt: {
+                    name: "lastSeenAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, revokedAt: {
+                    name: "revokedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, tokenHash: {
+                    name: "tokenHash",
+                    fields: ["tokenHash"]
+                },
+            },
+        },
+        estimateItem: {
+            name: 'EstimateItem', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, estimateId: {
+                    name: "estimateId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'estimate',
+                }, itemId: {
+                    name: "itemId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'item',
+                }, quickbooksEstimateLineId: {
+                    name: "quickbooksEstimateLineId",
+                    type: "String",
+                    isOptional: true,
+                }, lineDescription: {
+                    name: "lineDescription",
+                    type: "String",
+                    isOptional: true,
+                }, quantity: {
+                    name: "quantity",
+                    type: "Int",
+                }, pricePerItem: {
+                    name: "pricePerItem",
+                    type: "Decimal",
+                }, position: {
+                    name: "position",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, productAttributes: {
+                    name: "productAttributes",
+                    type: "Json",
+                    isOptional: true,
+                }, estimate: {
+                    name: "estimate",
+                    type: "Estimate",
+                    isDataModel: true,
+                    backLink: 'items',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "estimateId" },
+                }, item: {
+                    name: "item",
+                    type: "Item",
+                    isDataModel: true,
+                    backLink: 'estimateItems',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "itemId" },
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, quickbooksEstimateLineId: {
+                    name: "quickbooksEstimateLineId",
+                    fields: ["quickbooksEstimateLineId"]
+                },
+            },
+        },
+        material: {
+            name: 'Material', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, sku: {
+                    name: "sku",
+                    type: "String",
+                    isOptional: true,
+                }, category: {
+                    name: "category",
+                    type: "String",
+                    isOptional: true,
+                }, unit: {
+                    name: "unit",
+                    type: "String",
+                }, quantityOnHand: {
+                    name: "quantityOnHand",
+                    type: "Decimal",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, quantityReserved: {
+                    name: "quantityReserved",
+                    type: "Decimal",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, reorderPoint: {
+                    name: "reorderPoint",
+                    type: "Decimal",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, costPerUnit: {
+                    name: "costPerUnit",
+                    type: "Decimal",
+                    isOptional: true,
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, bomRules: {
+                    name: "bomRules",
+                    type: "MaterialBomRule",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'material',
+                }, requirements: {
+                    name: "requirements",
+                    type: "MaterialRequirement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'material',
+                }, transactions: {
+                    name: "transactions",
+                    type: "MaterialTransaction",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'material',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, name: {
+                    name: "name",
+                    fields: ["name"]
+                }, sku: {
+                    name: "sku",
+                    fields: ["sku"]
+                },
+            },
+        },
+        materialBomRule: {
+            name: 'MaterialBomRule', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, materialId: {
+                    name: "materialId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'material',
+                }, material: {
+                    name: "material",
+                    type: "Material",
+                    isDataModel: true,
+                    backLink: 'bomRules',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "materialId" },
+                }, productType: {
+                    name: "productType",
+                    type: "ProductType",
+                    isOptional: true,
+                }, conditions: {
+                    name: "conditions",
+                    type: "Json",
+                    isOptional: true,
+                }, basis: {
+                    name: "basis",
+                    type: "MaterialBomBasis",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, quantityPerUnit: {
+                    name: "quantityPerUnit",
+                    type: "Decimal",
+                }, wastePercent: {
+                    name: "wastePercent",
+                    type: "Decimal",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'materialBomRules',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "stationId" },
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        materialRequirement: {
+            name: 'MaterialRequirement', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, orderItemId: {
+                    name: "orderItemId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'orderItem',
+                }, orderItem: {
+                    name: "orderItem",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    backLink: 'materialRequirements',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "orderItemId" },
+                }, materialId: {
+                    name: "materialId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'material',
+                }, material: {
+                    name: "material",
+                    type: "Material",
+                    isDataModel: true,
+                    backLink: 'requirements',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "materialId" },
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'materialRequirements',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "stationId" },
+                }, quantity: {
+                    name: "quantity",
+                    type: "Decimal",
+                }, status: {
+                    name: "status",
+                    type: "MaterialRequirementStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, consumedAt: {
+                    name: "consumedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, consumedQuantity: {
+                    name: "consumedQuantity",
+                    type: "Decimal",
+                    attributes: [{ "name": "@default", "args": [{ "value": 0 }] }],
+                }, consumedUnitIds: {
+                    name: "consumedUnitIds",
+                    type: "String",
+                    isArray: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, orderItemId_materialId_stationId: {
+                    name: "orderItemId_materialId_stationId",
+                    fields: ["orderItemId", "materialId", "stationId"]
+                },
+            },
+        },
+        materialTransaction: {
+            name: 'MaterialTransaction', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, materialId: {
+                    name: "materialId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'material',
+                }, material: {
+                    name: "material",
+                    type: "Material",
+                    isDataModel: true,
+                    backLink: 'transactions',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "materialId" },
+                }, type: {
+                    name: "type",
+                    type: "MaterialTransactionType",
+                }, quantity: {
+                    name: "quantity",
+                    type: "Decimal",
+                }, orderItemId: {
+                    name: "orderItemId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'orderItem',
+                }, orderItem: {
+                    name: "orderItem",
+                    type: "OrderItem",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'materialTransactions',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "orderItemId" },
+                }, userId: {
+                    name: "userId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'user',
+                }, user: {
+                    name: "user",
+                    type: "User",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'materialTransactions',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "userId" },
+                }, notes: {
+                    name: "notes",
+                    type: "String",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        labelPrinter: {
+            name: 'LabelPrinter', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'labelPrinters',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "stationId" },
+                }, host: {
+                    name: "host",
+                    type: "String",
+                }, port: {
+                    name: "port",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 9100 }] }],
+                }, format: {
+                    name: "format",
+                    type: "LabelPrinterFormat",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, dpi: {
+                    name: "dpi",
+                    type: "Int",
+                    attributes: [{ "name": "@default", "args": [{ "value": 203 }] }],
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, lastPrintedAt: {
+                    name: "lastPrintedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, lastError: {
+                    name: "lastError",
+                    type: "String",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, name: {
+                    name: "name",
+                    fields: ["name"]
+                },
+            },
+        },
+        pieceRate: {
+            name: 'PieceRate', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, stationId: {
+                    name: "stationId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'station',
+                }, station: {
+                    name: "station",
+                    type: "Station",
+                    isDataModel: true,
+                    backLink: 'pieceRates',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "stationId" },
+                }, productType: {
+                    name: "productType",
+                    type: "ProductType",
+                    isOptional: true,
+                }, conditions: {
+                    name: "conditions",
+                    type: "Json",
+                    isOptional: true,
+                }, minSizeIn: {
+                    name: "minSizeIn",
+                    type: "Int",
+                    isOptional: true,
+                }, maxSizeIn: {
+                    name: "maxSizeIn",
+                    type: "Int",
+                    isOptional: true,
+                }, basis: {
+                    name: "basis",
+                    type: "PieceRateBasis",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, rate: {
+                    name: "rate",
+                    type: "Decimal",
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        payPeriod: {
+            name: 'PayPeriod', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, startDate: {
+                    name: "startDate",
+                    type: "DateTime",
+                }, endDate: {
+                    name: "endDate",
+                    type: "DateTime",
+                }, status: {
+                    name: "status",
+                    type: "PayPeriodStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, lockedAt: {
+                    name: "lockedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, lockedById: {
+                    name: "lockedById",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'lockedBy',
+                }, lockedBy: {
+                    name: "lockedBy",
+                    type: "User",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'lockedPayPeriods',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "lockedById" },
+                }, statements: {
+                    name: "statements",
+                    type: "PayStatement",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'payPeriod',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, startDate_endDate: {
+                    name: "startDate_endDate",
+                    fields: ["startDate", "endDate"]
+                },
+            },
+        },
+        payStatement: {
+            name: 'PayStatement', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, payPeriodId: {
+                    name: "payPeriodId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'payPeriod',
+                }, payPeriod: {
+                    name: "payPeriod",
+                    type: "PayPeriod",
+                    isDataModel: true,
+                    backLink: 'statements',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "payPeriodId" },
+                }, userId: {
+                    name: "userId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'user',
+                }, user: {
+                    name: "user",
+                    type: "User",
+                    isDataModel: true,
+                    backLink: 'payStatements',
+                    isRelationOwner: true,
+                    foreignKeyMapping: { "id": "userId" },
+                }, hours: {
+                    name: "hours",
+                    type: "Decimal",
+                }, pieces: {
+                    name: "pieces",
+                    type: "Int",
+                }, hourlyRate: {
+                    name: "hourlyRate",
+                    type: "Decimal",
+                    isOptional: true,
+                }, hourlyPay: {
+                    name: "hourlyPay",
+                    type: "Decimal",
+                }, piecePay: {
+                    name: "piecePay",
+                    type: "Decimal",
+                }, totalPay: {
+                    name: "totalPay",
+                    type: "Decimal",
+                }, lines: {
+                    name: "lines",
+                    type: "Json",
+                }, status: {
+                    name: "status",
+                    type: "PayStatementStatus",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, approvedById: {
+                    name: "approvedById",
+                    type: "String",
+                    isOptional: true,
+                    isForeignKey: true,
+                    relationField: 'approvedBy',
+                }, approvedBy: {
+                    name: "approvedBy",
+                    type: "User",
+                    isDataModel: true,
+                    isOptional: true,
+                    backLink: 'approvedPayStatements',
+                    isRelationOwner: true,
+                    onDeleteAction: 'SetNull',
+                    foreignKeyMapping: { "id": "approvedById" },
+                }, approvedAt: {
+                    name: "approvedAt",
+                    type: "DateTime",
+                    isOptional: true,
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                }, payPeriodId_userId: {
+                    name: "payPeriodId_userId",
+                    fields: ["payPeriodId", "userId"]
+                },
+            },
+        },
+        priceList: {
+            name: 'PriceList', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, customerType: {
+                    name: "customerType",
+                    type: "CustomerType",
+                }, effectiveFrom: {
+                    name: "effectiveFrom",
+                    type: "DateTime",
+                }, effectiveTo: {
+                    name: "effectiveTo",
+                    type: "DateTime",
+                    isOptional: true,
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
+                }, notes: {
+                    name: "notes",
+                    type: "String",
+                    isOptional: true,
+                }, rules: {
+                    name: "rules",
+                    type: "PriceRule",
+                    isDataModel: true,
+                    isArray: true,
+                    backLink: 'priceList',
+                }, createdAt: {
+                    name: "createdAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, updatedAt: {
+                    name: "updatedAt",
+                    type: "DateTime",
+                    attributes: [{ "name": "@updatedAt", "args": [] }],
+                },
+            }, uniqueConstraints: {
+                id: {
+                    name: "id",
+                    fields: ["id"]
+                },
+            },
+        },
+        priceRule: {
+            name: 'PriceRule', fields: {
+                id: {
+                    name: "id",
+                    type: "String",
+                    isId: true,
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, priceListId: {
+                    name: "priceListId",
+                    type: "String",
+                    isForeignKey: true,
+                    relationField: 'priceList',
+                }, priceList: {
+                    name: "priceList",
+                    type: "PriceList",
+                    isDataModel: true,
+                    backLink: 'rules',
+                    isRelationOwner: true,
+                    onDeleteAction: 'Cascade',
+                    foreignKeyMapping: { "id": "priceListId" },
+                }, kind: {
+                    name: "kind",
+                    type: "PriceRuleKind",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, name: {
+                    name: "name",
+                    type: "String",
+                }, productType: {
+                    name: "productType",
+                    type: "ProductType",
+                    isOptional: true,
+                }, conditions: {
+                    name: "conditions",
+                    type: "Json",
+                    isOptional: true,
+                }, minSizeIn: {
+                    name: "minSizeIn",
+                    type: "Int",
+                    isOptional: true,
+                }, maxSizeIn: {
+                    name: "maxSizeIn",
+                    type: "Int",
+                    isOptional: true,
+                }, basis: {
+                    name: "basis",
+                    type: "PriceRuleBasis",
+                    attributes: [{ "name": "@default", "args": [] }],
+                }, amount: {
+                    name: "amount",
+                    type: "Decimal",
+                }, isActive: {
+                    name: "isActive",
+                    type: "Boolean",
+                    attributes: [{ "name": "@default", "args": [{ "value": true }] }],
                 }, createdAt: {
                     name: "createdAt",
                     type: "DateTime",
@@ -2184,9 +4032,6 @@ const metadata = {
                 id: {
                     name: "id",
                     fields: ["id"]
-                }, quickbooksEstimateLineId: {
-                    name: "quickbooksEstimateLineId",
-                    fields: ["quickbooksEstimateLineId"]
                 },
             },
         },
@@ -2196,10 +4041,17 @@ const metadata = {
         user: ['UserRole', 'Session', 'Account'],
         role: ['UserRole', 'RolePermission', 'RoleStation'],
         permission: ['RolePermission'],
-        station: ['RoleStation'],
-        order: ['OrderItem', 'OrderStatusLog'],
-        orderItem: ['ItemProcessingLog', 'ProductAttribute', 'PrintQueue', 'ItemStatusLog'],
+        customer: ['CustomerPortalToken', 'CustomerPortalSession'],
+        station: ['RoleStation', 'PieceRate'],
+        workflow: ['WorkflowStep'],
+        order: ['OrderItem', 'OrderStatusLog', 'QuickBooksOutboundSync', 'Shipment'],
+        orderItem: ['OrderItemUnit', 'ItemProcessingLog', 'ProductAttribute', 'PrintQueue', 'ItemRework', 'ItemStatusLog', 'MaterialRequirement'],
+        itemProcessingLog: ['ItemProcessingPause'],
         estimate: ['EstimateItem'],
+        shipment: ['ShipmentPackage'],
+        material: ['MaterialBomRule', 'MaterialRequirement', 'MaterialTransaction'],
+        payPeriod: ['PayStatement'],
+        priceList: ['PriceRule'],
 
     },
     authModel: 'User'
@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, BackgroundJob } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobCreateArgs, DefaultError, BackgroundJob, true>('BackgroundJob', 'POST', `${endpoint}/backgroundJob/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('BackgroundJob', 'POST', `${endpoint}/backgroundJob/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyBackgroundJob<TArgs extends Prisma.BackgroundJobFindManyArgs, TQueryFnData = Array<Prisma.BackgroundJobGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyBackgroundJob<TArgs extends Prisma.BackgroundJobFindManyArgs, TQueryFnData = Array<Prisma.BackgroundJobGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueBackgroundJob<TArgs extends Prisma.BackgroundJobFindUniqueArgs, TQueryFnData = Prisma.BackgroundJobGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstBackgroundJob<TArgs extends Prisma.BackgroundJobFindFirstArgs, TQueryFnData = Prisma.BackgroundJobGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/findFirst`, args, options, fetch);
+}
+
+export function useUpdateBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobUpdateArgs, DefaultError, BackgroundJob, true>('BackgroundJob', 'PUT', `${endpoint}/backgroundJob/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('BackgroundJob', 'PUT', `${endpoint}/backgroundJob/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobUpsertArgs, DefaultError, BackgroundJob, true>('BackgroundJob', 'POST', `${endpoint}/backgroundJob/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(BackgroundJob | undefined), DefaultError, Prisma.BackgroundJobDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobDeleteArgs, DefaultError, BackgroundJob, true>('BackgroundJob', 'DELETE', `${endpoint}/backgroundJob/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, BackgroundJob, Prisma.BackgroundJobGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyBackgroundJob(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.BackgroundJobDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.BackgroundJobDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('BackgroundJob', 'DELETE', `${endpoint}/backgroundJob/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.BackgroundJobDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.BackgroundJobDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateBackgroundJob<TArgs extends Prisma.BackgroundJobAggregateArgs, TQueryFnData = Prisma.GetBackgroundJobAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/aggregate`, args, options, fetch);
+}
+
+export function useGroupByBackgroundJob<TArgs extends Prisma.BackgroundJobGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.BackgroundJobGroupByArgs['orderBy'] } : { orderBy?: Prisma.BackgroundJobGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.BackgroundJobGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.BackgroundJobGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.BackgroundJobGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.BackgroundJobGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.BackgroundJobGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.BackgroundJobGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/groupBy`, args, options, fetch);
+}
+
+export function useCountBackgroundJob<TArgs extends Prisma.BackgroundJobCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.BackgroundJobCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.BackgroundJobCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('BackgroundJob', `${endpoint}/backgroundJob/count`, args, options, fetch);
+}
+import type { BackgroundJobStatus } from '@prisma-app/client';
+
+export function useCheckBackgroundJob<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; status?: BackgroundJobStatus; uniqueKey?: string; attempts?: number; maxAttempts?: number; lastError?: string; lockedBy?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('BackgroundJob', `${endpoint}/backgroundJob/check`, args, options, fetch);
+}
@@ -0,0 +1,246 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, CustomerPortalSession } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionCreateArgs, DefaultError, CustomerPortalSession, true>('CustomerPortalSession', 'POST', `${endpoint}/customerPortalSession/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalSession', 'POST', `${endpoint}/customerPortalSession/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionFindManyArgs, TQueryFnData = Array<Prisma.CustomerPortalSessionGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionFindManyArgs, TQueryFnData = Array<Prisma.CustomerPortalSessionGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionFindUniqueArgs, TQueryFnData = Prisma.CustomerPortalSessionGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionFindFirstArgs, TQueryFnData = Prisma.CustomerPortalSessionGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/findFirst`, args, options, fetch);
+}
+
+export function useUpdateCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionUpdateArgs, DefaultError, CustomerPortalSession, true>('CustomerPortalSession', 'PUT', `${endpoint}/customerPortalSession/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalSession', 'PUT', `${endpoint}/customerPortalSession/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionUpsertArgs, DefaultError, CustomerPortalSession, true>('CustomerPortalSession', 'POST', `${endpoint}/customerPortalSession/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalSession | undefined), DefaultError, Prisma.CustomerPortalSessionDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionDeleteArgs, DefaultError, CustomerPortalSession, true>('CustomerPortalSession', 'DELETE', `${endpoint}/customerPortalSession/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalSession, Prisma.CustomerPortalSessionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyCustomerPortalSession(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalSessionDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalSessionDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalSession', 'DELETE', `${endpoint}/customerPortalSession/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalSessionDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalSessionDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionAggregateArgs, TQueryFnData = Prisma.GetCustomerPortalSessionAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/aggregate`, args, options, fetch);
+}
+
+export function useGroupByCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.CustomerPortalSessionGroupByArgs['orderBy'] } : { orderBy?: Prisma.CustomerPortalSessionGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.CustomerPortalSessionGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.CustomerPortalSessionGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.CustomerPortalSessionGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.CustomerPortalSessionGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.CustomerPortalSessionGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.CustomerPortalSessionGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/groupBy`, args, options, fetch);
+}
+
+export function useCountCustomerPortalSession<TArgs extends Prisma.CustomerPortalSessionCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.CustomerPortalSessionCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalSessionCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/count`, args, options, fetch);
+}
+
+export function useCheckCustomerPortalSession<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; customerId?: string; email?: string; tokenHash?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('CustomerPortalSession', `${endpoint}/customerPortalSession/check`, args, options, fetch);
+}
@@ -0,0 +1,246 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, CustomerPortalToken } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenCreateArgs, DefaultError, CustomerPortalToken, true>('CustomerPortalToken', 'POST', `${endpoint}/customerPortalToken/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalToken', 'POST', `${endpoint}/customerPortalToken/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenFindManyArgs, TQueryFnData = Array<Prisma.CustomerPortalTokenGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenFindManyArgs, TQueryFnData = Array<Prisma.CustomerPortalTokenGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenFindUniqueArgs, TQueryFnData = Prisma.CustomerPortalTokenGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenFindFirstArgs, TQueryFnData = Prisma.CustomerPortalTokenGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/findFirst`, args, options, fetch);
+}
+
+export function useUpdateCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenUpdateArgs, DefaultError, CustomerPortalToken, true>('CustomerPortalToken', 'PUT', `${endpoint}/customerPortalToken/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalToken', 'PUT', `${endpoint}/customerPortalToken/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenUpsertArgs, DefaultError, CustomerPortalToken, true>('CustomerPortalToken', 'POST', `${endpoint}/customerPortalToken/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(CustomerPortalToken | undefined), DefaultError, Prisma.CustomerPortalTokenDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenDeleteArgs, DefaultError, CustomerPortalToken, true>('CustomerPortalToken', 'DELETE', `${endpoint}/customerPortalToken/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, CustomerPortalToken, Prisma.CustomerPortalTokenGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyCustomerPortalToken(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.CustomerPortalTokenDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.CustomerPortalTokenDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('CustomerPortalToken', 'DELETE', `${endpoint}/customerPortalToken/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.CustomerPortalTokenDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.CustomerPortalTokenDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenAggregateArgs, TQueryFnData = Prisma.GetCustomerPortalTokenAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/aggregate`, args, options, fetch);
+}
+
+export function useGroupByCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.CustomerPortalTokenGroupByArgs['orderBy'] } : { orderBy?: Prisma.CustomerPortalTokenGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.CustomerPortalTokenGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.CustomerPortalTokenGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.CustomerPortalTokenGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.CustomerPortalTokenGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.CustomerPortalTokenGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.CustomerPortalTokenGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/groupBy`, args, options, fetch);
+}
+
+export function useCountCustomerPortalToken<TArgs extends Prisma.CustomerPortalTokenCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.CustomerPortalTokenCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.CustomerPortalTokenCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/count`, args, options, fetch);
+}
+
+export function useCheckCustomerPortalToken<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; customerId?: string; email?: string; tokenHash?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('CustomerPortalToken', `${endpoint}/customerPortalToken/check`, args, options, fetch);
+}
@@ -240,7 +240,7 @@ export function useCountEstimateItem<TArgs extends Prisma.EstimateItemCountArgs,
     return useModelQuery<TQueryFnData, TData, TError>('EstimateItem', `${endpoint}/estimateItem/count`, args, options, fetch);
 }
 
-export function useCheckEstimateItem<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; estimateId?: string; itemId?: string; quickbooksEstimateLineId?: string; lineDescription?: string; quantity?: number }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckEstimateItem<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; estimateId?: string; itemId?: string; quickbooksEstimateLineId?: string; lineDescription?: string; quantity?: number; position?: number }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('EstimateItem', `${endpoint}/estimateItem/check`, args, options, fetch);
 }
@@ -239,8 +239,9 @@ export function useCountEstimate<TArgs extends Prisma.EstimateCountArgs, TQueryF
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<TQueryFnData, TData, TError>('Estimate', `${endpoint}/estimate/count`, args, options, fetch);
 }
+import type { EstimateStatus } from '@prisma-app/client';
 
-export function useCheckEstimate<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; quickbooksEstimateId?: string; customerId?: string; estimateNumber?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckEstimate<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; quickbooksEstimateId?: string; customerId?: string; estimateNumber?: string; status?: EstimateStatus; customerEmail?: string; customerMemo?: string; acceptToken?: string; quickbooksSyncToken?: string; quickbooksSyncError?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('Estimate', `${endpoint}/estimate/check`, args, options, fetch);
 }
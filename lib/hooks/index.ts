@@ -17,22 +17,43 @@ export * from './product';
 export * from './station';
 export * from './barcode-scanner';
 export * from './role-station';
+export * from './workflow';
+export * from './workflow-step';
 export * from './order';
 export * from './order-item';
+export * from './order-item-unit';
 export * from './item-processing-log';
+export * from './item-processing-pause';
 export * from './product-attribute';
 export * from './print-queue';
 export * from './audit-log';
 export * from './order-status-log';
+export * from './item-rework';
 export * from './item-status-log';
 export * from './session';
 export * from './account';
 export * from './verification';
 export * from './quickbooks-token';
 export * from './quick-books-integration';
+export * from './quick-books-outbound-sync';
+export * from './background-job';
 export * from './estimate';
 export * from './email-notification';
+export * from './shipment';
+export * from './shipment-package';
+export * from './customer-portal-token';
+export * from './customer-portal-session';
 export * from './estimate-item';
+export * from './material';
+export * from './material-bom-rule';
+export * from './material-requirement';
+export * from './material-transaction';
+export * from './label-printer';
+export * from './piece-rate';
+export * from './pay-period';
+export * from './pay-statement';
+export * from './price-list';
+export * from './price-rule';
 export { getQueryKey } from '@zenstackhq/tanstack-query/runtime-v5';
 export { VueQueryContextKey, provideHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
 export { default as metadata } from './__model_meta';
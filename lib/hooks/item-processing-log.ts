@@ -240,7 +240,7 @@ export function useCountItemProcessingLog<TArgs extends Prisma.ItemProcessingLog
     return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingLog', `${endpoint}/itemProcessingLog/count`, args, options, fetch);
 }
 
-export function useCheckItemProcessingLog<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; stationId?: string; userId?: string; durationInSeconds?: number; notes?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckItemProcessingLog<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; unitId?: string; stationId?: string; userId?: string; durationInSeconds?: number; notes?: string; clientScanId?: string; autoClosed?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('ItemProcessingLog', `${endpoint}/itemProcessingLog/check`, args, options, fetch);
 }
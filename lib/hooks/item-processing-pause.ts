@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, ItemProcessingPause } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseCreateArgs, DefaultError, ItemProcessingPause, true>('ItemProcessingPause', 'POST', `${endpoint}/itemProcessingPause/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemProcessingPause', 'POST', `${endpoint}/itemProcessingPause/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseFindManyArgs, TQueryFnData = Array<Prisma.ItemProcessingPauseGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseFindManyArgs, TQueryFnData = Array<Prisma.ItemProcessingPauseGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseFindUniqueArgs, TQueryFnData = Prisma.ItemProcessingPauseGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseFindFirstArgs, TQueryFnData = Prisma.ItemProcessingPauseGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/findFirst`, args, options, fetch);
+}
+
+export function useUpdateItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseUpdateArgs, DefaultError, ItemProcessingPause, true>('ItemProcessingPause', 'PUT', `${endpoint}/itemProcessingPause/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemProcessingPause', 'PUT', `${endpoint}/itemProcessingPause/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseUpsertArgs, DefaultError, ItemProcessingPause, true>('ItemProcessingPause', 'POST', `${endpoint}/itemProcessingPause/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemProcessingPause | undefined), DefaultError, Prisma.ItemProcessingPauseDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseDeleteArgs, DefaultError, ItemProcessingPause, true>('ItemProcessingPause', 'DELETE', `${endpoint}/itemProcessingPause/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemProcessingPause, Prisma.ItemProcessingPauseGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyItemProcessingPause(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemProcessingPauseDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemProcessingPauseDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemProcessingPause', 'DELETE', `${endpoint}/itemProcessingPause/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemProcessingPauseDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemProcessingPauseDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseAggregateArgs, TQueryFnData = Prisma.GetItemProcessingPauseAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/aggregate`, args, options, fetch);
+}
+
+export function useGroupByItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.ItemProcessingPauseGroupByArgs['orderBy'] } : { orderBy?: Prisma.ItemProcessingPauseGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.ItemProcessingPauseGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.ItemProcessingPauseGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.ItemProcessingPauseGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.ItemProcessingPauseGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ItemProcessingPauseGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ItemProcessingPauseGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/groupBy`, args, options, fetch);
+}
+
+export function useCountItemProcessingPause<TArgs extends Prisma.ItemProcessingPauseCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.ItemProcessingPauseCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemProcessingPauseCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/count`, args, options, fetch);
+}
+import type { WorkPauseReason } from '@prisma-app/client';
+
+export function useCheckItemProcessingPause<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; processingLogId?: string; reason?: WorkPauseReason }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('ItemProcessingPause', `${endpoint}/itemProcessingPause/check`, args, options, fetch);
+}
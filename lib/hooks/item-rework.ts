@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, ItemRework } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkCreateArgs, DefaultError, ItemRework, true>('ItemRework', 'POST', `${endpoint}/itemRework/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemRework', 'POST', `${endpoint}/itemRework/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyItemRework<TArgs extends Prisma.ItemReworkFindManyArgs, TQueryFnData = Array<Prisma.ItemReworkGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyItemRework<TArgs extends Prisma.ItemReworkFindManyArgs, TQueryFnData = Array<Prisma.ItemReworkGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueItemRework<TArgs extends Prisma.ItemReworkFindUniqueArgs, TQueryFnData = Prisma.ItemReworkGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstItemRework<TArgs extends Prisma.ItemReworkFindFirstArgs, TQueryFnData = Prisma.ItemReworkGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/findFirst`, args, options, fetch);
+}
+
+export function useUpdateItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkUpdateArgs, DefaultError, ItemRework, true>('ItemRework', 'PUT', `${endpoint}/itemRework/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemRework', 'PUT', `${endpoint}/itemRework/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkUpsertArgs, DefaultError, ItemRework, true>('ItemRework', 'POST', `${endpoint}/itemRework/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(ItemRework | undefined), DefaultError, Prisma.ItemReworkDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkDeleteArgs, DefaultError, ItemRework, true>('ItemRework', 'DELETE', `${endpoint}/itemRework/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ItemRework, Prisma.ItemReworkGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyItemRework(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ItemReworkDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ItemReworkDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('ItemRework', 'DELETE', `${endpoint}/itemRework/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ItemReworkDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ItemReworkDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ItemReworkDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateItemRework<TArgs extends Prisma.ItemReworkAggregateArgs, TQueryFnData = Prisma.GetItemReworkAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/aggregate`, args, options, fetch);
+}
+
+export function useGroupByItemRework<TArgs extends Prisma.ItemReworkGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.ItemReworkGroupByArgs['orderBy'] } : { orderBy?: Prisma.ItemReworkGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.ItemReworkGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.ItemReworkGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.ItemReworkGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.ItemReworkGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ItemReworkGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ItemReworkGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/groupBy`, args, options, fetch);
+}
+
+export function useCountItemRework<TArgs extends Prisma.ItemReworkCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.ItemReworkCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ItemReworkCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ItemReworkCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ItemRework', `${endpoint}/itemRework/count`, args, options, fetch);
+}
+import type { ReworkReason, OrderItemProcessingStatus } from '@prisma-app/client';
+
+export function useCheckItemRework<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; unitId?: string; reason?: ReworkReason; notes?: string; fromStatus?: OrderItemProcessingStatus; toStatus?: OrderItemProcessingStatus; toStepName?: string; reportedAtStationId?: string; reportedById?: string; responsibleStationId?: string; responsibleUserId?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('ItemRework', `${endpoint}/itemRework/check`, args, options, fetch);
+}
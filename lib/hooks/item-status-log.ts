@@ -241,7 +241,7 @@ export function useCountItemStatusLog<TArgs extends Prisma.ItemStatusLogCountArg
 }
 import type { OrderItemProcessingStatus } from '@prisma-app/client';
 
-export function useCheckItemStatusLog<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; userId?: string; fromStatus?: OrderItemProcessingStatus; toStatus?: OrderItemProcessingStatus; changeReason?: string; triggeredBy?: string; notes?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckItemStatusLog<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; unitId?: string; userId?: string; approvedById?: string; fromStatus?: OrderItemProcessingStatus; toStatus?: OrderItemProcessingStatus; changeReason?: string; triggeredBy?: string; notes?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('ItemStatusLog', `${endpoint}/itemStatusLog/check`, args, options, fetch);
 }
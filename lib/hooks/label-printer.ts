@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, LabelPrinter } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterCreateArgs, DefaultError, LabelPrinter, true>('LabelPrinter', 'POST', `${endpoint}/labelPrinter/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('LabelPrinter', 'POST', `${endpoint}/labelPrinter/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyLabelPrinter<TArgs extends Prisma.LabelPrinterFindManyArgs, TQueryFnData = Array<Prisma.LabelPrinterGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyLabelPrinter<TArgs extends Prisma.LabelPrinterFindManyArgs, TQueryFnData = Array<Prisma.LabelPrinterGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueLabelPrinter<TArgs extends Prisma.LabelPrinterFindUniqueArgs, TQueryFnData = Prisma.LabelPrinterGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstLabelPrinter<TArgs extends Prisma.LabelPrinterFindFirstArgs, TQueryFnData = Prisma.LabelPrinterGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/findFirst`, args, options, fetch);
+}
+
+export function useUpdateLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterUpdateArgs, DefaultError, LabelPrinter, true>('LabelPrinter', 'PUT', `${endpoint}/labelPrinter/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('LabelPrinter', 'PUT', `${endpoint}/labelPrinter/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterUpsertArgs, DefaultError, LabelPrinter, true>('LabelPrinter', 'POST', `${endpoint}/labelPrinter/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(LabelPrinter | undefined), DefaultError, Prisma.LabelPrinterDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterDeleteArgs, DefaultError, LabelPrinter, true>('LabelPrinter', 'DELETE', `${endpoint}/labelPrinter/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, LabelPrinter, Prisma.LabelPrinterGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyLabelPrinter(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.LabelPrinterDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.LabelPrinterDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('LabelPrinter', 'DELETE', `${endpoint}/labelPrinter/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.LabelPrinterDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.LabelPrinterDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateLabelPrinter<TArgs extends Prisma.LabelPrinterAggregateArgs, TQueryFnData = Prisma.GetLabelPrinterAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/aggregate`, args, options, fetch);
+}
+
+export function useGroupByLabelPrinter<TArgs extends Prisma.LabelPrinterGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.LabelPrinterGroupByArgs['orderBy'] } : { orderBy?: Prisma.LabelPrinterGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.LabelPrinterGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.LabelPrinterGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.LabelPrinterGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.LabelPrinterGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.LabelPrinterGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.LabelPrinterGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/groupBy`, args, options, fetch);
+}
+
+export function useCountLabelPrinter<TArgs extends Prisma.LabelPrinterCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.LabelPrinterCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.LabelPrinterCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('LabelPrinter', `${endpoint}/labelPrinter/count`, args, options, fetch);
+}
+import type { LabelPrinterFormat } from '@prisma-app/client';
+
+export function useCheckLabelPrinter<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; stationId?: string; host?: string; port?: number; format?: LabelPrinterFormat; dpi?: number; isActive?: boolean; lastError?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('LabelPrinter', `${endpoint}/labelPrinter/check`, args, options, fetch);
+}
@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, MaterialBomRule } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleCreateArgs, DefaultError, MaterialBomRule, true>('MaterialBomRule', 'POST', `${endpoint}/materialBomRule/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialBomRule', 'POST', `${endpoint}/materialBomRule/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyMaterialBomRule<TArgs extends Prisma.MaterialBomRuleFindManyArgs, TQueryFnData = Array<Prisma.MaterialBomRuleGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyMaterialBomRule<TArgs extends Prisma.MaterialBomRuleFindManyArgs, TQueryFnData = Array<Prisma.MaterialBomRuleGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueMaterialBomRule<TArgs extends Prisma.MaterialBomRuleFindUniqueArgs, TQueryFnData = Prisma.MaterialBomRuleGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstMaterialBomRule<TArgs extends Prisma.MaterialBomRuleFindFirstArgs, TQueryFnData = Prisma.MaterialBomRuleGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/findFirst`, args, options, fetch);
+}
+
+export function useUpdateMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleUpdateArgs, DefaultError, MaterialBomRule, true>('MaterialBomRule', 'PUT', `${endpoint}/materialBomRule/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialBomRule', 'PUT', `${endpoint}/materialBomRule/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleUpsertArgs, DefaultError, MaterialBomRule, true>('MaterialBomRule', 'POST', `${endpoint}/materialBomRule/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialBomRule | undefined), DefaultError, Prisma.MaterialBomRuleDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleDeleteArgs, DefaultError, MaterialBomRule, true>('MaterialBomRule', 'DELETE', `${endpoint}/materialBomRule/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialBomRule, Prisma.MaterialBomRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyMaterialBomRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialBomRuleDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialBomRuleDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialBomRule', 'DELETE', `${endpoint}/materialBomRule/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialBomRuleDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialBomRuleDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateMaterialBomRule<TArgs extends Prisma.MaterialBomRuleAggregateArgs, TQueryFnData = Prisma.GetMaterialBomRuleAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/aggregate`, args, options, fetch);
+}
+
+export function useGroupByMaterialBomRule<TArgs extends Prisma.MaterialBomRuleGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.MaterialBomRuleGroupByArgs['orderBy'] } : { orderBy?: Prisma.MaterialBomRuleGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.MaterialBomRuleGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.MaterialBomRuleGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialBomRuleGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialBomRuleGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialBomRuleGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialBomRuleGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/groupBy`, args, options, fetch);
+}
+
+export function useCountMaterialBomRule<TArgs extends Prisma.MaterialBomRuleCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.MaterialBomRuleCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialBomRuleCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialBomRule', `${endpoint}/materialBomRule/count`, args, options, fetch);
+}
+import type { ProductType, MaterialBomBasis } from '@prisma-app/client';
+
+export function useCheckMaterialBomRule<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; materialId?: string; productType?: ProductType; basis?: MaterialBomBasis; stationId?: string; isActive?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('MaterialBomRule', `${endpoint}/materialBomRule/check`, args, options, fetch);
+}
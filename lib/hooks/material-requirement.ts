@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, MaterialRequirement } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementCreateArgs, DefaultError, MaterialRequirement, true>('MaterialRequirement', 'POST', `${endpoint}/materialRequirement/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialRequirement', 'POST', `${endpoint}/materialRequirement/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyMaterialRequirement<TArgs extends Prisma.MaterialRequirementFindManyArgs, TQueryFnData = Array<Prisma.MaterialRequirementGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyMaterialRequirement<TArgs extends Prisma.MaterialRequirementFindManyArgs, TQueryFnData = Array<Prisma.MaterialRequirementGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueMaterialRequirement<TArgs extends Prisma.MaterialRequirementFindUniqueArgs, TQueryFnData = Prisma.MaterialRequirementGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstMaterialRequirement<TArgs extends Prisma.MaterialRequirementFindFirstArgs, TQueryFnData = Prisma.MaterialRequirementGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/findFirst`, args, options, fetch);
+}
+
+export function useUpdateMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementUpdateArgs, DefaultError, MaterialRequirement, true>('MaterialRequirement', 'PUT', `${endpoint}/materialRequirement/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialRequirement', 'PUT', `${endpoint}/materialRequirement/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementUpsertArgs, DefaultError, MaterialRequirement, true>('MaterialRequirement', 'POST', `${endpoint}/materialRequirement/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialRequirement | undefined), DefaultError, Prisma.MaterialRequirementDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementDeleteArgs, DefaultError, MaterialRequirement, true>('MaterialRequirement', 'DELETE', `${endpoint}/materialRequirement/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialRequirement, Prisma.MaterialRequirementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyMaterialRequirement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialRequirementDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialRequirementDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialRequirement', 'DELETE', `${endpoint}/materialRequirement/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialRequirementDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialRequirementDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateMaterialRequirement<TArgs extends Prisma.MaterialRequirementAggregateArgs, TQueryFnData = Prisma.GetMaterialRequirementAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/aggregate`, args, options, fetch);
+}
+
+export function useGroupByMaterialRequirement<TArgs extends Prisma.MaterialRequirementGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.MaterialRequirementGroupByArgs['orderBy'] } : { orderBy?: Prisma.MaterialRequirementGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.MaterialRequirementGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.MaterialRequirementGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialRequirementGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialRequirementGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialRequirementGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialRequirementGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/groupBy`, args, options, fetch);
+}
+
+export function useCountMaterialRequirement<TArgs extends Prisma.MaterialRequirementCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.MaterialRequirementCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialRequirementCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialRequirement', `${endpoint}/materialRequirement/count`, args, options, fetch);
+}
+import type { MaterialRequirementStatus } from '@prisma-app/client';
+
+export function useCheckMaterialRequirement<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; materialId?: string; stationId?: string; status?: MaterialRequirementStatus; consumedUnitIds?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('MaterialRequirement', `${endpoint}/materialRequirement/check`, args, options, fetch);
+}
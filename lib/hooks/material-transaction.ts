@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, MaterialTransaction } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionCreateArgs, DefaultError, MaterialTransaction, true>('MaterialTransaction', 'POST', `${endpoint}/materialTransaction/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialTransaction', 'POST', `${endpoint}/materialTransaction/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyMaterialTransaction<TArgs extends Prisma.MaterialTransactionFindManyArgs, TQueryFnData = Array<Prisma.MaterialTransactionGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyMaterialTransaction<TArgs extends Prisma.MaterialTransactionFindManyArgs, TQueryFnData = Array<Prisma.MaterialTransactionGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueMaterialTransaction<TArgs extends Prisma.MaterialTransactionFindUniqueArgs, TQueryFnData = Prisma.MaterialTransactionGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstMaterialTransaction<TArgs extends Prisma.MaterialTransactionFindFirstArgs, TQueryFnData = Prisma.MaterialTransactionGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/findFirst`, args, options, fetch);
+}
+
+export function useUpdateMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionUpdateArgs, DefaultError, MaterialTransaction, true>('MaterialTransaction', 'PUT', `${endpoint}/materialTransaction/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialTransaction', 'PUT', `${endpoint}/materialTransaction/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionUpsertArgs, DefaultError, MaterialTransaction, true>('MaterialTransaction', 'POST', `${endpoint}/materialTransaction/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(MaterialTransaction | undefined), DefaultError, Prisma.MaterialTransactionDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionDeleteArgs, DefaultError, MaterialTransaction, true>('MaterialTransaction', 'DELETE', `${endpoint}/materialTransaction/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, MaterialTransaction, Prisma.MaterialTransactionGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyMaterialTransaction(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.MaterialTransactionDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.MaterialTransactionDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('MaterialTransaction', 'DELETE', `${endpoint}/materialTransaction/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.MaterialTransactionDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.MaterialTransactionDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateMaterialTransaction<TArgs extends Prisma.MaterialTransactionAggregateArgs, TQueryFnData = Prisma.GetMaterialTransactionAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/aggregate`, args, options, fetch);
+}
+
+export function useGroupByMaterialTransaction<TArgs extends Prisma.MaterialTransactionGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.MaterialTransactionGroupByArgs['orderBy'] } : { orderBy?: Prisma.MaterialTransactionGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.MaterialTransactionGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.MaterialTransactionGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialTransactionGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.MaterialTransactionGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialTransactionGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.MaterialTransactionGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/groupBy`, args, options, fetch);
+}
+
+export function useCountMaterialTransaction<TArgs extends Prisma.MaterialTransactionCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.MaterialTransactionCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.MaterialTransactionCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('MaterialTransaction', `${endpoint}/materialTransaction/count`, args, options, fetch);
+}
+import type { MaterialTransactionType } from '@prisma-app/client';
+
+export function useCheckMaterialTransaction<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; materialId?: string; type?: MaterialTransactionType; orderItemId?: string; userId?: string; notes?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('MaterialTransaction', `${endpoint}/materialTransaction/check`, args, options, fetch);
+}
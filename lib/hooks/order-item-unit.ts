@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, OrderItemUnit } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitCreateArgs, DefaultError, OrderItemUnit, true>('OrderItemUnit', 'POST', `${endpoint}/orderItemUnit/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('OrderItemUnit', 'POST', `${endpoint}/orderItemUnit/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyOrderItemUnit<TArgs extends Prisma.OrderItemUnitFindManyArgs, TQueryFnData = Array<Prisma.OrderItemUnitGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyOrderItemUnit<TArgs extends Prisma.OrderItemUnitFindManyArgs, TQueryFnData = Array<Prisma.OrderItemUnitGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueOrderItemUnit<TArgs extends Prisma.OrderItemUnitFindUniqueArgs, TQueryFnData = Prisma.OrderItemUnitGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstOrderItemUnit<TArgs extends Prisma.OrderItemUnitFindFirstArgs, TQueryFnData = Prisma.OrderItemUnitGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/findFirst`, args, options, fetch);
+}
+
+export function useUpdateOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitUpdateArgs, DefaultError, OrderItemUnit, true>('OrderItemUnit', 'PUT', `${endpoint}/orderItemUnit/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('OrderItemUnit', 'PUT', `${endpoint}/orderItemUnit/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitUpsertArgs, DefaultError, OrderItemUnit, true>('OrderItemUnit', 'POST', `${endpoint}/orderItemUnit/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(OrderItemUnit | undefined), DefaultError, Prisma.OrderItemUnitDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitDeleteArgs, DefaultError, OrderItemUnit, true>('OrderItemUnit', 'DELETE', `${endpoint}/orderItemUnit/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, OrderItemUnit, Prisma.OrderItemUnitGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyOrderItemUnit(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.OrderItemUnitDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.OrderItemUnitDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('OrderItemUnit', 'DELETE', `${endpoint}/orderItemUnit/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.OrderItemUnitDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.OrderItemUnitDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateOrderItemUnit<TArgs extends Prisma.OrderItemUnitAggregateArgs, TQueryFnData = Prisma.GetOrderItemUnitAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/aggregate`, args, options, fetch);
+}
+
+export function useGroupByOrderItemUnit<TArgs extends Prisma.OrderItemUnitGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.OrderItemUnitGroupByArgs['orderBy'] } : { orderBy?: Prisma.OrderItemUnitGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.OrderItemUnitGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.OrderItemUnitGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.OrderItemUnitGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.OrderItemUnitGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.OrderItemUnitGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.OrderItemUnitGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/groupBy`, args, options, fetch);
+}
+
+export function useCountOrderItemUnit<TArgs extends Prisma.OrderItemUnitCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.OrderItemUnitCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.OrderItemUnitCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/count`, args, options, fetch);
+}
+import type { OrderItemProcessingStatus } from '@prisma-app/client';
+
+export function useCheckOrderItemUnit<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; unitNumber?: number; productNumber?: number; itemStatus?: OrderItemProcessingStatus; currentStepId?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('OrderItemUnit', `${endpoint}/orderItemUnit/check`, args, options, fetch);
+}
@@ -241,7 +241,7 @@ export function useCountOrderItem<TArgs extends Prisma.OrderItemCountArgs, TQuer
 }
 import type { OrderItemProcessingStatus } from '@prisma-app/client';
 
-export function useCheckOrderItem<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderId?: string; itemId?: string; quickbooksOrderLineId?: string; productNumber?: number; quantity?: number; lineDescription?: string; itemStatus?: OrderItemProcessingStatus; notes?: string; productId?: string; isProduct?: boolean; productType?: string; size?: string; shape?: string; radiusSize?: string; skirtLength?: string; skirtType?: string; tieDownsQty?: string; tieDownPlacement?: string; distance?: string; foamUpgrade?: string; doublePlasticWrapUpgrade?: string; webbingUpgrade?: string; metalForLifterUpgrade?: string; steamStopperUpgrade?: string; fabricUpgrade?: string; extraHandleQty?: string; extraLongSkirt?: string; packaging?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckOrderItem<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderId?: string; itemId?: string; quickbooksOrderLineId?: string; productNumber?: number; quantity?: number; lineDescription?: string; itemStatus?: OrderItemProcessingStatus; notes?: string; productId?: string; isProduct?: boolean; productType?: string; size?: string; shape?: string; radiusSize?: string; skirtLength?: string; skirtType?: string; tieDownsQty?: string; tieDownPlacement?: string; distance?: string; foamUpgrade?: string; doublePlasticWrapUpgrade?: string; webbingUpgrade?: string; metalForLifterUpgrade?: string; steamStopperUpgrade?: string; fabricUpgrade?: string; extraHandleQty?: string; extraLongSkirt?: string; packaging?: boolean; workflowId?: string; currentStepId?: string; reworkCount?: number; priorityBoost?: number }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('OrderItem', `${endpoint}/orderItem/check`, args, options, fetch);
 }
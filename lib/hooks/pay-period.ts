@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, PayPeriod } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreatePayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodCreateArgs, DefaultError, PayPeriod, true>('PayPeriod', 'POST', `${endpoint}/payPeriod/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyPayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('PayPeriod', 'POST', `${endpoint}/payPeriod/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyPayPeriod<TArgs extends Prisma.PayPeriodFindManyArgs, TQueryFnData = Array<Prisma.PayPeriodGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyPayPeriod<TArgs extends Prisma.PayPeriodFindManyArgs, TQueryFnData = Array<Prisma.PayPeriodGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/findMany`, args, options, fetch);
+}
+
+export function useFindUniquePayPeriod<TArgs extends Prisma.PayPeriodFindUniqueArgs, TQueryFnData = Prisma.PayPeriodGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstPayPeriod<TArgs extends Prisma.PayPeriodFindFirstArgs, TQueryFnData = Prisma.PayPeriodGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/findFirst`, args, options, fetch);
+}
+
+export function useUpdatePayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodUpdateArgs, DefaultError, PayPeriod, true>('PayPeriod', 'PUT', `${endpoint}/payPeriod/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyPayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('PayPeriod', 'PUT', `${endpoint}/payPeriod/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertPayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodUpsertArgs, DefaultError, PayPeriod, true>('PayPeriod', 'POST', `${endpoint}/payPeriod/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeletePayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(PayPeriod | undefined), DefaultError, Prisma.PayPeriodDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodDeleteArgs, DefaultError, PayPeriod, true>('PayPeriod', 'DELETE', `${endpoint}/payPeriod/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayPeriod, Prisma.PayPeriodGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyPayPeriod(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayPeriodDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayPeriodDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('PayPeriod', 'DELETE', `${endpoint}/payPeriod/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayPeriodDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayPeriodDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayPeriodDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregatePayPeriod<TArgs extends Prisma.PayPeriodAggregateArgs, TQueryFnData = Prisma.GetPayPeriodAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/aggregate`, args, options, fetch);
+}
+
+export function useGroupByPayPeriod<TArgs extends Prisma.PayPeriodGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.PayPeriodGroupByArgs['orderBy'] } : { orderBy?: Prisma.PayPeriodGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.PayPeriodGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.PayPeriodGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.PayPeriodGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.PayPeriodGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PayPeriodGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PayPeriodGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/groupBy`, args, options, fetch);
+}
+
+export function useCountPayPeriod<TArgs extends Prisma.PayPeriodCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.PayPeriodCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayPeriodCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayPeriodCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayPeriod', `${endpoint}/payPeriod/count`, args, options, fetch);
+}
+import type { PayPeriodStatus } from '@prisma-app/client';
+
+export function useCheckPayPeriod<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; status?: PayPeriodStatus; lockedById?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('PayPeriod', `${endpoint}/payPeriod/check`, args, options, fetch);
+}
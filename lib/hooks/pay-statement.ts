@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, PayStatement } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreatePayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementCreateArgs, DefaultError, PayStatement, true>('PayStatement', 'POST', `${endpoint}/payStatement/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyPayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('PayStatement', 'POST', `${endpoint}/payStatement/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyPayStatement<TArgs extends Prisma.PayStatementFindManyArgs, TQueryFnData = Array<Prisma.PayStatementGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyPayStatement<TArgs extends Prisma.PayStatementFindManyArgs, TQueryFnData = Array<Prisma.PayStatementGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/findMany`, args, options, fetch);
+}
+
+export function useFindUniquePayStatement<TArgs extends Prisma.PayStatementFindUniqueArgs, TQueryFnData = Prisma.PayStatementGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstPayStatement<TArgs extends Prisma.PayStatementFindFirstArgs, TQueryFnData = Prisma.PayStatementGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/findFirst`, args, options, fetch);
+}
+
+export function useUpdatePayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementUpdateArgs, DefaultError, PayStatement, true>('PayStatement', 'PUT', `${endpoint}/payStatement/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyPayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('PayStatement', 'PUT', `${endpoint}/payStatement/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertPayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementUpsertArgs, DefaultError, PayStatement, true>('PayStatement', 'POST', `${endpoint}/payStatement/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeletePayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(PayStatement | undefined), DefaultError, Prisma.PayStatementDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementDeleteArgs, DefaultError, PayStatement, true>('PayStatement', 'DELETE', `${endpoint}/payStatement/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PayStatement, Prisma.PayStatementGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyPayStatement(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PayStatementDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PayStatementDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('PayStatement', 'DELETE', `${endpoint}/payStatement/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PayStatementDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PayStatementDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PayStatementDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregatePayStatement<TArgs extends Prisma.PayStatementAggregateArgs, TQueryFnData = Prisma.GetPayStatementAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/aggregate`, args, options, fetch);
+}
+
+export function useGroupByPayStatement<TArgs extends Prisma.PayStatementGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.PayStatementGroupByArgs['orderBy'] } : { orderBy?: Prisma.PayStatementGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.PayStatementGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.PayStatementGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.PayStatementGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.PayStatementGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PayStatementGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PayStatementGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/groupBy`, args, options, fetch);
+}
+
+export function useCountPayStatement<TArgs extends Prisma.PayStatementCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.PayStatementCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PayStatementCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PayStatementCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PayStatement', `${endpoint}/payStatement/count`, args, options, fetch);
+}
+import type { PayStatementStatus } from '@prisma-app/client';
+
+export function useCheckPayStatement<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; payPeriodId?: string; userId?: string; pieces?: number; status?: PayStatementStatus; approvedById?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('PayStatement', `${endpoint}/payStatement/check`, args, options, fetch);
+}
@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, PieceRate } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreatePieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateCreateArgs, DefaultError, PieceRate, true>('PieceRate', 'POST', `${endpoint}/pieceRate/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyPieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('PieceRate', 'POST', `${endpoint}/pieceRate/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyPieceRate<TArgs extends Prisma.PieceRateFindManyArgs, TQueryFnData = Array<Prisma.PieceRateGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyPieceRate<TArgs extends Prisma.PieceRateFindManyArgs, TQueryFnData = Array<Prisma.PieceRateGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/findMany`, args, options, fetch);
+}
+
+export function useFindUniquePieceRate<TArgs extends Prisma.PieceRateFindUniqueArgs, TQueryFnData = Prisma.PieceRateGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstPieceRate<TArgs extends Prisma.PieceRateFindFirstArgs, TQueryFnData = Prisma.PieceRateGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/findFirst`, args, options, fetch);
+}
+
+export function useUpdatePieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateUpdateArgs, DefaultError, PieceRate, true>('PieceRate', 'PUT', `${endpoint}/pieceRate/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyPieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('PieceRate', 'PUT', `${endpoint}/pieceRate/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertPieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateUpsertArgs, DefaultError, PieceRate, true>('PieceRate', 'POST', `${endpoint}/pieceRate/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeletePieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(PieceRate | undefined), DefaultError, Prisma.PieceRateDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateDeleteArgs, DefaultError, PieceRate, true>('PieceRate', 'DELETE', `${endpoint}/pieceRate/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PieceRate, Prisma.PieceRateGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyPieceRate(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PieceRateDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PieceRateDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('PieceRate', 'DELETE', `${endpoint}/pieceRate/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PieceRateDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PieceRateDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PieceRateDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregatePieceRate<TArgs extends Prisma.PieceRateAggregateArgs, TQueryFnData = Prisma.GetPieceRateAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/aggregate`, args, options, fetch);
+}
+
+export function useGroupByPieceRate<TArgs extends Prisma.PieceRateGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.PieceRateGroupByArgs['orderBy'] } : { orderBy?: Prisma.PieceRateGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.PieceRateGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.PieceRateGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.PieceRateGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.PieceRateGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PieceRateGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PieceRateGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/groupBy`, args, options, fetch);
+}
+
+export function useCountPieceRate<TArgs extends Prisma.PieceRateCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.PieceRateCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PieceRateCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PieceRateCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PieceRate', `${endpoint}/pieceRate/count`, args, options, fetch);
+}
+import type { ProductType, PieceRateBasis } from '@prisma-app/client';
+
+export function useCheckPieceRate<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; stationId?: string; productType?: ProductType; minSizeIn?: number; maxSizeIn?: number; basis?: PieceRateBasis; isActive?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('PieceRate', `${endpoint}/pieceRate/check`, args, options, fetch);
+}
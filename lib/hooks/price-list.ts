@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, PriceList } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreatePriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListCreateArgs, DefaultError, PriceList, true>('PriceList', 'POST', `${endpoint}/priceList/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyPriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceList', 'POST', `${endpoint}/priceList/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyPriceList<TArgs extends Prisma.PriceListFindManyArgs, TQueryFnData = Array<Prisma.PriceListGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyPriceList<TArgs extends Prisma.PriceListFindManyArgs, TQueryFnData = Array<Prisma.PriceListGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/findMany`, args, options, fetch);
+}
+
+export function useFindUniquePriceList<TArgs extends Prisma.PriceListFindUniqueArgs, TQueryFnData = Prisma.PriceListGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstPriceList<TArgs extends Prisma.PriceListFindFirstArgs, TQueryFnData = Prisma.PriceListGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/findFirst`, args, options, fetch);
+}
+
+export function useUpdatePriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListUpdateArgs, DefaultError, PriceList, true>('PriceList', 'PUT', `${endpoint}/priceList/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyPriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceList', 'PUT', `${endpoint}/priceList/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertPriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListUpsertArgs, DefaultError, PriceList, true>('PriceList', 'POST', `${endpoint}/priceList/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeletePriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceList | undefined), DefaultError, Prisma.PriceListDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListDeleteArgs, DefaultError, PriceList, true>('PriceList', 'DELETE', `${endpoint}/priceList/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceListDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceList, Prisma.PriceListGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyPriceList(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceListDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceListDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceList', 'DELETE', `${endpoint}/priceList/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceListDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceListDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceListDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregatePriceList<TArgs extends Prisma.PriceListAggregateArgs, TQueryFnData = Prisma.GetPriceListAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/aggregate`, args, options, fetch);
+}
+
+export function useGroupByPriceList<TArgs extends Prisma.PriceListGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.PriceListGroupByArgs['orderBy'] } : { orderBy?: Prisma.PriceListGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.PriceListGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.PriceListGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.PriceListGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.PriceListGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PriceListGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PriceListGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/groupBy`, args, options, fetch);
+}
+
+export function useCountPriceList<TArgs extends Prisma.PriceListCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.PriceListCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceListCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceListCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceList', `${endpoint}/priceList/count`, args, options, fetch);
+}
+import type { CustomerType } from '@prisma-app/client';
+
+export function useCheckPriceList<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; customerType?: CustomerType; isActive?: boolean; notes?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('PriceList', `${endpoint}/priceList/check`, args, options, fetch);
+}
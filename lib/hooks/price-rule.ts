@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, PriceRule } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreatePriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleCreateArgs, DefaultError, PriceRule, true>('PriceRule', 'POST', `${endpoint}/priceRule/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyPriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceRule', 'POST', `${endpoint}/priceRule/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyPriceRule<TArgs extends Prisma.PriceRuleFindManyArgs, TQueryFnData = Array<Prisma.PriceRuleGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyPriceRule<TArgs extends Prisma.PriceRuleFindManyArgs, TQueryFnData = Array<Prisma.PriceRuleGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/findMany`, args, options, fetch);
+}
+
+export function useFindUniquePriceRule<TArgs extends Prisma.PriceRuleFindUniqueArgs, TQueryFnData = Prisma.PriceRuleGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstPriceRule<TArgs extends Prisma.PriceRuleFindFirstArgs, TQueryFnData = Prisma.PriceRuleGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/findFirst`, args, options, fetch);
+}
+
+export function useUpdatePriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleUpdateArgs, DefaultError, PriceRule, true>('PriceRule', 'PUT', `${endpoint}/priceRule/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyPriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceRule', 'PUT', `${endpoint}/priceRule/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertPriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleUpsertArgs, DefaultError, PriceRule, true>('PriceRule', 'POST', `${endpoint}/priceRule/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeletePriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(PriceRule | undefined), DefaultError, Prisma.PriceRuleDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleDeleteArgs, DefaultError, PriceRule, true>('PriceRule', 'DELETE', `${endpoint}/priceRule/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, PriceRule, Prisma.PriceRuleGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyPriceRule(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.PriceRuleDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.PriceRuleDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('PriceRule', 'DELETE', `${endpoint}/priceRule/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.PriceRuleDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.PriceRuleDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.PriceRuleDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregatePriceRule<TArgs extends Prisma.PriceRuleAggregateArgs, TQueryFnData = Prisma.GetPriceRuleAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/aggregate`, args, options, fetch);
+}
+
+export function useGroupByPriceRule<TArgs extends Prisma.PriceRuleGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.PriceRuleGroupByArgs['orderBy'] } : { orderBy?: Prisma.PriceRuleGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.PriceRuleGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.PriceRuleGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.PriceRuleGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.PriceRuleGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PriceRuleGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.PriceRuleGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/groupBy`, args, options, fetch);
+}
+
+export function useCountPriceRule<TArgs extends Prisma.PriceRuleCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.PriceRuleCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.PriceRuleCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.PriceRuleCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('PriceRule', `${endpoint}/priceRule/count`, args, options, fetch);
+}
+import type { PriceRuleKind, ProductType, PriceRuleBasis } from '@prisma-app/client';
+
+export function useCheckPriceRule<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; priceListId?: string; kind?: PriceRuleKind; name?: string; productType?: ProductType; minSizeIn?: number; maxSizeIn?: number; basis?: PriceRuleBasis; isActive?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('PriceRule', `${endpoint}/priceRule/check`, args, options, fetch);
+}
@@ -241,7 +241,7 @@ export function useCountProductAttribute<TArgs extends Prisma.ProductAttributeCo
 }
 import type { ProductType, SkirtType, TieDownPlacement } from '@prisma-app/client';
 
-export function useCheckProductAttribute<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; productType?: ProductType; color?: string; size?: string; shape?: string; radiusSize?: string; length?: string; width?: string; skirtLength?: string; skirtType?: SkirtType; tieDownsQty?: string; tieDownPlacement?: TieDownPlacement; distance?: string; tieDownLength?: string; poNumber?: string; notes?: string; foamUpgrade?: string; doublePlasticWrapUpgrade?: string; webbingUpgrade?: string; metalForLifterUpgrade?: string; steamStopperUpgrade?: string; fabricUpgrade?: string; extraHandleQty?: string; extraLongSkirt?: string; packaging?: boolean; verified?: boolean; isParsedFromDescription?: boolean; parsingErrors?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+export function useCheckProductAttribute<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderItemId?: string; productType?: ProductType; color?: string; size?: string; shape?: string; radiusSize?: string; length?: string; width?: string; skirtLength?: string; skirtType?: SkirtType; tieDownsQty?: string; tieDownPlacement?: TieDownPlacement; distance?: string; tieDownLength?: string; poNumber?: string; notes?: string; foamUpgrade?: string; doublePlasticWrapUpgrade?: string; webbingUpgrade?: string; metalForLifterUpgrade?: string; steamStopperUpgrade?: string; fabricUpgrade?: string; extraHandleQty?: string; extraLongSkirt?: string; packaging?: boolean; verified?: boolean; isParsedFromDescription?: boolean; parsingErrors?: string; parserVersion?: number }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
     const { endpoint, fetch } = getHooksContext();
     return useModelQuery<boolean, boolean, TError>('ProductAttribute', `${endpoint}/productAttribute/check`, args, options, fetch);
 }
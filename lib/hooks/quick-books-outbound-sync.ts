@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, QuickBooksOutboundSync } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncCreateArgs, DefaultError, QuickBooksOutboundSync, true>('QuickBooksOutboundSync', 'POST', `${endpoint}/quickBooksOutboundSync/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('QuickBooksOutboundSync', 'POST', `${endpoint}/quickBooksOutboundSync/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncFindManyArgs, TQueryFnData = Array<Prisma.QuickBooksOutboundSyncGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncFindManyArgs, TQueryFnData = Array<Prisma.QuickBooksOutboundSyncGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncFindUniqueArgs, TQueryFnData = Prisma.QuickBooksOutboundSyncGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncFindFirstArgs, TQueryFnData = Prisma.QuickBooksOutboundSyncGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/findFirst`, args, options, fetch);
+}
+
+export function useUpdateQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncUpdateArgs, DefaultError, QuickBooksOutboundSync, true>('QuickBooksOutboundSync', 'PUT', `${endpoint}/quickBooksOutboundSync/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('QuickBooksOutboundSync', 'PUT', `${endpoint}/quickBooksOutboundSync/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncUpsertArgs, DefaultError, QuickBooksOutboundSync, true>('QuickBooksOutboundSync', 'POST', `${endpoint}/quickBooksOutboundSync/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(QuickBooksOutboundSync | undefined), DefaultError, Prisma.QuickBooksOutboundSyncDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncDeleteArgs, DefaultError, QuickBooksOutboundSync, true>('QuickBooksOutboundSync', 'DELETE', `${endpoint}/quickBooksOutboundSync/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, QuickBooksOutboundSync, Prisma.QuickBooksOutboundSyncGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyQuickBooksOutboundSync(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.QuickBooksOutboundSyncDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.QuickBooksOutboundSyncDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('QuickBooksOutboundSync', 'DELETE', `${endpoint}/quickBooksOutboundSync/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.QuickBooksOutboundSyncDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.QuickBooksOutboundSyncDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncAggregateArgs, TQueryFnData = Prisma.GetQuickBooksOutboundSyncAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/aggregate`, args, options, fetch);
+}
+
+export function useGroupByQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.QuickBooksOutboundSyncGroupByArgs['orderBy'] } : { orderBy?: Prisma.QuickBooksOutboundSyncGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.QuickBooksOutboundSyncGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.QuickBooksOutboundSyncGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.QuickBooksOutboundSyncGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.QuickBooksOutboundSyncGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.QuickBooksOutboundSyncGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.QuickBooksOutboundSyncGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/groupBy`, args, options, fetch);
+}
+
+export function useCountQuickBooksOutboundSync<TArgs extends Prisma.QuickBooksOutboundSyncCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.QuickBooksOutboundSyncCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.QuickBooksOutboundSyncCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/count`, args, options, fetch);
+}
+import type { QuickBooksSyncStatus } from '@prisma-app/client';
+
+export function useCheckQuickBooksOutboundSync<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderId?: string; quickbooksInvoiceId?: string; status?: QuickBooksSyncStatus; reason?: string; attempts?: number; lastError?: string; syncToken?: string; forceOverwrite?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('QuickBooksOutboundSync', `${endpoint}/quickBooksOutboundSync/check`, args, options, fetch);
+}
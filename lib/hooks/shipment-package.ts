@@ -0,0 +1,246 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, ShipmentPackage } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageCreateArgs, DefaultError, ShipmentPackage, true>('ShipmentPackage', 'POST', `${endpoint}/shipmentPackage/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('ShipmentPackage', 'POST', `${endpoint}/shipmentPackage/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyShipmentPackage<TArgs extends Prisma.ShipmentPackageFindManyArgs, TQueryFnData = Array<Prisma.ShipmentPackageGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyShipmentPackage<TArgs extends Prisma.ShipmentPackageFindManyArgs, TQueryFnData = Array<Prisma.ShipmentPackageGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueShipmentPackage<TArgs extends Prisma.ShipmentPackageFindUniqueArgs, TQueryFnData = Prisma.ShipmentPackageGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstShipmentPackage<TArgs extends Prisma.ShipmentPackageFindFirstArgs, TQueryFnData = Prisma.ShipmentPackageGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/findFirst`, args, options, fetch);
+}
+
+export function useUpdateShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageUpdateArgs, DefaultError, ShipmentPackage, true>('ShipmentPackage', 'PUT', `${endpoint}/shipmentPackage/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('ShipmentPackage', 'PUT', `${endpoint}/shipmentPackage/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageUpsertArgs, DefaultError, ShipmentPackage, true>('ShipmentPackage', 'POST', `${endpoint}/shipmentPackage/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(ShipmentPackage | undefined), DefaultError, Prisma.ShipmentPackageDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageDeleteArgs, DefaultError, ShipmentPackage, true>('ShipmentPackage', 'DELETE', `${endpoint}/shipmentPackage/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, ShipmentPackage, Prisma.ShipmentPackageGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyShipmentPackage(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentPackageDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentPackageDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('ShipmentPackage', 'DELETE', `${endpoint}/shipmentPackage/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentPackageDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentPackageDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateShipmentPackage<TArgs extends Prisma.ShipmentPackageAggregateArgs, TQueryFnData = Prisma.GetShipmentPackageAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/aggregate`, args, options, fetch);
+}
+
+export function useGroupByShipmentPackage<TArgs extends Prisma.ShipmentPackageGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.ShipmentPackageGroupByArgs['orderBy'] } : { orderBy?: Prisma.ShipmentPackageGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.ShipmentPackageGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.ShipmentPackageGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.ShipmentPackageGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.ShipmentPackageGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ShipmentPackageGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ShipmentPackageGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/groupBy`, args, options, fetch);
+}
+
+export function useCountShipmentPackage<TArgs extends Prisma.ShipmentPackageCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.ShipmentPackageCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentPackageCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/count`, args, options, fetch);
+}
+
+export function useCheckShipmentPackage<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; shipmentId?: string; sequence?: number; trackingNumber?: string; orderItemIds?: string; labelFormat?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('ShipmentPackage', `${endpoint}/shipmentPackage/check`, args, options, fetch);
+}
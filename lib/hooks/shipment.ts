@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, Shipment } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentCreateArgs, DefaultError, Shipment, true>('Shipment', 'POST', `${endpoint}/shipment/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('Shipment', 'POST', `${endpoint}/shipment/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyShipment<TArgs extends Prisma.ShipmentFindManyArgs, TQueryFnData = Array<Prisma.ShipmentGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyShipment<TArgs extends Prisma.ShipmentFindManyArgs, TQueryFnData = Array<Prisma.ShipmentGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueShipment<TArgs extends Prisma.ShipmentFindUniqueArgs, TQueryFnData = Prisma.ShipmentGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstShipment<TArgs extends Prisma.ShipmentFindFirstArgs, TQueryFnData = Prisma.ShipmentGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/findFirst`, args, options, fetch);
+}
+
+export function useUpdateShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentUpdateArgs, DefaultError, Shipment, true>('Shipment', 'PUT', `${endpoint}/shipment/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('Shipment', 'PUT', `${endpoint}/shipment/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentUpsertArgs, DefaultError, Shipment, true>('Shipment', 'POST', `${endpoint}/shipment/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(Shipment | undefined), DefaultError, Prisma.ShipmentDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentDeleteArgs, DefaultError, Shipment, true>('Shipment', 'DELETE', `${endpoint}/shipment/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Shipment, Prisma.ShipmentGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyShipment(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.ShipmentDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.ShipmentDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('Shipment', 'DELETE', `${endpoint}/shipment/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.ShipmentDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.ShipmentDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.ShipmentDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateShipment<TArgs extends Prisma.ShipmentAggregateArgs, TQueryFnData = Prisma.GetShipmentAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/aggregate`, args, options, fetch);
+}
+
+export function useGroupByShipment<TArgs extends Prisma.ShipmentGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.ShipmentGroupByArgs['orderBy'] } : { orderBy?: Prisma.ShipmentGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.ShipmentGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.ShipmentGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.ShipmentGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.ShipmentGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ShipmentGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.ShipmentGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/groupBy`, args, options, fetch);
+}
+
+export function useCountShipment<TArgs extends Prisma.ShipmentCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.ShipmentCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.ShipmentCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.ShipmentCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Shipment', `${endpoint}/shipment/count`, args, options, fetch);
+}
+import type { ShipmentStatus } from '@prisma-app/client';
+
+export function useCheckShipment<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; orderId?: string; carrier?: string; serviceCode?: string; serviceName?: string; trackingNumber?: string; status?: ShipmentStatus; currency?: string; trackingStatus?: string; createdById?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('Shipment', `${endpoint}/shipment/check`, args, options, fetch);
+}
@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, WorkflowStep } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepCreateArgs, DefaultError, WorkflowStep, true>('WorkflowStep', 'POST', `${endpoint}/workflowStep/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('WorkflowStep', 'POST', `${endpoint}/workflowStep/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyWorkflowStep<TArgs extends Prisma.WorkflowStepFindManyArgs, TQueryFnData = Array<Prisma.WorkflowStepGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyWorkflowStep<TArgs extends Prisma.WorkflowStepFindManyArgs, TQueryFnData = Array<Prisma.WorkflowStepGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueWorkflowStep<TArgs extends Prisma.WorkflowStepFindUniqueArgs, TQueryFnData = Prisma.WorkflowStepGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstWorkflowStep<TArgs extends Prisma.WorkflowStepFindFirstArgs, TQueryFnData = Prisma.WorkflowStepGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/findFirst`, args, options, fetch);
+}
+
+export function useUpdateWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepUpdateArgs, DefaultError, WorkflowStep, true>('WorkflowStep', 'PUT', `${endpoint}/workflowStep/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('WorkflowStep', 'PUT', `${endpoint}/workflowStep/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepUpsertArgs, DefaultError, WorkflowStep, true>('WorkflowStep', 'POST', `${endpoint}/workflowStep/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(WorkflowStep | undefined), DefaultError, Prisma.WorkflowStepDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepDeleteArgs, DefaultError, WorkflowStep, true>('WorkflowStep', 'DELETE', `${endpoint}/workflowStep/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, WorkflowStep, Prisma.WorkflowStepGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyWorkflowStep(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowStepDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowStepDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('WorkflowStep', 'DELETE', `${endpoint}/workflowStep/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowStepDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowStepDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateWorkflowStep<TArgs extends Prisma.WorkflowStepAggregateArgs, TQueryFnData = Prisma.GetWorkflowStepAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/aggregate`, args, options, fetch);
+}
+
+export function useGroupByWorkflowStep<TArgs extends Prisma.WorkflowStepGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.WorkflowStepGroupByArgs['orderBy'] } : { orderBy?: Prisma.WorkflowStepGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.WorkflowStepGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.WorkflowStepGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.WorkflowStepGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.WorkflowStepGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.WorkflowStepGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.WorkflowStepGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/groupBy`, args, options, fetch);
+}
+
+export function useCountWorkflowStep<TArgs extends Prisma.WorkflowStepCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.WorkflowStepCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowStepCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('WorkflowStep', `${endpoint}/workflowStep/count`, args, options, fetch);
+}
+import type { OrderItemProcessingStatus } from '@prisma-app/client';
+
+export function useCheckWorkflowStep<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; workflowId?: string; position?: number; name?: string; stationId?: string; itemStatus?: OrderItemProcessingStatus; description?: string }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('WorkflowStep', `${endpoint}/workflowStep/check`, args, options, fetch);
+}
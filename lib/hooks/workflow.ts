@@ -0,0 +1,247 @@
+/******************************************************************************
+ * This file was generated by ZenStack CLI.
+ ******************************************************************************/
+
+/* eslint-disable */
+// @ts-nocheck
+
+import type { Prisma, Workflow } from "@prisma-app/client";
+import type { UseMutationOptions, UseQueryOptions, UseInfiniteQueryOptions, InfiniteData } from '@tanstack/vue-query';
+import { getHooksContext } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { MaybeRefOrGetter, ComputedRef, UnwrapRef } from 'vue';
+import { useModelQuery, useInfiniteModelQuery, useModelMutation } from '@zenstackhq/tanstack-query/runtime-v5/vue';
+import type { PickEnumerable, CheckSelect, QueryError, ExtraQueryOptions, ExtraMutationOptions } from '@zenstackhq/tanstack-query/runtime-v5';
+import type { PolicyCrudKind } from '@zenstackhq/runtime'
+import metadata from './__model_meta';
+type DefaultError = QueryError;
+
+export function useCreateWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowCreateArgs, unknown>> | ComputedRef<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowCreateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowCreateArgs, DefaultError, Workflow, true>('Workflow', 'POST', `${endpoint}/workflow/create`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowCreateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowCreateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowCreateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowCreateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useCreateManyWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowCreateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowCreateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowCreateManyArgs, DefaultError, Prisma.BatchPayload, false>('Workflow', 'POST', `${endpoint}/workflow/createMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowCreateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowCreateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowCreateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowCreateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useFindManyWorkflow<TArgs extends Prisma.WorkflowFindManyArgs, TQueryFnData = Array<Prisma.WorkflowGetPayload<TArgs> & { $optimistic?: boolean }>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindManyArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/findMany`, args, options, fetch);
+}
+
+export function useInfiniteFindManyWorkflow<TArgs extends Prisma.WorkflowFindManyArgs, TQueryFnData = Array<Prisma.WorkflowGetPayload<TArgs>>, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindManyArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindManyArgs>>, options?: MaybeRefOrGetter<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>> | ComputedRef<Omit<UseInfiniteQueryOptions<TQueryFnData, TError, InfiniteData<TData>>, 'queryKey' | 'initialPageParam'>>) {
+    const { endpoint, fetch } = getHooksContext();
+    return useInfiniteModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/findMany`, args, options, fetch);
+}
+
+export function useFindUniqueWorkflow<TArgs extends Prisma.WorkflowFindUniqueArgs, TQueryFnData = Prisma.WorkflowGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindUniqueArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindUniqueArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/findUnique`, args, options, fetch);
+}
+
+export function useFindFirstWorkflow<TArgs extends Prisma.WorkflowFindFirstArgs, TQueryFnData = Prisma.WorkflowGetPayload<TArgs> & { $optimistic?: boolean }, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindFirstArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowFindFirstArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/findFirst`, args, options, fetch);
+}
+
+export function useUpdateWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowUpdateArgs, unknown>> | ComputedRef<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowUpdateArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowUpdateArgs, DefaultError, Workflow, true>('Workflow', 'PUT', `${endpoint}/workflow/update`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowUpdateArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowUpdateArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpdateArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpdateArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useUpdateManyWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowUpdateManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowUpdateManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowUpdateManyArgs, DefaultError, Prisma.BatchPayload, false>('Workflow', 'PUT', `${endpoint}/workflow/updateMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowUpdateManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowUpdateManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpdateManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpdateManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useUpsertWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowUpsertArgs, unknown>> | ComputedRef<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowUpsertArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowUpsertArgs, DefaultError, Workflow, true>('Workflow', 'POST', `${endpoint}/workflow/upsert`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowUpsertArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowUpsertArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpsertArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowUpsertArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowDeleteArgs, unknown>> | ComputedRef<UseMutationOptions<(Workflow | undefined), DefaultError, Prisma.WorkflowDeleteArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowDeleteArgs, DefaultError, Workflow, true>('Workflow', 'DELETE', `${endpoint}/workflow/delete`, metadata, options, fetch, true)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowDeleteArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowDeleteArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowDeleteArgs>, unknown>> | ComputedRef<UseMutationOptions<(CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined), DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowDeleteArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as (CheckSelect<T, Workflow, Prisma.WorkflowGetPayload<T>> | undefined);
+        },
+    };
+    return mutation;
+}
+
+export function useDeleteManyWorkflow(options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowDeleteManyArgs, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.WorkflowDeleteManyArgs, unknown>> & ExtraMutationOptions), 'mutationFn'>) {
+    const { endpoint, fetch } = getHooksContext();
+    const _mutation =
+        useModelMutation<Prisma.WorkflowDeleteManyArgs, DefaultError, Prisma.BatchPayload, false>('Workflow', 'DELETE', `${endpoint}/workflow/deleteMany`, metadata, options, fetch, false)
+        ;
+    const mutation = {
+        ..._mutation,
+        mutateAsync: async <T extends Prisma.WorkflowDeleteManyArgs>(
+            args: Prisma.SelectSubset<T, Prisma.WorkflowDeleteManyArgs>,
+            options?: Omit<(MaybeRefOrGetter<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowDeleteManyArgs>, unknown>> | ComputedRef<UseMutationOptions<Prisma.BatchPayload, DefaultError, Prisma.SelectSubset<T, Prisma.WorkflowDeleteManyArgs>, unknown>> & ExtraMutationOptions), 'mutationFn'>
+        ) => {
+            return (await _mutation.mutateAsync(
+                args,
+                options as any
+            )) as Prisma.BatchPayload;
+        },
+    };
+    return mutation;
+}
+
+export function useAggregateWorkflow<TArgs extends Prisma.WorkflowAggregateArgs, TQueryFnData = Prisma.GetWorkflowAggregateType<TArgs>, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowAggregateArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowAggregateArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/aggregate`, args, options, fetch);
+}
+
+export function useGroupByWorkflow<TArgs extends Prisma.WorkflowGroupByArgs, HasSelectOrTake extends Prisma.Or<Prisma.Extends<'skip', Prisma.Keys<TArgs>>, Prisma.Extends<'take', Prisma.Keys<TArgs>>>, OrderByArg extends Prisma.True extends HasSelectOrTake ? { orderBy: Prisma.WorkflowGroupByArgs['orderBy'] } : { orderBy?: Prisma.WorkflowGroupByArgs['orderBy'] }, OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<TArgs['orderBy']>>>, ByFields extends Prisma.MaybeTupleToUnion<TArgs['by']>, ByValid extends Prisma.Has<ByFields, OrderFields>, HavingFields extends Prisma.GetHavingFields<TArgs['having']>, HavingValid extends Prisma.Has<ByFields, HavingFields>, ByEmpty extends TArgs['by'] extends never[] ? Prisma.True : Prisma.False, InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+        ? never
+        : P extends string
+        ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+        : [
+            Error,
+            'Field ',
+            P,
+            ` in "having" needs to be provided in "by"`,
+        ]
+    }[HavingFields]
+    : 'take' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<TArgs>
+    ? 'orderBy' extends Prisma.Keys<TArgs>
+    ? ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields]
+    : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+        ? never
+        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+    }[OrderFields], TQueryFnData = {} extends InputErrors ?
+    Array<PickEnumerable<Prisma.WorkflowGroupByOutputType, TArgs['by']> &
+        {
+            [P in ((keyof TArgs) & (keyof Prisma.WorkflowGroupByOutputType))]: P extends '_count'
+            ? TArgs[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<TArgs[P], Prisma.WorkflowGroupByOutputType[P]>
+            : Prisma.GetScalarType<TArgs[P], Prisma.WorkflowGroupByOutputType[P]>
+        }
+    > : InputErrors, TData = TQueryFnData, TError = DefaultError>(args: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.WorkflowGroupByArgs, OrderByArg> & InputErrors>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.SubsetIntersection<TArgs, Prisma.WorkflowGroupByArgs, OrderByArg> & InputErrors>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/groupBy`, args, options, fetch);
+}
+
+export function useCountWorkflow<TArgs extends Prisma.WorkflowCountArgs, TQueryFnData = TArgs extends { select: any; } ? TArgs['select'] extends true ? number : Prisma.GetScalarType<TArgs['select'], Prisma.WorkflowCountAggregateOutputType> : number, TData = TQueryFnData, TError = DefaultError>(args?: MaybeRefOrGetter<Prisma.SelectSubset<TArgs, Prisma.WorkflowCountArgs>> | ComputedRef<Prisma.SelectSubset<TArgs, Prisma.WorkflowCountArgs>>, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<TQueryFnData, TError, TData>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<TQueryFnData, TData, TError>('Workflow', `${endpoint}/workflow/count`, args, options, fetch);
+}
+import type { ProductType } from '@prisma-app/client';
+
+export function useCheckWorkflow<TError = DefaultError>(args: { operation: PolicyCrudKind; where?: { id?: string; name?: string; description?: string; productType?: ProductType; isDefault?: boolean; isActive?: boolean }; }, options?: (MaybeRefOrGetter<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> | ComputedRef<Omit<UnwrapRef<UseQueryOptions<boolean, TError, boolean>>, 'queryKey'>> & ExtraQueryOptions)) {
+    const { endpoint, fetch } = getHooksContext();
+    return useModelQuery<boolean, boolean, TError>('Workflow', `${endpoint}/workflow/check`, args, options, fetch);
+}
@@ -0,0 +1,16 @@
+import { defineNuxtRouteMiddleware, navigateTo } from '#app';
+
+export default defineNuxtRouteMiddleware(async (_to, _from) => {
+  // Skip middleware on server-side to avoid hydration issues
+  if (import.meta.server) {
+    return;
+  }
+
+  // Portal visitors are customers with a portal session cookie, not Better-Auth users
+  try {
+    await $fetch('/api/portal/me');
+  } catch (error) {
+    console.log('No customer portal session found, redirecting to portal login', error);
+    return navigateTo('/portal/login');
+  }
+});
@@ -20,6 +20,77 @@ export default defineNuxtConfig({
     qboClientId: process.env.QBO_CLIENT_ID,
     qboClientSecret: process.env.QBO_CLIENT_SECRET,
     qboEnvironment: process.env.QBO_ENVIRONMENT || 'sandbox',
+    qboOutboundSync: {
+      enabled: process.env.QBO_OUTBOUND_SYNC_ENABLED !== 'false',
+      // DefinitionId of the invoice custom field that holds our production status (QBO allows 1-3)
+      productionStatusFieldId: process.env.QBO_PRODUCTION_STATUS_FIELD_ID,
+    },
+    stationWork: {
+      // Comma-separated wall-clock times (e.g. "12:00,17:00") when open station work is paused automatically
+      shiftEndTimes: process.env.SHIFT_END_TIMES || '',
+      // IANA time zone the shift-end times are in, defaults to the server's
+      timeZone: process.env.SHIFT_TIME_ZONE || '',
+      // Station work still open this many hours after it started is closed; 0 turns this off
+      autoCloseAfterHours: process.env.WORK_AUTO_CLOSE_AFTER_HOURS,
+    },
+    priorityScoring: {
+      // Most points each factor adds to a warehouse priority score; unset uses the defaults in utils/priorityScoring.ts
+      dueDateWeight: process.env.PRIORITY_WEIGHT_DUE_DATE,
+      orderAgeWeight: process.env.PRIORITY_WEIGHT_ORDER_AGE,
+      customerTypeWeight: process.env.PRIORITY_WEIGHT_CUSTOMER_TYPE,
+      manualPriorityWeight: process.env.PRIORITY_WEIGHT_MANUAL,
+      siblingProgressWeight: process.env.PRIORITY_WEIGHT_SIBLING_PROGRESS,
+      // Comma-separated customer type scores from 0 to 1 (e.g. "WHOLESALER:1,RETAILER:0.25")
+      customerTypeScores: process.env.PRIORITY_CUSTOMER_TYPE_SCORES || '',
+    },
+    attributeReview: {
+      // Printing labels or starting production on items whose attributes need review: "block", "warn" (default) or "off"
+      unverifiedItems: process.env.UNVERIFIED_ATTRIBUTES_POLICY || 'warn',
+    },
+    quotes: {
+      // Days a quote is valid for when it is sent without an expiration date; unset is 30
+      validDays: process.env.QUOTE_VALID_DAYS,
+      // Days before a sent quote expires that the customer is reminded; 0 turns reminders off, unset is 3
+      reminderDaysBeforeExpiry: process.env.QUOTE_REMINDER_DAYS,
+    },
+    jobCosting: {
+      // Standard overhead added to job costs, per hour of station time and per produced unit; unset is 0
+      overheadPerLaborHour: process.env.JOB_COST_OVERHEAD_PER_LABOR_HOUR,
+      overheadPerUnit: process.env.JOB_COST_OVERHEAD_PER_UNIT,
+    },
+    shipping: {
+      ups: {
+        clientId: process.env.UPS_CLIENT_ID,
+        clientSecret: process.env.UPS_CLIENT_SECRET,
+        accountNumber: process.env.UPS_ACCOUNT_NUMBER,
+        environment: process.env.UPS_ENVIRONMENT || 'sandbox',
+      },
+      fedex: {
+        clientId: process.env.FEDEX_CLIENT_ID,
+        clientSecret: process.env.FEDEX_CLIENT_SECRET,
+        accountNumber: process.env.FEDEX_ACCOUNT_NUMBER,
+        environment: process.env.FEDEX_ENVIRONMENT || 'sandbox',
+      },
+      freight: {
+        apiUrl: process.env.FREIGHT_API_URL,
+        apiKey: process.env.FREIGHT_API_KEY,
+        name: process.env.FREIGHT_CARRIER_NAME,
+        freightClass: process.env.FREIGHT_CLASS,
+      },
+      // Local mock carrier for development and testing - never enable in production
+      mockCarrier: process.env.SHIPPING_MOCK_CARRIER === 'true',
+      shipFrom: {
+        name: process.env.SHIP_FROM_NAME || 'Spacovers',
+        company: process.env.SHIP_FROM_COMPANY || 'Spacovers',
+        phone: process.env.SHIP_FROM_PHONE || '',
+        addressLine1: process.env.SHIP_FROM_ADDRESS_LINE1 || '',
+        addressLine2: process.env.SHIP_FROM_ADDRESS_LINE2 || '',
+        city: process.env.SHIP_FROM_CITY || '',
+        state: process.env.SHIP_FROM_STATE || '',
+        zipCode: process.env.SHIP_FROM_ZIP || '',
+        country: process.env.SHIP_FROM_COUNTRY || 'US',
+      },
+    },
     public: {
       authOrigin: process.env.AUTH_ORIGIN || 'http://localhost:3000',
       appUrl: process.env.APP_URL || 'http://localhost:3000',
@@ -1,5 +1,6 @@
-import type { ItemStatus } from '@prisma-app/client';
+import type { ItemStatus, OrderItemProcessingStatus, ProductType } from '@prisma-app/client';
 import { PrismaClient, UserStatus } from '@prisma-app/client';
+import { BUILT_IN_WORKFLOWS } from '../utils/workflowEngine';
 
 const prisma = new PrismaClient();
 const PLACEHOLDER_HASH = 'SEED_PLACEHOLDER_NEEDS_RESET_VIA_BETTER_AUTH_FLOW';
@@ -71,9 +72,12 @@ async function main() {
 
   // 5. Create Default Stations
   const stations = [
+    { name: 'Office', description: 'Office - starts production and confirms finished items' },
     { name: 'Cutting', description: 'Station for cutting operations' },
     { name: 'Sewing', description: 'Station for sewing operations' },
     { name: 'Foam Cutting', description: 'Station for foam cutting operations' },
+    { name: 'Stuffing', description: 'Station for stuffing operations' },
+    { name: 'Packaging', description: 'Station for packaging operations' },
   ];
 
   for (const stationData of stations) {
@@ -85,6 +89,35 @@ async function main() {
     console.log(`Ensured station '${stationData.name}' exists`);
   }
 
+  // 5b. Create the built-in production workflows
+  const stationIds = new Map((await prisma.station.findMany()).map(station => [station.name, station.id]));
+
+  for (const [index, definition] of BUILT_IN_WORKFLOWS.entries()) {
+    const existingWorkflow = await prisma.workflow.findUnique({ where: { name: definition.name } });
+    if (existingWorkflow) {
+      console.log(`Workflow '${definition.name}' already exists`);
+      continue;
+    }
+
+    await prisma.workflow.create({
+      data: {
+        name: definition.name,
+        productType: definition.productType as ProductType,
+        isDefault: index === 0,
+        steps: {
+          create: definition.steps.map(step => ({
+            position: step.position,
+            name: step.name,
+            stationId: stationIds.get(step.stationName)!,
+            itemStatus: step.itemStatus as OrderItemProcessingStatus,
+            description: step.description || null,
+          })),
+        },
+      },
+    });
+    console.log(`Ensured workflow '${definition.name}' exists`);
+  }
+
   // 6. Create the 4 main Spacover Items
   console.log('Creating main Spacover items...');
   
@@ -165,6 +198,26 @@ async function main() {
     { name: 'EstimateItem', description: 'Items within estimates' },
     { name: 'QuickbooksToken', description: 'QuickBooks integration tokens' },
     { name: 'BarcodeScanner', description: 'Barcode scanners for order processing' },
+    { name: 'Workflow', description: 'Production workflows and their steps' },
+    { name: 'ItemRework', description: 'Quality rejections sending items back to earlier steps' },
+    { name: 'Shipment', description: 'Carrier shipments and tracking' },
+    { name: 'ShipmentPackage', description: 'Packages and labels within a shipment' },
+    { name: 'CustomerPortalToken', description: 'Customer portal sign-in links' },
+    { name: 'CustomerPortalSession', description: 'Customer portal sessions' },
+    { name: 'QuickBooksOutboundSync', description: 'Queued invoice updates pushed to QuickBooks' },
+    { name: 'BackgroundJob', description: 'Background job queue' },
+    { name: 'Material', description: 'Material stock levels' },
+    { name: 'MaterialBomRule', description: 'Material bill-of-materials rules' },
+    { name: 'MaterialRequirement', description: 'Material reserved and consumed per order item' },
+    { name: 'MaterialTransaction', description: 'Material stock ledger' },
+    { name: 'LabelPrinter', description: 'Network label printers' },
+    { name: 'ItemProcessingPause', description: 'Breaks and pauses in station work' },
+    { name: 'OrderItemUnit', description: 'Individual units of multi-quantity order items' },
+    { name: 'PieceRate', description: 'Piece rates paid per station and cover attributes' },
+    { name: 'PayPeriod', description: 'Payroll periods' },
+    { name: 'PayStatement', description: 'Employee pay statements' },
+    { name: 'PriceList', description: 'Price lists by customer type' },
+    { name: 'PriceRule', description: 'Base prices and upgrade adders on price lists' },
   ];
 
   // Join table models (need full CRUD for backend operations)
@@ -206,6 +259,20 @@ async function main() {
     }
   }
 
+  // Permissions for actions that are not CRUD on a model
+  const specialPermissions = [
+    { action: 'override', subject: 'WorkflowTransition', description: 'Approve supervisor overrides of blocked kiosk scans' },
+  ];
+
+  for (const permission of specialPermissions) {
+    await prisma.permission.upsert({
+      where: { action_subject: { action: permission.action, subject: permission.subject } },
+      update: {},
+      create: permission,
+    });
+    console.log(`✓ Permission: ${permission.action} ${permission.subject}`);
+  }
+
   // 7. Create Role Types (Templates)
   const roleTypes = [
     {
@@ -252,8 +319,8 @@ async function main() {
       isSystem: true,
       displayOrder: 4,
       defaultPermissions: {
-        subjects: ['User', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'ItemProcessingLog', 'AuditLog', 'Estimate'],
-        actions: ['read', 'update']
+        subjects: ['User', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'ItemProcessingLog', 'AuditLog', 'Estimate', 'WorkflowTransition'],
+        actions: ['read', 'update', 'override']
       }
     },
     {
@@ -264,8 +331,8 @@ async function main() {
       isSystem: true,
       displayOrder: 5,
       defaultPermissions: {
-        subjects: ['User', 'Role', 'Permission', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'AuditLog', 'Estimate', 'EstimateItem'],
-        actions: ['read', 'create', 'update', 'delete']
+        subjects: ['User', 'Role', 'Permission', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'AuditLog', 'Estimate', 'EstimateItem', 'WorkflowTransition'],
+        actions: ['read', 'create', 'update', 'delete', 'override']
       }
     }
   ];
@@ -288,15 +355,15 @@ async function main() {
       name: 'Admin', 
       description: 'System administrator with broad access to most features',
       roleTypeName: 'Administrator',
-      permissions: ['read', 'create', 'update', 'delete'], // Most permissions
-      subjects: ['User', 'Role', 'Permission', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'AuditLog', 'Estimate', 'EstimateItem']
+      permissions: ['read', 'create', 'update', 'delete', 'override'], // Most permissions
+      subjects: ['User', 'Role', 'Permission', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'AuditLog', 'Estimate', 'EstimateItem', 'WorkflowTransition']
     },
     { 
       name: 'Manager', 
       description: 'Operations manager with oversight access',
       roleTypeName: 'Manager',
-      permissions: ['read', 'update'],
-      subjects: ['User', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'ItemProcessingLog', 'AuditLog', 'Estimate']
+      permissions: ['read', 'update', 'override'],
+      subjects: ['User', 'Customer', 'Item', 'Order', 'OrderItem', 'Station', 'ItemProcessingLog', 'AuditLog', 'Estimate', 'WorkflowTransition']
     },
     { 
       name: 'Customer Service', 
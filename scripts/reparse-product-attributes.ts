@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-parse Product Attributes
+ *
+ * Runs the current description grammar over order line descriptions and shows what would change
+ * on the stored ProductAttribute rows. Nothing is written unless --apply is given.
+ *
+ * Verified attributes and attributes someone typed in by hand are left alone unless asked for.
+ *
+ * Usage:
+ *   npm run attributes:reparse                # Show the diff
+ *   npm run attributes:reparse -- --apply     # Write the changes
+ */
+
+import {
+  descriptionParsingService,
+  type AttributeReparseDiff,
+  type AttributeReparseOptions
+} from '../server/lib/DescriptionParsingService'
+
+function formatValue(value: unknown): string {
+  if (value === null) return '(blank)'
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : '(none)'
+  return String(value)
+}
+
+function printDiff(diff: AttributeReparseDiff) {
+  const label = [
+    diff.orderNumber ? `Order ${diff.orderNumber}` : null,
+    diff.productNumber ? `Product #${diff.productNumber}` : null
+  ].filter(Boolean).join(' / ') || diff.orderItemId
+
+  console.log(`\n📦 ${label} (parser v${diff.fromVersion ?? '?'} → confidence ${diff.confidence.toFixed(2)})`)
+  console.log(`   "${diff.lineDescription.replace(/\s*\n\s*/g, ' | ')}"`)
+  for (const change of diff.changes) {
+    console.log(`   ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`)
+  }
+}
+
+async function reparseProductAttributes(options: AttributeReparseOptions & { apply?: boolean }) {
+  console.log('🔍 Re-parsing product attributes')
+  console.log('================================')
+
+  const result = options.apply
+    ? await descriptionParsingService.applyReparse(options)
+    : await descriptionParsingService.previewReparse(options)
+
+  result.diffs.forEach(printDiff)
+
+  console.log(`\n📋 Grammar version ${result.version}`)
+  console.log(`   Scanned:   ${result.scanned}`)
+  console.log(`   Unchanged: ${result.unchanged}`)
+  console.log(`   Changed:   ${result.diffs.length}`)
+
+  if (options.apply) {
+    console.log(`✅ Updated ${'updated' in result ? result.updated : 0} product attributes`)
+  } else if (result.diffs.length > 0) {
+    console.log('\n🔍 DRY RUN - nothing was written. Run with --apply to write these changes.')
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log('Re-parse Product Attributes')
+    console.log('')
+    console.log('Usage:')
+    console.log('  tsx scripts/reparse-product-attributes.ts [options]')
+    console.log('')
+    console.log('Options:')
+    console.log('  --apply             Write the changes (default is to only show them)')
+    console.log('  --order <id>        Only re-parse one order')
+    console.log('  --include-verified  Also re-parse attributes that have been verified')
+    console.log('  --include-manual    Also re-parse attributes that were entered by hand')
+    console.log('  --help, -h          Show this help message')
+    return
+  }
+
+  const orderIndex = args.indexOf('--order')
+  await reparseProductAttributes({
+    apply: args.includes('--apply'),
+    orderId: orderIndex >= 0 ? args[orderIndex + 1] : undefined,
+    includeVerified: args.includes('--include-verified'),
+    includeManual: args.includes('--include-manual')
+  })
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('💥 Re-parse failed:', error)
+      process.exit(1)
+    })
+}
+
+export { reparseProductAttributes }
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { attributeReviewService, getUnverifiedItemPolicy } from '~/server/lib/AttributeReviewService';
+
+const CheckItemsSchema = z.object({
+  orderItemIds: z.array(z.string().min(1)).min(1, 'At least one order item ID is required'),
+  action: z.enum(['print', 'production'])
+});
+
+// Checks items before labels are printed in the browser, where the server never sees the print itself
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = CheckItemsSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid request',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { orderItemIds, action } = validation.data;
+
+  try {
+    const warning = await attributeReviewService.checkItems(orderItemIds, action);
+
+    return {
+      success: true,
+      data: {
+        policy: getUnverifiedItemPolicy(),
+        warning
+      }
+    };
+  } catch (error: any) {
+    if (error.name === 'UnverifiedAttributesError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error checking item attributes:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to check item attributes'
+    });
+  }
+});
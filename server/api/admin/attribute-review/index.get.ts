@@ -0,0 +1,40 @@
+import { auth } from '~/server/lib/auth';
+import { attributeReviewService, getUnverifiedItemPolicy } from '~/server/lib/AttributeReviewService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  // The same roles that can verify attributes can review them
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to review product attributes'
+    });
+  }
+
+  try {
+    const items = await attributeReviewService.getQueue();
+
+    return {
+      success: true,
+      data: {
+        policy: getUnverifiedItemPolicy(),
+        items
+      }
+    };
+  } catch (error) {
+    console.error('Error loading attribute review queue:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load the attribute review queue'
+    });
+  }
+});
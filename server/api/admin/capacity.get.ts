@@ -0,0 +1,36 @@
+import { auth } from '~/server/lib/auth';
+import { capacityPlanningService } from '~/server/lib/CapacityPlanningService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view capacity planning'
+    });
+  }
+
+  try {
+    const plan = await capacityPlanningService.getPlan();
+
+    return {
+      success: true,
+      data: plan
+    };
+  } catch (error) {
+    console.error('Error building capacity plan:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to build capacity plan'
+    });
+  }
+});
@@ -0,0 +1,67 @@
+import { auth } from '~/server/lib/auth';
+import { quoteService } from '~/server/lib/QuoteService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { QuoteInputSchema, queueQuotePush, toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const estimateId = getRouterParam(event, 'id');
+  if (!estimateId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote ID is required'
+    });
+  }
+
+  const validation = QuoteInputSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Validation failed',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const quote = await quoteService.updateQuote(estimateId, validation.data);
+
+    // Drafts are pushed when they are sent
+    if (quote.status !== 'DRAFT') {
+      await queueQuotePush(quote.id);
+    }
+
+    await recordAuditLog(event, {
+      action: 'QUOTE_UPDATED',
+      entityName: 'Estimate',
+      entityId: quote.id,
+      newValue: {
+        customerId: quote.customerId,
+        totalAmount: quote.totalAmount,
+        lines: validation.data.items.length
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: quote
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to update the quote');
+  }
+});
@@ -0,0 +1,55 @@
+import { auth } from '~/server/lib/auth';
+import { quoteService } from '~/server/lib/QuoteService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { queueQuotePush, toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const estimateId = getRouterParam(event, 'id');
+  if (!estimateId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote ID is required'
+    });
+  }
+
+  try {
+    const order = await quoteService.convertToOrder(estimateId);
+    // Marks the QBO estimate accepted
+    await queueQuotePush(estimateId);
+
+    await recordAuditLog(event, {
+      action: 'QUOTE_CONVERTED',
+      entityName: 'Order',
+      entityId: order.id,
+      newValue: {
+        estimateId,
+        totalAmount: order.totalAmount
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      message: 'Quote converted to an order',
+      data: order
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to convert the quote');
+  }
+});
@@ -0,0 +1,43 @@
+import { auth } from '~/server/lib/auth';
+import { quoteService } from '~/server/lib/QuoteService';
+import { getQuoteBaseUrl, toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const estimateId = getRouterParam(event, 'id');
+  if (!estimateId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote ID is required'
+    });
+  }
+
+  try {
+    const { filename, pdf } = await quoteService.renderPdf(estimateId, getQuoteBaseUrl(event));
+
+    setResponseHeaders(event, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}"`
+    });
+
+    return Buffer.from(pdf, 'latin1');
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to render the quote');
+  }
+});
@@ -0,0 +1,53 @@
+import { auth } from '~/server/lib/auth';
+import { unenhancedPrisma as prisma } from '~/server/lib/db';
+import { quoteService } from '~/server/lib/QuoteService';
+import { toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+// Push again after fixing what stopped the last push, e.g. linking the customer to QuickBooks
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const estimateId = getRouterParam(event, 'id');
+  if (!estimateId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote ID is required'
+    });
+  }
+
+  const existing = await prisma.estimate.findUnique({ where: { id: estimateId }, select: { status: true } });
+  if (existing?.status === 'DRAFT') {
+    throw createError({
+      statusCode: 409,
+      statusMessage: 'Drafts are pushed to QuickBooks when they are sent'
+    });
+  }
+
+  try {
+    await quoteService.pushToQuickBooks(estimateId);
+    const quote = await prisma.estimate.findUniqueOrThrow({ where: { id: estimateId } });
+
+    return {
+      success: !quote.quickbooksSyncError,
+      message: quote.quickbooksSyncError || 'Quote pushed to QuickBooks',
+      data: quote
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to push the quote to QuickBooks');
+  }
+});
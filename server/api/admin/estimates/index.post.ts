@@ -0,0 +1,54 @@
+import { auth } from '~/server/lib/auth';
+import { quoteService } from '~/server/lib/QuoteService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { QuoteInputSchema, toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const validation = QuoteInputSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Validation failed',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const quote = await quoteService.createQuote(validation.data);
+
+    await recordAuditLog(event, {
+      action: 'QUOTE_CREATED',
+      entityName: 'Estimate',
+      entityId: quote.id,
+      newValue: {
+        estimateNumber: quote.estimateNumber,
+        customerId: quote.customerId,
+        totalAmount: quote.totalAmount
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: quote
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to create the quote');
+  }
+});
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { quoteService } from '~/server/lib/QuoteService';
+import { CoverConfigurationSchema, toQuoteHttpError } from '~/server/utils/quoteRequests';
+import { QUOTE_EDITOR_ROLES } from '~/utils/quotes';
+
+const PriceCoverSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  configuration: CoverConfigurationSchema
+});
+
+// Live price for the cover being configured in the quote editor
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => QUOTE_EDITOR_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage quotes'
+    });
+  }
+
+  const validation = PriceCoverSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Validation failed',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const quote = await quoteService.priceCover(validation.data.customerId, validation.data.configuration);
+
+    return {
+      success: true,
+      data: quote
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to price the cover');
+  }
+});
@@ -0,0 +1,66 @@
+import { auth } from '~/server/lib/auth';
+import { jobQueue } from '~/server/lib/JobQueueService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to cancel background jobs'
+    });
+  }
+
+  const jobId = getRouterParam(event, 'id');
+  if (!jobId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Job ID is required'
+    });
+  }
+
+  try {
+    const job = await jobQueue.cancelJob(jobId);
+
+    await recordAuditLog(event, {
+      action: 'BACKGROUND_JOB_CANCEL',
+      entityName: 'BackgroundJob',
+      entityId: job.id,
+      newValue: { name: job.name, status: job.status }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: job
+    };
+  } catch (error: any) {
+    if (error.message === 'Job not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'JobQueueValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error cancelling background job ${jobId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to cancel background job'
+    });
+  }
+});
@@ -0,0 +1,68 @@
+import type { BackgroundJobStatus } from '@prisma-app/client';
+import { auth } from '~/server/lib/auth';
+import { getEnhancedPrismaClient } from '~/server/lib/db';
+import { jobQueue } from '~/server/lib/JobQueueService';
+import { JOB_STATUSES } from '~/utils/jobQueue';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view background jobs'
+    });
+  }
+
+  const query = getQuery(event);
+  const status = JOB_STATUSES.find(s => s === query.status) as BackgroundJobStatus | undefined;
+  const name = typeof query.name === 'string' && query.name ? query.name : undefined;
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  const limit = Math.min(parseInt(query.limit as string) || 50, 200);
+
+  try {
+    const prisma = await getEnhancedPrismaClient(event);
+    const where = { status, name };
+
+    const [jobs, total, counts] = await Promise.all([
+      prisma.backgroundJob.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.backgroundJob.count({ where }),
+      prisma.backgroundJob.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      })
+    ]);
+
+    return {
+      success: true,
+      data: jobs,
+      counts: Object.fromEntries(counts.map(count => [count.status, count._count._all])),
+      registeredJobs: jobQueue.getRegisteredJobs(),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching background jobs:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to fetch background jobs'
+    });
+  }
+});
@@ -0,0 +1,65 @@
+import { auth } from '~/server/lib/auth';
+import { labelPrintService } from '~/server/lib/LabelPrintService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to test label printers'
+    });
+  }
+
+  const printerId = getRouterParam(event, 'id');
+  if (!printerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Printer ID is required'
+    });
+  }
+
+  try {
+    const result = await labelPrintService.printTestLabel(printerId);
+
+    return {
+      success: true,
+      data: result
+    };
+  } catch (error: any) {
+    if (error.message === 'Label printer not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'LabelPrinterValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'LabelPrinterError') {
+      throw createError({
+        statusCode: 502,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error printing test label on printer ${printerId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to print test label'
+    });
+  }
+});
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { materialsService } from '~/server/lib/MaterialsService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+const AdjustStockSchema = z.object({
+  type: z.enum(['RECEIPT', 'ADJUSTMENT']),
+  // Received quantity, or the signed change for an adjustment
+  quantity: z.number().finite(),
+  notes: z.string().max(500).nullish()
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to adjust material stock'
+    });
+  }
+
+  const materialId = getRouterParam(event, 'id');
+  if (!materialId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Material ID is required'
+    });
+  }
+
+  const validation = AdjustStockSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid stock adjustment',
+      data: validation.error.flatten()
+    });
+  }
+  const body = validation.data;
+
+  try {
+    const material = await materialsService.adjustStock(materialId, body, sessionData.user.id);
+
+    await recordAuditLog(event, {
+      action: body.type === 'RECEIPT' ? 'MATERIAL_STOCK_RECEIPT' : 'MATERIAL_STOCK_ADJUSTMENT',
+      entityName: 'Material',
+      entityId: material.id,
+      newValue: { quantity: body.quantity, quantityOnHand: material.quantityOnHand, notes: body.notes }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: material
+    };
+  } catch (error: any) {
+    if (error.message === 'Material not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'MaterialValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error adjusting stock for material ${materialId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to adjust material stock'
+    });
+  }
+});
@@ -0,0 +1,40 @@
+import { auth } from '~/server/lib/auth';
+import { materialsService } from '~/server/lib/MaterialsService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view material stock'
+    });
+  }
+
+  // lowOnly=true returns just the materials the approved backlog is short of or that need reordering
+  const query = getQuery(event);
+  const lowOnly = query.lowOnly === 'true';
+
+  try {
+    const levels = await materialsService.getStockLevels();
+
+    return {
+      success: true,
+      data: lowOnly ? levels.filter(level => level.isShort || level.isLow) : levels
+    };
+  } catch (error) {
+    console.error('Error fetching material stock levels:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to fetch material stock levels'
+    });
+  }
+});
@@ -2,6 +2,7 @@ import { z } from 'zod'
 import { auth } from '~/server/lib/auth'
 import { unenhancedPrisma as prisma } from '~/server/lib/db'
 import { recordAuditLog } from '~/server/utils/auditLog'
+import { eventEmitter } from '~/server/utils/eventEmitter'
 
 const UpdateOrderItemSchema = z.object({
   itemStatus: z.enum([
@@ -115,6 +116,18 @@ export default defineEventHandler(async (event) => {
       });
       
       console.log(`📝 Created status log: ${existingOrderItem.itemStatus || 'NOT_STARTED_PRODUCTION'} → ${updateData.itemStatus} for item ${orderItemId}`);
+
+      eventEmitter.emitItemStatusChange({
+        orderItemId,
+        fromStatus: existingOrderItem.itemStatus,
+        toStatus: updateData.itemStatus,
+        orderId: existingOrderItem.orderId,
+        customerId: existingOrderItem.order.customerId,
+        orderNumber: existingOrderItem.order.salesOrderNumber || existingOrderItem.orderId.slice(-8),
+        itemName: existingOrderItem.item?.name,
+        userId: sessionData.user.id,
+        timestamp: new Date()
+      });
     }
 
     // Record audit log
@@ -9,10 +9,10 @@ const UpdateProductAttributeSchema = z.object({
   color: z.string().nullable().optional(),
   size: z.string().nullable().optional(),
   shape: z.string().nullable().optional(),
-  skirtType: z.enum(['CONN', 'SLIT']).nullable().optional(),
+  skirtType: z.enum(['CONN', 'SLIT', 'NONE']).nullable().optional(),
   skirtLength: z.string().nullable().optional(),
   tieDownsQty: z.string().nullable().optional(),
-  tieDownPlacement: z.enum(['HANDLE_SIDE', 'CORNER_SIDE', 'FOLD_SIDE']).nullable().optional(),
+  tieDownPlacement: z.enum(['HANDLE_SIDE', 'CORNER_SIDE', 'FOLD_SIDE', 'NONE']).nullable().optional(),
   distance: z.string().nullable().optional(),
   // Optional fields
   radiusSize: z.string().nullable().optional(),
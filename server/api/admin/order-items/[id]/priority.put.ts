@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { priorityScoringService } from '~/server/lib/PriorityScoringService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+import { PRIORITY_BOOST_LIMIT } from '~/utils/priorityScoring';
+
+const PriorityAdjustmentSchema = z.object({
+  pinned: z.boolean().optional(),
+  boost: z.number().int().min(-PRIORITY_BOOST_LIMIT).max(PRIORITY_BOOST_LIMIT).optional()
+}).refine(data => data.pinned !== undefined || data.boost !== undefined, {
+  message: 'Give pinned and/or boost'
+});
+
+/**
+ * Pin an item to the top of the warehouse priority list or boost its score
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to change item priority'
+    });
+  }
+
+  const orderItemId = getRouterParam(event, 'id');
+  if (!orderItemId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order item ID is required'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = PriorityAdjustmentSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid priority adjustment',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const result = await priorityScoringService.adjustPriority(orderItemId, validation.data);
+
+    await recordAuditLog(event, {
+      action: 'ORDER_ITEM_PRIORITY_ADJUST',
+      entityName: 'OrderItem',
+      entityId: orderItemId,
+      oldValue: result.previous,
+      newValue: { priorityPinnedAt: result.priorityPinnedAt, priorityBoost: result.priorityBoost }
+    }, sessionData.user.id);
+
+    eventEmitter.emitPriorityChange({
+      orderItemId,
+      orderId: result.orderId,
+      orderNumber: result.orderNumber || undefined,
+      pinned: !!result.priorityPinnedAt,
+      boost: result.priorityBoost,
+      userId: sessionData.user.id,
+      timestamp: new Date()
+    });
+
+    return {
+      success: true,
+      data: {
+        id: result.id,
+        isPinned: !!result.priorityPinnedAt,
+        priorityPinnedAt: result.priorityPinnedAt,
+        priorityBoost: result.priorityBoost
+      }
+    };
+  } catch (error: any) {
+    if (error.message === 'Order item not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'PriorityAdjustmentValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error changing priority of order item ${orderItemId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to change item priority'
+    });
+  }
+});
@@ -127,11 +127,13 @@ export default defineEventHandler(async (event) => {
       }
     }
 
-    // Update the product attributes to mark as verified
+    // Update the product attributes to mark as verified - a person has now checked the parse,
+    // so its errors are resolved and the item leaves the attribute review queue
     const updatedAttributes = await prisma.productAttribute.update({
       where: { orderItemId: orderItemId },
       data: {
-        verified: true
+        verified: true,
+        parsingErrors: []
       }
     })
 
@@ -1,5 +1,6 @@
 import { auth } from '~/server/lib/auth'
 import { unenhancedPrisma as prisma } from '~/server/lib/db'
+import { parseLineDescription } from '~/server/lib/DescriptionParsingService'
 import { recordAuditLog } from '~/server/utils/auditLog'
 import { z } from 'zod'
 
@@ -89,12 +90,13 @@ export default defineEventHandler(async (event) => {
       }
     })
 
-    // If this is a production item, create empty product attributes
+    // If this is a production item, create product attributes - parsed from the description when there is one
     if (isProduct) {
       await prisma.productAttribute.create({
         data: {
           orderItemId: orderItem.id,
-          verified: false
+          verified: false,
+          ...(lineDescription?.trim() ? parseLineDescription(lineDescription) : {})
         }
       })
     }
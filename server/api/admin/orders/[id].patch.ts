@@ -3,6 +3,10 @@ import { auth } from '~/server/lib/auth'
 import { getEnhancedPrismaClient } from '~/server/lib/db'
 import { validatePONumber } from '~/server/utils/poValidationService'
 import { recordAuditLog } from '~/server/utils/auditLog'
+import { eventEmitter } from '~/server/utils/eventEmitter'
+import { shippingService } from '~/server/lib/ShippingService'
+import { quickBooksSyncService } from '~/server/lib/QuickBooksSyncService'
+import { materialsService } from '~/server/lib/MaterialsService'
 
 const UpdateOrderSchema = z.object({
   customerId: z.string().cuid2('Invalid customer ID format').optional(),
@@ -204,6 +208,7 @@ export default defineEventHandler(async (event) => {
         )
 
         let printQueueItemsAdded = 0
+        const queuedOrderItemIds: string[] = []
 
         for (const item of verifiedProductionItems) {
           try {
@@ -228,6 +233,7 @@ export default defineEventHandler(async (event) => {
                   }
                 })
                 printQueueItemsAdded++
+                queuedOrderItemIds.push(item.id)
                 console.log(`Re-added item ${item.id} to print queue for order ${updatedOrder.id}`)
               } else {
                 console.log(`Item ${item.id} already in print queue`)
@@ -242,6 +248,7 @@ export default defineEventHandler(async (event) => {
                 }
               })
               printQueueItemsAdded++
+              queuedOrderItemIds.push(item.id)
               console.log(`Added item ${item.id} to print queue for order ${updatedOrder.id}`)
             }
           } catch (itemError) {
@@ -249,6 +256,16 @@ export default defineEventHandler(async (event) => {
           }
         }
 
+        if (queuedOrderItemIds.length > 0) {
+          eventEmitter.emitPrintQueueChange({
+            action: 'ADDED',
+            orderItemIds: queuedOrderItemIds,
+            orderIds: [updatedOrder.id],
+            userId,
+            timestamp: new Date()
+          })
+        }
+
         approvalResult = {
           approvalSuccess: true,
           printQueueItemsAdded,
@@ -271,6 +288,49 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    if (existingOrder.orderStatus !== updatedOrder.orderStatus) {
+      eventEmitter.emitOrderStatusChange({
+        orderId: updatedOrder.id,
+        fromStatus: existingOrder.orderStatus,
+        toStatus: updatedOrder.orderStatus,
+        customerId: updatedOrder.customerId,
+        orderNumber: updatedOrder.salesOrderNumber || updatedOrder.id.slice(-8),
+        userId,
+        timestamp: new Date()
+      })
+    }
+
+    // Stamp shippedAt and send the tracking email when the order ships
+    if (existingOrder.orderStatus !== 'SHIPPED' && updatedOrder.orderStatus === 'SHIPPED') {
+      try {
+        await shippingService.handleOrderShipped(updatedOrder.id)
+      } catch (shippingError) {
+        console.error(`Failed to run shipped actions for order ${updatedOrder.id}:`, shippingError)
+      }
+    }
+
+    // Reserve materials when the order is approved and hand them back if it is cancelled
+    try {
+      if (isBeingApproved) {
+        await materialsService.reserveForOrder(updatedOrder.id)
+      } else if (existingOrder.orderStatus !== 'CANCELLED' && updatedOrder.orderStatus === 'CANCELLED') {
+        await materialsService.releaseForOrder(updatedOrder.id)
+      }
+    } catch (materialsError) {
+      console.error(`Failed to update material reservations for order ${updatedOrder.id}:`, materialsError)
+    }
+
+    // Status changes queue their own invoice sync; manual tracking edits need one here
+    const shippingInfoChanged = existingOrder.trackingNumber !== updatedOrder.trackingNumber ||
+      existingOrder.shipDate?.getTime() !== updatedOrder.shipDate?.getTime()
+    if (shippingInfoChanged && existingOrder.orderStatus === updatedOrder.orderStatus) {
+      try {
+        await quickBooksSyncService.enqueueInvoiceSync(updatedOrder.id, 'order:shipping-info')
+      } catch (syncError) {
+        console.error(`Failed to queue QuickBooks invoice sync for order ${updatedOrder.id}:`, syncError)
+      }
+    }
+
     // Record audit log
     await recordAuditLog(event, {
       action: 'ORDER_UPDATE',
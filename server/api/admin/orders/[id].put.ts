@@ -2,6 +2,7 @@ import { z } from 'zod'
 import { auth } from '~/server/lib/auth'
 import { getEnhancedPrismaClient } from '~/server/lib/db'
 import { orderApprovalService } from '~/server/lib/OrderApprovalService'
+import { materialsService } from '~/server/lib/MaterialsService'
 import { recordAuditLog } from '~/server/utils/auditLog'
 
 const UpdateOrderSchema = z.object({
@@ -199,6 +200,15 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    // Hand reserved materials back when the order is cancelled
+    if (existingOrder.orderStatus !== 'CANCELLED' && updatedOrder.orderStatus === 'CANCELLED') {
+      try {
+        await materialsService.releaseForOrder(updatedOrder.id)
+      } catch (materialsError) {
+        console.error(`Failed to release materials for order ${updatedOrder.id}:`, materialsError)
+      }
+    }
+
     // Record audit log
     await recordAuditLog(event, {
       action: 'ORDER_UPDATE',
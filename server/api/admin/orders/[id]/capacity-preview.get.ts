@@ -0,0 +1,51 @@
+import { auth } from '~/server/lib/auth';
+import { capacityPlanningService } from '~/server/lib/CapacityPlanningService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view capacity planning'
+    });
+  }
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  try {
+    const preview = await capacityPlanningService.previewOrder(orderId);
+
+    return {
+      success: true,
+      data: preview
+    };
+  } catch (error: any) {
+    if (error.message === 'Order not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error previewing capacity for order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to preview capacity'
+    });
+  }
+});
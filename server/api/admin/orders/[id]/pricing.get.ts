@@ -0,0 +1,51 @@
+import { auth } from '~/server/lib/auth';
+import { pricingService } from '~/server/lib/PricingService';
+import { PRICING_VIEWER_ROLES } from '~/utils/pricing';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PRICING_VIEWER_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view pricing'
+    });
+  }
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  try {
+    const pricing = await pricingService.getOrderPricing(orderId);
+
+    return {
+      success: true,
+      data: pricing
+    };
+  } catch (error: any) {
+    if (error.message === 'Order not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error pricing order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to price the order'
+    });
+  }
+});
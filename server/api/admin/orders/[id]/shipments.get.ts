@@ -0,0 +1,58 @@
+import { auth } from '~/server/lib/auth';
+import { getEnhancedPrismaClient } from '~/server/lib/db';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  try {
+    const prisma = await getEnhancedPrismaClient(event);
+
+    const shipments = await prisma.shipment.findMany({
+      where: { orderId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        // Label images are served by the label endpoint, not inlined here
+        packages: {
+          select: {
+            id: true,
+            sequence: true,
+            trackingNumber: true,
+            lengthIn: true,
+            widthIn: true,
+            heightIn: true,
+            weightLb: true,
+            orderItemIds: true,
+            labelFormat: true
+          },
+          orderBy: { sequence: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      success: true,
+      data: shipments
+    };
+  } catch (error) {
+    console.error(`Error fetching shipments for order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to fetch shipments'
+    });
+  }
+});
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { shippingService } from '~/server/lib/ShippingService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+const PackageSchema = z.object({
+  lengthIn: z.number().positive(),
+  widthIn: z.number().positive(),
+  heightIn: z.number().positive(),
+  weightLb: z.number().positive(),
+  orderItemIds: z.array(z.string()).default([])
+});
+
+const CreateShipmentSchema = z.object({
+  carrier: z.string().min(1, 'Carrier is required'),
+  serviceCode: z.string().min(1, 'Service is required'),
+  packages: z.array(PackageSchema).optional()
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to create shipments'
+    });
+  }
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = CreateShipmentSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid shipment request',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const shipment = await shippingService.createShipment(orderId, validation.data, sessionData.user.id);
+
+    await recordAuditLog(event, {
+      action: 'SHIPMENT_CREATE',
+      entityName: 'Order',
+      entityId: orderId,
+      newValue: {
+        shipmentId: shipment.id,
+        carrier: shipment.carrier,
+        serviceCode: shipment.serviceCode,
+        trackingNumber: shipment.trackingNumber,
+        rateAmount: shipment.rateAmount
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      message: `Label created - tracking ${shipment.trackingNumber}`,
+      data: shipment
+    };
+  } catch (error: any) {
+    if (error.message === 'Order not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'ShippingValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'CarrierError') {
+      throw createError({
+        statusCode: 502,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error creating shipment for order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to create shipment'
+    });
+  }
+});
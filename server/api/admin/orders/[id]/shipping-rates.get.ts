@@ -0,0 +1,58 @@
+import { auth } from '~/server/lib/auth';
+import { shippingService } from '~/server/lib/ShippingService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to rate shipments'
+    });
+  }
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  try {
+    const result = await shippingService.getRates(orderId);
+
+    return {
+      success: true,
+      data: result
+    };
+  } catch (error: any) {
+    if (error.message === 'Order not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'ShippingValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error getting shipping rates for order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to get shipping rates'
+    });
+  }
+});
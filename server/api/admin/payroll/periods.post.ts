@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { payrollService } from '~/server/lib/PayrollService';
+import { getStationWorkSettings } from '~/server/lib/productionTimer';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { PAYROLL_ADMIN_ROLES } from '~/utils/payroll';
+
+// Whole days - the service turns them into the shop's day boundaries
+const CreatePayPeriodSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be YYYY-MM-DD')
+});
+
+/**
+ * Open a pay period
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PAYROLL_ADMIN_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage payroll'
+    });
+  }
+
+  const validation = CreatePayPeriodSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid pay period',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const period = await payrollService.createPeriod(
+      validation.data.startDate,
+      validation.data.endDate,
+      getStationWorkSettings().timeZone
+    );
+
+    await recordAuditLog(event, {
+      action: 'PAY_PERIOD_CREATE',
+      entityName: 'PayPeriod',
+      entityId: period.id,
+      newValue: { startDate: period.startDate, endDate: period.endDate }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: period
+    };
+  } catch (error: any) {
+    if (error.name === 'PayrollValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error creating pay period:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to create pay period'
+    });
+  }
+});
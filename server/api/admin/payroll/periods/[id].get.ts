@@ -0,0 +1,52 @@
+import { auth } from '~/server/lib/auth';
+import { payrollService } from '~/server/lib/PayrollService';
+import { PAYROLL_APPROVER_ROLES } from '~/utils/payroll';
+
+/**
+ * A pay period with its statements, and on locked periods the station work changed since the lock
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PAYROLL_APPROVER_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view payroll'
+    });
+  }
+
+  const periodId = getRouterParam(event, 'id');
+  if (!periodId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Pay period ID is required'
+    });
+  }
+
+  try {
+    return {
+      success: true,
+      data: await payrollService.getPeriod(periodId)
+    };
+  } catch (error: any) {
+    if (error.message === 'Pay period not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error loading pay period ${periodId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load pay period'
+    });
+  }
+});
@@ -0,0 +1,72 @@
+import { auth } from '~/server/lib/auth';
+import { payrollService } from '~/server/lib/PayrollService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { PAYROLL_ADMIN_ROLES } from '~/utils/payroll';
+
+/**
+ * Work out the period's statements from the station logs again
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PAYROLL_ADMIN_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to manage payroll'
+    });
+  }
+
+  const periodId = getRouterParam(event, 'id');
+  if (!periodId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Pay period ID is required'
+    });
+  }
+
+  try {
+    const statements = await payrollService.calculatePeriod(periodId);
+
+    await recordAuditLog(event, {
+      action: 'PAY_PERIOD_CALCULATE',
+      entityName: 'PayPeriod',
+      entityId: periodId,
+      newValue: {
+        statementCount: statements.length,
+        totalPay: statements.reduce((sum, statement) => sum + Number(statement.totalPay), 0)
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: { statementCount: statements.length }
+    };
+  } catch (error: any) {
+    if (error.message === 'Pay period not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'PayPeriodLockedError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error calculating pay period ${periodId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to calculate pay statements'
+    });
+  }
+});
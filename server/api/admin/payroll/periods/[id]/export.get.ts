@@ -0,0 +1,77 @@
+import { auth } from '~/server/lib/auth';
+import { payrollService } from '~/server/lib/PayrollService';
+import { getStationWorkSettings } from '~/server/lib/productionTimer';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { PAYROLL_ADMIN_ROLES, formatPayPeriodDate } from '~/utils/payroll';
+
+/**
+ * Download the period's approved statements as a payroll import CSV
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PAYROLL_ADMIN_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to export payroll'
+    });
+  }
+
+  const periodId = getRouterParam(event, 'id');
+  if (!periodId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Pay period ID is required'
+    });
+  }
+
+  try {
+    const { timeZone } = getStationWorkSettings();
+    const { period, csv, statementCount } = await payrollService.exportPeriod(periodId, timeZone);
+
+    if (statementCount === 0) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'No approved statements to export for this period'
+      });
+    }
+
+    await recordAuditLog(event, {
+      action: 'PAY_PERIOD_EXPORT',
+      entityName: 'PayPeriod',
+      entityId: period.id,
+      newValue: { statementCount }
+    }, sessionData.user.id);
+
+    const dateStr = `${formatPayPeriodDate(period.startDate, timeZone)}_to_${formatPayPeriodDate(period.endDate, timeZone)}`;
+    setHeader(event, 'Content-Type', 'text/csv; charset=utf-8');
+    setHeader(event, 'Content-Disposition', `attachment; filename="payroll-${dateStr}.csv"`);
+    setHeader(event, 'Cache-Control', 'no-cache, no-store, must-revalidate');
+
+    return csv;
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    if (error.message === 'Pay period not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error exporting pay period ${periodId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to export payroll'
+    });
+  }
+});
@@ -0,0 +1,74 @@
+import { auth } from '~/server/lib/auth';
+import { payrollService } from '~/server/lib/PayrollService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { PAYROLL_APPROVER_ROLES } from '~/utils/payroll';
+
+/**
+ * Approve an employee's pay statement
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  if (!userRoles.some(role => PAYROLL_APPROVER_ROLES.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to approve pay statements'
+    });
+  }
+
+  const statementId = getRouterParam(event, 'id');
+  if (!statementId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Pay statement ID is required'
+    });
+  }
+
+  try {
+    const statement = await payrollService.approveStatement(statementId, sessionData.user.id);
+
+    await recordAuditLog(event, {
+      action: 'PAY_STATEMENT_APPROVE',
+      entityName: 'PayStatement',
+      entityId: statement.id,
+      newValue: {
+        userId: statement.userId,
+        hours: statement.hours,
+        pieces: statement.pieces,
+        totalPay: statement.totalPay
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: statement
+    };
+  } catch (error: any) {
+    if (error.message === 'Pay statement not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'PayPeriodLockedError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error approving pay statement ${statementId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to approve pay statement'
+    });
+  }
+});
@@ -1,5 +1,6 @@
 import { auth } from '~/server/lib/auth'
 import { unenhancedPrisma as prisma } from '~/server/lib/db'
+import { eventEmitter } from '~/server/utils/eventEmitter'
 
 export default defineEventHandler(async (event) => {
   // Authentication check
@@ -31,6 +32,14 @@ export default defineEventHandler(async (event) => {
       }
     })
 
+    eventEmitter.emitPrintQueueChange({
+      action: body.isPrinted ? 'PRINTED' : 'UPDATED',
+      queueItemIds: [updatedItem.id],
+      orderItemIds: [updatedItem.orderItemId],
+      userId: sessionData.user.id,
+      timestamp: new Date()
+    })
+
     return {
       success: true,
       data: updatedItem
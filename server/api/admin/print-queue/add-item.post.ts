@@ -1,5 +1,6 @@
 import { auth } from '~/server/lib/auth'
 import { getEnhancedPrismaClient } from '~/server/lib/db'
+import { eventEmitter } from '~/server/utils/eventEmitter'
 
 export default defineEventHandler(async (event) => {
   // Authentication check
@@ -86,6 +87,15 @@ export default defineEventHandler(async (event) => {
             addedBy: userId
           }
         })
+
+        eventEmitter.emitPrintQueueChange({
+          action: 'ADDED',
+          queueItemIds: [updatedItem.id],
+          orderItemIds: [orderItemId],
+          orderIds: [orderItem.orderId],
+          userId,
+          timestamp: new Date()
+        })
         
         return {
           success: true,
@@ -108,6 +118,15 @@ export default defineEventHandler(async (event) => {
         }
       })
 
+      eventEmitter.emitPrintQueueChange({
+        action: 'ADDED',
+        queueItemIds: [newItem.id],
+        orderItemIds: [orderItemId],
+        orderIds: [orderItem.orderId],
+        userId,
+        timestamp: new Date()
+      })
+
       return {
         success: true,
         message: 'Item added to print queue',
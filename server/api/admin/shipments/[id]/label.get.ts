@@ -0,0 +1,54 @@
+import { auth } from '~/server/lib/auth';
+import { getEnhancedPrismaClient } from '~/server/lib/db';
+
+const LABEL_CONTENT_TYPES: Record<string, string> = {
+  PDF: 'application/pdf',
+  GIF: 'image/gif',
+  PNG: 'image/png',
+  ZPL: 'text/plain'
+};
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const shipmentId = getRouterParam(event, 'id');
+  if (!shipmentId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Shipment ID is required'
+    });
+  }
+
+  const query = getQuery(event);
+  const sequence = query.package ? parseInt(query.package as string) : 1;
+
+  const prisma = await getEnhancedPrismaClient(event);
+
+  const shipmentPackage = await prisma.shipmentPackage.findFirst({
+    where: { shipmentId, sequence },
+    include: { shipment: { select: { trackingNumber: true } } }
+  });
+
+  if (!shipmentPackage?.labelData) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Label not found'
+    });
+  }
+
+  const format = shipmentPackage.labelFormat.toUpperCase();
+  const extension = format === 'ZPL' ? 'zpl' : format.toLowerCase();
+  const filename = `label-${shipmentPackage.trackingNumber || shipmentPackage.shipment.trackingNumber}-${sequence}.${extension}`;
+
+  setHeader(event, 'Content-Type', LABEL_CONTENT_TYPES[format] || 'application/octet-stream');
+  setHeader(event, 'Content-Disposition', `inline; filename="${filename}"`);
+  setHeader(event, 'Cache-Control', 'private, max-age=3600');
+
+  return Buffer.from(shipmentPackage.labelData);
+});
@@ -0,0 +1,57 @@
+import { auth } from '~/server/lib/auth';
+import { shippingService } from '~/server/lib/ShippingService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const shipmentId = getRouterParam(event, 'id');
+  if (!shipmentId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Shipment ID is required'
+    });
+  }
+
+  try {
+    const result = await shippingService.syncTracking(shipmentId);
+
+    return {
+      success: true,
+      message: result.orderShipped ? 'Order marked as shipped' : `Tracking updated: ${result.shipment.trackingStatus}`,
+      data: result
+    };
+  } catch (error: any) {
+    if (error.message === 'Shipment not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'ShippingValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'CarrierError') {
+      throw createError({
+        statusCode: 502,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error syncing tracking for shipment ${shipmentId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to sync tracking'
+    });
+  }
+});
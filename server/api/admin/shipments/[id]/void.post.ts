@@ -0,0 +1,75 @@
+import { auth } from '~/server/lib/auth';
+import { shippingService } from '~/server/lib/ShippingService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to void shipments'
+    });
+  }
+
+  const shipmentId = getRouterParam(event, 'id');
+  if (!shipmentId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Shipment ID is required'
+    });
+  }
+
+  try {
+    const shipment = await shippingService.voidShipment(shipmentId);
+
+    await recordAuditLog(event, {
+      action: 'SHIPMENT_VOID',
+      entityName: 'Order',
+      entityId: shipment.orderId,
+      oldValue: { shipmentId, status: 'LABEL_CREATED', trackingNumber: shipment.trackingNumber },
+      newValue: { shipmentId, status: shipment.status }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      message: `Label ${shipment.trackingNumber} voided`,
+      data: shipment
+    };
+  } catch (error: any) {
+    if (error.message === 'Shipment not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'ShippingValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'CarrierError') {
+      throw createError({
+        statusCode: 502,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error voiding shipment ${shipmentId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to void shipment'
+    });
+  }
+});
@@ -0,0 +1,62 @@
+import { auth } from '~/server/lib/auth';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+/**
+ * Issue a worker a new kiosk badge; a badge printed before stops working
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to issue badges'
+    });
+  }
+
+  const userId = getRouterParam(event, 'id');
+  if (!userId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'User ID is required'
+    });
+  }
+
+  try {
+    const badge = await kioskOperatorService.issueBadge(userId);
+
+    await recordAuditLog(event, {
+      action: 'USER_BADGE_ISSUE',
+      entityName: 'User',
+      entityId: userId,
+      newValue: { badgeIssuedAt: badge.badgeIssuedAt }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: badge
+    };
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error issuing badge for user ${userId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to issue badge'
+    });
+  }
+});
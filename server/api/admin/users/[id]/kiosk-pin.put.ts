@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+const KioskPinSchema = z.object({
+  pin: z.string().regex(/^\d{4,6}$/, 'The PIN must be 4 to 6 digits').nullable()
+});
+
+/**
+ * Set or clear the PIN a worker enters at a kiosk before sensitive actions
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to set kiosk PINs'
+    });
+  }
+
+  const userId = getRouterParam(event, 'id');
+  if (!userId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'User ID is required'
+    });
+  }
+
+  const validation = KioskPinSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: validation.error.issues[0]?.message || 'Validation failed',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    await kioskOperatorService.setPin(userId, validation.data.pin);
+
+    // The PIN itself is never written to the audit log
+    await recordAuditLog(event, {
+      action: validation.data.pin === null ? 'USER_KIOSK_PIN_CLEAR' : 'USER_KIOSK_PIN_SET',
+      entityName: 'User',
+      entityId: userId
+    }, sessionData.user.id);
+
+    return {
+      success: true
+    };
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error setting kiosk PIN for user ${userId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to set kiosk PIN'
+    });
+  }
+});
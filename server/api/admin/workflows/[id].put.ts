@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { getEnhancedPrismaClient } from '~/server/lib/db';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { validateWorkflowDefinition } from '~/utils/workflowEngine';
+
+const WorkflowStepSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Step name is required'),
+  stationId: z.string().min(1, 'Station is required'),
+  itemStatus: z.enum(['NOT_STARTED_PRODUCTION', 'CUTTING', 'SEWING', 'FOAM_CUTTING', 'STUFFING', 'PACKAGING', 'PRODUCT_FINISHED']),
+  description: z.string().nullable().optional()
+});
+
+const UpdateWorkflowSchema = z.object({
+  name: z.string().min(1, 'Workflow name is required'),
+  description: z.string().nullable().optional(),
+  productType: z.enum(['SPA_COVER', 'COVER_FOR_COVER']).nullable().optional(),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  steps: z.array(WorkflowStepSchema).min(2, 'A workflow needs at least two steps')
+});
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Check authentication
+    const sessionData = await auth.api.getSession({ headers: event.headers });
+    if (!sessionData?.user) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized'
+      });
+    }
+
+    const workflowId = getRouterParam(event, 'id');
+    if (!workflowId) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Workflow ID is required'
+      });
+    }
+
+    const body = await readBody(event);
+    const result = UpdateWorkflowSchema.safeParse(body);
+    if (!result.success) {
+      throw createError({ statusCode: 422, statusMessage: 'Validation failed.', data: result.error.flatten().fieldErrors });
+    }
+    const data = result.data;
+
+    const prisma = await getEnhancedPrismaClient(event);
+
+    const existingWorkflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { steps: { orderBy: { position: 'asc' } } }
+    });
+
+    if (!existingWorkflow) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Workflow not found'
+      });
+    }
+
+    // Validate the step order against the stations it references
+    const stations = await prisma.station.findMany({
+      where: { id: { in: data.steps.map(step => step.stationId) } },
+      select: { id: true, name: true }
+    });
+    const stationNames = new Map(stations.map(station => [station.id, station.name]));
+
+    const problems = validateWorkflowDefinition({
+      name: data.name,
+      steps: data.steps.map((step, index) => ({
+        position: index + 1,
+        name: step.name,
+        stationName: stationNames.get(step.stationId) || '',
+        itemStatus: step.itemStatus
+      }))
+    });
+    if (problems.length > 0) {
+      throw createError({ statusCode: 422, statusMessage: problems.join('. '), data: { steps: problems } });
+    }
+
+    const existingStepIds = new Set(existingWorkflow.steps.map(step => step.id));
+    const keptStepIds = data.steps
+      .map(step => step.id)
+      .filter((id): id is string => !!id && existingStepIds.has(id));
+
+    const workflow = await prisma.$transaction(async (tx) => {
+      // Only one workflow can be the default
+      if (data.isDefault && !existingWorkflow.isDefault) {
+        await tx.workflow.updateMany({
+          where: { isDefault: true, id: { not: workflowId } },
+          data: { isDefault: false }
+        });
+      }
+
+      // Removed steps - items waiting at them fall back to their status (currentStepId is set to null)
+      await tx.workflowStep.deleteMany({
+        where: { workflowId, id: { notIn: keptStepIds } }
+      });
+
+      // Existing steps keep their ID so items already waiting at them stay in place
+      for (const [index, step] of data.steps.entries()) {
+        const stepData = {
+          position: index + 1,
+          name: step.name,
+          stationId: step.stationId,
+          itemStatus: step.itemStatus,
+          description: step.description || null
+        };
+
+        if (step.id && existingStepIds.has(step.id)) {
+          await tx.workflowStep.update({ where: { id: step.id }, data: stepData });
+        } else {
+          await tx.workflowStep.create({ data: { ...stepData, workflowId } });
+        }
+      }
+
+      return tx.workflow.update({
+        where: { id: workflowId },
+        data: {
+          name: data.name,
+          description: data.description || null,
+          productType: data.productType || null,
+          isDefault: data.isDefault,
+          isActive: data.isActive
+        },
+        include: {
+          steps: { include: { station: true }, orderBy: { position: 'asc' } }
+        }
+      });
+    });
+
+    await recordAuditLog(event, {
+      action: 'WORKFLOW_UPDATE',
+      entityName: 'Workflow',
+      entityId: workflow.id,
+      oldValue: existingWorkflow,
+      newValue: workflow,
+    }, sessionData.user.id);
+
+    return { data: workflow };
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    if (error.code === 'P2002') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'A workflow with this name already exists'
+      });
+    }
+
+    console.error('Error updating workflow:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to update workflow'
+    });
+  }
+});
@@ -0,0 +1,24 @@
+import { auth } from '~/server/lib/auth';
+import { MetricsService } from '~/utils/metricsService';
+
+/**
+ * Orders At Risk API Endpoint
+ * Returns open orders that the capacity plan expects to finish after their due date
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized - Authentication required'
+    });
+  }
+
+  const orders = await MetricsService.getOrdersAtRisk();
+
+  return {
+    success: true,
+    data: orders,
+    timestamp: new Date().toISOString()
+  };
+});
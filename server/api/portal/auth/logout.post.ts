@@ -0,0 +1,18 @@
+import { customerPortalService } from '~/server/lib/CustomerPortalService';
+import { PORTAL_SESSION_COOKIE, clearPortalSessionCookie } from '~/server/utils/portalSession';
+
+export default defineEventHandler(async (event) => {
+  const sessionToken = getCookie(event, PORTAL_SESSION_COOKIE);
+
+  if (sessionToken) {
+    try {
+      await customerPortalService.revokeSession(sessionToken);
+    } catch (error) {
+      console.error('Error revoking customer portal session:', error);
+    }
+  }
+
+  clearPortalSessionCookie(event);
+
+  return { success: true };
+});
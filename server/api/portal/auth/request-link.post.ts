@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { customerPortalService } from '~/server/lib/CustomerPortalService';
+
+const RequestLinkSchema = z.object({
+  email: z.string().email('Please enter a valid email address')
+});
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const validation = RequestLinkSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Please enter a valid email address'
+    });
+  }
+
+  try {
+    const baseUrl = useRuntimeConfig().public.appUrl || getRequestURL(event).origin;
+    const sent = await customerPortalService.requestMagicLink(validation.data.email, baseUrl);
+    console.log(`Customer portal link requested - ${sent} link(s) sent`);
+  } catch (error) {
+    console.error('Error sending customer portal link:', error);
+  }
+
+  // Same response whether or not the address matched a customer, so it can't be used to look up customers
+  return {
+    success: true,
+    message: 'If that email address is on file, a sign-in link is on its way.'
+  };
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { customerPortalService } from '~/server/lib/CustomerPortalService';
+import { setPortalSessionCookie } from '~/server/utils/portalSession';
+
+const VerifySchema = z.object({
+  token: z.string().min(1, 'Token is required')
+});
+
+export default defineEventHandler(async (event) => {
+  const body = await readBody(event);
+  const validation = VerifySchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Sign-in link is missing its token'
+    });
+  }
+
+  try {
+    const { sessionToken, session } = await customerPortalService.redeemMagicLink(validation.data.token);
+    setPortalSessionCookie(event, sessionToken);
+
+    return {
+      success: true,
+      data: { expiresAt: session.expiresAt }
+    };
+  } catch (error: any) {
+    if (error.name === 'PortalAuthError') {
+      throw createError({
+        statusCode: 401,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error verifying customer portal link:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to sign in'
+    });
+  }
+});
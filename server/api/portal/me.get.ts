@@ -0,0 +1,27 @@
+import { getPortalPrismaClient } from '~/server/lib/db';
+import { requirePortalSession } from '~/server/utils/portalSession';
+
+export default defineEventHandler(async (event) => {
+  const session = await requirePortalSession(event);
+  const prisma = getPortalPrismaClient(session);
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: session.customerId },
+    select: { id: true, name: true }
+  });
+
+  if (!customer) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Please sign in to view your orders'
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      customer,
+      email: session.email
+    }
+  };
+});
@@ -0,0 +1,157 @@
+import { getPortalPrismaClient } from '~/server/lib/db';
+import { requirePortalSession } from '~/server/utils/portalSession';
+import {
+  PORTAL_ORDER_STATUS_LABELS,
+  buildPortalItemProgress,
+  estimatePortalReadyDate,
+  getPortalTrackingUrl
+} from '~/utils/customerPortal';
+
+interface PortalTrackingEntry {
+  trackingNumber: string;
+  carrier: string | null;
+  service: string | null;
+  status: string | null;
+  statusDescription: string | null;
+  estimatedDelivery: Date | null;
+  deliveredAt: Date | null;
+  trackingUrl: string | null;
+}
+
+export default defineEventHandler(async (event) => {
+  const session = await requirePortalSession(event);
+
+  const orderId = getRouterParam(event, 'id');
+  if (!orderId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Order ID is required'
+    });
+  }
+
+  try {
+    const prisma = getPortalPrismaClient(session);
+
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, customerId: session.customerId },
+      select: {
+        id: true,
+        salesOrderNumber: true,
+        purchaseOrderNumber: true,
+        orderStatus: true,
+        transactionDate: true,
+        dueDate: true,
+        approvedAt: true,
+        readyToShipAt: true,
+        shippedAt: true,
+        trackingNumber: true,
+        customerMemo: true,
+        shippingAddressLine1: true,
+        shippingAddressLine2: true,
+        shippingCity: true,
+        shippingState: true,
+        shippingZipCode: true,
+        createdAt: true,
+        items: {
+          where: { isProduct: true },
+          select: {
+            id: true,
+            quantity: true,
+            itemStatus: true,
+            productType: true,
+            lineDescription: true,
+            item: { select: { name: true } },
+            itemStatusLogs: { select: { toStatus: true, timestamp: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
+        shipments: {
+          where: { status: { not: 'VOIDED' } },
+          select: {
+            carrier: true,
+            serviceName: true,
+            trackingNumber: true,
+            status: true,
+            trackingStatus: true,
+            estimatedDelivery: true,
+            deliveredAt: true
+          },
+          orderBy: { createdAt: 'desc' }
+        }
+      }
+    });
+
+    if (!order) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Order not found'
+      });
+    }
+
+    // Orders shipped with a manually entered tracking number have no shipment record
+    const tracking: PortalTrackingEntry[] = order.shipments.map(shipment => ({
+      trackingNumber: shipment.trackingNumber,
+      carrier: shipment.carrier,
+      service: shipment.serviceName,
+      status: shipment.status,
+      statusDescription: shipment.trackingStatus,
+      estimatedDelivery: shipment.estimatedDelivery,
+      deliveredAt: shipment.deliveredAt,
+      trackingUrl: getPortalTrackingUrl(shipment.trackingNumber, shipment.carrier)
+    }));
+
+    if (order.trackingNumber && !tracking.some(entry => entry.trackingNumber === order.trackingNumber)) {
+      tracking.push({
+        trackingNumber: order.trackingNumber,
+        carrier: null,
+        service: null,
+        status: null,
+        statusDescription: null,
+        estimatedDelivery: null,
+        deliveredAt: null,
+        trackingUrl: getPortalTrackingUrl(order.trackingNumber)
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        id: order.id,
+        orderNumber: order.salesOrderNumber || order.id.slice(-8),
+        purchaseOrderNumber: order.purchaseOrderNumber,
+        status: order.orderStatus,
+        statusLabel: PORTAL_ORDER_STATUS_LABELS[order.orderStatus] || order.orderStatus,
+        orderDate: order.transactionDate || order.createdAt,
+        shippedAt: order.shippedAt,
+        expectedReady: estimatePortalReadyDate(order),
+        customerMemo: order.customerMemo,
+        shippingAddress: {
+          addressLine1: order.shippingAddressLine1,
+          addressLine2: order.shippingAddressLine2,
+          city: order.shippingCity,
+          state: order.shippingState,
+          zipCode: order.shippingZipCode
+        },
+        tracking,
+        items: order.items.map(item => ({
+          id: item.id,
+          name: item.item?.name || 'Item',
+          description: item.lineDescription,
+          quantity: item.quantity,
+          status: item.itemStatus,
+          progress: buildPortalItemProgress(item.productType, item.itemStatus, item.itemStatusLogs)
+        }))
+      }
+    };
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    console.error(`Error fetching portal order ${orderId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load order'
+    });
+  }
+});
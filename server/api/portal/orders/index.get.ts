@@ -0,0 +1,60 @@
+import { getPortalPrismaClient } from '~/server/lib/db';
+import { requirePortalSession } from '~/server/utils/portalSession';
+import { PORTAL_ORDER_STATUS_LABELS, estimatePortalReadyDate } from '~/utils/customerPortal';
+
+export default defineEventHandler(async (event) => {
+  const session = await requirePortalSession(event);
+
+  try {
+    const prisma = getPortalPrismaClient(session);
+
+    // Explicit selects keep the payload small; the portal policies are what guarantee nothing internal leaks
+    const orders = await prisma.order.findMany({
+      where: { customerId: session.customerId },
+      select: {
+        id: true,
+        salesOrderNumber: true,
+        purchaseOrderNumber: true,
+        orderStatus: true,
+        transactionDate: true,
+        dueDate: true,
+        approvedAt: true,
+        readyToShipAt: true,
+        shippedAt: true,
+        trackingNumber: true,
+        createdAt: true,
+        items: {
+          where: { isProduct: true },
+          select: { id: true, quantity: true, itemStatus: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+
+    return {
+      success: true,
+      data: orders.map(order => ({
+        id: order.id,
+        orderNumber: order.salesOrderNumber || order.id.slice(-8),
+        purchaseOrderNumber: order.purchaseOrderNumber,
+        status: order.orderStatus,
+        statusLabel: PORTAL_ORDER_STATUS_LABELS[order.orderStatus] || order.orderStatus,
+        orderDate: order.transactionDate || order.createdAt,
+        shippedAt: order.shippedAt,
+        trackingNumber: order.trackingNumber,
+        expectedReady: estimatePortalReadyDate(order),
+        itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+        readyItemCount: order.items
+          .filter(item => item.itemStatus === 'READY')
+          .reduce((sum, item) => sum + item.quantity, 0)
+      }))
+    };
+  } catch (error) {
+    console.error(`Error fetching portal orders for customer ${session.customerId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load orders'
+    });
+  }
+});
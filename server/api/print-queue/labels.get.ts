@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import { auth } from '~/server/lib/auth'
+import { labelPrintService } from '~/server/lib/LabelPrintService'
+
+const LabelsQuerySchema = z.object({
+  ids: z.string().min(1, 'At least one queue item ID is required').transform(ids => ids.split(',').filter(Boolean)),
+  format: z.enum(['pdf', 'zpl']).default('pdf'),
+  dpi: z.coerce.number().int().min(100).max(600).optional(),
+})
+
+export default defineEventHandler(async (event) => {
+  // Authentication check
+  const sessionData = await auth.api.getSession({ headers: event.headers })
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    })
+  }
+
+  // Authorization check - office employees, admins, and super admins can access print queue
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || []
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee']
+  const hasAccess = userRoles.some(role => allowedRoles.includes(role))
+
+  if (!hasAccess) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to access print queue'
+    })
+  }
+
+  const result = LabelsQuerySchema.safeParse(getQuery(event))
+  if (!result.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Validation failed',
+      data: result.error.flatten().fieldErrors,
+    })
+  }
+
+  const { ids, format, dpi } = result.data
+
+  try {
+    // Rendering only - downloading labels does not take them off the queue
+    const rendered = await labelPrintService.renderQueueItems(ids, format === 'zpl' ? 'ZPL' : 'PDF', dpi)
+
+    setResponseHeaders(event, {
+      'Content-Type': format === 'zpl' ? 'text/plain; charset=utf-8' : 'application/pdf',
+      'Content-Disposition': `inline; filename="labels.${format}"`
+    })
+
+    return format === 'zpl' ? rendered.content : Buffer.from(rendered.content, 'latin1')
+
+  } catch (error: any) {
+    // Items whose attributes need review, with the policy set to block
+    if (error.name === 'UnverifiedAttributesError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      })
+    }
+
+    if (error.message.includes('print queue')) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Items not found in print queue'
+      })
+    }
+
+    console.error('Error rendering labels:', error)
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to render labels'
+    })
+  }
+})
@@ -1,6 +1,7 @@
 import { z } from 'zod'
 import { auth } from '~/server/lib/auth'
 import { printQueueService } from '~/server/lib/PrintQueueService'
+import { labelPrintService } from '~/server/lib/LabelPrintService'
 
 const MarkPrintedSchema = z.object({
   queueItemIds: z.array(z.string().cuid2('Invalid queue item ID format')).min(1, 'At least one queue item ID is required'),
@@ -43,12 +44,16 @@ export default defineEventHandler(async (event) => {
   const { queueItemIds } = result.data
 
   try {
+    // Labels printed in the browser follow the unverified items policy here, as the print itself never reaches the server
+    const attributeWarning = await labelPrintService.checkQueueItems(queueItemIds)
+
     // Mark items as printed and remove from queue with enhanced error handling
     await printQueueService.markBatchPrinted(queueItemIds, sessionData.user.id)
 
     return {
       success: true,
       message: 'Items marked as printed and removed from queue',
+      attributeWarning,
       meta: {
         requestedCount: queueItemIds.length,
         printedBy: sessionData.user.id,
@@ -62,6 +67,14 @@ export default defineEventHandler(async (event) => {
       userId: sessionData.user.id,
       queueItemCount: queueItemIds.length
     })
+
+    // Items whose attributes need review, with the policy set to block
+    if (error instanceof Error && error.name === 'UnverifiedAttributesError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      })
+    }
     
     // Determine appropriate error response based on error type
     let statusCode = 500
@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import { auth } from '~/server/lib/auth'
+import { labelPrintService } from '~/server/lib/LabelPrintService'
+
+const PrintLabelsSchema = z.object({
+  queueItemIds: z.array(z.string().cuid2('Invalid queue item ID format')).min(1, 'At least one queue item ID is required'),
+  printerId: z.string().min(1, 'Printer is required'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Authentication check
+  const sessionData = await auth.api.getSession({ headers: event.headers })
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    })
+  }
+
+  // Authorization check - the same roles that can mark items as printed can send them to a printer
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || []
+  const allowedRoles = ['Super Admin', 'Admin', 'Office Employee']
+  const hasAccess = userRoles.some(role => allowedRoles.includes(role))
+
+  if (!hasAccess) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to print labels'
+    })
+  }
+
+  const body = await readBody(event)
+  const result = PrintLabelsSchema.safeParse(body)
+
+  if (!result.success) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Validation failed',
+      data: result.error.flatten().fieldErrors,
+    })
+  }
+
+  const { queueItemIds, printerId } = result.data
+
+  try {
+    // Items are taken off the queue only after the printer acknowledges the job
+    const printResult = await labelPrintService.printQueueItems(queueItemIds, printerId, sessionData.user.id)
+
+    return {
+      success: true,
+      message: `${printResult.printedCount} label${printResult.printedCount === 1 ? '' : 's'} sent to ${printResult.printerName}`,
+      data: printResult
+    }
+
+  } catch (error: any) {
+    console.error('Error sending labels to printer:', {
+      error: error.message,
+      userId: sessionData.user.id,
+      printerId,
+      queueItemCount: queueItemIds.length
+    })
+
+    if (error.message === 'Label printer not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      })
+    }
+
+    if (error.message.includes('print queue')) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Items not found in print queue'
+      })
+    }
+
+    if (error.name === 'LabelPrinterValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      })
+    }
+
+    // Items whose attributes need review, with the policy set to block
+    if (error.name === 'UnverifiedAttributesError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      })
+    }
+
+    // The printer did not take the job - the labels stay in the queue
+    if (error.name === 'LabelPrinterError') {
+      throw createError({
+        statusCode: 502,
+        statusMessage: error.message,
+        data: { retryable: true }
+      })
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to print labels',
+      data: { retryable: true }
+    })
+  }
+})
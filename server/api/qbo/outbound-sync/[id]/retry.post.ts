@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { quickBooksSyncService } from '~/server/lib/QuickBooksSyncService';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+const RetrySyncSchema = z.object({
+  // Push even though the invoice was edited in QuickBooks
+  overwrite: z.boolean().default(false)
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to retry QuickBooks sync jobs'
+    });
+  }
+
+  const jobId = getRouterParam(event, 'id');
+  if (!jobId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Sync job ID is required'
+    });
+  }
+
+  const validation = RetrySyncSchema.safeParse((await readBody(event)) || {});
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid retry request',
+      data: validation.error.flatten()
+    });
+  }
+  const body = validation.data;
+
+  try {
+    const job = await quickBooksSyncService.retryJob(jobId, body.overwrite);
+
+    await recordAuditLog(event, {
+      action: 'QBO_SYNC_RETRY',
+      entityName: 'Order',
+      entityId: job.orderId,
+      newValue: { jobId, overwrite: body.overwrite }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      data: job
+    };
+  } catch (error: any) {
+    if (error.message === 'Sync job not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'QuickBooksSyncValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error(`Error retrying QuickBooks sync job ${jobId}:`, error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to retry QuickBooks sync job'
+    });
+  }
+});
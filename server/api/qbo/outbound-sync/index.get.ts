@@ -0,0 +1,59 @@
+import type { QuickBooksSyncStatus } from '@prisma-app/client';
+import { auth } from '~/server/lib/auth';
+import { getEnhancedPrismaClient } from '~/server/lib/db';
+
+const SYNC_STATUSES: QuickBooksSyncStatus[] = ['PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED', 'CONFLICT'];
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const userRoles = sessionData.user.roles?.map(r => r.role.name) || [];
+  const allowedRoles = ['Super Admin', 'Admin'];
+  if (!userRoles.some(role => allowedRoles.includes(role))) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Insufficient permissions to view QuickBooks sync jobs'
+    });
+  }
+
+  const query = getQuery(event);
+  const status = SYNC_STATUSES.find(s => s === query.status);
+  const limit = Math.min(parseInt(query.limit as string) || 50, 200);
+
+  try {
+    const prisma = await getEnhancedPrismaClient(event);
+
+    const [jobs, counts] = await Promise.all([
+      prisma.quickBooksOutboundSync.findMany({
+        where: status ? { status } : undefined,
+        orderBy: { updatedAt: 'desc' },
+        take: limit,
+        include: {
+          order: { select: { id: true, salesOrderNumber: true, customer: { select: { name: true } } } }
+        }
+      }),
+      prisma.quickBooksOutboundSync.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      })
+    ]);
+
+    return {
+      success: true,
+      data: jobs,
+      counts: Object.fromEntries(counts.map(count => [count.status, count._count._all]))
+    };
+  } catch (error) {
+    console.error('Error fetching QuickBooks sync jobs:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to fetch QuickBooks sync jobs'
+    });
+  }
+});
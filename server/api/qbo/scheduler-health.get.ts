@@ -1,5 +1,5 @@
 import { auth } from '~/server/lib/auth';
-import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager';
+import { isTokenRefreshScheduled } from '~/server/lib/backgroundJobs';
 import { QuickBooksErrorHandler, safeQuickBooksOperation } from '~/server/lib/quickbooksErrorHandler';
 
 export default defineEventHandler(async (event) => {
@@ -22,8 +22,8 @@ export default defineEventHandler(async (event) => {
     return safeQuickBooksOperation(async () => {
         const now = new Date();
         
-        // Check if scheduler is running (this is a simple check)
-        const schedulerRunning = QuickBooksTokenManager.isSchedulerRunning();
+        // Token refresh runs on the background job queue
+        const schedulerRunning = isTokenRefreshScheduled();
         
         // Get basic health metrics
         const healthStatus = {
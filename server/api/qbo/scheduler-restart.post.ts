@@ -1,5 +1,6 @@
 import { auth } from '~/server/lib/auth';
-import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager';
+import { jobQueue } from '~/server/lib/JobQueueService';
+import { QBO_TOKEN_REFRESH_INTERVAL_MS, QBO_TOKEN_REFRESH_JOB, isTokenRefreshScheduled } from '~/server/lib/backgroundJobs';
 import { QuickBooksErrorHandler, safeQuickBooksOperation } from '~/server/lib/quickbooksErrorHandler';
 
 export default defineEventHandler(async (event) => {
@@ -24,24 +25,22 @@ export default defineEventHandler(async (event) => {
             const restartTime = new Date();
             console.log(`[${restartTime.toISOString()}] Manual scheduler restart requested by user ${session.user.id}`);
             
-            // Restart the scheduler
-            QuickBooksTokenManager.restartTokenRefreshScheduler();
-            
-            // Verify it's running
-            const isRunning = QuickBooksTokenManager.isSchedulerRunning();
-            
-            if (!isRunning) {
-                throw new Error('Failed to restart scheduler - scheduler is not running after restart attempt');
+            // Token refresh runs on the background job queue - make sure it is scheduled, then run a check now
+            if (!isTokenRefreshScheduled()) {
+                throw new Error('Failed to restart scheduler - the token refresh job is not registered on this server');
             }
+
+            await jobQueue.schedule(QBO_TOKEN_REFRESH_JOB, QBO_TOKEN_REFRESH_INTERVAL_MS);
+            await jobQueue.enqueue(QBO_TOKEN_REFRESH_JOB);
             
-            console.log(`[${new Date().toISOString()}] Scheduler successfully restarted by user ${session.user.id}`);
+            console.log(`[${new Date().toISOString()}] Token refresh queued by user ${session.user.id}`);
         }, 'manual-scheduler-restart');
 
         return {
             success: true,
-            message: 'QuickBooks token refresh scheduler has been restarted successfully.',
+            message: 'QuickBooks token refresh has been queued to run now.',
             restartedAt: new Date(),
-            schedulerRunning: QuickBooksTokenManager.isSchedulerRunning()
+            schedulerRunning: isTokenRefreshScheduled()
         };
 
     } catch (error: unknown) {
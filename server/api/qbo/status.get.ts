@@ -3,6 +3,7 @@ import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager';
 import { QuickBooksErrorHandler } from '~/server/lib/quickbooksErrorHandler';
 import { QuickBooksLogger } from '~/server/lib/quickbooksLogger';
 import { QuickBooksMonitor } from '~/server/lib/quickbooksMonitor';
+import { isTokenRefreshScheduled } from '~/server/lib/backgroundJobs';
 
 export default defineEventHandler(async (event) => {
     const session = await auth.api.getSession({ headers: event.headers });
@@ -79,7 +80,7 @@ export default defineEventHandler(async (event) => {
             },
             automaticRefresh: {
                 enabled: automaticRefreshActive,
-                schedulerRunning: QuickBooksTokenManager.isSchedulerRunning(),
+                schedulerRunning: isTokenRefreshScheduled(),
                 nextRefreshCheck: 'Every 30 minutes',
                 refreshThreshold: '10 minutes before expiry',
                 status: automaticRefreshActive ? 'Active' : 'Inactive - Token expired',
@@ -0,0 +1,24 @@
+import { quoteService } from '~/server/lib/QuoteService';
+import { queueQuotePush, toQuoteHttpError } from '~/server/utils/quoteRequests';
+
+export default defineEventHandler(async (event) => {
+  const token = getRouterParam(event, 'token');
+  if (!token) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote link is invalid'
+    });
+  }
+
+  try {
+    const quote = await quoteService.acceptQuote(token);
+    await queueQuotePush(quote.id);
+
+    return {
+      success: true,
+      message: 'Thank you - your quote has been accepted. We will be in touch to confirm your order.'
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to accept the quote');
+  }
+});
@@ -0,0 +1,24 @@
+import { quoteService } from '~/server/lib/QuoteService';
+import { toQuoteHttpError } from '~/server/utils/quoteRequests';
+
+// Public - the token in the emailed link is the only credential, and it only shows that quote
+export default defineEventHandler(async (event) => {
+  const token = getRouterParam(event, 'token');
+  if (!token) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote link is invalid'
+    });
+  }
+
+  try {
+    const quote = await quoteService.getCustomerQuote(token);
+
+    return {
+      success: true,
+      data: quote
+    };
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to load the quote');
+  }
+});
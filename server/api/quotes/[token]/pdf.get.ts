@@ -0,0 +1,25 @@
+import { quoteService } from '~/server/lib/QuoteService';
+import { getQuoteBaseUrl, toQuoteHttpError } from '~/server/utils/quoteRequests';
+
+export default defineEventHandler(async (event) => {
+  const token = getRouterParam(event, 'token');
+  if (!token) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Quote link is invalid'
+    });
+  }
+
+  try {
+    const { filename, pdf } = await quoteService.renderCustomerPdf(token, getQuoteBaseUrl(event));
+
+    setResponseHeaders(event, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}"`
+    });
+
+    return Buffer.from(pdf, 'latin1');
+  } catch (error: any) {
+    throw toQuoteHttpError(error, 'Failed to render the quote');
+  }
+});
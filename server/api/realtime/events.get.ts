@@ -0,0 +1,134 @@
+import type { H3Event } from 'h3';
+import { auth } from '~/server/lib/auth';
+import { customerPortalService } from '~/server/lib/CustomerPortalService';
+import { eventEmitter, matchesRealtimeEventFilter, scopeRealtimeEventFilter } from '~/server/utils/eventEmitter';
+import type { RealtimeEvent, RealtimeEventFilter, RealtimeEventType, RealtimeSubscriber } from '~/server/utils/eventEmitter';
+import { PORTAL_SESSION_COOKIE } from '~/server/utils/portalSession';
+
+const EVENT_TYPES: RealtimeEventType[] = ['itemStatusChange', 'orderStatusChange', 'printQueueChange', 'priorityChange'];
+
+// Keeps proxies and load balancers from closing idle connections
+const HEARTBEAT_INTERVAL = 25000;
+
+// How long the browser waits before reconnecting after the connection drops
+const RECONNECT_DELAY = 3000;
+
+/**
+ * Staff are signed-in users with at least one role; otherwise fall back to the customer portal session
+ */
+async function getSubscriber(event: H3Event): Promise<{ subscriber: RealtimeSubscriber; userId: string | null } | null> {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (sessionData?.user?.roles?.length) {
+    return { subscriber: { kind: 'staff' }, userId: sessionData.user.id };
+  }
+
+  const portalToken = getCookie(event, PORTAL_SESSION_COOKIE);
+  const portalSession = portalToken ? await customerPortalService.getSession(portalToken) : null;
+  if (portalSession) {
+    return { subscriber: { kind: 'customer', customerId: portalSession.customerId }, userId: null };
+  }
+
+  if (sessionData?.user) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Staff access required'
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Server-Sent Events stream of item, order, print queue and priority list changes
+ *
+ * Query parameters (all optional):
+ * - orderId, stationName, customerId: only send events for this order / station / customer
+ * - types: comma separated list of itemStatusChange, orderStatusChange, printQueueChange, priorityChange
+ * - lastEventId: replay events after this ID (browsers send the Last-Event-ID header themselves on reconnect)
+ *
+ * Customer portal sessions only receive order and item changes for their own customer;
+ * asking for another customer's events is refused.
+ *
+ * When missed events can no longer be replayed a "resync" event is sent and the client should refetch.
+ */
+export default defineEventHandler(async (event) => {
+  const caller = await getSubscriber(event);
+  if (!caller) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const query = getQuery(event);
+  const requestedFilter: RealtimeEventFilter = {
+    orderId: query.orderId ? String(query.orderId) : undefined,
+    stationName: query.stationName ? String(query.stationName) : undefined,
+    customerId: query.customerId ? String(query.customerId) : undefined,
+    types: query.types
+      ? String(query.types).split(',').filter((type): type is RealtimeEventType => EVENT_TYPES.includes(type as RealtimeEventType))
+      : undefined
+  };
+
+  const filter = scopeRealtimeEventFilter(requestedFilter, caller.subscriber);
+  if (!filter) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'You can only subscribe to your own orders'
+    });
+  }
+
+  const lastEventId = getHeader(event, 'last-event-id') || (query.lastEventId ? String(query.lastEventId) : null);
+
+  const eventStream = createEventStream(event);
+
+  const pushEvent = (realtimeEvent: RealtimeEvent) => {
+    if (!matchesRealtimeEventFilter(realtimeEvent, filter)) {
+      return;
+    }
+
+    eventStream.push({
+      id: realtimeEvent.id,
+      event: realtimeEvent.type,
+      data: JSON.stringify(realtimeEvent.data)
+    }).catch((error) => {
+      console.error('Failed to push realtime event:', error);
+    });
+  };
+
+  // Subscribe before replaying so nothing emitted in between is lost
+  const unsubscribe = eventEmitter.subscribe(pushEvent);
+
+  const heartbeat = setInterval(() => {
+    eventStream.push({ event: 'ping', data: new Date().toISOString() }).catch(() => {});
+  }, HEARTBEAT_INTERVAL);
+
+  eventStream.onClosed(async () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    await eventStream.close();
+  });
+
+  if (lastEventId) {
+    const missedEvents = eventEmitter.getEventsSince(lastEventId);
+    if (missedEvents) {
+      missedEvents.forEach(pushEvent);
+    } else {
+      eventStream.push({
+        id: eventEmitter.getLastEventId(),
+        event: 'resync',
+        retry: RECONNECT_DELAY,
+        data: JSON.stringify({ reason: 'Missed events are no longer available' })
+      }).catch(() => {});
+    }
+  } else {
+    eventStream.push({
+      id: eventEmitter.getLastEventId(),
+      event: 'connected',
+      retry: RECONNECT_DELAY,
+      data: JSON.stringify({ userId: caller.userId })
+    }).catch(() => {});
+  }
+
+  return eventStream.send();
+});
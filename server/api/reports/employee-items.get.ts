@@ -2,6 +2,7 @@ import { auth } from '~/server/lib/auth';
 import { unenhancedPrisma as prisma } from '~/server/lib/db';
 import { validateReportRequest, validateUserId, validateProcessingLogs } from '~/utils/reportValidation';
 import { logError } from '~/utils/errorHandling';
+import { formatUnitLabel } from '~/utils/orderItemUnits';
 
 export default defineEventHandler(async (event) => {
   let sessionData: any = null;
@@ -120,6 +121,13 @@ export default defineEventHandler(async (event) => {
         include: {
           user: true,
           station: true,
+          unit: {
+            select: {
+              unitNumber: true,
+              productNumber: true,
+              itemStatus: true
+            }
+          },
           orderItem: {
             include: {
               item: true,
@@ -220,11 +228,13 @@ export default defineEventHandler(async (event) => {
         processingLogId: log.id,
         orderItemId: log.orderItemId,
         itemName: item.name || 'Unknown Item',
-        productNumber: orderItem.productNumber || null, // Include product number
+        // Scans of one unit of a multi-quantity item report that unit
+        productNumber: log.unit?.productNumber || orderItem.productNumber || null, // Include product number
+        unitLabel: log.unit ? formatUnitLabel(log.unit.unitNumber, orderItem.quantity) : null,
         orderNumber,
         orderId: order.id,
         customerName: customer?.name || 'Unknown Customer',
-        status: orderItem.itemStatus || 'UNKNOWN',
+        status: log.unit?.itemStatus || orderItem.itemStatus || 'UNKNOWN',
         stationName: log.station?.name || 'Unknown Station',
         stationId: log.stationId,
         startTime: log.startTime,
@@ -2,6 +2,7 @@ import { auth } from '~/server/lib/auth';
 import { TimezoneService } from '~/utils/timezoneService';
 import { validateReportRequest } from '~/utils/reportValidation';
 import { logError } from '~/utils/errorHandling';
+import { JOB_COST_GROUP_LABELS } from '~/utils/jobCosting';
 
 // Helper function to format duration in seconds to readable format for CSV
 function formatDurationForCSV(durationInSeconds: number): string {
@@ -45,7 +46,7 @@ export default defineEventHandler(async (event) => {
           suggestions: [
             'Check parameter formats and try again',
             'Ensure date range is valid and not too large',
-            'Verify report type is "productivity" or "lead-time"'
+            'Verify report type is "productivity", "lead-time" or "job-costing"'
           ]
         }
       });
@@ -75,7 +76,10 @@ export default defineEventHandler(async (event) => {
         'Items Processed',
         'Total Time',
         'Average Time per Item',
-        'Efficiency (items/hour)'
+        'Efficiency (items/hour)',
+        'Reworks',
+        'Rework Rate %',
+        'Scrap Cost'
       ];
 
       const rows = productivityResponse.data.map((row: any) => [
@@ -84,7 +88,10 @@ export default defineEventHandler(async (event) => {
         row.itemsProcessed || 0,
         formatDurationForCSV(row.totalDuration || 0),
         formatDurationForCSV(row.avgDuration || 0),
-        row.efficiency ? `${row.efficiency.toFixed(1)}` : '0.0'
+        row.efficiency ? `${row.efficiency.toFixed(1)}` : '0.0',
+        row.reworkCount || 0,
+        row.reworkRate || 0,
+        (row.scrapCost || 0).toFixed(2)
       ]);
 
       csvData = [headers, ...rows].map(row => 
@@ -138,7 +145,9 @@ export default defineEventHandler(async (event) => {
         'Completion %',
         'Production Time (hours)', // Actual processing time
         'Production Time (business days)', // Business days from processing logs
-        'Bottlenecks'
+        'Bottlenecks',
+        'Reworks',
+        'Scrap Cost'
       ];
 
       const rows = leadTimeResponse.data.map((row: any) => [
@@ -168,7 +177,9 @@ export default defineEventHandler(async (event) => {
         row.completionPercentage !== undefined ? `${row.completionPercentage}%` : '0%',
         row.totalProductionTimeHours || 0, // Actual hours from processing logs
         row.totalProductionTimeBusinessDays || 0, // Business days from processing logs
-        Array.isArray(row.bottlenecks) ? row.bottlenecks.join(', ') : ''
+        Array.isArray(row.bottlenecks) ? row.bottlenecks.join(', ') : '',
+        row.reworkCount || 0,
+        (row.scrapCost || 0).toFixed(2)
       ]);
 
       csvData = [headers, ...rows].map(row => 
@@ -183,15 +194,71 @@ export default defineEventHandler(async (event) => {
       
       filename = `lead-time-report-${dateStr}.csv`;
 
+    } else if (reportType === 'job-costing') {
+      const jobCostingResponse = await $fetch('/api/reports/job-costing', {
+        query: filters,
+        headers: event.headers
+      });
+
+      if (!jobCostingResponse.success || !jobCostingResponse.data) {
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to fetch job costing data for export'
+        });
+      }
+
+      const headers = [
+        JOB_COST_GROUP_LABELS[jobCostingResponse.groupBy],
+        'Orders',
+        'Items',
+        'Revenue',
+        'Labor Hours',
+        'Labor Cost',
+        'Material Cost',
+        'Scrap Cost',
+        'Overhead',
+        'Total Cost',
+        'Margin',
+        'Margin %'
+      ];
+
+      const money = (value: number) => (value || 0).toFixed(2);
+      const rows = jobCostingResponse.data.map((row: any) => [
+        row.label,
+        row.orderCount || 0,
+        row.itemCount || 0,
+        money(row.revenue),
+        row.laborHours || 0,
+        money(row.laborCost),
+        money(row.materialCost),
+        money(row.scrapCost),
+        money(row.overheadCost),
+        money(row.totalCost),
+        money(row.margin),
+        row.marginPercent !== null ? `${row.marginPercent}%` : 'N/A'
+      ]);
+
+      csvData = [headers, ...rows].map(row =>
+        row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')
+      ).join('\n');
+
+      const dateRange = jobCostingResponse.dateRange;
+      const dateStr = dateRange?.startDate && dateRange?.endDate
+        ? `${dateRange.startDate.split('T')[0]}_to_${dateRange.endDate.split('T')[0]}`
+        : new Date().toISOString().split('T')[0];
+
+      filename = `job-costing-by-${jobCostingResponse.groupBy}-${dateStr}.csv`;
+
     } else {
       throw createError({
         statusCode: 400,
-        statusMessage: 'Invalid report type. Must be "productivity" or "lead-time"',
+        statusMessage: 'Invalid report type. Must be "productivity", "lead-time" or "job-costing"',
         data: {
-          validTypes: ['productivity', 'lead-time'],
+          validTypes: ['productivity', 'lead-time', 'job-costing'],
           suggestions: [
             'Use reportType=productivity for employee productivity reports',
-            'Use reportType=lead-time for order lead time reports'
+            'Use reportType=lead-time for order lead time reports',
+            'Use reportType=job-costing for the margin report'
           ]
         }
       });
@@ -0,0 +1,98 @@
+import { auth } from '~/server/lib/auth';
+import { jobCostingService, type JobCostFilters } from '~/server/lib/JobCostingService';
+import { validateReportRequest } from '~/utils/reportValidation';
+import { logError } from '~/utils/errorHandling';
+import { JOB_COST_GROUPINGS, type JobCostGroupBy } from '~/utils/jobCosting';
+
+/**
+ * Margin report - labor, material and overhead cost against revenue for orders created in the date range
+ * Query: startDate, endDate, customerId, groupBy (item, order, customer, customerType, productType, shape, color, size, month)
+ */
+export default defineEventHandler(async (event) => {
+  let sessionData: any = null;
+
+  try {
+    const query = getQuery(event);
+
+    sessionData = await auth.api.getSession({ headers: event.headers });
+    if (!sessionData?.user?.id) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized - Authentication required'
+      });
+    }
+
+    // Costs, pay rates and margins are for admins only
+    const userRoles: string[] = sessionData.user.roles?.map((r: any) => r.role.name) || [];
+    const allowedRoles = ['Super Admin', 'Admin'];
+    if (!userRoles.some(role => allowedRoles.includes(role))) {
+      throw createError({
+        statusCode: 403,
+        statusMessage: 'Insufficient permissions to view job costing'
+      });
+    }
+
+    const validation = validateReportRequest(query);
+    if (!validation.isValid) {
+      const errorMessages = validation.errors.map(e => `${e.field}: ${e.message}`).join('; ');
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid request parameters: ${errorMessages}`,
+        data: {
+          errors: validation.errors,
+          suggestions: [
+            'Check parameter formats and try again',
+            'Ensure date range is valid'
+          ]
+        }
+      });
+    }
+
+    const groupBy = (query.groupBy || 'order') as JobCostGroupBy;
+    if (!JOB_COST_GROUPINGS.includes(groupBy)) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid groupBy: ${query.groupBy}`,
+        data: {
+          suggestions: [`Use one of: ${JOB_COST_GROUPINGS.join(', ')}`]
+        }
+      });
+    }
+
+    const { startDate, endDate, customerId }: JobCostFilters = validation.validatedParams;
+    const report = await jobCostingService.getReport({ startDate, endDate, customerId }, groupBy);
+
+    return {
+      success: true,
+      data: report.rows,
+      groupBy,
+      summary: {
+        ...report.totals,
+        orderCount: report.orderCount,
+        itemCount: report.itemCount
+      },
+      dateRange: {
+        startDate: startDate?.toISOString(),
+        endDate: endDate?.toISOString()
+      }
+    };
+  } catch (error: any) {
+    logError(error, 'job_costing_report_generation', sessionData?.user?.id);
+
+    if (error.statusCode) {
+      throw error;
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Unexpected error occurred while generating the job costing report',
+      data: {
+        retryable: true,
+        suggestions: [
+          'Try again with a smaller date range',
+          'Contact support if the problem persists'
+        ]
+      }
+    });
+  }
+});
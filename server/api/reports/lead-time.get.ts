@@ -86,6 +86,11 @@ export default defineEventHandler(async (event) => {
                 orderBy: {
                   startTime: 'asc'
                 }
+              },
+              reworks: {
+                select: {
+                  scrapCost: true
+                }
               }
             }
           }
@@ -123,7 +128,9 @@ export default defineEventHandler(async (event) => {
           avgProductionTimeDays: 0,
           avgProductionTimeBusinessDays: 0,
           totalItemsProduced: 0,
-          totalProductionHours: 0
+          totalProductionHours: 0,
+          totalReworks: 0,
+          totalScrapCost: 0
         },
         message: 'No orders found for the specified criteria',
         dateRange: {
@@ -180,12 +187,20 @@ export default defineEventHandler(async (event) => {
       let totalProductionTime = 0;
       let itemsCompleted = 0;
       let itemsInProduction = 0;
+      let reworkCount = 0;
+      let scrapCost = 0;
 
       for (const orderItem of order.items) {
         if (!orderItem || !Array.isArray(orderItem.itemProcessingLogs)) {
           continue; // Skip invalid order items
         }
 
+        // Reworks send items back through earlier stations, which adds to the lead time
+        for (const rework of orderItem.reworks || []) {
+          reworkCount++;
+          scrapCost += rework.scrapCost ? Number(rework.scrapCost) : 0;
+        }
+
         if (orderItem.itemProcessingLogs.length > 0) {
           itemsInProduction++;
           
@@ -256,7 +271,9 @@ export default defineEventHandler(async (event) => {
         totalProductionTimeHours: Math.round(totalProductionTimeHours * 100) / 100,
         totalProductionTimeBusinessDays,
         stationBreakdown: stationTimes,
-        bottlenecks
+        bottlenecks,
+        reworkCount,
+        scrapCost: Math.round(scrapCost * 100) / 100
       };
     });
 
@@ -304,7 +321,9 @@ export default defineEventHandler(async (event) => {
         avgProductionTimeDays: avgProductionTime,
         avgProductionTimeBusinessDays: avgProductionTimeBusinessDays,
         totalItemsProduced: result.reduce((sum, order) => sum + order.itemsCompleted, 0),
-        totalProductionHours: Math.round(result.reduce((sum, order) => sum + order.totalProductionTimeHours, 0) * 100) / 100
+        totalProductionHours: Math.round(result.reduce((sum, order) => sum + order.totalProductionTimeHours, 0) * 100) / 100,
+        totalReworks: result.reduce((sum, order) => sum + order.reworkCount, 0),
+        totalScrapCost: Math.round(result.reduce((sum, order) => sum + order.scrapCost, 0) * 100) / 100
       },
       dateRange: {
         startDate: startDate?.toISOString(),
@@ -369,7 +388,9 @@ export default defineEventHandler(async (event) => {
             avgProductionTimeDays: 0,
             avgProductionTimeBusinessDays: 0,
             totalItemsProduced: 0,
-            totalProductionHours: 0
+            totalProductionHours: 0,
+            totalReworks: 0,
+            totalScrapCost: 0
           },
           error: 'Lead time report generation failed'
         },
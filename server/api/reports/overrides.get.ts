@@ -0,0 +1,72 @@
+import { auth } from '~/server/lib/auth';
+import { supervisorOverrideService } from '~/server/lib/SupervisorOverrideService';
+import { validateReportRequest } from '~/utils/reportValidation';
+import { logError } from '~/utils/errorHandling';
+
+export default defineEventHandler(async (event) => {
+  let sessionData: any = null;
+
+  try {
+    const query = getQuery(event);
+
+    sessionData = await auth.api.getSession({ headers: event.headers });
+    if (!sessionData?.user?.id) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: 'Unauthorized - Authentication required'
+      });
+    }
+
+    const validation = validateReportRequest(query);
+    if (!validation.isValid) {
+      const errorMessages = validation.errors.map(e => `${e.field}: ${e.message}`).join('; ');
+      throw createError({
+        statusCode: 400,
+        statusMessage: `Invalid request parameters: ${errorMessages}`,
+        data: {
+          errors: validation.errors,
+          suggestions: [
+            'Check parameter formats and try again',
+            'Ensure date range is valid'
+          ]
+        }
+      });
+    }
+
+    const { startDate, endDate } = validation.validatedParams;
+    const { overrides, stations } = await supervisorOverrideService.getOverrideReport(startDate, endDate);
+
+    return {
+      success: true,
+      data: overrides,
+      byStation: stations,
+      summary: {
+        totalOverrides: overrides.length,
+        stationCount: stations.length,
+        supervisorCount: new Set(overrides.map(override => override.supervisor.id)).size
+      },
+      dateRange: {
+        startDate: startDate?.toISOString(),
+        endDate: endDate?.toISOString()
+      }
+    };
+  } catch (error: any) {
+    logError(error, 'override_report_generation', sessionData?.user?.id);
+
+    if (error.statusCode) {
+      throw error;
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Unexpected error occurred while generating the override report',
+      data: {
+        retryable: true,
+        suggestions: [
+          'Try again with a smaller date range',
+          'Contact support if the problem persists'
+        ]
+      }
+    });
+  }
+});
@@ -3,6 +3,7 @@ import { unenhancedPrisma as prisma } from '~/server/lib/db';
 
 import { validateReportRequest, validateProcessingLogs, validateDataQuality, logPerformanceMetrics, validateQueryPerformance, safeDivide } from '~/utils/reportValidation';
 import { logError } from '~/utils/errorHandling';
+import { getPausedSeconds } from '~/utils/workTime';
 
 // Cache removed to prevent stale data issues
 // If performance becomes an issue, consider implementing proper cache invalidation
@@ -172,6 +173,7 @@ export default defineEventHandler(async (event) => {
         include: {
           user: true,
           station: true,
+          pauses: true,
           orderItem: {
             include: {
               item: true,
@@ -291,8 +293,11 @@ export default defineEventHandler(async (event) => {
         summary: {
           totalEmployees: 0,
           totalItemsProcessed: 0, // Finished order items count
-          totalProductionTime: 0
+          totalProductionTime: 0,
+          totalReworks: 0,
+          totalScrapCost: 0
         },
+        reworkByStation: [],
         message: 'No productivity data available for the selected date range and filters'
       };
     }
@@ -369,10 +374,11 @@ export default defineEventHandler(async (event) => {
 
     // Second pass: Calculate time attribution (time gets credited to the person who scanned NEXT)
     // Group logs by order item to calculate time between scans
+    // Units of a multi-quantity item move through the shop on their own, so each unit is its own group
     const logsByOrderItem = new Map<string, any[]>();
     
     for (const log of processingLogs) {
-      const orderItemId = log.orderItemId;
+      const orderItemId = log.unitId || log.orderItemId;
       if (!logsByOrderItem.has(orderItemId)) {
         logsByOrderItem.set(orderItemId, []);
       }
@@ -428,10 +434,13 @@ export default defineEventHandler(async (event) => {
           continue;
         }
 
-        // Calculate time between current scan and next scan
+        // Calculate time between current scan and next scan, counting only active time:
+        // breaks on the log in between are left out, and a log auto-closed as stale stops at its end time
         const currentTime = new Date(currentLog.startTime).getTime();
         const nextTime = new Date(nextLog.startTime).getTime();
-        const timeDiff = Math.floor((nextTime - currentTime) / 1000); // in seconds
+        const activeUntil = currentLog.autoClosed && currentLog.endTime ? Math.min(nextTime, new Date(currentLog.endTime).getTime()) : nextTime;
+        const pausedSeconds = getPausedSeconds(currentLog.pauses || [], new Date(currentTime), new Date(activeUntil));
+        const timeDiff = Math.floor((activeUntil - currentTime) / 1000) - pausedSeconds; // in seconds
 
         // Only attribute positive time differences
         if (timeDiff > 0) {
@@ -448,6 +457,54 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    // Reworks are charged to the user/station that last worked the step the item was sent back to
+    const reworks = await prisma.itemRework.findMany({
+      where: {
+        createdAt: startDate || endDate ? {
+          ...(startDate ? { gte: startDate } : {}),
+          ...(endDate ? { lte: endDate } : {})
+        } : undefined,
+        ...(stationId ? { responsibleStationId: stationId } : {}),
+        ...(userId ? { responsibleUserId: userId } : {})
+      },
+      include: {
+        responsibleStation: { select: { name: true } }
+      }
+    });
+
+    const reworksByUserStation = new Map<string, { count: number; scrapCost: number }>();
+    const reworksByStation = new Map<string, { stationId: string | null; stationName: string; count: number; scrapCost: number }>();
+
+    for (const rework of reworks) {
+      const scrapCost = rework.scrapCost ? Number(rework.scrapCost) : 0;
+
+      if (rework.responsibleUserId && rework.responsibleStationId) {
+        const key = `${rework.responsibleUserId}-${rework.responsibleStationId}`;
+        const entry = reworksByUserStation.get(key) || { count: 0, scrapCost: 0 };
+        entry.count++;
+        entry.scrapCost += scrapCost;
+        reworksByUserStation.set(key, entry);
+      }
+
+      const stationKey = rework.responsibleStationId || 'unknown';
+      const stationEntry = reworksByStation.get(stationKey) || {
+        stationId: rework.responsibleStationId,
+        stationName: rework.responsibleStation?.name || 'Unknown Station',
+        count: 0,
+        scrapCost: 0
+      };
+      stationEntry.count++;
+      stationEntry.scrapCost += scrapCost;
+      reworksByStation.set(stationKey, stationEntry);
+    }
+
+    // Both rework rates are the share of scans at the responsible station that were sent back
+    const scansByStation = new Map<string, number>();
+    for (const data of aggregatedData.values()) {
+      scansByStation.set(data.stationId, (scansByStation.get(data.stationId) || 0) + data.scanCount);
+    }
+    const getReworkRate = (reworkCount: number, scans: number) => Math.round(safeDivide(reworkCount * 100, scans, 0) * 10) / 10;
+
     // Convert map to array and calculate metrics with safe division
     const result = Array.from(aggregatedData.values()).map(data => {
       const scansCount = data.scanCount;
@@ -462,6 +519,8 @@ export default defineEventHandler(async (event) => {
         ? Math.round(safeDivide(scansCount * 3600, data.totalDuration, 0) * 100) / 100
         : 0;
 
+      const rework = reworksByUserStation.get(`${data.userId}-${data.stationId}`) || { count: 0, scrapCost: 0 };
+
       return {
         userId: data.userId,
         userName: data.userName,
@@ -471,6 +530,9 @@ export default defineEventHandler(async (event) => {
         totalDuration: data.totalDuration,
         avgDuration,
         efficiency,
+        reworkCount: rework.count,
+        reworkRate: getReworkRate(rework.count, scansCount),
+        scrapCost: Math.round(rework.scrapCost * 100) / 100,
         scans: data.scans // Include scans for the modal
       };
     });
@@ -515,8 +577,15 @@ export default defineEventHandler(async (event) => {
       summary: {
         totalEmployees: new Set(filteredResult.map(r => r.userId)).size,
         totalItemsProcessed: finishedOrderItemsCount, // Count of finished order items (PRODUCT_FINISHED or READY)
-        totalProductionTime: filteredResult.reduce((sum, r) => sum + r.totalDuration, 0)
+        totalProductionTime: filteredResult.reduce((sum, r) => sum + r.totalDuration, 0),
+        totalReworks: reworks.length,
+        totalScrapCost: Math.round(reworks.reduce((sum, r) => sum + (r.scrapCost ? Number(r.scrapCost) : 0), 0) * 100) / 100
       },
+      reworkByStation: Array.from(reworksByStation.values()).map(entry => ({
+        ...entry,
+        scrapCost: Math.round(entry.scrapCost * 100) / 100,
+        reworkRate: getReworkRate(entry.count, entry.stationId ? scansByStation.get(entry.stationId) || 0 : 0)
+      })).sort((a, b) => b.count - a.count),
       warnings: allWarnings.length > 0 ? allWarnings : undefined,
       // No data quality validation - using all records
       performance: {
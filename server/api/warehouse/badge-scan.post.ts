@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { getUserActiveWork } from '~/server/lib/productionTimer';
+
+const BadgeScanSchema = z.object({
+  badgeCode: z.string().min(1, 'Badge code is required')
+});
+
+/**
+ * Switch a shared kiosk to the worker whose badge was scanned
+ * The kiosk stays logged in as itself; the badge holder is credited with the scans that follow.
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const validation = BadgeScanSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid badge scan',
+      data: validation.error.flatten()
+    });
+  }
+
+  try {
+    const operator = await kioskOperatorService.resolveBadge(validation.data.badgeCode);
+    // Lets the kiosk show straight away that the worker is coming back from a break
+    const activeWork = await getUserActiveWork(operator.id);
+
+    return {
+      success: true,
+      operator,
+      activeWork
+    };
+  } catch (error: any) {
+    if (error.message === 'Employee badge not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'This badge is not recognised. It may have been replaced by a newer badge.'
+      });
+    }
+    if (error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Badge scan error:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to look up the badge'
+    });
+  }
+});
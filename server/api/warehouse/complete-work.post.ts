@@ -1,7 +1,14 @@
+import type { OrderItemProcessingStatus } from '@prisma-app/client';
 import { unenhancedPrisma } from '~/server/lib/db';
 import { auth } from '~/server/lib/auth';
 import { logOrderItemStatusChange } from '~/server/utils/orderItemValidation';
 import { getRequestIP } from 'h3';
+import { workflowService } from '~/server/lib/WorkflowService';
+import { materialsService } from '~/server/lib/MaterialsService';
+import { orderItemUnitService } from '~/server/lib/OrderItemUnitService';
+import { WORKFLOW_COMPLETE_STATUS, findStationStepIndex, getOrderedWorkflowSteps } from '~/utils/workflowEngine';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+import { closeProcessingLogPauses } from '~/server/lib/productionTimer';
 
 export default defineEventHandler(async (event) => {
   try {
@@ -34,6 +41,7 @@ export default defineEventHandler(async (event) => {
             item: true
           }
         },
+        unit: true,
         station: true
       }
     });
@@ -61,35 +69,33 @@ export default defineEventHandler(async (event) => {
       });
     }
 
-    // Calculate duration
     const endTime = new Date();
-    const durationInSeconds = Math.floor((endTime.getTime() - processingLog.startTime.getTime()) / 1000);
-
-    // Determine the next status based on current station
-    let nextItemStatus;
-    let isFinalStep = false;
-
-    switch (processingLog.station.name) {
-      case 'Cutting':
-        nextItemStatus = 'SEWING';
-        break;
-      case 'Sewing':
-        nextItemStatus = 'FOAM_CUTTING';
-        break;
-      case 'Foam Cutting':
-        nextItemStatus = 'READY';
-        isFinalStep = true;
-        break;
-      default:
-        throw createError({
-          statusCode: 400,
-          statusMessage: 'Unknown station type'
-        });
+
+    // Work logged against one unit of a multi-quantity line moves only that unit
+    const { unit } = processingLog;
+    const fromStatus = unit ? unit.itemStatus : processingLog.orderItem.itemStatus;
+    const fromStepId = unit ? unit.currentStepId : processingLog.orderItem.currentStepId;
+
+    // Determine the next status from the step this station completes in the item's workflow
+    const workflow = await workflowService.getWorkflowForItem(processingLog.orderItemId);
+    const steps = getOrderedWorkflowSteps(workflow);
+    const completedIndex = findStationStepIndex(steps, processingLog.station.name, fromStatus, fromStepId);
+
+    if (completedIndex < 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `${processingLog.station.name} is not part of the ${workflow.name} workflow`
+      });
     }
 
+    const nextStep = steps[completedIndex + 1] || null;
+    const nextItemStatus = (nextStep ? nextStep.itemStatus : WORKFLOW_COMPLETE_STATUS) as OrderItemProcessingStatus;
+    const isFinalStep = !nextStep;
+
     // Start a transaction to update everything
     const result = await unenhancedPrisma.$transaction(async (tx) => {
-      // Update the processing log with end time and duration
+      // Update the processing log with end time and duration, leaving out any breaks
+      const durationInSeconds = await closeProcessingLogPauses(tx, processingLog, endTime);
       const updatedProcessingLog = await tx.itemProcessingLog.update({
         where: { id: processingLogId },
         data: {
@@ -99,33 +105,57 @@ export default defineEventHandler(async (event) => {
         }
       });
 
-      // Update the order item status
-      const updatedOrderItem = await tx.orderItem.update({
-        where: { id: processingLog.orderItemId },
-        data: { itemStatus: nextItemStatus }
+      // Update the order item status - a unit moves on and the order item reports its least advanced unit
+      let lineStatus = nextItemStatus;
+      if (unit) {
+        await tx.orderItemUnit.update({
+          where: { id: unit.id },
+          data: {
+            itemStatus: nextItemStatus,
+            currentStepId: nextStep?.id || null
+          }
+        });
+        if (workflow.id) {
+          await tx.orderItem.update({
+            where: { id: processingLog.orderItemId },
+            data: { workflowId: workflow.id }
+          });
+        }
+        const rolledUp = await orderItemUnitService.rollUpItemStatus(processingLog.orderItemId, tx);
+        lineStatus = (rolledUp?.itemStatus || nextItemStatus) as OrderItemProcessingStatus;
+      } else {
+        await tx.orderItem.update({
+          where: { id: processingLog.orderItemId },
+          data: {
+            itemStatus: nextItemStatus,
+            currentStepId: nextStep?.id || null,
+            ...(workflow.id ? { workflowId: workflow.id } : {})
+          }
+        });
+      }
+      const updatedOrderItem = await tx.orderItem.findUniqueOrThrow({
+        where: { id: processingLog.orderItemId }
       });
 
       // Log the status change with enhanced audit context
       const { logOrderItemStatusChangeWithContext } = await import('~/server/utils/orderItemAuditLogger');
-      const workDuration = processingLog.startTime ? 
-        Math.floor((new Date().getTime() - processingLog.startTime.getTime()) / 1000) : undefined;
-      
       await logOrderItemStatusChangeWithContext(
         {
           orderItemId: processingLog.orderItemId,
-          fromStatus: processingLog.orderItem.itemStatus,
+          unitId: unit?.id || null,
+          fromStatus,
           toStatus: nextItemStatus,
           changeReason: `Completed work at ${processingLog.station.name} station`,
           triggeredBy: 'manual',
           stationId: processingLog.stationId,
           stationName: processingLog.station.name,
           workStartTime: processingLog.startTime,
-          workEndTime: new Date(),
-          durationSeconds: workDuration
+          workEndTime: endTime,
+          durationSeconds: durationInSeconds
         },
         {
           orderId: processingLog.orderItem.order.id,
-          orderNumber: processingLog.orderItem.order.salesOrderNumber,
+          orderNumber: processingLog.orderItem.order.salesOrderNumber || undefined,
           itemId: processingLog.orderItem.itemId,
           itemName: processingLog.orderItem.item.name,
           userId: session.user.id,
@@ -136,10 +166,11 @@ export default defineEventHandler(async (event) => {
         }
       );
 
-      // If this was the final step, check if all items in the order are ready
-      if (isFinalStep) {
+      // Once the whole line is finished, check if all production items in the order are ready
+      let orderReadyToShip = false;
+      if (lineStatus === WORKFLOW_COMPLETE_STATUS) {
         const allOrderItems = await tx.orderItem.findMany({
-          where: { orderId: processingLog.orderItem.order.id }
+          where: { orderId: processingLog.orderItem.order.id, isProduct: true }
         });
 
         const allReady = allOrderItems.every(item => item.itemStatus === 'READY');
@@ -153,21 +184,55 @@ export default defineEventHandler(async (event) => {
               readyToShipAt: new Date()
             }
           });
+          orderReadyToShip = true;
         }
       }
 
-      return { updatedProcessingLog, updatedOrderItem };
+      return { updatedProcessingLog, updatedOrderItem, orderReadyToShip, durationInSeconds };
     });
 
     // Enhanced ItemStatusLog entry is created by logOrderItemStatusChangeWithContext above
     // This provides comprehensive audit trail with work duration and station context
 
+    // Take the materials used at this station out of stock
+    try {
+      await materialsService.consumeForStation(processingLog.orderItemId, processingLog.stationId, session.user.id, unit?.id);
+    } catch (materialsError) {
+      console.error(`Failed to consume materials for item ${processingLog.orderItemId}:`, materialsError);
+    }
+
+    const order = processingLog.orderItem.order;
+    eventEmitter.emitItemStatusChange({
+      orderItemId: processingLog.orderItemId,
+      fromStatus,
+      toStatus: nextItemStatus,
+      orderId: order.id,
+      customerId: order.customerId,
+      orderNumber: order.salesOrderNumber || order.id.slice(-8),
+      itemName: processingLog.orderItem.item.name,
+      userId: session.user.id,
+      stationName: processingLog.station.name,
+      timestamp: new Date()
+    });
+
+    if (result.orderReadyToShip) {
+      eventEmitter.emitOrderStatusChange({
+        orderId: order.id,
+        fromStatus: order.orderStatus,
+        toStatus: 'READY_TO_SHIP',
+        customerId: order.customerId,
+        orderNumber: order.salesOrderNumber || order.id.slice(-8),
+        userId: session.user.id,
+        timestamp: new Date()
+      });
+    }
+
     return {
       success: true,
       data: {
         processingLog: result.updatedProcessingLog,
         orderItem: result.updatedOrderItem,
-        duration: durationInSeconds,
+        duration: result.durationInSeconds,
         nextStatus: nextItemStatus,
         isFinalStep: isFinalStep
       }
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { cutPlanningService } from '~/server/lib/CutPlanningService';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+import { recordAuditLog } from '~/server/utils/auditLog';
+
+const ClaimCutBatchSchema = z.object({
+  orderItemIds: z.array(z.string().min(1)).min(1, 'The batch has no items'),
+  stationId: z.string().optional().nullable()
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = ClaimCutBatchSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid cut batch',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { orderItemIds, stationId } = validation.data;
+  const userId = sessionData.user.id;
+
+  try {
+    const claim = await cutPlanningService.claimBatch(orderItemIds, userId, stationId);
+
+    for (const change of claim.statusChanges) {
+      eventEmitter.emitItemStatusChange({
+        orderItemId: change.orderItemId,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        orderId: change.orderId,
+        customerId: change.customerId,
+        orderNumber: change.orderNumber,
+        itemName: change.itemName,
+        userId,
+        stationName: claim.station.name,
+        timestamp: new Date()
+      });
+    }
+
+    for (const order of claim.startedOrders) {
+      eventEmitter.emitOrderStatusChange({
+        orderId: order.orderId,
+        fromStatus: 'APPROVED',
+        toStatus: 'ORDER_PROCESSING',
+        customerId: order.customerId,
+        orderNumber: order.orderNumber,
+        userId,
+        timestamp: new Date()
+      });
+    }
+
+    await recordAuditLog(event, {
+      action: 'CUT_BATCH_CLAIM',
+      entityName: 'Station',
+      entityId: claim.station.id,
+      newValue: {
+        orderItemIds: claim.logs.map(log => log.orderItemId),
+        processingLogIds: claim.logs.map(log => log.id)
+      }
+    }, userId);
+
+    return {
+      success: true,
+      message: `Claimed ${claim.logs.length} item${claim.logs.length === 1 ? '' : 's'} for ${claim.station.name}`,
+      data: claim
+    };
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    if (error.name === 'CutBatchValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'CutBatchPermissionError') {
+      throw createError({
+        statusCode: 403,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.message === 'Order item not found' || error.message === 'Cutting station not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'CutBatchConflictError' || error.name === 'UnverifiedAttributesError') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error claiming cut batch:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to claim the cut batch'
+    });
+  }
+});
@@ -0,0 +1,36 @@
+import { auth } from '~/server/lib/auth';
+import { cutPlanningService } from '~/server/lib/CutPlanningService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const { stationId } = getQuery(event);
+
+  try {
+    const plan = await cutPlanningService.getPlan(typeof stationId === 'string' && stationId ? stationId : null);
+
+    return {
+      success: true,
+      data: plan
+    };
+  } catch (error: any) {
+    if (error.message === 'Cutting station not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error building cut plan:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to build the cut plan'
+    });
+  }
+});
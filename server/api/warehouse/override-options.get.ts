@@ -0,0 +1,57 @@
+import { auth } from '~/server/lib/auth';
+import { supervisorOverrideService } from '~/server/lib/SupervisorOverrideService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const { orderItemId, stationName, scannedItemId } = getQuery(event);
+  if (!orderItemId || typeof orderItemId !== 'string' || !stationName || typeof stationName !== 'string') {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'orderItemId and stationName are required'
+    });
+  }
+
+  try {
+    const { workflow, itemStatus, unitLabel, transitions } = await supervisorOverrideService.getOverrideOptions(
+      orderItemId,
+      stationName,
+      typeof scannedItemId === 'string' ? scannedItemId : null
+    );
+
+    return {
+      success: true,
+      data: {
+        workflowName: workflow.name,
+        itemStatus,
+        unitLabel,
+        transitions: transitions.map(transition => ({
+          stepPosition: transition.fromStep.position,
+          stepName: transition.fromStep.name,
+          toStatus: transition.toStatus,
+          toStepName: transition.toStep?.name || null,
+          description: transition.description
+        }))
+      }
+    };
+  } catch (error: any) {
+    if (error.message === 'Order item not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error loading override options:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load override options'
+    });
+  }
+});
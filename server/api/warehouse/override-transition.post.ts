@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { getRequestIP } from 'h3';
+import { getEnhancedPrismaClient, unenhancedPrisma } from '~/server/lib/db';
+import { auth } from '~/server/lib/auth';
+import { supervisorOverrideService } from '~/server/lib/SupervisorOverrideService';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { materialsService } from '~/server/lib/MaterialsService';
+import { EmailService } from '~/server/lib/emailService';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+import { OVERRIDE_REASON_MIN_LENGTH } from '~/utils/supervisorOverrides';
+
+const OverrideTransitionSchema = z.object({
+  orderItemId: z.string().min(1, 'Order item is required'),
+  stationId: z.string().min(1, 'Station is required'),
+  stepPosition: z.number().int().min(1),
+  reason: z.string().trim().min(OVERRIDE_REASON_MIN_LENGTH, 'Give a reason for the override').max(1000),
+  barcodeData: z.object({
+    prefix: z.string().optional(),
+    itemId: z.string().optional()
+  }).optional().nullable(),
+  // Badged-in kiosk operator who made the blocked scan
+  operatorBadge: z.string().optional().nullable(),
+  // The supervisor approves with their own badge and PIN
+  supervisorBadge: z.string().min(1, 'Scan the supervisor badge'),
+  supervisorPin: z.string().min(1, 'Enter the supervisor PIN')
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = OverrideTransitionSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid override request',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { orderItemId, stationId, stepPosition, reason, barcodeData, operatorBadge, supervisorBadge, supervisorPin } = validation.data;
+
+  try {
+    const prisma = await getEnhancedPrismaClient(event);
+
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      include: { order: true, item: true }
+    });
+
+    if (!orderItem) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Order item not found'
+      });
+    }
+
+    // Kiosk scanners send the station name, the admin UI sends the station ID
+    const station = await prisma.station.findFirst({
+      where: {
+        OR: [
+          { id: stationId },
+          { name: { equals: stationId, mode: 'insensitive' } }
+        ]
+      }
+    });
+
+    if (!station) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Station not found'
+      });
+    }
+
+    // The person whose scan was blocked - the badged-in operator, else the scanner's user, else the session user
+    let operatorId = sessionData.user.id;
+    if (barcodeData?.prefix) {
+      const scanner = await unenhancedPrisma.barcodeScanner.findFirst({
+        where: { prefix: barcodeData.prefix, isActive: true },
+        select: { userId: true }
+      });
+      if (scanner) {
+        operatorId = scanner.userId;
+      }
+    }
+
+    if (operatorBadge) {
+      const operator = await kioskOperatorService.resolveBadge(operatorBadge);
+      operatorId = operator.id;
+    }
+
+    const result = await supervisorOverrideService.overrideTransition({
+      orderItemId,
+      scannedItemId: barcodeData?.itemId || null,
+      stationId: station.id,
+      stepPosition,
+      reason,
+      operatorId,
+      supervisorBadge,
+      supervisorPin,
+      ipAddress: getRequestIP(event, { xForwardedFor: true }) ?? null
+    });
+
+    // Take the materials used at this station out of stock, as the scan would have
+    try {
+      await materialsService.consumeForStation(orderItemId, station.id, operatorId, result.unitId);
+    } catch (materialsError) {
+      console.error('Failed to consume materials after override:', materialsError);
+    }
+
+    const orderNumber = orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8);
+
+    eventEmitter.emitItemStatusChange({
+      orderItemId,
+      fromStatus: result.fromStatus,
+      toStatus: result.toStatus,
+      orderId: orderItem.orderId,
+      customerId: orderItem.order.customerId,
+      orderNumber,
+      itemName: orderItem.item?.name || 'Unknown Item',
+      userId: operatorId,
+      stationName: station.name,
+      timestamp: new Date()
+    });
+
+    for (const change of result.orderStatusChanges) {
+      eventEmitter.emitOrderStatusChange({
+        orderId: orderItem.orderId,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        customerId: orderItem.order.customerId,
+        orderNumber,
+        userId: operatorId,
+        timestamp: new Date()
+      });
+
+      try {
+        await EmailService.sendOrderStatusEmail(orderItem.orderId, change.toStatus === 'READY_TO_SHIP' ? 'order_ready' : 'production_started');
+      } catch (emailError) {
+        console.error('Failed to send order status email after override:', emailError);
+      }
+    }
+
+    return {
+      success: true,
+      message: `${result.unitLabel || 'Item'} moved to ${result.toStatus.replace(/_/g, ' ')} - override approved by ${result.supervisor.name}`,
+      data: {
+        fromStatus: result.fromStatus,
+        toStatus: result.toStatus,
+        stepName: result.transition.fromStep.name,
+        supervisor: result.supervisor.name,
+        operator: result.operator.name,
+        orderStatusChanged: result.orderStatusChanges.length > 0,
+        newOrderStatus: result.orderStatusChanges.at(-1)?.toStatus || orderItem.order.orderStatus
+      }
+    };
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    if (error.name === 'SupervisorOverrideValidationError' || error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'KioskPinError' || error.name === 'SupervisorPermissionError') {
+      throw createError({
+        statusCode: 403,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.message === 'Employee badge not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'This badge is not recognised'
+      });
+    }
+
+    console.error('Error overriding item transition:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to override the scan'
+    });
+  }
+});
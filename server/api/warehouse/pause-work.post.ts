@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { pauseUserActiveWork } from '~/server/lib/productionTimer';
+import { WORK_PAUSE_REASONS } from '~/utils/workTime';
+
+const PauseWorkSchema = z.object({
+  logId: z.string().optional(),
+  reason: z.enum(WORK_PAUSE_REASONS).default('BREAK'),
+  operatorBadge: z.string().optional()
+});
+
+/**
+ * Pause the active work of the signed-in user, or of the badge holder at a shared kiosk
+ * Time spent paused is left out of the work's duration.
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const validation = PauseWorkSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid pause request',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { logId, reason, operatorBadge } = validation.data;
+
+  try {
+    const userId = operatorBadge
+      ? (await kioskOperatorService.resolveBadge(operatorBadge)).id
+      : sessionData.user.id;
+
+    const result = await pauseUserActiveWork(userId, reason, logId);
+
+    return {
+      success: true,
+      message: result.pausedLogIds.length > 0 ? 'Work paused' : 'Work was already paused',
+      ...result
+    };
+  } catch (error: any) {
+    if (error.message === 'No active work found to pause' || error.message === 'Employee badge not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+    if (error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error pausing work:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to pause work'
+    });
+  }
+});
@@ -5,53 +5,27 @@ import { createErrorResponse, handlePrismaError, logError, validateBarcodeFormat
 import { logOrderItemStatusChange } from '~/server/utils/orderItemValidation';
 import { eventEmitter } from '~/server/utils/eventEmitter';
 import type { ItemStatusChangeEvent, OrderStatusChangeEvent } from '~/server/utils/eventEmitter';
-
-// Helper function to get workflow step information
-function getWorkflowStepInfo(fromStatus: string, toStatus: string, stationName: string) {
-  const stepMap: { [key: string]: { step: number; description: string } } = {
-    'NOT_STARTED_PRODUCTION->CUTTING': { 
-      step: 1, 
-      description: 'Office confirmed order printed - Production started' 
-    },
-    'CUTTING->SEWING': { 
-      step: 2, 
-      description: 'Cutting completed - Moving to Sewing' 
-    },
-    'SEWING->FOAM_CUTTING': { 
-      step: 3, 
-      description: 'Sewing completed - Moving to Foam Cutting' 
-    },
-    'FOAM_CUTTING->STUFFING': { 
-      step: 4, 
-      description: 'Foam Cutting completed - Moving to Stuffing' 
-    },
-    'STUFFING->PACKAGING': { 
-      step: 5, 
-      description: 'Stuffing completed - Moving to Packaging' 
-    },
-    'PACKAGING->PRODUCT_FINISHED': { 
-      step: 6, 
-      description: 'Packaging completed - Product finished' 
-    },
-    'PRODUCT_FINISHED->READY': { 
-      step: 6, 
-      description: 'Office confirmed - Ready for delivery/pickup' 
-    }
-  };
-
-  const key = `${fromStatus}->${toStatus}`;
-  return stepMap[key] || { step: 0, description: `Status changed from ${fromStatus} to ${toStatus}` };
-}
+import type { OrderItemProcessingStatus } from '@prisma-app/client';
+import { workflowService } from '~/server/lib/WorkflowService';
+import { materialsService } from '~/server/lib/MaterialsService';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { closeProcessingLogPauses } from '~/server/lib/productionTimer';
+import { orderItemUnitService } from '~/server/lib/OrderItemUnitService';
+import { attributeReviewService, getUnverifiedItemPolicy } from '~/server/lib/AttributeReviewService';
+import { getStatusDisplayName } from '~/utils/barcodeUtils';
+import { resolveScanTime } from '~/utils/offlineScans';
+import { formatUnitLabel, getUnitProgress, selectScannedUnit } from '~/utils/orderItemUnits';
 
 export default defineEventHandler(async (event) => {
   let sessionData = null; // Declare outside try block for error handling
-  let orderItemId, stationId, nextStatus, barcodeData, userId, currentStatus; // Declare outside try block for error handling
+  let orderItemId, stationId, nextStatus, barcodeData, userId, currentStatus, clientScanId; // Declare outside try block for error handling
   
   try {
     const body = await readBody(event);
-    ({ orderItemId, stationId, userId, barcodeData, currentStatus, nextStatus } = body);
+    // currentStatus/nextStatus from the client are ignored - the item's workflow decides the transition
+    ({ orderItemId, stationId, userId, barcodeData, clientScanId } = body);
 
-    if (!orderItemId || !stationId || !nextStatus) {
+    if (!orderItemId || !stationId) {
       const errorResponse = createErrorResponse('INVALID_REQUEST', 'Missing required fields');
       throw createError(errorResponse);
     }
@@ -65,6 +39,16 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    // Scans replayed from a kiosk's offline queue carry the time they were made
+    const scanTime = resolveScanTime(body.scannedAt);
+    if (scanTime.error !== null) {
+      throw createError({
+        ...createErrorResponse('INVALID_SCAN_TIME', scanTime.error),
+        statusMessage: scanTime.error
+      });
+    }
+    const scannedAt = scanTime.time;
+
     // Get the current user session
     sessionData = await auth.api.getSession({ headers: event.headers });
     if (!sessionData?.user?.id) {
@@ -94,11 +78,60 @@ export default defineEventHandler(async (event) => {
       });
     }
 
+    // Multi-quantity items are tracked unit by unit - the label scanned says which unit
+    const units = await unenhancedPrisma.$transaction(tx => orderItemUnitService.syncUnits(orderItem.id, tx));
+    const unit = selectScannedUnit(units, barcodeData?.itemId);
+    const unitLabel = unit ? formatUnitLabel(unit.unitNumber, units.length) : null;
+    const scanned = unit || orderItem;
+
+    const scannedProductNumber = unit ? unit.productNumber : orderItem.productNumber;
+    const itemLabel = `${scannedProductNumber ? `P${String(scannedProductNumber).padStart(5, '0')}` : orderItem.id.slice(-8)}${unitLabel ? ` (${unitLabel})` : ''}`;
+
+    // A replayed scan that already went through (e.g. its response was lost) is not applied twice
+    if (clientScanId) {
+      const appliedLog = await logPrisma.itemProcessingLog.findUnique({
+        where: { clientScanId }
+      });
+      if (appliedLog) {
+        return {
+          success: true,
+          duplicate: true,
+          newItemStatus: scanned.itemStatus,
+          orderStatusChanged: false,
+          newOrderStatus: orderItem.order.orderStatus,
+          processingLogId: appliedLog.id,
+          message: `This scan of ${itemLabel} was already synced`
+        };
+      }
+    }
+
+    // An offline scan is applied as of when it was made, so the item must not have moved on since
+    if (scanTime.isBackdated) {
+      const laterChange = await logPrisma.itemStatusLog.findFirst({
+        where: {
+          orderItemId: orderItemId,
+          ...(unit ? { OR: [{ unitId: unit.id }, { unitId: null }] } : {}),
+          timestamp: { gt: scannedAt }
+        },
+        orderBy: { timestamp: 'desc' },
+        include: { user: { select: { name: true } } }
+      });
+
+      if (laterChange) {
+        const changedBy = laterChange.user?.name ? ` by ${laterChange.user.name}` : '';
+        const message = `Item ${itemLabel} was moved to "${getStatusDisplayName(laterChange.toStatus)}"${changedBy} after this scan was made offline, so the scan was not applied.`;
+        throw createError({
+          ...createErrorResponse('SCAN_CONFLICT', message, 409),
+          statusMessage: message
+        });
+      }
+    }
+
     // Prevent scanning items that are already READY (final status)
-    if (orderItem.itemStatus === 'READY') {
+    if (scanned.itemStatus === 'READY') {
       throw createError({
         statusCode: 400,
-        statusMessage: `This item is already READY and cannot be scanned again. Item ${orderItem.productNumber || orderItem.id.slice(-8)} has completed all processing steps.`
+        statusMessage: `This item is already READY and cannot be scanned again. Item ${itemLabel} has completed all processing steps.`
       });
     }
 
@@ -134,11 +167,26 @@ export default defineEventHandler(async (event) => {
       requestedStationId: stationId
     });
 
+    // Resolve the transition from the item's assigned workflow
+    const { workflow, transition } = await workflowService.resolveScan(orderItemId, station.name, unit?.id);
+
+    if (!transition) {
+      const message = `This item is currently "${getStatusDisplayName(scanned.itemStatus)}" and cannot be processed at the ${station.name} station (${workflow.name} workflow).`;
+      throw createError({
+        ...createErrorResponse('INVALID_STATUS_TRANSITION', message),
+        statusMessage: message
+      });
+    }
+
+    currentStatus = scanned.itemStatus;
+    nextStatus = transition.toStatus as OrderItemProcessingStatus;
+
     console.log('🔍 Process Item Debug Info:', {
       orderItemId,
       stationId,
       userId,
       scannerPrefix: barcodeData?.prefix,
+      workflow: workflow.name,
       currentStatus,
       nextStatus,
       sessionUserId: sessionData.user.id
@@ -198,6 +246,47 @@ export default defineEventHandler(async (event) => {
       console.log('No scanner prefix provided - allowing scan without scanner validation');
     }
 
+    // On a shared kiosk the badged-in operator gets the credit rather than the scanner's assigned user
+    if (body.operatorBadge) {
+      try {
+        const operator = await kioskOperatorService.resolveBadge(body.operatorBadge);
+        sessionData.user = { ...sessionData.user, id: operator.id, name: operator.name };
+        console.log(`🔍 Badge identifies operator: ${operator.name} for this work`);
+      } catch (badgeError: any) {
+        if (badgeError.message === 'Employee badge not found') {
+          throw createError({
+            statusCode: 404,
+            statusMessage: 'Your badge is no longer recognised. Scan your badge again.'
+          });
+        }
+        if (badgeError.name === 'KioskOperatorValidationError') {
+          throw createError({
+            statusCode: 400,
+            statusMessage: badgeError.message
+          });
+        }
+        throw badgeError;
+      }
+    }
+
+    // Starting production on an item whose attributes need review is blocked or warned about, per the policy.
+    // An offline scan records work that has already happened, so it is only ever warned about.
+    let attributeWarning: string | null = null;
+    if (currentStatus === 'NOT_STARTED_PRODUCTION') {
+      const policy = getUnverifiedItemPolicy();
+      try {
+        attributeWarning = await attributeReviewService.checkItems([orderItemId], 'production', scanTime.isBackdated && policy === 'block' ? 'warn' : policy);
+      } catch (attributeError: any) {
+        if (attributeError.name === 'UnverifiedAttributesError') {
+          throw createError({
+            ...createErrorResponse('UNVERIFIED_ATTRIBUTES', attributeError.message, 409),
+            statusMessage: attributeError.message
+          });
+        }
+        throw attributeError;
+      }
+    }
+
     // Note: Removed active work check - workers scan when they FINISH work, not start
     // This allows workers to complete multiple items in sequence without restrictions
     console.log('📋 Allowing scan - workers scan when completing work, not starting');
@@ -206,6 +295,8 @@ export default defineEventHandler(async (event) => {
     const existingLog = await logPrisma.itemProcessingLog.findFirst({
       where: {
         orderItemId: orderItemId,
+        // A unit also picks up work started on its order item before it was split into units
+        ...(unit ? { OR: [{ unitId: unit.id }, { unitId: null }] } : {}),
         endTime: null // Still in progress
       },
       include: {
@@ -218,10 +309,18 @@ export default defineEventHandler(async (event) => {
     // Multiple scans are allowed as they represent completion of work, not conflicts
     console.log(`📋 ${existingLog ? 'Existing log found - will close it' : 'No existing log'} for item processing`);
 
+    if (existingLog && existingLog.startTime > scannedAt) {
+      const message = `Item ${itemLabel} was picked up at ${existingLog.station.name} after this scan was made offline, so the scan was not applied.`;
+      throw createError({
+        ...createErrorResponse('SCAN_CONFLICT', message, 409),
+        statusMessage: message
+      });
+    }
+
     // If there's an existing log, close it first (completing previous station work)
     if (existingLog) {
-      const endTime = new Date();
-      const durationInSeconds = Math.floor((endTime.getTime() - existingLog.startTime.getTime()) / 1000);
+      const endTime = scannedAt;
+      const durationInSeconds = await closeProcessingLogPauses(logPrisma, existingLog, endTime);
       
       await logPrisma.itemProcessingLog.update({
         where: { id: existingLog.id },
@@ -233,13 +332,43 @@ export default defineEventHandler(async (event) => {
       });
     }
 
-    // Update the order item status
-    await prisma.orderItem.update({
-      where: { id: orderItemId },
-      data: {
-        itemStatus: nextStatus
+    // Update the order item status and its position in the workflow
+    let lineStatus = nextStatus;
+    if (unit) {
+      // The unit moves on, and the order item reports its least advanced unit
+      await logPrisma.orderItemUnit.update({
+        where: { id: unit.id },
+        data: {
+          itemStatus: nextStatus,
+          currentStepId: transition.toStep?.id || null
+        }
+      });
+      if (workflow.id) {
+        await prisma.orderItem.update({
+          where: { id: orderItemId },
+          data: { workflowId: workflow.id }
+        });
       }
-    });
+      const rolledUp = await orderItemUnitService.rollUpItemStatus(orderItemId);
+      lineStatus = (rolledUp?.itemStatus || nextStatus) as OrderItemProcessingStatus;
+    } else {
+      await prisma.orderItem.update({
+        where: { id: orderItemId },
+        data: {
+          itemStatus: nextStatus,
+          currentStepId: transition.toStep?.id || null,
+          ...(workflow.id ? { workflowId: workflow.id } : {})
+        }
+      });
+    }
+
+    // Take the materials used at this station out of stock
+    try {
+      await materialsService.consumeForStation(orderItemId, station.id, sessionData.user.id, unit?.id);
+    } catch (materialsError) {
+      console.error('❌ Failed to consume materials:', materialsError);
+      // Don't fail the whole operation
+    }
 
     // Log the status change with order context for audit trails
     await logOrderItemStatusChange(
@@ -247,7 +376,7 @@ export default defineEventHandler(async (event) => {
       currentStatus,
       nextStatus,
       sessionData.user.id,
-      `Scanned at ${station.name} station`
+      `Scanned at ${station.name} station${unitLabel ? ` - ${unitLabel}` : ''}`
     );
 
     // Emit real-time event for item status change
@@ -256,11 +385,13 @@ export default defineEventHandler(async (event) => {
       orderItemId: orderItemId,
       fromStatus: currentStatus,
       toStatus: nextStatus,
+      orderId: orderItem.orderId,
+      customerId: orderItem.order.customerId,
       orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
       itemName: orderItem.item?.name || 'Unknown Item',
       userId: sessionData.user.id,
       stationName: station.name,
-      timestamp: new Date()
+      timestamp: scannedAt
     };
     
     eventEmitter.emitItemStatusChange(itemStatusChangeEvent);
@@ -270,12 +401,14 @@ export default defineEventHandler(async (event) => {
       await logPrisma.itemStatusLog.create({
         data: {
           orderItemId: orderItemId,
+          unitId: unit?.id || null,
           fromStatus: currentStatus,
           toStatus: nextStatus,
           userId: sessionData.user.id,
           changeReason: `Scanned at ${station.name} station`,
           triggeredBy: 'scanner',
-          notes: `Scanner: ${barcodeData?.prefix || 'Unknown'} - ${getWorkflowStepInfo(currentStatus, nextStatus, station.name).description}`
+          timestamp: scannedAt,
+          notes: `Scanner: ${barcodeData?.prefix || 'Unknown'} - ${transition.description}${scanTime.isBackdated ? ' (synced from offline queue)' : ''}`
         }
       });
       console.log('✅ ItemStatusLog created for UI display');
@@ -292,9 +425,11 @@ export default defineEventHandler(async (event) => {
         processingLog = await logPrisma.itemProcessingLog.create({
           data: {
             orderItemId: orderItemId,
+            unitId: unit?.id || null,
             stationId: station.id,
             userId: sessionData.user.id,
-            startTime: new Date(),
+            startTime: scannedAt,
+            clientScanId: clientScanId || null,
             notes: `Started work at ${station.name} station - Status: ${nextStatus} - Scanner: ${barcodeData?.prefix || 'Unknown'}`
           }
         });
@@ -309,11 +444,13 @@ export default defineEventHandler(async (event) => {
         const completionLog = await logPrisma.itemProcessingLog.create({
           data: {
             orderItemId: orderItemId,
+            unitId: unit?.id || null,
             stationId: station.id,
             userId: sessionData.user.id,
-            startTime: new Date(),
-            endTime: new Date(),
+            startTime: scannedAt,
+            endTime: scannedAt,
             durationInSeconds: 0,
+            clientScanId: clientScanId || null,
             notes: `Final scan - Product ready for delivery/pickup - Scanner: ${barcodeData?.prefix || 'Unknown'}`
           }
         });
@@ -328,8 +465,8 @@ export default defineEventHandler(async (event) => {
     let orderStatusChanged = false;
     let newOrderStatus = orderItem.order.orderStatus;
 
-    // Step 1: First item starting production (Office scan: NOT_STARTED -> CUTTING)
-    if (nextStatus === 'CUTTING' && orderItem.order.orderStatus === 'APPROVED') {
+    // Step 1: First item starting production (first workflow step completed, e.g. Office scan: NOT_STARTED -> CUTTING)
+    if (transition.stepNumber === 1 && orderItem.order.orderStatus === 'APPROVED') {
       console.log('🔄 Updating order status from APPROVED to ORDER_PROCESSING');
       await prisma.order.update({
         where: { id: orderItem.orderId },
@@ -351,6 +488,7 @@ export default defineEventHandler(async (event) => {
             userId: sessionData.user.id,
             changeReason: 'Production started - first item scanned',
             triggeredBy: 'scanner',
+            timestamp: scannedAt,
             notes: `Production started by ${sessionData.user.name || 'Unknown'} scanning item at ${station.name} station - Scanner: ${barcodeData?.prefix || 'Unknown'}`
           }
         });
@@ -365,9 +503,10 @@ export default defineEventHandler(async (event) => {
         orderId: orderItem.orderId,
         fromStatus: 'APPROVED',
         toStatus: 'ORDER_PROCESSING',
+        customerId: orderItem.order.customerId,
         orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
         userId: sessionData.user.id,
-        timestamp: new Date()
+        timestamp: scannedAt
       };
       
       eventEmitter.emitOrderStatusChange(orderStatusChangeEvent);
@@ -382,7 +521,7 @@ export default defineEventHandler(async (event) => {
     }
 
     // Step 6: Final step - check if all items are ready for shipping
-    if (nextStatus === 'READY') {
+    if (lineStatus === 'READY') {
       const allItems = await logPrisma.orderItem.findMany({
         where: { 
           orderId: orderItem.orderId,
@@ -397,7 +536,7 @@ export default defineEventHandler(async (event) => {
           where: { id: orderItem.orderId },
           data: {
             orderStatus: 'READY_TO_SHIP',
-            readyToShipAt: new Date()
+            readyToShipAt: scannedAt
           }
         });
         orderStatusChanged = true;
@@ -413,6 +552,7 @@ export default defineEventHandler(async (event) => {
               userId: sessionData.user.id,
               changeReason: 'All items completed - ready to ship',
               triggeredBy: 'scanner',
+              timestamp: scannedAt,
               notes: `Order completed by ${sessionData.user.name || 'Unknown'} - final item scanned at ${station.name} station - Scanner: ${barcodeData?.prefix || 'Unknown'}`
             }
           });
@@ -427,9 +567,10 @@ export default defineEventHandler(async (event) => {
           orderId: orderItem.orderId,
           fromStatus: 'ORDER_PROCESSING',
           toStatus: 'READY_TO_SHIP',
+          customerId: orderItem.order.customerId,
           orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
           userId: sessionData.user.id,
-          timestamp: new Date()
+          timestamp: scannedAt
         };
         
         eventEmitter.emitOrderStatusChange(finalOrderStatusChangeEvent);
@@ -450,8 +591,25 @@ export default defineEventHandler(async (event) => {
       orderStatusChanged: orderStatusChanged,
       newOrderStatus: newOrderStatus,
       processingLogId: processingLog?.id || null,
-      message: `Item successfully moved to ${nextStatus.replace(/_/g, ' ')} status`,
-      workflowStep: getWorkflowStepInfo(currentStatus, nextStatus, station.name)
+      scannedAt: scannedAt.toISOString(),
+      message: `${unitLabel ? `${unitLabel} ` : 'Item '}successfully moved to ${nextStatus.replace(/_/g, ' ')} status`,
+      attributeWarning,
+      unit: unit
+        ? {
+          id: unit.id,
+          unitNumber: unit.unitNumber,
+          productNumber: unit.productNumber,
+          label: unitLabel,
+          // Units of the line finished so far, counting this scan
+          progress: getUnitProgress(units.map(u => (u.id === unit.id ? { itemStatus: transition.toStatus } : u)))
+        }
+        : null,
+      workflowStep: {
+        step: transition.stepNumber,
+        description: transition.description,
+        workflowName: workflow.name,
+        nextStepName: transition.toStep?.name || null
+      }
     };
 
   } catch (error) {
@@ -460,7 +618,8 @@ export default defineEventHandler(async (event) => {
       orderItemId,
       stationId,
       nextStatus,
-      barcodeData
+      barcodeData,
+      clientScanId
     });
     
     if (error.statusCode) {
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { auth } from '~/server/lib/auth';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { resumeUserActiveWork } from '~/server/lib/productionTimer';
+
+const ResumeWorkSchema = z.object({
+  logId: z.string().optional(),
+  operatorBadge: z.string().optional()
+});
+
+/**
+ * Resume paused work for the signed-in user, or for the badge holder at a shared kiosk
+ */
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const validation = ResumeWorkSchema.safeParse(await readBody(event));
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid resume request',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { logId, operatorBadge } = validation.data;
+
+  try {
+    const userId = operatorBadge
+      ? (await kioskOperatorService.resolveBadge(operatorBadge)).id
+      : sessionData.user.id;
+
+    const result = await resumeUserActiveWork(userId, logId);
+
+    return {
+      success: true,
+      message: 'Work resumed',
+      ...result
+    };
+  } catch (error: any) {
+    if (error.message === 'No paused work found to resume' || error.message === 'Employee badge not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+    if (error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error resuming work:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to resume work'
+    });
+  }
+});
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { getEnhancedPrismaClient, unenhancedPrisma } from '~/server/lib/db';
+import { auth } from '~/server/lib/auth';
+import { reworkService } from '~/server/lib/ReworkService';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+import { recordAuditLog } from '~/server/utils/auditLog';
+import { REWORK_REASONS } from '~/utils/constants';
+import type { ReworkReason } from '@prisma-app/client';
+
+const ReworkItemSchema = z.object({
+  orderItemId: z.string().min(1, 'Order item is required'),
+  stationId: z.string().min(1, 'Station is required'),
+  targetPosition: z.number().int().min(1),
+  reason: z.enum(Object.keys(REWORK_REASONS) as [string, ...string[]], { message: 'Unknown rework reason' }),
+  notes: z.string().max(1000).optional().nullable(),
+  scrapCost: z.number().min(0).optional().nullable(),
+  barcodeData: z.object({ prefix: z.string().optional(), itemId: z.string().optional() }).optional().nullable(),
+  // A badged-in kiosk operator confirms the report with their PIN
+  operatorBadge: z.string().optional().nullable(),
+  operatorPin: z.string().optional().nullable()
+});
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const body = await readBody(event);
+  const validation = ReworkItemSchema.safeParse(body);
+  if (!validation.success) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Invalid rework request',
+      data: validation.error.flatten()
+    });
+  }
+
+  const { orderItemId, stationId, targetPosition, reason, notes, scrapCost, barcodeData, operatorBadge, operatorPin } = validation.data;
+
+  try {
+    const prisma = await getEnhancedPrismaClient(event);
+
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      include: { order: true, item: true }
+    });
+
+    if (!orderItem) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Order item not found'
+      });
+    }
+
+    // Kiosk scanners send the station name, the admin UI sends the station ID
+    const station = await prisma.station.findFirst({
+      where: {
+        OR: [
+          { id: stationId },
+          { name: { equals: stationId, mode: 'insensitive' } }
+        ]
+      }
+    });
+
+    if (!station) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Station not found'
+      });
+    }
+
+    // In kiosk mode the scanner identifies who reported the problem
+    let reportedById = sessionData.user.id;
+    if (barcodeData?.prefix) {
+      const scanner = await unenhancedPrisma.barcodeScanner.findFirst({
+        where: { prefix: barcodeData.prefix, isActive: true },
+        select: { userId: true }
+      });
+      if (scanner) {
+        reportedById = scanner.userId;
+      }
+    }
+
+    if (operatorBadge) {
+      const operator = await kioskOperatorService.verifyPin(operatorBadge, operatorPin || '');
+      reportedById = operator.id;
+    }
+
+    const result = await reworkService.reworkItem({
+      orderItemId,
+      stationId: station.id,
+      targetPosition,
+      scannedItemId: barcodeData?.itemId || null,
+      reason: reason as ReworkReason,
+      notes,
+      scrapCost,
+      userId: reportedById
+    });
+
+    eventEmitter.emitItemStatusChange({
+      orderItemId,
+      fromStatus: result.fromStatus,
+      toStatus: result.toStatus,
+      orderId: orderItem.orderId,
+      customerId: orderItem.order.customerId,
+      orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
+      itemName: orderItem.item?.name || 'Unknown Item',
+      userId: reportedById,
+      stationName: station.name,
+      timestamp: new Date()
+    });
+
+    if (result.orderStatusChange) {
+      eventEmitter.emitOrderStatusChange({
+        orderId: orderItem.orderId,
+        fromStatus: result.orderStatusChange.fromStatus,
+        toStatus: result.orderStatusChange.toStatus,
+        customerId: orderItem.order.customerId,
+        orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
+        userId: reportedById,
+        timestamp: new Date()
+      });
+    }
+
+    await recordAuditLog(event, {
+      action: 'ORDER_ITEM_REWORK',
+      entityName: 'Order',
+      entityId: orderItem.orderId,
+      oldValue: {
+        orderItemId,
+        unitLabel: result.unitLabel,
+        itemStatus: result.fromStatus
+      },
+      newValue: {
+        orderItemId,
+        itemStatus: result.toStatus,
+        reason,
+        sentBackTo: result.targetStep.name,
+        reportedAt: station.name,
+        scrapCost: scrapCost ?? null
+      }
+    }, sessionData.user.id);
+
+    return {
+      success: true,
+      message: `${result.unitLabel || 'Item'} sent back to ${result.targetStep.name} (${REWORK_REASONS[reason]})`,
+      data: {
+        reworkId: result.rework.id,
+        fromStatus: result.fromStatus,
+        toStatus: result.toStatus,
+        targetStep: result.targetStep.name,
+        unitLabel: result.unitLabel,
+        reworkCount: orderItem.reworkCount + 1
+      }
+    };
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error;
+    }
+
+    if (error.name === 'ReworkValidationError' || error.name === 'KioskOperatorValidationError') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.name === 'KioskPinError') {
+      throw createError({
+        statusCode: 403,
+        statusMessage: error.message
+      });
+    }
+
+    if (error.message === 'Employee badge not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Your badge is no longer recognised. Scan your badge again.'
+      });
+    }
+
+    console.error('Error reworking order item:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to send item back for rework'
+    });
+  }
+});
@@ -0,0 +1,55 @@
+import { auth } from '~/server/lib/auth';
+import { reworkService } from '~/server/lib/ReworkService';
+
+export default defineEventHandler(async (event) => {
+  const sessionData = await auth.api.getSession({ headers: event.headers });
+  if (!sessionData?.user?.id) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Unauthorized'
+    });
+  }
+
+  const { orderItemId, scannedItemId } = getQuery(event);
+  if (!orderItemId || typeof orderItemId !== 'string') {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'orderItemId is required'
+    });
+  }
+
+  try {
+    const { workflow, itemStatus, unitLabel, targets } = await reworkService.getReworkTargets(
+      orderItemId,
+      typeof scannedItemId === 'string' ? scannedItemId : null
+    );
+
+    return {
+      success: true,
+      data: {
+        workflowName: workflow.name,
+        itemStatus,
+        unitLabel,
+        targets: targets.map(step => ({
+          position: step.position,
+          name: step.name,
+          stationName: step.stationName,
+          itemStatus: step.itemStatus
+        }))
+      }
+    };
+  } catch (error: any) {
+    if (error.message === 'Order item not found') {
+      throw createError({
+        statusCode: 404,
+        statusMessage: error.message
+      });
+    }
+
+    console.error('Error loading rework targets:', error);
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to load rework targets'
+    });
+  }
+});
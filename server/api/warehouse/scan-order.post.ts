@@ -1,5 +1,6 @@
 import { getEnhancedPrismaClient } from '~/server/lib/db';
 import { auth } from '~/server/lib/auth';
+import { orderItemUnitService } from '~/server/lib/OrderItemUnitService';
 
 export default defineEventHandler(async (event) => {
   try {
@@ -29,6 +30,15 @@ export default defineEventHandler(async (event) => {
 
     const prisma = await getEnhancedPrismaClient(event);
 
+    // Orders approved before per-unit tracking get their units on first scan
+    const orderRef = await prisma.order.findFirst({
+      where: { salesOrderNumber: orderNumber },
+      select: { id: true, orderStatus: true }
+    });
+    if (orderRef && orderRef.orderStatus !== 'PENDING') {
+      await orderItemUnitService.syncUnitsForOrder(orderRef.id);
+    }
+
     // Find the order by sales order number
     const order = await prisma.order.findFirst({
       where: {
@@ -40,6 +50,11 @@ export default defineEventHandler(async (event) => {
           include: {
             item: true,
             productAttributes: true,
+            units: {
+              orderBy: {
+                unitNumber: 'asc'
+              }
+            },
             itemProcessingLogs: {
               orderBy: {
                 startTime: 'desc'
@@ -84,8 +99,10 @@ export default defineEventHandler(async (event) => {
     // PRIORITY 1: Try matching by productNumber (NEW FORMAT)
     // Product numbers are numeric (e.g., 1001, 1002, etc.)
     const itemIdAsNumber = parseInt(itemId, 10);
+    // Units of multi-quantity items carry their own product numbers
     let orderItem = !isNaN(itemIdAsNumber) 
-      ? order.items.find(item => (item as any).productNumber === itemIdAsNumber)
+      ? order.items.find(item => (item as any).productNumber === itemIdAsNumber
+        || item.units.some(unit => unit.productNumber === itemIdAsNumber))
       : undefined;
     
     // PRIORITY 2: Try direct match with full CUID (OLD FORMAT - for backward compatibility)
@@ -1,15 +1,17 @@
 import { z } from 'zod';
 import { getEnhancedPrismaClient } from '~/server/lib/db';
+import { kioskOperatorService } from '~/server/lib/KioskOperatorService';
 
 const ScannerLookupSchema = z.object({
-  prefix: z.string().min(1, 'Scanner prefix is required')
+  prefix: z.string().min(1, 'Scanner prefix is required'),
+  badgeCode: z.string().optional().nullable()
 });
 
 export default defineEventHandler(async (event) => {
   try {
     // Parse and validate request body
     const body = await readBody(event);
-    const { prefix } = ScannerLookupSchema.parse(body);
+    const { prefix, badgeCode } = ScannerLookupSchema.parse(body);
 
     const prisma = await getEnhancedPrismaClient(event);
 
@@ -43,8 +45,31 @@ export default defineEventHandler(async (event) => {
       });
     }
 
+    // On a shared scanner the badged-in operator does the work, not the scanner's assigned user
+    let operator = null;
+    if (badgeCode) {
+      try {
+        operator = await kioskOperatorService.resolveBadge(badgeCode);
+      } catch (badgeError: any) {
+        if (badgeError.message === 'Employee badge not found') {
+          throw createError({
+            statusCode: 404,
+            statusMessage: 'Your badge is no longer recognised. Scan your badge again.'
+          });
+        }
+        if (badgeError.name === 'KioskOperatorValidationError') {
+          throw createError({
+            statusCode: 400,
+            statusMessage: badgeError.message
+          });
+        }
+        throw badgeError;
+      }
+    }
+
     return {
       success: true,
+      operator,
       scanner: {
         id: scanner.id,
         prefix: scanner.prefix,
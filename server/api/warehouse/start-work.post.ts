@@ -2,6 +2,9 @@ import { unenhancedPrisma } from '~/server/lib/db';
 import { auth } from '~/server/lib/auth';
 import { logOrderItemStatusChange } from '~/server/utils/orderItemValidation';
 import { getRequestIP } from 'h3';
+import { workflowService } from '~/server/lib/WorkflowService';
+import { findStationStepIndex, getOrderedWorkflowSteps } from '~/utils/workflowEngine';
+import { eventEmitter } from '~/server/utils/eventEmitter';
 
 export default defineEventHandler(async (event) => {
   try {
@@ -113,31 +116,30 @@ export default defineEventHandler(async (event) => {
       });
     }
 
-    // Determine the new item status based on the station
-    let newItemStatus;
-    switch (station.name) {
-      case 'Cutting':
-        newItemStatus = 'CUTTING';
-        break;
-      case 'Sewing':
-        newItemStatus = 'SEWING';
-        break;
-      case 'Foam Cutting':
-        newItemStatus = 'FOAM_CUTTING';
-        break;
-      default:
-        throw createError({
-          statusCode: 400,
-          statusMessage: 'Unknown station type'
-        });
+    // Determine the new item status from the station's step in the item's workflow
+    const workflow = await workflowService.getWorkflowForItem(orderItemId);
+    const steps = getOrderedWorkflowSteps(workflow);
+    const workflowStep = steps[findStationStepIndex(steps, station.name, orderItem.itemStatus, orderItem.currentStepId)];
+
+    if (!workflowStep) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `${station.name} is not part of the ${workflow.name} workflow`
+      });
     }
 
+    const newItemStatus = workflowStep.itemStatus;
+
     // Start a transaction to update both the item status and create the processing log
     const result = await unenhancedPrisma.$transaction(async (tx) => {
       // Update the order item status
       const updatedOrderItem = await tx.orderItem.update({
         where: { id: orderItemId },
-        data: { itemStatus: newItemStatus }
+        data: {
+          itemStatus: newItemStatus,
+          currentStepId: workflowStep.id || null,
+          ...(workflow.id ? { workflowId: workflow.id } : {})
+        }
       });
 
       // Log the status change with enhanced audit context
@@ -191,6 +193,30 @@ export default defineEventHandler(async (event) => {
     // Enhanced ItemStatusLog entry is created by logOrderItemStatusChangeWithContext above
     // This creates the database record with full audit context
 
+    eventEmitter.emitItemStatusChange({
+      orderItemId,
+      fromStatus: orderItem.itemStatus,
+      toStatus: newItemStatus,
+      orderId: orderItem.order.id,
+      customerId: orderItem.order.customerId,
+      orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
+      userId: session.user.id,
+      stationName: station.name,
+      timestamp: new Date()
+    });
+
+    if (orderItem.order.orderStatus === 'APPROVED') {
+      eventEmitter.emitOrderStatusChange({
+        orderId: orderItem.order.id,
+        fromStatus: 'APPROVED',
+        toStatus: 'ORDER_PROCESSING',
+        customerId: orderItem.order.customerId,
+        orderNumber: orderItem.order.salesOrderNumber || orderItem.order.id.slice(-8),
+        userId: session.user.id,
+        timestamp: new Date()
+      });
+    }
+
     return {
       success: true,
       data: {
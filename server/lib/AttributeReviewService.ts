@@ -0,0 +1,134 @@
+import type { Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { CUT_PLAN_STATUSES } from '../../utils/cutPlanning';
+import { getLowConfidenceFields, parseCoverDescription } from '../../utils/descriptionGrammar';
+import {
+  ATTRIBUTE_REVIEW_ORDER_STATUSES,
+  compareAttributeReviewItems,
+  describeUnverifiedItems,
+  getAttributeReviewReasons,
+  needsAttributeReview,
+  parseUnverifiedItemPolicy,
+  type AttributeReviewItem,
+  type UnverifiedItemAction,
+  type UnverifiedItemPolicy
+} from '../../utils/attributeReview';
+
+export interface AttributeReviewService {
+  getQueue(): Promise<AttributeReviewItem[]>;
+  checkItems(orderItemIds: string[], action: UnverifiedItemAction, policy?: UnverifiedItemPolicy): Promise<string | null>;
+}
+
+const reviewItemInclude = {
+  item: { select: { name: true } },
+  productAttributes: true,
+  order: {
+    select: {
+      id: true,
+      salesOrderNumber: true,
+      orderStatus: true,
+      priority: true,
+      dueDate: true,
+      createdAt: true,
+      customer: { select: { name: true } }
+    }
+  }
+} satisfies Prisma.OrderItemInclude;
+
+type ReviewItemRecord = Prisma.OrderItemGetPayload<{ include: typeof reviewItemInclude }>;
+
+/**
+ * The unverified items policy from the runtime config
+ */
+export function getUnverifiedItemPolicy(): UnverifiedItemPolicy {
+  return parseUnverifiedItemPolicy(useRuntimeConfig().attributeReview?.unverifiedItems);
+}
+
+export class AttributeReviewServiceImpl implements AttributeReviewService {
+
+  /**
+   * Production items whose attributes need review, in the order they reach the cutting table
+   */
+  async getQueue(): Promise<AttributeReviewItem[]> {
+    const items = await prisma.orderItem.findMany({
+      where: {
+        isProduct: true,
+        itemStatus: { in: [...CUT_PLAN_STATUSES] },
+        order: { orderStatus: { in: [...ATTRIBUTE_REVIEW_ORDER_STATUSES] } },
+        OR: [
+          { productAttributes: { is: null } },
+          { productAttributes: { is: { verified: false } } },
+          { productAttributes: { is: { parsingErrors: { isEmpty: false } } } }
+        ]
+      },
+      include: reviewItemInclude
+    });
+
+    return items.map(item => this.toReviewItem(item)).sort(compareAttributeReviewItems);
+  }
+
+  /**
+   * Check items before their labels are printed or production starts on them
+   * @param orderItemIds - Order items about to be printed or started
+   * @param action - What is about to happen, for the message
+   * @param policy - The unverified items policy, from the runtime config by default
+   * @returns A warning to show when some items need review, or null when none do or the policy is off
+   * @throws UnverifiedAttributesError when some items need review and the policy is "block"
+   */
+  async checkItems(orderItemIds: string[], action: UnverifiedItemAction, policy: UnverifiedItemPolicy = getUnverifiedItemPolicy()): Promise<string | null> {
+    if (policy === 'off' || orderItemIds.length === 0) {
+      return null;
+    }
+
+    const items = await prisma.orderItem.findMany({
+      where: { id: { in: orderItemIds }, isProduct: true },
+      select: {
+        id: true,
+        productNumber: true,
+        item: { select: { name: true } },
+        productAttributes: { select: { verified: true, parsingErrors: true, parseConfidence: true } }
+      },
+      orderBy: { productNumber: 'asc' }
+    });
+
+    const labels = items
+      .filter(item => needsAttributeReview(item.productAttributes))
+      .map(item => (item.productNumber ? `P${String(item.productNumber).padStart(5, '0')}` : (item.item?.name || item.id.slice(-8))));
+    if (labels.length === 0) {
+      return null;
+    }
+
+    const message = describeUnverifiedItems(labels, action);
+    if (policy === 'block') {
+      const error = new Error(message);
+      error.name = 'UnverifiedAttributesError';
+      throw error;
+    }
+    return message;
+  }
+
+  private toReviewItem(item: ReviewItemRecord): AttributeReviewItem {
+    const attributes = item.productAttributes;
+    const isParsed = Boolean(attributes?.isParsedFromDescription && item.lineDescription);
+
+    return {
+      orderItemId: item.id,
+      orderId: item.order.id,
+      orderNumber: item.order.salesOrderNumber || item.order.id.slice(-8),
+      customerName: item.order.customer?.name || 'Unknown customer',
+      productNumber: item.productNumber,
+      itemName: item.item?.name || 'Unknown item',
+      lineDescription: item.lineDescription,
+      itemStatus: item.itemStatus,
+      orderStatus: item.order.orderStatus,
+      priority: item.order.priority,
+      dueDate: item.order.dueDate,
+      createdAt: item.order.createdAt,
+      attributes,
+      reasons: getAttributeReviewReasons(attributes),
+      lowConfidenceFields: isParsed ? getLowConfidenceFields(parseCoverDescription(item.lineDescription)) : []
+    };
+  }
+}
+
+export const attributeReviewService = new AttributeReviewServiceImpl();
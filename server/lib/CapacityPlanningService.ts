@@ -0,0 +1,193 @@
+import type { OrderSystemStatus } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { workflowService } from './WorkflowService';
+import {
+  CAPACITY_HISTORY_DAYS,
+  CAPACITY_MAX_LOG_SECONDS,
+  buildCapacityPlan,
+  distributeWorkerHours,
+  getRemainingStationNames,
+  type CapacityOrderInput,
+  type CapacityPlan,
+  type CapacityStationInput,
+  type OrderPromise,
+  type StationBacklog
+} from '../../utils/capacityPlanning';
+
+export interface CapacityPreview {
+  order: OrderPromise;
+  alreadyScheduled: boolean;
+  // Orders that are on time today but would be late once this order is added
+  newlyAtRisk: OrderPromise[];
+  stations: StationBacklog[];
+}
+
+export interface CapacityPlanningService {
+  getPlan(): Promise<CapacityPlan>;
+  previewOrder(orderId: string): Promise<CapacityPreview>;
+}
+
+// Orders whose production work is still ahead of them
+const OPEN_ORDER_STATUSES: OrderSystemStatus[] = ['APPROVED', 'ORDER_PROCESSING'];
+
+const orderSelect = {
+  id: true,
+  salesOrderNumber: true,
+  priority: true,
+  dueDate: true,
+  createdAt: true,
+  customer: { select: { name: true } },
+  items: {
+    where: { isProduct: true, itemStatus: { not: 'READY' as const } },
+    select: {
+      id: true,
+      quantity: true,
+      itemStatus: true,
+      currentStepId: true,
+      workflowId: true,
+      productType: true,
+      productAttributes: { select: { productType: true } },
+      units: { select: { itemStatus: true, currentStepId: true } }
+    }
+  }
+};
+
+export class CapacityPlanningServiceImpl implements CapacityPlanningService {
+
+  /**
+   * Build the capacity plan for all open orders
+   * @returns Station backlogs and a promised completion date for every open order
+   */
+  async getPlan(): Promise<CapacityPlan> {
+    const [stations, orders] = await Promise.all([
+      this.getStationInputs(),
+      this.getOrderInputs({ orderStatus: { in: OPEN_ORDER_STATUSES } })
+    ]);
+
+    return buildCapacityPlan(stations, orders);
+  }
+
+  /**
+   * Preview the effect of adding an order to the current backlog
+   * Orders that are already approved are part of the plan, so their current promise is returned.
+   * @param orderId - The order to add
+   * @returns The order's promised date and the open orders it would push past their due date
+   */
+  async previewOrder(orderId: string): Promise<CapacityPreview> {
+    const [stations, openOrders, [candidate]] = await Promise.all([
+      this.getStationInputs(),
+      this.getOrderInputs({ orderStatus: { in: OPEN_ORDER_STATUSES } }),
+      this.getOrderInputs({ id: orderId })
+    ]);
+
+    if (!candidate) {
+      throw new Error('Order not found');
+    }
+
+    const alreadyScheduled = openOrders.some(order => order.id === orderId);
+    const baseline = buildCapacityPlan(stations, openOrders);
+    const withOrder = alreadyScheduled ? baseline : buildCapacityPlan(stations, [...openOrders, candidate]);
+
+    const wasAtRisk = new Set(baseline.orders.filter(order => order.atRisk).map(order => order.orderId));
+
+    return {
+      order: withOrder.orders.find(order => order.orderId === orderId)!,
+      alreadyScheduled,
+      newlyAtRisk: withOrder.orders.filter(order => order.atRisk && order.orderId !== orderId && !wasAtRisk.has(order.orderId)),
+      stations: withOrder.stations
+    };
+  }
+
+  /**
+   * Average station times from recent history, and staffing from station roles and active scanners
+   */
+  private async getStationInputs(): Promise<CapacityStationInput[]> {
+    const since = new Date();
+    since.setDate(since.getDate() - CAPACITY_HISTORY_DAYS);
+
+    const [stations, history, users] = await Promise.all([
+      prisma.station.findMany({ select: { id: true, name: true } }),
+      prisma.itemProcessingLog.groupBy({
+        by: ['stationId'],
+        where: {
+          endTime: { gte: since },
+          durationInSeconds: { gt: 0, lte: CAPACITY_MAX_LOG_SECONDS },
+          // A forgotten log closed by the stale-work policy says nothing about real station times
+          autoClosed: false
+        },
+        _avg: { durationInSeconds: true },
+        _count: { _all: true }
+      }),
+      prisma.user.findMany({
+        where: { status: 'ACTIVE' },
+        select: {
+          id: true,
+          roles: { select: { role: { select: { stations: { select: { station: { select: { name: true } } } } } } } },
+          barcodeScanners: {
+            where: { isActive: true, stationId: { not: null } },
+            select: { station: { select: { name: true } } }
+          }
+        }
+      })
+    ]);
+
+    const staffing = distributeWorkerHours(users.map(user => ({
+      userId: user.id,
+      stationNames: [
+        ...user.roles.flatMap(userRole => userRole.role.stations.map(roleStation => roleStation.station.name)),
+        ...user.barcodeScanners.flatMap(scanner => scanner.station ? [scanner.station.name] : [])
+      ]
+    })));
+
+    const historyByStation = new Map(history.map(entry => [entry.stationId, entry]));
+
+    return stations.map(station => {
+      const stats = historyByStation.get(station.id);
+      const averageSeconds = stats?._avg.durationInSeconds;
+
+      return {
+        stationName: station.name,
+        averageHoursPerItem: averageSeconds ? averageSeconds / 3600 : null,
+        sampleSize: stats?._count._all || 0,
+        workerCount: staffing.get(station.name)?.workerCount || 0,
+        hoursPerDay: staffing.get(station.name)?.hoursPerDay || 0
+      };
+    });
+  }
+
+  /**
+   * Load orders with the stations each unfinished production item still has to visit
+   * Items tracked by unit are planned per unfinished unit, others as one line of their quantity.
+   */
+  private async getOrderInputs(where: { id?: string; orderStatus?: { in: OrderSystemStatus[] } }): Promise<CapacityOrderInput[]> {
+    const orders = await prisma.order.findMany({ where, select: orderSelect });
+
+    const workflows = await workflowService.getWorkflowsForItems(orders.flatMap(order => order.items));
+
+    return orders.map(order => ({
+      id: order.id,
+      orderNumber: order.salesOrderNumber || order.id.slice(-8),
+      customerName: order.customer?.name || null,
+      priority: order.priority,
+      dueDate: order.dueDate,
+      createdAt: order.createdAt,
+      items: order.items.flatMap(item => {
+        const workflow = workflows.get(item.id)!;
+
+        if (item.units.length > 0) {
+          return item.units
+            .filter(unit => unit.itemStatus !== 'READY')
+            .map(unit => ({ remainingStations: getRemainingStationNames(workflow, unit.itemStatus, unit.currentStepId) }));
+        }
+
+        return [{
+          remainingStations: getRemainingStationNames(workflow, item.itemStatus, item.currentStepId),
+          quantity: item.quantity
+        }];
+      })
+    }));
+  }
+}
+
+// Export a default instance for convenience
+export const capacityPlanningService = new CapacityPlanningServiceImpl();
@@ -0,0 +1,189 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { unenhancedPrisma as prisma } from './db';
+import { EmailService } from './emailService';
+
+// Magic links are short lived and single use; the session they create lasts much longer
+export const PORTAL_LINK_TTL_MINUTES = 30;
+export const PORTAL_SESSION_TTL_DAYS = 30;
+
+// Stops a single address from flooding a customer's inbox with links
+const MAX_ACTIVE_LINKS_PER_CUSTOMER = 5;
+// Only touch lastSeenAt once every few minutes instead of on every request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface PortalSession {
+  id: string;
+  customerId: string;
+  email: string;
+  expiresAt: Date;
+}
+
+export interface CustomerPortalService {
+  requestMagicLink(email: string, baseUrl: string): Promise<number>;
+  redeemMagicLink(token: string): Promise<{ sessionToken: string; session: PortalSession }>;
+  getSession(sessionToken: string): Promise<PortalSession | null>;
+  revokeSession(sessionToken: string): Promise<void>;
+}
+
+export class CustomerPortalServiceImpl implements CustomerPortalService {
+
+  /**
+   * Email a magic link to every active customer the address belongs to
+   * The address can be the customer's own email or the contact email of one of their orders.
+   * Callers should not reveal the result, otherwise the endpoint can be used to probe for customers.
+   * @param email - The address the link was requested for
+   * @param baseUrl - Public URL of the app used to build the link
+   * @returns Number of links sent
+   */
+  async requestMagicLink(email: string, baseUrl: string): Promise<number> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const customers = await prisma.customer.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { email: { equals: normalizedEmail, mode: 'insensitive' } },
+          { orders: { some: { contactEmail: { equals: normalizedEmail, mode: 'insensitive' } } } }
+        ]
+      },
+      select: { id: true, name: true },
+      take: 5
+    });
+
+    let sent = 0;
+
+    for (const customer of customers) {
+      const activeLinks = await prisma.customerPortalToken.count({
+        where: {
+          customerId: customer.id,
+          usedAt: null,
+          expiresAt: { gt: new Date() }
+        }
+      });
+
+      if (activeLinks >= MAX_ACTIVE_LINKS_PER_CUSTOMER) {
+        console.warn(`Portal link limit reached for customer ${customer.id} - not sending another`);
+        continue;
+      }
+
+      const token = generateToken();
+      await prisma.customerPortalToken.create({
+        data: {
+          customerId: customer.id,
+          email: normalizedEmail,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + PORTAL_LINK_TTL_MINUTES * 60 * 1000)
+        }
+      });
+
+      const link = `${baseUrl.replace(/\/$/, '')}/portal/verify?token=${encodeURIComponent(token)}`;
+
+      try {
+        await EmailService.sendPortalMagicLinkEmail(normalizedEmail, customer.name, link, PORTAL_LINK_TTL_MINUTES);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send portal link for customer ${customer.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Exchange a magic link token for a portal session
+   * @param token - The raw token from the link
+   * @returns The raw session token (for the cookie) and the session
+   */
+  async redeemMagicLink(token: string): Promise<{ sessionToken: string; session: PortalSession }> {
+    const link = await prisma.customerPortalToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { customer: { select: { status: true } } }
+    });
+
+    if (!link || link.usedAt || link.expiresAt < new Date() || link.customer.status !== 'ACTIVE') {
+      const error = new Error('This sign-in link is invalid or has expired');
+      error.name = 'PortalAuthError';
+      throw error;
+    }
+
+    const sessionToken = generateToken();
+
+    const session = await prisma.$transaction(async (tx) => {
+      // Mark the link used first so a second click can't create another session
+      const claimed = await tx.customerPortalToken.updateMany({
+        where: { id: link.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        const error = new Error('This sign-in link has already been used');
+        error.name = 'PortalAuthError';
+        throw error;
+      }
+
+      return tx.customerPortalSession.create({
+        data: {
+          customerId: link.customerId,
+          email: link.email,
+          tokenHash: hashToken(sessionToken),
+          expiresAt: new Date(Date.now() + PORTAL_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+        },
+        select: { id: true, customerId: true, email: true, expiresAt: true }
+      });
+    });
+
+    return { sessionToken, session };
+  }
+
+  /**
+   * Look up an active portal session from the raw cookie token
+   * @param sessionToken - The raw session token
+   * @returns The session, or null if it is unknown, expired or revoked
+   */
+  async getSession(sessionToken: string): Promise<PortalSession | null> {
+    const session = await prisma.customerPortalSession.findUnique({
+      where: { tokenHash: hashToken(sessionToken) },
+      include: { customer: { select: { status: true } } }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date() || session.customer.status !== 'ACTIVE') {
+      return null;
+    }
+
+    if (!session.lastSeenAt || Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await prisma.customerPortalSession.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date() }
+      });
+    }
+
+    return {
+      id: session.id,
+      customerId: session.customerId,
+      email: session.email,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  /**
+   * Sign a portal session out
+   * @param sessionToken - The raw session token
+   */
+  async revokeSession(sessionToken: string): Promise<void> {
+    await prisma.customerPortalSession.updateMany({
+      where: { tokenHash: hashToken(sessionToken), revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Export a default instance for convenience
+export const customerPortalService = new CustomerPortalServiceImpl();
@@ -0,0 +1,340 @@
+import type { ItemProcessingLog, OrderItemProcessingStatus, OrderSystemStatus, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { workflowService } from './WorkflowService';
+import { attributeReviewService } from './AttributeReviewService';
+import { EmailService } from './emailService';
+import { closeProcessingLogPauses } from './productionTimer';
+import { getCoverAttributes } from '../../utils/materials';
+import { getOrderedWorkflowSteps } from '../../utils/workflowEngine';
+import {
+  buildCutBatches,
+  CUT_PLAN_STATUSES,
+  estimateVinylYards,
+  getCutFabric,
+  type CutBatch,
+  type CutPlanItem
+} from '../../utils/cutPlanning';
+
+export interface ClaimedCutItem extends CutPlanItem {
+  claimedBy: string;
+  claimedAt: Date;
+}
+
+export interface CutPlan {
+  station: { id: string; name: string };
+  batches: CutBatch[];
+  // Items already on the cutting table
+  inProgress: ClaimedCutItem[];
+}
+
+export interface CutItemStatusChange {
+  orderItemId: string;
+  orderId: string;
+  customerId: string;
+  orderNumber: string;
+  itemName: string;
+  fromStatus: OrderItemProcessingStatus;
+  toStatus: OrderItemProcessingStatus;
+}
+
+export interface CutBatchClaim {
+  station: { id: string; name: string };
+  logs: ItemProcessingLog[];
+  statusChanges: CutItemStatusChange[];
+  // Orders that went from APPROVED to ORDER_PROCESSING with this claim
+  startedOrders: { orderId: string; customerId: string; orderNumber: string }[];
+  // Set when covers starting production need attribute review and the policy is to warn
+  attributeWarning: string | null;
+}
+
+export interface CutPlanningService {
+  getPlan(stationId?: string | null): Promise<CutPlan>;
+  claimBatch(orderItemIds: string[], userId: string, stationId?: string | null): Promise<CutBatchClaim>;
+}
+
+// Orders whose covers can be cut
+const CUTTABLE_ORDER_STATUSES: OrderSystemStatus[] = ['APPROVED', 'ORDER_PROCESSING'];
+
+// Roles that can claim a batch at any station
+const CUT_BATCH_SUPERVISOR_ROLES = ['Super Admin', 'Admin', 'Manager'];
+
+const cutItemInclude = {
+  item: { select: { name: true } },
+  productAttributes: true,
+  units: { select: { itemStatus: true } },
+  order: {
+    select: {
+      id: true,
+      customerId: true,
+      salesOrderNumber: true,
+      orderStatus: true,
+      priority: true,
+      dueDate: true,
+      createdAt: true,
+      customer: { select: { name: true } }
+    }
+  },
+  itemProcessingLogs: {
+    where: { endTime: null },
+    select: { id: true, stationId: true, startTime: true, user: { select: { name: true } } }
+  }
+} satisfies Prisma.OrderItemInclude;
+
+type CutItemRecord = Prisma.OrderItemGetPayload<{ include: typeof cutItemInclude }>;
+
+export class CutPlanningServiceImpl implements CutPlanningService {
+
+  /**
+   * Suggest cut batches for the covers waiting for the cutting station
+   * @param stationId - The cutting station; defaults to the station named Cutting
+   */
+  async getPlan(stationId?: string | null): Promise<CutPlan> {
+    const station = await this.getStation(stationId);
+
+    const items = await prisma.orderItem.findMany({
+      where: {
+        isProduct: true,
+        itemStatus: { in: [...CUT_PLAN_STATUSES] },
+        order: { orderStatus: { in: CUTTABLE_ORDER_STATUSES } }
+      },
+      include: cutItemInclude
+    });
+
+    const waiting: CutPlanItem[] = [];
+    const inProgress: ClaimedCutItem[] = [];
+
+    for (const item of items) {
+      const planItem = this.toPlanItem(item);
+      const claim = item.itemProcessingLogs.find(log => log.stationId === station.id);
+      if (claim) {
+        inProgress.push({ ...planItem, claimedBy: claim.user.name, claimedAt: claim.startTime });
+      } else if (planItem.quantity > 0) {
+        waiting.push(planItem);
+      }
+    }
+
+    return {
+      station,
+      batches: buildCutBatches(waiting),
+      inProgress: inProgress.sort((a, b) => a.claimedAt.getTime() - b.claimedAt.getTime())
+    };
+  }
+
+  /**
+   * Claim a batch for a cutter - starts a processing log at the cutting station for every item in it
+   * Work still open on an item at another station is closed, as a scan would close it.
+   * @throws Error named 'CutBatchPermissionError' when the user cannot work at the station
+   * @throws Error named 'CutBatchConflictError' when an item is already being cut
+   * @throws Error named 'CutBatchValidationError' when an item is not waiting for cutting
+   */
+  async claimBatch(orderItemIds: string[], userId: string, stationId?: string | null): Promise<CutBatchClaim> {
+    const ids = [...new Set(orderItemIds)];
+    if (ids.length === 0) {
+      throw this.namedError('CutBatchValidationError', 'The batch has no items');
+    }
+
+    const station = await this.getStation(stationId);
+
+    const userRole = await prisma.userRole.findFirst({
+      where: {
+        userId,
+        OR: [
+          { role: { stations: { some: { stationId: station.id } } } },
+          { role: { name: { in: CUT_BATCH_SUPERVISOR_ROLES } } }
+        ]
+      }
+    });
+    if (!userRole) {
+      throw this.namedError('CutBatchPermissionError', `You do not have permission to work at the ${station.name} station`);
+    }
+
+    const items = await prisma.orderItem.findMany({
+      where: { id: { in: ids } },
+      include: cutItemInclude
+    });
+    if (items.length !== ids.length) {
+      throw new Error('Order item not found');
+    }
+
+    const steps = new Map<string, { id?: string; itemStatus: string; workflowId: string | null }>();
+    for (const item of items) {
+      const label = this.getItemLabel(item);
+
+      const claim = item.itemProcessingLogs.find(log => log.stationId === station.id);
+      if (claim) {
+        throw this.namedError('CutBatchConflictError', `${label} is already being cut by ${claim.user.name}`);
+      }
+      if (!CUTTABLE_ORDER_STATUSES.includes(item.order.orderStatus)) {
+        throw this.namedError('CutBatchValidationError', `The order for ${label} is not approved for production`);
+      }
+      if (!(CUT_PLAN_STATUSES as readonly string[]).includes(item.itemStatus)) {
+        throw this.namedError('CutBatchValidationError', `${label} is no longer waiting for cutting`);
+      }
+
+      const workflow = await workflowService.getWorkflowForItem(item.id);
+      const step = getOrderedWorkflowSteps(workflow).find(workflowStep => workflowStep.stationName === station.name);
+      if (!step) {
+        throw this.namedError('CutBatchValidationError', `${station.name} is not part of the ${workflow.name} workflow for ${label}`);
+      }
+      steps.set(item.id, { id: step.id, itemStatus: step.itemStatus, workflowId: workflow.id || null });
+    }
+
+    // Claiming starts production on covers not started yet - blocked or warned about when they need attribute review
+    const attributeWarning = await attributeReviewService.checkItems(
+      items.filter(item => item.itemStatus === 'NOT_STARTED_PRODUCTION').map(item => item.id),
+      'production'
+    );
+
+    const claim = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const logs: ItemProcessingLog[] = [];
+      const statusChanges: CutItemStatusChange[] = [];
+      const startedOrders = new Map<string, CutBatchClaim['startedOrders'][number]>();
+
+      for (const item of items) {
+        const step = steps.get(item.id)!;
+        const orderNumber = item.order.salesOrderNumber || item.order.id.slice(-8);
+
+        for (const openLog of item.itemProcessingLogs) {
+          await tx.itemProcessingLog.update({
+            where: { id: openLog.id },
+            data: {
+              endTime: now,
+              durationInSeconds: await closeProcessingLogPauses(tx, openLog, now),
+              notes: `Completed at ${now.toISOString()} - claimed for cutting`
+            }
+          });
+        }
+
+        // Items that have not started production move to the cutting step; items already there stay put
+        if (item.itemStatus === 'NOT_STARTED_PRODUCTION') {
+          const toStatus = step.itemStatus as OrderItemProcessingStatus;
+          await tx.orderItem.update({
+            where: { id: item.id },
+            data: {
+              itemStatus: toStatus,
+              currentStepId: step.id || null,
+              ...(step.workflowId ? { workflowId: step.workflowId } : {})
+            }
+          });
+          await tx.orderItemUnit.updateMany({
+            where: { orderItemId: item.id, itemStatus: 'NOT_STARTED_PRODUCTION' },
+            data: { itemStatus: toStatus, currentStepId: step.id || null }
+          });
+          await tx.itemStatusLog.create({
+            data: {
+              orderItemId: item.id,
+              fromStatus: item.itemStatus,
+              toStatus,
+              userId,
+              changeReason: `Claimed in a cut batch at ${station.name} station`,
+              triggeredBy: 'manual',
+              timestamp: now
+            }
+          });
+          statusChanges.push({
+            orderItemId: item.id,
+            orderId: item.order.id,
+            customerId: item.order.customerId,
+            orderNumber,
+            itemName: item.item?.name || 'Unknown Item',
+            fromStatus: item.itemStatus,
+            toStatus
+          });
+        }
+
+        logs.push(await tx.itemProcessingLog.create({
+          data: {
+            orderItemId: item.id,
+            stationId: station.id,
+            userId,
+            startTime: now,
+            notes: `Started work at ${station.name} station - cut batch of ${items.length} item${items.length === 1 ? '' : 's'}`
+          }
+        }));
+
+        if (item.order.orderStatus === 'APPROVED' && !startedOrders.has(item.order.id)) {
+          await tx.order.update({
+            where: { id: item.order.id },
+            data: { orderStatus: 'ORDER_PROCESSING' }
+          });
+          await tx.orderStatusLog.create({
+            data: {
+              orderId: item.order.id,
+              fromStatus: 'APPROVED',
+              toStatus: 'ORDER_PROCESSING',
+              userId,
+              changeReason: 'Production started - claimed in a cut batch',
+              triggeredBy: 'manual',
+              timestamp: now
+            }
+          });
+          startedOrders.set(item.order.id, { orderId: item.order.id, customerId: item.order.customerId, orderNumber });
+        }
+      }
+
+      return { station, logs, statusChanges, startedOrders: [...startedOrders.values()], attributeWarning };
+    });
+
+    for (const order of claim.startedOrders) {
+      try {
+        await EmailService.sendOrderStatusEmail(order.orderId, 'production_started');
+      } catch (emailError) {
+        // Failures are logged as EmailNotification rows by EmailService - don't fail the claim
+        console.error(`Failed to send production started email for order ${order.orderId}:`, emailError);
+      }
+    }
+
+    return claim;
+  }
+
+  private toPlanItem(item: CutItemRecord): CutPlanItem {
+    const attributes = getCoverAttributes(item);
+    const size = attributes.size ? `${attributes.size}"` : (attributes.length && attributes.width ? `${attributes.length}x${attributes.width}"` : null);
+
+    // Units of multi-quantity items move on one by one - only the ones not cut yet count
+    const quantity = item.units.length > 0
+      ? item.units.filter(unit => (CUT_PLAN_STATUSES as readonly string[]).includes(unit.itemStatus)).length
+      : item.quantity;
+
+    return {
+      orderItemId: item.id,
+      orderId: item.order.id,
+      orderNumber: item.order.salesOrderNumber || item.order.id.slice(-8),
+      customerName: item.order.customer?.name || 'Unknown Customer',
+      productNumber: item.productNumber,
+      description: [size, attributes.shape, item.item?.name && !size ? item.item.name : null].filter(Boolean).join(' ') || 'Cover',
+      itemStatus: item.itemStatus,
+      color: attributes.color ? String(attributes.color).trim() : null,
+      fabric: getCutFabric(attributes.fabricUpgrade),
+      quantity,
+      yards: estimateVinylYards(attributes),
+      priority: item.order.priority,
+      dueDate: item.order.dueDate,
+      createdAt: item.order.createdAt
+    };
+  }
+
+  private getItemLabel(item: CutItemRecord): string {
+    return item.productNumber ? `P${String(item.productNumber).padStart(5, '0')}` : (item.item?.name || item.id.slice(-8));
+  }
+
+  private async getStation(stationId?: string | null): Promise<{ id: string; name: string }> {
+    const station = await prisma.station.findFirst({
+      where: stationId ? { id: stationId } : { name: { equals: 'Cutting', mode: 'insensitive' } },
+      select: { id: true, name: true }
+    });
+    if (!station) {
+      throw new Error('Cutting station not found');
+    }
+    return station;
+  }
+
+  private namedError(name: string, message: string): Error {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+  }
+}
+
+export const cutPlanningService = new CutPlanningServiceImpl();
@@ -0,0 +1,262 @@
+import type { Prisma, SkirtType, TieDownPlacement } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { DESCRIPTION_GRAMMAR_VERSION, parseCoverDescription, type DescriptionParse, type ParsedProductAttributes } from '../../utils/descriptionGrammar';
+
+// ProductAttribute columns a description sets
+export const PARSED_ATTRIBUTE_COLUMNS = [
+  'color',
+  'size',
+  'shape',
+  'radiusSize',
+  'length',
+  'width',
+  'skirtLength',
+  'skirtType',
+  'tieDownsQty',
+  'tieDownPlacement',
+  'distance',
+  'foamUpgrade',
+  'doublePlasticWrapUpgrade',
+  'webbingUpgrade',
+  'metalForLifterUpgrade',
+  'steamStopperUpgrade',
+  'fabricUpgrade',
+  'extraHandleQty',
+  'extraLongSkirt',
+  'packaging',
+  'parsingErrors'
+] as const;
+
+export type ParsedAttributeColumn = typeof PARSED_ATTRIBUTE_COLUMNS[number];
+
+// Rows written per transaction; a reparse of the full history would outlast a single transaction's timeout
+const REPARSE_BATCH_SIZE = 100;
+
+type ColumnValue = string | boolean | string[] | null;
+
+export interface AttributeColumnData {
+  color: string | null;
+  size: string | null;
+  shape: string | null;
+  radiusSize: string | null;
+  length: string | null;
+  width: string | null;
+  skirtLength: string | null;
+  skirtType: SkirtType;
+  tieDownsQty: string | null;
+  tieDownPlacement: TieDownPlacement;
+  distance: string | null;
+  foamUpgrade: string | null;
+  doublePlasticWrapUpgrade: string | null;
+  webbingUpgrade: string | null;
+  metalForLifterUpgrade: string | null;
+  steamStopperUpgrade: string | null;
+  fabricUpgrade: string | null;
+  extraHandleQty: string | null;
+  extraLongSkirt: string | null;
+  packaging: boolean;
+}
+
+export interface ParsedAttributeData extends AttributeColumnData {
+  parsingErrors: string[];
+  isParsedFromDescription: true;
+  parserVersion: number;
+  parseConfidence: number;
+}
+
+export interface AttributeFieldChange {
+  field: ParsedAttributeColumn;
+  from: ColumnValue;
+  to: ColumnValue;
+}
+
+export interface AttributeReparseDiff {
+  productAttributeId: string;
+  orderItemId: string;
+  productNumber: number | null;
+  orderNumber: string | null;
+  lineDescription: string;
+  fromVersion: number | null;
+  confidence: number;
+  changes: AttributeFieldChange[];
+}
+
+export interface AttributeReparseOptions {
+  orderId?: string;
+  includeVerified?: boolean; // Verified attributes were checked by a person and are skipped unless asked for
+  includeManual?: boolean;   // Attributes someone entered by hand are skipped unless asked for
+}
+
+export interface AttributeReparsePreview {
+  version: number;
+  scanned: number;
+  unchanged: number;
+  diffs: AttributeReparseDiff[];
+}
+
+export interface AttributeReparseResult extends AttributeReparsePreview {
+  updated: number;
+}
+
+export interface DescriptionParsingService {
+  previewReparse(options?: AttributeReparseOptions): Promise<AttributeReparsePreview>;
+  applyReparse(options?: AttributeReparseOptions): Promise<AttributeReparseResult>;
+}
+
+/**
+ * The ProductAttribute columns for a parse; blank values are stored as NULL
+ */
+export function getParsedAttributeData(parse: DescriptionParse): ParsedAttributeData {
+  return {
+    ...getAttributeColumnData(parse.attributes),
+    parsingErrors: parse.errors,
+    isParsedFromDescription: true,
+    parserVersion: parse.version,
+    parseConfidence: parse.overallConfidence
+  };
+}
+
+/**
+ * The ProductAttribute columns for a cover's attributes, e.g. ones set in the cover configurator
+ */
+export function getAttributeColumnData(attributes: ParsedProductAttributes): AttributeColumnData {
+  const text = (value: string) => value.trim() || null;
+
+  return {
+    color: text(attributes.color),
+    size: text(attributes.size),
+    shape: text(attributes.shape),
+    radiusSize: text(attributes.radiusSize),
+    length: text(attributes.length),
+    width: text(attributes.width),
+    skirtLength: text(attributes.skirtLength),
+    skirtType: attributes.skirtType as SkirtType,
+    tieDownsQty: text(attributes.tieDownsQty),
+    tieDownPlacement: attributes.tieDownPlacement as TieDownPlacement,
+    distance: text(attributes.distance),
+    foamUpgrade: text(attributes.foamUpgrade),
+    doublePlasticWrapUpgrade: text(attributes.doublePlasticWrapUpgrade),
+    webbingUpgrade: text(attributes.webbingUpgrade),
+    metalForLifterUpgrade: text(attributes.metalForLifterUpgrade),
+    steamStopperUpgrade: text(attributes.steamStopperUpgrade),
+    fabricUpgrade: text(attributes.fabricUpgrade),
+    extraHandleQty: text(attributes.extraHandleQty),
+    extraLongSkirt: text(attributes.extraLongSkirt),
+    packaging: attributes.packaging
+  };
+}
+
+/**
+ * Parse an order line's description into ProductAttribute columns
+ */
+export function parseLineDescription(lineDescription: string): ParsedAttributeData {
+  return getParsedAttributeData(parseCoverDescription(lineDescription));
+}
+
+export class DescriptionParsingServiceImpl implements DescriptionParsingService {
+
+  /**
+   * Re-parse stored attributes with the current grammar and list what would change, without writing anything
+   */
+  async previewReparse(options: AttributeReparseOptions = {}): Promise<AttributeReparsePreview> {
+    const rows = await prisma.productAttribute.findMany({
+      where: this.buildWhere(options),
+      include: {
+        orderItem: {
+          select: {
+            lineDescription: true,
+            productNumber: true,
+            order: { select: { salesOrderNumber: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const diffs: AttributeReparseDiff[] = [];
+    for (const row of rows) {
+      const lineDescription = row.orderItem.lineDescription || '';
+      const parsed = parseLineDescription(lineDescription);
+      const changes = PARSED_ATTRIBUTE_COLUMNS
+        .map(field => ({ field, from: normalizeValue(row[field]), to: normalizeValue(parsed[field]) }))
+        .filter(change => !isSameValue(change.from, change.to));
+
+      if (changes.length > 0) {
+        diffs.push({
+          productAttributeId: row.id,
+          orderItemId: row.orderItemId,
+          productNumber: row.orderItem.productNumber,
+          orderNumber: row.orderItem.order?.salesOrderNumber || null,
+          lineDescription,
+          fromVersion: row.parserVersion,
+          confidence: parsed.parseConfidence,
+          changes
+        });
+      }
+    }
+
+    return {
+      version: DESCRIPTION_GRAMMAR_VERSION,
+      scanned: rows.length,
+      unchanged: rows.length - diffs.length,
+      diffs
+    };
+  }
+
+  /**
+   * Re-parse stored attributes and write the ones that change
+   * The rows are re-read here, so what is written is exactly what a preview run now would list.
+   * Rows are written in batches, each in its own transaction; a failed run can be applied again to finish the rest.
+   */
+  async applyReparse(options: AttributeReparseOptions = {}): Promise<AttributeReparseResult> {
+    const preview = await this.previewReparse(options);
+
+    for (let start = 0; start < preview.diffs.length; start += REPARSE_BATCH_SIZE) {
+      const batch = preview.diffs.slice(start, start + REPARSE_BATCH_SIZE);
+      await prisma.$transaction(batch.map(diff => prisma.productAttribute.update({
+        where: { id: diff.productAttributeId },
+        data: parseLineDescription(diff.lineDescription)
+      })));
+    }
+
+    return { ...preview, updated: preview.diffs.length };
+  }
+
+  private buildWhere(options: AttributeReparseOptions): Prisma.ProductAttributeWhereInput {
+    const where: Prisma.ProductAttributeWhereInput = {
+      orderItem: {
+        lineDescription: { not: null },
+        ...(options.orderId ? { orderId: options.orderId } : {})
+      }
+    };
+
+    if (!options.includeVerified) {
+      where.verified = false;
+    }
+    if (!options.includeManual) {
+      // Rows parsed before, or never filled in
+      where.OR = [{ isParsedFromDescription: true }, { color: null, size: null, shape: null }];
+    }
+
+    return where;
+  }
+}
+
+function normalizeValue(value: unknown): ColumnValue {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === 'boolean' ? value : String(value);
+}
+
+function isSameValue(a: ColumnValue, b: ColumnValue): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a || []) === JSON.stringify(b || []);
+  }
+  return a === b;
+}
+
+export const descriptionParsingService = new DescriptionParsingServiceImpl();
@@ -0,0 +1,148 @@
+import type { OrderSystemStatus, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import {
+  costJobItem,
+  parseJobCostingSettings,
+  summarizeJobCosts,
+  sumJobCostTotals,
+  type JobCostGroup,
+  type JobCostGroupBy,
+  type JobCostItem,
+  type JobCostTotals,
+  type JobCostingSettings
+} from '../../utils/jobCosting';
+
+export interface JobCostFilters {
+  startDate?: Date;
+  endDate?: Date;
+  customerId?: string;
+}
+
+export interface JobCostReport {
+  rows: JobCostGroup[];
+  totals: JobCostTotals;
+  orderCount: number;
+  itemCount: number;
+}
+
+export interface JobCostingService {
+  getItemCosts(filters: JobCostFilters, settings?: JobCostingSettings): Promise<JobCostItem[]>;
+  getReport(filters: JobCostFilters, groupBy: JobCostGroupBy, settings?: JobCostingSettings): Promise<JobCostReport>;
+}
+
+// Orders that never went ahead have no cost to report
+const EXCLUDED_ORDER_STATUSES: OrderSystemStatus[] = ['PENDING', 'CANCELLED'];
+
+const jobCostOrderItemSelect = {
+  id: true,
+  quantity: true,
+  pricePerItem: true,
+  isProduct: true,
+  productType: true,
+  size: true,
+  shape: true,
+  item: { select: { name: true, cost: true } },
+  productAttributes: { select: { productType: true, shape: true, color: true, size: true } },
+  // Only finished station work - time still running has no duration yet
+  itemProcessingLogs: {
+    where: { endTime: { not: null } },
+    select: { durationInSeconds: true, user: { select: { hourlyRate: true } } }
+  },
+  materialRequirements: {
+    where: { status: { not: 'RELEASED' as const } },
+    select: { quantity: true, material: { select: { costPerUnit: true } } }
+  },
+  reworks: { select: { scrapCost: true } }
+} satisfies Prisma.OrderItemSelect;
+
+/**
+ * Overhead rates from the runtime config
+ */
+export function getJobCostingSettings(): JobCostingSettings {
+  return parseJobCostingSettings(useRuntimeConfig().jobCosting);
+}
+
+export class JobCostingServiceImpl implements JobCostingService {
+
+  /**
+   * Cost every line item of the orders created in the date range
+   * Labor uses each worker's current hourly rate - rates are not kept per log.
+   * @param filters - Order date range and customer
+   * @param settings - Overhead rates, from the runtime config by default
+   * @returns One costed entry per order item
+   */
+  async getItemCosts(filters: JobCostFilters, settings: JobCostingSettings = getJobCostingSettings()): Promise<JobCostItem[]> {
+    const orders = await prisma.order.findMany({
+      where: {
+        orderStatus: { notIn: EXCLUDED_ORDER_STATUSES },
+        ...(filters.startDate || filters.endDate
+          ? { createdAt: { gte: filters.startDate, lte: filters.endDate } }
+          : {}),
+        ...(filters.customerId ? { customerId: filters.customerId } : {})
+      },
+      select: {
+        id: true,
+        salesOrderNumber: true,
+        createdAt: true,
+        customer: { select: { id: true, name: true, type: true } },
+        items: { select: jobCostOrderItemSelect }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return orders.flatMap(order => order.items.map(orderItem => costJobItem({
+      orderItemId: orderItem.id,
+      orderId: order.id,
+      orderNumber: order.salesOrderNumber || order.id.slice(-8),
+      orderDate: order.createdAt,
+      customerId: order.customer.id,
+      customerName: order.customer.name,
+      customerType: order.customer.type,
+      itemName: orderItem.item.name,
+      quantity: orderItem.quantity,
+      pricePerItem: Number(orderItem.pricePerItem),
+      isProduct: orderItem.isProduct,
+      standardCost: orderItem.item.cost === null ? null : Number(orderItem.item.cost),
+      attributes: {
+        productType: orderItem.productAttributes?.productType || orderItem.productType || null,
+        shape: orderItem.productAttributes?.shape || orderItem.shape || null,
+        color: orderItem.productAttributes?.color || null,
+        size: orderItem.productAttributes?.size || orderItem.size || null
+      },
+      labor: orderItem.itemProcessingLogs.map(log => ({
+        durationInSeconds: log.durationInSeconds || 0,
+        hourlyRate: log.user.hourlyRate === null ? null : Number(log.user.hourlyRate)
+      })),
+      materials: orderItem.materialRequirements.map(requirement => ({
+        quantity: Number(requirement.quantity),
+        costPerUnit: requirement.material.costPerUnit === null ? null : Number(requirement.material.costPerUnit)
+      })),
+      scrapCost: orderItem.reworks.reduce((sum, rework) => sum + Number(rework.scrapCost || 0), 0)
+    }, settings)));
+  }
+
+  /**
+   * Build the margin report
+   * @param filters - Order date range and customer
+   * @param groupBy - What each row of the report is (line item, order, customer, attribute, month...)
+   * @param settings - Overhead rates, from the runtime config by default
+   * @returns The report rows and the totals over all of them
+   */
+  async getReport(
+    filters: JobCostFilters,
+    groupBy: JobCostGroupBy,
+    settings: JobCostingSettings = getJobCostingSettings()
+  ): Promise<JobCostReport> {
+    const items = await this.getItemCosts(filters, settings);
+
+    return {
+      rows: summarizeJobCosts(items, groupBy),
+      totals: sumJobCostTotals(items),
+      orderCount: new Set(items.map(item => item.input.orderId)).size,
+      itemCount: items.length
+    };
+  }
+}
+
+// Export a default instance for convenience
+export const jobCostingService = new JobCostingServiceImpl();
@@ -0,0 +1,304 @@
+import { randomUUID } from 'crypto';
+import type { BackgroundJob } from '@prisma-app/client';
+import { Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import {
+  JOB_DEFAULT_MAX_ATTEMPTS,
+  JOB_DEFAULT_TIMEOUT_MS,
+  getJobClaimLimits,
+  getRecurringJobKey,
+  resolveJobFailure
+} from '../../utils/jobQueue';
+
+export type JobHandler<T = unknown> = (payload: T, job: BackgroundJob) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  concurrency?: number;      // Jobs of this type running at once, across all workers (default 1)
+  maxAttempts?: number;      // Attempts before the job is dead-lettered (default 5)
+  timeoutMs?: number;        // A RUNNING job older than this is treated as orphaned
+  retryBaseMs?: number;      // First retry delay; doubles on each attempt
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  uniqueKey?: string;        // Skip queueing when an active job already holds this key
+  maxAttempts?: number;
+}
+
+export interface JobQueueService {
+  register<T>(name: string, handler: JobHandler<T>, options?: JobHandlerOptions): void;
+  schedule(name: string, intervalMs: number): Promise<void>;
+  enqueue<T>(name: string, payload?: T, options?: EnqueueOptions): Promise<BackgroundJob>;
+  runDueJobs(): Promise<number>;
+  retryJob(jobId: string): Promise<BackgroundJob>;
+  cancelJob(jobId: string): Promise<BackgroundJob>;
+  getRegisteredJobs(): { name: string; concurrency: number; intervalMs: number | null }[];
+}
+
+interface RegisteredJob {
+  handler: JobHandler;
+  concurrency: number;
+  maxAttempts: number;
+  timeoutMs: number;
+  retryBaseMs?: number;
+  intervalMs: number | null;
+}
+
+// Jobs this worker runs at once, across all job types
+const WORKER_CONCURRENCY = 4;
+
+export class JobQueueServiceImpl implements JobQueueService {
+  private readonly workerId = randomUUID();
+  private readonly jobs = new Map<string, RegisteredJob>();
+  private activeCount = 0;
+
+  /**
+   * Register the handler for a job type
+   * Only registered types are claimed, so jobs for a disabled feature wait in the table untouched.
+   */
+  register<T>(name: string, handler: JobHandler<T>, options: JobHandlerOptions = {}): void {
+    this.jobs.set(name, {
+      handler: handler as JobHandler,
+      concurrency: options.concurrency ?? 1,
+      maxAttempts: options.maxAttempts ?? JOB_DEFAULT_MAX_ATTEMPTS,
+      timeoutMs: options.timeoutMs ?? JOB_DEFAULT_TIMEOUT_MS,
+      retryBaseMs: options.retryBaseMs,
+      intervalMs: this.jobs.get(name)?.intervalMs ?? null
+    });
+  }
+
+  /**
+   * Run a registered job type on a fixed interval
+   * A queued run left over from before a restart keeps its time; otherwise the first run is queued now.
+   * The next run is queued when the current one finishes, whether it succeeded or not.
+   */
+  async schedule(name: string, intervalMs: number): Promise<void> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Job ${name} is not registered`);
+    }
+
+    job.intervalMs = intervalMs;
+    await this.enqueue(name, undefined, { uniqueKey: getRecurringJobKey(name) });
+  }
+
+  /**
+   * Add a job to the queue
+   * @param name - The registered job type
+   * @param payload - JSON-serialisable input for the handler
+   * @param options - When to run it, and an optional key to avoid queueing duplicates
+   * @returns The new job, or the active job already holding the unique key
+   */
+  async enqueue<T>(name: string, payload?: T, options: EnqueueOptions = {}): Promise<BackgroundJob> {
+    const data = {
+      name,
+      payload: payload === undefined ? Prisma.JsonNull : (payload as Prisma.InputJsonValue),
+      runAt: options.runAt ?? new Date(),
+      uniqueKey: options.uniqueKey ?? null,
+      maxAttempts: options.maxAttempts ?? this.jobs.get(name)?.maxAttempts ?? JOB_DEFAULT_MAX_ATTEMPTS
+    };
+
+    try {
+      return await prisma.backgroundJob.create({ data });
+    } catch (error) {
+      if (options.uniqueKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await prisma.backgroundJob.findUnique({ where: { uniqueKey: options.uniqueKey } });
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim and run the jobs that are due, within each type's concurrency limit
+   * @returns The number of jobs started
+   */
+  async runDueJobs(): Promise<number> {
+    if (this.jobs.size === 0) {
+      return 0;
+    }
+
+    await this.recoverOrphanedJobs();
+
+    const running = await prisma.backgroundJob.groupBy({
+      by: ['name'],
+      where: { status: 'RUNNING', name: { in: [...this.jobs.keys()] } },
+      _count: { _all: true }
+    });
+
+    const claimLimits = getJobClaimLimits(
+      Object.fromEntries([...this.jobs].map(([name, job]) => [name, job.concurrency])),
+      Object.fromEntries(running.map(group => [group.name, group._count._all])),
+      WORKER_CONCURRENCY - this.activeCount
+    );
+
+    const claimed: BackgroundJob[] = [];
+    for (const [name, limit] of Object.entries(claimLimits)) {
+      const due = await prisma.backgroundJob.findMany({
+        where: { name, status: 'PENDING', runAt: { lte: new Date() } },
+        orderBy: { runAt: 'asc' },
+        take: limit
+      });
+
+      for (const job of due) {
+        // Claim the job so another worker polling at the same time skips it
+        const result = await prisma.backgroundJob.updateMany({
+          where: { id: job.id, status: 'PENDING' },
+          data: { status: 'RUNNING', lockedAt: new Date(), lockedBy: this.workerId, attempts: { increment: 1 } }
+        });
+        if (result.count > 0) {
+          claimed.push({ ...job, status: 'RUNNING', attempts: job.attempts + 1 });
+        }
+      }
+    }
+
+    for (const job of claimed) {
+      this.activeCount++;
+      this.runJob(job).finally(() => {
+        this.activeCount--;
+      });
+    }
+
+    return claimed.length;
+  }
+
+  /**
+   * Send a dead, cancelled or waiting job to run again now with a fresh set of attempts
+   */
+  async retryJob(jobId: string): Promise<BackgroundJob> {
+    const job = await prisma.backgroundJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status === 'RUNNING' || job.status === 'COMPLETED') {
+      throw this.validationError(`A ${job.status.toLowerCase()} job cannot be retried`);
+    }
+
+    return prisma.backgroundJob.update({
+      where: { id: jobId },
+      data: { status: 'PENDING', attempts: 0, runAt: new Date(), completedAt: null, lockedAt: null, lockedBy: null }
+    });
+  }
+
+  /**
+   * Cancel a job that has not started
+   * Cancelling a recurring run skips it; the following run is still queued.
+   */
+  async cancelJob(jobId: string): Promise<BackgroundJob> {
+    const job = await prisma.backgroundJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status !== 'PENDING') {
+      throw this.validationError('Only jobs that have not started can be cancelled');
+    }
+
+    const cancelled = await prisma.backgroundJob.update({
+      where: { id: jobId },
+      data: { status: 'CANCELLED', uniqueKey: null, completedAt: new Date() }
+    });
+
+    await this.queueNextRun(job);
+    return cancelled;
+  }
+
+  getRegisteredJobs(): { name: string; concurrency: number; intervalMs: number | null }[] {
+    return [...this.jobs].map(([name, job]) => ({ name, concurrency: job.concurrency, intervalMs: job.intervalMs }));
+  }
+
+  private async runJob(job: BackgroundJob): Promise<void> {
+    const registered = this.jobs.get(job.name)!;
+
+    try {
+      await registered.handler(job.payload, job);
+
+      await prisma.backgroundJob.update({
+        where: { id: job.id },
+        data: { status: 'COMPLETED', uniqueKey: null, lastError: null, completedAt: new Date(), lockedAt: null, lockedBy: null }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const outcome = resolveJobFailure(job.attempts, job.maxAttempts, new Date(), registered.retryBaseMs);
+
+      if (outcome.status === 'DEAD') {
+        console.error(`[JobQueue] Job ${job.name} (${job.id}) failed after ${job.attempts} attempt(s) and was dead-lettered:`, error);
+      } else {
+        console.warn(`[JobQueue] Job ${job.name} (${job.id}) failed, retrying at ${outcome.runAt!.toISOString()}: ${message}`);
+      }
+
+      await prisma.backgroundJob.update({
+        where: { id: job.id },
+        data: outcome.status === 'DEAD'
+          ? { status: 'DEAD', uniqueKey: null, lastError: message, completedAt: new Date(), lockedAt: null, lockedBy: null }
+          : { status: 'PENDING', lastError: message, runAt: outcome.runAt!, lockedAt: null, lockedBy: null }
+      }).catch(updateError => console.error(`[JobQueue] Failed to record failure for job ${job.id}:`, updateError));
+
+      if (outcome.status === 'PENDING') {
+        return;
+      }
+    }
+
+    await this.queueNextRun(job);
+  }
+
+  /**
+   * Put RUNNING jobs whose worker died back in the queue, counting the lost run as a failed attempt
+   */
+  private async recoverOrphanedJobs(): Promise<void> {
+    const now = Date.now();
+
+    for (const [name, job] of this.jobs) {
+      const orphaned = await prisma.backgroundJob.findMany({
+        where: { name, status: 'RUNNING', lockedAt: { lt: new Date(now - job.timeoutMs) } }
+      });
+
+      for (const orphan of orphaned) {
+        const outcome = resolveJobFailure(orphan.attempts, orphan.maxAttempts, new Date(now), job.retryBaseMs);
+        const recovered = await prisma.backgroundJob.updateMany({
+          where: { id: orphan.id, status: 'RUNNING', lockedAt: orphan.lockedAt },
+          data: outcome.status === 'DEAD'
+            ? { status: 'DEAD', uniqueKey: null, lastError: 'Job did not finish before its timeout', completedAt: new Date(), lockedAt: null, lockedBy: null }
+            : { status: 'PENDING', lastError: 'Job did not finish before its timeout', runAt: outcome.runAt!, lockedAt: null, lockedBy: null }
+        });
+
+        if (recovered.count > 0) {
+          console.warn(`[JobQueue] Recovered orphaned job ${name} (${orphan.id}) from worker ${orphan.lockedBy}`);
+          if (outcome.status === 'DEAD') {
+            await this.queueNextRun(orphan);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Queue the next run of a recurring job once the current one is finished with
+   */
+  private async queueNextRun(job: BackgroundJob): Promise<void> {
+    const intervalMs = this.jobs.get(job.name)?.intervalMs;
+    if (!intervalMs || job.uniqueKey !== getRecurringJobKey(job.name)) {
+      return;
+    }
+
+    try {
+      await this.enqueue(job.name, undefined, {
+        uniqueKey: getRecurringJobKey(job.name),
+        runAt: new Date(Date.now() + intervalMs)
+      });
+    } catch (error) {
+      console.error(`[JobQueue] Failed to queue the next run of ${job.name}:`, error);
+    }
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'JobQueueValidationError';
+    return error;
+  }
+}
+
+export const jobQueue = new JobQueueServiceImpl();
@@ -0,0 +1,176 @@
+import { compare, hash } from 'bcryptjs';
+import { unenhancedPrisma as prisma } from './db';
+import {
+  generateBadgeCode,
+  isBadgeCode,
+  isValidKioskPin,
+  KIOSK_PIN_LOCK_MINUTES,
+  KIOSK_PIN_MAX_ATTEMPTS
+} from '../../utils/employeeBadges';
+
+export interface KioskOperator {
+  id: string;
+  name: string;
+  hasPin: boolean;
+}
+
+export interface IssuedBadge {
+  userId: string;
+  badgeCode: string;
+  badgeIssuedAt: Date;
+}
+
+export interface KioskOperatorService {
+  resolveBadge(badgeCode: string): Promise<KioskOperator>;
+  verifyPin(badgeCode: string, pin: string): Promise<KioskOperator>;
+  issueBadge(userId: string): Promise<IssuedBadge>;
+  setPin(userId: string, pin: string | null): Promise<void>;
+}
+
+export class KioskOperatorServiceImpl implements KioskOperatorService {
+
+  /**
+   * Find the active worker a badge belongs to
+   */
+  async resolveBadge(badgeCode: string): Promise<KioskOperator> {
+    const user = await this.findBadgeHolder(badgeCode);
+    return this.toOperator(user);
+  }
+
+  /**
+   * Check the PIN of a badge holder before a sensitive kiosk action
+   * After too many wrong PINs the badge is locked for a while, so a lost badge cannot be brute forced.
+   * @throws Error named 'KioskPinError' when the PIN is wrong, missing or locked
+   */
+  async verifyPin(badgeCode: string, pin: string): Promise<KioskOperator> {
+    const user = await this.findBadgeHolder(badgeCode);
+
+    if (!user.kioskPinHash) {
+      throw this.pinError(`${user.name} has no kiosk PIN yet. Ask a supervisor to set one.`);
+    }
+
+    const now = new Date();
+    if (user.kioskPinLockedUntil && user.kioskPinLockedUntil > now) {
+      const minutes = Math.ceil((user.kioskPinLockedUntil.getTime() - now.getTime()) / 60000);
+      throw this.pinError(`Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    if (!await compare(pin, user.kioskPinHash)) {
+      const attempts = user.kioskPinFailedAttempts + 1;
+      const locked = attempts >= KIOSK_PIN_MAX_ATTEMPTS;
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          kioskPinFailedAttempts: locked ? 0 : attempts,
+          kioskPinLockedUntil: locked ? new Date(now.getTime() + KIOSK_PIN_LOCK_MINUTES * 60000) : null
+        }
+      });
+      throw this.pinError(locked
+        ? `Too many wrong PINs. The badge is locked for ${KIOSK_PIN_LOCK_MINUTES} minutes.`
+        : 'Wrong PIN');
+    }
+
+    if (user.kioskPinFailedAttempts > 0 || user.kioskPinLockedUntil) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { kioskPinFailedAttempts: 0, kioskPinLockedUntil: null }
+      });
+    }
+
+    return this.toOperator(user);
+  }
+
+  /**
+   * Give a worker a new badge code; any badge printed before stops working
+   */
+  async issueBadge(userId: string): Promise<IssuedBadge> {
+    await this.getUser(userId);
+
+    // Codes are random, so a clash is very unlikely - retry once or twice rather than fail the request
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const badgeCode = generateBadgeCode();
+      const existing = await prisma.user.findUnique({ where: { badgeCode }, select: { id: true } });
+      if (existing) {
+        continue;
+      }
+
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: { badgeCode, badgeIssuedAt: new Date() },
+        select: { id: true, badgeCode: true, badgeIssuedAt: true }
+      });
+
+      return { userId: user.id, badgeCode: user.badgeCode!, badgeIssuedAt: user.badgeIssuedAt! };
+    }
+
+    throw new Error('Could not generate a unique badge code');
+  }
+
+  /**
+   * Set or clear a worker's kiosk PIN
+   */
+  async setPin(userId: string, pin: string | null): Promise<void> {
+    await this.getUser(userId);
+
+    if (pin !== null && !isValidKioskPin(pin)) {
+      throw this.validationError('The PIN must be 4 to 6 digits');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        kioskPinHash: pin === null ? null : await hash(pin, 10),
+        kioskPinSetAt: pin === null ? null : new Date(),
+        kioskPinFailedAttempts: 0,
+        kioskPinLockedUntil: null
+      }
+    });
+  }
+
+  private async findBadgeHolder(badgeCode: string) {
+    const code = badgeCode.trim().toUpperCase();
+    if (!isBadgeCode(code)) {
+      throw this.validationError('This is not an employee badge');
+    }
+
+    const user = await prisma.user.findUnique({ where: { badgeCode: code } });
+    if (!user) {
+      throw new Error('Employee badge not found');
+    }
+    if (user.status !== 'ACTIVE' || user.banned) {
+      throw this.validationError(`${user.name}'s account is not active`);
+    }
+
+    return user;
+  }
+
+  private async getUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private toOperator(user: { id: string; name: string; kioskPinHash: string | null }): KioskOperator {
+    return {
+      id: user.id,
+      name: user.name,
+      hasPin: !!user.kioskPinHash
+    };
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'KioskOperatorValidationError';
+    return error;
+  }
+
+  private pinError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'KioskPinError';
+    return error;
+  }
+}
+
+export const kioskOperatorService = new KioskOperatorServiceImpl();
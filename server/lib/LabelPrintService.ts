@@ -0,0 +1,173 @@
+import type { LabelPrinter } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { printQueueService } from './PrintQueueService';
+import { attributeReviewService } from './AttributeReviewService';
+import { sendToLabelPrinter, type LabelPrinterAck } from './labelPrinterClient';
+import { buildLabelContent, buildOrderItemLabels, renderPdfLabels, renderZplLabels, type LabelContent } from '../../utils/labelRenderer';
+
+export interface LabelPrintResult {
+  printerId: string;
+  printerName: string;
+  printedCount: number;
+  ack: LabelPrinterAck;
+  // Set when some of the items printed need attribute review and the policy is to warn
+  attributeWarning?: string | null;
+}
+
+export interface RenderedLabels {
+  format: 'ZPL' | 'PDF';
+  content: string;
+  count: number;
+  attributeWarning?: string | null;
+}
+
+export interface LabelPrintService {
+  printQueueItems(queueItemIds: string[], printerId: string, printedBy: string): Promise<LabelPrintResult>;
+  printTestLabel(printerId: string): Promise<LabelPrintResult>;
+  renderQueueItems(queueItemIds: string[], format: 'ZPL' | 'PDF', dpi?: number): Promise<RenderedLabels>;
+  checkQueueItems(queueItemIds: string[]): Promise<string | null>;
+}
+
+export class LabelPrintServiceImpl implements LabelPrintService {
+
+  /**
+   * Send queued labels to a network printer, then take them off the print queue
+   * Items are only marked printed once the printer has acknowledged the job; if it does not,
+   * they stay in the queue and the printer's last error is recorded.
+   * Items whose attributes need review are blocked or warned about, per the unverified items policy.
+   * @param queueItemIds - Print queue item IDs, printed oldest first
+   * @param printerId - The label printer to send to
+   * @param printedBy - User sending the job
+   */
+  async printQueueItems(queueItemIds: string[], printerId: string, printedBy: string): Promise<LabelPrintResult> {
+    const printer = await this.getPrinter(printerId);
+    const queueItems = await this.getQueueItems(queueItemIds);
+    const attributeWarning = await attributeReviewService.checkItems(queueItems.map(item => item.orderItemId), 'print');
+    const labels = queueItems.flatMap(item => buildOrderItemLabels(item.orderItem, item.orderItem.order));
+
+    const ack = await this.send(printer, labels);
+
+    await printQueueService.markBatchPrinted(queueItems.map(item => item.id), printedBy);
+
+    return {
+      printerId: printer.id,
+      printerName: printer.name,
+      printedCount: queueItems.length,
+      ack,
+      attributeWarning
+    };
+  }
+
+  /**
+   * Print a sample label to check a printer's address, format and alignment
+   */
+  async printTestLabel(printerId: string): Promise<LabelPrintResult> {
+    const printer = await this.getPrinter(printerId);
+    const label = buildLabelContent(
+      { id: 'TEST', productAttributes: { productType: 'SPA_COVER', color: 'Test', size: '84', shape: 'Square' } },
+      { salesOrderNumber: 'TEST', customer: { name: printer.name }, createdAt: new Date() }
+    );
+
+    const ack = await this.send(printer, [label]);
+
+    return {
+      printerId: printer.id,
+      printerName: printer.name,
+      printedCount: 1,
+      ack
+    };
+  }
+
+  /**
+   * Render queued labels without sending them anywhere, e.g. to download a PDF
+   * Downloaded labels are printed too, so they follow the same unverified items policy.
+   */
+  async renderQueueItems(queueItemIds: string[], format: 'ZPL' | 'PDF', dpi?: number): Promise<RenderedLabels> {
+    const queueItems = await this.getQueueItems(queueItemIds);
+    const attributeWarning = await attributeReviewService.checkItems(queueItems.map(item => item.orderItemId), 'print');
+    const labels = queueItems.flatMap(item => buildOrderItemLabels(item.orderItem, item.orderItem.order));
+
+    return {
+      format,
+      content: format === 'ZPL' ? renderZplLabels(labels, dpi) : renderPdfLabels(labels),
+      count: labels.length,
+      attributeWarning
+    };
+  }
+
+  /**
+   * Check queued items against the unverified items policy before they are marked printed
+   * For labels printed in the browser, where the server never sees the print itself.
+   * @param queueItemIds - Print queue item IDs; ones no longer in the queue are skipped
+   * @returns A warning when some items need review and the policy is to warn
+   * @throws UnverifiedAttributesError when some items need review and the policy is "block"
+   */
+  async checkQueueItems(queueItemIds: string[]): Promise<string | null> {
+    const queueItems = await prisma.printQueue.findMany({
+      where: { id: { in: queueItemIds }, isPrinted: false },
+      select: { orderItemId: true }
+    });
+    return attributeReviewService.checkItems(queueItems.map(item => item.orderItemId), 'print');
+  }
+
+  private async send(printer: LabelPrinter, labels: LabelContent[]): Promise<LabelPrinterAck> {
+    const payload = printer.format === 'ZPL' ? renderZplLabels(labels, printer.dpi) : renderPdfLabels(labels);
+
+    try {
+      const ack = await sendToLabelPrinter({ host: printer.host, port: printer.port, format: printer.format }, payload);
+      await prisma.labelPrinter.update({
+        where: { id: printer.id },
+        data: { lastPrintedAt: new Date(), lastError: null }
+      });
+      return ack;
+    } catch (error) {
+      await prisma.labelPrinter.update({
+        where: { id: printer.id },
+        data: { lastError: error instanceof Error ? error.message : String(error) }
+      }).catch(updateError => console.error('Failed to record label printer error:', updateError));
+      throw error;
+    }
+  }
+
+  private async getPrinter(printerId: string): Promise<LabelPrinter> {
+    const printer = await prisma.labelPrinter.findUnique({ where: { id: printerId } });
+    if (!printer) {
+      throw new Error('Label printer not found');
+    }
+    if (!printer.isActive) {
+      throw this.validationError(`${printer.name} is inactive`);
+    }
+    return printer;
+  }
+
+  private async getQueueItems(queueItemIds: string[]) {
+    const queueItems = await prisma.printQueue.findMany({
+      where: { id: { in: queueItemIds }, isPrinted: false },
+      include: {
+        orderItem: {
+          include: {
+            order: { include: { customer: true } },
+            item: true,
+            productAttributes: true,
+            units: { select: { id: true, unitNumber: true, productNumber: true } }
+          }
+        }
+      },
+      orderBy: { addedAt: 'asc' }
+    });
+
+    if (queueItems.length === 0) {
+      throw new Error('None of the specified items are currently in the print queue');
+    }
+
+    return queueItems;
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'LabelPrinterValidationError';
+    return error;
+  }
+}
+
+export const labelPrintService = new LabelPrintServiceImpl();
@@ -0,0 +1,337 @@
+import type { Material, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import {
+  computeMaterialRequirements,
+  getCoverAttributes,
+  getMaterialStockStatus,
+  getUnitShare,
+  roundQuantity,
+  type BomBasis,
+  type MaterialStockLevel
+} from '../../utils/materials';
+import { formatUnitLabel } from '../../utils/orderItemUnits';
+
+export interface StockAdjustment {
+  type: 'RECEIPT' | 'ADJUSTMENT';
+  quantity: number;        // Received quantity, or the signed change for an adjustment
+  notes?: string | null;
+}
+
+export interface MaterialsService {
+  reserveForOrder(orderId: string): Promise<number>;
+  releaseForOrder(orderId: string): Promise<number>;
+  consumeForStation(orderItemId: string, stationId: string, userId?: string, unitId?: string | null): Promise<number>;
+  adjustStock(materialId: string, adjustment: StockAdjustment, userId: string): Promise<Material>;
+  getStockLevels(): Promise<MaterialStockLevel[]>;
+}
+
+export class MaterialsServiceImpl implements MaterialsService {
+
+  /**
+   * Reserve the materials an approved order's production items need, from the active BOM rules
+   * Safe to call again for the same order - lines already reserved or consumed are left alone.
+   * @param orderId - The approved order
+   * @returns The number of requirement lines reserved
+   */
+  async reserveForOrder(orderId: string): Promise<number> {
+    const [items, rules] = await Promise.all([
+      prisma.orderItem.findMany({
+        where: { orderId, isProduct: true },
+        include: { productAttributes: true }
+      }),
+      prisma.materialBomRule.findMany({
+        where: { isActive: true, material: { isActive: true } }
+      })
+    ]);
+
+    if (items.length === 0 || rules.length === 0) {
+      return 0;
+    }
+
+    const ruleSources = rules.map(rule => ({
+      id: rule.id,
+      materialId: rule.materialId,
+      stationId: rule.stationId,
+      productType: rule.productType,
+      conditions: rule.conditions,
+      basis: rule.basis as BomBasis,
+      quantityPerUnit: Number(rule.quantityPerUnit),
+      wastePercent: Number(rule.wastePercent)
+    }));
+
+    const lines = items.flatMap(item => computeMaterialRequirements(getCoverAttributes(item), ruleSources, item.quantity)
+      .map(line => ({ ...line, orderItemId: item.id })));
+
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.materialRequirement.findMany({
+        where: { orderItemId: { in: items.map(item => item.id) } }
+      });
+
+      let reserved = 0;
+      for (const line of lines) {
+        const current = existing.find(requirement => requirement.orderItemId === line.orderItemId
+          && requirement.materialId === line.materialId
+          && requirement.stationId === line.stationId);
+
+        if (current && current.status !== 'RELEASED') {
+          continue;
+        }
+
+        if (current) {
+          await tx.materialRequirement.update({
+            where: { id: current.id },
+            data: { status: 'RESERVED', quantity: line.quantity, consumedAt: null, consumedQuantity: 0, consumedUnitIds: [] }
+          });
+        } else {
+          await tx.materialRequirement.create({
+            data: {
+              orderItemId: line.orderItemId,
+              materialId: line.materialId,
+              stationId: line.stationId,
+              quantity: line.quantity
+            }
+          });
+        }
+
+        await tx.material.update({
+          where: { id: line.materialId },
+          data: { quantityReserved: { increment: line.quantity } }
+        });
+        reserved++;
+      }
+
+      return reserved;
+    });
+  }
+
+  /**
+   * Release the reservations of an order that will not be built, e.g. when it is cancelled
+   * Material already consumed at a station stays consumed; a line some units already took from keeps what they took.
+   * @returns The number of requirement lines released
+   */
+  async releaseForOrder(orderId: string): Promise<number> {
+    const requirements = await prisma.materialRequirement.findMany({
+      where: { status: 'RESERVED', orderItem: { orderId } }
+    });
+
+    if (requirements.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const requirement of requirements) {
+        const consumedQuantity = Number(requirement.consumedQuantity);
+        const result = await tx.materialRequirement.updateMany({
+          where: { id: requirement.id, status: 'RESERVED', consumedQuantity: requirement.consumedQuantity },
+          data: consumedQuantity > 0
+            ? { status: 'CONSUMED', quantity: consumedQuantity, consumedAt: new Date() }
+            : { status: 'RELEASED' }
+        });
+
+        if (result.count > 0) {
+          await tx.material.update({
+            where: { id: requirement.materialId },
+            data: { quantityReserved: { decrement: roundQuantity(Number(requirement.quantity) - consumedQuantity) } }
+          });
+        }
+      }
+    });
+
+    return requirements.length;
+  }
+
+  /**
+   * Take an item's reserved materials out of stock once it passes the station that uses them
+   * Items approved before their BOM rules existed have nothing reserved, so nothing is consumed.
+   * On a multi-quantity line each unit takes its share as it passes, and the line is used up with the last unit.
+   * @param orderItemId - The item that completed a step
+   * @param stationId - The station whose step it completed
+   * @param userId - Who did the work, recorded on the stock ledger
+   * @param unitId - The unit that completed the step, when the line is tracked unit by unit
+   * @returns The number of requirement lines taken from
+   */
+  async consumeForStation(orderItemId: string, stationId: string, userId?: string, unitId?: string | null): Promise<number> {
+    const requirements = await prisma.materialRequirement.findMany({
+      where: { orderItemId, stationId, status: 'RESERVED' },
+      include: { station: { select: { name: true } } }
+    });
+
+    if (requirements.length === 0) {
+      return 0;
+    }
+
+    const units = unitId
+      ? await prisma.orderItemUnit.findMany({ where: { orderItemId }, select: { id: true, unitNumber: true } })
+      : [];
+    const unit = units.length > 1 ? units.find(candidate => candidate.id === unitId) : undefined;
+
+    return prisma.$transaction(async (tx) => {
+      let consumed = 0;
+      for (const requirement of requirements) {
+        const quantity = unit
+          ? await this.claimUnitShare(tx, requirement.id, unit.id, units.length)
+          : await this.claimRemainder(tx, requirement.id);
+
+        if (quantity === null) {
+          continue;
+        }
+
+        await tx.material.update({
+          where: { id: requirement.materialId },
+          data: {
+            quantityOnHand: { decrement: quantity },
+            quantityReserved: { decrement: quantity }
+          }
+        });
+
+        await tx.materialTransaction.create({
+          data: {
+            materialId: requirement.materialId,
+            type: 'CONSUMPTION',
+            quantity: -quantity,
+            orderItemId,
+            userId: userId || null,
+            notes: unit
+              ? `Used at ${requirement.station.name} station for ${formatUnitLabel(unit.unitNumber, units.length)}`
+              : `Used at ${requirement.station.name} station`
+          }
+        });
+        consumed++;
+      }
+
+      return consumed;
+    });
+  }
+
+  /**
+   * Record received stock or a count correction, keeping the stock ledger in step with the quantity on hand
+   */
+  async adjustStock(materialId: string, adjustment: StockAdjustment, userId: string): Promise<Material> {
+    const material = await prisma.material.findUnique({ where: { id: materialId } });
+    if (!material) {
+      throw new Error('Material not found');
+    }
+
+    if (adjustment.type === 'RECEIPT' && adjustment.quantity <= 0) {
+      throw this.validationError('Received quantity must be greater than zero');
+    }
+
+    if (adjustment.quantity === 0) {
+      throw this.validationError('Adjustment quantity cannot be zero');
+    }
+
+    const quantity = roundQuantity(adjustment.quantity);
+    if (Number(material.quantityOnHand) + quantity < 0) {
+      throw this.validationError(`Only ${Number(material.quantityOnHand)} ${material.unit} of ${material.name} on hand`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.materialTransaction.create({
+        data: {
+          materialId,
+          type: adjustment.type,
+          quantity,
+          userId,
+          notes: adjustment.notes || null
+        }
+      });
+
+      return tx.material.update({
+        where: { id: materialId },
+        data: { quantityOnHand: { increment: quantity } }
+      });
+    });
+  }
+
+  /**
+   * Stock levels of the active materials against what the approved backlog has reserved
+   */
+  async getStockLevels(): Promise<MaterialStockLevel[]> {
+    const materials = await prisma.material.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' }
+    });
+
+    return materials.map((material) => {
+      const stock = {
+        quantityOnHand: Number(material.quantityOnHand),
+        quantityReserved: Number(material.quantityReserved),
+        reorderPoint: Number(material.reorderPoint)
+      };
+
+      return {
+        id: material.id,
+        name: material.name,
+        sku: material.sku,
+        category: material.category,
+        unit: material.unit,
+        ...stock,
+        ...getMaterialStockStatus(stock)
+      };
+    });
+  }
+
+  /**
+   * Record one unit's share of a requirement line as taken, using the line up when it is the last unit
+   * @returns The quantity to take out of stock, or null when this unit already took its share
+   */
+  private async claimUnitShare(tx: Prisma.TransactionClient, requirementId: string, unitId: string, unitCount: number): Promise<number | null> {
+    // Claim the share so a repeated scan of the unit cannot take it twice
+    const result = await tx.materialRequirement.updateMany({
+      where: { id: requirementId, status: 'RESERVED', NOT: { consumedUnitIds: { has: unitId } } },
+      data: { consumedUnitIds: { push: unitId } }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const requirement = await tx.materialRequirement.findUniqueOrThrow({ where: { id: requirementId } });
+    const share = getUnitShare(Number(requirement.quantity), unitCount, requirement.consumedUnitIds.indexOf(unitId));
+    const isLast = requirement.consumedUnitIds.length >= unitCount;
+
+    await tx.materialRequirement.update({
+      where: { id: requirementId },
+      data: {
+        consumedQuantity: { increment: share },
+        ...(isLast ? { status: 'CONSUMED' as const, consumedAt: new Date() } : {})
+      }
+    });
+
+    return share;
+  }
+
+  /**
+   * Record a requirement line as used up, taking whatever units of the line have not taken yet
+   * @returns The quantity to take out of stock, or null when the line was already used up
+   */
+  private async claimRemainder(tx: Prisma.TransactionClient, requirementId: string): Promise<number | null> {
+    // Claim the line so a repeated scan cannot consume it twice
+    const result = await tx.materialRequirement.updateMany({
+      where: { id: requirementId, status: 'RESERVED' },
+      data: { status: 'CONSUMED', consumedAt: new Date() }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const requirement = await tx.materialRequirement.findUniqueOrThrow({ where: { id: requirementId } });
+    const remainder = roundQuantity(Number(requirement.quantity) - Number(requirement.consumedQuantity));
+
+    await tx.materialRequirement.update({
+      where: { id: requirementId },
+      data: { consumedQuantity: requirement.quantity }
+    });
+
+    return remainder;
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'MaterialValidationError';
+    return error;
+  }
+}
+
+export const materialsService = new MaterialsServiceImpl();
@@ -1,11 +1,14 @@
 import { printQueueService } from './PrintQueueService';
 import { poValidationService } from './POValidationService';
+import { materialsService } from './MaterialsService';
+import { orderItemUnitService } from './OrderItemUnitService';
 import { getEnhancedPrismaClient } from './db';
 import type { H3Event } from 'h3';
 
 export interface OrderApprovalResult {
   success: boolean;
   printQueueItemsAdded?: number;
+  materialsReserved?: number;
   validationWarnings?: string[];
   error?: string;
 }
@@ -85,9 +88,20 @@ export class OrderApprovalServiceImpl implements OrderApprovalService {
         };
       }
 
+      // Give each piece of a multi-quantity line its own unit first, so it gets its own label
+      await orderItemUnitService.syncUnitsForOrder(orderId).catch((error) => {
+        console.error(`Failed to create order item units for order ${orderId}:`, error);
+      });
+
       // Add items to print queue
       const printQueueItems = await printQueueService.addToQueue(orderItemIds, userId);
 
+      // Reserve the materials the items need; a BOM problem should not block the approval
+      const materialsReserved = await materialsService.reserveForOrder(orderId).catch((error) => {
+        console.error(`Failed to reserve materials for order ${orderId}:`, error);
+        return 0;
+      });
+
       console.log(`Successfully added ${printQueueItems.length} items to print queue for order ${orderId}`, {
         orderItemIds,
         printQueueItemIds: printQueueItems.map(item => item.id)
@@ -95,7 +109,8 @@ export class OrderApprovalServiceImpl implements OrderApprovalService {
 
       return {
         success: true,
-        printQueueItemsAdded: printQueueItems.length
+        printQueueItemsAdded: printQueueItems.length,
+        materialsReserved
       };
 
     } catch (error) {
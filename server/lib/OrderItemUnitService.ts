@@ -0,0 +1,134 @@
+import type { OrderItemUnit, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { getNextProductNumber, getNextProductNumbers } from '../utils/productNumber';
+import { getRolledUpUnitStatus, sortUnits, tracksUnits } from '../../utils/orderItemUnits';
+
+type PrismaClientLike = typeof prisma | Prisma.TransactionClient;
+
+export interface OrderItemUnitService {
+  syncUnits(orderItemId: string, client?: PrismaClientLike): Promise<OrderItemUnit[]>;
+  syncUnitsForOrder(orderId: string): Promise<number>;
+  rollUpItemStatus(orderItemId: string, client?: PrismaClientLike): Promise<{ itemStatus: string; currentStepId: string | null } | null>;
+}
+
+export class OrderItemUnitServiceImpl implements OrderItemUnitService {
+
+  /**
+   * Make sure a production order item has one unit per piece on the line
+   * Missing units are created at the order item's current status, so items already in production keep
+   * their place. Unit 1 keeps the order item's product number and the others get new ones. Units beyond
+   * the quantity are only removed while they have not been started.
+   * @param orderItemId - The order item ID
+   * @param client - Optional transaction client
+   * @returns The order item's units, sorted by unit number
+   */
+  async syncUnits(orderItemId: string, client: PrismaClientLike = prisma): Promise<OrderItemUnit[]> {
+    const orderItem = await client.orderItem.findUnique({
+      where: { id: orderItemId },
+      include: { units: true }
+    });
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    const unitCount = tracksUnits(orderItem) ? orderItem.quantity : 0;
+
+    const surplus = orderItem.units.filter(unit => unit.unitNumber > unitCount
+      && unit.itemStatus === 'NOT_STARTED_PRODUCTION'
+      && !unit.currentStepId);
+    if (surplus.length > 0) {
+      await client.orderItemUnit.deleteMany({ where: { id: { in: surplus.map(unit => unit.id) } } });
+    }
+
+    const existingNumbers = new Set(orderItem.units.map(unit => unit.unitNumber));
+    const missing: number[] = [];
+    for (let unitNumber = 1; unitNumber <= unitCount; unitNumber++) {
+      if (!existingNumbers.has(unitNumber)) {
+        missing.push(unitNumber);
+      }
+    }
+
+    if (missing.length > 0) {
+      let parentProductNumber = orderItem.productNumber;
+      if (!parentProductNumber) {
+        parentProductNumber = await getNextProductNumber(client);
+        await client.orderItem.update({
+          where: { id: orderItemId },
+          data: { productNumber: parentProductNumber }
+        });
+      }
+
+      const needNewNumbers = missing.filter(unitNumber => unitNumber !== 1);
+      const newNumbers = needNewNumbers.length > 0 ? await getNextProductNumbers(needNewNumbers.length, client) : [];
+
+      await client.orderItemUnit.createMany({
+        data: missing.map(unitNumber => ({
+          orderItemId,
+          unitNumber,
+          productNumber: unitNumber === 1 ? parentProductNumber! : newNumbers[needNewNumbers.indexOf(unitNumber)],
+          itemStatus: orderItem.itemStatus,
+          currentStepId: orderItem.currentStepId
+        }))
+      });
+    }
+
+    if (surplus.length === 0 && missing.length === 0) {
+      return sortUnits(orderItem.units);
+    }
+
+    return client.orderItemUnit.findMany({
+      where: { orderItemId },
+      orderBy: { unitNumber: 'asc' }
+    });
+  }
+
+  /**
+   * Create the units of every multi-quantity production item on an order
+   * @param orderId - The order ID
+   * @returns Number of order items that are tracked by unit
+   */
+  async syncUnitsForOrder(orderId: string): Promise<number> {
+    const items = await prisma.orderItem.findMany({
+      where: { orderId, isProduct: true, quantity: { gt: 1 } },
+      select: { id: true }
+    });
+
+    for (const item of items) {
+      await prisma.$transaction(tx => this.syncUnits(item.id, tx));
+    }
+
+    return items.length;
+  }
+
+  /**
+   * Set an order item's status and workflow step from its least advanced unit
+   * @param orderItemId - The order item ID
+   * @param client - Optional transaction client
+   * @returns The rolled-up status, or null when the order item has no units
+   */
+  async rollUpItemStatus(orderItemId: string, client: PrismaClientLike = prisma): Promise<{ itemStatus: string; currentStepId: string | null } | null> {
+    const units = await client.orderItemUnit.findMany({
+      where: { orderItemId },
+      select: { unitNumber: true, productNumber: true, itemStatus: true, currentStepId: true }
+    });
+
+    const rolledUp = getRolledUpUnitStatus(units);
+    if (!rolledUp) {
+      return null;
+    }
+
+    await client.orderItem.update({
+      where: { id: orderItemId },
+      data: {
+        itemStatus: rolledUp.itemStatus as OrderItemUnit['itemStatus'],
+        currentStepId: rolledUp.currentStepId
+      }
+    });
+
+    return rolledUp;
+  }
+}
+
+// Export a default instance for convenience
+export const orderItemUnitService = new OrderItemUnitServiceImpl();
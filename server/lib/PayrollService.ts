@@ -0,0 +1,379 @@
+import type { PayPeriod, PayStatement, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { getCoverAttributes } from '../../utils/materials';
+import { TimezoneService } from '../../utils/timezoneService';
+import {
+  buildPayrollCsv,
+  calculatePayStatement,
+  formatPayPeriodDate,
+  payStatementMatches,
+  type PayStatementFigures,
+  type PayStatementLine,
+  type PayrollWorkLog,
+  type PieceRateBasis,
+  type PieceRateSource
+} from '../../utils/payroll';
+
+export interface PayStatementDetails extends Omit<PayStatementFigures, 'lines'> {
+  id: string;
+  status: PayStatement['status'];
+  lines: PayStatementLine[];
+  employee: { id: string; name: string; email: string };
+  approvedBy: { id: string; name: string } | null;
+  approvedAt: Date | null;
+  // Set on locked periods when the station logs no longer give the locked figures
+  changedSinceLock: PayStatementFigures | null;
+}
+
+export interface ChangedWorkLog {
+  id: string;
+  employeeName: string;
+  stationName: string;
+  orderItemId: string;
+  endTime: Date | null;
+  durationInSeconds: number | null;
+  updatedAt: Date;
+}
+
+export interface PayPeriodDetails {
+  period: PayPeriod & { lockedBy: { id: string; name: string } | null };
+  statements: PayStatementDetails[];
+  // Logs of the period created or edited after it was locked
+  changedLogs: ChangedWorkLog[];
+}
+
+export interface PayrollService {
+  createPeriod(startDate: string, endDate: string, timeZone?: string): Promise<PayPeriod>;
+  getPeriod(periodId: string): Promise<PayPeriodDetails>;
+  calculatePeriod(periodId: string): Promise<PayStatement[]>;
+  approveStatement(statementId: string, userId: string): Promise<PayStatement>;
+  lockPeriod(periodId: string, userId: string): Promise<PayPeriod>;
+  exportPeriod(periodId: string, timeZone?: string): Promise<{ period: PayPeriod; csv: string; statementCount: number }>;
+}
+
+const payrollLogSelect = {
+  id: true,
+  userId: true,
+  stationId: true,
+  orderItemId: true,
+  unitId: true,
+  durationInSeconds: true,
+  station: { select: { name: true } },
+  orderItem: { include: { productAttributes: true } }
+} satisfies Prisma.ItemProcessingLogSelect;
+
+type PayrollLogRecord = Prisma.ItemProcessingLogGetPayload<{ select: typeof payrollLogSelect }>;
+
+export class PayrollServiceImpl implements PayrollService {
+
+  /**
+   * Open a pay period
+   * The period runs from the start of its first day to the end of its last day in the shop's time zone.
+   * @param startDate - First day of the period (YYYY-MM-DD)
+   * @param endDate - Last day of the period (YYYY-MM-DD)
+   * @param timeZone - IANA time zone of the shop; the server's own zone when not given
+   * @throws Error named 'PayrollValidationError' when the dates are the wrong way round or overlap another period
+   */
+  async createPeriod(startDate: string, endDate: string, timeZone?: string): Promise<PayPeriod> {
+    if (endDate < startDate) {
+      throw this.validationError('The period must end after it starts');
+    }
+
+    const { start, end } = TimezoneService.convertLocalDateRangeToUTC(startDate, endDate, { timezone: timeZone });
+
+    const overlapping = await prisma.payPeriod.findFirst({
+      where: { startDate: { lte: end }, endDate: { gte: start } }
+    });
+    if (overlapping) {
+      throw this.validationError(`The period overlaps the pay period from ${formatPayPeriodDate(overlapping.startDate, timeZone)}`);
+    }
+
+    return prisma.payPeriod.create({ data: { startDate: start, endDate: end } });
+  }
+
+  /**
+   * Get a period with its statements
+   * Statements of a locked period are checked against the station logs as they are now, and the logs
+   * changed since the lock are listed, so payroll can correct them in the next period.
+   */
+  async getPeriod(periodId: string): Promise<PayPeriodDetails> {
+    const period = await prisma.payPeriod.findUnique({
+      where: { id: periodId },
+      include: {
+        lockedBy: { select: { id: true, name: true } },
+        statements: {
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            approvedBy: { select: { id: true, name: true } }
+          },
+          orderBy: { user: { name: 'asc' } }
+        }
+      }
+    });
+    if (!period) {
+      throw new Error('Pay period not found');
+    }
+
+    const isLocked = period.status === 'LOCKED' && !!period.lockedAt;
+    const current = isLocked ? await this.calculateFigures(period) : new Map<string, PayStatementFigures>();
+
+    const statements = period.statements.map((statement): PayStatementDetails => {
+      const figures = {
+        hours: Number(statement.hours),
+        pieces: statement.pieces,
+        hourlyRate: statement.hourlyRate === null ? null : Number(statement.hourlyRate),
+        hourlyPay: Number(statement.hourlyPay),
+        piecePay: Number(statement.piecePay),
+        totalPay: Number(statement.totalPay)
+      };
+      const now = current.get(statement.userId) || calculatePayStatement([], [], figures.hourlyRate);
+
+      return {
+        id: statement.id,
+        status: statement.status,
+        ...figures,
+        lines: statement.lines as unknown as PayStatementLine[],
+        employee: statement.user,
+        approvedBy: statement.approvedBy,
+        approvedAt: statement.approvedAt,
+        changedSinceLock: isLocked && !payStatementMatches(figures, now) ? now : null
+      };
+    });
+
+    const changedLogs = isLocked
+      ? await prisma.itemProcessingLog.findMany({
+        where: {
+          endTime: { gte: period.startDate, lte: period.endDate },
+          updatedAt: { gt: period.lockedAt! }
+        },
+        select: {
+          id: true,
+          orderItemId: true,
+          endTime: true,
+          durationInSeconds: true,
+          updatedAt: true,
+          user: { select: { name: true } },
+          station: { select: { name: true } }
+        },
+        orderBy: { updatedAt: 'desc' }
+      })
+      : [];
+
+    const { statements: _statements, ...periodFields } = period;
+    return {
+      period: periodFields,
+      statements,
+      changedLogs: changedLogs.map(log => ({
+        id: log.id,
+        employeeName: log.user.name,
+        stationName: log.station.name,
+        orderItemId: log.orderItemId,
+        endTime: log.endTime,
+        durationInSeconds: log.durationInSeconds,
+        updatedAt: log.updatedAt
+      }))
+    };
+  }
+
+  /**
+   * Work out every employee's statement from the station work finished in the period
+   * Approved statements whose figures are unchanged stay approved; any other statement goes back to draft.
+   * Employees with no work left in the period lose their statement.
+   * @throws Error named 'PayPeriodLockedError' when the period is locked
+   */
+  async calculatePeriod(periodId: string): Promise<PayStatement[]> {
+    const period = await this.getOpenPeriod(periodId);
+    const figuresByUser = await this.calculateFigures(period);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.payStatement.deleteMany({
+        where: { payPeriodId: period.id, userId: { notIn: [...figuresByUser.keys()] } }
+      });
+
+      const existing = await tx.payStatement.findMany({ where: { payPeriodId: period.id } });
+      const statements: PayStatement[] = [];
+
+      for (const [userId, figures] of figuresByUser) {
+        const current = existing.find(statement => statement.userId === userId);
+        const unchanged = current?.status === 'APPROVED' && payStatementMatches({
+          hours: Number(current.hours),
+          pieces: current.pieces,
+          totalPay: Number(current.totalPay)
+        }, figures);
+
+        const data = {
+          hours: figures.hours,
+          pieces: figures.pieces,
+          hourlyRate: figures.hourlyRate,
+          hourlyPay: figures.hourlyPay,
+          piecePay: figures.piecePay,
+          totalPay: figures.totalPay,
+          lines: figures.lines as unknown as Prisma.InputJsonValue,
+          ...(unchanged ? {} : { status: 'DRAFT' as const, approvedById: null, approvedAt: null })
+        };
+
+        statements.push(current
+          ? await tx.payStatement.update({ where: { id: current.id }, data })
+          : await tx.payStatement.create({ data: { ...data, payPeriodId: period.id, userId } }));
+      }
+
+      return statements;
+    });
+  }
+
+  /**
+   * Approve a statement as the supervisor
+   * @throws Error named 'PayPeriodLockedError' when the period is locked
+   */
+  async approveStatement(statementId: string, userId: string): Promise<PayStatement> {
+    const statement = await prisma.payStatement.findUnique({
+      where: { id: statementId },
+      include: { payPeriod: true }
+    });
+    if (!statement) {
+      throw new Error('Pay statement not found');
+    }
+    if (statement.payPeriod.status === 'LOCKED') {
+      throw this.lockedError();
+    }
+
+    return prisma.payStatement.update({
+      where: { id: statementId },
+      data: { status: 'APPROVED', approvedById: userId, approvedAt: new Date() }
+    });
+  }
+
+  /**
+   * Lock a period once every statement is approved
+   * @throws Error named 'PayrollValidationError' when there are no statements or some are still drafts
+   */
+  async lockPeriod(periodId: string, userId: string): Promise<PayPeriod> {
+    const period = await this.getOpenPeriod(periodId);
+
+    const statements = await prisma.payStatement.findMany({
+      where: { payPeriodId: period.id },
+      select: { status: true }
+    });
+    if (statements.length === 0) {
+      throw this.validationError('Calculate the statements before locking the period');
+    }
+
+    const drafts = statements.filter(statement => statement.status !== 'APPROVED').length;
+    if (drafts > 0) {
+      throw this.validationError(`${drafts} statement${drafts === 1 ? ' is' : 's are'} not approved yet`);
+    }
+
+    return prisma.payPeriod.update({
+      where: { id: period.id },
+      data: { status: 'LOCKED', lockedAt: new Date(), lockedById: userId }
+    });
+  }
+
+  /**
+   * Build the payroll import CSV from the period's approved statements
+   * @param timeZone - IANA time zone of the shop, for the period dates; the server's own zone when not given
+   */
+  async exportPeriod(periodId: string, timeZone?: string): Promise<{ period: PayPeriod; csv: string; statementCount: number }> {
+    const period = await prisma.payPeriod.findUnique({
+      where: { id: periodId },
+      include: {
+        statements: {
+          where: { status: 'APPROVED' },
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { user: { name: 'asc' } }
+        }
+      }
+    });
+    if (!period) {
+      throw new Error('Pay period not found');
+    }
+
+    const csv = buildPayrollCsv(period, period.statements.map(statement => ({
+      employeeId: statement.user.id,
+      employeeName: statement.user.name,
+      employeeEmail: statement.user.email,
+      lines: statement.lines as unknown as PayStatementLine[]
+    })), timeZone);
+
+    const { statements, ...periodFields } = period;
+    return { period: periodFields, csv, statementCount: statements.length };
+  }
+
+  private async calculateFigures(period: PayPeriod): Promise<Map<string, PayStatementFigures>> {
+    const [logs, rates] = await Promise.all([
+      prisma.itemProcessingLog.findMany({
+        where: { endTime: { gte: period.startDate, lte: period.endDate } },
+        select: payrollLogSelect,
+        orderBy: { endTime: 'asc' }
+      }),
+      prisma.pieceRate.findMany({ where: { isActive: true } })
+    ]);
+
+    const rateSources: PieceRateSource[] = rates.map(rate => ({
+      id: rate.id,
+      name: rate.name,
+      stationId: rate.stationId,
+      productType: rate.productType,
+      conditions: rate.conditions,
+      minSizeIn: rate.minSizeIn,
+      maxSizeIn: rate.maxSizeIn,
+      basis: rate.basis as PieceRateBasis,
+      rate: Number(rate.rate)
+    }));
+
+    const logsByUser = new Map<string, PayrollWorkLog[]>();
+    for (const log of logs) {
+      const userLogs = logsByUser.get(log.userId) || [];
+      userLogs.push(this.toWorkLog(log));
+      logsByUser.set(log.userId, userLogs);
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...logsByUser.keys()] } },
+      select: { id: true, hourlyRate: true }
+    });
+
+    return new Map(users.map(user => [
+      user.id,
+      calculatePayStatement(logsByUser.get(user.id) || [], rateSources, user.hourlyRate === null ? null : Number(user.hourlyRate))
+    ]));
+  }
+
+  private toWorkLog(log: PayrollLogRecord): PayrollWorkLog {
+    return {
+      id: log.id,
+      stationId: log.stationId,
+      stationName: log.station.name,
+      orderItemId: log.orderItemId,
+      unitId: log.unitId,
+      quantity: log.orderItem.quantity,
+      durationInSeconds: log.durationInSeconds || 0,
+      attributes: getCoverAttributes(log.orderItem)
+    };
+  }
+
+  private async getOpenPeriod(periodId: string): Promise<PayPeriod> {
+    const period = await prisma.payPeriod.findUnique({ where: { id: periodId } });
+    if (!period) {
+      throw new Error('Pay period not found');
+    }
+    if (period.status === 'LOCKED') {
+      throw this.lockedError();
+    }
+    return period;
+  }
+
+  private lockedError(): Error {
+    const error = new Error('The pay period is locked');
+    error.name = 'PayPeriodLockedError';
+    return error;
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'PayrollValidationError';
+    return error;
+  }
+}
+
+export const payrollService = new PayrollServiceImpl();
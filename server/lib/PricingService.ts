@@ -0,0 +1,131 @@
+import type { CustomerType, PriceList } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { getCoverAttributes, type BomCoverAttributes } from '../../utils/materials';
+import {
+  checkPrice,
+  computeCoverPrice,
+  selectPriceList,
+  type CoverPrice,
+  type PriceCheck,
+  type PriceRuleBasis,
+  type PriceRuleSource
+} from '../../utils/pricing';
+
+export interface OrderItemPricing extends PriceCheck {
+  orderItemId: string;
+  price: CoverPrice;
+}
+
+export interface OrderPricing {
+  orderId: string;
+  customerType: CustomerType;
+  priceDate: Date;
+  // NULL when no price list is in effect for the customer type on the order date
+  priceList: Pick<PriceList, 'id' | 'name' | 'effectiveFrom' | 'effectiveTo'> | null;
+  items: OrderItemPricing[];
+}
+
+export interface CoverQuote {
+  priceList: Pick<PriceList, 'id' | 'name' | 'effectiveFrom' | 'effectiveTo'> | null;
+  price: CoverPrice | null;
+}
+
+export interface PricingService {
+  getOrderPricing(orderId: string): Promise<OrderPricing>;
+  quoteCover(customerType: CustomerType, attributes: BomCoverAttributes, date?: Date): Promise<CoverQuote>;
+}
+
+export class PricingServiceImpl implements PricingService {
+
+  /**
+   * Compute the price of every production item on an order and compare it with the entered price
+   * The order's transaction date picks the price list, falling back to when the order was created.
+   */
+  async getOrderPricing(orderId: string): Promise<OrderPricing> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        transactionDate: true,
+        createdAt: true,
+        customer: { select: { type: true } },
+        items: {
+          where: { OR: [{ isProduct: true }, { productAttributes: { isNot: null } }] },
+          include: { productAttributes: true }
+        }
+      }
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const priceDate = order.transactionDate || order.createdAt;
+    const { priceList, rules } = await this.loadPriceList(order.customer.type, priceDate);
+
+    const items = order.items.map((item) => {
+      const price = computeCoverPrice(getCoverAttributes(item), rules);
+      return {
+        orderItemId: item.id,
+        price,
+        ...checkPrice(Number(item.pricePerItem), priceList ? price.unitPrice : null)
+      };
+    });
+
+    return {
+      orderId: order.id,
+      customerType: order.customer.type,
+      priceDate,
+      priceList,
+      items
+    };
+  }
+
+  /**
+   * Price a cover that is not on an order yet, e.g. while it is being configured or quoted
+   */
+  async quoteCover(customerType: CustomerType, attributes: BomCoverAttributes, date: Date = new Date()): Promise<CoverQuote> {
+    const { priceList, rules } = await this.loadPriceList(customerType, date);
+
+    return {
+      priceList,
+      price: priceList ? computeCoverPrice(attributes, rules) : null
+    };
+  }
+
+  private async loadPriceList(customerType: CustomerType, date: Date) {
+    const lists = await prisma.priceList.findMany({
+      where: {
+        customerType,
+        isActive: true,
+        effectiveFrom: { lte: date },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: date } }]
+      },
+      include: { rules: { where: { isActive: true } } }
+    });
+
+    const list = selectPriceList(lists, customerType, date);
+    if (!list) {
+      return { priceList: null, rules: [] as PriceRuleSource[] };
+    }
+
+    const rules: PriceRuleSource[] = list.rules.map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      kind: rule.kind,
+      productType: rule.productType,
+      conditions: rule.conditions,
+      minSizeIn: rule.minSizeIn,
+      maxSizeIn: rule.maxSizeIn,
+      basis: rule.basis as PriceRuleBasis,
+      amount: Number(rule.amount)
+    }));
+
+    return {
+      priceList: { id: list.id, name: list.name, effectiveFrom: list.effectiveFrom, effectiveTo: list.effectiveTo },
+      rules
+    };
+  }
+}
+
+export const pricingService = new PricingServiceImpl();
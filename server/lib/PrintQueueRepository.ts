@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma-app/client";
 import { unenhancedPrisma } from "./db";
+import { eventEmitter } from "../utils/eventEmitter";
 
 export interface PrintQueueRepository {
   addItems(orderItemIds: string[], addedBy?: string): Promise<PrintQueueItem[]>;
@@ -100,6 +101,13 @@ export class PrintQueueRepositoryImpl implements PrintQueueRepository {
 
       console.log(`Successfully added ${newOrderItemIds.length} new items to print queue`);
 
+      eventEmitter.emitPrintQueueChange({
+        action: 'ADDED',
+        orderItemIds: newOrderItemIds,
+        userId: addedBy,
+        timestamp: new Date(),
+      });
+
       // Return all requested items (existing + newly created)
       return this.getItemsByOrderItemIds(validOrderItemIds);
     } catch (error) {
@@ -140,6 +148,12 @@ export class PrintQueueRepositoryImpl implements PrintQueueRepository {
           },
         },
       });
+
+      eventEmitter.emitPrintQueueChange({
+        action: 'REMOVED',
+        queueItemIds,
+        timestamp: new Date(),
+      });
     } catch (error) {
       console.error('Error removing items from print queue:', error);
       throw new Error('Failed to remove items from print queue');
@@ -339,6 +353,14 @@ export class PrintQueueRepositoryImpl implements PrintQueueRepository {
         console.warn(`Expected to update ${existingIds.length} items but updated ${result.count}`);
       }
 
+      eventEmitter.emitPrintQueueChange({
+        action: 'PRINTED',
+        queueItemIds: existingIds,
+        orderItemIds: existingItems.map(item => item.orderItemId),
+        userId: printedBy,
+        timestamp: new Date(),
+      });
+
     } catch (error) {
       console.error('Error marking items as printed:', {
         error: error.message,
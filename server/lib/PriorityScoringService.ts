@@ -0,0 +1,226 @@
+import type { OrderItemProcessingStatus, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { workflowService } from './WorkflowService';
+import { getRemainingStationNames } from '../../utils/capacityPlanning';
+import {
+  PRIORITY_BOOST_LIMIT,
+  PRIORITY_LIST_LIMIT,
+  calculatePriorityScore,
+  parsePriorityScoringConfig,
+  rankPriorityItems,
+  type PriorityScore,
+  type PriorityScoringConfig
+} from '../../utils/priorityScoring';
+
+// Production items are on the list from ready to start until finished
+const PRIORITY_LIST_STATUSES: OrderItemProcessingStatus[] = [
+  'NOT_STARTED_PRODUCTION', 'CUTTING', 'SEWING', 'FOAM_CUTTING', 'STUFFING', 'PACKAGING', 'PRODUCT_FINISHED'
+];
+
+const priorityItemSelect = {
+  id: true,
+  itemStatus: true,
+  createdAt: true,
+  currentStepId: true,
+  workflowId: true,
+  priorityPinnedAt: true,
+  priorityBoost: true,
+  // Product attributes for the description
+  productType: true,
+  size: true,
+  shape: true,
+  radiusSize: true,
+  skirtLength: true,
+  skirtType: true,
+  tieDownsQty: true,
+  tieDownPlacement: true,
+  distance: true,
+  order: {
+    select: {
+      id: true,
+      salesOrderNumber: true,
+      priority: true,
+      createdAt: true,
+      dueDate: true,
+      customer: { select: { name: true, type: true } },
+      // The order's production items, for how much of the order is already done
+      items: {
+        where: { productAttributes: { isNot: null } },
+        select: { id: true, itemStatus: true }
+      }
+    }
+  },
+  item: { select: { name: true } },
+  productAttributes: {
+    select: {
+      color: true,
+      productType: true,
+      size: true,
+      shape: true,
+      radiusSize: true,
+      skirtLength: true,
+      skirtType: true,
+      tieDownsQty: true,
+      tieDownPlacement: true,
+      distance: true
+    }
+  }
+} satisfies Prisma.OrderItemSelect;
+
+export type PriorityListRecord = Prisma.OrderItemGetPayload<{ select: typeof priorityItemSelect }>;
+
+export interface ScoredPriorityItem {
+  item: PriorityListRecord;
+  score: number;
+  scoreBreakdown: PriorityScore;
+  pinnedAt: Date | null;
+  nextStationName: string | null; // Station of the step the item is waiting at
+  orderCreatedAt: Date;
+}
+
+export interface PriorityAdjustment {
+  pinned?: boolean;
+  boost?: number;
+}
+
+export interface PriorityAdjustmentResult {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  previous: { priorityPinnedAt: Date | null; priorityBoost: number };
+  priorityPinnedAt: Date | null;
+  priorityBoost: number;
+}
+
+export interface PriorityScoringService {
+  getPriorityList(stationName?: string | null, config?: PriorityScoringConfig): Promise<ScoredPriorityItem[]>;
+  adjustPriority(orderItemId: string, adjustment: PriorityAdjustment): Promise<PriorityAdjustmentResult>;
+}
+
+/**
+ * Priority scoring weights from the runtime config
+ */
+export function getPriorityScoringConfig(): PriorityScoringConfig {
+  return parsePriorityScoringConfig(useRuntimeConfig().priorityScoring);
+}
+
+export class PriorityScoringServiceImpl implements PriorityScoringService {
+
+  /**
+   * Get the warehouse priority list, scored and ranked
+   * Every open production item is scored so that a rush order is never cut off by the list limit.
+   * @param stationName - Station viewing the list; items waiting for its step are ranked first
+   * @param config - Scoring weights, from the runtime config by default
+   * @returns Up to PRIORITY_LIST_LIMIT items in list order
+   */
+  async getPriorityList(
+    stationName?: string | null,
+    config: PriorityScoringConfig = getPriorityScoringConfig()
+  ): Promise<ScoredPriorityItem[]> {
+    const items = await prisma.orderItem.findMany({
+      where: {
+        itemStatus: { in: PRIORITY_LIST_STATUSES },
+        // Only production items (items that have ProductAttributes)
+        productAttributes: { isNot: null },
+        order: {
+          orderStatus: { notIn: ['CANCELLED', 'ARCHIVED'] },
+          // NO_PRIORITY orders are left off the list
+          priority: { in: ['HIGH', 'MEDIUM', 'LOW'] }
+        }
+      },
+      select: priorityItemSelect
+    });
+
+    const workflows = await workflowService.getWorkflowsForItems(items);
+    const now = new Date();
+
+    const scored = items.map((item): ScoredPriorityItem => {
+      const scoreBreakdown = calculatePriorityScore({
+        priority: item.order.priority,
+        dueDate: item.order.dueDate,
+        orderCreatedAt: item.order.createdAt,
+        customerType: item.order.customer?.type || null,
+        siblingStatuses: item.order.items.filter(sibling => sibling.id !== item.id).map(sibling => sibling.itemStatus),
+        boost: item.priorityBoost
+      }, config, now);
+
+      const workflow = workflows.get(item.id);
+      const [nextStationName] = workflow ? getRemainingStationNames(workflow, item.itemStatus, item.currentStepId) : [];
+
+      return {
+        item,
+        score: scoreBreakdown.total,
+        scoreBreakdown,
+        pinnedAt: item.priorityPinnedAt,
+        nextStationName: nextStationName || null,
+        orderCreatedAt: item.order.createdAt
+      };
+    });
+
+    return rankPriorityItems(scored, stationName).slice(0, PRIORITY_LIST_LIMIT);
+  }
+
+  /**
+   * Pin, unpin or boost an item on the priority list
+   * Pinning an item that is already pinned keeps its place among the pinned items.
+   * @param orderItemId - The order item to adjust
+   * @param adjustment - Whether the item is pinned and/or its boost in score points
+   * @returns The item's adjustment before and after the change
+   */
+  async adjustPriority(orderItemId: string, adjustment: PriorityAdjustment): Promise<PriorityAdjustmentResult> {
+    if (adjustment.pinned === undefined && adjustment.boost === undefined) {
+      throw this.validationError('Nothing to change - give pinned and/or boost');
+    }
+
+    if (adjustment.boost !== undefined
+      && (!Number.isInteger(adjustment.boost) || Math.abs(adjustment.boost) > PRIORITY_BOOST_LIMIT)) {
+      throw this.validationError(`Boost must be a whole number between -${PRIORITY_BOOST_LIMIT} and ${PRIORITY_BOOST_LIMIT}`);
+    }
+
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      select: {
+        id: true,
+        priorityPinnedAt: true,
+        priorityBoost: true,
+        order: { select: { id: true, salesOrderNumber: true } }
+      }
+    });
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    const data: Prisma.OrderItemUpdateInput = {};
+    if (adjustment.pinned !== undefined) {
+      data.priorityPinnedAt = adjustment.pinned ? orderItem.priorityPinnedAt || new Date() : null;
+    }
+    if (adjustment.boost !== undefined) {
+      data.priorityBoost = adjustment.boost;
+    }
+
+    const updated = await prisma.orderItem.update({
+      where: { id: orderItemId },
+      data,
+      select: { priorityPinnedAt: true, priorityBoost: true }
+    });
+
+    return {
+      id: orderItem.id,
+      orderId: orderItem.order.id,
+      orderNumber: orderItem.order.salesOrderNumber,
+      previous: { priorityPinnedAt: orderItem.priorityPinnedAt, priorityBoost: orderItem.priorityBoost },
+      priorityPinnedAt: updated.priorityPinnedAt,
+      priorityBoost: updated.priorityBoost
+    };
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'PriorityAdjustmentValidationError';
+    return error;
+  }
+}
+
+// Export a default instance for convenience
+export const priorityScoringService = new PriorityScoringServiceImpl();
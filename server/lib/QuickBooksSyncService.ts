@@ -0,0 +1,266 @@
+import type { QuickBooksOutboundSync } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { qboApiRequest } from './qbo-client';
+import { QuickBooksLogger } from './quickbooksLogger';
+import { QuickBooksTokenManager } from './quickbooksTokenManager';
+import {
+  QBO_SYNC_MAX_ATTEMPTS,
+  buildInvoiceSyncValues,
+  buildSparseInvoiceUpdate,
+  detectInvoiceConflict,
+  getSyncErrorMessage,
+  getSyncRetryDelayMs,
+  isRetryableSyncError,
+  type InvoiceSyncValues,
+  type PreviousInvoiceSync,
+  type QboInvoice
+} from '../../utils/quickbooksSync';
+
+export interface OutboundSyncSummary {
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+  conflicts: number;
+}
+
+export interface QuickBooksSyncService {
+  enqueueInvoiceSync(orderId: string, reason: string): Promise<QuickBooksOutboundSync | null>;
+  processDueJobs(limit?: number): Promise<OutboundSyncSummary>;
+  retryJob(jobId: string, overwrite: boolean): Promise<QuickBooksOutboundSync>;
+}
+
+type SyncOutcome = 'succeeded' | 'retrying' | 'failed' | 'conflicts';
+
+const LOG_COMPONENT = 'OutboundSync';
+
+// A job still PROCESSING after this long was interrupted by a restart and is picked up again
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const DEFAULT_BATCH_SIZE = 20;
+
+export class QuickBooksSyncServiceImpl implements QuickBooksSyncService {
+
+  /**
+   * Queue a push of the order's ship date, tracking, ship method and production status to its QBO invoice
+   * Orders that did not come from a QBO invoice are skipped. A job that is still waiting to run is reused,
+   * since it reads the order when it runs and will pick up this change too.
+   * @param orderId - The order ID
+   * @param reason - What changed, kept on the job for troubleshooting
+   * @returns The queued job, or null when the order has no invoice
+   */
+  async enqueueInvoiceSync(orderId: string, reason: string): Promise<QuickBooksOutboundSync | null> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { quickbooksOrderId: true }
+    });
+
+    if (!order?.quickbooksOrderId) {
+      return null;
+    }
+
+    const pending = await prisma.quickBooksOutboundSync.findFirst({
+      where: { orderId, status: 'PENDING' },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (pending) {
+      return prisma.quickBooksOutboundSync.update({
+        where: { id: pending.id },
+        data: { reason }
+      });
+    }
+
+    const job = await prisma.quickBooksOutboundSync.create({
+      data: {
+        orderId,
+        quickbooksInvoiceId: order.quickbooksOrderId,
+        reason
+      }
+    });
+
+    QuickBooksLogger.debug(LOG_COMPONENT, `Queued invoice sync for order ${orderId}`, { jobId: job.id, reason });
+    return job;
+  }
+
+  /**
+   * Push every job that is due
+   * Nothing is attempted while QuickBooks is disconnected, so jobs do not burn their retries.
+   * @param limit - Maximum number of jobs to push in this run
+   * @returns Counts of each outcome
+   */
+  async processDueJobs(limit: number = DEFAULT_BATCH_SIZE): Promise<OutboundSyncSummary> {
+    const summary: OutboundSyncSummary = { processed: 0, succeeded: 0, retrying: 0, failed: 0, conflicts: 0 };
+
+    if (!(await QuickBooksTokenManager.isConnected())) {
+      return summary;
+    }
+
+    const now = new Date();
+    await prisma.quickBooksOutboundSync.updateMany({
+      where: { status: 'PROCESSING', updatedAt: { lt: new Date(now.getTime() - PROCESSING_TIMEOUT_MS) } },
+      data: { status: 'PENDING' }
+    });
+
+    const dueJobs = await prisma.quickBooksOutboundSync.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    });
+
+    for (const job of dueJobs) {
+      // Claim the job so an overlapping run on another instance skips it
+      const claimed = await prisma.quickBooksOutboundSync.updateMany({
+        where: { id: job.id, status: 'PENDING' },
+        data: { status: 'PROCESSING', attempts: { increment: 1 } }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const outcome = await this.pushJob({ ...job, attempts: job.attempts + 1 });
+      summary.processed++;
+      summary[outcome]++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Send a failed or conflicting job back to the queue
+   * @param jobId - The sync job ID
+   * @param overwrite - Push even if the invoice was edited in QuickBooks
+   * @returns The re-queued job
+   */
+  async retryJob(jobId: string, overwrite: boolean): Promise<QuickBooksOutboundSync> {
+    const job = await prisma.quickBooksOutboundSync.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error('Sync job not found');
+    }
+
+    if (job.status !== 'FAILED' && job.status !== 'CONFLICT') {
+      const error = new Error('Only failed or conflicting syncs can be retried');
+      error.name = 'QuickBooksSyncValidationError';
+      throw error;
+    }
+
+    QuickBooksLogger.info(LOG_COMPONENT, `Re-queued invoice sync ${jobId}`, { orderId: job.orderId, overwrite });
+
+    return prisma.quickBooksOutboundSync.update({
+      where: { id: jobId },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        forceOverwrite: overwrite,
+        completedAt: null
+      }
+    });
+  }
+
+  /**
+   * Read the invoice, check it for edits made in QuickBooks, then write our fields with its SyncToken
+   * A stale SyncToken means the invoice changed between our read and write, so the job is retried
+   * and the conflict check runs again against the new version.
+   */
+  private async pushJob(job: QuickBooksOutboundSync): Promise<SyncOutcome> {
+    const productionStatusFieldId = useRuntimeConfig().qboOutboundSync?.productionStatusFieldId || null;
+    const context = { jobId: job.id, orderId: job.orderId, invoiceId: job.quickbooksInvoiceId, attempt: job.attempts };
+
+    try {
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: job.orderId },
+        select: {
+          orderStatus: true,
+          shipDate: true,
+          trackingNumber: true,
+          shipments: { select: { carrier: true, serviceName: true, serviceCode: true, status: true, createdAt: true } }
+        }
+      });
+      const values = buildInvoiceSyncValues(order);
+
+      const { Invoice: invoice } = await qboApiRequest<{ Invoice: QboInvoice }>(`invoice/${job.quickbooksInvoiceId}`);
+
+      if (!job.forceOverwrite) {
+        const previous = await this.getPreviousSync(job.orderId);
+        const { conflict, changedFields } = detectInvoiceConflict(invoice, values, previous, productionStatusFieldId);
+
+        if (conflict) {
+          await prisma.quickBooksOutboundSync.update({
+            where: { id: job.id },
+            data: {
+              status: 'CONFLICT',
+              lastError: `Invoice was edited in QuickBooks (${changedFields.join(', ')})`,
+              completedAt: new Date()
+            }
+          });
+          QuickBooksLogger.warn(LOG_COMPONENT, `Invoice ${job.quickbooksInvoiceId} was edited in QuickBooks, sync held for review`, { ...context, changedFields, syncToken: invoice.SyncToken });
+          return 'conflicts';
+        }
+      }
+
+      const update = buildSparseInvoiceUpdate(invoice, values, productionStatusFieldId);
+      const { Invoice: updated } = await qboApiRequest<{ Invoice: QboInvoice }>('invoice', {
+        method: 'POST',
+        body: { ...update }
+      });
+
+      await prisma.quickBooksOutboundSync.update({
+        where: { id: job.id },
+        data: {
+          status: 'SUCCEEDED',
+          syncToken: updated.SyncToken,
+          pushedValues: values,
+          lastError: null,
+          completedAt: new Date()
+        }
+      });
+
+      QuickBooksLogger.info(LOG_COMPONENT, `Updated invoice ${job.quickbooksInvoiceId}`, { ...context, values, syncToken: updated.SyncToken });
+      return 'succeeded';
+    } catch (error) {
+      const message = getSyncErrorMessage(error);
+
+      if (isRetryableSyncError(error) && job.attempts < QBO_SYNC_MAX_ATTEMPTS) {
+        const nextAttemptAt = new Date(Date.now() + getSyncRetryDelayMs(job.attempts));
+        await prisma.quickBooksOutboundSync.update({
+          where: { id: job.id },
+          data: { status: 'PENDING', lastError: message, nextAttemptAt }
+        });
+
+        QuickBooksLogger.warn(LOG_COMPONENT, `Invoice sync failed, retrying at ${nextAttemptAt.toISOString()}`, { ...context, error: message });
+        return 'retrying';
+      }
+
+      await prisma.quickBooksOutboundSync.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', lastError: message, completedAt: new Date() }
+      });
+
+      QuickBooksLogger.error(LOG_COMPONENT, `Invoice sync for order ${job.orderId} failed after ${job.attempts} attempt(s)`, error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * The SyncToken and values from our last successful write to the order's invoice
+   */
+  private async getPreviousSync(orderId: string): Promise<PreviousInvoiceSync | null> {
+    const previous = await prisma.quickBooksOutboundSync.findFirst({
+      where: { orderId, status: 'SUCCEEDED' },
+      orderBy: { completedAt: 'desc' },
+      select: { syncToken: true, pushedValues: true }
+    });
+
+    if (!previous) {
+      return null;
+    }
+
+    return {
+      syncToken: previous.syncToken,
+      pushedValues: previous.pushedValues as Partial<InvoiceSyncValues> | null
+    };
+  }
+}
+
+export const quickBooksSyncService = new QuickBooksSyncServiceImpl();
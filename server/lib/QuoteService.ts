@@ -0,0 +1,686 @@
+import { randomBytes } from 'crypto';
+import { Prisma, type CustomerType, type Estimate, type Order } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { EmailService } from './emailService';
+import { pricingService, type CoverQuote } from './PricingService';
+import { getAttributeColumnData, parseLineDescription } from './DescriptionParsingService';
+import { qboApiRequest } from './qbo-client';
+import { QuickBooksLogger } from './quickbooksLogger';
+import { QuickBooksTokenManager } from './quickbooksTokenManager';
+import { getNextProductNumbers } from '../utils/productNumber';
+import { getCoverAttributes } from '../../utils/materials';
+import {
+  buildCoverDescription,
+  getConfiguredCoverAttributes,
+  validateCoverConfiguration,
+  type CoverConfiguration
+} from '../../utils/coverConfigurator';
+import type { ParsedProductAttributes } from '../../utils/descriptionGrammar';
+import { getSyncErrorMessage, isRetryableSyncError } from '../../utils/quickbooksSync';
+import { renderQuotePdf, type QuoteDocument } from '../../utils/quoteDocument';
+import {
+  OPEN_QUOTE_STATUSES,
+  QUOTE_NUMBER_PREFIX,
+  buildQboEstimate,
+  formatQuoteDate,
+  getNextQuoteNumber,
+  getQuoteExpirationDate,
+  getQuoteExpiresAt,
+  getQuoteTotal,
+  isQuoteDueForReminder,
+  isQuoteExpired,
+  parseQuoteSettings,
+  type QuoteSettings,
+  type QuoteStatus
+} from '../../utils/quotes';
+
+export interface QuoteLineInput {
+  itemId: string;
+  quantity: number;
+  pricePerItem?: number | null; // Priced from the customer's price list when a configured cover leaves it out
+  lineDescription?: string | null;
+  coverConfiguration?: CoverConfiguration | null;
+}
+
+export interface QuoteInput {
+  customerId: string;
+  customerEmail?: string | null;
+  expirationDate?: Date | null;
+  customerMemo?: string | null;
+  items: QuoteLineInput[];
+}
+
+export interface CoverPriceQuote extends CoverQuote {
+  description: string;
+  errors: string[];
+}
+
+export interface CustomerQuoteLine {
+  name: string;
+  description: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+// What the accept page shows; only the quote the token was sent for
+export interface CustomerQuote {
+  quoteNumber: string;
+  customerName: string;
+  status: QuoteStatus;
+  date: Date;
+  expirationDate: Date | null;
+  memo: string | null;
+  lines: CustomerQuoteLine[];
+  total: number;
+  canAccept: boolean;
+}
+
+export interface QuoteReminderSummary {
+  expired: number;
+  reminded: number;
+}
+
+export interface QuoteService {
+  createQuote(input: QuoteInput): Promise<Estimate>;
+  updateQuote(estimateId: string, input: QuoteInput): Promise<Estimate>;
+  priceCover(customerId: string, configuration: CoverConfiguration): Promise<CoverPriceQuote>;
+  sendQuote(estimateId: string, baseUrl: string, settings?: QuoteSettings): Promise<Estimate>;
+  renderPdf(estimateId: string, baseUrl: string): Promise<{ filename: string; pdf: string }>;
+  renderCustomerPdf(token: string, baseUrl: string): Promise<{ filename: string; pdf: string }>;
+  getCustomerQuote(token: string, now?: Date): Promise<CustomerQuote>;
+  acceptQuote(token: string, now?: Date): Promise<Estimate>;
+  convertToOrder(estimateId: string): Promise<Order>;
+  pushToQuickBooks(estimateId: string): Promise<void>;
+  processExpiringQuotes(baseUrl: string, now?: Date, settings?: QuoteSettings): Promise<QuoteReminderSummary>;
+}
+
+const LOG_COMPONENT = 'QuotePush';
+
+const COMPANY_NAME = 'Spacovers';
+
+const quoteInclude = {
+  customer: true,
+  items: {
+    include: { item: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  },
+  linkedOrder: { select: { id: true } }
+} satisfies Prisma.EstimateInclude;
+
+type QuoteRecord = Prisma.EstimateGetPayload<{ include: typeof quoteInclude }>;
+
+interface QboEstimate {
+  Id: string;
+  SyncToken: string;
+  Line: { Id: string; DetailType: string }[];
+}
+
+interface ResolvedLine {
+  itemId: string;
+  quantity: number;
+  pricePerItem: number;
+  lineDescription: string | null;
+  productAttributes: ParsedProductAttributes | null;
+}
+
+function quoteError(name: 'QuoteNotFoundError' | 'QuoteValidationError' | 'QuoteStateError', message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * The quote settings from the runtime config
+ */
+export function getQuoteSettings(): QuoteSettings {
+  return parseQuoteSettings(useRuntimeConfig().quotes);
+}
+
+function formatMoney(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function getAcceptUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/quotes/${encodeURIComponent(token)}`;
+}
+
+export class QuoteServiceImpl implements QuoteService {
+
+  /**
+   * Write a new draft quote for a customer
+   * @throws QuoteValidationError when the customer is missing or a line cannot be priced
+   */
+  async createQuote(input: QuoteInput): Promise<Estimate> {
+    const customer = await this.findCustomer(input.customerId);
+    const lines = await this.resolveLines(customer.type, input.items);
+    const last = await prisma.estimate.findFirst({
+      where: { estimateNumber: { startsWith: QUOTE_NUMBER_PREFIX } },
+      orderBy: { createdAt: 'desc' },
+      select: { estimateNumber: true }
+    });
+
+    return prisma.estimate.create({
+      data: {
+        customerId: customer.id,
+        estimateNumber: getNextQuoteNumber(last?.estimateNumber),
+        status: 'DRAFT',
+        transactionDate: new Date(),
+        expirationDate: input.expirationDate ?? null,
+        customerEmail: input.customerEmail?.trim() || customer.email,
+        customerMemo: input.customerMemo?.trim() || null,
+        totalAmount: getQuoteTotal(lines),
+        items: { create: lines.map((line, position) => this.toItemData(line, position)) }
+      }
+    });
+  }
+
+  /**
+   * Replace a quote's customer details and lines
+   * Only quotes the customer has not accepted can change; lines pushed to QBO before get new line Ids on the next push.
+   * A quote already sent goes back to draft and loses its accept link, so the customer cannot accept terms that
+   * differ from the PDF they were emailed; sending it again emails the new terms with a new link.
+   * @throws QuoteStateError when the quote is accepted or converted
+   */
+  async updateQuote(estimateId: string, input: QuoteInput): Promise<Estimate> {
+    const quote = await this.loadQuote({ id: estimateId });
+    this.assertOpen(quote, 'changed');
+
+    const customer = await this.findCustomer(input.customerId);
+    const lines = await this.resolveLines(customer.type, input.items);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.estimateItem.deleteMany({ where: { estimateId } });
+      return tx.estimate.update({
+        where: { id: estimateId },
+        data: {
+          customerId: customer.id,
+          expirationDate: input.expirationDate ?? null,
+          customerEmail: input.customerEmail?.trim() || customer.email,
+          customerMemo: input.customerMemo?.trim() || null,
+          totalAmount: getQuoteTotal(lines),
+          status: 'DRAFT',
+          acceptToken: null,
+          items: { create: lines.map((line, position) => this.toItemData(line, position)) }
+        }
+      });
+    });
+  }
+
+  /**
+   * Price a configured cover for a customer from the price list in effect today
+   * Invalid configurations come back with their errors and no price instead of throwing, for live pricing in the editor.
+   */
+  async priceCover(customerId: string, configuration: CoverConfiguration): Promise<CoverPriceQuote> {
+    const customer = await this.findCustomer(customerId);
+    const errors = validateCoverConfiguration(configuration);
+    const description = buildCoverDescription(configuration);
+    if (errors.length > 0) {
+      return { priceList: null, price: null, description, errors };
+    }
+
+    const quote = await pricingService.quoteCover(customer.type, getCoverAttributes({ ...getConfiguredCoverAttributes(configuration) }));
+    return { ...quote, description, errors };
+  }
+
+  /**
+   * Email a quote to the customer with its PDF and accept link
+   * Sending again, e.g. after a change, resends it and starts a new validity period when it had expired.
+   * @throws QuoteValidationError when the quote has no lines or no email address
+   */
+  async sendQuote(estimateId: string, baseUrl: string, settings: QuoteSettings = getQuoteSettings()): Promise<Estimate> {
+    const quote = await this.loadQuote({ id: estimateId });
+    this.assertOpen(quote, 'sent');
+    if (quote.items.length === 0) {
+      throw quoteError('QuoteValidationError', 'Add at least one line before sending the quote');
+    }
+    if (!quote.customerEmail) {
+      throw quoteError('QuoteValidationError', 'The quote has no email address to send it to');
+    }
+
+    const now = new Date();
+    const expired = quote.expirationDate && getQuoteExpiresAt(quote.expirationDate) <= now;
+    const expirationDate = !quote.expirationDate || expired ? getQuoteExpirationDate(now, settings) : quote.expirationDate;
+    const acceptToken = quote.acceptToken || randomBytes(32).toString('base64url');
+    const sending = { ...quote, expirationDate, acceptToken };
+
+    await this.emailQuote(sending, baseUrl, false);
+
+    return prisma.estimate.update({
+      where: { id: estimateId },
+      data: {
+        status: 'SENT',
+        sentAt: now,
+        expirationDate,
+        acceptToken,
+        reminderSentAt: null
+      }
+    });
+  }
+
+  /**
+   * Render a quote's PDF for the office
+   */
+  async renderPdf(estimateId: string, baseUrl: string): Promise<{ filename: string; pdf: string }> {
+    const quote = await this.loadQuote({ id: estimateId });
+    return this.toPdf(quote, baseUrl);
+  }
+
+  /**
+   * Render the PDF of the quote an accept link was sent for
+   */
+  async renderCustomerPdf(token: string, baseUrl: string): Promise<{ filename: string; pdf: string }> {
+    const quote = await this.loadQuote({ acceptToken: token });
+    return this.toPdf(quote, baseUrl);
+  }
+
+  /**
+   * The quote an accept link was sent for
+   * @throws QuoteNotFoundError when the token does not match a quote
+   */
+  async getCustomerQuote(token: string, now: Date = new Date()): Promise<CustomerQuote> {
+    const quote = await this.loadQuote({ acceptToken: token });
+
+    return {
+      quoteNumber: this.getQuoteNumber(quote),
+      customerName: quote.customer.name,
+      status: isQuoteExpired(quote, now) ? 'EXPIRED' : quote.status,
+      date: quote.sentAt || quote.transactionDate || quote.createdAt,
+      expirationDate: quote.expirationDate,
+      memo: quote.customerMemo,
+      lines: quote.items.map(line => ({
+        name: line.item.name,
+        description: line.lineDescription,
+        quantity: line.quantity,
+        unitPrice: Number(line.pricePerItem)
+      })),
+      total: Number(quote.totalAmount),
+      canAccept: quote.status === 'SENT' && !isQuoteExpired(quote, now)
+    };
+  }
+
+  /**
+   * Accept a quote from its accept link
+   * Accepting again returns the accepted quote unchanged.
+   * @throws QuoteStateError when the quote has expired or was not sent
+   */
+  async acceptQuote(token: string, now: Date = new Date()): Promise<Estimate> {
+    const quote = await this.loadQuote({ acceptToken: token });
+    if (quote.status === 'ACCEPTED' || quote.status === 'CONVERTED') {
+      return quote;
+    }
+    if (quote.status === 'EXPIRED' || isQuoteExpired(quote, now)) {
+      throw quoteError('QuoteStateError', 'This quote has expired - please contact us for an updated quote');
+    }
+    if (quote.status !== 'SENT') {
+      throw quoteError('QuoteStateError', 'This quote is not open for acceptance');
+    }
+
+    // Guard on the status and link so a quote edited or resent since it was loaded here is not accepted
+    const { count } = await prisma.estimate.updateMany({
+      where: { id: quote.id, status: 'SENT', acceptToken: token },
+      data: { status: 'ACCEPTED', acceptedAt: now }
+    });
+    if (count === 0) {
+      throw quoteError('QuoteStateError', 'This quote changed while you were viewing it - please reload the page');
+    }
+
+    return prisma.estimate.findUniqueOrThrow({ where: { id: quote.id } });
+  }
+
+  /**
+   * Turn a quote into a pending order linked through Order.estimateId
+   * Configured covers keep their attributes; other production lines are parsed from their descriptions.
+   * Attributes still need verifying in the attribute review queue before production.
+   * @throws QuoteStateError when the quote was already converted
+   * @throws QuoteValidationError when the quote has no lines or no email address for the order
+   */
+  async convertToOrder(estimateId: string): Promise<Order> {
+    const quote = await this.loadQuote({ id: estimateId });
+    if (quote.status === 'CONVERTED' || quote.linkedOrder) {
+      throw quoteError('QuoteStateError', 'This quote has already been converted to an order');
+    }
+    if (quote.items.length === 0) {
+      throw quoteError('QuoteValidationError', 'The quote has no lines to put on an order');
+    }
+    const contactEmail = quote.customerEmail || quote.customer.email;
+    if (!contactEmail) {
+      throw quoteError('QuoteValidationError', 'The quote has no email address for the order contact');
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const productNumbers = await getNextProductNumbers(quote.items.length, tx);
+        const customer = quote.customer;
+
+        const order = await tx.order.create({
+          data: {
+            customerId: quote.customerId,
+            estimateId: quote.id,
+            transactionDate: new Date(),
+            totalAmount: quote.totalAmount,
+            customerMemo: quote.customerMemo,
+            contactEmail,
+            contactPhoneNumber: customer.contactNumber,
+            billingAddressLine1: customer.billingAddressLine1,
+            billingAddressLine2: customer.billingAddressLine2,
+            billingCity: customer.billingCity,
+            billingState: customer.billingState,
+            billingZipCode: customer.billingZipCode,
+            billingCountry: customer.billingCountry,
+            shippingAddressLine1: customer.shippingAddressLine1,
+            shippingAddressLine2: customer.shippingAddressLine2,
+            shippingCity: customer.shippingCity,
+            shippingState: customer.shippingState,
+            shippingZipCode: customer.shippingZipCode,
+            shippingCountry: customer.shippingCountry
+          }
+        });
+
+        for (const [index, line] of quote.items.entries()) {
+          const attributes = this.getLineAttributeData(line);
+          await tx.orderItem.create({
+            data: {
+              orderId: order.id,
+              itemId: line.itemId,
+              quantity: line.quantity,
+              pricePerItem: line.pricePerItem,
+              lineDescription: line.lineDescription,
+              isProduct: attributes !== null,
+              productType: attributes ? attributes.productType : null,
+              productNumber: productNumbers[index],
+              itemStatus: 'NOT_STARTED_PRODUCTION',
+              ...(attributes ? { productAttributes: { create: { ...attributes, verified: false } } } : {})
+            }
+          });
+        }
+
+        await tx.estimate.update({ where: { id: quote.id }, data: { status: 'CONVERTED' } });
+        return order;
+      });
+    } catch (error) {
+      // Two people converting at once; Order.estimateId is unique
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw quoteError('QuoteStateError', 'This quote has already been converted to an order');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update the quote's Estimate in QuickBooks
+   * Drafts stay in the app. When QuickBooks is not connected, or the customer or an item is not in QuickBooks, the
+   * reason is recorded on the quote to push again from the quote page.
+   * @throws when QuickBooks returns a retryable error, so the job runs again
+   */
+  async pushToQuickBooks(estimateId: string): Promise<void> {
+    const quote = await this.loadQuote({ id: estimateId });
+    if (quote.status === 'DRAFT') {
+      return;
+    }
+    if (!(await QuickBooksTokenManager.isConnected())) {
+      await this.recordPushError(quote, 'QuickBooks is not connected');
+      return;
+    }
+
+    const missing = [
+      ...(quote.customer.quickbooksCustomerId ? [] : [`customer ${quote.customer.name}`]),
+      ...quote.items.filter(line => !line.item.quickbooksItemId).map(line => `item ${line.item.name}`)
+    ];
+    if (missing.length > 0) {
+      await this.recordPushError(quote, `Not in QuickBooks: ${[...new Set(missing)].join(', ')}`);
+      return;
+    }
+
+    try {
+      // Edits in QuickBooks move the SyncToken on, and the app's quote replaces them
+      let syncToken = quote.quickbooksSyncToken;
+      if (quote.quickbooksEstimateId) {
+        const { Estimate: current } = await qboApiRequest<{ Estimate: QboEstimate }>(`estimate/${quote.quickbooksEstimateId}`);
+        syncToken = current.SyncToken;
+      }
+
+      const { Estimate: saved } = await qboApiRequest<{ Estimate: QboEstimate }>('estimate', {
+        method: 'POST',
+        body: buildQboEstimate({
+          quickbooksEstimateId: quote.quickbooksEstimateId,
+          syncToken,
+          customerQboId: quote.customer.quickbooksCustomerId!,
+          estimateNumber: quote.estimateNumber,
+          transactionDate: quote.transactionDate,
+          expirationDate: quote.expirationDate,
+          customerEmail: quote.customerEmail,
+          customerMemo: quote.customerMemo,
+          status: quote.status,
+          lines: quote.items.map(line => ({
+            quickbooksEstimateLineId: line.quickbooksEstimateLineId,
+            itemQboId: line.item.quickbooksItemId!,
+            lineDescription: line.lineDescription,
+            quantity: line.quantity,
+            pricePerItem: Number(line.pricePerItem)
+          }))
+        })
+      });
+
+      // QBO returns the item lines in the order they were sent, after them the subtotal line
+      const lineIds = saved.Line.filter(line => line.DetailType === 'SalesItemLineDetail').map(line => line.Id);
+      await prisma.$transaction([
+        prisma.estimate.update({
+          where: { id: quote.id },
+          data: {
+            quickbooksEstimateId: saved.Id,
+            quickbooksSyncToken: saved.SyncToken,
+            quickbooksSyncedAt: new Date(),
+            quickbooksSyncError: null
+          }
+        }),
+        ...quote.items
+          .map((line, index) => ({ line, lineId: lineIds[index] }))
+          .filter(({ line, lineId }) => lineId && lineId !== line.quickbooksEstimateLineId)
+          .map(({ line, lineId }) => prisma.estimateItem.update({ where: { id: line.id }, data: { quickbooksEstimateLineId: lineId } }))
+      ]);
+
+      QuickBooksLogger.info(LOG_COMPONENT, `Pushed quote ${this.getQuoteNumber(quote)} as estimate ${saved.Id}`, { estimateId, syncToken: saved.SyncToken });
+    } catch (error) {
+      const message = getSyncErrorMessage(error);
+      await prisma.estimate.update({ where: { id: quote.id }, data: { quickbooksSyncError: message } });
+      if (isRetryableSyncError(error)) {
+        throw error;
+      }
+      QuickBooksLogger.error(LOG_COMPONENT, `Quote ${this.getQuoteNumber(quote)} push failed`, error);
+    }
+  }
+
+  /**
+   * Expire sent quotes past their expiration date and remind customers whose quote expires soon
+   * A reminder that fails to send is tried again on the next run.
+   */
+  async processExpiringQuotes(baseUrl: string, now: Date = new Date(), settings: QuoteSettings = getQuoteSettings()): Promise<QuoteReminderSummary> {
+    // The expiration date is the last day the quote can be accepted
+    const { count: expired } = await prisma.estimate.updateMany({
+      where: { status: 'SENT', expirationDate: { lte: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (settings.reminderDaysBeforeExpiry <= 0) {
+      return { expired, reminded: 0 };
+    }
+
+    const candidates = await prisma.estimate.findMany({
+      where: {
+        status: 'SENT',
+        reminderSentAt: null,
+        customerEmail: { not: null },
+        acceptToken: { not: null },
+        expirationDate: { lte: new Date(now.getTime() + settings.reminderDaysBeforeExpiry * 24 * 60 * 60 * 1000) }
+      },
+      include: quoteInclude
+    });
+
+    let reminded = 0;
+    for (const quote of candidates.filter(candidate => isQuoteDueForReminder(candidate, settings, now))) {
+      // Claim the reminder first so two workers do not both send it
+      const { count } = await prisma.estimate.updateMany({
+        where: { id: quote.id, reminderSentAt: null },
+        data: { reminderSentAt: now }
+      });
+      if (count === 0) continue;
+
+      try {
+        await this.emailQuote(quote, baseUrl, true);
+        reminded++;
+      } catch (error) {
+        console.error(`Failed to send the reminder for quote ${this.getQuoteNumber(quote)}:`, error);
+        await prisma.estimate.update({ where: { id: quote.id }, data: { reminderSentAt: null } });
+      }
+    }
+
+    return { expired, reminded };
+  }
+
+  private async recordPushError(quote: QuoteRecord, message: string): Promise<void> {
+    await prisma.estimate.update({ where: { id: quote.id }, data: { quickbooksSyncError: message } });
+    QuickBooksLogger.warn(LOG_COMPONENT, `Quote ${this.getQuoteNumber(quote)} not pushed`, { estimateId: quote.id, message });
+  }
+
+  private async findCustomer(customerId: string) {
+    const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+    if (!customer) {
+      throw quoteError('QuoteValidationError', 'Customer not found');
+    }
+    return customer;
+  }
+
+  private async loadQuote(where: Prisma.EstimateWhereUniqueInput): Promise<QuoteRecord> {
+    const quote = await prisma.estimate.findUnique({ where, include: quoteInclude });
+    if (!quote) {
+      throw quoteError('QuoteNotFoundError', 'Quote not found');
+    }
+    return quote;
+  }
+
+  private assertOpen(quote: QuoteRecord, action: string): void {
+    if (!OPEN_QUOTE_STATUSES.includes(quote.status) || quote.linkedOrder) {
+      throw quoteError('QuoteStateError', `A quote that is ${quote.status.toLowerCase()} cannot be ${action}`);
+    }
+  }
+
+  /**
+   * Turn the editor's lines into stored lines, writing configured covers' descriptions and pricing them
+   */
+  private async resolveLines(customerType: CustomerType, inputs: QuoteLineInput[]): Promise<ResolvedLine[]> {
+    if (inputs.length === 0) {
+      throw quoteError('QuoteValidationError', 'A quote needs at least one line');
+    }
+
+    const itemIds = [...new Set(inputs.map(input => input.itemId))];
+    const found = await prisma.item.count({ where: { id: { in: itemIds } } });
+    if (found !== itemIds.length) {
+      throw quoteError('QuoteValidationError', 'One or more items were not found');
+    }
+
+    const lines: ResolvedLine[] = [];
+    for (const [index, input] of inputs.entries()) {
+      const label = `Line ${index + 1}`;
+      let lineDescription = input.lineDescription?.trim() || null;
+      let productAttributes: ParsedProductAttributes | null = null;
+      let pricePerItem = input.pricePerItem ?? null;
+
+      if (input.coverConfiguration) {
+        const errors = validateCoverConfiguration(input.coverConfiguration);
+        if (errors.length > 0) {
+          throw quoteError('QuoteValidationError', `${label}: ${errors.join('; ')}`);
+        }
+        lineDescription = buildCoverDescription(input.coverConfiguration);
+        productAttributes = getConfiguredCoverAttributes(input.coverConfiguration);
+
+        if (pricePerItem === null) {
+          const { price } = await pricingService.quoteCover(customerType, getCoverAttributes({ ...productAttributes }));
+          pricePerItem = price?.unitPrice ?? null;
+          if (pricePerItem === null) {
+            throw quoteError('QuoteValidationError', `${label}: no price list price for this cover - enter a price`);
+          }
+        }
+      }
+
+      if (pricePerItem === null || pricePerItem < 0) {
+        throw quoteError('QuoteValidationError', `${label}: enter a price`);
+      }
+
+      lines.push({ itemId: input.itemId, quantity: input.quantity, pricePerItem, lineDescription, productAttributes });
+    }
+
+    return lines;
+  }
+
+  private toItemData(line: ResolvedLine, position: number) {
+    return {
+      itemId: line.itemId,
+      quantity: line.quantity,
+      pricePerItem: line.pricePerItem,
+      lineDescription: line.lineDescription,
+      position,
+      productAttributes: line.productAttributes ? (line.productAttributes as unknown as Prisma.InputJsonObject) : Prisma.JsonNull
+    };
+  }
+
+  /**
+   * ProductAttribute data for an order line, or null when the line does not go to production
+   */
+  private getLineAttributeData(line: QuoteRecord['items'][number]) {
+    if (line.productAttributes && typeof line.productAttributes === 'object') {
+      const attributes = line.productAttributes as unknown as ParsedProductAttributes;
+      return {
+        ...getAttributeColumnData(attributes),
+        productType: attributes.productType === 'COVER_FOR_COVER' ? 'COVER_FOR_COVER' as const : 'SPA_COVER' as const,
+        isParsedFromDescription: false
+      };
+    }
+    if (line.item.isSpacoverProduct && line.lineDescription?.trim()) {
+      const parsed = parseLineDescription(line.lineDescription);
+      return { ...parsed, productType: 'SPA_COVER' as const };
+    }
+    return null;
+  }
+
+  private getQuoteNumber(quote: Pick<Estimate, 'estimateNumber' | 'id'>): string {
+    return quote.estimateNumber || quote.id.slice(-8);
+  }
+
+  private toPdf(quote: QuoteRecord, baseUrl: string): { filename: string; pdf: string } {
+    const quoteNumber = this.getQuoteNumber(quote);
+    return { filename: `Quote-${quoteNumber}.pdf`, pdf: renderQuotePdf(this.toDocument(quote, baseUrl)) };
+  }
+
+  private toDocument(quote: QuoteRecord, baseUrl: string): QuoteDocument {
+    return {
+      companyName: COMPANY_NAME,
+      quoteNumber: this.getQuoteNumber(quote),
+      customerName: quote.customer.name,
+      date: quote.sentAt || quote.transactionDate || quote.createdAt,
+      expirationDate: quote.expirationDate,
+      memo: quote.customerMemo,
+      lines: quote.items.map(line => ({
+        name: line.item.name,
+        description: line.lineDescription,
+        quantity: line.quantity,
+        unitPrice: Number(line.pricePerItem)
+      })),
+      total: Number(quote.totalAmount),
+      acceptUrl: quote.acceptToken ? getAcceptUrl(baseUrl, quote.acceptToken) : null
+    };
+  }
+
+  private async emailQuote(quote: QuoteRecord, baseUrl: string, isReminder: boolean): Promise<void> {
+    const document = this.toDocument(quote, baseUrl);
+    await EmailService.sendQuoteEmail(quote.customerEmail!, {
+      customerName: quote.customer.name,
+      quoteNumber: document.quoteNumber,
+      total: formatMoney(document.total),
+      expirationDate: quote.expirationDate ? formatQuoteDate(quote.expirationDate) : null,
+      acceptUrl: document.acceptUrl!,
+      memo: quote.customerMemo
+    }, renderQuotePdf(document), isReminder);
+  }
+}
+
+export const quoteService = new QuoteServiceImpl();
@@ -0,0 +1,253 @@
+import type { ItemRework, OrderItemProcessingStatus, OrderItemUnit, OrderSystemStatus, ReworkReason } from '@prisma-app/client';
+import { Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { workflowService } from './WorkflowService';
+import { closeProcessingLogPauses } from './productionTimer';
+import { orderItemUnitService } from './OrderItemUnitService';
+import { formatUnitLabel, selectScannedUnit } from '../../utils/orderItemUnits';
+import {
+  getReworkTargets,
+  type WorkflowDefinition,
+  type WorkflowStepDefinition
+} from '../../utils/workflowEngine';
+
+export interface ReworkTargetsResult {
+  workflow: WorkflowDefinition;
+  itemStatus: string;
+  order: { id: string; orderStatus: OrderSystemStatus };
+  // The scanned unit of a multi-quantity order item, null for single items
+  unit: OrderItemUnit | null;
+  unitLabel: string | null;
+  targets: WorkflowStepDefinition[];
+}
+
+export interface ReworkRequest {
+  orderItemId: string;
+  stationId: string;
+  targetPosition: number;
+  // Item part of the scanned barcode, identifies the unit of a multi-quantity order item
+  scannedItemId?: string | null;
+  reason: ReworkReason;
+  notes?: string | null;
+  scrapCost?: number | null;
+  userId: string;
+}
+
+export interface ReworkResult {
+  rework: ItemRework;
+  fromStatus: OrderItemProcessingStatus;
+  toStatus: OrderItemProcessingStatus;
+  targetStep: WorkflowStepDefinition;
+  unitLabel: string | null;
+  // Set when the order was ready to ship and goes back into production
+  orderStatusChange: { fromStatus: OrderSystemStatus; toStatus: OrderSystemStatus } | null;
+}
+
+export interface ReworkService {
+  getReworkTargets(orderItemId: string, scannedItemId?: string | null): Promise<ReworkTargetsResult>;
+  reworkItem(request: ReworkRequest): Promise<ReworkResult>;
+}
+
+// Orders whose items have left the building (or never will) can no longer be sent back
+const CLOSED_ORDER_STATUSES: OrderSystemStatus[] = ['SHIPPED', 'COMPLETED', 'CANCELLED', 'ARCHIVED'];
+
+function reworkValidationError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'ReworkValidationError';
+  return error;
+}
+
+export class ReworkServiceImpl implements ReworkService {
+
+  /**
+   * Get the earlier workflow steps an order item can be sent back to
+   * Items on shipped or closed orders have none. On a multi-quantity order item the targets
+   * are those of the scanned unit.
+   * @param orderItemId - The order item ID
+   * @param scannedItemId - Item part of the scanned barcode
+   * @returns The item's workflow, its current status and the allowed rework targets
+   */
+  async getReworkTargets(orderItemId: string, scannedItemId?: string | null): Promise<ReworkTargetsResult> {
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      select: {
+        itemStatus: true,
+        currentStepId: true,
+        order: { select: { id: true, orderStatus: true } },
+        units: true
+      }
+    });
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    const { units } = orderItem;
+    const unit: OrderItemUnit | null = selectScannedUnit(units, scannedItemId);
+    const scanned = unit || orderItem;
+    const workflow = await workflowService.getWorkflowForItem(orderItemId);
+
+    return {
+      workflow,
+      itemStatus: scanned.itemStatus,
+      order: orderItem.order,
+      unit,
+      unitLabel: unit ? formatUnitLabel(unit.unitNumber, units.length) : null,
+      targets: CLOSED_ORDER_STATUSES.includes(orderItem.order.orderStatus)
+        ? []
+        : getReworkTargets(workflow, scanned.itemStatus, scanned.currentStepId)
+    };
+  }
+
+  /**
+   * Reject an order item and send it back to an earlier workflow step
+   * Open processing logs are closed, the item's status and step are reset and the rework is recorded
+   * against the user and station that last worked the target step, so rework rates can be reported per sewer/station.
+   * On a multi-quantity order item only the scanned unit goes back and the line reports its least advanced unit.
+   * An order that was ready to ship goes back into production.
+   * @param request - The rework details
+   * @returns The recorded rework and the status change
+   */
+  async reworkItem(request: ReworkRequest): Promise<ReworkResult> {
+    // Multi-quantity lines that have not been split into units yet are split before one is sent back
+    await prisma.$transaction(tx => orderItemUnitService.syncUnits(request.orderItemId, tx));
+
+    const { workflow, itemStatus, order, unit, unitLabel, targets } = await this.getReworkTargets(request.orderItemId, request.scannedItemId);
+
+    if (CLOSED_ORDER_STATUSES.includes(order.orderStatus)) {
+      throw reworkValidationError('Items on shipped or closed orders cannot be sent back for rework');
+    }
+
+    const targetStep = targets.find(step => step.position === request.targetPosition);
+
+    if (!targetStep) {
+      throw reworkValidationError(targets.length === 0
+        ? 'This item has not passed any step it can be sent back to'
+        : `Step ${request.targetPosition} is not an earlier step of the ${workflow.name} workflow`);
+    }
+
+    // Work logged before the line was split into units has no unit
+    const unitFilter = unit ? { OR: [{ unitId: unit.id }, { unitId: null }] } : {};
+
+    const [reportedAtStation, responsibleLog] = await Promise.all([
+      prisma.station.findUnique({ where: { id: request.stationId }, select: { id: true, name: true } }),
+      prisma.itemProcessingLog.findFirst({
+        where: {
+          orderItemId: request.orderItemId,
+          ...unitFilter,
+          station: { name: targetStep.stationName }
+        },
+        orderBy: { startTime: 'desc' },
+        select: { userId: true, stationId: true }
+      })
+    ]);
+
+    if (!reportedAtStation) {
+      throw reworkValidationError('Station not found');
+    }
+
+    const fromStatus = itemStatus as OrderItemProcessingStatus;
+    const toStatus = targetStep.itemStatus as OrderItemProcessingStatus;
+    const reasonSummary = `Rework (${request.reason}) reported at ${reportedAtStation.name} - sent back to ${targetStep.name}`;
+    const orderStatusChange = order.orderStatus === 'READY_TO_SHIP'
+      ? { fromStatus: order.orderStatus, toStatus: 'ORDER_PROCESSING' as OrderSystemStatus }
+      : null;
+
+    const rework = await prisma.$transaction(async (tx) => {
+      // Close any work in progress - the item leaves the current step
+      const openLogs = await tx.itemProcessingLog.findMany({
+        where: { orderItemId: request.orderItemId, ...unitFilter, endTime: null }
+      });
+      const endTime = new Date();
+      for (const log of openLogs) {
+        await tx.itemProcessingLog.update({
+          where: { id: log.id },
+          data: {
+            endTime,
+            durationInSeconds: await closeProcessingLogPauses(tx, log, endTime),
+            notes: `${log.notes || ''} - Ended by rework at ${endTime.toISOString()}`
+          }
+        });
+      }
+
+      if (unit) {
+        await tx.orderItemUnit.update({
+          where: { id: unit.id },
+          data: { itemStatus: toStatus, currentStepId: targetStep.id || null }
+        });
+        await tx.orderItem.update({
+          where: { id: request.orderItemId },
+          data: {
+            reworkCount: { increment: 1 },
+            ...(workflow.id ? { workflowId: workflow.id } : {})
+          }
+        });
+        await orderItemUnitService.rollUpItemStatus(request.orderItemId, tx);
+      } else {
+        await tx.orderItem.update({
+          where: { id: request.orderItemId },
+          data: {
+            itemStatus: toStatus,
+            currentStepId: targetStep.id || null,
+            reworkCount: { increment: 1 },
+            ...(workflow.id ? { workflowId: workflow.id } : {})
+          }
+        });
+      }
+
+      await tx.itemStatusLog.create({
+        data: {
+          orderItemId: request.orderItemId,
+          unitId: unit?.id || null,
+          fromStatus,
+          toStatus,
+          userId: request.userId,
+          changeReason: reasonSummary,
+          triggeredBy: 'rework',
+          notes: request.notes || null
+        }
+      });
+
+      // The order is no longer complete, so it must not be shipped until the item is finished again
+      if (orderStatusChange) {
+        await tx.order.update({
+          where: { id: order.id },
+          data: { orderStatus: orderStatusChange.toStatus, readyToShipAt: null }
+        });
+        await tx.orderStatusLog.create({
+          data: {
+            orderId: order.id,
+            fromStatus: orderStatusChange.fromStatus,
+            toStatus: orderStatusChange.toStatus,
+            userId: request.userId,
+            changeReason: `Item sent back to ${targetStep.name} for rework`,
+            triggeredBy: 'rework',
+            timestamp: endTime
+          }
+        });
+      }
+
+      return tx.itemRework.create({
+        data: {
+          orderItemId: request.orderItemId,
+          unitId: unit?.id || null,
+          reason: request.reason,
+          notes: request.notes || null,
+          fromStatus,
+          toStatus,
+          toStepName: targetStep.name,
+          scrapCost: request.scrapCost != null ? new Prisma.Decimal(request.scrapCost) : null,
+          reportedAtStationId: reportedAtStation.id,
+          reportedById: request.userId,
+          responsibleStationId: responsibleLog?.stationId || null,
+          responsibleUserId: responsibleLog?.userId || null
+        }
+      });
+    });
+
+    return { rework, fromStatus, toStatus, targetStep, unitLabel, orderStatusChange };
+  }
+}
+
+// Export a default instance for convenience
+export const reworkService = new ReworkServiceImpl();
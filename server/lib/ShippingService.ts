@@ -0,0 +1,447 @@
+import type { Shipment, ShipmentStatus } from '@prisma-app/client';
+import { Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { EmailService } from './emailService';
+import { quickBooksSyncService } from './QuickBooksSyncService';
+import {
+  getCarrierAdapter,
+  getConfiguredCarriers,
+  getShipFromAddress,
+  type CarrierRate,
+  type ShipmentRequest,
+  type ShippingAddress
+} from './shipping';
+import { eventEmitter } from '../utils/eventEmitter';
+import { estimateOrderPackages, type ShippingPackageDimensions } from '../../utils/shippingPackages';
+
+export type OrderPackage = ShippingPackageDimensions & { orderItemIds: string[] };
+
+export interface ShippingRatesResult {
+  packages: OrderPackage[];
+  rates: CarrierRate[];
+  errors: Array<{ carrier: string; message: string }>;
+}
+
+export interface CreateShipmentOptions {
+  carrier: string;
+  serviceCode: string;
+  packages?: OrderPackage[];
+}
+
+export interface TrackingSyncSummary {
+  checked: number;
+  updated: number;
+  ordersShipped: number;
+  errors: Array<{ shipmentId: string; message: string }>;
+}
+
+export interface ShippingService {
+  getPackagesForOrder(orderId: string): Promise<OrderPackage[]>;
+  getRates(orderId: string, packages?: OrderPackage[]): Promise<ShippingRatesResult>;
+  createShipment(orderId: string, options: CreateShipmentOptions, userId: string): Promise<Shipment>;
+  voidShipment(shipmentId: string): Promise<Shipment>;
+  syncTracking(shipmentId: string): Promise<{ shipment: Shipment; orderShipped: boolean }>;
+  syncOpenShipments(): Promise<TrackingSyncSummary>;
+  handleOrderShipped(orderId: string): Promise<void>;
+}
+
+// Shipments whose tracking still needs to be polled
+const OPEN_SHIPMENT_STATUSES: ShipmentStatus[] = ['LABEL_CREATED', 'IN_TRANSIT', 'EXCEPTION'];
+
+export class ShippingServiceImpl implements ShippingService {
+
+  /**
+   * Estimate the packages for an order's production items from their size/shape attributes
+   * @param orderId - The order ID
+   * @returns One package per production unit
+   */
+  async getPackagesForOrder(orderId: string): Promise<OrderPackage[]> {
+    const items = await prisma.orderItem.findMany({
+      where: { orderId, isProduct: true },
+      include: { productAttributes: true }
+    });
+
+    return estimateOrderPackages(items.map(item => ({
+      id: item.id,
+      quantity: item.quantity,
+      size: item.productAttributes?.size || item.size,
+      shape: item.productAttributes?.shape || item.shape,
+      length: item.productAttributes?.length,
+      width: item.productAttributes?.width,
+      productType: item.productAttributes?.productType || item.productType,
+      foamUpgrade: item.productAttributes?.foamUpgrade || item.foamUpgrade
+    })));
+  }
+
+  /**
+   * Rate-shop every configured carrier for an order
+   * Carriers that fail are reported in errors so one outage doesn't hide the other rates.
+   * @param orderId - The order ID
+   * @param packages - Optional package overrides (defaults to the estimated packages)
+   * @returns The packages used and all rates sorted by price
+   */
+  async getRates(orderId: string, packages?: OrderPackage[]): Promise<ShippingRatesResult> {
+    const request = await this.buildShipmentRequest(orderId, packages);
+    const carriers = getConfiguredCarriers();
+
+    if (carriers.length === 0) {
+      throw this.validationError('No shipping carriers are configured');
+    }
+
+    const results = await Promise.allSettled(carriers.map(carrier => carrier.getRates(request)));
+
+    const rates: CarrierRate[] = [];
+    const errors: ShippingRatesResult['errors'] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        rates.push(...result.value);
+      } else {
+        console.error(`Rate request failed for ${carriers[index].code}:`, result.reason);
+        errors.push({ carrier: carriers[index].code, message: result.reason?.message || 'Rate request failed' });
+      }
+    });
+
+    rates.sort((a, b) => a.amount - b.amount);
+
+    return { packages: request.packages as OrderPackage[], rates, errors };
+  }
+
+  /**
+   * Buy a label for an order and store it
+   * The master tracking number is copied to the order so the existing tracking email and order views pick it up.
+   * If the shipment cannot be stored, the label is voided with the carrier so it is not paid for without a record.
+   * @param orderId - The order ID
+   * @param options - Carrier, service and optional package overrides
+   * @param userId - The user buying the label
+   * @returns The created shipment
+   */
+  async createShipment(orderId: string, options: CreateShipmentOptions, userId: string): Promise<Shipment> {
+    const carrier = getCarrierAdapter(options.carrier);
+    if (!carrier || !carrier.isConfigured()) {
+      throw this.validationError(`Carrier ${options.carrier} is not available`);
+    }
+
+    const request = await this.buildShipmentRequest(orderId, options.packages);
+    const rate = (await carrier.getRates(request)).find(r => r.serviceCode === options.serviceCode);
+    const label = await carrier.createLabel(request, options.serviceCode);
+    const packages = request.packages as OrderPackage[];
+
+    const created = await prisma.$transaction(async (tx) => {
+      const shipment = await tx.shipment.create({
+        data: {
+          orderId,
+          carrier: carrier.code,
+          serviceCode: options.serviceCode,
+          serviceName: rate?.serviceName || options.serviceCode,
+          trackingNumber: label.trackingNumber,
+          rateAmount: label.amount ?? rate?.amount ?? null,
+          currency: label.currency || rate?.currency || 'USD',
+          estimatedDelivery: rate?.estimatedDelivery || null,
+          createdById: userId,
+          packages: {
+            create: packages.map((pkg, index) => ({
+              sequence: index + 1,
+              trackingNumber: label.packages[index]?.trackingNumber || null,
+              lengthIn: new Prisma.Decimal(pkg.lengthIn),
+              widthIn: new Prisma.Decimal(pkg.widthIn),
+              heightIn: new Prisma.Decimal(pkg.heightIn),
+              weightLb: new Prisma.Decimal(pkg.weightLb),
+              orderItemIds: pkg.orderItemIds || [],
+              labelFormat: label.packages[index]?.labelFormat || 'PDF',
+              labelData: label.packages[index]?.labelData ? new Uint8Array(label.packages[index].labelData!) : null
+            }))
+          }
+        }
+      });
+
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          trackingNumber: label.trackingNumber,
+          shipDate: new Date()
+        }
+      });
+
+      return shipment;
+    }).catch(async (error) => {
+      await carrier.voidLabel(label.trackingNumber).catch((voidError) => {
+        console.error(`Failed to void ${carrier.code} label ${label.trackingNumber} after the shipment could not be saved:`, voidError);
+      });
+      throw error;
+    });
+
+    await this.queueInvoiceSync(orderId, 'shipment:created');
+    return created;
+  }
+
+  /**
+   * Void a shipment's label with the carrier
+   * The order's tracking number is cleared if it still points at this shipment.
+   * @param shipmentId - The shipment ID
+   * @returns The voided shipment
+   */
+  async voidShipment(shipmentId: string): Promise<Shipment> {
+    const shipment = await prisma.shipment.findUnique({ where: { id: shipmentId }, include: { order: true } });
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    if (shipment.status !== 'LABEL_CREATED') {
+      throw this.validationError('Only labels that have not been picked up yet can be voided');
+    }
+
+    const carrier = getCarrierAdapter(shipment.carrier);
+    if (!carrier) {
+      throw this.validationError(`Carrier ${shipment.carrier} is not available`);
+    }
+
+    await carrier.voidLabel(shipment.trackingNumber);
+
+    const voided = await prisma.$transaction(async (tx) => {
+      if (shipment.order.trackingNumber === shipment.trackingNumber) {
+        await tx.order.update({
+          where: { id: shipment.orderId },
+          data: { trackingNumber: null, shipDate: null }
+        });
+      }
+
+      return tx.shipment.update({
+        where: { id: shipmentId },
+        data: { status: 'VOIDED', voidedAt: new Date() }
+      });
+    });
+
+    await this.queueInvoiceSync(shipment.orderId, 'shipment:voided');
+    return voided;
+  }
+
+  /**
+   * Pull the latest tracking status for a shipment from its carrier
+   * The first carrier scan moves a READY_TO_SHIP order to SHIPPED, which sends the tracking email.
+   * @param shipmentId - The shipment ID
+   * @returns The updated shipment and whether the order was marked shipped
+   */
+  async syncTracking(shipmentId: string): Promise<{ shipment: Shipment; orderShipped: boolean }> {
+    const shipment = await prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { order: true }
+    });
+
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    const carrier = getCarrierAdapter(shipment.carrier);
+    if (!carrier || !carrier.isConfigured()) {
+      throw this.validationError(`Carrier ${shipment.carrier} is not available`);
+    }
+
+    const tracking = await carrier.getTracking(shipment.trackingNumber);
+
+    const updated = await prisma.shipment.update({
+      where: { id: shipmentId },
+      data: {
+        status: tracking.status,
+        trackingStatus: tracking.description,
+        estimatedDelivery: tracking.estimatedDelivery ?? shipment.estimatedDelivery,
+        deliveredAt: tracking.deliveredAt ?? (tracking.status === 'DELIVERED' ? new Date() : null),
+        lastTrackedAt: new Date()
+      }
+    });
+
+    const pickedUp = tracking.status === 'IN_TRANSIT' || tracking.status === 'DELIVERED';
+    let orderShipped = false;
+
+    if (pickedUp && shipment.order.orderStatus === 'READY_TO_SHIP') {
+      await prisma.order.update({
+        where: { id: shipment.orderId },
+        data: { orderStatus: 'SHIPPED' }
+      });
+
+      try {
+        await prisma.orderStatusLog.create({
+          data: {
+            orderId: shipment.orderId,
+            fromStatus: 'READY_TO_SHIP',
+            toStatus: 'SHIPPED',
+            userId: null,
+            changeReason: `Picked up by ${carrier.name}`,
+            triggeredBy: 'system',
+            notes: `Tracking ${shipment.trackingNumber}: ${tracking.description}`
+          }
+        });
+      } catch (logError) {
+        console.error('Failed to create OrderStatusLog for carrier pickup:', logError);
+      }
+
+      eventEmitter.emitOrderStatusChange({
+        orderId: shipment.orderId,
+        fromStatus: 'READY_TO_SHIP',
+        toStatus: 'SHIPPED',
+        customerId: shipment.order.customerId,
+        orderNumber: shipment.order.salesOrderNumber || shipment.orderId.slice(-8),
+        timestamp: new Date()
+      });
+
+      await this.handleOrderShipped(shipment.orderId);
+      orderShipped = true;
+    }
+
+    return { shipment: updated, orderShipped };
+  }
+
+  /**
+   * Sync tracking for every shipment that hasn't been delivered or voided
+   * @returns Counts of shipments checked/updated and any carrier errors
+   */
+  async syncOpenShipments(): Promise<TrackingSyncSummary> {
+    const shipments = await prisma.shipment.findMany({
+      where: { status: { in: OPEN_SHIPMENT_STATUSES } },
+      select: { id: true, status: true, carrier: true }
+    });
+
+    const summary: TrackingSyncSummary = { checked: 0, updated: 0, ordersShipped: 0, errors: [] };
+    const configuredCodes = new Set(getConfiguredCarriers().map(carrier => carrier.code));
+
+    for (const shipment of shipments) {
+      if (!configuredCodes.has(shipment.carrier)) {
+        continue;
+      }
+
+      summary.checked++;
+      try {
+        const result = await this.syncTracking(shipment.id);
+        if (result.shipment.status !== shipment.status) {
+          summary.updated++;
+        }
+        if (result.orderShipped) {
+          summary.ordersShipped++;
+        }
+      } catch (error) {
+        summary.errors.push({
+          shipmentId: shipment.id,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Run the side effects of an order reaching SHIPPED
+   * Stamps shippedAt and sends the tracking email once per order (the Send Tracking button can resend it).
+   * @param orderId - The order ID
+   */
+  async handleOrderShipped(orderId: string): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { shippedAt: true, trackingNumber: true }
+    });
+
+    if (!order) {
+      return;
+    }
+
+    if (!order.shippedAt) {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { shippedAt: new Date() }
+      });
+    }
+
+    if (!order.trackingNumber) {
+      console.log(`Order ${orderId} shipped without a tracking number - skipping tracking email`);
+      return;
+    }
+
+    const alreadySent = await prisma.emailNotification.findFirst({
+      where: { orderId, emailType: 'tracking_info', sentAt: { not: null } },
+      select: { id: true }
+    });
+
+    if (alreadySent) {
+      return;
+    }
+
+    try {
+      await EmailService.sendTrackingEmail(orderId, order.trackingNumber);
+    } catch (emailError) {
+      // Failures are logged as EmailNotification rows by EmailService - don't fail the status change
+      console.error(`Failed to send tracking email for order ${orderId}:`, emailError);
+    }
+  }
+
+  private async buildShipmentRequest(orderId: string, packages?: OrderPackage[]): Promise<ShipmentRequest> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { customer: { select: { name: true } } }
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const shipTo: ShippingAddress = {
+      name: order.customer?.name || 'Customer',
+      phone: order.contactPhoneNumber,
+      email: order.contactEmail,
+      addressLine1: order.shippingAddressLine1 || '',
+      addressLine2: order.shippingAddressLine2,
+      city: order.shippingCity || '',
+      state: order.shippingState || '',
+      zipCode: order.shippingZipCode || '',
+      country: normalizeCountryCode(order.shippingCountry)
+    };
+
+    if (!shipTo.addressLine1 || !shipTo.city || !shipTo.state || !shipTo.zipCode) {
+      throw this.validationError('The order shipping address is incomplete');
+    }
+
+    const shipFrom = getShipFromAddress();
+    if (!shipFrom.addressLine1 || !shipFrom.zipCode) {
+      throw this.validationError('The ship-from address is not configured');
+    }
+
+    const orderPackages = packages && packages.length > 0 ? packages : await this.getPackagesForOrder(orderId);
+    if (orderPackages.length === 0) {
+      throw this.validationError('This order has no production items to ship');
+    }
+
+    return {
+      reference: order.salesOrderNumber || order.id.slice(-8),
+      shipFrom,
+      shipTo,
+      packages: orderPackages
+    };
+  }
+
+  /**
+   * Queue the QBO invoice update for a shipment change; a queue failure must not fail the shipment
+   */
+  private async queueInvoiceSync(orderId: string, reason: string): Promise<void> {
+    try {
+      await quickBooksSyncService.enqueueInvoiceSync(orderId, reason);
+    } catch (error) {
+      console.error(`Failed to queue QuickBooks invoice sync for order ${orderId}:`, error);
+    }
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'ShippingValidationError';
+    return error;
+  }
+}
+
+function normalizeCountryCode(country?: string | null): string {
+  if (!country) return 'US';
+  const value = country.trim().toUpperCase();
+  if (['USA', 'UNITED STATES', 'UNITED STATES OF AMERICA', 'US'].includes(value)) return 'US';
+  if (['CANADA', 'CA'].includes(value)) return 'CA';
+  return value.length === 2 ? value : 'US';
+}
+
+// Export a default instance for convenience
+export const shippingService = new ShippingServiceImpl();
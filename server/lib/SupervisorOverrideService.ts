@@ -0,0 +1,406 @@
+import type { OrderItemProcessingStatus, OrderItemUnit, OrderSystemStatus, Prisma } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import { workflowService } from './WorkflowService';
+import { kioskOperatorService, type KioskOperator } from './KioskOperatorService';
+import { orderItemUnitService } from './OrderItemUnitService';
+import { closeProcessingLogPauses } from './productionTimer';
+import { hasPermission } from '../../utils/permissions';
+import { formatUnitLabel, selectScannedUnit } from '../../utils/orderItemUnits';
+import {
+  getStationTransitions,
+  WORKFLOW_COMPLETE_STATUS,
+  type WorkflowDefinition,
+  type WorkflowTransition
+} from '../../utils/workflowEngine';
+import {
+  isOverrideAuditDetails,
+  OVERRIDE_REASON_MIN_LENGTH,
+  summarizeOverridesByStation,
+  SUPERVISOR_OVERRIDE_AUDIT_ACTION,
+  SUPERVISOR_OVERRIDE_PERMISSION,
+  SUPERVISOR_OVERRIDE_TRIGGER,
+  type OverrideAuditDetails,
+  type OverrideRecord,
+  type OverrideStationSummary
+} from '../../utils/supervisorOverrides';
+
+export interface OverrideOptions {
+  workflow: WorkflowDefinition;
+  itemStatus: string;
+  unitLabel: string | null;
+  transitions: WorkflowTransition[];
+}
+
+export interface OverrideRequest {
+  orderItemId: string;
+  scannedItemId?: string | null; // Item part of the scanned barcode - picks the unit of multi-quantity items
+  stationId: string;
+  stepPosition: number; // Workflow step of the station the override completes
+  reason: string;
+  operatorId: string; // Who made the blocked scan
+  supervisorBadge: string;
+  supervisorPin: string;
+  ipAddress?: string | null;
+}
+
+export interface OrderStatusChange {
+  fromStatus: OrderSystemStatus;
+  toStatus: OrderSystemStatus;
+}
+
+export interface OverrideResult {
+  supervisor: KioskOperator;
+  operator: { id: string; name: string };
+  station: { id: string; name: string };
+  transition: WorkflowTransition;
+  fromStatus: OrderItemProcessingStatus;
+  toStatus: OrderItemProcessingStatus;
+  lineStatus: OrderItemProcessingStatus; // Order item status after the override (its least advanced unit)
+  unitId: string | null;
+  unitLabel: string | null;
+  orderStatusChanges: OrderStatusChange[];
+  statusLogId: string;
+}
+
+export interface OverrideReport {
+  overrides: OverrideRecord[];
+  stations: OverrideStationSummary[];
+}
+
+export interface SupervisorOverrideService {
+  getOverrideOptions(orderItemId: string, stationName: string, scannedItemId?: string | null): Promise<OverrideOptions>;
+  authorizeSupervisor(badgeCode: string, pin: string): Promise<KioskOperator>;
+  overrideTransition(request: OverrideRequest): Promise<OverrideResult>;
+  getOverrideReport(startDate: Date, endDate: Date): Promise<OverrideReport>;
+}
+
+export class SupervisorOverrideServiceImpl implements SupervisorOverrideService {
+
+  /**
+   * Get the steps of a station a supervisor can force for an item whose scan was blocked
+   * @param orderItemId - The order item ID
+   * @param stationName - Station the item was scanned at
+   * @param scannedItemId - Item part of the scanned barcode
+   * @returns The item's workflow, the status of the scanned unit (or item) and the transitions it can be forced through
+   */
+  async getOverrideOptions(orderItemId: string, stationName: string, scannedItemId?: string | null): Promise<OverrideOptions> {
+    const { scanned, unitLabel } = await this.loadScannedItem(orderItemId, scannedItemId);
+    const workflow = await workflowService.getWorkflowForItem(orderItemId);
+
+    return {
+      workflow,
+      itemStatus: scanned.itemStatus,
+      unitLabel,
+      transitions: getStationTransitions(workflow, stationName, scanned.itemStatus)
+        .filter(transition => transition.toStatus !== scanned.itemStatus)
+    };
+  }
+
+  /**
+   * Check a supervisor's badge and PIN, and that one of their roles may approve overrides
+   * @throws Error named 'SupervisorPermissionError' when the badge holder may not approve overrides
+   */
+  async authorizeSupervisor(badgeCode: string, pin: string): Promise<KioskOperator> {
+    const supervisor = await kioskOperatorService.verifyPin(badgeCode, pin);
+
+    const user = await prisma.user.findUnique({
+      where: { id: supervisor.id },
+      include: {
+        roles: {
+          include: {
+            role: {
+              include: {
+                roleType: { select: { name: true } },
+                permissions: { include: { permission: { select: { action: true, subject: true } } } }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    const roles = (user?.roles || []).map(({ role }) => ({ role: { ...role, roleType: role.roleType || undefined } }));
+    if (!user || !hasPermission({ id: user.id, email: user.email, name: user.name, roles }, SUPERVISOR_OVERRIDE_PERMISSION.action, SUPERVISOR_OVERRIDE_PERMISSION.subject)) {
+      const error = new Error(`${supervisor.name} is not allowed to approve overrides`);
+      error.name = 'SupervisorPermissionError';
+      throw error;
+    }
+
+    return supervisor;
+  }
+
+  /**
+   * Force a blocked scan through the workflow on a supervisor's authority
+   * Work in progress on the item is closed and work at the station starts, as a normal scan would. The change
+   * is logged in the item status log against the operator with the supervisor as approver, and in the audit
+   * log against the supervisor, in the same transaction so an override is never left unrecorded.
+   * @param request - The override details
+   * @returns The status change, and any order status changes it caused
+   */
+  async overrideTransition(request: OverrideRequest): Promise<OverrideResult> {
+    const reason = request.reason.trim();
+    if (reason.length < OVERRIDE_REASON_MIN_LENGTH) {
+      throw this.validationError('Give a reason for the override');
+    }
+
+    const [station, operator] = await Promise.all([
+      prisma.station.findUnique({ where: { id: request.stationId }, select: { id: true, name: true } }),
+      prisma.user.findUnique({ where: { id: request.operatorId }, select: { id: true, name: true } })
+    ]);
+
+    if (!station) {
+      throw this.validationError('Station not found');
+    }
+    if (!operator) {
+      throw new Error('User not found');
+    }
+
+    const supervisor = await this.authorizeSupervisor(request.supervisorBadge, request.supervisorPin);
+
+    const { orderItem, unit, scanned, unitLabel } = await this.loadScannedItem(request.orderItemId, request.scannedItemId);
+    const workflow = await workflowService.getWorkflowForItem(request.orderItemId);
+    const transition = getStationTransitions(workflow, station.name, scanned.itemStatus)
+      .find(candidate => candidate.fromStep.position === request.stepPosition);
+
+    if (!transition) {
+      throw this.validationError(`Step ${request.stepPosition} of the ${workflow.name} workflow is not worked at the ${station.name} station`);
+    }
+    if (transition.toStatus === scanned.itemStatus) {
+      throw this.validationError(`The item is already at ${transition.toStep?.name || transition.toStatus}`);
+    }
+
+    const fromStatus = scanned.itemStatus as OrderItemProcessingStatus;
+    const toStatus = transition.toStatus as OrderItemProcessingStatus;
+    const now = new Date();
+
+    const details: OverrideAuditDetails = {
+      orderItemId: orderItem.id,
+      unitId: unit?.id || null,
+      unitLabel,
+      stationId: station.id,
+      stationName: station.name,
+      stepName: transition.fromStep.name,
+      fromStatus,
+      toStatus,
+      reason,
+      operator,
+      supervisor: { id: supervisor.id, name: supervisor.name }
+    };
+
+    return prisma.$transaction(async (tx) => {
+      // Close work in progress on the item, as the scan would have
+      const openLogs = await tx.itemProcessingLog.findMany({
+        where: {
+          orderItemId: orderItem.id,
+          ...(unit ? { OR: [{ unitId: unit.id }, { unitId: null }] } : {}),
+          endTime: null
+        }
+      });
+      for (const log of openLogs) {
+        await tx.itemProcessingLog.update({
+          where: { id: log.id },
+          data: {
+            endTime: now,
+            durationInSeconds: await closeProcessingLogPauses(tx, log, now),
+            notes: `${log.notes || ''} - Completed at ${now.toISOString()} (supervisor override)`
+          }
+        });
+      }
+
+      let lineStatus = toStatus;
+      if (unit) {
+        await tx.orderItemUnit.update({
+          where: { id: unit.id },
+          data: { itemStatus: toStatus, currentStepId: transition.toStep?.id || null }
+        });
+        if (workflow.id) {
+          await tx.orderItem.update({ where: { id: orderItem.id }, data: { workflowId: workflow.id } });
+        }
+        const rolledUp = await orderItemUnitService.rollUpItemStatus(orderItem.id, tx);
+        lineStatus = (rolledUp?.itemStatus || toStatus) as OrderItemProcessingStatus;
+      } else {
+        await tx.orderItem.update({
+          where: { id: orderItem.id },
+          data: {
+            itemStatus: toStatus,
+            currentStepId: transition.toStep?.id || null,
+            ...(workflow.id ? { workflowId: workflow.id } : {})
+          }
+        });
+      }
+
+      const statusLog = await tx.itemStatusLog.create({
+        data: {
+          orderItemId: orderItem.id,
+          unitId: unit?.id || null,
+          fromStatus,
+          toStatus,
+          userId: operator.id,
+          approvedById: supervisor.id,
+          changeReason: `Supervisor override at ${station.name} station`,
+          triggeredBy: SUPERVISOR_OVERRIDE_TRIGGER,
+          timestamp: now,
+          notes: `${transition.fromStep.name} forced by ${supervisor.name} for ${operator.name}: ${reason}`
+        }
+      });
+
+      await tx.itemProcessingLog.create({
+        data: {
+          orderItemId: orderItem.id,
+          unitId: unit?.id || null,
+          stationId: station.id,
+          userId: operator.id,
+          startTime: now,
+          ...(toStatus === WORKFLOW_COMPLETE_STATUS ? { endTime: now, durationInSeconds: 0 } : {}),
+          notes: `${toStatus === WORKFLOW_COMPLETE_STATUS ? 'Final scan' : `Started work at ${station.name} station - Status: ${toStatus}`} - Supervisor override by ${supervisor.name}`
+        }
+      });
+
+      const orderStatusChanges = await this.updateOrderStatus(tx, orderItem.order, toStatus, lineStatus, operator.id, now);
+
+      await tx.auditLog.create({
+        data: {
+          userId: supervisor.id,
+          action: SUPERVISOR_OVERRIDE_AUDIT_ACTION,
+          entityName: 'OrderItem',
+          entityId: orderItem.id,
+          oldValue: { itemStatus: fromStatus, currentStepId: scanned.currentStepId || null },
+          newValue: details as unknown as Prisma.InputJsonObject,
+          ipAddress: request.ipAddress || null,
+          timestamp: now
+        }
+      });
+
+      return {
+        supervisor,
+        operator,
+        station,
+        transition,
+        fromStatus,
+        toStatus,
+        lineStatus,
+        unitId: unit?.id || null,
+        unitLabel,
+        orderStatusChanges,
+        statusLogId: statusLog.id
+      };
+    });
+  }
+
+  /**
+   * List the overrides in a date range, with a summary per station
+   * @param startDate - Start of the range
+   * @param endDate - End of the range
+   */
+  async getOverrideReport(startDate: Date, endDate: Date): Promise<OverrideReport> {
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        action: SUPERVISOR_OVERRIDE_AUDIT_ACTION,
+        timestamp: { gte: startDate, lte: endDate }
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    const overrides: OverrideRecord[] = [];
+    for (const entry of entries) {
+      const details: unknown = entry.newValue;
+      if (isOverrideAuditDetails(details)) {
+        overrides.push({ ...details, id: entry.id, timestamp: entry.timestamp });
+      }
+    }
+
+    return {
+      overrides,
+      stations: summarizeOverridesByStation(overrides)
+    };
+  }
+
+  private async loadScannedItem(orderItemId: string, scannedItemId?: string | null) {
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      include: { order: { select: { id: true, orderStatus: true } } }
+    });
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    const units = await prisma.$transaction(tx => orderItemUnitService.syncUnits(orderItem.id, tx));
+    const unit: OrderItemUnit | null = selectScannedUnit(units, scannedItemId);
+
+    return {
+      orderItem,
+      unit,
+      scanned: unit || orderItem,
+      unitLabel: unit ? formatUnitLabel(unit.unitNumber, units.length) : null
+    };
+  }
+
+  // Move the order along as a scan would: into production with its first started item, and ready to
+  // ship once every production item is ready
+  private async updateOrderStatus(
+    tx: Prisma.TransactionClient,
+    order: { id: string; orderStatus: OrderSystemStatus },
+    toStatus: OrderItemProcessingStatus,
+    lineStatus: OrderItemProcessingStatus,
+    userId: string,
+    now: Date
+  ): Promise<OrderStatusChange[]> {
+    const changes: OrderStatusChange[] = [];
+    let orderStatus = order.orderStatus;
+
+    if (orderStatus === 'APPROVED' && toStatus !== 'NOT_STARTED_PRODUCTION') {
+      changes.push({ fromStatus: orderStatus, toStatus: 'ORDER_PROCESSING' });
+      orderStatus = 'ORDER_PROCESSING';
+    }
+
+    if (lineStatus === WORKFLOW_COMPLETE_STATUS && orderStatus === 'ORDER_PROCESSING') {
+      const unfinished = await tx.orderItem.count({
+        where: { orderId: order.id, isProduct: true, itemStatus: { not: WORKFLOW_COMPLETE_STATUS } }
+      });
+      if (unfinished === 0) {
+        changes.push({ fromStatus: orderStatus, toStatus: 'READY_TO_SHIP' });
+        orderStatus = 'READY_TO_SHIP';
+      }
+    }
+
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        orderStatus,
+        ...(orderStatus === 'READY_TO_SHIP' ? { readyToShipAt: now } : {})
+      }
+    });
+
+    for (const change of changes) {
+      await tx.orderStatusLog.create({
+        data: {
+          orderId: order.id,
+          fromStatus: change.fromStatus,
+          toStatus: change.toStatus,
+          userId,
+          changeReason: change.toStatus === 'READY_TO_SHIP'
+            ? 'All items completed - ready to ship'
+            : 'Production started - first item scanned',
+          triggeredBy: SUPERVISOR_OVERRIDE_TRIGGER,
+          timestamp: now
+        }
+      });
+    }
+
+    return changes;
+  }
+
+  private validationError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'SupervisorOverrideValidationError';
+    return error;
+  }
+}
+
+// Export a default instance for convenience
+export const supervisorOverrideService = new SupervisorOverrideServiceImpl();
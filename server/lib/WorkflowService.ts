@@ -0,0 +1,175 @@
+import type { Prisma, ProductType } from '@prisma-app/client';
+import { unenhancedPrisma as prisma } from './db';
+import {
+  getBuiltInWorkflow,
+  resolveWorkflowTransition,
+  type WorkflowDefinition,
+  type WorkflowTransition
+} from '../../utils/workflowEngine';
+
+export interface WorkflowScanResolution {
+  workflow: WorkflowDefinition;
+  transition: WorkflowTransition | null;
+  lastScannedStation: string | null;
+}
+
+export interface WorkflowItemSource {
+  id: string;
+  productType?: string | null;
+  productAttributes?: { productType: string | null } | null;
+  workflowId?: string | null;
+}
+
+export interface WorkflowService {
+  getWorkflowForItem(orderItemId: string): Promise<WorkflowDefinition>;
+  getWorkflowsForItems(items: WorkflowItemSource[]): Promise<Map<string, WorkflowDefinition>>;
+  resolveScan(orderItemId: string, stationName: string, unitId?: string | null): Promise<WorkflowScanResolution>;
+}
+
+const workflowInclude = {
+  steps: {
+    include: { station: { select: { name: true } } },
+    orderBy: { position: 'asc' as const }
+  }
+} satisfies Prisma.WorkflowInclude;
+
+type WorkflowWithSteps = Prisma.WorkflowGetPayload<{ include: typeof workflowInclude }>;
+
+export class WorkflowServiceImpl implements WorkflowService {
+
+  /**
+   * Get the workflow an order item moves through
+   * Order: the workflow already assigned to the item, an active workflow for the item's product type,
+   * the active default workflow, and finally the built-in definition for the product type.
+   * @param orderItemId - The order item ID
+   * @returns The workflow definition (id is null for built-in workflows)
+   */
+  async getWorkflowForItem(orderItemId: string): Promise<WorkflowDefinition> {
+    const orderItem = await prisma.orderItem.findUnique({
+      where: { id: orderItemId },
+      select: {
+        productType: true,
+        productAttributes: { select: { productType: true } },
+        workflowId: true
+      }
+    });
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    if (orderItem.workflowId) {
+      const assigned = await prisma.workflow.findUnique({
+        where: { id: orderItem.workflowId },
+        include: workflowInclude
+      });
+
+      if (assigned) {
+        return this.toDefinition(assigned);
+      }
+    }
+
+    const productType = orderItem.productAttributes?.productType || orderItem.productType || 'SPA_COVER';
+
+    const workflow = await prisma.workflow.findFirst({
+      where: { isActive: true, productType: productType as ProductType },
+      include: workflowInclude,
+      orderBy: { createdAt: 'asc' }
+    }) || await prisma.workflow.findFirst({
+      where: { isActive: true, isDefault: true },
+      include: workflowInclude
+    });
+
+    return workflow ? this.toDefinition(workflow) : getBuiltInWorkflow(productType);
+  }
+
+  /**
+   * Get the workflows for many order items at once, with the same resolution order as getWorkflowForItem
+   * Loads the workflows in a single query, for callers that look at the whole backlog.
+   * @param items - Order items with their product type and assigned workflow
+   * @returns Workflow definitions keyed by order item ID
+   */
+  async getWorkflowsForItems(items: WorkflowItemSource[]): Promise<Map<string, WorkflowDefinition>> {
+    const assignedIds = [...new Set(items.map(item => item.workflowId).filter((id): id is string => !!id))];
+
+    const workflows = (await prisma.workflow.findMany({
+      where: { OR: [{ isActive: true }, { id: { in: assignedIds } }] },
+      include: workflowInclude,
+      orderBy: { createdAt: 'asc' }
+    })).map(workflow => ({ workflow, definition: this.toDefinition(workflow) }));
+
+    const result = new Map<string, WorkflowDefinition>();
+    for (const item of items) {
+      const productType = item.productAttributes?.productType || item.productType || 'SPA_COVER';
+
+      const match = (item.workflowId && workflows.find(({ workflow }) => workflow.id === item.workflowId))
+        || workflows.find(({ workflow }) => workflow.isActive && workflow.productType === productType)
+        || workflows.find(({ workflow }) => workflow.isActive && workflow.isDefault);
+
+      result.set(item.id, match ? match.definition : getBuiltInWorkflow(productType));
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve what scanning an item at a station does, using the item's workflow and scan history
+   * @param orderItemId - The order item being scanned
+   * @param stationName - The station doing the scan
+   * @param unitId - The unit being scanned, for order items tracked by unit
+   * @returns The workflow, the transition (null if not allowed) and the last station that scanned the item
+   */
+  async resolveScan(orderItemId: string, stationName: string, unitId?: string | null): Promise<WorkflowScanResolution> {
+    const [orderItem, lastLog, workflow] = await Promise.all([
+      unitId
+        ? prisma.orderItemUnit.findFirst({
+          where: { id: unitId, orderItemId },
+          select: { itemStatus: true, currentStepId: true }
+        })
+        : prisma.orderItem.findUnique({
+          where: { id: orderItemId },
+          select: { itemStatus: true, currentStepId: true }
+        }),
+      prisma.itemProcessingLog.findFirst({
+        // A unit's history includes the scans made before its order item was split into units
+        where: unitId ? { orderItemId, OR: [{ unitId }, { unitId: null }] } : { orderItemId },
+        orderBy: { startTime: 'desc' },
+        select: { station: { select: { name: true } } }
+      }),
+      this.getWorkflowForItem(orderItemId)
+    ]);
+
+    if (!orderItem) {
+      throw new Error('Order item not found');
+    }
+
+    const lastScannedStation = lastLog?.station?.name || null;
+    const transition = resolveWorkflowTransition(workflow, {
+      itemStatus: orderItem.itemStatus,
+      currentStepId: orderItem.currentStepId,
+      stationName,
+      lastScannedStation
+    });
+
+    return { workflow, transition, lastScannedStation };
+  }
+
+  private toDefinition(workflow: WorkflowWithSteps): WorkflowDefinition {
+    return {
+      id: workflow.id,
+      name: workflow.name,
+      productType: workflow.productType,
+      steps: workflow.steps.map(step => ({
+        id: step.id,
+        position: step.position,
+        name: step.name,
+        stationName: step.station.name,
+        itemStatus: step.itemStatus,
+        description: step.description
+      }))
+    };
+  }
+}
+
+// Export a default instance for convenience
+export const workflowService = new WorkflowServiceImpl();
@@ -0,0 +1,105 @@
+import { jobQueue } from './JobQueueService';
+import { EmailService } from './emailService';
+import { quickBooksSyncService } from './QuickBooksSyncService';
+import { processWebhookPayload, type QboWebhookPayload } from './quickbooksWebhookProcessor';
+import { shippingService } from './ShippingService';
+import { getConfiguredCarriers } from './shipping';
+import { PrintQueueCleanupService } from '../utils/printQueueCleanup';
+import { autoCloseStaleWork, getStationWorkSettings, pauseWorkAtShiftEnd } from './productionTimer';
+import { quoteService } from './QuoteService';
+import { QuickBooksTokenManager } from './quickbooksTokenManager';
+
+export const QBO_WEBHOOK_JOB = 'qbo.webhook';
+export const QBO_OUTBOUND_SYNC_JOB = 'qbo.outbound-sync';
+export const EMAIL_RETRY_JOB = 'email.retry-failed';
+export const PRINT_QUEUE_CLEANUP_JOB = 'print-queue.cleanup';
+export const SHIPPING_TRACKING_SYNC_JOB = 'shipping.tracking-sync';
+export const SHIFT_END_PAUSE_JOB = 'station-work.shift-end-pause';
+export const STALE_WORK_CLOSE_JOB = 'station-work.auto-close';
+export const QUOTE_QBO_PUSH_JOB = 'qbo.quote-push';
+export const QUOTE_REMINDER_JOB = 'quotes.expiry-reminders';
+export const QBO_TOKEN_REFRESH_JOB = 'qbo.token-refresh';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const QBO_TOKEN_REFRESH_INTERVAL_MS = 30 * MINUTE_MS;
+
+/**
+ * Queue the first run of a recurring job
+ * A failed write is logged instead of thrown so it does not keep the other jobs from being scheduled.
+ */
+async function scheduleJob(name: string, intervalMs: number): Promise<void> {
+  try {
+    await jobQueue.schedule(name, intervalMs);
+  } catch (error) {
+    console.error(`[JobQueue] Failed to schedule ${name}:`, error);
+  }
+}
+
+/**
+ * Whether this instance runs the queued QuickBooks token refresh
+ */
+export function isTokenRefreshScheduled(): boolean {
+  return jobQueue.getRegisteredJobs().some(job => job.name === QBO_TOKEN_REFRESH_JOB && job.intervalMs !== null);
+}
+
+/**
+ * Register every background job handler and recurring schedule
+ * Features that are switched off are not registered, so their queued jobs wait instead of failing.
+ */
+export async function registerBackgroundJobs(): Promise<void> {
+  jobQueue.register<{ requestId: string; payload: QboWebhookPayload }>(QBO_WEBHOOK_JOB, async ({ requestId, payload }) => {
+    const result = await processWebhookPayload(payload, requestId);
+    if (result.failed > 0) {
+      // Upserts are idempotent, so the whole payload is safe to run again
+      throw new Error(`${result.failed} of ${result.processed + result.failed} webhook entities failed`);
+    }
+    return result;
+  }, { concurrency: 2 });
+
+  // Refreshes access tokens within 10 minutes of expiry; a failed refresh is retried with backoff
+  jobQueue.register(QBO_TOKEN_REFRESH_JOB, () => QuickBooksTokenManager.refreshExpiringTokens());
+  await scheduleJob(QBO_TOKEN_REFRESH_JOB, QBO_TOKEN_REFRESH_INTERVAL_MS);
+
+  jobQueue.register(EMAIL_RETRY_JOB, () => EmailService.retryFailedEmails());
+  await scheduleJob(EMAIL_RETRY_JOB, 15 * MINUTE_MS);
+
+  jobQueue.register(PRINT_QUEUE_CLEANUP_JOB, () => PrintQueueCleanupService.performCleanup({
+    printedItemsRetentionDays: 30,
+    removeOrphanedItems: true,
+    clearCache: true,
+    dryRun: false
+  }));
+  await scheduleJob(PRINT_QUEUE_CLEANUP_JOB, 24 * HOUR_MS);
+
+  jobQueue.register<{ estimateId: string }>(QUOTE_QBO_PUSH_JOB, ({ estimateId }) => quoteService.pushToQuickBooks(estimateId));
+
+  // Expiration dates are whole days, so hourly sends each reminder on the right day
+  jobQueue.register(QUOTE_REMINDER_JOB, () => quoteService.processExpiringQuotes(useRuntimeConfig().public.appUrl));
+  await scheduleJob(QUOTE_REMINDER_JOB, HOUR_MS);
+
+  if (useRuntimeConfig().qboOutboundSync?.enabled) {
+    // Short enough that a shipped order shows its tracking on the invoice within a minute
+    jobQueue.register(QBO_OUTBOUND_SYNC_JOB, () => quickBooksSyncService.processDueJobs());
+    await scheduleJob(QBO_OUTBOUND_SYNC_JOB, MINUTE_MS);
+  }
+
+  const stationWork = getStationWorkSettings();
+  if (stationWork.shiftEndTimes.length > 0) {
+    // Pauses are back-dated to the shift end, so running every few minutes is accurate enough
+    jobQueue.register(SHIFT_END_PAUSE_JOB, () => pauseWorkAtShiftEnd());
+    await scheduleJob(SHIFT_END_PAUSE_JOB, 5 * MINUTE_MS);
+  }
+
+  if (stationWork.autoCloseAfterHours > 0) {
+    jobQueue.register(STALE_WORK_CLOSE_JOB, () => autoCloseStaleWork());
+    await scheduleJob(STALE_WORK_CLOSE_JOB, HOUR_MS);
+  }
+
+  if (getConfiguredCarriers().length > 0) {
+    // Carriers rate-limit tracking calls, hourly is enough to catch pickups and deliveries
+    jobQueue.register(SHIPPING_TRACKING_SYNC_JOB, () => shippingService.syncOpenShipments());
+    await scheduleJob(SHIPPING_TRACKING_SYNC_JOB, HOUR_MS);
+  }
+}
@@ -18,9 +18,20 @@ export async function getEnhancedPrismaClient(event: H3Event) {
         }
     }
     const sessionData = await auth.api.getSession({ headers: requestHeadersInstance });
-    const userContext = sessionData?.user || undefined;
+    // Staff sessions never carry a portal customer, so the portal deny rules can't apply to them
+    const userContext = sessionData?.user ? { ...sessionData.user, portalCustomerId: null } : undefined;
 
     return enhance(prisma, { user: userContext as any });
 }
 
+/**
+ * Prisma client for customer portal requests - the portal policies in schema.zmodel
+ * restrict every query to the session's customer and hide internal fields.
+ */
+export function getPortalPrismaClient(portalSession: { id: string; customerId: string }) {
+    return enhance(prisma, {
+        user: { id: `portal:${portalSession.id}`, roles: [], portalCustomerId: portalSession.customerId } as any
+    });
+}
+
 export const unenhancedPrisma = prisma;
\ No newline at end of file
@@ -1,6 +1,7 @@
 // AWS SES Email Service for customer notifications
 
-import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { SESClient, SendEmailCommand, SendRawEmailCommand } from '@aws-sdk/client-ses';
+import MailComposer from 'nodemailer/lib/mail-composer';
 import { unenhancedPrisma as prisma } from './db';
 
 export interface EmailTemplate {
@@ -24,6 +25,15 @@ export interface OrderEmailData {
   estimatedDelivery?: string;
 }
 
+export interface QuoteEmailData {
+  customerName: string;
+  quoteNumber: string;
+  total: string;
+  expirationDate: string | null;
+  acceptUrl: string;
+  memo: string | null;
+}
+
 // Initialize SES client
 const sesClient = new SESClient({
   region: process.env.AWS_SES_REGION || 'us-east-1',
@@ -175,6 +185,124 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a customer portal sign-in link
+   * Not logged as an EmailNotification because it isn't tied to an order.
+   */
+  static async sendPortalMagicLinkEmail(
+    toEmail: string,
+    customerName: string,
+    link: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    const subject = `Your ${this.COMPANY_NAME} order status link`;
+
+    const htmlBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #2563eb;">View Your Orders</h2>
+            <p>Hello ${customerName},</p>
+            <p>Use the button below to see the status of your orders with ${this.COMPANY_NAME}.</p>
+
+            <p style="margin: 30px 0;">
+              <a href="${link}" style="background: #2563eb; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none;">View My Orders</a>
+            </p>
+
+            <p>This link can be used once and expires in ${expiresInMinutes} minutes. If you didn't request it, you can ignore this email.</p>
+
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+            <p style="font-size: 12px; color: #6b7280;">
+              This is an automated message. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textBody = `
+View Your Orders - ${this.COMPANY_NAME}
+
+Hello ${customerName},
+
+Use the link below to see the status of your orders with ${this.COMPANY_NAME}:
+
+${link}
+
+This link can be used once and expires in ${expiresInMinutes} minutes. If you didn't request it, you can ignore this email.
+
+---
+This is an automated message. Please do not reply to this email.
+    `;
+
+    await this.sendEmail(toEmail, subject, htmlBody, textBody);
+  }
+
+  /**
+   * Send a quote with its PDF attached, or the reminder before it expires
+   * Not logged as an EmailNotification because it isn't tied to an order.
+   */
+  static async sendQuoteEmail(
+    toEmail: string,
+    data: QuoteEmailData,
+    pdf: string,
+    isReminder: boolean = false
+  ): Promise<void> {
+    const subject = isReminder
+      ? `Reminder: your ${this.COMPANY_NAME} quote #${data.quoteNumber} expires ${data.expirationDate}`
+      : `Your ${this.COMPANY_NAME} quote #${data.quoteNumber}`;
+    const intro = isReminder
+      ? `This is a reminder that your quote expires on ${data.expirationDate}. If you would like to go ahead, you can accept it online.`
+      : `Thank you for your interest in ${this.COMPANY_NAME}. Your quote is attached${data.expirationDate ? ` and is valid until ${data.expirationDate}` : ''}.`;
+
+    const htmlBody = `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #2563eb;">Quote #${data.quoteNumber}</h2>
+            <p>Hello ${data.customerName},</p>
+            <p>${intro}</p>
+            ${data.memo ? `<p style="white-space: pre-line;">${data.memo}</p>` : ''}
+
+            <div style="background: #f8fafc; padding: 15px; border-radius: 5px; margin: 20px 0;">
+              <p><strong>Quote Total:</strong> ${data.total}</p>
+            </div>
+
+            <p style="margin: 30px 0;">
+              <a href="${data.acceptUrl}" style="background: #2563eb; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none;">View and Accept Quote</a>
+            </p>
+
+            <p>If you have any questions about your quote, please give us a call.</p>
+
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #e5e7eb;">
+            <p style="font-size: 12px; color: #6b7280;">
+              ${this.COMPANY_NAME}
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const textBody = `
+Quote #${data.quoteNumber} - ${this.COMPANY_NAME}
+
+Hello ${data.customerName},
+
+${intro}
+${data.memo ? `\n${data.memo}\n` : ''}
+Quote Total: ${data.total}
+
+View and accept your quote:
+${data.acceptUrl}
+
+If you have any questions about your quote, please give us a call.
+    `;
+
+    await this.sendRawEmail(toEmail, subject, htmlBody, textBody, [
+      { filename: `Quote-${data.quoteNumber}.pdf`, content: Buffer.from(pdf, 'latin1'), contentType: 'application/pdf' }
+    ]);
+  }
+
   /**
    * Send raw email using AWS SES
    */
@@ -210,6 +338,30 @@ export class EmailService {
     await sesClient.send(command);
   }
 
+  /**
+   * Send an email with attachments, which SES only takes as a raw MIME message
+   */
+  private static async sendRawEmail(
+    toEmail: string,
+    subject: string,
+    htmlBody: string,
+    textBody: string,
+    attachments: Array<{ filename: string; content: Buffer; contentType: string }>
+  ): Promise<void> {
+    const message = await new MailComposer({
+      from: this.FROM_EMAIL,
+      to: toEmail,
+      subject,
+      html: htmlBody,
+      text: textBody,
+      attachments
+    }).compile().build();
+
+    await sesClient.send(new SendRawEmailCommand({
+      RawMessage: { Data: message }
+    }));
+  }
+
   /**
    * Get email template based on type
    */
@@ -0,0 +1,165 @@
+import { Socket } from 'net';
+
+export type LabelPrinterFormat = 'ZPL' | 'PDF';
+
+export interface LabelPrinterTarget {
+  host: string;
+  port: number;
+  format: LabelPrinterFormat;
+}
+
+export interface ZplPrinterStatus {
+  paperOut: boolean;
+  paused: boolean;
+  headOpen: boolean;
+  ribbonOut: boolean;
+}
+
+export interface LabelPrinterAck {
+  bytesSent: number;
+  status?: ZplPrinterStatus;   // Only ZPL printers report their status back
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// ~HS answers with three STX...ETX framed strings
+const HOST_STATUS_STRINGS = 3;
+const STX = '\x02';
+const ETX = '\x03';
+
+/**
+ * Send a job to a network label printer over its raw TCP port and wait for it to be acknowledged
+ *
+ * ZPL jobs are followed by a ~HS host status query; the job counts as acknowledged once the printer
+ * answers and reports it can print (not paused, paper, ribbon and head all fine). Printers taking PDF
+ * have no status channel, so the job is acknowledged once every byte is written and the printer has
+ * closed the connection cleanly.
+ *
+ * @throws Error named 'LabelPrinterError' when the printer cannot be reached, times out or reports a fault
+ */
+export function sendToLabelPrinter(
+  target: LabelPrinterTarget,
+  payload: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<LabelPrinterAck> {
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    const data = Buffer.from(target.format === 'ZPL' ? `${payload}\n~HS` : payload, target.format === 'ZPL' ? 'utf8' : 'latin1');
+    let response = '';
+    let settled = false;
+
+    const finish = (error: Error | null, ack?: LabelPrinterAck) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(ack!);
+      }
+    };
+
+    const where = `${target.host}:${target.port}`;
+
+    socket.setTimeout(timeoutMs, () => {
+      finish(labelPrinterError(`Printer at ${where} did not respond within ${Math.round(timeoutMs / 1000)}s`));
+    });
+
+    socket.on('error', (error) => {
+      finish(labelPrinterError(`Could not reach printer at ${where}: ${error.message}`));
+    });
+
+    socket.on('data', (chunk) => {
+      if (target.format !== 'ZPL') {
+        return;
+      }
+      response += chunk.toString('latin1');
+      if (response.split(ETX).length - 1 < HOST_STATUS_STRINGS) {
+        return;
+      }
+
+      const status = parseZplHostStatus(response);
+      const problem = status ? getZplStatusProblem(status) : 'it sent an unreadable status';
+      if (problem) {
+        finish(labelPrinterError(`Printer at ${where} did not take the job: ${problem}`));
+      } else {
+        finish(null, { bytesSent: data.length, status: status! });
+      }
+    });
+
+    socket.on('close', (hadError) => {
+      if (hadError) {
+        return;
+      }
+      if (target.format === 'ZPL') {
+        finish(labelPrinterError(`Printer at ${where} closed the connection before reporting its status`));
+      } else {
+        finish(null, { bytesSent: data.length });
+      }
+    });
+
+    socket.connect(target.port, target.host, () => {
+      socket.write(data, () => {
+        if (target.format !== 'ZPL') {
+          socket.end();
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Parse the reply to a ZPL ~HS host status query
+ * String 1 carries the paper out and pause flags, string 2 the head up and ribbon out flags.
+ * @returns null when the reply is not a complete host status
+ */
+export function parseZplHostStatus(response: string): ZplPrinterStatus | null {
+  const strings = response
+    .split(ETX)
+    .map(part => part.slice(part.indexOf(STX) + 1).trim())
+    .filter(part => part.length > 0);
+
+  if (strings.length < 2) {
+    return null;
+  }
+
+  const first = strings[0].split(',');
+  const second = strings[1].split(',');
+  if (first.length < 3 || second.length < 4) {
+    return null;
+  }
+
+  return {
+    paperOut: first[1] === '1',
+    paused: first[2] === '1',
+    headOpen: second[2] === '1',
+    ribbonOut: second[3] === '1'
+  };
+}
+
+/**
+ * Describe why a printer with this status will not print, or null if it is ready
+ */
+export function getZplStatusProblem(status: ZplPrinterStatus): string | null {
+  if (status.headOpen) {
+    return 'print head is open';
+  }
+  if (status.paperOut) {
+    return 'out of labels';
+  }
+  if (status.ribbonOut) {
+    return 'out of ribbon';
+  }
+  if (status.paused) {
+    return 'printer is paused';
+  }
+  return null;
+}
+
+function labelPrinterError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'LabelPrinterError';
+  return error;
+}
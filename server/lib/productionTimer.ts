@@ -1,6 +1,16 @@
 // Production timer utilities for tracking order and item processing times
 
+import type { Prisma, WorkPauseReason } from '@prisma-app/client';
 import { unenhancedPrisma as prisma } from './db';
+import {
+  DEFAULT_WORK_AUTO_CLOSE_HOURS,
+  getActiveSeconds,
+  getLatestShiftEnd,
+  getOpenPause,
+  getStaleWorkEndTime,
+  parseShiftEndTimes,
+  type ShiftTime
+} from '../../utils/workTime';
 
 export interface ProductionMetrics {
   orderId: string;
@@ -28,6 +38,12 @@ export interface ItemProductionHistory {
   isCompleted: boolean;
 }
 
+export interface StationWorkSettings {
+  shiftEndTimes: ShiftTime[];
+  timeZone?: string;
+  autoCloseAfterHours: number;
+}
+
 export interface StationLog {
   stationName: string;
   userName: string;
@@ -205,19 +221,27 @@ export async function getUserActiveWork(userId: string) {
           order: true
         }
       },
-      station: true
+      station: true,
+      pauses: true
     }
   });
 
-  return activeWork.map(work => ({
-    logId: work.id,
-    orderNumber: work.orderItem.order.salesOrderNumber || work.orderItem.order.id.slice(-8),
-    itemName: work.orderItem.item.name,
-    stationName: work.station.name,
-    startTime: work.startTime,
-    durationSoFar: Math.floor((new Date().getTime() - work.startTime.getTime()) / 1000),
-    scannerPrefix: work.scannerPrefix
-  }));
+  const now = new Date();
+  return activeWork.map(work => {
+    const openPause = getOpenPause(work.pauses);
+    return {
+      logId: work.id,
+      orderNumber: work.orderItem.order.salesOrderNumber || work.orderItem.order.id.slice(-8),
+      itemName: work.orderItem.item.name,
+      stationName: work.station.name,
+      startTime: work.startTime,
+      durationSoFar: getActiveSeconds(work.startTime, now, work.pauses),
+      isPaused: !!openPause,
+      pausedAt: openPause?.pausedAt || null,
+      pauseReason: openPause?.reason || null,
+      scannerPrefix: work.scannerPrefix
+    };
+  });
 }
 
 /**
@@ -237,7 +261,7 @@ export async function completeUserActiveWork(userId: string, logId?: string) {
   }
 
   const endTime = new Date();
-  const durationInSeconds = Math.floor((endTime.getTime() - activeWork.startTime.getTime()) / 1000);
+  const durationInSeconds = await closeProcessingLogPauses(prisma, activeWork, endTime);
 
   await prisma.itemProcessingLog.update({
     where: { id: activeWork.id },
@@ -255,6 +279,179 @@ export async function completeUserActiveWork(userId: string, logId?: string) {
   };
 }
 
+/**
+ * Close a log's open pause at the time the log ends, and work out how long it was actively worked
+ * Every place that sets a log's endTime uses this for durationInSeconds, so breaks never count as work.
+ */
+export async function closeProcessingLogPauses(
+  client: Prisma.TransactionClient,
+  log: { id: string; startTime: Date },
+  endTime: Date
+): Promise<number> {
+  const pauses = await client.itemProcessingPause.findMany({
+    where: { processingLogId: log.id }
+  });
+
+  const openPause = getOpenPause(pauses);
+  if (openPause) {
+    await client.itemProcessingPause.update({
+      where: { id: openPause.id },
+      data: { resumedAt: openPause.pausedAt > endTime ? openPause.pausedAt : endTime }
+    });
+  }
+
+  return getActiveSeconds(log.startTime, endTime, pauses);
+}
+
+/**
+ * Pause a user's active work, e.g. for a break or lunch
+ * Work that is already paused is left as it is.
+ */
+export async function pauseUserActiveWork(userId: string, reason: WorkPauseReason, logId?: string) {
+  const activeWork = await prisma.itemProcessingLog.findMany({
+    where: {
+      userId: userId,
+      endTime: null,
+      ...(logId ? { id: logId } : {})
+    },
+    include: {
+      pauses: { where: { resumedAt: null } }
+    }
+  });
+
+  if (activeWork.length === 0) {
+    throw new Error('No active work found to pause');
+  }
+
+  const pausedAt = new Date();
+  const toPause = activeWork.filter(work => work.pauses.length === 0);
+  if (toPause.length > 0) {
+    await prisma.itemProcessingPause.createMany({
+      data: toPause.map(work => ({ processingLogId: work.id, reason, pausedAt }))
+    });
+  }
+
+  return {
+    pausedLogIds: toPause.map(work => work.id),
+    pausedAt
+  };
+}
+
+/**
+ * Resume a user's paused work
+ */
+export async function resumeUserActiveWork(userId: string, logId?: string) {
+  const resumedAt = new Date();
+  const result = await prisma.itemProcessingPause.updateMany({
+    where: {
+      resumedAt: null,
+      processingLog: {
+        userId: userId,
+        endTime: null,
+        ...(logId ? { id: logId } : {})
+      }
+    },
+    data: { resumedAt }
+  });
+
+  if (result.count === 0) {
+    throw new Error('No paused work found to resume');
+  }
+
+  return {
+    resumedCount: result.count,
+    resumedAt
+  };
+}
+
+/**
+ * Shift-end and stale-work settings from the runtime config
+ */
+export function getStationWorkSettings(): StationWorkSettings {
+  const config = useRuntimeConfig().stationWork;
+  const autoCloseAfterHours = Number(config?.autoCloseAfterHours ?? DEFAULT_WORK_AUTO_CLOSE_HOURS);
+
+  return {
+    shiftEndTimes: parseShiftEndTimes(config?.shiftEndTimes),
+    timeZone: config?.timeZone || undefined,
+    autoCloseAfterHours: Number.isFinite(autoCloseAfterHours) ? autoCloseAfterHours : DEFAULT_WORK_AUTO_CLOSE_HOURS
+  };
+}
+
+/**
+ * Pause all work still running at the latest shift end
+ * The pause starts at the shift end itself, however late this runs. Work paused or resumed since
+ * the shift end is left alone, so a worker who stays on and resumes is not paused again.
+ */
+export async function pauseWorkAtShiftEnd(now: Date = new Date(), settings: StationWorkSettings = getStationWorkSettings()) {
+  const shiftEnd = getLatestShiftEnd(settings.shiftEndTimes, now, settings.timeZone);
+  if (!shiftEnd) {
+    return { shiftEnd: null, paused: 0 };
+  }
+
+  const runningWork = await prisma.itemProcessingLog.findMany({
+    where: {
+      endTime: null,
+      startTime: { lt: shiftEnd },
+      pauses: {
+        none: {
+          OR: [
+            { resumedAt: null },
+            { pausedAt: { gte: shiftEnd } },
+            { resumedAt: { gte: shiftEnd } }
+          ]
+        }
+      }
+    },
+    select: { id: true }
+  });
+
+  if (runningWork.length > 0) {
+    await prisma.itemProcessingPause.createMany({
+      data: runningWork.map(work => ({ processingLogId: work.id, reason: 'SHIFT_END' as const, pausedAt: shiftEnd }))
+    });
+  }
+
+  return { shiftEnd, paused: runningWork.length };
+}
+
+/**
+ * Close work that has been open longer than the stale-work limit
+ * The item keeps its status; only the log is closed, and flagged so reports can tell it apart.
+ */
+export async function autoCloseStaleWork(now: Date = new Date(), settings: StationWorkSettings = getStationWorkSettings()) {
+  const maxHours = settings.autoCloseAfterHours;
+  if (maxHours <= 0) {
+    return { closed: 0 };
+  }
+
+  const staleWork = await prisma.itemProcessingLog.findMany({
+    where: {
+      endTime: null,
+      startTime: { lte: new Date(now.getTime() - maxHours * 60 * 60 * 1000) }
+    },
+    include: { pauses: true }
+  });
+
+  for (const work of staleWork) {
+    const endTime = getStaleWorkEndTime(work.startTime, work.pauses, maxHours);
+    await prisma.$transaction(async (tx) => {
+      const durationInSeconds = await closeProcessingLogPauses(tx, work, endTime);
+      await tx.itemProcessingLog.update({
+        where: { id: work.id },
+        data: {
+          endTime,
+          durationInSeconds,
+          autoClosed: true,
+          notes: `${work.notes || ''} - Auto-closed after ${maxHours} hours open`
+        }
+      });
+    });
+  }
+
+  return { closed: staleWork.length };
+}
+
 /**
  * Start production timer for an order (when first item starts)
  */
@@ -137,11 +137,11 @@ export async function getQboClient(event: H3Event): Promise<AuthenticatedQboClie
  * Retrieves a QuickBooks client for webhook operations using the centralized token manager.
  * Webhooks don't have user authentication context, but they can use the company-wide token.
  * 
- * @param event The H3 event object from the server route.
+ * @param event The H3 event object from the server route, if any (webhook jobs run without one).
  * @returns A promise that resolves to an object containing the client and the valid token.
  * @throws An error if no valid token is found.
  */
-export async function getQboClientForWebhook(event: H3Event): Promise<AuthenticatedQboClient> {
+export async function getQboClientForWebhook(event?: H3Event): Promise<AuthenticatedQboClient> {
     const startTime = Date.now();
     const { QuickBooksLogger } = await import('~/server/lib/quickbooksLogger');
     const { QuickBooksErrorHandler, safeQuickBooksOperation } = await import('~/server/lib/quickbooksErrorHandler');
@@ -279,4 +279,56 @@ export async function getQboClientForWebhook(event: H3Event): Promise<Authentica
 
         return result;
     }, 'getQboClientForWebhook');
-} 
\ No newline at end of file
+} 
+
+type QboApiRequestOptions = {
+    method?: 'GET' | 'POST';
+    body?: Record<string, unknown>;
+    query?: Record<string, string>;
+};
+
+/**
+ * Makes a QuickBooks API request from a background job using the company-wide token.
+ * Unlike getQboClient this needs no user session or H3 event, so it can run from queues and schedulers.
+ * 
+ * @param path The path below /v3/company/{realmId}/, e.g. `invoice/123`.
+ * @param options HTTP method, JSON body and query parameters.
+ * @returns The parsed JSON response.
+ * @throws An error if QuickBooks is not connected, or the $fetch error (with the QBO Fault in `data`) if the request fails.
+ */
+export async function qboApiRequest<T = unknown>(path: string, options: QboApiRequestOptions = {}): Promise<T> {
+    const { QuickBooksLogger } = await import('~/server/lib/quickbooksLogger');
+    const method = options.method || 'GET';
+    const startTime = Date.now();
+
+    const accessToken = await QuickBooksTokenManager.getValidAccessToken();
+    const connectionStatus = await QuickBooksTokenManager.getConnectionStatus();
+    if (!accessToken || !connectionStatus.connected || !connectionStatus.companyId) {
+        throw new Error('QuickBooks is not connected');
+    }
+
+    const config = useRuntimeConfig();
+    const baseUrl = config.qboEnvironment === 'sandbox'
+        ? 'https://sandbox-quickbooks.api.intuit.com'
+        : 'https://quickbooks.api.intuit.com';
+
+    try {
+        const response = await $fetch<T>(`${baseUrl}/${QBO_API_CONFIG.VERSION}/company/${connectionStatus.companyId}/${path}`, {
+            method,
+            body: options.body,
+            query: options.query,
+            headers: {
+                'Accept': 'application/json',
+                'Authorization': `Bearer ${accessToken}`,
+                'User-Agent': QBO_API_CONFIG.USER_AGENT
+            },
+            timeout: QBO_API_CONFIG.TIMEOUT
+        });
+
+        QuickBooksLogger.logAPIRequest(path, method, true, Date.now() - startTime, connectionStatus.companyId);
+        return response;
+    } catch (error) {
+        QuickBooksLogger.logAPIRequest(path, method, false, Date.now() - startTime, connectionStatus.companyId, error);
+        throw error;
+    }
+}
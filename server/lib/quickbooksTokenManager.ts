@@ -28,7 +28,6 @@ interface ConnectionStatus {
  */
 export class QuickBooksTokenManager {
   private static oauthClient: InstanceType<typeof OAuthClient> | null = null;
-  private static schedulerInterval: NodeJS.Timeout | null = null;
 
   /**
    * Initialize OAuth client with configuration
@@ -560,101 +559,36 @@ export class QuickBooksTokenManager {
   }
 
   /**
-   * Start the background token refresh scheduler
-   * Checks for tokens that need refreshing every 30 minutes
+   * Refresh the access tokens that are close to expiry, as one run of the queued token refresh job
+   * Throws when the check fails or an integration could not be refreshed, so the job queue retries it.
+   * Expired refresh tokens need a manual reconnect and are not retried.
    */
-  static startTokenRefreshScheduler(): void {
-    return safeQuickBooksOperation(() => {
-      const startTime = new Date();
-      
-      // Clear any existing scheduler
-      if (this.schedulerInterval) {
-        console.log(`[${startTime.toISOString()}] Stopping existing token refresh scheduler before starting new one`);
-        clearInterval(this.schedulerInterval);
-        this.schedulerInterval = null;
-      }
-
-      // Set up scheduler to run every 30 minutes (1800000 milliseconds)
-      const intervalMs = 30 * 60 * 1000; // 30 minutes
-      
-      this.schedulerInterval = setInterval(async () => {
-        const result = await QuickBooksErrorHandler.handleErrorWithRecovery(
-          () => this.checkAndRefreshTokens(),
-          'scheduledTokenRefresh',
-          1, // Only 1 retry for scheduled operations
-          5000 // 5 second delay
-        );
-
-        if (!result.success) {
-          const error = result.error!;
-          QuickBooksLogger.logSchedulerEvent('error', `Scheduled token refresh failed: ${error.userMessage}`, error);
-          
-          // For scheduler errors, we continue running but may need manual intervention
-          if (error.type === QuickBooksErrorType.REFRESH_TOKEN_EXPIRED) {
-            QuickBooksLogger.warn('Scheduler', 'Refresh token expired - manual reconnection required', error);
-          }
-        } else {
-          QuickBooksLogger.logSchedulerEvent('check-completed', 'Scheduled token refresh completed successfully');
-        }
-      }, intervalMs);
-
-      QuickBooksLogger.logSchedulerEvent('started', `Token refresh scheduler started - checking every ${intervalMs / 60000} minutes`, { intervalMs });
-      
-      // Run an initial check immediately (but don't block startup)
-      setTimeout(async () => {
-        QuickBooksLogger.logSchedulerEvent('check-started', 'Running initial token refresh check...');
-        const result = await QuickBooksErrorHandler.handleErrorWithRecovery(
-          () => this.checkAndRefreshTokens(),
-          'initialTokenRefresh',
-          1,
-          1000
-        );
-
-        if (!result.success) {
-          QuickBooksLogger.logSchedulerEvent('error', `Initial token refresh check failed: ${result.error?.userMessage}`, result.error);
-        } else {
-          QuickBooksLogger.logSchedulerEvent('check-completed', 'Initial token refresh check completed successfully');
-        }
-      }, 1000); // Wait 1 second after startup to allow server to fully initialize
-
-      return Promise.resolve();
-    }, 'startTokenRefreshScheduler');
-  }
-
-  /**
-   * Stop the background token refresh scheduler
-   */
-  static stopTokenRefreshScheduler(): void {
-    if (this.schedulerInterval) {
-      clearInterval(this.schedulerInterval);
-      this.schedulerInterval = null;
-      QuickBooksLogger.logSchedulerEvent('stopped', 'Token refresh scheduler stopped');
-    } else {
-      QuickBooksLogger.logSchedulerEvent('stopped', 'Token refresh scheduler was not running');
+  static async refreshExpiringTokens(): Promise<void> {
+    QuickBooksLogger.logSchedulerEvent('check-started', 'Running queued token refresh check...');
+
+    let errorCount: number;
+    try {
+      errorCount = await this.checkAndRefreshTokens();
+    } catch (error) {
+      const qbError = QuickBooksErrorHandler.createError(error, 'queuedTokenRefresh');
+      QuickBooksLogger.logSchedulerEvent('error', `Queued token refresh failed: ${qbError.userMessage}`, qbError);
+      throw qbError;
     }
-  }
 
-  /**
-   * Check if the scheduler is currently running
-   */
-  static isSchedulerRunning(): boolean {
-    return this.schedulerInterval !== null;
-  }
+    if (errorCount > 0) {
+      QuickBooksLogger.logSchedulerEvent('error', `Queued token refresh failed for ${errorCount} integration(s)`);
+      throw new Error(`Token refresh failed for ${errorCount} QuickBooks integration(s)`);
+    }
 
-  /**
-   * Restart the scheduler (stop and start)
-   */
-  static restartTokenRefreshScheduler(): void {
-    QuickBooksLogger.info('Scheduler', 'Restarting QuickBooks token refresh scheduler...');
-    this.stopTokenRefreshScheduler();
-    this.startTokenRefreshScheduler();
+    QuickBooksLogger.logSchedulerEvent('check-completed', 'Queued token refresh completed successfully');
   }
 
   /**
    * Check all active integrations and refresh tokens that are close to expiry
-   * This method is called by the scheduler every 30 minutes
+   * This method is called every 30 minutes by the queued token refresh job
+   * @returns The number of integrations that could not be refreshed, not counting expired refresh tokens
    */
-  private static async checkAndRefreshTokens(): Promise<void> {
+  private static async checkAndRefreshTokens(): Promise<number> {
     const startTime = new Date();
     
     return safeQuickBooksOperation(async () => {
@@ -669,7 +603,7 @@ export class QuickBooksTokenManager {
 
       if (!activeIntegrations || activeIntegrations.length === 0) {
         console.log(`[${new Date().toISOString()}] No active QuickBooks integrations found`);
-        return;
+        return 0;
       }
 
       const now = new Date();
@@ -756,6 +690,8 @@ export class QuickBooksTokenManager {
       if (refreshedCount === 0 && errorCount === 0 && expiredCount === 0) {
         console.log(`[${endTime.toISOString()}] All integrations are healthy - no action required`);
       }
+
+      return errorCount;
     }, 'checkAndRefreshTokens');
   }
 }
\ No newline at end of file
@@ -0,0 +1,251 @@
+import type {
+  CarrierAdapter,
+  CarrierLabel,
+  CarrierRate,
+  CarrierTracking,
+  ShipmentRequest,
+  ShippingAddress
+} from './types';
+import { createCarrierError } from './types';
+
+export interface FedExCarrierConfig {
+  clientId?: string;
+  clientSecret?: string;
+  accountNumber?: string;
+  environment?: string; // 'production' or 'sandbox'
+}
+
+// FedEx latest status codes mapped to our tracking statuses (anything else is in transit)
+const FEDEX_STATUS_MAP: Record<string, CarrierTracking['status']> = {
+  OC: 'LABEL_CREATED',
+  DL: 'DELIVERED',
+  DE: 'EXCEPTION',
+  SE: 'EXCEPTION',
+  CA: 'EXCEPTION'
+};
+
+/**
+ * FedEx REST API adapter (OAuth client credentials, Rate, Ship and Track APIs)
+ */
+export class FedExCarrier implements CarrierAdapter {
+  readonly code = 'FEDEX';
+  readonly name = 'FedEx';
+
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(private readonly config: FedExCarrierConfig) {}
+
+  isConfigured(): boolean {
+    return !!(this.config.clientId && this.config.clientSecret && this.config.accountNumber);
+  }
+
+  async getRates(request: ShipmentRequest): Promise<CarrierRate[]> {
+    const response = await this.request<any>('/rate/v1/rates/quotes', {
+      method: 'POST',
+      body: {
+        accountNumber: { value: this.config.accountNumber },
+        requestedShipment: {
+          shipper: { address: this.buildAddress(request.shipFrom) },
+          recipient: { address: this.buildAddress(request.shipTo) },
+          pickupType: 'USE_SCHEDULED_PICKUP',
+          rateRequestType: ['ACCOUNT'],
+          requestedPackageLineItems: request.packages.map(pkg => this.buildPackage(pkg))
+        }
+      }
+    });
+
+    const details: any[] = response?.output?.rateReplyDetails || [];
+
+    return details.map(detail => {
+      const rated = detail.ratedShipmentDetails?.[0];
+      return {
+        carrier: this.code,
+        serviceCode: detail.serviceType,
+        serviceName: detail.serviceName || detail.serviceType,
+        amount: rated?.totalNetCharge ?? 0,
+        currency: rated?.currency || 'USD',
+        transitDays: detail.commit?.transitDays?.minimumTransitTime
+          ? transitDaysFromCode(detail.commit.transitDays.minimumTransitTime)
+          : null,
+        estimatedDelivery: detail.commit?.dateDetail?.dayFormat ? new Date(detail.commit.dateDetail.dayFormat) : null
+      };
+    });
+  }
+
+  async createLabel(request: ShipmentRequest, serviceCode: string): Promise<CarrierLabel> {
+    const response = await this.request<any>('/ship/v1/shipments', {
+      method: 'POST',
+      body: {
+        labelResponseOptions: 'LABEL',
+        accountNumber: { value: this.config.accountNumber },
+        requestedShipment: {
+          shipper: this.buildParty(request.shipFrom),
+          recipients: [this.buildParty(request.shipTo)],
+          serviceType: serviceCode,
+          packagingType: 'YOUR_PACKAGING',
+          pickupType: 'USE_SCHEDULED_PICKUP',
+          shippingChargesPayment: { paymentType: 'SENDER' },
+          labelSpecification: { imageType: 'PDF', labelStockType: 'PAPER_4X6' },
+          requestedPackageLineItems: request.packages.map(pkg => ({
+            ...this.buildPackage(pkg),
+            customerReferences: [{ customerReferenceType: 'CUSTOMER_REFERENCE', value: request.reference.slice(0, 30) }]
+          }))
+        }
+      }
+    });
+
+    const shipment = response?.output?.transactionShipments?.[0];
+    if (!shipment?.masterTrackingNumber) {
+      throw createCarrierError(this.code, 'Shipment response did not include a tracking number');
+    }
+
+    const charge = shipment.completedShipmentDetail?.shipmentRating?.shipmentRateDetails?.[0];
+
+    return {
+      trackingNumber: shipment.masterTrackingNumber,
+      packages: (shipment.pieceResponses || []).map((piece: any) => {
+        const label = (piece.packageDocuments || []).find((doc: any) => doc.encodedLabel);
+        return {
+          trackingNumber: piece.trackingNumber || null,
+          labelFormat: label?.docType || 'PDF',
+          labelData: label ? Buffer.from(label.encodedLabel, 'base64') : null
+        };
+      }),
+      amount: charge?.totalNetCharge ?? null,
+      currency: charge?.currency || 'USD'
+    };
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTracking> {
+    const response = await this.request<any>('/track/v1/trackingnumbers', {
+      method: 'POST',
+      body: {
+        includeDetailedScans: false,
+        trackingInfo: [{ trackingNumberInfo: { trackingNumber } }]
+      }
+    });
+
+    const result = response?.output?.completeTrackResults?.[0]?.trackResults?.[0];
+    if (!result || result.error) {
+      throw createCarrierError(this.code, result?.error?.message || `No tracking information for ${trackingNumber}`);
+    }
+
+    const dates: any[] = result.dateAndTimes || [];
+    const delivered = dates.find(date => date.type === 'ACTUAL_DELIVERY');
+    const estimated = dates.find(date => date.type === 'ESTIMATED_DELIVERY');
+
+    return {
+      status: FEDEX_STATUS_MAP[result.latestStatusDetail?.code] || 'IN_TRANSIT',
+      description: result.latestStatusDetail?.description || 'Unknown',
+      estimatedDelivery: estimated ? new Date(estimated.dateTime) : null,
+      deliveredAt: delivered ? new Date(delivered.dateTime) : null
+    };
+  }
+
+  async voidLabel(trackingNumber: string): Promise<void> {
+    await this.request('/ship/v1/shipments/cancel', {
+      method: 'PUT',
+      body: {
+        accountNumber: { value: this.config.accountNumber },
+        trackingNumber
+      }
+    });
+  }
+
+  private get baseUrl(): string {
+    return this.config.environment === 'production'
+      ? 'https://apis.fedex.com'
+      : 'https://apis-sandbox.fedex.com';
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    try {
+      const body = new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.config.clientId || '',
+        client_secret: this.config.clientSecret || ''
+      }).toString();
+
+      const response = await $fetch<{ access_token: string; expires_in: number }>(`${this.baseUrl}/oauth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body
+      });
+
+      this.accessToken = response.access_token;
+      // Refresh a minute early so a request never goes out with an expired token
+      this.accessTokenExpiresAt = Date.now() + (response.expires_in - 60) * 1000;
+      return this.accessToken;
+    } catch (error) {
+      throw createCarrierError(this.code, 'Authentication failed', error);
+    }
+  }
+
+  private async request<T>(path: string, options: { method: 'POST' | 'PUT'; body: unknown }): Promise<T> {
+    if (!this.isConfigured()) {
+      throw createCarrierError(this.code, 'Carrier is not configured');
+    }
+
+    const token = await this.getAccessToken();
+
+    try {
+      return await $fetch<T>(`${this.baseUrl}${path}`, {
+        method: options.method,
+        body: options.body as Record<string, unknown>,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'X-locale': 'en_US'
+        }
+      });
+    } catch (error: any) {
+      const message = error?.data?.errors?.[0]?.message || error?.message || 'Request failed';
+      throw createCarrierError(this.code, message, error);
+    }
+  }
+
+  private buildAddress(address: ShippingAddress) {
+    return {
+      streetLines: [address.addressLine1, address.addressLine2].filter(Boolean),
+      city: address.city,
+      stateOrProvinceCode: address.state,
+      postalCode: address.zipCode,
+      countryCode: address.country
+    };
+  }
+
+  private buildParty(address: ShippingAddress) {
+    return {
+      contact: {
+        personName: address.name,
+        companyName: address.company || undefined,
+        phoneNumber: address.phone ? address.phone.replace(/\D/g, '') : undefined,
+        emailAddress: address.email || undefined
+      },
+      address: this.buildAddress(address)
+    };
+  }
+
+  private buildPackage(pkg: ShipmentRequest['packages'][number]) {
+    return {
+      weight: { units: 'LB', value: pkg.weightLb },
+      dimensions: {
+        length: Math.ceil(pkg.lengthIn),
+        width: Math.ceil(pkg.widthIn),
+        height: Math.ceil(pkg.heightIn),
+        units: 'IN'
+      }
+    };
+  }
+}
+
+function transitDaysFromCode(code: string): number | null {
+  // FedEx returns transit times as words, e.g. THREE_DAYS
+  const words = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN'];
+  const index = words.indexOf(code.split('_')[0]);
+  return index >= 0 ? index + 1 : null;
+}
@@ -0,0 +1,127 @@
+import type {
+  CarrierAdapter,
+  CarrierLabel,
+  CarrierRate,
+  CarrierTracking,
+  ShipmentRequest
+} from './types';
+import { createCarrierError } from './types';
+
+export interface FreightCarrierConfig {
+  apiUrl?: string;
+  apiKey?: string;
+  name?: string;
+  freightClass?: string; // NMFC class used for spa covers
+}
+
+/**
+ * LTL freight adapter for freight brokers/carriers exposing a quote → book → track REST API.
+ * Large multi-cover orders usually ship palletized, so each package is sent as a handling unit.
+ * The "label" for freight is the bill of lading PDF and the tracking number is the PRO number.
+ */
+export class FreightCarrier implements CarrierAdapter {
+  readonly code = 'FREIGHT';
+
+  constructor(private readonly config: FreightCarrierConfig) {}
+
+  get name(): string {
+    return this.config.name || 'LTL Freight';
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.apiUrl && this.config.apiKey);
+  }
+
+  async getRates(request: ShipmentRequest): Promise<CarrierRate[]> {
+    const response = await this.request<{ quotes: any[] }>('/quotes', {
+      method: 'POST',
+      body: this.buildShipment(request)
+    });
+
+    return (response.quotes || []).map(quote => ({
+      carrier: this.code,
+      serviceCode: quote.serviceCode,
+      serviceName: quote.serviceName || quote.serviceCode,
+      amount: Number(quote.total),
+      currency: quote.currency || 'USD',
+      transitDays: quote.transitDays ?? null
+    }));
+  }
+
+  async createLabel(request: ShipmentRequest, serviceCode: string): Promise<CarrierLabel> {
+    const response = await this.request<{ proNumber: string; bolPdf?: string; total?: number; currency?: string }>('/shipments', {
+      method: 'POST',
+      body: { ...this.buildShipment(request), serviceCode }
+    });
+
+    if (!response.proNumber) {
+      throw createCarrierError(this.code, 'Booking response did not include a PRO number');
+    }
+
+    return {
+      trackingNumber: response.proNumber,
+      // One bill of lading covers every handling unit
+      packages: request.packages.map((_, index) => ({
+        trackingNumber: response.proNumber,
+        labelFormat: 'PDF',
+        labelData: index === 0 && response.bolPdf ? Buffer.from(response.bolPdf, 'base64') : null
+      })),
+      amount: response.total ?? null,
+      currency: response.currency || 'USD'
+    };
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTracking> {
+    const response = await this.request<any>(`/shipments/${encodeURIComponent(trackingNumber)}/tracking`, {
+      method: 'GET'
+    });
+
+    const status = ['LABEL_CREATED', 'IN_TRANSIT', 'DELIVERED', 'EXCEPTION'].includes(response.status)
+      ? response.status
+      : 'IN_TRANSIT';
+
+    return {
+      status,
+      description: response.description || status,
+      estimatedDelivery: response.estimatedDelivery ? new Date(response.estimatedDelivery) : null,
+      deliveredAt: response.deliveredAt ? new Date(response.deliveredAt) : null
+    };
+  }
+
+  async voidLabel(trackingNumber: string): Promise<void> {
+    await this.request(`/shipments/${encodeURIComponent(trackingNumber)}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(path: string, options: { method: 'GET' | 'POST' | 'DELETE'; body?: unknown }): Promise<T> {
+    if (!this.isConfigured()) {
+      throw createCarrierError(this.code, 'Carrier is not configured');
+    }
+
+    try {
+      return await $fetch<T>(`${this.config.apiUrl!.replace(/\/$/, '')}${path}`, {
+        method: options.method,
+        body: options.body as Record<string, unknown> | undefined,
+        headers: { 'Authorization': `Bearer ${this.config.apiKey}` }
+      });
+    } catch (error: any) {
+      throw createCarrierError(this.code, error?.data?.message || error?.message || 'Request failed', error);
+    }
+  }
+
+  private buildShipment(request: ShipmentRequest) {
+    return {
+      reference: request.reference,
+      origin: request.shipFrom,
+      destination: request.shipTo,
+      handlingUnits: request.packages.map(pkg => ({
+        type: 'PIECE',
+        length: pkg.lengthIn,
+        width: pkg.widthIn,
+        height: pkg.heightIn,
+        weight: pkg.weightLb,
+        freightClass: this.config.freightClass || '125',
+        description: 'Spa covers'
+      }))
+    };
+  }
+}
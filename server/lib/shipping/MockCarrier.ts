@@ -0,0 +1,143 @@
+import type {
+  CarrierAdapter,
+  CarrierLabel,
+  CarrierRate,
+  CarrierTracking,
+  ShipmentRequest
+} from './types';
+import { createCarrierError } from './types';
+
+const MOCK_SERVICES = [
+  { serviceCode: 'MOCK_GROUND', serviceName: 'Mock Ground', baseAmount: 45, perLb: 0.65, transitDays: 5 },
+  { serviceCode: 'MOCK_EXPRESS', serviceName: 'Mock Express', baseAmount: 95, perLb: 1.4, transitDays: 2 }
+];
+
+/**
+ * Local carrier used in development and tests - rates are computed from package weight,
+ * labels are simple generated PDFs and tracking numbers are never sent anywhere.
+ */
+export class MockCarrier implements CarrierAdapter {
+  readonly code = 'MOCK';
+  readonly name = 'Mock Carrier';
+
+  private sequence = 0;
+  private readonly tracking = new Map<string, CarrierTracking>();
+  private readonly voided = new Set<string>();
+
+  constructor(private readonly enabled = true) {}
+
+  isConfigured(): boolean {
+    return this.enabled;
+  }
+
+  async getRates(request: ShipmentRequest): Promise<CarrierRate[]> {
+    const totalWeight = request.packages.reduce((sum, pkg) => sum + pkg.weightLb, 0);
+
+    return MOCK_SERVICES.map(service => ({
+      carrier: this.code,
+      serviceCode: service.serviceCode,
+      serviceName: service.serviceName,
+      amount: Math.round((service.baseAmount * request.packages.length + service.perLb * totalWeight) * 100) / 100,
+      currency: 'USD',
+      transitDays: service.transitDays
+    }));
+  }
+
+  async createLabel(request: ShipmentRequest, serviceCode: string): Promise<CarrierLabel> {
+    const service = MOCK_SERVICES.find(s => s.serviceCode === serviceCode);
+    if (!service) {
+      throw createCarrierError(this.code, `Unknown service ${serviceCode}`);
+    }
+
+    const [rate] = (await this.getRates(request)).filter(r => r.serviceCode === serviceCode);
+    const masterTrackingNumber = this.nextTrackingNumber();
+
+    const packages = request.packages.map((pkg, index) => {
+      const trackingNumber = index === 0 ? masterTrackingNumber : this.nextTrackingNumber();
+      return {
+        trackingNumber,
+        labelFormat: 'PDF',
+        labelData: buildPlainTextPdf([
+          `${this.name} - ${service.serviceName}`,
+          `Tracking: ${trackingNumber}`,
+          `Package ${index + 1} of ${request.packages.length} - ${pkg.weightLb} lb`,
+          `${pkg.lengthIn} x ${pkg.widthIn} x ${pkg.heightIn} in`,
+          `Ref: ${request.reference}`,
+          `To: ${request.shipTo.name}`,
+          request.shipTo.addressLine1,
+          `${request.shipTo.city}, ${request.shipTo.state} ${request.shipTo.zipCode}`
+        ])
+      };
+    });
+
+    this.tracking.set(masterTrackingNumber, { status: 'LABEL_CREATED', description: 'Label created' });
+
+    return {
+      trackingNumber: masterTrackingNumber,
+      packages,
+      amount: rate.amount,
+      currency: rate.currency
+    };
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTracking> {
+    if (this.voided.has(trackingNumber)) {
+      throw createCarrierError(this.code, `Tracking number ${trackingNumber} was voided`);
+    }
+    return this.tracking.get(trackingNumber) || { status: 'IN_TRANSIT', description: 'In transit' };
+  }
+
+  async voidLabel(trackingNumber: string): Promise<void> {
+    this.voided.add(trackingNumber);
+    this.tracking.delete(trackingNumber);
+  }
+
+  /**
+   * Set the tracking result returned for a tracking number (used by tests)
+   */
+  setTracking(trackingNumber: string, tracking: CarrierTracking): void {
+    this.tracking.set(trackingNumber, tracking);
+  }
+
+  private nextTrackingNumber(): string {
+    this.sequence++;
+    return `MOCK${Date.now().toString().slice(-8)}${String(this.sequence).padStart(4, '0')}`;
+  }
+}
+
+/**
+ * Build a one-page PDF containing the given lines of text
+ */
+function buildPlainTextPdf(lines: string[]): Buffer {
+  const escape = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+  const content = [
+    'BT',
+    '/F1 14 Tf',
+    '36 380 Td',
+    '18 TL',
+    ...lines.map(line => `(${escape(line)}) '`),
+    'ET'
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 288 432] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf);
+}
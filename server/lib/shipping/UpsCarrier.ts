@@ -0,0 +1,252 @@
+import type {
+  CarrierAdapter,
+  CarrierLabel,
+  CarrierRate,
+  CarrierTracking,
+  ShipmentRequest,
+  ShippingAddress
+} from './types';
+import { createCarrierError } from './types';
+
+export interface UpsCarrierConfig {
+  clientId?: string;
+  clientSecret?: string;
+  accountNumber?: string;
+  environment?: string; // 'production' or 'sandbox'
+}
+
+const UPS_API_VERSION = 'v2409';
+
+const UPS_SERVICES: Record<string, string> = {
+  '03': 'UPS Ground',
+  '12': 'UPS 3 Day Select',
+  '02': 'UPS 2nd Day Air',
+  '13': 'UPS Next Day Air Saver',
+  '01': 'UPS Next Day Air'
+};
+
+/**
+ * UPS REST API adapter (OAuth client credentials, Rating, Shipping and Tracking APIs)
+ */
+export class UpsCarrier implements CarrierAdapter {
+  readonly code = 'UPS';
+  readonly name = 'UPS';
+
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(private readonly config: UpsCarrierConfig) {}
+
+  isConfigured(): boolean {
+    return !!(this.config.clientId && this.config.clientSecret && this.config.accountNumber);
+  }
+
+  async getRates(request: ShipmentRequest): Promise<CarrierRate[]> {
+    const response = await this.request<any>(`/api/rating/${UPS_API_VERSION}/Shop`, {
+      method: 'POST',
+      body: {
+        RateRequest: {
+          Request: { RequestOption: 'Shop' },
+          Shipment: {
+            ...this.buildParties(request),
+            Package: request.packages.map(pkg => this.buildPackage(pkg, 'PackagingType'))
+          }
+        }
+      }
+    });
+
+    const ratedShipments = toArray(response?.RateResponse?.RatedShipment);
+
+    return ratedShipments
+      .filter(rated => UPS_SERVICES[rated.Service?.Code])
+      .map(rated => ({
+        carrier: this.code,
+        serviceCode: rated.Service.Code,
+        serviceName: UPS_SERVICES[rated.Service.Code],
+        amount: parseFloat(rated.TotalCharges?.MonetaryValue || '0'),
+        currency: rated.TotalCharges?.CurrencyCode || 'USD',
+        transitDays: rated.GuaranteedDelivery?.BusinessDaysInTransit
+          ? parseInt(rated.GuaranteedDelivery.BusinessDaysInTransit)
+          : null
+      }));
+  }
+
+  async createLabel(request: ShipmentRequest, serviceCode: string): Promise<CarrierLabel> {
+    const response = await this.request<any>(`/api/shipments/${UPS_API_VERSION}/ship`, {
+      method: 'POST',
+      body: {
+        ShipmentRequest: {
+          Request: { RequestOption: 'nonvalidate' },
+          Shipment: {
+            Description: request.reference,
+            ...this.buildParties(request),
+            PaymentInformation: {
+              ShipmentCharge: [{ Type: '01', BillShipper: { AccountNumber: this.config.accountNumber } }]
+            },
+            Service: { Code: serviceCode },
+            ReferenceNumber: { Value: request.reference.slice(0, 35) },
+            Package: request.packages.map(pkg => this.buildPackage(pkg, 'Packaging'))
+          },
+          // UPS only returns thermal/GIF label images - GIF prints on standard 4x6 label paper
+          LabelSpecification: { LabelImageFormat: { Code: 'GIF' } }
+        }
+      }
+    });
+
+    const results = response?.ShipmentResponse?.ShipmentResults;
+    if (!results?.ShipmentIdentificationNumber) {
+      throw createCarrierError(this.code, 'Shipment response did not include a tracking number');
+    }
+
+    return {
+      trackingNumber: results.ShipmentIdentificationNumber,
+      packages: toArray(results.PackageResults).map(pkg => ({
+        trackingNumber: pkg.TrackingNumber || null,
+        labelFormat: pkg.ShippingLabel?.ImageFormat?.Code || 'GIF',
+        labelData: pkg.ShippingLabel?.GraphicImage ? Buffer.from(pkg.ShippingLabel.GraphicImage, 'base64') : null
+      })),
+      amount: results.ShipmentCharges?.TotalCharges?.MonetaryValue
+        ? parseFloat(results.ShipmentCharges.TotalCharges.MonetaryValue)
+        : null,
+      currency: results.ShipmentCharges?.TotalCharges?.CurrencyCode || 'USD'
+    };
+  }
+
+  async getTracking(trackingNumber: string): Promise<CarrierTracking> {
+    const response = await this.request<any>(`/api/track/v1/details/${encodeURIComponent(trackingNumber)}`, {
+      method: 'GET',
+      headers: { transactionSrc: 'spacovers-admin' }
+    });
+
+    const pkg = response?.trackResponse?.shipment?.[0]?.package?.[0];
+    if (!pkg) {
+      throw createCarrierError(this.code, `No tracking information for ${trackingNumber}`);
+    }
+
+    const statusType: string = pkg.currentStatus?.type || pkg.activity?.[0]?.status?.type || '';
+    const deliveryDates = toArray(pkg.deliveryDate);
+    const delivered = deliveryDates.find(date => date.type === 'DEL');
+    const scheduled = deliveryDates.find(date => date.type !== 'DEL');
+
+    return {
+      status: statusType === 'D' ? 'DELIVERED'
+        : statusType === 'X' ? 'EXCEPTION'
+          : statusType === 'M' ? 'LABEL_CREATED'
+            : 'IN_TRANSIT',
+      description: pkg.currentStatus?.description || pkg.activity?.[0]?.status?.description || 'Unknown',
+      estimatedDelivery: scheduled ? parseUpsDate(scheduled.date) : null,
+      deliveredAt: delivered ? parseUpsDate(delivered.date) : null
+    };
+  }
+
+  async voidLabel(trackingNumber: string): Promise<void> {
+    await this.request(`/api/shipments/${UPS_API_VERSION}/void/cancel/${encodeURIComponent(trackingNumber)}`, {
+      method: 'DELETE'
+    });
+  }
+
+  private get baseUrl(): string {
+    return this.config.environment === 'production'
+      ? 'https://onlinetools.ups.com'
+      : 'https://wwwcie.ups.com';
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    try {
+      const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+      const response = await $fetch<{ access_token: string; expires_in: string }>(`${this.baseUrl}/security/v1/oauth/token`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'x-merchant-id': this.config.accountNumber || ''
+        },
+        body: 'grant_type=client_credentials'
+      });
+
+      this.accessToken = response.access_token;
+      // Refresh a minute early so a request never goes out with an expired token
+      this.accessTokenExpiresAt = Date.now() + (parseInt(response.expires_in) - 60) * 1000;
+      return this.accessToken;
+    } catch (error) {
+      throw createCarrierError(this.code, 'Authentication failed', error);
+    }
+  }
+
+  private async request<T>(path: string, options: { method: 'GET' | 'POST' | 'DELETE'; body?: unknown; headers?: Record<string, string> }): Promise<T> {
+    if (!this.isConfigured()) {
+      throw createCarrierError(this.code, 'Carrier is not configured');
+    }
+
+    const token = await this.getAccessToken();
+
+    try {
+      return await $fetch<T>(`${this.baseUrl}${path}`, {
+        method: options.method,
+        body: options.body as Record<string, unknown> | undefined,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'transId': crypto.randomUUID().replace(/-/g, '').slice(0, 32),
+          ...options.headers
+        }
+      });
+    } catch (error: any) {
+      const message = error?.data?.response?.errors?.[0]?.message || error?.message || 'Request failed';
+      throw createCarrierError(this.code, message, error);
+    }
+  }
+
+  private buildParties(request: ShipmentRequest) {
+    return {
+      Shipper: { ...this.buildParty(request.shipFrom), ShipperNumber: this.config.accountNumber },
+      ShipFrom: this.buildParty(request.shipFrom),
+      ShipTo: this.buildParty(request.shipTo)
+    };
+  }
+
+  private buildParty(address: ShippingAddress) {
+    return {
+      Name: (address.company || address.name).slice(0, 35),
+      AttentionName: address.name.slice(0, 35),
+      Phone: address.phone ? { Number: address.phone.replace(/\D/g, '') } : undefined,
+      Address: {
+        AddressLine: [address.addressLine1, address.addressLine2].filter(Boolean),
+        City: address.city,
+        StateProvinceCode: address.state,
+        PostalCode: address.zipCode,
+        CountryCode: address.country
+      }
+    };
+  }
+
+  private buildPackage(pkg: ShipmentRequest['packages'][number], packagingKey: 'PackagingType' | 'Packaging') {
+    return {
+      [packagingKey]: { Code: '02' }, // Customer supplied package
+      Dimensions: {
+        UnitOfMeasurement: { Code: 'IN' },
+        Length: String(pkg.lengthIn),
+        Width: String(pkg.widthIn),
+        Height: String(pkg.heightIn)
+      },
+      PackageWeight: {
+        UnitOfMeasurement: { Code: 'LBS' },
+        Weight: String(pkg.weightLb)
+      }
+    };
+  }
+}
+
+function toArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseUpsDate(value?: string): Date | null {
+  // UPS dates are YYYYMMDD
+  if (!value || value.length !== 8) return null;
+  return new Date(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T00:00:00Z`);
+}
@@ -0,0 +1,54 @@
+import type { CarrierAdapter, ShippingAddress } from './types';
+import { UpsCarrier } from './UpsCarrier';
+import { FedExCarrier } from './FedExCarrier';
+import { FreightCarrier } from './FreightCarrier';
+import { MockCarrier } from './MockCarrier';
+
+export * from './types';
+export { UpsCarrier, FedExCarrier, FreightCarrier, MockCarrier };
+
+let carriers: CarrierAdapter[] | null = null;
+
+/**
+ * Get every carrier adapter, built once from the runtime config
+ */
+export function getCarrierAdapters(): CarrierAdapter[] {
+  if (!carriers) {
+    const config = useRuntimeConfig().shipping;
+    carriers = [
+      new UpsCarrier(config.ups),
+      new FedExCarrier(config.fedex),
+      new FreightCarrier(config.freight),
+      new MockCarrier(!!config.mockCarrier)
+    ];
+  }
+  return carriers;
+}
+
+/**
+ * Get the adapters that have credentials configured
+ */
+export function getConfiguredCarriers(): CarrierAdapter[] {
+  return getCarrierAdapters().filter(carrier => carrier.isConfigured());
+}
+
+/**
+ * Find a carrier adapter by its code (e.g. UPS)
+ */
+export function getCarrierAdapter(code: string): CarrierAdapter | undefined {
+  return getCarrierAdapters().find(carrier => carrier.code === code);
+}
+
+/**
+ * Replace the carrier adapters (used by tests)
+ */
+export function setCarrierAdapters(adapters: CarrierAdapter[] | null): void {
+  carriers = adapters;
+}
+
+/**
+ * The warehouse address labels are shipped from
+ */
+export function getShipFromAddress(): ShippingAddress {
+  return useRuntimeConfig().shipping.shipFrom;
+}
@@ -0,0 +1,76 @@
+// Carrier adapter contract - every carrier (parcel or freight) is wrapped in a CarrierAdapter
+// so ShippingService can rate-shop, buy labels and sync tracking without knowing carrier APIs.
+
+import type { ShippingPackageDimensions } from '../../../utils/shippingPackages';
+
+export interface ShippingAddress {
+  name: string;
+  company?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  addressLine1: string;
+  addressLine2?: string | null;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string; // ISO 3166-1 alpha-2, e.g. US
+}
+
+export interface ShipmentRequest {
+  reference: string; // Shown on the label, usually the sales order number
+  shipFrom: ShippingAddress;
+  shipTo: ShippingAddress;
+  packages: ShippingPackageDimensions[];
+}
+
+export interface CarrierRate {
+  carrier: string;
+  serviceCode: string;
+  serviceName: string;
+  amount: number;
+  currency: string;
+  transitDays?: number | null;
+  estimatedDelivery?: Date | null;
+}
+
+export interface CarrierLabel {
+  trackingNumber: string;
+  packages: Array<{
+    trackingNumber: string | null;
+    labelFormat: string;
+    labelData: Buffer | null;
+  }>;
+  amount?: number | null;
+  currency?: string;
+}
+
+export type CarrierTrackingStatus = 'LABEL_CREATED' | 'IN_TRANSIT' | 'DELIVERED' | 'EXCEPTION';
+
+export interface CarrierTracking {
+  status: CarrierTrackingStatus;
+  description: string;
+  estimatedDelivery?: Date | null;
+  deliveredAt?: Date | null;
+}
+
+export interface CarrierAdapter {
+  readonly code: string;
+  readonly name: string;
+  isConfigured(): boolean;
+  getRates(request: ShipmentRequest): Promise<CarrierRate[]>;
+  createLabel(request: ShipmentRequest, serviceCode: string): Promise<CarrierLabel>;
+  getTracking(trackingNumber: string): Promise<CarrierTracking>;
+  voidLabel(trackingNumber: string): Promise<void>;
+}
+
+/**
+ * Build an Error for carrier API failures so callers can tell them apart from our own bugs
+ */
+export function createCarrierError(carrier: string, message: string, cause?: unknown): Error {
+  const error = new Error(`${carrier}: ${message}`);
+  error.name = 'CarrierError';
+  if (cause) {
+    (error as Error & { cause?: unknown }).cause = cause;
+  }
+  return error;
+}
@@ -0,0 +1,43 @@
+import { jobQueue } from '~/server/lib/JobQueueService';
+import { registerBackgroundJobs } from '~/server/lib/backgroundJobs';
+
+// How often the worker checks the queue for due jobs
+const JOB_POLL_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Nitro server plugin that runs the Postgres-backed background job queue
+ * Every instance polls the queue; jobs are claimed in the database so each runs once.
+ */
+export default async function () {
+  try {
+    await registerBackgroundJobs();
+  } catch (error) {
+    console.error('[JobQueue] Failed to register background jobs:', error);
+  }
+
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      await jobQueue.runDueJobs();
+    } catch (error) {
+      console.error('[JobQueue] Failed to run due jobs:', error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const interval = setInterval(poll, JOB_POLL_INTERVAL_MS);
+  console.log('[JobQueue] Background job worker started', { jobs: jobQueue.getRegisteredJobs().map(job => job.name) });
+
+  const gracefulShutdown = (signal: string) => {
+    console.log(`[JobQueue] Received ${signal}, stopping background job worker...`);
+    clearInterval(interval);
+  };
+
+  process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+  process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+}
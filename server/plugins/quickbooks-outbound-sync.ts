@@ -0,0 +1,22 @@
+import { quickBooksSyncService } from '~/server/lib/QuickBooksSyncService';
+import { QuickBooksLogger } from '~/server/lib/quickbooksLogger';
+import { eventEmitter } from '~/server/utils/eventEmitter';
+
+/**
+ * Nitro server plugin that queues QuickBooks invoice updates when an order's status changes
+ * Shipment and tracking edits queue theirs where they happen; the queued updates are pushed
+ * by the qbo.outbound-sync background job.
+ */
+export default async function () {
+  const config = useRuntimeConfig();
+  if (!config.qboOutboundSync?.enabled) {
+    QuickBooksLogger.info('OutboundSync', 'QuickBooks outbound sync disabled');
+    return;
+  }
+
+  eventEmitter.on('orderStatusChange', (data) => {
+    quickBooksSyncService.enqueueInvoiceSync(data.orderId, `status:${data.toStatus}`).catch((error) => {
+      QuickBooksLogger.error('OutboundSync', `Failed to queue invoice sync for order ${data.orderId}`, error);
+    });
+  });
+}
@@ -1,21 +1,17 @@
-import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager';
 import { QuickBooksErrorHandler } from '~/server/lib/quickbooksErrorHandler';
 import { QuickBooksMonitor } from '~/server/lib/quickbooksMonitor';
 import { QuickBooksLogger } from '~/server/lib/quickbooksLogger';
 
 /**
- * Nitro server plugin that initializes the QuickBooks token refresh scheduler and monitoring
- * This plugin runs when the server starts and sets up automatic token refresh and health monitoring
+ * Nitro server plugin that initializes QuickBooks monitoring
+ * This plugin runs when the server starts and sets up health monitoring. Token refresh runs on the
+ * background job queue (see backgroundJobs.ts), so it runs once across instances and survives restarts.
  */
 export default async function () {
   const startTime = new Date();
   QuickBooksLogger.info('SchedulerPlugin', 'Initializing QuickBooks services...');
   
   try {
-    // Start the token refresh scheduler with error handling
-    await QuickBooksTokenManager.startTokenRefreshScheduler();
-    QuickBooksLogger.info('SchedulerPlugin', 'QuickBooks token refresh scheduler started successfully');
-    
     // Start monitoring services
     const monitor = QuickBooksMonitor.getInstance();
     monitor.start();
@@ -44,10 +40,6 @@ export default async function () {
       monitor.stop();
       QuickBooksLogger.info('SchedulerPlugin', 'QuickBooks monitoring services stopped');
       
-      // Stop scheduler
-      QuickBooksTokenManager.stopTokenRefreshScheduler();
-      QuickBooksLogger.info('SchedulerPlugin', 'QuickBooks token refresh scheduler stopped');
-      
     } catch (error) {
       QuickBooksLogger.error('SchedulerPlugin', `Error during ${signal} shutdown`, error);
     }
@@ -5,6 +5,8 @@ interface ItemStatusChangeEvent {
   orderItemId: string;
   fromStatus: string;
   toStatus: string;
+  orderId?: string;
+  customerId?: string;
   orderNumber?: string;
   itemName?: string;
   userId?: string;
@@ -16,17 +18,62 @@ interface OrderStatusChangeEvent {
   orderId: string;
   fromStatus: string;
   toStatus: string;
+  customerId?: string;
   orderNumber?: string;
   userId?: string;
   timestamp: Date;
 }
 
-// In a real-world scenario, this would use WebSockets, Server-Sent Events, or a message queue
-// For now, we'll use a simple in-memory event system that can be extended later
+interface PrintQueueChangeEvent {
+  action: 'ADDED' | 'REMOVED' | 'PRINTED' | 'UPDATED';
+  queueItemIds?: string[];
+  orderItemIds?: string[];
+  orderIds?: string[];
+  userId?: string;
+  timestamp: Date;
+}
+
+// An admin pinned, unpinned or boosted an item on the warehouse priority list
+interface PriorityChangeEvent {
+  orderItemId: string;
+  orderId?: string;
+  orderNumber?: string;
+  pinned: boolean;
+  boost: number;
+  userId?: string;
+  timestamp: Date;
+}
+
+type RealtimeEventType = 'itemStatusChange' | 'orderStatusChange' | 'printQueueChange' | 'priorityChange';
+
+// An emitted event as it is streamed to clients over Server-Sent Events (/api/realtime/events)
+interface RealtimeEvent {
+  id: string; // "<streamId>-<sequence>", sent as the SSE event ID for Last-Event-ID replay
+  type: RealtimeEventType;
+  data: ItemStatusChangeEvent | OrderStatusChangeEvent | PrintQueueChangeEvent | PriorityChangeEvent;
+}
+
+interface RealtimeEventFilter {
+  orderId?: string;
+  stationName?: string;
+  customerId?: string;
+  types?: RealtimeEventType[];
+}
+
+// Number of recent events kept in memory so reconnecting clients can catch up
+const REPLAY_BUFFER_SIZE = 500;
+
+// Events are kept in memory and pushed to connected SSE clients by this process only.
+// Running more than one server instance would need a shared bus (e.g. Postgres LISTEN/NOTIFY) in front of this.
 
 class EventEmitter {
   private static instance: EventEmitter;
   private listeners: Map<string, Array<(data: any) => void>> = new Map();
+  private subscribers: Set<(event: RealtimeEvent) => void> = new Set();
+  private history: RealtimeEvent[] = [];
+  private sequence = 0;
+  // Changes on every server start so clients can tell that their last event ID is from a previous run
+  private readonly streamId = Date.now().toString(36);
 
   static getInstance(): EventEmitter {
     if (!EventEmitter.instance) {
@@ -39,13 +86,6 @@ class EventEmitter {
   emitItemStatusChange(event: ItemStatusChangeEvent) {
     console.log('📡 Emitting item status change event:', event);
     
-    // In a production environment, this would:
-    // 1. Send WebSocket message to connected clients
-    // 2. Publish to Redis/message queue for horizontal scaling
-    // 3. Update real-time dashboard displays
-    
-    // For now, we'll log the event for debugging
-    // The frontend will use polling and custom events for real-time updates
     this.emit('itemStatusChange', event);
   }
 
@@ -55,8 +95,39 @@ class EventEmitter {
     this.emit('orderStatusChange', event);
   }
 
+  // Emit print queue change event (items added, removed or printed)
+  emitPrintQueueChange(event: PrintQueueChangeEvent) {
+    console.log('📡 Emitting print queue change event:', event);
+    this.emit('printQueueChange', event);
+  }
+
+  // Emit priority change event (item pinned or boosted on the priority list)
+  emitPriorityChange(event: PriorityChangeEvent) {
+    console.log('📡 Emitting priority change event:', event);
+    this.emit('priorityChange', event);
+  }
+
   // Generic event emitter
-  private emit(eventType: string, data: any) {
+  private emit(eventType: RealtimeEventType, data: RealtimeEvent['data']) {
+    const realtimeEvent: RealtimeEvent = {
+      id: `${this.streamId}-${++this.sequence}`,
+      type: eventType,
+      data
+    };
+
+    this.history.push(realtimeEvent);
+    if (this.history.length > REPLAY_BUFFER_SIZE) {
+      this.history.shift();
+    }
+
+    this.subscribers.forEach(subscriber => {
+      try {
+        subscriber(realtimeEvent);
+      } catch (error) {
+        console.error(`Error in realtime subscriber for ${eventType}:`, error);
+      }
+    });
+
     const listeners = this.listeners.get(eventType) || [];
     listeners.forEach(listener => {
       try {
@@ -85,10 +156,105 @@ class EventEmitter {
       }
     }
   }
+
+  // Subscribe to every event (used by the SSE stream); returns an unsubscribe function
+  subscribe(subscriber: (event: RealtimeEvent) => void): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  // Get the events emitted after the given event ID
+  // Returns null when they can no longer be replayed (the ID is from a previous server run or older than the buffer)
+  getEventsSince(lastEventId: string): RealtimeEvent[] | null {
+    const [streamId, sequenceText] = lastEventId.split('-');
+    const lastSequence = Number(sequenceText);
+
+    if (streamId !== this.streamId || !Number.isInteger(lastSequence) || lastSequence > this.sequence) {
+      return null;
+    }
+
+    const oldestSequence = this.sequence - this.history.length + 1;
+    if (lastSequence < oldestSequence - 1) {
+      return null;
+    }
+
+    return this.history.slice(lastSequence - oldestSequence + 1);
+  }
+
+  // ID of the most recent event, sent to new clients so their first reconnect can be replayed
+  getLastEventId(): string {
+    return `${this.streamId}-${this.sequence}`;
+  }
+}
+
+/**
+ * Check whether an event matches a client's stream filter
+ * Events that do not carry the filtered field (e.g. order events when filtering by station) are excluded.
+ */
+export function matchesRealtimeEventFilter(event: RealtimeEvent, filter: RealtimeEventFilter): boolean {
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) {
+    return false;
+  }
+
+  const data = event.data as Partial<ItemStatusChangeEvent & OrderStatusChangeEvent & PrintQueueChangeEvent>;
+
+  if (filter.orderId && data.orderId !== filter.orderId && !data.orderIds?.includes(filter.orderId)) {
+    return false;
+  }
+
+  if (filter.stationName && data.stationName !== filter.stationName) {
+    return false;
+  }
+
+  if (filter.customerId && data.customerId !== filter.customerId) {
+    return false;
+  }
+
+  return true;
+}
+
+// Who is subscribing to the stream: staff see every event, a customer portal session only its own customer's
+type RealtimeSubscriber =
+  | { kind: 'staff' }
+  | { kind: 'customer'; customerId: string };
+
+// Event types a customer portal session may subscribe to
+const CUSTOMER_EVENT_TYPES: RealtimeEventType[] = ['itemStatusChange', 'orderStatusChange'];
+
+// Limit a requested filter to what the subscriber may see, or null when it asks for events it may not see
+export function scopeRealtimeEventFilter(filter: RealtimeEventFilter, subscriber: RealtimeSubscriber): RealtimeEventFilter | null {
+  if (subscriber.kind === 'staff') {
+    return filter;
+  }
+
+  if (filter.customerId && filter.customerId !== subscriber.customerId) {
+    return null;
+  }
+
+  const requestedTypes = filter.types && filter.types.length > 0 ? filter.types : CUSTOMER_EVENT_TYPES;
+  const types = requestedTypes.filter(type => CUSTOMER_EVENT_TYPES.includes(type));
+
+  // An empty type list matches everything, so asking only for staff event types is refused outright
+  if (types.length === 0) {
+    return null;
+  }
+
+  return { ...filter, customerId: subscriber.customerId, types };
 }
 
 // Export singleton instance
 export const eventEmitter = EventEmitter.getInstance();
 
 // Export event interfaces for type safety
-export type { ItemStatusChangeEvent, OrderStatusChangeEvent };
\ No newline at end of file
+export type {
+  ItemStatusChangeEvent,
+  OrderStatusChangeEvent,
+  PrintQueueChangeEvent,
+  PriorityChangeEvent,
+  RealtimeEvent,
+  RealtimeEventFilter,
+  RealtimeEventType,
+  RealtimeSubscriber
+};
\ No newline at end of file
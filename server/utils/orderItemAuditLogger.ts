@@ -21,6 +21,7 @@ export interface OrderItemAuditContext {
 
 export interface OrderItemStatusChangeDetails {
   orderItemId: string;
+  unitId?: string | null; // Set when the change was for one unit of a multi-quantity order item
   fromStatus: OrderItemProcessingStatus | null;
   toStatus: OrderItemProcessingStatus;
   changeReason: string;
@@ -82,6 +83,7 @@ export async function logOrderItemStatusChangeWithContext(
     // Create comprehensive audit log entry
     const auditData = {
       orderItemId: details.orderItemId,
+      unitId: details.unitId || null,
       userId: context.userId || null,
       fromStatus: details.fromStatus,
       toStatus: details.toStatus,
@@ -0,0 +1,40 @@
+import type { H3Event } from 'h3';
+import { getCookie, setCookie, deleteCookie } from 'h3';
+import { customerPortalService, PORTAL_SESSION_TTL_DAYS, type PortalSession } from '~/server/lib/CustomerPortalService';
+
+// Separate from the Better-Auth cookie so a portal session can never be used on staff endpoints
+export const PORTAL_SESSION_COOKIE = 'spacovers_portal_session';
+
+/**
+ * Store the portal session token in an httpOnly cookie
+ */
+export function setPortalSessionCookie(event: H3Event, sessionToken: string): void {
+  setCookie(event, PORTAL_SESSION_COOKIE, sessionToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PORTAL_SESSION_TTL_DAYS * 24 * 60 * 60
+  });
+}
+
+export function clearPortalSessionCookie(event: H3Event): void {
+  deleteCookie(event, PORTAL_SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Get the portal session for the request or throw a 401
+ */
+export async function requirePortalSession(event: H3Event): Promise<PortalSession> {
+  const sessionToken = getCookie(event, PORTAL_SESSION_COOKIE);
+  const session = sessionToken ? await customerPortalService.getSession(sessionToken) : null;
+
+  if (!session) {
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Please sign in to view your orders'
+    });
+  }
+
+  return session;
+}
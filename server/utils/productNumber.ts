@@ -15,21 +15,11 @@ export async function getNextProductNumber(tx?: any): Promise<number> {
     const client = tx || prisma;
     
     // Get the highest existing product number
-    const highestProductNumber = await client.orderItem.findFirst({
-      where: {
-        productNumber: { not: null }
-      },
-      orderBy: {
-        productNumber: 'desc'
-      },
-      select: {
-        productNumber: true
-      }
-    });
+    const highestProductNumber = await getHighestProductNumber(client);
 
     // Start from 1001 or increment from the highest
-    return highestProductNumber?.productNumber 
-      ? highestProductNumber.productNumber + 1 
+    return highestProductNumber 
+      ? highestProductNumber + 1 
       : 1001;
   } catch (error) {
     console.error('Error getting next product number:', error);
@@ -49,21 +39,11 @@ export async function getNextProductNumbers(count: number, tx?: any): Promise<nu
     const client = tx || prisma;
     
     // Get the highest existing product number
-    const highestProductNumber = await client.orderItem.findFirst({
-      where: {
-        productNumber: { not: null }
-      },
-      orderBy: {
-        productNumber: 'desc'
-      },
-      select: {
-        productNumber: true
-      }
-    });
+    const highestProductNumber = await getHighestProductNumber(client);
 
     // Start from 1001 or increment from the highest
-    const startNumber = highestProductNumber?.productNumber 
-      ? highestProductNumber.productNumber + 1 
+    const startNumber = highestProductNumber 
+      ? highestProductNumber + 1 
       : 1001;
 
     // Generate sequential numbers
@@ -79,6 +59,38 @@ export async function getNextProductNumbers(count: number, tx?: any): Promise<nu
   }
 }
 
+/**
+ * Highest product number in use, across order items and the units of multi-quantity order items
+ * @param client - Prisma client or transaction client
+ * @returns Promise<number | null> - The highest product number, or null if none are assigned yet
+ */
+async function getHighestProductNumber(client: any): Promise<number | null> {
+  const [highestItem, highestUnit] = await Promise.all([
+    client.orderItem.findFirst({
+      where: {
+        productNumber: { not: null }
+      },
+      orderBy: {
+        productNumber: 'desc'
+      },
+      select: {
+        productNumber: true
+      }
+    }),
+    client.orderItemUnit.findFirst({
+      orderBy: {
+        productNumber: 'desc'
+      },
+      select: {
+        productNumber: true
+      }
+    })
+  ]);
+
+  const highest = Math.max(highestItem?.productNumber || 0, highestUnit?.productNumber || 0);
+  return highest || null;
+}
+
 /**
  * Format a product number for display (adds "P" prefix)
  * @param productNumber - The numeric product number
@@ -1,4 +1,5 @@
 import { unenhancedPrisma } from '~/server/lib/db'
+import { formatCatalogDescription, parseCoverDescription } from '~/utils/descriptionGrammar'
 
 const prisma = unenhancedPrisma
 
@@ -21,58 +22,28 @@ export interface ParsedProduct {
 
 /**
  * Parse a product description string into structured specifications
+ * Only the catalog's seven-line dialect of the description grammar makes a product; other descriptions return null.
  * Example input: "93X93\nRound\n8\n5\"-2.5\" STEAM STOPPER\n5-FL-SLIT\n6-TD\nBLACK (VINYL)"
  */
 export function parseProductDescription(description: string): ParsedProduct | null {
-  try {
-    const lines = description.trim().split('\n').map(line => line.trim()).filter(line => line.length > 0)
-    
-    if (lines.length < 7) {
-      return null // Not enough lines for a complete product description
-    }
-
-    const specs: ProductSpecs = {
-      size: lines[0] || '',
-      shape: lines[1] || '',
-      pieces: parseInt(lines[2]) || 0,
-      foamThickness: lines[3] || '',
-      skit: lines[4] || '',
-      tiedown: lines[5] || '',
-      color: lines[6] || ''
-    }
-
-    // Validate required fields
-    if (!specs.size || !specs.shape || specs.pieces === 0 || !specs.foamThickness || !specs.skit || !specs.tiedown || !specs.color) {
-      return null
-    }
-
-    const fullDescription = lines.join('\n')
-    const displayName = `${specs.size} ${specs.shape} ${specs.color}`
-
-    return {
-      specs,
-      fullDescription,
-      displayName
-    }
-  } catch (error) {
-    console.error('Error parsing product description:', error)
+  const parse = parseCoverDescription(description)
+  if (parse.format !== 'CATALOG' || !parse.catalog) {
     return null
   }
+
+  const specs: ProductSpecs = { ...parse.catalog }
+  return {
+    specs,
+    fullDescription: formatCatalogDescription(parse.catalog),
+    displayName: `${specs.size} ${specs.shape} ${specs.color}`
+  }
 }
 
 /**
  * Find or create a product based on specifications
  */
 export async function findOrCreateProduct(specs: ProductSpecs): Promise<{ product: any; created: boolean }> {
-  const fullDescription = [
-    specs.size,
-    specs.shape,
-    specs.pieces.toString(),
-    specs.foamThickness,
-    specs.skit,
-    specs.tiedown,
-    specs.color
-  ].join('\n')
+  const fullDescription = formatCatalogDescription(specs)
 
   const displayName = `${specs.size} ${specs.shape} ${specs.color}`
 
@@ -0,0 +1,86 @@
+/**
+ * Shared pieces of the quote endpoints - request validation, error responses and queueing the QBO push
+ */
+
+import type { H3Event } from 'h3';
+import { z } from 'zod';
+import { jobQueue } from '~/server/lib/JobQueueService';
+import { QUOTE_QBO_PUSH_JOB } from '~/server/lib/backgroundJobs';
+import { COVER_CONFIGURATOR_SHAPES, COVER_SKIRT_TYPES, COVER_TIE_DOWN_PLACEMENTS } from '~/utils/coverConfigurator';
+
+export const CoverConfigurationSchema = z.object({
+  color: z.string(),
+  shape: z.enum(COVER_CONFIGURATOR_SHAPES),
+  size: z.string(),
+  length: z.string(),
+  width: z.string(),
+  radiusSize: z.string(),
+  skirtLength: z.string(),
+  skirtType: z.enum(COVER_SKIRT_TYPES),
+  tieDownsQty: z.number().int().min(0),
+  tieDownPlacement: z.enum(COVER_TIE_DOWN_PLACEMENTS),
+  distance: z.string(),
+  foamUpgrade: z.string(),
+  doublePlasticWrap: z.boolean(),
+  webbing: z.boolean(),
+  metalForLifter: z.boolean(),
+  steamStopper: z.boolean(),
+  fabricUpgrade: z.boolean(),
+  extraHandleQty: z.number().int().min(0),
+  packaging: z.boolean()
+});
+
+export const QuoteInputSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  customerEmail: z.string().email('Please enter a valid email address').nullish().or(z.literal('')),
+  expirationDate: z.coerce.date().nullish(),
+  customerMemo: z.string().max(4000).nullish(),
+  items: z.array(z.object({
+    itemId: z.string().min(1, 'Item is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+    pricePerItem: z.number().min(0, 'Price cannot be negative').nullish(),
+    lineDescription: z.string().max(4000).nullish(),
+    coverConfiguration: CoverConfigurationSchema.nullish()
+  })).min(1, 'A quote needs at least one line')
+});
+
+/**
+ * Public URL of the app for accept links
+ */
+export function getQuoteBaseUrl(event: H3Event): string {
+  return useRuntimeConfig().public.appUrl || getRequestURL(event).origin;
+}
+
+/**
+ * Queue pushing a quote to QuickBooks; a push already waiting picks up the latest version
+ */
+export async function queueQuotePush(estimateId: string): Promise<void> {
+  await jobQueue.enqueue(QUOTE_QBO_PUSH_JOB, { estimateId }, { uniqueKey: `quote-push:${estimateId}` });
+}
+
+/**
+ * Turn a QuoteService error into the matching HTTP error
+ */
+export function toQuoteHttpError(error: any, fallbackMessage: string) {
+  if (error.statusCode) {
+    return error;
+  }
+
+  const statusCodes: Record<string, number> = {
+    QuoteNotFoundError: 404,
+    QuoteValidationError: 422,
+    QuoteStateError: 409
+  };
+  if (statusCodes[error.name]) {
+    return createError({
+      statusCode: statusCodes[error.name],
+      statusMessage: error.message
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return createError({
+    statusCode: 500,
+    statusMessage: fallbackMessage
+  });
+}
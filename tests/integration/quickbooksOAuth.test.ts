@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { setup, $fetch } from '@nuxt/test-utils/e2e'
 import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager'
 
@@ -107,11 +107,6 @@ describe('QuickBooks OAuth Integration', () => {
     vi.mocked(getEnhancedPrismaClient).mockResolvedValue(mockPrisma)
   })
 
-  afterEach(() => {
-    // Stop any running schedulers
-    QuickBooksTokenManager.stopTokenRefreshScheduler()
-  })
-
   describe('OAuth Callback Flow', () => {
     it('should complete OAuth callback successfully', async () => {
       // Mock authenticated user session
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  compareAttributeReviewItems,
+  describeUnverifiedItems,
+  getAttributeReviewReasons,
+  needsAttributeReview,
+  parseUnverifiedItemPolicy,
+  type AttributeReviewItem
+} from '../../utils/attributeReview';
+
+const mockPrisma = vi.hoisted(() => ({
+  orderItem: { findMany: vi.fn() }
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { AttributeReviewServiceImpl } = await import('../../server/lib/AttributeReviewService');
+
+function reviewItem(overrides: Partial<AttributeReviewItem>): AttributeReviewItem {
+  return {
+    orderItemId: 'item-1',
+    orderId: 'order-1',
+    orderNumber: '5001',
+    customerName: 'Acme Spas',
+    productNumber: 1001,
+    itemName: 'Spa Cover',
+    lineDescription: null,
+    itemStatus: 'NOT_STARTED_PRODUCTION',
+    orderStatus: 'APPROVED',
+    priority: 'NO_PRIORITY',
+    dueDate: null,
+    createdAt: new Date('2026-01-01'),
+    attributes: null,
+    reasons: [],
+    lowConfidenceFields: [],
+    ...overrides
+  } as AttributeReviewItem;
+}
+
+describe('attributeReview', () => {
+  it('reads the unverified items policy, warning on anything unrecognized', () => {
+    expect(parseUnverifiedItemPolicy('block')).toBe('block');
+    expect(parseUnverifiedItemPolicy(' OFF ')).toBe('off');
+    expect(parseUnverifiedItemPolicy('stop')).toBe('warn');
+    expect(parseUnverifiedItemPolicy(undefined)).toBe('warn');
+  });
+
+  it('needs review until attributes are verified and free of parsing errors', () => {
+    expect(needsAttributeReview(null)).toBe(true);
+    expect(needsAttributeReview({ verified: false, parsingErrors: [], parseConfidence: 1 })).toBe(true);
+    expect(needsAttributeReview({ verified: true, parsingErrors: ['No color found'], parseConfidence: 0.5 })).toBe(true);
+    expect(needsAttributeReview({ verified: true, parsingErrors: [], parseConfidence: 0.5 })).toBe(false);
+  });
+
+  it('gives the reasons an item is in the queue', () => {
+    expect(getAttributeReviewReasons(null)).toEqual(['No product attributes']);
+    expect(getAttributeReviewReasons({ verified: false, parsingErrors: ['No color found'], parseConfidence: 0.5 })).toEqual([
+      'Not verified',
+      'Low parse confidence (50%)',
+      'No color found'
+    ]);
+    expect(getAttributeReviewReasons({ verified: false, parsingErrors: [], parseConfidence: null })).toEqual(['Not verified']);
+  });
+
+  it('sorts covers being cut first and pending orders last', () => {
+    const pending = reviewItem({ orderItemId: 'pending', orderStatus: 'PENDING', dueDate: new Date('2026-01-02') });
+    const later = reviewItem({ orderItemId: 'later', dueDate: new Date('2026-02-01') });
+    const sooner = reviewItem({ orderItemId: 'sooner', dueDate: new Date('2026-01-15') });
+    const cutting = reviewItem({ orderItemId: 'cutting', itemStatus: 'CUTTING', orderStatus: 'ORDER_PROCESSING' });
+
+    const sorted = [pending, later, sooner, cutting].sort(compareAttributeReviewItems);
+
+    expect(sorted.map(item => item.orderItemId)).toEqual(['cutting', 'sooner', 'later', 'pending']);
+  });
+
+  it('lists at most five items in the message', () => {
+    expect(describeUnverifiedItems(['P01001'], 'print')).toBe(
+      'P01001 has attributes that need review - check them in the attribute review queue before printing labels'
+    );
+    expect(describeUnverifiedItems(['A', 'B', 'C', 'D', 'E', 'F', 'G'], 'production')).toBe(
+      'A, B, C, D, E and 2 more have attributes that need review - check them in the attribute review queue before starting production'
+    );
+  });
+});
+
+describe('AttributeReviewService', () => {
+  const service = new AttributeReviewServiceImpl();
+
+  const checkedItems = [
+    { id: 'item-1', productNumber: 1001, item: { name: 'Spa Cover' }, productAttributes: { verified: true, parsingErrors: [], parseConfidence: 1 } },
+    { id: 'item-2', productNumber: 1002, item: { name: 'Spa Cover' }, productAttributes: { verified: false, parsingErrors: [], parseConfidence: 0.5 } },
+    { id: 'item-3', productNumber: null, item: { name: 'Spa Cover' }, productAttributes: null }
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('warns about the items that need review', async () => {
+    mockPrisma.orderItem.findMany.mockResolvedValue(checkedItems);
+
+    const warning = await service.checkItems(['item-1', 'item-2', 'item-3'], 'print', 'warn');
+
+    expect(warning).toBe(describeUnverifiedItems(['P01002', 'Spa Cover'], 'print'));
+  });
+
+  it('blocks when the policy is block', async () => {
+    mockPrisma.orderItem.findMany.mockResolvedValue(checkedItems);
+
+    await expect(service.checkItems(['item-1', 'item-2'], 'production', 'block')).rejects.toMatchObject({
+      name: 'UnverifiedAttributesError'
+    });
+  });
+
+  it('passes verified items and skips the check when the policy is off', async () => {
+    mockPrisma.orderItem.findMany.mockResolvedValue([checkedItems[0]]);
+
+    expect(await service.checkItems(['item-1'], 'print', 'block')).toBeNull();
+    expect(await service.checkItems(['item-2'], 'print', 'off')).toBeNull();
+    expect(mockPrisma.orderItem.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds the queue with reasons and unsure fields from the description', async () => {
+    const order = { id: 'order-1', salesOrderNumber: '5001', orderStatus: 'APPROVED', priority: 'NO_PRIORITY', dueDate: null, createdAt: new Date('2026-01-01'), customer: { name: 'Acme Spas' } };
+    mockPrisma.orderItem.findMany.mockResolvedValue([
+      {
+        id: 'item-1',
+        productNumber: 1001,
+        lineDescription: 'Black, 84, Square, Skirt: 5-Conn, TD: 4',
+        itemStatus: 'NOT_STARTED_PRODUCTION',
+        item: { name: 'Spa Cover' },
+        order,
+        productAttributes: { verified: false, parsingErrors: [], parseConfidence: 0.7, isParsedFromDescription: true }
+      },
+      {
+        id: 'item-2',
+        productNumber: 1002,
+        lineDescription: null,
+        itemStatus: 'CUTTING',
+        item: { name: 'Spa Cover' },
+        order: { ...order, orderStatus: 'ORDER_PROCESSING' },
+        productAttributes: null
+      }
+    ]);
+
+    const queue = await service.getQueue();
+
+    expect(queue.map(item => item.orderItemId)).toEqual(['item-2', 'item-1']);
+    expect(queue[0].reasons).toEqual(['No product attributes']);
+    expect(queue[1]).toMatchObject({
+      orderNumber: '5001',
+      customerName: 'Acme Spas',
+      reasons: ['Not verified', 'Low parse confidence (70%)'],
+      lowConfidenceFields: ['tieDownPlacement']
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CAPACITY_DEFAULT_STEP_HOURS,
+  buildCapacityPlan,
+  distributeWorkerHours,
+  getRemainingStationNames,
+  type CapacityOrderInput,
+  type CapacityStationInput
+} from '../../utils/capacityPlanning';
+import { COVER_FOR_COVER_WORKFLOW, DEFAULT_PRODUCTION_WORKFLOW } from '../../utils/workflowEngine';
+
+// Monday
+const START = new Date(2025, 2, 3);
+
+function station(stationName: string, averageHoursPerItem: number | null, hoursPerDay: number): CapacityStationInput {
+  return { stationName, averageHoursPerItem, sampleSize: averageHoursPerItem ? 10 : 0, workerCount: hoursPerDay > 0 ? 1 : 0, hoursPerDay };
+}
+
+function order(id: string, overrides: Partial<CapacityOrderInput> = {}): CapacityOrderInput {
+  return {
+    id,
+    orderNumber: id,
+    priority: 'MEDIUM',
+    dueDate: null,
+    createdAt: new Date(2025, 2, 1),
+    items: [{ remainingStations: ['Sewing'] }],
+    ...overrides
+  };
+}
+
+describe('capacityPlanning', () => {
+  describe('distributeWorkerHours', () => {
+    it('splits a worker across the stations they cover', () => {
+      const staffing = distributeWorkerHours([
+        { userId: 'a', stationNames: ['Cutting', 'Sewing'] },
+        { userId: 'b', stationNames: ['Sewing'] }
+      ]);
+
+      expect(staffing.get('Cutting')).toEqual({ workerCount: 1, hoursPerDay: 4 });
+      expect(staffing.get('Sewing')).toEqual({ workerCount: 2, hoursPerDay: 12 });
+    });
+
+    it('counts a station once when it comes from both a role and a scanner', () => {
+      const staffing = distributeWorkerHours([{ userId: 'a', stationNames: ['Sewing', 'Sewing'] }]);
+
+      expect(staffing.get('Sewing')).toEqual({ workerCount: 1, hoursPerDay: 8 });
+    });
+
+    it('ignores users without stations', () => {
+      expect(distributeWorkerHours([{ userId: 'a', stationNames: [] }]).size).toBe(0);
+    });
+  });
+
+  describe('getRemainingStationNames', () => {
+    it('includes the step the item is waiting at', () => {
+      expect(getRemainingStationNames(DEFAULT_PRODUCTION_WORKFLOW, 'FOAM_CUTTING')).toEqual([
+        'Foam Cutting', 'Stuffing', 'Packaging', 'Office'
+      ]);
+    });
+
+    it('places statuses outside the workflow at the next step', () => {
+      expect(getRemainingStationNames(COVER_FOR_COVER_WORKFLOW, 'STUFFING')).toEqual(['Packaging', 'Office']);
+    });
+
+    it('returns nothing for ready items', () => {
+      expect(getRemainingStationNames(DEFAULT_PRODUCTION_WORKFLOW, 'READY')).toEqual([]);
+    });
+  });
+
+  describe('buildCapacityPlan', () => {
+    it('queues orders at each station and promises the business day the backlog clears', () => {
+      const stations = [station('Sewing', 2, 8)];
+      const orders = [
+        order('first', { items: [{ remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }] }),
+        order('second', { createdAt: new Date(2025, 2, 2), items: [{ remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }] })
+      ];
+
+      const plan = buildCapacityPlan(stations, orders, START);
+
+      // 6h then 10h of sewing at 8h/day
+      expect(plan.orders.map(promise => promise.workingDays)).toEqual([1, 2]);
+      expect(new Date(plan.orders[1].promisedDate)).toEqual(new Date(2025, 2, 5));
+      expect(plan.stations[0]).toMatchObject({ stationName: 'Sewing', backlogHours: 10, backlogDays: 1.25 });
+    });
+
+    it('works high priority orders first, then oldest first', () => {
+      const plan = buildCapacityPlan([station('Sewing', 1, 8)], [
+        order('old-low', { priority: 'LOW', createdAt: new Date(2025, 1, 1) }),
+        order('new-high', { priority: 'HIGH', createdAt: new Date(2025, 2, 2) }),
+        order('old-medium', { priority: 'MEDIUM', createdAt: new Date(2025, 1, 15) })
+      ], START);
+
+      expect(plan.orders.map(promise => promise.orderId)).toEqual(['new-high', 'old-medium', 'old-low']);
+    });
+
+    it('uses the slowest station as the bottleneck', () => {
+      const plan = buildCapacityPlan([station('Cutting', 1, 8), station('Sewing', 3, 4)], [
+        order('a', { items: [{ remainingStations: ['Cutting', 'Sewing'] }] })
+      ], START);
+
+      expect(plan.orders[0]).toMatchObject({ workingDays: 1, bottleneckStation: 'Sewing' });
+    });
+
+    it('loads the stations once for every cover on a multi-quantity line', () => {
+      const plan = buildCapacityPlan([station('Sewing', 2, 4)], [
+        order('a', { items: [{ remainingStations: ['Sewing'], quantity: 4 }] })
+      ], START);
+
+      expect(plan.orders[0]).toMatchObject({ stationHours: { Sewing: 8 }, workingDays: 2 });
+      expect(plan.stations[0]).toMatchObject({ stationName: 'Sewing', backlogHours: 8 });
+    });
+
+    it('skips weekends when promising dates', () => {
+      const friday = new Date(2025, 2, 7);
+      const plan = buildCapacityPlan([station('Sewing', 8, 8)], [
+        order('a', { items: [{ remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }] })
+      ], friday);
+
+      expect(new Date(plan.orders[0].promisedDate)).toEqual(new Date(2025, 2, 11));
+    });
+
+    it('flags orders promised after their due date', () => {
+      const plan = buildCapacityPlan([station('Sewing', 8, 8)], [
+        order('late', { dueDate: new Date(2025, 2, 4), items: [{ remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }, { remainingStations: ['Sewing'] }] }),
+        order('on-time', { dueDate: new Date(2025, 2, 20) })
+      ], START);
+
+      expect(plan.orders[0]).toMatchObject({ orderId: 'late', atRisk: true, daysLate: 2 });
+      expect(plan.orders[1]).toMatchObject({ orderId: 'on-time', atRisk: false, daysLate: 0 });
+    });
+
+    it('falls back to defaults for stations without history or staff', () => {
+      const plan = buildCapacityPlan([station('Stuffing', null, 0)], [
+        order('a', { items: [{ remainingStations: ['Stuffing'] }] })
+      ], START);
+
+      expect(plan.orders[0].stationHours).toEqual({ Stuffing: CAPACITY_DEFAULT_STEP_HOURS });
+      expect(plan.stations[0]).toMatchObject({ hasHistory: false, unstaffed: true, hoursPerDay: 0 });
+    });
+
+    it('promises orders with no remaining work for today', () => {
+      const plan = buildCapacityPlan([station('Sewing', 1, 8)], [order('done', { items: [] })], START);
+
+      expect(plan.orders[0]).toMatchObject({ workingDays: 0, bottleneckStation: null });
+      expect(new Date(plan.orders[0].promisedDate)).toEqual(START);
+    });
+  });
+});
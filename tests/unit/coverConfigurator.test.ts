@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { parseCoverDescription } from '../../utils/descriptionGrammar';
+import {
+  buildCoverDescription,
+  coverConfigurationFromAttributes,
+  createCoverConfiguration,
+  getConfiguredCoverAttributes,
+  getCoverProductSpecs,
+  validateCoverConfiguration,
+  type CoverConfiguration
+} from '../../utils/coverConfigurator';
+
+const square = createCoverConfiguration({ color: 'Dark Gray', size: '87', radiusSize: '8' });
+
+const roundTrip = (config: CoverConfiguration) => {
+  expect(validateCoverConfiguration(config)).toEqual([]);
+  const parsed = parseCoverDescription(buildCoverDescription(config));
+  expect(parsed.errors).toEqual([]);
+  expect(parsed.attributes).toEqual(getConfiguredCoverAttributes(config));
+  return parsed.attributes;
+};
+
+describe('coverConfigurator', () => {
+  // The parser logs every field it reads
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('buildCoverDescription', () => {
+    it('writes the canonical description', () => {
+      expect(buildCoverDescription(square)).toBe(
+        'Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side, DPW: No, WebU: No, MFL: No, SteamS: No, FabricU: No, EH: 0, ELS: No, Pack: No'
+      );
+    });
+
+    it('round-trips a square cover through the parser', () => {
+      expect(roundTrip(square)).toMatchObject({ size: '87', radiusSize: '8', tieDownPlacement: 'HANDLE_SIDE', tieDownsQty: '4' });
+    });
+
+    it('round-trips a rectangle with length, width, tie down distance and upgrades', () => {
+      const attributes = roundTrip(createCoverConfiguration({
+        color: 'Mocha',
+        shape: 'Rectangle',
+        length: '96',
+        width: '84',
+        radiusSize: '6.5',
+        skirtLength: '7',
+        skirtType: 'SLIT',
+        tieDownsQty: 6,
+        tieDownPlacement: 'CORNER_SIDE',
+        distance: '12',
+        foamUpgrade: '5-2.5',
+        steamStopper: true,
+        extraHandleQty: 1,
+        packaging: true
+      }));
+
+      expect(attributes).toMatchObject({
+        size: '96',
+        length: '96',
+        width: '84',
+        skirtType: 'SLIT',
+        tieDownPlacement: 'CORNER_SIDE',
+        distance: '12',
+        extraHandleQty: '1',
+        extraLongSkirt: 'Yes',
+        packaging: true
+      });
+    });
+
+    it('round-trips round covers with no skirt and no tie downs', () => {
+      const attributes = roundTrip(createCoverConfiguration({
+        color: 'Coastal Gray',
+        shape: 'Round',
+        size: '90',
+        skirtType: 'NONE',
+        tieDownsQty: 0,
+        foamUpgrade: '54"'
+      }));
+
+      expect(attributes).toMatchObject({ shape: 'Round', radiusSize: '', skirtLength: '0', skirtType: 'NONE', tieDownPlacement: 'NONE' });
+    });
+
+    it('round-trips every shape', () => {
+      roundTrip(createCoverConfiguration({ color: 'Black', shape: 'Oval', length: '100', width: '80' }));
+      roundTrip(createCoverConfiguration({ color: 'Black', shape: 'Octagon', size: '92', tieDownPlacement: 'FOLD_SIDE', distance: '10' }));
+    });
+  });
+
+  describe('validateCoverConfiguration', () => {
+    it('rejects combinations the shape does not allow', () => {
+      const errors = validateCoverConfiguration(createCoverConfiguration({ color: 'Black', shape: 'Round', size: '90', radiusSize: '4', skirtType: 'SLIT' }));
+      expect(errors).toEqual(['Round covers have no corner radius', 'Round covers cannot have a slit skirt']);
+    });
+
+    it('rejects values the description cannot carry', () => {
+      const errors = validateCoverConfiguration(createCoverConfiguration({
+        color: 'Gray, Dark',
+        size: '87.5',
+        foamUpgrade: '7-3',
+        tieDownsQty: 0,
+        distance: '6'
+      }));
+
+      expect(errors).toEqual([
+        'Color cannot contain numbers, commas or colons',
+        'Size must be whole inches',
+        'Tie down distance needs tie downs',
+        'Foam upgrade must be one of 2#, 5-2.5, 6-4, 4-5-4, 54"'
+      ]);
+    });
+
+    it('checks radius and tie down distance against the cover size', () => {
+      const errors = validateCoverConfiguration(createCoverConfiguration({
+        color: 'Black',
+        shape: 'Rectangle',
+        length: '80',
+        width: '90',
+        radiusSize: '50',
+        distance: '45'
+      }));
+
+      expect(errors).toEqual([
+        'Length must be the longer side',
+        'Radius cannot be more than half the width of the cover',
+        'Tie down distance must be less than half the length of the cover'
+      ]);
+    });
+  });
+
+  describe('coverConfigurationFromAttributes', () => {
+    it('starts from a parsed hand-typed description', () => {
+      const parsed = parseCoverDescription('Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side-6, FoamU: 6-4, EH: 2');
+      const config = coverConfigurationFromAttributes(parsed.attributes);
+
+      expect(config).toMatchObject({ color: 'Dark Gray', size: '87', radiusSize: '8', tieDownsQty: 4, distance: '6', foamUpgrade: '6-4', extraHandleQty: 2 });
+      expect(getConfiguredCoverAttributes(config)).toEqual({ ...parsed.attributes, extraLongSkirt: 'No' });
+    });
+  });
+
+  describe('getCoverProductSpecs', () => {
+    it('describes the cover in the product catalog format', () => {
+      expect(getCoverProductSpecs({ ...square, foamUpgrade: '5-2.5', steamStopper: true })).toEqual({
+        size: '87X87',
+        shape: 'Square',
+        foamThickness: '5-2.5 STEAM STOPPER',
+        skit: '5-CONN',
+        tiedown: '4-TD HANDLE SIDE',
+        color: 'DARK GRAY'
+      });
+    });
+  });
+});
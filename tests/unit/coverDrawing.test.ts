@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getCoverDrawing, renderCoverDrawingSvg } from '../../utils/coverDrawing';
+
+describe('coverDrawing', () => {
+  const squareCover = {
+    productType: 'SPA_COVER',
+    size: '87',
+    shape: 'Square',
+    radiusSize: '8',
+    skirtLength: '5',
+    skirtType: 'SLIT',
+    tieDownsQty: '4',
+    tieDownPlacement: 'HANDLE_SIDE',
+    distance: '6'
+  };
+
+  describe('getCoverDrawing', () => {
+    it('reads the outline, radius and skirt', () => {
+      const drawing = getCoverDrawing(squareCover);
+      expect(drawing).toMatchObject({ shape: 'RECTANGLE', lengthIn: 87, widthIn: 87, radiusIn: 8, skirtIn: 5, hasSize: true });
+    });
+
+    it('puts handle side tie downs on the long edges, the distance in from the corners', () => {
+      const drawing = getCoverDrawing({ ...squareCover, length: '96', width: '84', size: null });
+      expect(drawing.tieDowns).toEqual([
+        { xIn: 6, yIn: 0 },
+        { xIn: 90, yIn: 0 },
+        { xIn: 6, yIn: 84 },
+        { xIn: 90, yIn: 84 }
+      ]);
+    });
+
+    it('puts fold side tie downs either side of the fold on the short edges', () => {
+      const drawing = getCoverDrawing({ ...squareCover, tieDownPlacement: 'FOLD_SIDE', size: '80' });
+      expect(drawing.tieDowns).toEqual([
+        { xIn: 0, yIn: 34 },
+        { xIn: 0, yIn: 46 },
+        { xIn: 80, yIn: 34 },
+        { xIn: 80, yIn: 46 }
+      ]);
+    });
+
+    it('has no tie downs when the placement is none', () => {
+      expect(getCoverDrawing({ ...squareCover, tieDownPlacement: 'NONE' }).tieDowns).toEqual([]);
+    });
+
+    it('puts tie downs of round covers on the circle', () => {
+      const drawing = getCoverDrawing({ ...squareCover, shape: 'Round', size: '84' });
+      expect(drawing.radiusIn).toBe(0);
+      for (const tieDown of drawing.tieDowns) {
+        expect(Math.hypot(tieDown.xIn - 42, tieDown.yIn - 42)).toBeCloseTo(42, 1);
+      }
+    });
+
+    it('reads the foam taper from the upgrade and keeps the standard taper for density upgrades', () => {
+      expect(getCoverDrawing({ ...squareCover, foamUpgrade: '5"-2.5"' }).foam).toEqual({ centerIn: 5, edgeIn: 2.5, isStandard: false });
+      expect(getCoverDrawing({ ...squareCover, foamUpgrade: '4-5-4' }).foam).toEqual({ centerIn: 5, edgeIn: 4, isStandard: false });
+      expect(getCoverDrawing({ ...squareCover, foamUpgrade: '2#' }).foam).toEqual({ centerIn: 4, edgeIn: 2, isStandard: true });
+      expect(getCoverDrawing({ ...squareCover, productType: 'COVER_FOR_COVER' }).foam).toBeNull();
+    });
+  });
+
+  describe('renderCoverDrawingSvg', () => {
+    it('renders a dimensioned top and side view', () => {
+      const svg = renderCoverDrawingSvg({ ...squareCover, length: '96', width: '84', size: null });
+      expect(svg.startsWith('<svg')).toBe(true);
+      expect(svg).toContain('>96&quot;</text>');
+      expect(svg).toContain('>84&quot;</text>');
+      expect(svg).toContain('R 8&quot;');
+      expect(svg).toContain('4 tie downs, Handle Side, 6&quot; from the corner');
+      expect(svg).toContain('Skirt 5&quot; Slit');
+    });
+
+    it('escapes the title', () => {
+      expect(renderCoverDrawingSvg(squareCover, { title: 'A & B <C>' })).toContain('A &amp; B &lt;C&gt;');
+    });
+
+    it('says when the cover has no size', () => {
+      expect(renderCoverDrawingSvg({ productType: 'SPA_COVER' })).toContain('Size not set');
+    });
+  });
+});
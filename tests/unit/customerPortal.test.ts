@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addBusinessDays,
+  buildPortalItemProgress,
+  estimatePortalReadyDate,
+  getPortalTrackingUrl
+} from '../../utils/customerPortal';
+
+describe('customerPortal', () => {
+  describe('buildPortalItemProgress', () => {
+    it('marks stages before the current status complete and later stages upcoming', () => {
+      const progress = buildPortalItemProgress('SPA_COVER', 'SEWING', [
+        { toStatus: 'NOT_STARTED_PRODUCTION', timestamp: '2025-03-01T10:00:00.000Z' },
+        { toStatus: 'CUTTING', timestamp: '2025-03-02T10:00:00.000Z' },
+        { toStatus: 'SEWING', timestamp: '2025-03-03T10:00:00.000Z' }
+      ]);
+
+      expect(progress.map(stage => stage.status)).toEqual([
+        'NOT_STARTED_PRODUCTION', 'CUTTING', 'SEWING', 'FOAM_CUTTING', 'STUFFING', 'PACKAGING', 'PRODUCT_FINISHED', 'READY'
+      ]);
+      expect(progress.map(stage => stage.state)).toEqual([
+        'complete', 'complete', 'current', 'upcoming', 'upcoming', 'upcoming', 'upcoming', 'upcoming'
+      ]);
+      expect(progress[2].reachedAt).toBe('2025-03-03T10:00:00.000Z');
+      expect(progress[3].reachedAt).toBeNull();
+    });
+
+    it('uses customer-facing labels', () => {
+      const progress = buildPortalItemProgress('SPA_COVER', 'NOT_STARTED_PRODUCTION', []);
+
+      expect(progress[0].label).toBe('Order Received');
+      expect(progress.find(stage => stage.status === 'STUFFING')?.label).toBe('Assembly');
+    });
+
+    it('skips foam stages for cover for cover items', () => {
+      const progress = buildPortalItemProgress('COVER_FOR_COVER', 'CUTTING', []);
+
+      expect(progress.map(stage => stage.status)).toEqual([
+        'NOT_STARTED_PRODUCTION', 'CUTTING', 'SEWING', 'PACKAGING', 'PRODUCT_FINISHED', 'READY'
+      ]);
+    });
+
+    it('marks every stage complete once the item is ready', () => {
+      const progress = buildPortalItemProgress('SPA_COVER', 'READY', []);
+
+      expect(progress.every(stage => stage.state === 'complete')).toBe(true);
+    });
+
+    it('shows stages after a rework target as upcoming again and hides their old timestamps', () => {
+      const progress = buildPortalItemProgress('SPA_COVER', 'CUTTING', [
+        { toStatus: 'CUTTING', timestamp: '2025-03-02T10:00:00.000Z' },
+        { toStatus: 'SEWING', timestamp: '2025-03-03T10:00:00.000Z' },
+        { toStatus: 'CUTTING', timestamp: '2025-03-05T10:00:00.000Z' }
+      ]);
+
+      const cutting = progress.find(stage => stage.status === 'CUTTING');
+      const sewing = progress.find(stage => stage.status === 'SEWING');
+      expect(cutting).toMatchObject({ state: 'current', reachedAt: '2025-03-05T10:00:00.000Z' });
+      expect(sewing).toMatchObject({ state: 'upcoming', reachedAt: null });
+    });
+  });
+
+  describe('addBusinessDays', () => {
+    it('skips weekends', () => {
+      // Friday + 1 business day = Monday
+      const result = addBusinessDays(new Date(2025, 2, 7), 1);
+      expect(result.getDay()).toBe(1);
+      expect(result.getDate()).toBe(10);
+    });
+
+    it('counts two full weeks for ten business days', () => {
+      const result = addBusinessDays(new Date(2025, 2, 3), 10);
+      expect(result.getDate()).toBe(17);
+    });
+  });
+
+  describe('estimatePortalReadyDate', () => {
+    const createdAt = new Date(2025, 2, 3);
+
+    it('returns null for cancelled orders', () => {
+      expect(estimatePortalReadyDate({ orderStatus: 'CANCELLED', createdAt })).toBeNull();
+    });
+
+    it('uses the actual ready date once known', () => {
+      const readyToShipAt = new Date(2025, 2, 10);
+      expect(estimatePortalReadyDate({ orderStatus: 'READY_TO_SHIP', readyToShipAt, dueDate: new Date(2025, 2, 20), createdAt }))
+        .toEqual({ date: readyToShipAt.toISOString(), isEstimate: false });
+    });
+
+    it('prefers the due date over the standard lead time', () => {
+      const dueDate = new Date(2025, 2, 20);
+      expect(estimatePortalReadyDate({ orderStatus: 'APPROVED', dueDate, createdAt }))
+        .toEqual({ date: dueDate.toISOString(), isEstimate: true });
+    });
+
+    it('falls back to the standard lead time from approval', () => {
+      const approvedAt = new Date(2025, 2, 3);
+      expect(estimatePortalReadyDate({ orderStatus: 'APPROVED', approvedAt, createdAt: new Date(2025, 1, 1) }))
+        .toEqual({ date: new Date(2025, 2, 17).toISOString(), isEstimate: true });
+    });
+  });
+
+  describe('getPortalTrackingUrl', () => {
+    it('builds carrier links when the carrier is known', () => {
+      expect(getPortalTrackingUrl('123456789012', 'FEDEX')).toBe('https://www.fedex.com/fedextrack/?trknbr=123456789012');
+    });
+
+    it('recognises UPS numbers without a carrier', () => {
+      expect(getPortalTrackingUrl('1Z999AA10123456784')).toBe('https://www.ups.com/track?tracknum=1Z999AA10123456784');
+    });
+
+    it('returns null for unknown carriers', () => {
+      expect(getPortalTrackingUrl('ABC123')).toBeNull();
+      expect(getPortalTrackingUrl('PRO-555', 'FREIGHT')).toBeNull();
+    });
+  });
+});
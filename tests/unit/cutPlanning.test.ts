@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildCutBatches, estimateVinylYards, getCutFabric, type CutPlanItem } from '../../utils/cutPlanning';
+
+const mockPrisma = vi.hoisted(() => ({
+  station: { findFirst: vi.fn() },
+  userRole: { findFirst: vi.fn() },
+  orderItem: { findMany: vi.fn(), update: vi.fn() },
+  orderItemUnit: { updateMany: vi.fn() },
+  itemStatusLog: { create: vi.fn() },
+  itemProcessingLog: { create: vi.fn(), update: vi.fn() },
+  itemProcessingPause: { findMany: vi.fn(), updateMany: vi.fn() },
+  order: { update: vi.fn() },
+  orderStatusLog: { create: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+const mockWorkflowService = vi.hoisted(() => ({
+  getWorkflowForItem: vi.fn()
+}));
+
+const mockAttributeReviewService = vi.hoisted(() => ({
+  checkItems: vi.fn()
+}));
+
+const mockEmailService = vi.hoisted(() => ({
+  sendOrderStatusEmail: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+vi.mock('~/server/lib/WorkflowService', () => ({
+  workflowService: mockWorkflowService
+}));
+
+vi.mock('~/server/lib/AttributeReviewService', () => ({
+  attributeReviewService: mockAttributeReviewService
+}));
+
+vi.mock('~/server/lib/emailService', () => ({
+  EmailService: mockEmailService
+}));
+
+const { CutPlanningServiceImpl } = await import('../../server/lib/CutPlanningService');
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const planItem = (overrides: Partial<CutPlanItem>): CutPlanItem => ({
+  orderItemId: 'item-1',
+  orderId: 'order-1',
+  orderNumber: '1001',
+  customerName: 'Spa Depot',
+  productNumber: 1,
+  description: '84" Square',
+  itemStatus: 'NOT_STARTED_PRODUCTION',
+  color: 'Mocha',
+  fabric: null,
+  quantity: 1,
+  yards: 8,
+  priority: 'MEDIUM',
+  dueDate: day('2026-06-10'),
+  createdAt: day('2026-06-01'),
+  ...overrides
+});
+
+describe('cutPlanning', () => {
+  describe('estimateVinylYards', () => {
+    it('adds the skirt strip to the top panel', () => {
+      const noSkirt = estimateVinylYards({ size: '84', shape: 'Square', skirtType: 'NONE', skirtLength: '5' });
+      const withSkirt = estimateVinylYards({ size: '84', shape: 'Square', skirtType: 'SLIT', skirtLength: '5' });
+      // 88 x 88 panel with 10% waste off a 60" roll
+      expect(noSkirt).toBe(3.9);
+      expect(withSkirt).toBeGreaterThan(noSkirt);
+    });
+  });
+
+  describe('getCutFabric', () => {
+    it('treats "No" and blank as standard vinyl', () => {
+      expect(getCutFabric('No')).toBeNull();
+      expect(getCutFabric('  ')).toBeNull();
+      expect(getCutFabric(null)).toBeNull();
+      expect(getCutFabric('Marine Grade')).toBe('Marine Grade');
+    });
+  });
+
+  describe('buildCutBatches', () => {
+    it('groups by color and fabric regardless of case', () => {
+      const batches = buildCutBatches([
+        planItem({ orderItemId: 'a', color: 'Mocha' }),
+        planItem({ orderItemId: 'b', color: 'mocha ' }),
+        planItem({ orderItemId: 'c', color: 'Mocha', fabric: 'Marine Grade' }),
+        planItem({ orderItemId: 'd', color: 'Grey' })
+      ]);
+      expect(batches.map(batch => batch.items.map(item => item.orderItemId))).toEqual([['a', 'b'], ['c'], ['d']]);
+    });
+
+    it('keeps covers due far apart in separate batches of the same vinyl', () => {
+      const batches = buildCutBatches([
+        planItem({ orderItemId: 'late', dueDate: day('2026-06-30') }),
+        planItem({ orderItemId: 'soon', dueDate: day('2026-06-10') }),
+        planItem({ orderItemId: 'near', dueDate: day('2026-06-14') }),
+        planItem({ orderItemId: 'none', dueDate: null })
+      ], { dueWindowDays: 5 });
+      expect(batches.map(batch => batch.items.map(item => item.orderItemId))).toEqual([['soon', 'near'], ['late'], ['none']]);
+      expect(batches[0].earliestDueDate).toEqual(day('2026-06-10'));
+    });
+
+    it('suggests the most urgent batch first, with priority breaking ties', () => {
+      const batches = buildCutBatches([
+        planItem({ orderItemId: 'grey', color: 'Grey', priority: 'LOW' }),
+        planItem({ orderItemId: 'black', color: 'Black', priority: 'HIGH' })
+      ]);
+      expect(batches.map(batch => batch.color)).toEqual(['Black', 'Grey']);
+      expect(batches[0].hasHighPriority).toBe(true);
+    });
+
+    it('starts a new batch when the roll would run out', () => {
+      const batches = buildCutBatches([
+        planItem({ orderItemId: 'a', yards: 10, quantity: 3 }),
+        planItem({ orderItemId: 'b', yards: 10, quantity: 2 })
+      ], { maxYards: 40 });
+      expect(batches).toHaveLength(2);
+      expect(batches[0]).toMatchObject({ coverCount: 3, totalYards: 30 });
+    });
+  });
+
+  describe('CutPlanningService.claimBatch', () => {
+    const service = new CutPlanningServiceImpl();
+    const station = { id: 'station-cut', name: 'Cutting' };
+
+    const orderItem = (overrides: Record<string, unknown> = {}) => ({
+      id: 'item-1',
+      productNumber: 12,
+      quantity: 1,
+      itemStatus: 'NOT_STARTED_PRODUCTION',
+      item: { name: 'Spa Cover' },
+      productAttributes: { color: 'Mocha', size: '84' },
+      units: [],
+      order: {
+        id: 'order-1',
+        customerId: 'customer-1',
+        salesOrderNumber: '1001',
+        orderStatus: 'APPROVED',
+        priority: 'MEDIUM',
+        dueDate: null,
+        createdAt: day('2026-06-01'),
+        customer: { name: 'Spa Depot' }
+      },
+      itemProcessingLogs: [],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.station.findFirst.mockResolvedValue(station);
+      mockPrisma.userRole.findFirst.mockResolvedValue({ id: 'user-role-1' });
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => unknown) => callback(mockPrisma));
+      mockPrisma.itemProcessingLog.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: `log-${data.orderItemId}`, ...data }));
+      mockWorkflowService.getWorkflowForItem.mockResolvedValue({
+        id: 'workflow-1',
+        name: 'Standard',
+        steps: [{ id: 'step-cut', position: 1, stationName: 'Cutting', itemStatus: 'CUTTING' }]
+      });
+      mockAttributeReviewService.checkItems.mockResolvedValue(null);
+      mockEmailService.sendOrderStatusEmail.mockResolvedValue(undefined);
+    });
+
+    it('starts a processing log for every item and moves approved orders into processing', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([
+        orderItem({ id: 'item-1' }),
+        orderItem({ id: 'item-2', productNumber: 13 })
+      ]);
+
+      const claim = await service.claimBatch(['item-1', 'item-2', 'item-1'], 'user-1');
+
+      expect(claim.logs.map(log => log.orderItemId)).toEqual(['item-1', 'item-2']);
+      expect(mockPrisma.itemProcessingLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ orderItemId: 'item-1', stationId: 'station-cut', userId: 'user-1' })
+      });
+      expect(mockPrisma.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { itemStatus: 'CUTTING', currentStepId: 'step-cut', workflowId: 'workflow-1' }
+      });
+      expect(claim.statusChanges).toHaveLength(2);
+      // Both items are on the same order, which is only started once
+      expect(mockPrisma.order.update).toHaveBeenCalledTimes(1);
+      expect(claim.startedOrders).toEqual([{ orderId: 'order-1', customerId: 'customer-1', orderNumber: '1001' }]);
+      expect(mockEmailService.sendOrderStatusEmail).toHaveBeenCalledTimes(1);
+      expect(mockEmailService.sendOrderStatusEmail).toHaveBeenCalledWith('order-1', 'production_started');
+    });
+
+    it('keeps the claim when the email fails', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([orderItem()]);
+      mockEmailService.sendOrderStatusEmail.mockRejectedValue(new Error('SMTP down'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const claim = await service.claimBatch(['item-1'], 'user-1');
+
+      expect(claim.logs).toHaveLength(1);
+      expect(claim.startedOrders).toHaveLength(1);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('rejects a batch when an item is already being cut', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([
+        orderItem({
+          itemStatus: 'CUTTING',
+          itemProcessingLogs: [{ id: 'open-log', stationId: 'station-cut', startTime: new Date(), user: { name: 'Dana' } }]
+        })
+      ]);
+
+      await expect(service.claimBatch(['item-1'], 'user-1')).rejects.toMatchObject({
+        name: 'CutBatchConflictError',
+        message: 'P00012 is already being cut by Dana'
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects users who cannot work at the cutting station', async () => {
+      mockPrisma.userRole.findFirst.mockResolvedValue(null);
+
+      await expect(service.claimBatch(['item-1'], 'user-1')).rejects.toMatchObject({ name: 'CutBatchPermissionError' });
+      expect(mockPrisma.orderItem.findMany).not.toHaveBeenCalled();
+    });
+
+    it('checks the attributes of covers it starts, and stops when they are blocked', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([
+        orderItem({ id: 'item-1' }),
+        orderItem({ id: 'item-2', itemStatus: 'CUTTING' })
+      ]);
+      mockAttributeReviewService.checkItems.mockRejectedValue(Object.assign(new Error('P00012 has attributes that need review'), { name: 'UnverifiedAttributesError' }));
+
+      await expect(service.claimBatch(['item-1', 'item-2'], 'user-1')).rejects.toMatchObject({ name: 'UnverifiedAttributesError' });
+      expect(mockAttributeReviewService.checkItems).toHaveBeenCalledWith(['item-1'], 'production');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('passes an attribute warning back with the claim', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([orderItem()]);
+      mockAttributeReviewService.checkItems.mockResolvedValue('P00012 has attributes that need review');
+
+      const claim = await service.claimBatch(['item-1'], 'user-1');
+
+      expect(claim.attributeWarning).toBe('P00012 has attributes that need review');
+      expect(claim.logs).toHaveLength(1);
+    });
+
+    it('rejects items that are past cutting', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([orderItem({ itemStatus: 'SEWING' })]);
+
+      await expect(service.claimBatch(['item-1'], 'user-1')).rejects.toMatchObject({ name: 'CutBatchValidationError' });
+    });
+  });
+});
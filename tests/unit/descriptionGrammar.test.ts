@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DESCRIPTION_GRAMMAR_VERSION,
+  FIELD_CONFIDENCE,
+  formatCatalogDescription,
+  formatCoverDescription,
+  getLowConfidenceFields,
+  isLowConfidenceParse,
+  parseCoverDescription
+} from '../../utils/descriptionGrammar';
+import { DESCRIPTION_FIXTURES } from './fixtures/productDescriptions';
+
+const mockPrisma = vi.hoisted(() => ({
+  productAttribute: { findMany: vi.fn(), update: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { DescriptionParsingServiceImpl, parseLineDescription } = await import('../../server/lib/DescriptionParsingService');
+
+describe('descriptionGrammar', () => {
+  describe('fixture corpus', () => {
+    it.each(DESCRIPTION_FIXTURES.map(fixture => [fixture.name, fixture] as const))('parses %s', (_name, fixture) => {
+      const parse = parseCoverDescription(fixture.description);
+
+      expect(parse.version).toBe(DESCRIPTION_GRAMMAR_VERSION);
+      expect(parse.format).toBe(fixture.format);
+      expect(parse.attributes).toMatchObject(fixture.attributes);
+      expect(parse.errors).toEqual(fixture.errors);
+      expect(getLowConfidenceFields(parse)).toEqual(fixture.lowConfidenceFields);
+      expect(isLowConfidenceParse(parse)).toBe(fixture.errors.length > 0 || fixture.lowConfidenceFields.length > 0);
+    });
+
+    it.each(DESCRIPTION_FIXTURES.filter(fixture => fixture.errors.length === 0).map(fixture => [fixture.name, fixture] as const))(
+      'writes %s back as a description that parses the same',
+      (_name, fixture) => {
+        const parse = parseCoverDescription(fixture.description);
+        const reparsed = parseCoverDescription(formatCoverDescription(parse.attributes));
+
+        expect(reparsed.format).toBe('LINE');
+        expect(reparsed.errors).toEqual([]);
+        expect(reparsed.attributes).toEqual(parse.attributes);
+        // Writing a description out only ever firms it up
+        expect(reparsed.overallConfidence).toBeGreaterThanOrEqual(parse.overallConfidence);
+        expect(getLowConfidenceFields(reparsed).every(field => getLowConfidenceFields(parse).includes(field))).toBe(true);
+      }
+    );
+  });
+
+  describe('confidence', () => {
+    it('scores each field by how it was read', () => {
+      const parse = parseCoverDescription('Brown, 90, rectangular, Skirt: 5-Connected, TD: 6, EH: Yes, ELS: y');
+
+      expect(parse.confidence).toMatchObject({
+        color: FIELD_CONFIDENCE.EXACT,
+        shape: FIELD_CONFIDENCE.NORMALIZED,
+        skirtType: FIELD_CONFIDENCE.NORMALIZED,
+        tieDownPlacement: FIELD_CONFIDENCE.DEFAULTED,
+        extraHandleQty: FIELD_CONFIDENCE.INFERRED,
+        extraLongSkirt: FIELD_CONFIDENCE.NORMALIZED
+      });
+      expect(parse.overallConfidence).toBe(FIELD_CONFIDENCE.DEFAULTED);
+    });
+
+    it('assumes a long skirt is extra long unless the description says so', () => {
+      expect(parseCoverDescription('Black, 84, Square, Skirt: 7-Conn, TD: 4-Handle Side').confidence.extraLongSkirt).toBe(FIELD_CONFIDENCE.ASSUMED);
+      expect(parseCoverDescription('Black, 84, Square, Skirt: 7-Conn, TD: 4-Handle Side, ELS: No').attributes.extraLongSkirt).toBe('No');
+    });
+  });
+
+  describe('formatCatalogDescription', () => {
+    it('writes the seven catalog lines that parse back to the same specs', () => {
+      const specs = { size: '87X87', shape: 'Square', pieces: 1, foamThickness: '5-2.5 STEAM STOPPER', skit: '5-CONN', tiedown: '4-TD HANDLE SIDE', color: 'DARK GRAY' };
+      const parse = parseCoverDescription(formatCatalogDescription(specs));
+
+      expect(parse.format).toBe('CATALOG');
+      expect(parse.catalog).toEqual(specs);
+      expect(parse.overallConfidence).toBe(FIELD_CONFIDENCE.EXACT);
+    });
+
+    it('gives no catalog specs without a piece count', () => {
+      const parse = parseCoverDescription('93X93\nSquare\nONE\n5-2.5\n5-CONN\n6-TD\nDARK GRAY');
+
+      expect(parse.catalog).toBeNull();
+      expect(parse.errors).toEqual(['Pieces "ONE" is not a number']);
+    });
+  });
+});
+
+describe('DescriptionParsingService', () => {
+  const service = new DescriptionParsingServiceImpl();
+
+  const storedAttribute = (overrides: Record<string, unknown>) => ({
+    id: 'attr-1',
+    orderItemId: 'item-1',
+    ...parseLineDescription('Black, 84, Square, R: 6, Skirt: 5-Conn, TD: 4-Handle Side'),
+    parserVersion: 1,
+    orderItem: {
+      lineDescription: 'Black, 84, Square, R: 6, Skirt: 5-Conn, TD: 4-Handle Side',
+      productNumber: 1001,
+      order: { salesOrderNumber: '5001' }
+    },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (work: unknown) => Promise.all(work as unknown[]));
+  });
+
+  it('maps a parse to attribute columns with blanks stored as null', () => {
+    const data = parseLineDescription('Black, 84, Square, Skirt: 5-Conn, TD: 0-None');
+
+    expect(data).toMatchObject({
+      color: 'Black',
+      radiusSize: null,
+      length: null,
+      skirtType: 'CONN',
+      tieDownPlacement: 'NONE',
+      isParsedFromDescription: true,
+      parserVersion: DESCRIPTION_GRAMMAR_VERSION,
+      parseConfidence: FIELD_CONFIDENCE.EXACT,
+      parsingErrors: []
+    });
+  });
+
+  it('skips verified and hand-entered attributes unless asked for', async () => {
+    mockPrisma.productAttribute.findMany.mockResolvedValue([]);
+
+    await service.previewReparse();
+    expect(mockPrisma.productAttribute.findMany.mock.calls[0][0].where).toMatchObject({
+      verified: false,
+      OR: [{ isParsedFromDescription: true }, { color: null, size: null, shape: null }]
+    });
+
+    await service.previewReparse({ includeVerified: true, includeManual: true, orderId: 'order-1' });
+    const where = mockPrisma.productAttribute.findMany.mock.calls[1][0].where;
+    expect(where).toEqual({ orderItem: { lineDescription: { not: null }, orderId: 'order-1' } });
+  });
+
+  it('lists the fields that would change without writing anything', async () => {
+    mockPrisma.productAttribute.findMany.mockResolvedValue([
+      storedAttribute({}),
+      storedAttribute({ id: 'attr-2', orderItemId: 'item-2', radiusSize: '', skirtLength: '6', tieDownPlacement: 'CORNER_SIDE' })
+    ]);
+
+    const preview = await service.previewReparse();
+
+    expect(preview).toMatchObject({ version: DESCRIPTION_GRAMMAR_VERSION, scanned: 2, unchanged: 1 });
+    expect(preview.diffs).toEqual([{
+      productAttributeId: 'attr-2',
+      orderItemId: 'item-2',
+      productNumber: 1001,
+      orderNumber: '5001',
+      lineDescription: 'Black, 84, Square, R: 6, Skirt: 5-Conn, TD: 4-Handle Side',
+      fromVersion: 1,
+      confidence: FIELD_CONFIDENCE.EXACT,
+      changes: [
+        { field: 'radiusSize', from: null, to: '6' },
+        { field: 'skirtLength', from: '6', to: '5' },
+        { field: 'tieDownPlacement', from: 'CORNER_SIDE', to: 'HANDLE_SIDE' }
+      ]
+    }]);
+    expect(mockPrisma.productAttribute.update).not.toHaveBeenCalled();
+  });
+
+  it('writes only the attributes that change', async () => {
+    mockPrisma.productAttribute.findMany.mockResolvedValue([
+      storedAttribute({}),
+      storedAttribute({ id: 'attr-2', parsingErrors: ['No color found'] })
+    ]);
+
+    const result = await service.applyReparse();
+
+    expect(result.updated).toBe(1);
+    expect(mockPrisma.productAttribute.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.productAttribute.update).toHaveBeenCalledWith({
+      where: { id: 'attr-2' },
+      data: expect.objectContaining({ parsingErrors: [], parserVersion: DESCRIPTION_GRAMMAR_VERSION })
+    });
+  });
+
+  it('writes a long history in batches rather than one transaction', async () => {
+    mockPrisma.productAttribute.findMany.mockResolvedValue(Array.from({ length: 250 }, (_, index) => (
+      storedAttribute({ id: `attr-${index}`, parsingErrors: ['No color found'] })
+    )));
+
+    const result = await service.applyReparse();
+
+    expect(result.updated).toBe(250);
+    expect(mockPrisma.productAttribute.update).toHaveBeenCalledTimes(250);
+    expect(mockPrisma.$transaction.mock.calls.map(([batch]) => batch.length)).toEqual([100, 100, 50]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hashSync } from 'bcryptjs';
+import { generateBadgeCode, isBadgeCode, isValidKioskPin, KIOSK_PIN_MAX_ATTEMPTS } from '../../utils/employeeBadges';
+import { decodeBarcode } from '../../utils/barcodeUtils';
+
+const mockPrisma = vi.hoisted(() => ({
+  user: {
+    findUnique: vi.fn(),
+    update: vi.fn()
+  }
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { KioskOperatorServiceImpl } = await import('../../server/lib/KioskOperatorService');
+
+describe('employeeBadges', () => {
+  describe('badge codes', () => {
+    it('generates codes the kiosk recognises as badges', () => {
+      const code = generateBadgeCode();
+      expect(code).toMatch(/^BDG[A-Z2-9]{10}$/);
+      expect(isBadgeCode(code)).toBe(true);
+      expect(generateBadgeCode()).not.toBe(code);
+    });
+
+    it('never mistakes an item barcode for a badge, or a badge for an item barcode', () => {
+      expect(isBadgeCode('S3A-1001-2')).toBe(false);
+      expect(isBadgeCode('BDG')).toBe(false);
+      expect(decodeBarcode(generateBadgeCode())).toBeNull();
+    });
+
+    it('accepts badges read in lower case', () => {
+      expect(isBadgeCode('bdgabcdefghjk')).toBe(true);
+    });
+  });
+
+  it('accepts 4 to 6 digit PINs', () => {
+    expect(isValidKioskPin('1234')).toBe(true);
+    expect(isValidKioskPin('123456')).toBe(true);
+    expect(isValidKioskPin('123')).toBe(false);
+    expect(isValidKioskPin('12a4')).toBe(false);
+  });
+
+  describe('KioskOperatorService', () => {
+    const service = new KioskOperatorServiceImpl();
+    const badgeCode = 'BDGABCDEFGHJK';
+    const worker = {
+      id: 'user-1',
+      name: 'Maria',
+      status: 'ACTIVE',
+      banned: null,
+      badgeCode,
+      kioskPinHash: hashSync('2468', 4),
+      kioskPinFailedAttempts: 0,
+      kioskPinLockedUntil: null as Date | null
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.user.findUnique.mockResolvedValue({ ...worker });
+      mockPrisma.user.update.mockResolvedValue({});
+    });
+
+    it('resolves a badge to its holder', async () => {
+      await expect(service.resolveBadge(badgeCode.toLowerCase())).resolves.toEqual({ id: 'user-1', name: 'Maria', hasPin: true });
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { badgeCode } });
+    });
+
+    it('rejects badges of inactive workers', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...worker, status: 'INACTIVE' });
+      await expect(service.resolveBadge(badgeCode)).rejects.toMatchObject({ name: 'KioskOperatorValidationError' });
+    });
+
+    it('reports a replaced badge as not found', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      await expect(service.resolveBadge(badgeCode)).rejects.toThrow('Employee badge not found');
+    });
+
+    it('accepts the right PIN', async () => {
+      await expect(service.verifyPin(badgeCode, '2468')).resolves.toMatchObject({ id: 'user-1' });
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('counts wrong PINs and locks the badge after too many', async () => {
+      await expect(service.verifyPin(badgeCode, '1111')).rejects.toThrow('Wrong PIN');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { kioskPinFailedAttempts: 1, kioskPinLockedUntil: null }
+      });
+
+      mockPrisma.user.findUnique.mockResolvedValue({ ...worker, kioskPinFailedAttempts: KIOSK_PIN_MAX_ATTEMPTS - 1 });
+      await expect(service.verifyPin(badgeCode, '1111')).rejects.toThrow(/locked/);
+      const lockData = mockPrisma.user.update.mock.calls[1][0].data;
+      expect(lockData.kioskPinFailedAttempts).toBe(0);
+      expect(lockData.kioskPinLockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('refuses even the right PIN while the badge is locked', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...worker, kioskPinLockedUntil: new Date(Date.now() + 5 * 60000) });
+      await expect(service.verifyPin(badgeCode, '2468')).rejects.toMatchObject({ name: 'KioskPinError', message: expect.stringMatching(/5 minutes/) });
+    });
+
+    it('asks for a PIN to be set before sensitive actions', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...worker, kioskPinHash: null });
+      await expect(service.verifyPin(badgeCode, '2468')).rejects.toThrow(/no kiosk PIN/);
+    });
+  });
+});
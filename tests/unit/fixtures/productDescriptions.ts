@@ -0,0 +1,297 @@
+import type { DescriptionFormat, ParsedAttributeField, ParsedProductAttributes } from '../../../utils/descriptionGrammar';
+
+// Order line and product descriptions as they come in from QuickBooks, with what the grammar should read from them.
+// Add a case here whenever a description is found that parses wrong, before changing the grammar.
+export interface DescriptionFixture {
+  name: string;
+  description: string;
+  format: DescriptionFormat;
+  attributes: Partial<ParsedProductAttributes>;
+  errors: string[];
+  lowConfidenceFields: ParsedAttributeField[];
+}
+
+export const DESCRIPTION_FIXTURES: DescriptionFixture[] = [
+  // Written by the cover configurator
+  {
+    name: 'canonical square',
+    description: 'Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side, DPW: No, WebU: No, MFL: No, SteamS: No, FabricU: No, EH: 0, ELS: No, Pack: No',
+    format: 'LINE',
+    attributes: {
+      color: 'Dark Gray',
+      size: '87',
+      shape: 'Square',
+      radiusSize: '8',
+      length: '',
+      width: '',
+      skirtLength: '5',
+      skirtType: 'CONN',
+      tieDownsQty: '4',
+      tieDownPlacement: 'HANDLE_SIDE',
+      distance: '0',
+      foamUpgrade: '',
+      extraHandleQty: '0',
+      extraLongSkirt: 'No',
+      packaging: false
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'canonical rectangle with every upgrade field',
+    description: 'Mocha, 96x84, Rectangle, R: 6.5, Skirt: 7-Slit, TD: 6-Corner Side-12, FoamU: 5-2.5, DPW: No, WebU: No, MFL: No, SteamS: Yes, FabricU: No, EH: 1, ELS: Yes, Pack: Yes',
+    format: 'LINE',
+    attributes: {
+      color: 'Mocha',
+      size: '96',
+      shape: 'Rectangle',
+      radiusSize: '6.5',
+      length: '96',
+      width: '84',
+      skirtLength: '7',
+      skirtType: 'SLIT',
+      tieDownsQty: '6',
+      tieDownPlacement: 'CORNER_SIDE',
+      distance: '12',
+      foamUpgrade: '5-2.5',
+      steamStopperUpgrade: 'Yes',
+      extraHandleQty: '1',
+      extraLongSkirt: 'Yes',
+      packaging: true
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'canonical round with no skirt or tie downs',
+    description: 'Coastal Gray, 90, Round, Skirt: 0-None, TD: 0-None, FoamU: 54", DPW: No, WebU: No, MFL: No, SteamS: No, FabricU: No, EH: 0, Pack: No',
+    format: 'LINE',
+    attributes: {
+      color: 'Coastal Gray',
+      size: '90',
+      shape: 'Round',
+      radiusSize: '',
+      skirtLength: '0',
+      skirtType: 'NONE',
+      tieDownsQty: '0',
+      tieDownPlacement: 'NONE',
+      foamUpgrade: '54"',
+      extraLongSkirt: ''
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+
+  // Typed into QuickBooks by hand
+  {
+    name: 'short line without upgrades',
+    description: 'Black, 84, Square, R: 6, Skirt: 5-Conn, TD: 4-Handle Side',
+    format: 'LINE',
+    attributes: {
+      color: 'Black',
+      size: '84',
+      shape: 'Square',
+      radiusSize: '6',
+      skirtLength: '5',
+      skirtType: 'CONN',
+      tieDownsQty: '4',
+      tieDownPlacement: 'HANDLE_SIDE',
+      doublePlasticWrapUpgrade: 'No',
+      extraHandleQty: '0',
+      packaging: false
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'tie down distance, foam and handles',
+    description: 'Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side-6, FoamU: 6-4, EH: 2',
+    format: 'LINE',
+    attributes: {
+      color: 'Dark Gray',
+      size: '87',
+      tieDownsQty: '4',
+      tieDownPlacement: 'HANDLE_SIDE',
+      distance: '6',
+      foamUpgrade: '6-4',
+      extraHandleQty: '2'
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'long skirt is extra long',
+    description: 'Sand, 78, Octagon, Skirt: 8-Conn, TD: 4-Fold Side-10, Pack: Yes',
+    format: 'LINE',
+    attributes: {
+      color: 'Sand',
+      size: '78',
+      shape: 'Octagon',
+      skirtLength: '8',
+      tieDownPlacement: 'FOLD_SIDE',
+      distance: '10',
+      extraLongSkirt: 'Yes',
+      packaging: true
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'variant spellings',
+    description: 'Brown, 90, rectangular, Skirt: 5-Connected, TD: 6-Corner, DPW: Y, EH: Yes',
+    format: 'LINE',
+    attributes: {
+      color: 'Brown',
+      size: '90',
+      shape: 'Rectangle',
+      skirtType: 'CONN',
+      tieDownsQty: '6',
+      tieDownPlacement: 'CORNER_SIDE',
+      doublePlasticWrapUpgrade: 'Yes',
+      extraHandleQty: '2'
+    },
+    errors: [],
+    lowConfidenceFields: ['extraHandleQty']
+  },
+  {
+    name: 'color with a comma in it',
+    description: 'Gray, Charcoal, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side',
+    format: 'LINE',
+    attributes: {
+      color: 'Gray, Charcoal',
+      size: '87',
+      shape: 'Square'
+    },
+    errors: [],
+    lowConfidenceFields: ['color']
+  },
+  {
+    name: 'tie downs without a placement',
+    description: 'Black, 84, Square, Skirt: 5-Conn, TD: 4',
+    format: 'LINE',
+    attributes: {
+      tieDownsQty: '4',
+      tieDownPlacement: 'HANDLE_SIDE'
+    },
+    errors: [],
+    lowConfidenceFields: ['tieDownPlacement']
+  },
+  {
+    name: 'unknown skirt type and field',
+    description: 'Black, 84, Square, R: 6, Skirt: 5-Flap, TD: 4-Handle Side, Lift: Yes',
+    format: 'LINE',
+    attributes: {
+      skirtLength: '5',
+      skirtType: 'CONN'
+    },
+    errors: ['Unknown skirt type "Flap"', 'Unknown field "Lift"'],
+    lowConfidenceFields: ['skirtType']
+  },
+  {
+    name: 'missing skirt',
+    description: 'Navy, 92, Square, R: 8, TD: 4-Handle Side',
+    format: 'LINE',
+    attributes: {
+      color: 'Navy',
+      size: '92',
+      skirtLength: ''
+    },
+    errors: ['No skirt found (expected e.g. "Skirt: 5-Conn")'],
+    lowConfidenceFields: ['skirtLength', 'skirtType']
+  },
+  {
+    name: 'free text without commas',
+    description: 'Dark Gray 87 square 5 inch skirt',
+    format: 'LINE',
+    attributes: {
+      color: '',
+      size: '87',
+      shape: 'Square'
+    },
+    errors: [
+      'Unrecognized text "Dark Gray 87 square 5 inch skirt"',
+      'No color found',
+      'No skirt found (expected e.g. "Skirt: 5-Conn")',
+      'No tie downs found (expected e.g. "TD: 4-Handle Side")'
+    ],
+    lowConfidenceFields: ['color', 'size', 'shape', 'skirtLength', 'skirtType', 'tieDownsQty', 'tieDownPlacement']
+  },
+  {
+    name: 'blank description',
+    description: '',
+    format: 'LINE',
+    attributes: {
+      color: '',
+      size: ''
+    },
+    errors: ['No description provided'],
+    lowConfidenceFields: ['color', 'size', 'shape', 'skirtLength', 'skirtType', 'tieDownsQty', 'tieDownPlacement']
+  },
+
+  // QuickBooks product catalog descriptions
+  {
+    name: 'catalog square with steam stopper',
+    description: '93X93\nSquare\n1\n5-2.5 STEAM STOPPER\n5-CONN\n6-TD\nDARK GRAY',
+    format: 'CATALOG',
+    attributes: {
+      color: 'DARK GRAY',
+      size: '93',
+      shape: 'Square',
+      length: '',
+      skirtLength: '5',
+      skirtType: 'CONN',
+      tieDownsQty: '6',
+      tieDownPlacement: 'HANDLE_SIDE',
+      foamUpgrade: '5-2.5',
+      steamStopperUpgrade: 'Yes'
+    },
+    errors: [],
+    lowConfidenceFields: ['tieDownPlacement']
+  },
+  {
+    name: 'catalog rectangle with standard foam',
+    description: '96X84\nRectangle\n1\n4-2\n5-FL-SLIT\n4-TD CORNER SIDE\nMOCHA',
+    format: 'CATALOG',
+    attributes: {
+      color: 'MOCHA',
+      size: '96',
+      length: '96',
+      width: '84',
+      skirtType: 'SLIT',
+      tieDownPlacement: 'CORNER_SIDE',
+      foamUpgrade: ''
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'catalog round with inch marks',
+    description: '90X90\nRound\n1\n5"-2.5"\nNONE\nNONE\nCOASTAL GRAY',
+    format: 'CATALOG',
+    attributes: {
+      shape: 'Round',
+      skirtLength: '0',
+      skirtType: 'NONE',
+      tieDownsQty: '0',
+      tieDownPlacement: 'NONE',
+      foamUpgrade: '5-2.5'
+    },
+    errors: [],
+    lowConfidenceFields: []
+  },
+  {
+    name: 'catalog shorthand',
+    description: '84X84\nSquare\n2\n6-4\n5 Connected\n4-H\nBLACK',
+    format: 'CATALOG',
+    attributes: {
+      size: '84',
+      skirtLength: '5',
+      skirtType: 'CONN',
+      tieDownsQty: '4',
+      tieDownPlacement: 'HANDLE_SIDE',
+      foamUpgrade: '6-4'
+    },
+    errors: [],
+    lowConfidenceFields: []
+  }
+];
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  costJobItem,
+  parseJobCostingSettings,
+  summarizeJobCosts,
+  type JobCostItemInput
+} from '../../utils/jobCosting';
+
+const mockPrisma = vi.hoisted(() => ({
+  order: { findMany: vi.fn() }
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { JobCostingServiceImpl } = await import('../../server/lib/JobCostingService');
+
+const SETTINGS = { overheadPerLaborHour: 10, overheadPerUnit: 5 };
+
+const input = (overrides: Partial<JobCostItemInput> = {}): JobCostItemInput => ({
+  orderItemId: 'item-1',
+  orderId: 'order-1',
+  orderNumber: '1001',
+  orderDate: new Date('2026-03-10T12:00:00Z'),
+  customerId: 'customer-1',
+  customerName: 'Spa Depot',
+  customerType: 'RETAILER',
+  itemName: 'Spa Cover',
+  quantity: 1,
+  pricePerItem: 500,
+  isProduct: true,
+  standardCost: null,
+  attributes: { productType: 'SPA_COVER', shape: 'Square', color: 'Black', size: '84x84' },
+  labor: [],
+  materials: [],
+  scrapCost: 0,
+  ...overrides
+});
+
+describe('jobCosting', () => {
+  it('treats missing, invalid or negative overhead rates as 0', () => {
+    expect(parseJobCostingSettings({ overheadPerLaborHour: '12.5', overheadPerUnit: 'lots' })).toEqual({
+      overheadPerLaborHour: 12.5,
+      overheadPerUnit: 0
+    });
+    expect(parseJobCostingSettings({ overheadPerUnit: -3 })).toEqual({ overheadPerLaborHour: 0, overheadPerUnit: 0 });
+    expect(parseJobCostingSettings(null)).toEqual({ overheadPerLaborHour: 0, overheadPerUnit: 0 });
+  });
+
+  it('costs labor at each worker\'s rate, BOM material, scrap and overhead against revenue', () => {
+    const item = costJobItem(input({
+      quantity: 2,
+      pricePerItem: 400,
+      standardCost: 999,
+      labor: [
+        { durationInSeconds: 3600, hourlyRate: 20 },
+        { durationInSeconds: 1800, hourlyRate: 30 },
+        { durationInSeconds: 1800, hourlyRate: null }
+      ],
+      materials: [
+        { quantity: 2.5, costPerUnit: 40 },
+        { quantity: 10, costPerUnit: null }
+      ],
+      scrapCost: 15
+    }), SETTINGS);
+
+    expect(item).toMatchObject({
+      revenue: 800,
+      laborHours: 2,
+      unratedLaborHours: 0.5,
+      laborCost: 35,
+      materialCost: 100,
+      materialSource: 'bom',
+      scrapCost: 15,
+      overheadCost: 30,
+      totalCost: 180,
+      margin: 620,
+      marginPercent: 77.5
+    });
+  });
+
+  it('falls back to the standard item cost and charges no unit overhead for non-production lines', () => {
+    const item = costJobItem(input({ isProduct: false, quantity: 3, pricePerItem: 20, standardCost: 8 }), SETTINGS);
+    expect(item).toMatchObject({ materialCost: 24, materialSource: 'standard', overheadCost: 0, margin: 36 });
+
+    const free = costJobItem(input({ pricePerItem: 0, isProduct: false }), SETTINGS);
+    expect(free).toMatchObject({ materialSource: 'none', marginPercent: null });
+  });
+
+  it('rolls items up by customer type with the biggest revenue first and months in order', () => {
+    const items = [
+      costJobItem(input({ orderItemId: 'a', pricePerItem: 100, orderDate: new Date('2026-04-02T00:00:00Z') }), SETTINGS),
+      costJobItem(input({ orderItemId: 'b', orderId: 'order-2', customerType: 'WHOLESALER', pricePerItem: 900 }), SETTINGS),
+      costJobItem(input({ orderItemId: 'c', orderId: 'order-3', pricePerItem: 300 }), SETTINGS)
+    ];
+
+    const byType = summarizeJobCosts(items, 'customerType');
+    expect(byType.map(row => [row.label, row.orderCount, row.revenue])).toEqual([
+      ['Wholesaler', 1, 900],
+      ['Retailer', 2, 400]
+    ]);
+
+    expect(summarizeJobCosts(items, 'month').map(row => row.key)).toEqual(['2026-03', '2026-04']);
+    expect(summarizeJobCosts([costJobItem(input({ attributes: { productType: null, shape: null, color: null, size: null } }), SETTINGS)], 'color')[0].label)
+      .toBe('Not specified');
+  });
+
+  describe('JobCostingService', () => {
+    const service = new JobCostingServiceImpl();
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('costs the order items from their logs, materials and reworks', async () => {
+      mockPrisma.order.findMany.mockResolvedValue([{
+        id: 'order-1',
+        salesOrderNumber: '1043',
+        createdAt: new Date('2026-03-10T12:00:00Z'),
+        customer: { id: 'customer-1', name: 'Spa Depot', type: 'RETAILER' },
+        items: [{
+          id: 'item-1',
+          quantity: 1,
+          pricePerItem: '650.00',
+          isProduct: true,
+          productType: 'SPA_COVER',
+          size: '84x84',
+          shape: 'Square',
+          item: { name: 'Spa Cover', cost: null },
+          productAttributes: { productType: 'SPA_COVER', shape: 'Round', color: 'Black', size: '90' },
+          itemProcessingLogs: [{ durationInSeconds: 5400, user: { hourlyRate: '24.00' } }],
+          materialRequirements: [{ quantity: '3.000', material: { costPerUnit: '50.00' } }],
+          reworks: [{ scrapCost: '20.00' }, { scrapCost: null }]
+        }]
+      }]);
+
+      const report = await service.getReport({ customerId: 'customer-1' }, 'shape', SETTINGS);
+
+      expect(mockPrisma.order.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { orderStatus: { notIn: ['PENDING', 'CANCELLED'] }, customerId: 'customer-1' }
+      }));
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0]).toMatchObject({ label: 'Round', laborCost: 36, materialCost: 150, scrapCost: 20, overheadCost: 20 });
+      expect(report.totals).toMatchObject({ revenue: 650, totalCost: 226, margin: 424 });
+      expect(report).toMatchObject({ orderCount: 1, itemCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JOB_BASE_RETRY_MS,
+  JOB_MAX_RETRY_MS,
+  getJobClaimLimits,
+  getJobRetryDelayMs,
+  getRecurringJobKey,
+  resolveJobFailure
+} from '../../utils/jobQueue';
+
+describe('jobQueue', () => {
+  describe('getJobRetryDelayMs', () => {
+    it('doubles the delay on each attempt', () => {
+      expect(getJobRetryDelayMs(1)).toBe(JOB_BASE_RETRY_MS);
+      expect(getJobRetryDelayMs(2)).toBe(JOB_BASE_RETRY_MS * 2);
+      expect(getJobRetryDelayMs(3)).toBe(JOB_BASE_RETRY_MS * 4);
+    });
+
+    it('uses the given base delay', () => {
+      expect(getJobRetryDelayMs(2, 1000)).toBe(2000);
+    });
+
+    it('caps the delay', () => {
+      expect(getJobRetryDelayMs(20)).toBe(JOB_MAX_RETRY_MS);
+    });
+  });
+
+  describe('resolveJobFailure', () => {
+    const now = new Date('2025-03-03T12:00:00Z');
+
+    it('schedules a retry while attempts remain', () => {
+      const outcome = resolveJobFailure(2, 5, now);
+      expect(outcome.status).toBe('PENDING');
+      expect(outcome.runAt?.getTime()).toBe(now.getTime() + JOB_BASE_RETRY_MS * 2);
+    });
+
+    it('dead-letters the job on its last attempt', () => {
+      expect(resolveJobFailure(5, 5, now)).toEqual({ status: 'DEAD', runAt: null });
+    });
+
+    it('dead-letters a job that is past its limit', () => {
+      expect(resolveJobFailure(7, 5, now).status).toBe('DEAD');
+    });
+  });
+
+  describe('getJobClaimLimits', () => {
+    it('claims up to each job type\'s concurrency', () => {
+      expect(getJobClaimLimits({ 'qbo.webhook': 2, 'email.retry-failed': 1 }, {}, 10))
+        .toEqual({ 'qbo.webhook': 2, 'email.retry-failed': 1 });
+    });
+
+    it('counts jobs already running on other workers', () => {
+      expect(getJobClaimLimits({ 'qbo.webhook': 2, 'email.retry-failed': 1 }, { 'qbo.webhook': 1, 'email.retry-failed': 1 }, 10))
+        .toEqual({ 'qbo.webhook': 1 });
+    });
+
+    it('stops when the worker has no free slots', () => {
+      expect(getJobClaimLimits({ 'qbo.webhook': 2, 'email.retry-failed': 1 }, {}, 2))
+        .toEqual({ 'qbo.webhook': 2 });
+      expect(getJobClaimLimits({ 'qbo.webhook': 2 }, {}, -1)).toEqual({});
+    });
+  });
+
+  describe('getRecurringJobKey', () => {
+    it('gives each recurring job its own key', () => {
+      expect(getRecurringJobKey('print-queue.cleanup')).toBe('recurring:print-queue.cleanup');
+      expect(getRecurringJobKey('print-queue.cleanup')).not.toBe(getRecurringJobKey('email.retry-failed'));
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockPrisma = vi.hoisted(() => ({
+  printQueue: { findMany: vi.fn() },
+  labelPrinter: { findUnique: vi.fn(), update: vi.fn() }
+}));
+
+const mockAttributeReviewService = vi.hoisted(() => ({
+  checkItems: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+vi.mock('~/server/lib/AttributeReviewService', () => ({
+  attributeReviewService: mockAttributeReviewService
+}));
+
+vi.mock('~/server/lib/PrintQueueService', () => ({
+  printQueueService: { markBatchPrinted: vi.fn() }
+}));
+
+const { LabelPrintServiceImpl } = await import('../../server/lib/LabelPrintService');
+
+const queueItem = (id: string, orderItemId: string) => ({
+  id,
+  orderItemId,
+  orderItem: {
+    id: orderItemId,
+    quantity: 1,
+    units: [],
+    productNumber: 1001,
+    productAttributes: { productType: 'SPA_COVER', color: 'Mocha', size: '84', shape: 'Square' },
+    order: { salesOrderNumber: '5001', customer: { name: 'Acme Spas' }, createdAt: new Date('2026-01-01') }
+  }
+});
+
+const blocked = () => Object.assign(new Error('P01001 has attributes that need review'), { name: 'UnverifiedAttributesError' });
+
+describe('LabelPrintService', () => {
+  const service = new LabelPrintServiceImpl();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not render labels for download when the items are blocked', async () => {
+    mockPrisma.printQueue.findMany.mockResolvedValue([queueItem('queue-1', 'item-1')]);
+    mockAttributeReviewService.checkItems.mockRejectedValue(blocked());
+
+    await expect(service.renderQueueItems(['queue-1'], 'ZPL')).rejects.toMatchObject({ name: 'UnverifiedAttributesError' });
+    expect(mockAttributeReviewService.checkItems).toHaveBeenCalledWith(['item-1'], 'print');
+  });
+
+  it('passes the warning along with rendered labels', async () => {
+    mockPrisma.printQueue.findMany.mockResolvedValue([queueItem('queue-1', 'item-1')]);
+    mockAttributeReviewService.checkItems.mockResolvedValue('P01001 has attributes that need review');
+
+    const rendered = await service.renderQueueItems(['queue-1'], 'ZPL');
+
+    expect(rendered.count).toBe(1);
+    expect(rendered.attributeWarning).toBe('P01001 has attributes that need review');
+  });
+
+  it('checks the order items behind queued labels printed elsewhere', async () => {
+    mockPrisma.printQueue.findMany.mockResolvedValue([{ orderItemId: 'item-1' }, { orderItemId: 'item-2' }]);
+    mockAttributeReviewService.checkItems.mockResolvedValue(null);
+
+    await expect(service.checkQueueItems(['queue-1', 'queue-2'])).resolves.toBeNull();
+    expect(mockPrisma.printQueue.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['queue-1', 'queue-2'] }, isPrinted: false }
+    }));
+    expect(mockAttributeReviewService.checkItems).toHaveBeenCalledWith(['item-1', 'item-2'], 'print');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'net';
+import { buildLabelContent, getBarcodeModuleWidth, renderPdfLabels, renderZplLabels } from '../../utils/labelRenderer';
+import { parseZplHostStatus, sendToLabelPrinter } from '../../server/lib/labelPrinterClient';
+
+// ~HS reply from a Zebra printer; the paper out, pause, head up and ribbon out flags are switchable
+function hostStatus({ paperOut = 0, paused = 0, headUp = 0, ribbonOut = 0 } = {}) {
+  return `\x02030,${paperOut},${paused},1245,000,0,0,0,000,0,0,0\x03\r\n`
+    + `\x02000,0,${headUp},${ribbonOut},0,2,4,0,00000000,1,000\x03\r\n`
+    + '\x021234,0\x03\r\n';
+}
+
+interface FakePrinter {
+  port: number;
+  received: () => string;
+}
+
+// Local stand-in for a printer's raw 9100 port
+function startFakePrinter(reply: 'status' | 'none', status: Parameters<typeof hostStatus>[0] = {}): Promise<FakePrinter> {
+  return new Promise((resolve) => {
+    let received = '';
+    server = createServer((socket) => {
+      socket.on('data', (chunk) => {
+        received += chunk.toString('latin1');
+        if (reply === 'status' && received.includes('~HS')) {
+          socket.write(hostStatus(status));
+        }
+      });
+      socket.on('end', () => socket.end());
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const address = server!.address();
+      resolve({ port: typeof address === 'object' && address ? address.port : 0, received: () => received });
+    });
+  });
+}
+
+let server: Server | null = null;
+
+describe('labelPrinter', () => {
+  const orderItem = {
+    id: 'cm1abcdefghijklmnopqrstuv',
+    productAttributes: {
+      productType: 'SPA_COVER',
+      color: 'Forest Green',
+      size: '84',
+      shape: 'Square',
+      tieDownsQty: '6',
+      skirtType: 'CONN',
+      webbingUpgrade: 'Yes',
+      extraHandleQty: '2'
+    }
+  };
+  const order = { salesOrderNumber: 'SO-1042', customer: { name: 'Blue Lagoon Spas LLC' }, createdAt: new Date(2025, 2, 7) };
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  describe('buildLabelContent', () => {
+    it('builds the label text the way the split label shows it', () => {
+      const label = buildLabelContent(orderItem, order);
+      expect(label.barcode).toBe('SO-1042-cm1abcdefghijklmnopqrstuv');
+      expect(label.customer).toBe('Blue Lago...');
+      expect(label.date).toBe('03/07');
+      expect(label.specs).toContainEqual({ label: 'Color', value: 'F.Green' });
+      expect(label.specs).toContainEqual({ label: 'Skirt Type', value: 'Connected' });
+      expect(label.upgrades).toEqual([
+        { label: 'Webbing', value: 'Yes' },
+        { label: 'Extra Handles', value: '+2' }
+      ]);
+    });
+  });
+
+  describe('renderZplLabels', () => {
+    it('renders one 3x5 label format per item', () => {
+      const labels = [buildLabelContent(orderItem, order), buildLabelContent({ ...orderItem, id: 'cm2' }, order)];
+      const zpl = renderZplLabels(labels, 203);
+      expect(zpl.match(/\^XA/g)).toHaveLength(2);
+      expect(zpl.match(/\^XZ/g)).toHaveLength(2);
+      expect(zpl).toContain('^PW609');
+      expect(zpl).toContain('^LL1015');
+      expect(zpl).toContain('^FDSO-1042-cm1abcdefghijklmnopqrstuv^FS');
+    });
+
+    it('scales the layout with the print head resolution', () => {
+      expect(renderZplLabels([buildLabelContent(orderItem, order)], 300)).toContain('^PW900');
+    });
+
+    it('escapes ZPL control characters in label text', () => {
+      const zpl = renderZplLabels([buildLabelContent(orderItem, { ...order, customer: { name: 'A^B~C_D' } })]);
+      expect(zpl).toContain('A_5EB_7EC_5FD');
+      expect(zpl).not.toContain('A^B');
+    });
+
+    it('keeps the barcode inside the label width', () => {
+      expect(getBarcodeModuleWidth('SO-1', 589)).toBe(3);
+      expect(getBarcodeModuleWidth('SO-1042-cm1abcdefghijklmnopqrstuv', 589)).toBe(1);
+    });
+  });
+
+  describe('renderPdfLabels', () => {
+    it('renders a page per item with a valid cross-reference table', () => {
+      const pdf = renderPdfLabels([buildLabelContent(orderItem, order), buildLabelContent(orderItem, order)]);
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('/MediaBox [0 0 216 360]');
+
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+      const firstOffset = Number(pdf.match(/0000000000 65535 f \n(\d{10})/)![1]);
+      expect(pdf.slice(firstOffset, firstOffset + 7)).toBe('1 0 obj');
+    });
+
+    it('escapes PDF string delimiters', () => {
+      const pdf = renderPdfLabels([buildLabelContent(orderItem, { ...order, customer: { name: 'Spa (East)' } })]);
+      expect(pdf).toContain('Spa \\(East\\)');
+    });
+  });
+
+  describe('parseZplHostStatus', () => {
+    it('reads the fault flags', () => {
+      expect(parseZplHostStatus(hostStatus())).toEqual({ paperOut: false, paused: false, headOpen: false, ribbonOut: false });
+      expect(parseZplHostStatus(hostStatus({ paperOut: 1, headUp: 1 }))).toMatchObject({ paperOut: true, headOpen: true });
+    });
+
+    it('returns null for an incomplete reply', () => {
+      expect(parseZplHostStatus('\x02030,0,0\x03')).toBeNull();
+    });
+  });
+
+  describe('sendToLabelPrinter', () => {
+    it('resolves once a ZPL printer reports it is ready', async () => {
+      const printer = await startFakePrinter('status');
+      const ack = await sendToLabelPrinter({ host: '127.0.0.1', port: printer.port, format: 'ZPL' }, '^XA^FDTest^FS^XZ');
+      expect(ack.status?.paperOut).toBe(false);
+      expect(printer.received()).toContain('^XA^FDTest^FS^XZ');
+      expect(printer.received()).toContain('~HS');
+    });
+
+    it('rejects when the printer reports a fault', async () => {
+      const printer = await startFakePrinter('status', { paperOut: 1 });
+      await expect(sendToLabelPrinter({ host: '127.0.0.1', port: printer.port, format: 'ZPL' }, '^XA^XZ'))
+        .rejects.toMatchObject({ name: 'LabelPrinterError', message: expect.stringContaining('out of labels') });
+    });
+
+    it('rejects when a ZPL printer never answers', async () => {
+      const printer = await startFakePrinter('none');
+      await expect(sendToLabelPrinter({ host: '127.0.0.1', port: printer.port, format: 'ZPL' }, '^XA^XZ', 200))
+        .rejects.toMatchObject({ name: 'LabelPrinterError', message: expect.stringContaining('did not respond') });
+    });
+
+    it('resolves a PDF job once the printer has taken every byte', async () => {
+      const printer = await startFakePrinter('none');
+      const ack = await sendToLabelPrinter({ host: '127.0.0.1', port: printer.port, format: 'PDF' }, '%PDF-1.4 test');
+      expect(ack.bytesSent).toBe(13);
+      expect(printer.received()).toBe('%PDF-1.4 test');
+    });
+
+    it('rejects when the printer cannot be reached', async () => {
+      const printer = await startFakePrinter('none');
+      await new Promise<void>(resolve => server!.close(() => resolve()));
+      server = null;
+      await expect(sendToLabelPrinter({ host: '127.0.0.1', port: printer.port, format: 'ZPL' }, '^XA^XZ'))
+        .rejects.toMatchObject({ name: 'LabelPrinterError', message: expect.stringContaining('Could not reach') });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  computeMaterialRequirements,
+  getCoverMeasurements,
+  getMaterialStockStatus,
+  getUnitShare,
+  matchesBomConditions,
+  type BomRuleSource
+} from '../../utils/materials';
+
+const mockPrisma = vi.hoisted(() => ({
+  materialRequirement: { findMany: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  orderItemUnit: { findMany: vi.fn() },
+  material: { update: vi.fn() },
+  materialTransaction: { create: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { MaterialsServiceImpl } = await import('../../server/lib/MaterialsService');
+
+describe('materials', () => {
+  const squareCover = { productType: 'SPA_COVER', shape: 'Square', length: '96', width: '96', skirtLength: '5', tieDownsQty: '6' };
+
+  describe('getCoverMeasurements', () => {
+    it('measures a square cover with no corner radius', () => {
+      const measurements = getCoverMeasurements(squareCover);
+      expect(measurements.areaSqFt).toBe(64);
+      expect(measurements.perimeterFt).toBe(32);
+      expect(measurements.skirtAreaSqFt).toBeCloseTo(13.333, 3);
+      expect(measurements.tieDowns).toBe(6);
+      expect(measurements.extraHandles).toBe(0);
+    });
+
+    it('takes the corner radius off the area and perimeter', () => {
+      const measurements = getCoverMeasurements({ ...squareCover, radiusSize: '12' });
+      expect(measurements.areaSqFt).toBeLessThan(64);
+      expect(measurements.perimeterFt).toBeLessThan(32);
+    });
+
+    it('uses the circle for round covers', () => {
+      const measurements = getCoverMeasurements({ shape: 'Round', size: '84' });
+      expect(measurements.areaSqFt).toBeCloseTo(Math.PI * 42 * 42 / 144, 2);
+      expect(measurements.perimeterFt).toBeCloseTo(Math.PI * 7, 2);
+    });
+
+    it('has no skirt area when the skirt type is none', () => {
+      expect(getCoverMeasurements({ ...squareCover, skirtType: 'NONE' }).skirtAreaSqFt).toBe(0);
+    });
+  });
+
+  describe('matchesBomConditions', () => {
+    it('matches every cover when there are no conditions', () => {
+      expect(matchesBomConditions(null, squareCover)).toBe(true);
+      expect(matchesBomConditions({}, squareCover)).toBe(true);
+    });
+
+    it('compares values as case-insensitive text', () => {
+      expect(matchesBomConditions({ shape: 'square' }, squareCover)).toBe(true);
+      expect(matchesBomConditions({ shape: 'round' }, squareCover)).toBe(false);
+      expect(matchesBomConditions({ doubleWrapped: true }, { doubleWrapped: 'True' })).toBe(true);
+    });
+
+    it('matches any value in a list', () => {
+      expect(matchesBomConditions({ foamUpgrade: ['5"-2.5"', '6"-4"'] }, { foamUpgrade: '6"-4"' })).toBe(true);
+      expect(matchesBomConditions({ foamUpgrade: ['5"-2.5"'] }, { foamUpgrade: 'No' })).toBe(false);
+    });
+  });
+
+  describe('computeMaterialRequirements', () => {
+    const rule = (overrides: Partial<BomRuleSource>): BomRuleSource => ({
+      id: 'rule-1',
+      materialId: 'vinyl',
+      stationId: 'cutting',
+      basis: 'COVER_AREA',
+      quantityPerUnit: 1,
+      ...overrides
+    });
+
+    it('scales the rule by the basis, waste and quantity', () => {
+      const lines = computeMaterialRequirements(squareCover, [rule({ wastePercent: 10 })], 2);
+      expect(lines).toEqual([{ materialId: 'vinyl', stationId: 'cutting', quantity: 140.8, ruleIds: ['rule-1'] }]);
+    });
+
+    it('skips rules for other product types or unmatched conditions', () => {
+      const lines = computeMaterialRequirements(squareCover, [
+        rule({ id: 'rule-1', productType: 'COVER_FOR_COVER' }),
+        rule({ id: 'rule-2', conditions: { shape: 'Round' } })
+      ]);
+      expect(lines).toEqual([]);
+    });
+
+    it('adds rules for the same material and station together', () => {
+      const lines = computeMaterialRequirements(squareCover, [
+        rule({ id: 'rule-1' }),
+        rule({ id: 'rule-2', basis: 'SKIRT_AREA' }),
+        rule({ id: 'rule-3', materialId: 'webbing', stationId: 'sewing', basis: 'TIE_DOWN', quantityPerUnit: 0.5 })
+      ]);
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({ materialId: 'vinyl', quantity: 77.333, ruleIds: ['rule-1', 'rule-2'] });
+      expect(lines[1]).toMatchObject({ materialId: 'webbing', stationId: 'sewing', quantity: 3 });
+    });
+
+    it('leaves out rules that come to nothing', () => {
+      expect(computeMaterialRequirements(squareCover, [rule({ basis: 'EXTRA_HANDLE' })])).toEqual([]);
+    });
+  });
+
+  describe('getMaterialStockStatus', () => {
+    it('reports the shortfall when reservations exceed stock', () => {
+      expect(getMaterialStockStatus({ quantityOnHand: 10, quantityReserved: 15, reorderPoint: 5 }))
+        .toEqual({ available: -5, shortfall: 5, isShort: true, isLow: false });
+    });
+
+    it('flags stock at or below the reorder point', () => {
+      expect(getMaterialStockStatus({ quantityOnHand: 20, quantityReserved: 15, reorderPoint: 5 }).isLow).toBe(true);
+      expect(getMaterialStockStatus({ quantityOnHand: 30, quantityReserved: 15, reorderPoint: 5 }).isLow).toBe(false);
+    });
+
+    it('does not flag low stock without a reorder point', () => {
+      expect(getMaterialStockStatus({ quantityOnHand: 0, quantityReserved: 0, reorderPoint: 0 }).isLow).toBe(false);
+    });
+  });
+
+  describe('getUnitShare', () => {
+    it('splits a line between its units so the shares add back up', () => {
+      const shares = [0, 1, 2].map(position => getUnitShare(10, 3, position));
+      expect(shares).toEqual([3.333, 3.334, 3.333]);
+      expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(10, 6);
+    });
+
+    it('gives nothing past the last unit', () => {
+      expect(getUnitShare(10, 2, 2)).toBe(0);
+    });
+  });
+});
+
+describe('MaterialsService', () => {
+  const service = new MaterialsServiceImpl();
+  const requirement = { id: 'req-1', materialId: 'vinyl', quantity: 16, consumedQuantity: 0, consumedUnitIds: [] as string[], station: { name: 'Cutting' } };
+  const units = [{ id: 'unit-1', unitNumber: 1 }, { id: 'unit-2', unitNumber: 2 }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+    mockPrisma.materialRequirement.findMany.mockResolvedValue([requirement]);
+    mockPrisma.materialRequirement.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.orderItemUnit.findMany.mockResolvedValue(units);
+  });
+
+  it('takes one unit\'s share when a unit of a multi-quantity line passes the station', async () => {
+    mockPrisma.materialRequirement.findUniqueOrThrow.mockResolvedValue({ ...requirement, consumedUnitIds: ['unit-2'] });
+
+    await expect(service.consumeForStation('item-1', 'cutting', 'user-1', 'unit-2')).resolves.toBe(1);
+
+    expect(mockPrisma.materialRequirement.updateMany).toHaveBeenCalledWith({
+      where: { id: 'req-1', status: 'RESERVED', NOT: { consumedUnitIds: { has: 'unit-2' } } },
+      data: { consumedUnitIds: { push: 'unit-2' } }
+    });
+    expect(mockPrisma.materialRequirement.update).toHaveBeenCalledWith({ where: { id: 'req-1' }, data: { consumedQuantity: { increment: 8 } } });
+    expect(mockPrisma.material.update).toHaveBeenCalledWith({
+      where: { id: 'vinyl' },
+      data: { quantityOnHand: { decrement: 8 }, quantityReserved: { decrement: 8 } }
+    });
+    expect(mockPrisma.materialTransaction.create.mock.calls[0][0].data).toMatchObject({ quantity: -8, notes: 'Used at Cutting station for Unit 2 of 2' });
+  });
+
+  it('uses the line up when its last unit passes', async () => {
+    mockPrisma.materialRequirement.findUniqueOrThrow.mockResolvedValue({ ...requirement, consumedQuantity: 8, consumedUnitIds: ['unit-2', 'unit-1'] });
+
+    await service.consumeForStation('item-1', 'cutting', 'user-1', 'unit-1');
+
+    expect(mockPrisma.materialRequirement.update).toHaveBeenCalledWith({
+      where: { id: 'req-1' },
+      data: { consumedQuantity: { increment: 8 }, status: 'CONSUMED', consumedAt: expect.any(Date) }
+    });
+  });
+
+  it('takes nothing when the same unit is scanned again', async () => {
+    mockPrisma.materialRequirement.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.consumeForStation('item-1', 'cutting', 'user-1', 'unit-2')).resolves.toBe(0);
+    expect(mockPrisma.material.update).not.toHaveBeenCalled();
+  });
+
+  it('takes what is left of the line when it passes as a whole', async () => {
+    mockPrisma.materialRequirement.findUniqueOrThrow.mockResolvedValue({ ...requirement, consumedQuantity: 8, consumedUnitIds: ['unit-2'] });
+
+    await service.consumeForStation('item-1', 'cutting', 'user-1');
+
+    expect(mockPrisma.orderItemUnit.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.material.update).toHaveBeenCalledWith({
+      where: { id: 'vinyl' },
+      data: { quantityOnHand: { decrement: 8 }, quantityReserved: { decrement: 8 } }
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createOfflineScan,
+  getPendingScans,
+  getReplayErrorMessage,
+  getReplayOutcome,
+  isNetworkFailure,
+  resolveScanTime,
+  OFFLINE_SCAN_MAX_ATTEMPTS,
+  type OfflineScan
+} from '../../utils/offlineScans';
+import { useOfflineScanQueue } from '../../composables/useOfflineScanQueue';
+
+function fetchError(statusCode?: number) {
+  const error = new Error(statusCode ? `[POST] /api/warehouse/process-item: ${statusCode}` : '[POST] /api/warehouse/process-item: <no response> Failed to fetch');
+  error.name = 'FetchError';
+  return Object.assign(error, { statusCode });
+}
+
+describe('offlineScans', () => {
+  const now = new Date('2026-03-02T15:00:00Z');
+
+  describe('createOfflineScan', () => {
+    it('stamps the scan with an ID and the time it was made', () => {
+      const scan = createOfflineScan(' ABC-1001-1 ', now);
+      expect(scan.barcode).toBe('ABC-1001-1');
+      expect(scan.scannedAt).toBe(now.toISOString());
+      expect(scan.state).toBe('pending');
+      expect(scan.id).not.toBe(createOfflineScan('ABC-1001-1', now).id);
+    });
+  });
+
+  describe('getPendingScans', () => {
+    it('returns pending scans oldest first and leaves conflicts out', () => {
+      const scans: OfflineScan[] = [
+        { ...createOfflineScan('C12-1001-1', new Date('2026-03-02T14:10:00Z')) },
+        { ...createOfflineScan('C12-1001-2', new Date('2026-03-02T14:00:00Z')), state: 'conflict' },
+        { ...createOfflineScan('S12-1001-1', new Date('2026-03-02T14:05:00Z')) }
+      ];
+
+      expect(getPendingScans(scans).map(scan => scan.barcode)).toEqual(['S12-1001-1', 'C12-1001-1']);
+    });
+  });
+
+  describe('isNetworkFailure', () => {
+    it('tells an unreachable server apart from one that answered', () => {
+      expect(isNetworkFailure(fetchError())).toBe(true);
+      expect(isNetworkFailure(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isNetworkFailure(fetchError(409))).toBe(false);
+      expect(isNetworkFailure(new Error('Item not found in this order'))).toBe(false);
+    });
+  });
+
+  describe('getReplayErrorMessage', () => {
+    it('prefers the reason the server gave', () => {
+      const error = Object.assign(fetchError(409), { data: { statusMessage: 'Item is already at Sewing' } });
+      expect(getReplayErrorMessage(error)).toBe('Item is already at Sewing');
+      expect(getReplayErrorMessage(new Error('Item not found in this order'))).toBe('Item not found in this order');
+      expect(getReplayErrorMessage('nope')).toBe('The scan was not applied');
+    });
+  });
+
+  describe('getReplayOutcome', () => {
+    it('retries when the server cannot be reached or the login expired', () => {
+      expect(getReplayOutcome(fetchError(), 10)).toBe('retry');
+      expect(getReplayOutcome(fetchError(401), 10)).toBe('retry');
+    });
+
+    it('retries server errors until the attempts run out', () => {
+      expect(getReplayOutcome(fetchError(500), 1)).toBe('retry');
+      expect(getReplayOutcome(fetchError(503), OFFLINE_SCAN_MAX_ATTEMPTS)).toBe('conflict');
+    });
+
+    it('keeps scans the server turned down as conflicts', () => {
+      expect(getReplayOutcome(fetchError(409), 1)).toBe('conflict');
+      expect(getReplayOutcome(fetchError(400), 1)).toBe('conflict');
+      expect(getReplayOutcome(new Error('Item not found in this order'), 1)).toBe('conflict');
+    });
+  });
+
+  describe('resolveScanTime', () => {
+    it('uses the current time for live scans', () => {
+      expect(resolveScanTime(undefined, now)).toEqual({ time: now, isBackdated: false, error: null });
+    });
+
+    it('keeps the time an offline scan was made', () => {
+      const result = resolveScanTime('2026-03-02T09:30:00Z', now);
+      expect(result.error).toBeNull();
+      expect(result.isBackdated).toBe(true);
+      expect(result.time?.toISOString()).toBe('2026-03-02T09:30:00.000Z');
+    });
+
+    it('treats a slightly fast kiosk clock as now', () => {
+      expect(resolveScanTime('2026-03-02T15:02:00Z', now).time).toEqual(now);
+    });
+
+    it('rejects invalid, future and stale scan times', () => {
+      expect(resolveScanTime('yesterday-ish', now).error).toMatch(/not a valid date/);
+      expect(resolveScanTime('2026-03-02T16:00:00Z', now).error).toMatch(/in the future/);
+      expect(resolveScanTime('2026-02-25T15:00:00Z', now).error).toMatch(/older than 72 hours/);
+    });
+  });
+
+  describe('useOfflineScanQueue', () => {
+    it('replays scans in order and keeps conflicts aside', async () => {
+      const sent: string[] = [];
+      const outcomes: string[] = [];
+      const queue = useOfflineScanQueue({
+        replayScan: async (scan) => {
+          sent.push(scan.barcode);
+          if (scan.barcode === 'S12-1001-1') {
+            throw fetchError(409);
+          }
+        },
+        onReplayed: (scan, outcome) => outcomes.push(`${scan.barcode}:${outcome}`)
+      });
+
+      queue.enqueue(createOfflineScan('S12-1001-1', new Date('2026-03-02T14:05:00Z')));
+      queue.enqueue(createOfflineScan('C12-1001-1', new Date('2026-03-02T14:00:00Z')));
+      queue.enqueue(createOfflineScan('C12-1001-2', new Date('2026-03-02T14:10:00Z')));
+      await queue.sync();
+
+      expect(sent).toEqual(['C12-1001-1', 'S12-1001-1', 'C12-1001-2']);
+      expect(outcomes).toEqual(['C12-1001-1:applied', 'S12-1001-1:conflict', 'C12-1001-2:applied']);
+      expect(queue.pendingScans.value).toHaveLength(0);
+      expect(queue.conflictScans.value.map(scan => scan.barcode)).toEqual(['S12-1001-1']);
+    });
+
+    it('stops at a scan that cannot reach the server so later scans do not jump ahead', async () => {
+      const sent: string[] = [];
+      let reachable = false;
+      const queue = useOfflineScanQueue({
+        replayScan: async (scan) => {
+          sent.push(scan.barcode);
+          if (!reachable) {
+            throw fetchError();
+          }
+        }
+      });
+
+      queue.enqueue(createOfflineScan('C12-1001-1', new Date('2026-03-02T14:00:00Z')));
+      queue.enqueue(createOfflineScan('C12-1001-2', new Date('2026-03-02T14:10:00Z')));
+      await queue.sync();
+
+      expect(sent).toEqual(['C12-1001-1']);
+      expect(queue.pendingScans.value).toHaveLength(2);
+      expect(queue.pendingScans.value[0].attempts).toBe(1);
+
+      reachable = true;
+      await queue.sync();
+      expect(queue.scans.value).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  formatUnitLabel,
+  getRolledUpUnitStatus,
+  getUnitLabelEntries,
+  getUnitProgress,
+  selectScannedUnit,
+  tracksUnits
+} from '../../utils/orderItemUnits';
+import { buildOrderItemLabels } from '../../utils/labelRenderer';
+
+const mockPrisma = vi.hoisted(() => ({
+  orderItem: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    update: vi.fn()
+  },
+  orderItemUnit: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+    deleteMany: vi.fn()
+  }
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { OrderItemUnitServiceImpl } = await import('../../server/lib/OrderItemUnitService');
+
+const unit = (unitNumber: number, productNumber: number, itemStatus: string, currentStepId: string | null = null) => ({
+  id: `unit-${unitNumber}`,
+  unitNumber,
+  productNumber,
+  itemStatus,
+  currentStepId
+});
+
+describe('orderItemUnits', () => {
+  it('tracks only production lines with more than one piece', () => {
+    expect(tracksUnits({ quantity: 3, isProduct: true })).toBe(true);
+    expect(tracksUnits({ quantity: 1, isProduct: true })).toBe(false);
+    expect(tracksUnits({ quantity: 3, isProduct: false })).toBe(false);
+    expect(formatUnitLabel(2, 3)).toBe('Unit 2 of 3');
+  });
+
+  it('rolls the order item up to its least advanced unit', () => {
+    const units = [unit(1, 1001, 'SEWING', 'step-sewing'), unit(2, 1005, 'CUTTING', 'step-cutting'), unit(3, 1006, 'READY')];
+
+    expect(getRolledUpUnitStatus(units)).toEqual({ itemStatus: 'CUTTING', currentStepId: 'step-cutting' });
+    expect(getUnitProgress(units)).toEqual({ ready: 1, total: 3 });
+    expect(getRolledUpUnitStatus([])).toBeNull();
+  });
+
+  it('finds the unit of a scanned label, and sends old line labels to the first unfinished unit', () => {
+    const units = [unit(1, 1001, 'READY'), unit(2, 1005, 'SEWING'), unit(3, 1006, 'CUTTING')];
+
+    expect(selectScannedUnit(units, '1006')?.unitNumber).toBe(3);
+    expect(selectScannedUnit(units, 'cm1abcdef')?.unitNumber).toBe(2);
+    expect(selectScannedUnit([], '1001')).toBeNull();
+  });
+
+  it('prints one label per unit, each with the unit product number in its barcode', () => {
+    const orderItem = { id: 'item-1', productNumber: 1001, units: [unit(2, 1005, 'CUTTING'), unit(1, 1001, 'CUTTING')], productAttributes: {} };
+    const order = { salesOrderNumber: 'SO-7', customer: { name: 'Spa Co' }, createdAt: new Date('2026-03-02') };
+
+    expect(getUnitLabelEntries(orderItem).map(entry => entry.unitLabel)).toEqual(['Unit 1 of 2', 'Unit 2 of 2']);
+    expect(buildOrderItemLabels(orderItem, order).map(label => [label.barcode, label.unitLabel])).toEqual([
+      ['SO-7-1001', 'Unit 1 of 2'],
+      ['SO-7-1005', 'Unit 2 of 2']
+    ]);
+    expect(buildOrderItemLabels({ ...orderItem, units: [] }, order)).toHaveLength(1);
+  });
+
+  describe('OrderItemUnitService', () => {
+    const service = new OrderItemUnitServiceImpl();
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.orderItemUnit.findMany.mockResolvedValue([]);
+    });
+
+    it('creates the missing units at the order item status, keeping its product number for unit 1', async () => {
+      mockPrisma.orderItem.findUnique.mockResolvedValue({
+        id: 'item-1', quantity: 3, isProduct: true, productNumber: 1001, itemStatus: 'CUTTING', currentStepId: 'step-cutting', units: []
+      });
+      mockPrisma.orderItem.findFirst.mockResolvedValue({ productNumber: 1004 });
+      mockPrisma.orderItemUnit.findFirst.mockResolvedValue(null);
+
+      await service.syncUnits('item-1');
+
+      expect(mockPrisma.orderItemUnit.createMany).toHaveBeenCalledWith({
+        data: [
+          { orderItemId: 'item-1', unitNumber: 1, productNumber: 1001, itemStatus: 'CUTTING', currentStepId: 'step-cutting' },
+          { orderItemId: 'item-1', unitNumber: 2, productNumber: 1005, itemStatus: 'CUTTING', currentStepId: 'step-cutting' },
+          { orderItemId: 'item-1', unitNumber: 3, productNumber: 1006, itemStatus: 'CUTTING', currentStepId: 'step-cutting' }
+        ]
+      });
+    });
+
+    it('only removes surplus units that have not been started', async () => {
+      mockPrisma.orderItem.findUnique.mockResolvedValue({
+        id: 'item-1', quantity: 2, isProduct: true, productNumber: 1001, itemStatus: 'NOT_STARTED_PRODUCTION', currentStepId: null,
+        units: [unit(1, 1001, 'CUTTING'), unit(2, 1005, 'NOT_STARTED_PRODUCTION'), unit(3, 1006, 'NOT_STARTED_PRODUCTION'), unit(4, 1007, 'SEWING')]
+      });
+
+      await service.syncUnits('item-1');
+
+      expect(mockPrisma.orderItemUnit.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['unit-3'] } } });
+      expect(mockPrisma.orderItemUnit.createMany).not.toHaveBeenCalled();
+    });
+
+    it('sets the order item status from its units', async () => {
+      mockPrisma.orderItemUnit.findMany.mockResolvedValue([unit(1, 1001, 'READY'), unit(2, 1005, 'PACKAGING', 'step-packaging')]);
+
+      await expect(service.rollUpItemStatus('item-1')).resolves.toEqual({ itemStatus: 'PACKAGING', currentStepId: 'step-packaging' });
+      expect(mockPrisma.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { itemStatus: 'PACKAGING', currentStepId: 'step-packaging' }
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildPayrollCsv,
+  formatPayPeriodDate,
+  calculatePayStatement,
+  getPieceRateUnits,
+  payStatementMatches,
+  type PayrollWorkLog,
+  type PieceRateSource
+} from '../../utils/payroll';
+
+const mockPrisma = vi.hoisted(() => ({
+  payPeriod: { findUnique: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+  payStatement: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+  itemProcessingLog: { findMany: vi.fn() },
+  pieceRate: { findMany: vi.fn() },
+  user: { findMany: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { PayrollServiceImpl } = await import('../../server/lib/PayrollService');
+
+const cover = { productType: 'SPA_COVER', shape: 'Square', length: '96', width: '84', tieDownsQty: '6', extraHandleQty: '2' };
+
+const rate = (overrides: Partial<PieceRateSource>): PieceRateSource => ({
+  id: 'rate-sew',
+  name: 'Sew cover',
+  stationId: 'sewing',
+  basis: 'PER_ITEM',
+  rate: 12,
+  ...overrides
+});
+
+const workLog = (overrides: Partial<PayrollWorkLog>): PayrollWorkLog => ({
+  id: 'log-1',
+  stationId: 'sewing',
+  stationName: 'Sewing',
+  orderItemId: 'item-1',
+  unitId: null,
+  quantity: 1,
+  durationInSeconds: 3600,
+  attributes: cover,
+  ...overrides
+});
+
+const period = {
+  id: 'period-1',
+  startDate: new Date('2026-03-01T00:00:00Z'),
+  endDate: new Date('2026-03-14T23:59:59.999Z'),
+  status: 'OPEN',
+  lockedAt: null,
+  lockedById: null
+};
+
+describe('payroll', () => {
+  describe('getPieceRateUnits', () => {
+    it('pays per cover, tie down or extra handle', () => {
+      expect(getPieceRateUnits(rate({}), cover)).toBe(1);
+      expect(getPieceRateUnits(rate({ basis: 'TIE_DOWN' }), cover)).toBe(6);
+      expect(getPieceRateUnits(rate({ basis: 'EXTRA_HANDLE' }), cover)).toBe(2);
+    });
+
+    it('buckets covers on their longest side', () => {
+      expect(getPieceRateUnits(rate({ maxSizeIn: 96 }), cover)).toBe(1);
+      expect(getPieceRateUnits(rate({ minSizeIn: 97 }), cover)).toBe(0);
+      expect(getPieceRateUnits(rate({ minSizeIn: 90 }), { productType: 'SPA_COVER' })).toBe(0);
+    });
+
+    it('skips other product types and unmatched upgrades', () => {
+      expect(getPieceRateUnits(rate({ productType: 'COVER_FOR_COVER' }), cover)).toBe(0);
+      expect(getPieceRateUnits(rate({ conditions: { webbingUpgrade: 'Yes' } }), cover)).toBe(0);
+      expect(getPieceRateUnits(rate({ conditions: { webbingUpgrade: 'Yes' } }), { ...cover, webbingUpgrade: 'yes' })).toBe(1);
+    });
+  });
+
+  describe('calculatePayStatement', () => {
+    it('adds station hours and stacked piece rates', () => {
+      const figures = calculatePayStatement(
+        [workLog({}), workLog({ id: 'log-2', orderItemId: 'item-2', durationInSeconds: 1800, quantity: 2 })],
+        [rate({}), rate({ id: 'rate-handles', name: 'Extra handles', basis: 'EXTRA_HANDLE', rate: 1.5 })],
+        20
+      );
+
+      expect(figures.hours).toBe(1.5);
+      expect(figures.pieces).toBe(3);
+      expect(figures.hourlyPay).toBe(30);
+      expect(figures.piecePay).toBe(45);
+      expect(figures.totalPay).toBe(75);
+      expect(figures.lines.map(line => [line.description, line.quantity, line.amount])).toEqual([
+        ['Station hours', 1.5, 30],
+        ['Extra handles', 6, 9],
+        ['Sew cover', 3, 36]
+      ]);
+    });
+
+    it('pays a cover once per station when it is reworked', () => {
+      const figures = calculatePayStatement(
+        [workLog({ unitId: 'unit-1' }), workLog({ id: 'log-2', unitId: 'unit-1' }), workLog({ id: 'log-3', unitId: 'unit-2' })],
+        [rate({})],
+        null
+      );
+
+      expect(figures.hours).toBe(3);
+      expect(figures.pieces).toBe(2);
+      expect(figures.hourlyPay).toBe(0);
+      expect(figures.piecePay).toBe(24);
+      expect(figures.lines[0]).toMatchObject({ type: 'HOURLY', rate: null, amount: 0 });
+    });
+
+    it('only pays rates for the station the work was done at', () => {
+      const figures = calculatePayStatement([workLog({})], [rate({ stationId: 'cutting' })], 20);
+      expect(figures.piecePay).toBe(0);
+      expect(figures.lines).toHaveLength(1);
+    });
+  });
+
+  describe('payStatementMatches', () => {
+    it('compares hours, pieces and total pay', () => {
+      const figures = calculatePayStatement([workLog({})], [rate({})], 20);
+      expect(payStatementMatches({ hours: 1, pieces: 1, totalPay: 32 }, figures)).toBe(true);
+      expect(payStatementMatches({ hours: 1, pieces: 1, totalPay: 20 }, figures)).toBe(false);
+    });
+  });
+
+  describe('buildPayrollCsv', () => {
+    it('writes one row per earning line with quoted cells', () => {
+      const figures = calculatePayStatement([workLog({})], [rate({ name: 'Sew "large" cover' })], 20);
+      const csv = buildPayrollCsv(period, [{
+        employeeId: 'user-1',
+        employeeName: 'Pat Sewer',
+        employeeEmail: 'pat@example.com',
+        lines: figures.lines
+      }], 'UTC');
+
+      expect(csv.split('\n')).toEqual([
+        '"Employee ID","Employee Name","Email","Period Start","Period End","Earning Code","Description","Hours","Units","Rate","Amount"',
+        '"user-1","Pat Sewer","pat@example.com","2026-03-01","2026-03-14","REG","Station hours","1","","20.00","20.00"',
+        '"user-1","Pat Sewer","pat@example.com","2026-03-01","2026-03-14","PIECE","Sewing - Sew ""large"" cover","","1","12.00","12.00"'
+      ]);
+    });
+  });
+
+  describe('PayrollServiceImpl', () => {
+    let service: InstanceType<typeof PayrollServiceImpl>;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new PayrollServiceImpl();
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => unknown) => callback(mockPrisma));
+    });
+
+    it('rejects a period that overlaps another', async () => {
+      mockPrisma.payPeriod.findFirst.mockResolvedValue(period);
+
+      await expect(service.createPeriod('2026-03-10', '2026-03-20', 'UTC'))
+        .rejects.toMatchObject({ name: 'PayrollValidationError', message: 'The period overlaps the pay period from 2026-03-01' });
+      expect(mockPrisma.payPeriod.create).not.toHaveBeenCalled();
+    });
+
+    it('opens a period on the day boundaries of the shop time zone', async () => {
+      mockPrisma.payPeriod.findFirst.mockResolvedValue(null);
+      mockPrisma.payPeriod.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => data);
+
+      const created = await service.createPeriod('2026-03-15', '2026-03-28', 'America/Chicago');
+
+      expect(created).toEqual({
+        startDate: new Date('2026-03-15T05:00:00.000Z'),
+        endDate: new Date('2026-03-29T04:59:59.999Z')
+      });
+      // The last day reads as the shop's date, not the UTC one
+      expect(formatPayPeriodDate(created.endDate, 'America/Chicago')).toBe('2026-03-28');
+    });
+
+    it('keeps unchanged approved statements approved when recalculating', async () => {
+      mockPrisma.payPeriod.findUnique.mockResolvedValue(period);
+      mockPrisma.itemProcessingLog.findMany.mockResolvedValue([{
+        id: 'log-1',
+        userId: 'user-1',
+        stationId: 'sewing',
+        orderItemId: 'item-1',
+        unitId: null,
+        durationInSeconds: 3600,
+        station: { name: 'Sewing' },
+        orderItem: { quantity: 1, productType: 'SPA_COVER', length: '96', width: '84', productAttributes: null }
+      }]);
+      mockPrisma.pieceRate.findMany.mockResolvedValue([{ ...rate({}), productType: null, conditions: null, minSizeIn: null, maxSizeIn: null }]);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1', hourlyRate: 20 }]);
+      mockPrisma.payStatement.findMany.mockResolvedValue([
+        { id: 'statement-1', userId: 'user-1', status: 'APPROVED', hours: 1, pieces: 1, totalPay: 32 }
+      ]);
+      mockPrisma.payStatement.update.mockImplementation(async ({ data }: any) => data);
+
+      await service.calculatePeriod('period-1');
+
+      expect(mockPrisma.payStatement.deleteMany).toHaveBeenCalledWith({
+        where: { payPeriodId: 'period-1', userId: { notIn: ['user-1'] } }
+      });
+      const { data } = mockPrisma.payStatement.update.mock.calls[0][0];
+      expect(data).toMatchObject({ hours: 1, pieces: 1, hourlyPay: 20, piecePay: 12, totalPay: 32 });
+      expect(data).not.toHaveProperty('status');
+    });
+
+    it('sends changed statements back to draft when recalculating', async () => {
+      mockPrisma.payPeriod.findUnique.mockResolvedValue(period);
+      mockPrisma.itemProcessingLog.findMany.mockResolvedValue([]);
+      mockPrisma.pieceRate.findMany.mockResolvedValue([]);
+      mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-1', hourlyRate: 25 }]);
+      mockPrisma.payStatement.findMany.mockResolvedValue([
+        { id: 'statement-1', userId: 'user-1', status: 'APPROVED', hours: 1, pieces: 1, totalPay: 32 }
+      ]);
+
+      await service.calculatePeriod('period-1');
+
+      expect(mockPrisma.payStatement.update.mock.calls[0][0].data).toMatchObject({ status: 'DRAFT', approvedById: null, approvedAt: null });
+    });
+
+    it('refuses to recalculate or approve in a locked period', async () => {
+      mockPrisma.payPeriod.findUnique.mockResolvedValue({ ...period, status: 'LOCKED' });
+      mockPrisma.payStatement.findUnique.mockResolvedValue({ id: 'statement-1', payPeriod: { ...period, status: 'LOCKED' } });
+
+      await expect(service.calculatePeriod('period-1')).rejects.toMatchObject({ name: 'PayPeriodLockedError' });
+      await expect(service.approveStatement('statement-1', 'user-sup')).rejects.toMatchObject({ name: 'PayPeriodLockedError' });
+      expect(mockPrisma.payStatement.update).not.toHaveBeenCalled();
+    });
+
+    it('only locks a period once every statement is approved', async () => {
+      mockPrisma.payPeriod.findUnique.mockResolvedValue(period);
+      mockPrisma.payStatement.findMany.mockResolvedValue([{ status: 'APPROVED' }, { status: 'DRAFT' }]);
+
+      await expect(service.lockPeriod('period-1', 'user-admin')).rejects.toThrow('1 statement is not approved yet');
+      expect(mockPrisma.payPeriod.update).not.toHaveBeenCalled();
+
+      mockPrisma.payStatement.findMany.mockResolvedValue([{ status: 'APPROVED' }]);
+      await service.lockPeriod('period-1', 'user-admin');
+      expect(mockPrisma.payPeriod.update).toHaveBeenCalledWith({
+        where: { id: 'period-1' },
+        data: expect.objectContaining({ status: 'LOCKED', lockedById: 'user-admin' })
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkPrice, computeCoverPrice, selectPriceList, type PriceRuleSource } from '../../utils/pricing';
+
+const mockPrisma = vi.hoisted(() => ({
+  order: { findUnique: vi.fn() },
+  priceList: { findMany: vi.fn() }
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { PricingServiceImpl } = await import('../../server/lib/PricingService');
+
+const cover = { productType: 'SPA_COVER', shape: 'Square', size: '84', foamUpgrade: '5-2.5', extraHandleQty: '2', tieDownsQty: '4' };
+
+const rule = (overrides: Partial<PriceRuleSource>): PriceRuleSource => ({
+  id: 'rule-base',
+  name: 'Up to 96in',
+  kind: 'BASE',
+  basis: 'PER_ITEM',
+  amount: 400,
+  ...overrides
+});
+
+const rules: PriceRuleSource[] = [
+  rule({ id: 'base-any', name: 'Any size', amount: 500 }),
+  rule({ id: 'base-84', name: 'Up to 84in', maxSizeIn: 84, amount: 350 }),
+  rule({ id: 'base-96', name: '85-96in', minSizeIn: 85, maxSizeIn: 96, amount: 420 }),
+  rule({ id: 'foam', name: '5-2.5 foam', kind: 'ADDER', conditions: { foamUpgrade: '5-2.5' }, amount: 60 }),
+  rule({ id: 'handles', name: 'Extra handle', kind: 'ADDER', basis: 'EXTRA_HANDLE', amount: 12.5 }),
+  rule({ id: 'skirt', name: 'Extra long skirt', kind: 'ADDER', conditions: { extraLongSkirt: 'Yes' }, amount: 25 })
+];
+
+const list = (overrides: Record<string, unknown>) => ({
+  id: 'list-1',
+  name: 'Retail 2026',
+  customerType: 'RETAILER',
+  effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+  effectiveTo: null as Date | null,
+  isActive: true,
+  ...overrides
+});
+
+describe('pricing', () => {
+  describe('computeCoverPrice', () => {
+    it('adds the matching upgrade adders to the narrowest matching base price', () => {
+      const price = computeCoverPrice(cover, rules);
+      expect(price.basePrice).toBe(350);
+      expect(price.adderTotal).toBe(85);
+      expect(price.unitPrice).toBe(435);
+      expect(price.lines.map(line => line.priceRuleId)).toEqual(['base-84', 'foam', 'handles']);
+    });
+
+    it('picks the base price of the size bucket the cover falls in', () => {
+      expect(computeCoverPrice({ ...cover, size: '92' }, rules).basePrice).toBe(420);
+      expect(computeCoverPrice({ ...cover, size: '110' }, rules).basePrice).toBe(500);
+    });
+
+    it('cannot price a cover no base price covers', () => {
+      const price = computeCoverPrice(cover, rules.filter(priceRule => priceRule.kind === 'ADDER'));
+      expect(price.basePrice).toBeNull();
+      expect(price.unitPrice).toBeNull();
+    });
+  });
+
+  describe('selectPriceList', () => {
+    it('uses the list of the customer type in effect on the date, latest first', () => {
+      const lists = [
+        list({ id: 'old', effectiveFrom: new Date('2025-01-01T00:00:00Z'), effectiveTo: new Date('2025-12-31T23:59:59.999Z') }),
+        list({ id: 'current' }),
+        list({ id: 'promo', effectiveFrom: new Date('2026-03-01T00:00:00Z'), effectiveTo: new Date('2026-03-31T23:59:59.999Z') }),
+        list({ id: 'wholesale', customerType: 'WHOLESALER', effectiveFrom: new Date('2026-02-01T00:00:00Z') }),
+        list({ id: 'inactive', isActive: false, effectiveFrom: new Date('2026-02-15T00:00:00Z') })
+      ];
+
+      expect(selectPriceList(lists, 'RETAILER', new Date('2025-06-01T00:00:00Z'))?.id).toBe('old');
+      expect(selectPriceList(lists, 'RETAILER', new Date('2026-02-20T00:00:00Z'))?.id).toBe('current');
+      expect(selectPriceList(lists, 'RETAILER', new Date('2026-03-31T12:00:00Z'))?.id).toBe('promo');
+      expect(selectPriceList(lists, 'CA_RETAIL', new Date('2026-02-20T00:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('checkPrice', () => {
+    it('flags any difference of a cent or more', () => {
+      expect(checkPrice(435, 435)).toMatchObject({ difference: 0, isDeviation: false });
+      expect(checkPrice(400, 435)).toMatchObject({ difference: -35, differencePercent: -8, isDeviation: true });
+      expect(checkPrice(400, null)).toMatchObject({ difference: null, isDeviation: false });
+    });
+  });
+
+  describe('PricingService.getOrderPricing', () => {
+    const service = new PricingServiceImpl();
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('prices the order items from the list in effect on the transaction date', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({
+        id: 'order-1',
+        transactionDate: new Date('2026-02-10T00:00:00Z'),
+        createdAt: new Date('2026-02-12T00:00:00Z'),
+        customer: { type: 'RETAILER' },
+        items: [{ id: 'item-1', pricePerItem: 450, productAttributes: cover }]
+      });
+      mockPrisma.priceList.findMany.mockResolvedValue([
+        { ...list({}), rules: rules.map(priceRule => ({ ...priceRule, amount: String(priceRule.amount), conditions: priceRule.conditions ?? null })) }
+      ]);
+
+      const pricing = await service.getOrderPricing('order-1');
+
+      expect(mockPrisma.priceList.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ customerType: 'RETAILER', effectiveFrom: { lte: new Date('2026-02-10T00:00:00Z') } })
+      }));
+      expect(pricing.priceList?.id).toBe('list-1');
+      expect(pricing.items[0]).toMatchObject({ orderItemId: 'item-1', enteredPrice: 450, computedPrice: 435, difference: 15, isDeviation: true });
+    });
+
+    it('does not flag prices when no list is in effect', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({
+        id: 'order-1',
+        transactionDate: null,
+        createdAt: new Date('2026-02-12T00:00:00Z'),
+        customer: { type: 'CA_WHOLESALE' },
+        items: [{ id: 'item-1', pricePerItem: 450, productAttributes: cover }]
+      });
+      mockPrisma.priceList.findMany.mockResolvedValue([]);
+
+      const pricing = await service.getOrderPricing('order-1');
+      expect(pricing.priceList).toBeNull();
+      expect(pricing.items[0]).toMatchObject({ computedPrice: null, isDeviation: false });
+    });
+
+    it('throws when the order does not exist', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue(null);
+      await expect(service.getOrderPricing('missing')).rejects.toThrow('Order not found');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_PRODUCTION_WORKFLOW } from '../../utils/workflowEngine';
+import {
+  DEFAULT_PRIORITY_SCORING_WEIGHTS,
+  calculatePriorityScore,
+  parsePriorityScoringConfig,
+  rankPriorityItems,
+  type PriorityScoreInput
+} from '../../utils/priorityScoring';
+
+const mockPrisma = vi.hoisted(() => ({
+  orderItem: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() }
+}));
+const mockWorkflowService = vi.hoisted(() => ({ getWorkflowsForItems: vi.fn() }));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+vi.mock('~/server/lib/WorkflowService', () => ({
+  workflowService: mockWorkflowService
+}));
+
+const { PriorityScoringServiceImpl } = await import('../../server/lib/PriorityScoringService');
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * 24 * 60 * 60 * 1000);
+
+const input = (overrides: Partial<PriorityScoreInput> = {}): PriorityScoreInput => ({
+  priority: 'MEDIUM',
+  dueDate: null,
+  orderCreatedAt: daysFromNow(-1),
+  customerType: 'RETAILER',
+  siblingStatuses: [],
+  boost: 0,
+  ...overrides
+});
+
+const points = (score: ReturnType<typeof calculatePriorityScore>, factor: string) =>
+  score.components.find(component => component.factor === factor)?.points;
+
+describe('priorityScoring', () => {
+  it('falls back to the default weights for missing or invalid config and reads customer type scores', () => {
+    const config = parsePriorityScoringConfig({
+      dueDateWeight: '60',
+      orderAgeWeight: 'lots',
+      manualPriorityWeight: '-5',
+      customerTypeScores: 'retailer:0.25, WHOLESALER:2, bogus'
+    });
+
+    expect(config.weights).toEqual({ ...DEFAULT_PRIORITY_SCORING_WEIGHTS, dueDate: 60 });
+    expect(config.customerTypeScores).toMatchObject({ RETAILER: 0.25, WHOLESALER: 1, CA_RETAIL: 0.5 });
+  });
+
+  it('scores each factor against its weight', () => {
+    const score = calculatePriorityScore(input({
+      priority: 'HIGH',
+      dueDate: daysFromNow(7),
+      orderCreatedAt: daysFromNow(-15),
+      customerType: 'WHOLESALER',
+      siblingStatuses: ['READY', 'SEWING', 'PRODUCT_FINISHED', 'CUTTING'],
+      boost: 5
+    }), parsePriorityScoringConfig(), NOW);
+
+    expect(points(score, 'dueDate')).toBe(20);
+    expect(points(score, 'orderAge')).toBe(7.5);
+    expect(points(score, 'customerType')).toBe(10);
+    expect(points(score, 'manualPriority')).toBe(25);
+    expect(points(score, 'siblingProgress')).toBe(5);
+    expect(score.total).toBe(72.5);
+    expect(score.components.find(component => component.factor === 'siblingProgress')?.detail).toBe('2 of 4 other items done');
+  });
+
+  it('gives overdue orders all of the due-date points and undated orders none', () => {
+    const overdue = calculatePriorityScore(input({ dueDate: daysFromNow(-2) }), parsePriorityScoringConfig(), NOW);
+    expect(points(overdue, 'dueDate')).toBe(40);
+    expect(overdue.components[0].detail).toBe('Overdue by 2d');
+
+    const undated = calculatePriorityScore(input(), parsePriorityScoringConfig(), NOW);
+    expect(points(undated, 'dueDate')).toBe(0);
+  });
+
+  it('ranks a rush order due soon above an old MEDIUM order', () => {
+    const config = parsePriorityScoringConfig();
+    const oldMedium = calculatePriorityScore(input({ orderCreatedAt: daysFromNow(-25) }), config, NOW);
+    const rush = calculatePriorityScore(input({ priority: 'HIGH', dueDate: daysFromNow(1) }), config, NOW);
+
+    expect(rush.total).toBeGreaterThan(oldMedium.total);
+  });
+
+  it('puts pinned items first, then the station\'s own work, then by score', () => {
+    const item = (id: string, score: number, nextStationName: string, pinnedAt: Date | null = null) =>
+      ({ id, score, nextStationName, pinnedAt, orderCreatedAt: daysFromNow(-1) });
+
+    const ranked = rankPriorityItems([
+      item('sewing-high', 90, 'Sewing'),
+      item('cutting-low', 20, 'Cutting'),
+      item('pinned-late', 10, 'Packaging', daysFromNow(-1)),
+      item('cutting-high', 60, 'Cutting'),
+      item('pinned-early', 5, 'Sewing', daysFromNow(-2))
+    ], 'Cutting');
+
+    expect(ranked.map(entry => entry.id)).toEqual(['pinned-early', 'pinned-late', 'cutting-high', 'cutting-low', 'sewing-high']);
+    expect(rankPriorityItems(ranked).map(entry => entry.id).slice(2)).toEqual(['sewing-high', 'cutting-high', 'cutting-low']);
+  });
+
+  describe('PriorityScoringService', () => {
+    const service = new PriorityScoringServiceImpl();
+    const config = parsePriorityScoringConfig();
+
+    const record = (id: string, itemStatus: string, order: Record<string, unknown>) => ({
+      id,
+      itemStatus,
+      createdAt: daysFromNow(-1),
+      currentStepId: null,
+      workflowId: null,
+      priorityPinnedAt: null,
+      priorityBoost: 0,
+      productType: 'SPA_COVER',
+      productAttributes: { productType: 'SPA_COVER' },
+      order: {
+        id: `order-${id}`,
+        salesOrderNumber: id,
+        priority: 'MEDIUM',
+        createdAt: daysFromNow(-1),
+        dueDate: null,
+        customer: { name: 'Spa Depot', type: 'RETAILER' },
+        items: [{ id, itemStatus }],
+        ...order
+      }
+    });
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockWorkflowService.getWorkflowsForItems.mockImplementation(async (items: { id: string }[]) =>
+        new Map(items.map(item => [item.id, DEFAULT_PRODUCTION_WORKFLOW])));
+    });
+
+    it('scores every open item and ranks the station\'s work first', async () => {
+      mockPrisma.orderItem.findMany.mockResolvedValue([
+        record('old-medium', 'SEWING', { createdAt: daysFromNow(-28) }),
+        record('rush', 'SEWING', { priority: 'HIGH', dueDate: daysFromNow(1) }),
+        record('cutting', 'CUTTING', {})
+      ]);
+
+      const list = await service.getPriorityList('Cutting', config);
+
+      expect(list.map(entry => [entry.item.id, entry.nextStationName])).toEqual([
+        ['cutting', 'Cutting'],
+        ['rush', 'Sewing'],
+        ['old-medium', 'Sewing']
+      ]);
+      expect(mockPrisma.orderItem.findMany).toHaveBeenCalledWith(expect.not.objectContaining({ take: expect.anything() }));
+    });
+
+    it('keeps the original pin time when pinning again and validates the boost', async () => {
+      const pinnedAt = daysFromNow(-3);
+      mockPrisma.orderItem.findUnique.mockResolvedValue({
+        id: 'item-1', priorityPinnedAt: pinnedAt, priorityBoost: 0, order: { id: 'order-1', salesOrderNumber: '1043' }
+      });
+      mockPrisma.orderItem.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) =>
+        ({ priorityPinnedAt: data.priorityPinnedAt ?? pinnedAt, priorityBoost: data.priorityBoost ?? 0 }));
+
+      const result = await service.adjustPriority('item-1', { pinned: true, boost: 15 });
+      expect(mockPrisma.orderItem.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { priorityPinnedAt: pinnedAt, priorityBoost: 15 }
+      }));
+      expect(result).toMatchObject({ orderNumber: '1043', priorityBoost: 15, previous: { priorityBoost: 0 } });
+
+      await expect(service.adjustPriority('item-1', { boost: 500 })).rejects.toMatchObject({ name: 'PriorityAdjustmentValidationError' });
+      await expect(service.adjustPriority('item-1', {})).rejects.toMatchObject({ name: 'PriorityAdjustmentValidationError' });
+    });
+  });
+});
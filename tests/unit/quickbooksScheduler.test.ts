@@ -97,72 +97,10 @@ describe('QuickBooks Scheduler and Background Processes', () => {
 
   afterEach(() => {
     vi.useRealTimers()
-    // Stop any running schedulers
-    QuickBooksTokenManager.stopTokenRefreshScheduler()
     QuickBooksMonitor.getInstance().stop()
   })
 
-  describe('Scheduler Initialization', () => {
-    it('should start scheduler successfully', () => {
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(false)
-      
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-    })
-
-    it('should stop existing scheduler before starting new one', () => {
-      // Start first scheduler
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      
-      // Start second scheduler (should stop first one)
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-    })
-
-    it('should handle scheduler startup errors gracefully', () => {
-      // Mock console methods to capture logs
-      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
-      
-      expect(() => QuickBooksTokenManager.startTokenRefreshScheduler()).not.toThrow()
-      
-      consoleSpy.mockRestore()
-    })
-
-    it('should run initial token check after startup', async () => {
-      mockPrisma.quickBooksIntegration.findMany.mockResolvedValue([])
-      
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past the initial 1-second delay
-      await vi.advanceTimersByTimeAsync(1100)
-      
-      expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledWith({
-        where: { isActive: true }
-      })
-    })
-  })
-
-  describe('Scheduler Operation', () => {
-    it('should check tokens every 30 minutes', async () => {
-      mockPrisma.quickBooksIntegration.findMany.mockResolvedValue([])
-      
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check
-      await vi.advanceTimersByTimeAsync(1100)
-      expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledTimes(1)
-      
-      // Fast-forward 30 minutes
-      await vi.advanceTimersByTimeAsync(30 * 60 * 1000)
-      expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledTimes(2)
-      
-      // Fast-forward another 30 minutes
-      await vi.advanceTimersByTimeAsync(30 * 60 * 1000)
-      expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledTimes(3)
-    })
-
+  describe('Queued Token Refresh', () => {
     it('should refresh tokens that are close to expiry', async () => {
       const soonToExpire = new Date(Date.now() + 5 * 60 * 1000) // 5 minutes from now
       const integration = {
@@ -190,10 +128,7 @@ describe('QuickBooks Scheduler and Background Processes', () => {
       
       mockPrisma.quickBooksIntegration.update.mockResolvedValue({})
 
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check
-      await vi.advanceTimersByTimeAsync(1100)
+      await QuickBooksTokenManager.refreshExpiringTokens()
       
       expect(mockOAuthClient.refresh).toHaveBeenCalled()
       expect(mockPrisma.quickBooksIntegration.update).toHaveBeenCalledWith({
@@ -220,10 +155,7 @@ describe('QuickBooks Scheduler and Background Processes', () => {
 
       mockPrisma.quickBooksIntegration.findMany.mockResolvedValue([integration])
 
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check
-      await vi.advanceTimersByTimeAsync(1100)
+      await QuickBooksTokenManager.refreshExpiringTokens()
       
       expect(mockOAuthClient.refresh).not.toHaveBeenCalled()
       expect(mockPrisma.quickBooksIntegration.update).not.toHaveBeenCalled()
@@ -244,10 +176,7 @@ describe('QuickBooks Scheduler and Background Processes', () => {
       mockPrisma.quickBooksIntegration.findMany.mockResolvedValue([integration])
       mockPrisma.quickBooksIntegration.update.mockResolvedValue({})
 
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check
-      await vi.advanceTimersByTimeAsync(1100)
+      await QuickBooksTokenManager.refreshExpiringTokens()
       
       expect(mockPrisma.quickBooksIntegration.update).toHaveBeenCalledWith({
         where: { id: 'test-id' },
@@ -275,10 +204,10 @@ describe('QuickBooks Scheduler and Background Processes', () => {
       mockOAuthClient.refresh.mockRejectedValue(new Error('Refresh failed'))
       mockPrisma.quickBooksIntegration.update.mockResolvedValue({})
 
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check
-      await vi.advanceTimersByTimeAsync(1100)
+      // The job fails so the queue retries it - after its own retry delay
+      const run = expect(QuickBooksTokenManager.refreshExpiringTokens()).rejects.toThrow()
+      await vi.runAllTimersAsync()
+      await run
       
       // Should mark integration as inactive after refresh failure
       expect(mockPrisma.quickBooksIntegration.update).toHaveBeenCalledWith({
@@ -290,45 +219,16 @@ describe('QuickBooks Scheduler and Background Processes', () => {
       })
     })
 
-    it('should continue running after errors', async () => {
-      // First call fails, second succeeds
+    it('should fail the job on errors and succeed when retried', async () => {
+      // First run fails, the retry succeeds
       mockPrisma.quickBooksIntegration.findMany
         .mockRejectedValueOnce(new Error('Database error'))
         .mockResolvedValueOnce([])
 
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check (should fail)
-      await vi.advanceTimersByTimeAsync(1100)
-      
-      // Fast-forward 30 minutes (should succeed)
-      await vi.advanceTimersByTimeAsync(30 * 60 * 1000)
+      await expect(QuickBooksTokenManager.refreshExpiringTokens()).rejects.toThrow()
+      await expect(QuickBooksTokenManager.refreshExpiringTokens()).resolves.toBeUndefined()
       
       expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledTimes(2)
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-    })
-  })
-
-  describe('Scheduler Control', () => {
-    it('should stop scheduler successfully', () => {
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      
-      QuickBooksTokenManager.stopTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(false)
-    })
-
-    it('should handle stopping scheduler when not running', () => {
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(false)
-      expect(() => QuickBooksTokenManager.stopTokenRefreshScheduler()).not.toThrow()
-    })
-
-    it('should restart scheduler successfully', () => {
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      
-      QuickBooksTokenManager.restartTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
     })
   })
 
@@ -493,23 +393,5 @@ describe('QuickBooks Scheduler and Background Processes', () => {
       health = await monitor.performHealthCheck()
       expect(health.overall).toBe('healthy')
     })
-
-    it('should handle scheduler errors without stopping', async () => {
-      // Mock scheduler error on first check, success on second
-      mockPrisma.quickBooksIntegration.findMany
-        .mockRejectedValueOnce(new Error('Scheduler error'))
-        .mockResolvedValueOnce([])
-
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      
-      // Fast-forward past initial check (should fail but continue)
-      await vi.advanceTimersByTimeAsync(1100)
-      
-      // Fast-forward 30 minutes (should succeed)
-      await vi.advanceTimersByTimeAsync(30 * 60 * 1000)
-      
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      expect(mockPrisma.quickBooksIntegration.findMany).toHaveBeenCalledTimes(2)
-    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QBO_SYNC_MAX_RETRY_MS,
+  buildInvoiceSyncValues,
+  buildSparseInvoiceUpdate,
+  detectInvoiceConflict,
+  getSyncErrorMessage,
+  getSyncRetryDelayMs,
+  isRetryableSyncError,
+  isStaleObjectError,
+  type InvoiceSyncValues,
+  type QboInvoice
+} from '../../utils/quickbooksSync';
+
+const FIELD_ID = '2';
+
+const values: InvoiceSyncValues = {
+  shipDate: '2025-03-03',
+  trackingNumber: '1Z999',
+  shipMethod: 'UPS Ground',
+  productionStatus: 'Shipped'
+};
+
+function invoice(overrides: Partial<QboInvoice> = {}): QboInvoice {
+  return { Id: '145', SyncToken: '3', ...overrides };
+}
+
+function qboFault(code: string) {
+  return { statusCode: 400, data: { Fault: { Error: [{ code, Message: 'Stale Object Error', Detail: 'You and another user were working on the same thing.' }] } } };
+}
+
+describe('quickbooksSync', () => {
+  describe('buildInvoiceSyncValues', () => {
+    it('takes the ship method from the latest shipment that was not voided', () => {
+      const result = buildInvoiceSyncValues({
+        orderStatus: 'SHIPPED',
+        shipDate: new Date(2025, 2, 3, 15, 30),
+        trackingNumber: '1Z999',
+        shipments: [
+          { carrier: 'UPS', serviceName: 'Ground', serviceCode: '03', status: 'IN_TRANSIT', createdAt: new Date(2025, 2, 3, 9) },
+          { carrier: 'FEDEX', serviceName: 'Priority', serviceCode: 'FP', status: 'VOIDED', createdAt: new Date(2025, 2, 3, 10) }
+        ]
+      });
+
+      expect(result).toEqual(values);
+    });
+
+    it('truncates values to the QBO length limit', () => {
+      const result = buildInvoiceSyncValues({
+        orderStatus: 'ORDER_PROCESSING',
+        shipDate: null,
+        trackingNumber: 'X'.repeat(40)
+      });
+
+      expect(result.trackingNumber).toHaveLength(31);
+      expect(result).toMatchObject({ shipDate: null, shipMethod: null, productionStatus: 'In Production' });
+    });
+  });
+
+  describe('buildSparseInvoiceUpdate', () => {
+    it('writes only the fields we own with the current SyncToken', () => {
+      expect(buildSparseInvoiceUpdate(invoice(), values, FIELD_ID)).toEqual({
+        Id: '145',
+        SyncToken: '3',
+        sparse: true,
+        ShipDate: '2025-03-03',
+        TrackingNum: '1Z999',
+        ShipMethodRef: { value: 'UPS Ground', name: 'UPS Ground' },
+        CustomField: [{ DefinitionId: FIELD_ID, Type: 'StringType', StringValue: 'Shipped' }]
+      });
+    });
+
+    it('leaves out empty values and the production status when no custom field is configured', () => {
+      const update = buildSparseInvoiceUpdate(invoice(), { ...values, trackingNumber: null, shipMethod: null }, null);
+
+      expect(update).toEqual({ Id: '145', SyncToken: '3', sparse: true, ShipDate: '2025-03-03' });
+    });
+  });
+
+  describe('detectInvoiceConflict', () => {
+    it('does not conflict when the SyncToken is still the one from our last write', () => {
+      const result = detectInvoiceConflict(
+        invoice({ SyncToken: '3', TrackingNum: 'EDITED' }),
+        values,
+        { syncToken: '3', pushedValues: { trackingNumber: 'OLD' } },
+        FIELD_ID
+      );
+
+      expect(result.conflict).toBe(false);
+    });
+
+    it('conflicts when a field was changed in QuickBooks since our last write', () => {
+      const result = detectInvoiceConflict(
+        invoice({ SyncToken: '5', TrackingNum: 'EDITED', ShipDate: '2025-03-01' }),
+        values,
+        { syncToken: '3', pushedValues: { trackingNumber: 'OLD', shipDate: '2025-03-01' } },
+        FIELD_ID
+      );
+
+      expect(result).toEqual({ conflict: true, changedFields: ['trackingNumber'] });
+    });
+
+    it('ignores edits that already match what we are about to push', () => {
+      const result = detectInvoiceConflict(
+        invoice({ SyncToken: '5', TrackingNum: '1Z999' }),
+        values,
+        { syncToken: '3', pushedValues: { trackingNumber: 'OLD' } },
+        FIELD_ID
+      );
+
+      expect(result.conflict).toBe(false);
+    });
+
+    it('reads the production status from the configured custom field', () => {
+      const result = detectInvoiceConflict(
+        invoice({ SyncToken: '5', CustomField: [{ DefinitionId: FIELD_ID, Type: 'StringType', StringValue: 'On Hold' }] }),
+        values,
+        { syncToken: '3', pushedValues: { productionStatus: 'In Production' } },
+        FIELD_ID
+      );
+
+      expect(result.changedFields).toEqual(['productionStatus']);
+    });
+
+    it('treats values entered in QuickBooks before our first write as a conflict', () => {
+      const result = detectInvoiceConflict(invoice({ TrackingNum: 'MANUAL' }), values, null, FIELD_ID);
+
+      expect(result).toEqual({ conflict: true, changedFields: ['trackingNumber'] });
+    });
+  });
+
+  describe('errors and retries', () => {
+    it('recognises stale SyncToken faults', () => {
+      expect(isStaleObjectError(qboFault('5010'))).toBe(true);
+      expect(isStaleObjectError(qboFault('6000'))).toBe(false);
+      expect(isStaleObjectError(new Error('timeout'))).toBe(false);
+    });
+
+    it('retries stale objects and transient errors but not validation errors', () => {
+      expect(isRetryableSyncError(qboFault('5010'))).toBe(true);
+      expect(isRetryableSyncError({ statusCode: 503 })).toBe(true);
+      expect(isRetryableSyncError(new Error('fetch failed'))).toBe(true);
+      expect(isRetryableSyncError(qboFault('6000'))).toBe(false);
+      expect(isRetryableSyncError({ statusCode: 404 })).toBe(false);
+    });
+
+    it('backs off exponentially up to the cap', () => {
+      expect(getSyncRetryDelayMs(1)).toBe(60 * 1000);
+      expect(getSyncRetryDelayMs(2)).toBe(4 * 60 * 1000);
+      expect(getSyncRetryDelayMs(20)).toBe(QBO_SYNC_MAX_RETRY_MS);
+    });
+
+    it('formats QBO faults', () => {
+      expect(getSyncErrorMessage(qboFault('5010'))).toBe('Stale Object Error: You and another user were working on the same thing.');
+      expect(getSyncErrorMessage(new Error('fetch failed'))).toBe('fetch failed');
+    });
+  });
+});
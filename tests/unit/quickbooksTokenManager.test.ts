@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { QuickBooksTokenManager } from '~/server/lib/quickbooksTokenManager'
 import { QuickBooksErrorType } from '~/server/lib/quickbooksErrorHandler'
 
@@ -73,11 +73,6 @@ describe('QuickBooksTokenManager', () => {
     vi.mocked(getEnhancedPrismaClient).mockResolvedValue(mockPrisma)
   })
 
-  afterEach(() => {
-    // Stop any running schedulers
-    QuickBooksTokenManager.stopTokenRefreshScheduler()
-  })
-
   describe('getValidAccessToken', () => {
     it('should return valid access token when not expired', async () => {
       const futureDate = new Date(Date.now() + 30 * 60 * 1000) // 30 minutes from now
@@ -519,32 +514,4 @@ describe('QuickBooksTokenManager', () => {
       await expect(QuickBooksTokenManager.disconnect()).resolves.not.toThrow()
     })
   })
-
-  describe('scheduler functionality', () => {
-    it('should start scheduler successfully', () => {
-      expect(() => QuickBooksTokenManager.startTokenRefreshScheduler()).not.toThrow()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-    })
-
-    it('should stop scheduler successfully', () => {
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      
-      QuickBooksTokenManager.stopTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(false)
-    })
-
-    it('should restart scheduler successfully', () => {
-      QuickBooksTokenManager.startTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-      
-      QuickBooksTokenManager.restartTokenRefreshScheduler()
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(true)
-    })
-
-    it('should handle stopping scheduler when not running', () => {
-      expect(QuickBooksTokenManager.isSchedulerRunning()).toBe(false)
-      expect(() => QuickBooksTokenManager.stopTokenRefreshScheduler()).not.toThrow()
-    })
-  })
 })
\ No newline at end of file
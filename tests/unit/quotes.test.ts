@@ -0,0 +1,415 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { createCoverConfiguration } from '../../utils/coverConfigurator';
+import { renderQuotePdf, wrapPdfText, type QuoteDocument } from '../../utils/quoteDocument';
+import {
+  buildQboEstimate,
+  getNextQuoteNumber,
+  getQuoteExpirationDate,
+  getQuoteTotal,
+  isQuoteDueForReminder,
+  isQuoteExpired,
+  parseQuoteSettings,
+  type QuoteReminderSource
+} from '../../utils/quotes';
+
+const mockPrisma = vi.hoisted(() => ({
+  customer: { findUnique: vi.fn() },
+  item: { count: vi.fn() },
+  estimate: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn()
+  },
+  estimateItem: { update: vi.fn(), deleteMany: vi.fn() },
+  order: { create: vi.fn() },
+  orderItem: { create: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+const mocks = vi.hoisted(() => ({
+  quoteCover: vi.fn(),
+  sendQuoteEmail: vi.fn(),
+  qboApiRequest: vi.fn(),
+  isConnected: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+vi.mock('~/server/lib/PricingService', () => ({
+  pricingService: { quoteCover: mocks.quoteCover }
+}));
+
+vi.mock('~/server/lib/emailService', () => ({
+  EmailService: { sendQuoteEmail: mocks.sendQuoteEmail }
+}));
+
+vi.mock('~/server/lib/qbo-client', () => ({
+  qboApiRequest: mocks.qboApiRequest
+}));
+
+vi.mock('~/server/lib/quickbooksTokenManager', () => ({
+  QuickBooksTokenManager: { isConnected: mocks.isConnected }
+}));
+
+vi.mock('~/server/utils/productNumber', () => ({
+  getNextProductNumbers: vi.fn(async (count: number) => Array.from({ length: count }, (_, index) => 2001 + index))
+}));
+
+const { QuoteServiceImpl } = await import('../../server/lib/QuoteService');
+
+const settings = { validDays: 30, reminderDaysBeforeExpiry: 3 };
+const cover = createCoverConfiguration({ color: 'Dark Gray', size: '87', radiusSize: '8' });
+
+function reminderSource(overrides: Partial<QuoteReminderSource> = {}): QuoteReminderSource {
+  return {
+    status: 'SENT',
+    expirationDate: new Date('2026-11-18T00:00:00Z'),
+    reminderSentAt: null,
+    customerEmail: 'pat@example.com',
+    ...overrides
+  };
+}
+
+function quoteRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'estimate-1',
+    estimateNumber: 'Q-1001',
+    status: 'DRAFT',
+    customerId: 'customer-1',
+    customerEmail: 'pat@example.com',
+    customerMemo: null,
+    acceptToken: null,
+    transactionDate: new Date('2026-10-19T00:00:00Z'),
+    expirationDate: null,
+    sentAt: null,
+    totalAmount: 1250,
+    quickbooksEstimateId: null,
+    quickbooksSyncToken: null,
+    createdAt: new Date('2026-10-19T00:00:00Z'),
+    linkedOrder: null,
+    customer: {
+      id: 'customer-1',
+      name: 'Acme Spas',
+      email: 'orders@acme.example',
+      contactNumber: '555-0100',
+      type: 'RETAILER',
+      quickbooksCustomerId: '58'
+    },
+    items: [
+      {
+        id: 'line-1',
+        itemId: 'item-1',
+        quantity: 1,
+        pricePerItem: 1250,
+        lineDescription: 'Dark Gray, 87, Square, R: 8',
+        productAttributes: null,
+        quickbooksEstimateLineId: null,
+        item: { name: 'Spa Cover', isSpacoverProduct: true, quickbooksItemId: '7' }
+      }
+    ],
+    ...overrides
+  };
+}
+
+describe('quotes', () => {
+  it('reads the quote settings, falling back to the defaults', () => {
+    expect(parseQuoteSettings({ validDays: '14', reminderDaysBeforeExpiry: '0' })).toEqual({ validDays: 14, reminderDaysBeforeExpiry: 0 });
+    expect(parseQuoteSettings({ validDays: '0', reminderDaysBeforeExpiry: 'soon' })).toEqual({ validDays: 30, reminderDaysBeforeExpiry: 3 });
+    expect(parseQuoteSettings(undefined)).toEqual({ validDays: 30, reminderDaysBeforeExpiry: 3 });
+  });
+
+  it('totals lines to the cent and numbers quotes after the last one', () => {
+    expect(getQuoteTotal([{ quantity: 3, pricePerItem: 19.99 }, { quantity: 1, pricePerItem: 0.015 }])).toBe(59.99);
+    expect(getNextQuoteNumber('Q-1042')).toBe('Q-1043');
+    expect(getNextQuoteNumber('1042')).toBe('Q-1001');
+    expect(getNextQuoteNumber(null)).toBe('Q-1001');
+  });
+
+  it('keeps a quote open until the end of its expiration date', () => {
+    expect(getQuoteExpirationDate(new Date('2026-10-19T21:30:00Z'), settings)).toEqual(new Date('2026-11-18T00:00:00Z'));
+
+    const quote = reminderSource();
+    expect(isQuoteExpired(quote, new Date('2026-11-18T23:59:00Z'))).toBe(false);
+    expect(isQuoteExpired(quote, new Date('2026-11-19T00:00:00Z'))).toBe(true);
+    expect(isQuoteExpired({ ...quote, status: 'ACCEPTED' }, new Date('2026-12-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('is due for one reminder inside the reminder window', () => {
+    const insideWindow = new Date('2026-11-17T12:00:00Z');
+
+    expect(isQuoteDueForReminder(reminderSource(), settings, new Date('2026-11-10T00:00:00Z'))).toBe(false);
+    expect(isQuoteDueForReminder(reminderSource(), settings, insideWindow)).toBe(true);
+    expect(isQuoteDueForReminder(reminderSource({ reminderSentAt: insideWindow }), settings, insideWindow)).toBe(false);
+    expect(isQuoteDueForReminder(reminderSource({ customerEmail: null }), settings, insideWindow)).toBe(false);
+    expect(isQuoteDueForReminder(reminderSource(), { ...settings, reminderDaysBeforeExpiry: 0 }, insideWindow)).toBe(false);
+  });
+
+  it('builds a new QBO estimate and a sparse update that keeps line Ids', () => {
+    const source = {
+      quickbooksEstimateId: null,
+      syncToken: null,
+      customerQboId: '58',
+      estimateNumber: 'Q-1001',
+      transactionDate: new Date('2026-10-19T00:00:00Z'),
+      expirationDate: new Date('2026-11-18T00:00:00Z'),
+      customerEmail: 'pat@example.com',
+      customerMemo: null,
+      status: 'SENT' as const,
+      lines: [{ quickbooksEstimateLineId: null, itemQboId: '7', lineDescription: 'Dark Gray, 87, Square', quantity: 2, pricePerItem: 612.5 }]
+    };
+
+    expect(buildQboEstimate(source)).toEqual({
+      CustomerRef: { value: '58' },
+      TxnStatus: 'Pending',
+      DocNumber: 'Q-1001',
+      TxnDate: '2026-10-19',
+      ExpirationDate: '2026-11-18',
+      BillEmail: { Address: 'pat@example.com' },
+      Line: [{
+        DetailType: 'SalesItemLineDetail',
+        Amount: 1225,
+        Description: 'Dark Gray, 87, Square',
+        SalesItemLineDetail: { ItemRef: { value: '7' }, Qty: 2, UnitPrice: 612.5 }
+      }]
+    });
+
+    const update = buildQboEstimate({
+      ...source,
+      quickbooksEstimateId: '310',
+      syncToken: '4',
+      status: 'CONVERTED',
+      lines: [{ ...source.lines[0], quickbooksEstimateLineId: '1' }]
+    });
+    expect(update).toMatchObject({ Id: '310', SyncToken: '4', sparse: true, TxnStatus: 'Accepted' });
+    expect((update.Line as Array<Record<string, unknown>>)[0].Id).toBe('1');
+  });
+
+  it('wraps long text and splits words wider than a line', () => {
+    expect(wrapPdfText('Dark Gray, 87, Square', 60, 10)).toEqual(['Dark Gray,', '87, Square']);
+    expect(wrapPdfText('https://example.com/quotes/abcdef', 50, 10)).toEqual(['https://ex', 'ample.com/', 'quotes/abc', 'def']);
+  });
+
+  it('renders the quote PDF across pages when the lines do not fit', () => {
+    const quote: QuoteDocument = {
+      companyName: 'Spacovers',
+      quoteNumber: 'Q-1001',
+      customerName: 'Acme (Spas)',
+      date: new Date('2026-10-19T00:00:00Z'),
+      expirationDate: new Date('2026-11-18T00:00:00Z'),
+      memo: 'Thanks for asking',
+      lines: Array.from({ length: 30 }, (_, index) => ({
+        name: `Spa Cover ${index + 1}`,
+        description: 'Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side',
+        quantity: 1,
+        unitPrice: 1250
+      })),
+      total: 37500,
+      acceptUrl: 'https://app.example.com/quotes/token'
+    };
+
+    const pdf = renderQuotePdf(quote);
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Acme \\(Spas\\)) Tj');
+    expect(pdf).toContain('($37,500.00) Tj');
+    expect(pdf).toContain('(Valid until: 11/18/2026) Tj');
+  });
+});
+
+describe('QuoteService', () => {
+  const service = new QuoteServiceImpl();
+
+  // The parser logs every field it reads
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (work: unknown) => (typeof work === 'function' ? work(mockPrisma) : Promise.all(work as unknown[])));
+    mockPrisma.customer.findUnique.mockResolvedValue(quoteRecord().customer);
+    mockPrisma.item.count.mockImplementation(async ({ where }: { where: { id: { in: string[] } } }) => where.id.in.length);
+    mocks.sendQuoteEmail.mockResolvedValue(undefined);
+  });
+
+  it('prices a configured cover from the price list and keeps its attributes', async () => {
+    mockPrisma.estimate.findFirst.mockResolvedValue({ estimateNumber: 'Q-1041' });
+    mockPrisma.estimate.create.mockImplementation(async ({ data }: { data: unknown }) => data);
+    mocks.quoteCover.mockResolvedValue({ priceList: { id: 'list-1', name: 'Retail 2026' }, price: { unitPrice: 1180 } });
+
+    const quote = await service.createQuote({
+      customerId: 'customer-1',
+      items: [
+        { itemId: 'item-1', quantity: 2, coverConfiguration: cover },
+        { itemId: 'item-2', quantity: 1, pricePerItem: 45, lineDescription: 'Cover lifter' }
+      ]
+    }) as any;
+
+    expect(mocks.quoteCover).toHaveBeenCalledWith('RETAILER', expect.objectContaining({ color: 'Dark Gray', size: '87', shape: 'Square' }));
+    expect(quote).toMatchObject({
+      estimateNumber: 'Q-1042',
+      status: 'DRAFT',
+      customerEmail: 'orders@acme.example',
+      totalAmount: 2405
+    });
+    const [coverLine, lifterLine] = quote.items.create;
+    expect(coverLine).toMatchObject({ position: 0, pricePerItem: 1180, productAttributes: expect.objectContaining({ color: 'Dark Gray' }) });
+    expect(coverLine.lineDescription).toMatch(/^Dark Gray, 87, Square/);
+    expect(lifterLine).toMatchObject({ position: 1, pricePerItem: 45, lineDescription: 'Cover lifter' });
+  });
+
+  it('asks for a price when no price list covers the cover', async () => {
+    mocks.quoteCover.mockResolvedValue({ priceList: null, price: null });
+
+    await expect(service.createQuote({
+      customerId: 'customer-1',
+      items: [{ itemId: 'item-1', quantity: 1, coverConfiguration: cover }]
+    })).rejects.toMatchObject({ name: 'QuoteValidationError', message: 'Line 1: no price list price for this cover - enter a price' });
+  });
+
+  it('emails the quote with an accept link and starts the validity period', async () => {
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord());
+    mockPrisma.estimate.update.mockImplementation(async ({ data }: { data: unknown }) => data);
+
+    const sent = await service.sendQuote('estimate-1', 'https://app.example.com/', settings) as any;
+
+    expect(sent.status).toBe('SENT');
+    expect(sent.acceptToken).toMatch(/^[\w-]{43}$/);
+    expect(sent.expirationDate.getTime() - Date.UTC(sent.sentAt.getUTCFullYear(), sent.sentAt.getUTCMonth(), sent.sentAt.getUTCDate())).toBe(30 * 24 * 60 * 60 * 1000);
+    const [to, data, pdf, isReminder] = mocks.sendQuoteEmail.mock.calls[0];
+    expect(to).toBe('pat@example.com');
+    expect(data).toMatchObject({ quoteNumber: 'Q-1001', total: '$1,250.00', acceptUrl: `https://app.example.com/quotes/${sent.acceptToken}` });
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(isReminder).toBe(false);
+  });
+
+  it('does not mark the quote sent when the email fails', async () => {
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord());
+    mocks.sendQuoteEmail.mockRejectedValue(new Error('SES is down'));
+
+    await expect(service.sendQuote('estimate-1', 'https://app.example.com', settings)).rejects.toThrow('SES is down');
+    expect(mockPrisma.estimate.update).not.toHaveBeenCalled();
+  });
+
+  it('accepts a sent quote only until it expires', async () => {
+    const sent = quoteRecord({ status: 'SENT', acceptToken: 'token', expirationDate: new Date('2026-11-18T00:00:00Z') });
+    mockPrisma.estimate.findUnique.mockResolvedValue(sent);
+    mockPrisma.estimate.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.estimate.findUniqueOrThrow.mockResolvedValue({ ...sent, status: 'ACCEPTED' });
+
+    await expect(service.acceptQuote('token', new Date('2026-11-19T00:00:00Z'))).rejects.toMatchObject({ name: 'QuoteStateError' });
+
+    const accepted = await service.acceptQuote('token', new Date('2026-11-18T12:00:00Z'));
+    expect(accepted.status).toBe('ACCEPTED');
+    expect(mockPrisma.estimate.updateMany).toHaveBeenCalledWith({
+      where: { id: 'estimate-1', status: 'SENT', acceptToken: 'token' },
+      data: { status: 'ACCEPTED', acceptedAt: new Date('2026-11-18T12:00:00Z') }
+    });
+  });
+
+  it('moves an edited sent quote back to draft without its accept link', async () => {
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord({ status: 'SENT', acceptToken: 'token' }));
+    mockPrisma.estimate.update.mockImplementation(async ({ data }: { data: unknown }) => data);
+
+    const updated = await service.updateQuote('estimate-1', {
+      customerId: 'customer-1',
+      items: [{ itemId: 'item-2', quantity: 1, pricePerItem: 45, lineDescription: 'Cover lifter' }]
+    });
+
+    expect(mockPrisma.estimateItem.deleteMany).toHaveBeenCalledWith({ where: { estimateId: 'estimate-1' } });
+    expect(updated).toMatchObject({ status: 'DRAFT', acceptToken: null, totalAmount: 45 });
+  });
+
+  it('converts a quote into an order carrying over the cover attributes', async () => {
+    const configured = {
+      ...quoteRecord().items[0],
+      productAttributes: { productType: 'SPA_COVER', color: 'Dark Gray', size: '87', shape: 'Square', radiusSize: '8', length: '', width: '', skirtLength: '5', skirtType: 'CONN', tieDownsQty: '4', tieDownPlacement: 'HANDLE_SIDE', distance: '0', foamUpgrade: '', doublePlasticWrapUpgrade: 'No', webbingUpgrade: 'No', metalForLifterUpgrade: 'No', steamStopperUpgrade: 'No', fabricUpgrade: 'No', extraHandleQty: '0', extraLongSkirt: 'No', packaging: false, notes: '' }
+    };
+    const accessory = { ...quoteRecord().items[0], id: 'line-2', itemId: 'item-2', lineDescription: 'Cover lifter', item: { name: 'Lifter', isSpacoverProduct: false, quickbooksItemId: '9' } };
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord({ status: 'ACCEPTED', items: [configured, accessory] }));
+    mockPrisma.order.create.mockResolvedValue({ id: 'order-1' });
+
+    const order = await service.convertToOrder('estimate-1');
+
+    expect(order.id).toBe('order-1');
+    expect(mockPrisma.order.create.mock.calls[0][0].data).toMatchObject({ estimateId: 'estimate-1', contactEmail: 'pat@example.com', contactPhoneNumber: '555-0100' });
+    const [coverItem, accessoryItem] = mockPrisma.orderItem.create.mock.calls.map(call => call[0].data);
+    expect(coverItem).toMatchObject({
+      productNumber: 2001,
+      isProduct: true,
+      productAttributes: { create: expect.objectContaining({ color: 'Dark Gray', radiusSize: '8', isParsedFromDescription: false, verified: false }) }
+    });
+    expect(accessoryItem).toMatchObject({ productNumber: 2002, isProduct: false });
+    expect(accessoryItem.productAttributes).toBeUndefined();
+    expect(mockPrisma.estimate.update).toHaveBeenCalledWith({ where: { id: 'estimate-1' }, data: { status: 'CONVERTED' } });
+  });
+
+  it('does not convert a quote twice', async () => {
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord({ status: 'ACCEPTED', linkedOrder: { id: 'order-1' } }));
+
+    await expect(service.convertToOrder('estimate-1')).rejects.toMatchObject({ name: 'QuoteStateError' });
+    expect(mockPrisma.order.create).not.toHaveBeenCalled();
+  });
+
+  it('expires old quotes and sends each reminder once', async () => {
+    const now = new Date('2026-11-17T12:00:00Z');
+    mockPrisma.estimate.updateMany
+      .mockResolvedValueOnce({ count: 2 })
+      .mockResolvedValueOnce({ count: 1 });
+    mockPrisma.estimate.findMany.mockResolvedValue([
+      quoteRecord({ status: 'SENT', acceptToken: 'token', expirationDate: new Date('2026-11-18T00:00:00Z'), reminderSentAt: null })
+    ]);
+
+    const summary = await service.processExpiringQuotes('https://app.example.com', now, settings);
+
+    expect(summary).toEqual({ expired: 2, reminded: 1 });
+    expect(mockPrisma.estimate.updateMany.mock.calls[0][0]).toEqual({
+      where: { status: 'SENT', expirationDate: { lte: new Date('2026-11-16T12:00:00Z') } },
+      data: { status: 'EXPIRED' }
+    });
+    expect(mocks.sendQuoteEmail).toHaveBeenCalledWith('pat@example.com', expect.objectContaining({ expirationDate: '11/18/2026' }), expect.any(String), true);
+  });
+
+  it('records why a quote could not be pushed to QuickBooks', async () => {
+    mocks.isConnected.mockResolvedValue(true);
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord({
+      status: 'SENT',
+      customer: { ...quoteRecord().customer, quickbooksCustomerId: null }
+    }));
+
+    await service.pushToQuickBooks('estimate-1');
+
+    expect(mocks.qboApiRequest).not.toHaveBeenCalled();
+    expect(mockPrisma.estimate.update).toHaveBeenCalledWith({
+      where: { id: 'estimate-1' },
+      data: { quickbooksSyncError: 'Not in QuickBooks: customer Acme Spas' }
+    });
+  });
+
+  it('pushes a sent quote and stores the QBO Ids', async () => {
+    mocks.isConnected.mockResolvedValue(true);
+    mockPrisma.estimate.findUnique.mockResolvedValue(quoteRecord({ status: 'SENT' }));
+    mocks.qboApiRequest.mockResolvedValue({
+      Estimate: { Id: '310', SyncToken: '0', Line: [{ Id: '1', DetailType: 'SalesItemLineDetail' }, { Id: '', DetailType: 'SubTotalLineDetail' }] }
+    });
+
+    await service.pushToQuickBooks('estimate-1');
+
+    expect(mocks.qboApiRequest).toHaveBeenCalledWith('estimate', expect.objectContaining({ method: 'POST' }));
+    expect(mockPrisma.estimate.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ quickbooksEstimateId: '310', quickbooksSyncToken: '0', quickbooksSyncError: null })
+    }));
+    expect(mockPrisma.estimateItem.update).toHaveBeenCalledWith({ where: { id: 'line-1' }, data: { quickbooksEstimateLineId: '1' } });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { eventEmitter, matchesRealtimeEventFilter, scopeRealtimeEventFilter } from '../../server/utils/eventEmitter';
+import type { RealtimeEvent } from '../../server/utils/eventEmitter';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const emitItemChange = (orderId: string, stationName = 'Cutting') => {
+  eventEmitter.emitItemStatusChange({
+    orderItemId: `item-${orderId}`,
+    fromStatus: 'CUTTING',
+    toStatus: 'SEWING',
+    orderId,
+    customerId: 'customer-1',
+    stationName,
+    timestamp: new Date()
+  });
+};
+
+describe('Realtime event stream', () => {
+  describe('subscribe', () => {
+    it('should deliver emitted events with increasing IDs until unsubscribed', () => {
+      const received: RealtimeEvent[] = [];
+      const unsubscribe = eventEmitter.subscribe(event => received.push(event));
+
+      emitItemChange('order-1');
+      eventEmitter.emitPrintQueueChange({ action: 'ADDED', orderItemIds: ['item-1'], timestamp: new Date() });
+      unsubscribe();
+      emitItemChange('order-2');
+
+      expect(received.map(event => event.type)).toEqual(['itemStatusChange', 'printQueueChange']);
+      expect(Number(received[1].id.split('-')[1])).toBe(Number(received[0].id.split('-')[1]) + 1);
+    });
+  });
+
+  describe('getEventsSince', () => {
+    it('should replay the events emitted after the last event ID', () => {
+      const lastEventId = eventEmitter.getLastEventId();
+      emitItemChange('order-3');
+      emitItemChange('order-4');
+
+      const missed = eventEmitter.getEventsSince(lastEventId);
+
+      expect(missed?.map(event => (event.data as { orderId: string }).orderId)).toEqual(['order-3', 'order-4']);
+    });
+
+    it('should return an empty list when nothing was missed', () => {
+      expect(eventEmitter.getEventsSince(eventEmitter.getLastEventId())).toEqual([]);
+    });
+
+    it('should return null for IDs from a previous server run', () => {
+      expect(eventEmitter.getEventsSince('previousrun-1')).toBeNull();
+      expect(eventEmitter.getEventsSince('garbage')).toBeNull();
+    });
+
+    it('should return null once the missed events have left the replay buffer', () => {
+      const lastEventId = eventEmitter.getLastEventId();
+      for (let i = 0; i < 501; i++) {
+        emitItemChange(`order-bulk-${i}`);
+      }
+
+      expect(eventEmitter.getEventsSince(lastEventId)).toBeNull();
+    });
+  });
+
+  describe('matchesRealtimeEventFilter', () => {
+    const itemEvent: RealtimeEvent = {
+      id: 'test-1',
+      type: 'itemStatusChange',
+      data: { orderItemId: 'item-1', fromStatus: 'CUTTING', toStatus: 'SEWING', orderId: 'order-1', customerId: 'customer-1', stationName: 'Cutting', timestamp: new Date() }
+    };
+    const printQueueEvent: RealtimeEvent = {
+      id: 'test-2',
+      type: 'printQueueChange',
+      data: { action: 'ADDED', orderIds: ['order-1'], timestamp: new Date() }
+    };
+
+    it('should match everything without a filter', () => {
+      expect(matchesRealtimeEventFilter(itemEvent, {})).toBe(true);
+      expect(matchesRealtimeEventFilter(printQueueEvent, {})).toBe(true);
+    });
+
+    it('should filter by event type', () => {
+      expect(matchesRealtimeEventFilter(itemEvent, { types: ['printQueueChange'] })).toBe(false);
+      expect(matchesRealtimeEventFilter(printQueueEvent, { types: ['printQueueChange'] })).toBe(true);
+    });
+
+    it('should filter by order, station and customer', () => {
+      expect(matchesRealtimeEventFilter(itemEvent, { orderId: 'order-1' })).toBe(true);
+      expect(matchesRealtimeEventFilter(itemEvent, { orderId: 'order-2' })).toBe(false);
+      expect(matchesRealtimeEventFilter(printQueueEvent, { orderId: 'order-1' })).toBe(true);
+      expect(matchesRealtimeEventFilter(itemEvent, { stationName: 'Sewing' })).toBe(false);
+      expect(matchesRealtimeEventFilter(itemEvent, { customerId: 'customer-1', stationName: 'Cutting' })).toBe(true);
+    });
+
+    it('should exclude events that do not carry the filtered field', () => {
+      expect(matchesRealtimeEventFilter(printQueueEvent, { stationName: 'Cutting' })).toBe(false);
+    });
+  });
+
+  describe('scopeRealtimeEventFilter', () => {
+    const customer = { kind: 'customer', customerId: 'customer-1' } as const;
+
+    it('should leave staff filters as they are', () => {
+      expect(scopeRealtimeEventFilter({}, { kind: 'staff' })).toEqual({});
+      expect(scopeRealtimeEventFilter({ customerId: 'customer-2' }, { kind: 'staff' })).toEqual({ customerId: 'customer-2' });
+    });
+
+    it('should pin customer sessions to their own order and item changes', () => {
+      expect(scopeRealtimeEventFilter({}, customer)).toEqual({ customerId: 'customer-1', types: ['itemStatusChange', 'orderStatusChange'] });
+      expect(scopeRealtimeEventFilter({ orderId: 'order-1', types: ['orderStatusChange', 'printQueueChange'] }, customer))
+        .toEqual({ orderId: 'order-1', customerId: 'customer-1', types: ['orderStatusChange'] });
+    });
+
+    it('should refuse another customer or only staff event types', () => {
+      expect(scopeRealtimeEventFilter({ customerId: 'customer-2' }, customer)).toBeNull();
+      expect(scopeRealtimeEventFilter({ types: ['printQueueChange', 'priorityChange'] }, customer)).toBeNull();
+    });
+  });
+});
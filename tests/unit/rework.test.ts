@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_PRODUCTION_WORKFLOW } from '../../utils/workflowEngine';
+
+const mockPrisma = vi.hoisted(() => ({
+  station: { findUnique: vi.fn() },
+  orderItem: { findUnique: vi.fn(), update: vi.fn() },
+  orderItemUnit: { update: vi.fn() },
+  itemProcessingLog: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+  itemStatusLog: { create: vi.fn() },
+  itemRework: { create: vi.fn() },
+  order: { update: vi.fn() },
+  orderStatusLog: { create: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+const mockWorkflowService = vi.hoisted(() => ({ getWorkflowForItem: vi.fn() }));
+const mockUnitService = vi.hoisted(() => ({ syncUnits: vi.fn(), rollUpItemStatus: vi.fn() }));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+vi.mock('~/server/lib/WorkflowService', () => ({
+  workflowService: mockWorkflowService
+}));
+vi.mock('~/server/lib/OrderItemUnitService', () => ({
+  orderItemUnitService: mockUnitService
+}));
+vi.mock('~/server/lib/productionTimer', () => ({
+  closeProcessingLogPauses: vi.fn(async () => 600)
+}));
+
+const { ReworkServiceImpl } = await import('../../server/lib/ReworkService');
+
+describe('ReworkService', () => {
+  const service = new ReworkServiceImpl();
+  const request = {
+    orderItemId: 'item-1',
+    stationId: 'station-packaging',
+    targetPosition: 3,
+    reason: 'SEWING_DEFECT' as const,
+    notes: 'Seam pulled apart',
+    userId: 'user-1'
+  };
+
+  const orderItem = (itemStatus: string, orderStatus: string, units: unknown[] = []) => ({
+    itemStatus,
+    currentStepId: null,
+    order: { id: 'order-1', orderStatus },
+    units
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+    mockWorkflowService.getWorkflowForItem.mockResolvedValue(DEFAULT_PRODUCTION_WORKFLOW);
+    mockUnitService.syncUnits.mockResolvedValue([]);
+    mockPrisma.station.findUnique.mockResolvedValue({ id: 'station-packaging', name: 'Packaging' });
+    mockPrisma.itemProcessingLog.findFirst.mockResolvedValue({ userId: 'user-sewer', stationId: 'station-sewing' });
+    mockPrisma.itemProcessingLog.findMany.mockResolvedValue([{ id: 'log-1', notes: null }]);
+    mockPrisma.itemRework.create.mockImplementation(async ({ data }) => ({ id: 'rework-1', ...data }));
+  });
+
+  it('sends an item back, closes its open work and blames the last worker of the target step', async () => {
+    mockPrisma.orderItem.findUnique.mockResolvedValue(orderItem('PRODUCT_FINISHED', 'ORDER_PROCESSING'));
+
+    const result = await service.reworkItem(request);
+
+    expect(result).toMatchObject({ fromStatus: 'PRODUCT_FINISHED', toStatus: 'SEWING', orderStatusChange: null });
+    expect(mockPrisma.itemProcessingLog.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'log-1' },
+      data: expect.objectContaining({ durationInSeconds: 600 })
+    }));
+    expect(mockPrisma.orderItem.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ itemStatus: 'SEWING', reworkCount: { increment: 1 } })
+    }));
+    expect(mockPrisma.itemRework.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ responsibleUserId: 'user-sewer', responsibleStationId: 'station-sewing', toStepName: 'Sewing' })
+    });
+    expect(mockPrisma.order.update).not.toHaveBeenCalled();
+  });
+
+  it('takes an order that was ready to ship back into production', async () => {
+    mockPrisma.orderItem.findUnique.mockResolvedValue(orderItem('READY', 'READY_TO_SHIP'));
+
+    const result = await service.reworkItem(request);
+
+    expect(result.orderStatusChange).toEqual({ fromStatus: 'READY_TO_SHIP', toStatus: 'ORDER_PROCESSING' });
+    expect(mockPrisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { orderStatus: 'ORDER_PROCESSING', readyToShipAt: null }
+    });
+    expect(mockPrisma.orderStatusLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: 'READY_TO_SHIP', toStatus: 'ORDER_PROCESSING', triggeredBy: 'rework' })
+    });
+  });
+
+  it('refuses items on shipped orders and steps the item has not passed', async () => {
+    mockPrisma.orderItem.findUnique.mockResolvedValue(orderItem('READY', 'SHIPPED'));
+    await expect(service.reworkItem(request)).rejects.toMatchObject({ name: 'ReworkValidationError' });
+    mockUnitService.syncUnits.mockClear();
+    await expect(service.getReworkTargets('item-1')).resolves.toMatchObject({ targets: [] });
+    // Looking up the targets does not write anything
+    expect(mockUnitService.syncUnits).not.toHaveBeenCalled();
+
+    mockPrisma.orderItem.findUnique.mockResolvedValue(orderItem('SEWING', 'ORDER_PROCESSING'));
+    await expect(service.reworkItem(request)).rejects.toMatchObject({
+      name: 'ReworkValidationError',
+      message: 'Step 3 is not an earlier step of the Standard Spa Cover workflow'
+    });
+    expect(mockPrisma.orderItem.update).not.toHaveBeenCalled();
+    expect(mockPrisma.itemRework.create).not.toHaveBeenCalled();
+  });
+
+  it('sends only the scanned unit of a multi-quantity line back and rolls the line up', async () => {
+    mockPrisma.orderItem.findUnique.mockResolvedValue(orderItem('PRODUCT_FINISHED', 'ORDER_PROCESSING', [
+      { id: 'unit-1', unitNumber: 1, productNumber: 101, itemStatus: 'READY', currentStepId: null },
+      { id: 'unit-2', unitNumber: 2, productNumber: 102, itemStatus: 'PRODUCT_FINISHED', currentStepId: null }
+    ]));
+
+    const result = await service.reworkItem({ ...request, scannedItemId: '101' });
+
+    expect(result).toMatchObject({ fromStatus: 'READY', toStatus: 'SEWING', unitLabel: 'Unit 1 of 2' });
+    expect(mockPrisma.itemProcessingLog.findMany).toHaveBeenCalledWith({
+      where: { orderItemId: 'item-1', OR: [{ unitId: 'unit-1' }, { unitId: null }], endTime: null }
+    });
+    expect(mockPrisma.orderItemUnit.update).toHaveBeenCalledWith({
+      where: { id: 'unit-1' },
+      data: { itemStatus: 'SEWING', currentStepId: null }
+    });
+    expect(mockPrisma.orderItem.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.not.objectContaining({ itemStatus: expect.anything() })
+    }));
+    expect(mockUnitService.syncUnits).toHaveBeenCalledWith('item-1', mockPrisma);
+    expect(mockUnitService.rollUpItemStatus).toHaveBeenCalledWith('item-1', mockPrisma);
+    expect(mockPrisma.itemStatusLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ unitId: 'unit-1', fromStatus: 'READY' })
+    });
+    expect(mockPrisma.itemRework.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ unitId: 'unit-1' })
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COVER_FOR_COVER_PACKAGE,
+  estimateItemPackage,
+  estimateOrderPackages,
+  getCoverFootprint
+} from '../../utils/shippingPackages';
+import { MockCarrier } from '../../server/lib/shipping/MockCarrier';
+import type { ShipmentRequest } from '../../server/lib/shipping/types';
+
+describe('shippingPackages', () => {
+  describe('getCoverFootprint', () => {
+    it('uses explicit length and width, longest side first', () => {
+      expect(getCoverFootprint({ length: '84"', width: '93"' })).toEqual({ lengthIn: 93, widthIn: 84 });
+    });
+
+    it('falls back to size for square covers', () => {
+      expect(getCoverFootprint({ size: '90' })).toEqual({ lengthIn: 90, widthIn: 90 });
+    });
+
+    it('falls back to a standard cover when no size is known', () => {
+      expect(getCoverFootprint({})).toEqual({ lengthIn: 84, widthIn: 84 });
+    });
+  });
+
+  describe('estimateItemPackage', () => {
+    it('ships spa covers folded in half with packaging allowance', () => {
+      const pkg = estimateItemPackage({ length: '84', width: '84', productType: 'SPA_COVER' });
+
+      expect(pkg.lengthIn).toBe(88);
+      expect(pkg.widthIn).toBe(46);
+      expect(pkg.heightIn).toBe(12);
+      expect(pkg.weightLb).toBe(54); // 49 sq ft * 1.1 lb
+    });
+
+    it('adds weight for foam upgrades', () => {
+      const standard = estimateItemPackage({ size: '84', foamUpgrade: 'No' });
+      const upgraded = estimateItemPackage({ size: '84', foamUpgrade: '5-2.5' });
+
+      expect(upgraded.weightLb).toBeGreaterThan(standard.weightLb);
+    });
+
+    it('uses the circle area for round covers', () => {
+      const square = estimateItemPackage({ size: '84' });
+      const round = estimateItemPackage({ size: '84', shape: 'Round' });
+
+      expect(round.lengthIn).toBe(square.lengthIn);
+      expect(round.weightLb).toBeLessThan(square.weightLb);
+    });
+
+    it('uses a small box for cover for covers', () => {
+      expect(estimateItemPackage({ size: '84', productType: 'COVER_FOR_COVER' })).toEqual(COVER_FOR_COVER_PACKAGE);
+    });
+  });
+
+  describe('estimateOrderPackages', () => {
+    it('creates one package per unit and tracks the order item', () => {
+      const packages = estimateOrderPackages([
+        { id: 'item-1', size: '84', quantity: 2 },
+        { id: 'item-2', productType: 'COVER_FOR_COVER', quantity: 1 }
+      ]);
+
+      expect(packages).toHaveLength(3);
+      expect(packages.map(pkg => pkg.orderItemIds)).toEqual([['item-1'], ['item-1'], ['item-2']]);
+    });
+  });
+});
+
+describe('MockCarrier', () => {
+  const address = {
+    name: 'Test Customer',
+    addressLine1: '1 Main St',
+    city: 'Dallas',
+    state: 'TX',
+    zipCode: '75001',
+    country: 'US'
+  };
+
+  const request: ShipmentRequest = {
+    reference: 'SO-1001',
+    shipFrom: { ...address, name: 'Warehouse' },
+    shipTo: address,
+    packages: estimateOrderPackages([{ id: 'item-1', size: '84', quantity: 2 }])
+  };
+
+  it('is only configured when enabled', () => {
+    expect(new MockCarrier(false).isConfigured()).toBe(false);
+    expect(new MockCarrier(true).isConfigured()).toBe(true);
+  });
+
+  it('returns rates for every service', async () => {
+    const rates = await new MockCarrier().getRates(request);
+
+    expect(rates.map(rate => rate.serviceCode)).toEqual(['MOCK_GROUND', 'MOCK_EXPRESS']);
+    expect(rates[0].amount).toBeLessThan(rates[1].amount);
+  });
+
+  it('creates a PDF label per package', async () => {
+    const label = await new MockCarrier().createLabel(request, 'MOCK_GROUND');
+
+    expect(label.trackingNumber).toMatch(/^MOCK/);
+    expect(label.packages).toHaveLength(2);
+    expect(label.packages[0].trackingNumber).toBe(label.trackingNumber);
+    expect(label.packages[0].labelData?.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('rejects unknown services', async () => {
+    await expect(new MockCarrier().createLabel(request, 'NOPE')).rejects.toMatchObject({ name: 'CarrierError' });
+  });
+
+  it('reports tracking and voids labels', async () => {
+    const carrier = new MockCarrier();
+    const label = await carrier.createLabel(request, 'MOCK_EXPRESS');
+
+    expect((await carrier.getTracking(label.trackingNumber)).status).toBe('LABEL_CREATED');
+
+    carrier.setTracking(label.trackingNumber, { status: 'DELIVERED', description: 'Delivered' });
+    expect((await carrier.getTracking(label.trackingNumber)).status).toBe('DELIVERED');
+
+    await carrier.voidLabel(label.trackingNumber);
+    await expect(carrier.getTracking(label.trackingNumber)).rejects.toMatchObject({ name: 'CarrierError' });
+  });
+});
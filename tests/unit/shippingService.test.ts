@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockPrisma = vi.hoisted(() => ({
+  order: { findUnique: vi.fn(), update: vi.fn() },
+  shipment: { create: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+const mockCarrier = vi.hoisted(() => ({
+  code: 'MOCK',
+  isConfigured: vi.fn(() => true),
+  getRates: vi.fn(),
+  createLabel: vi.fn(),
+  voidLabel: vi.fn()
+}));
+
+const mockSyncService = vi.hoisted(() => ({
+  enqueueInvoiceSync: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+vi.mock('~/server/lib/shipping', () => ({
+  getCarrierAdapter: () => mockCarrier,
+  getConfiguredCarriers: () => [mockCarrier],
+  getShipFromAddress: () => ({ name: 'Spacovers', addressLine1: '1 Factory Rd', city: 'Fresno', state: 'CA', zipCode: '93706', country: 'US' })
+}));
+
+vi.mock('~/server/lib/QuickBooksSyncService', () => ({
+  quickBooksSyncService: mockSyncService
+}));
+
+vi.mock('~/server/lib/emailService', () => ({
+  EmailService: {}
+}));
+
+const { ShippingServiceImpl } = await import('../../server/lib/ShippingService');
+
+const packages = [{ lengthIn: 48, widthIn: 48, heightIn: 8, weightLb: 40, orderItemIds: ['item-1'] }];
+
+describe('ShippingService', () => {
+  const service = new ShippingServiceImpl();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+    mockPrisma.order.findUnique.mockResolvedValue({
+      id: 'order-1',
+      salesOrderNumber: '5001',
+      customer: { name: 'Acme Spas' },
+      shippingAddressLine1: '2 Pool Ln',
+      shippingCity: 'Austin',
+      shippingState: 'TX',
+      shippingZipCode: '78701',
+      shippingCountry: 'US'
+    });
+    mockCarrier.getRates.mockResolvedValue([{ serviceCode: 'MOCK_GROUND', serviceName: 'Ground', amount: 42, currency: 'USD' }]);
+    mockCarrier.voidLabel.mockResolvedValue(undefined);
+    mockCarrier.createLabel.mockResolvedValue({ trackingNumber: '1Z999', amount: 42, currency: 'USD', packages: [{ trackingNumber: '1Z999', labelFormat: 'PDF' }] });
+  });
+
+  it('stores the label and copies its tracking number to the order', async () => {
+    mockPrisma.shipment.create.mockResolvedValue({ id: 'shipment-1' });
+
+    await expect(service.createShipment('order-1', { carrier: 'MOCK', serviceCode: 'MOCK_GROUND', packages }, 'user-1')).resolves.toEqual({ id: 'shipment-1' });
+    expect(mockPrisma.order.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ trackingNumber: '1Z999' }) }));
+    expect(mockCarrier.voidLabel).not.toHaveBeenCalled();
+  });
+
+  it('voids a bought label when the shipment cannot be saved', async () => {
+    mockPrisma.shipment.create.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(service.createShipment('order-1', { carrier: 'MOCK', serviceCode: 'MOCK_GROUND', packages }, 'user-1')).rejects.toThrow('Connection lost');
+    expect(mockCarrier.voidLabel).toHaveBeenCalledWith('1Z999');
+    expect(mockSyncService.enqueueInvoiceSync).not.toHaveBeenCalled();
+  });
+
+  it('keeps the save error when the void fails too', async () => {
+    mockPrisma.shipment.create.mockRejectedValue(new Error('Connection lost'));
+    mockCarrier.voidLabel.mockRejectedValue(new Error('Carrier unavailable'));
+
+    await expect(service.createShipment('order-1', { carrier: 'MOCK', serviceCode: 'MOCK_GROUND', packages }, 'user-1')).rejects.toThrow('Connection lost');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('1Z999'), expect.any(Error));
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_PRODUCTION_WORKFLOW, getStationTransitions } from '../../utils/workflowEngine';
+import { summarizeOverridesByStation, type OverrideRecord } from '../../utils/supervisorOverrides';
+
+const mockPrisma = vi.hoisted(() => ({
+  user: { findUnique: vi.fn() },
+  station: { findUnique: vi.fn() },
+  orderItem: { findUnique: vi.fn(), update: vi.fn(), count: vi.fn() },
+  orderItemUnit: { update: vi.fn() },
+  itemProcessingLog: { findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
+  itemStatusLog: { create: vi.fn() },
+  order: { update: vi.fn() },
+  orderStatusLog: { create: vi.fn() },
+  auditLog: { create: vi.fn(), findMany: vi.fn() },
+  $transaction: vi.fn()
+}));
+
+const mockKioskOperatorService = vi.hoisted(() => ({ verifyPin: vi.fn() }));
+const mockWorkflowService = vi.hoisted(() => ({ getWorkflowForItem: vi.fn() }));
+const mockOrderItemUnitService = vi.hoisted(() => ({ syncUnits: vi.fn(), rollUpItemStatus: vi.fn() }));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+vi.mock('~/server/lib/KioskOperatorService', () => ({
+  kioskOperatorService: mockKioskOperatorService
+}));
+vi.mock('~/server/lib/WorkflowService', () => ({
+  workflowService: mockWorkflowService
+}));
+vi.mock('~/server/lib/OrderItemUnitService', () => ({
+  orderItemUnitService: mockOrderItemUnitService
+}));
+
+const { SupervisorOverrideServiceImpl } = await import('../../server/lib/SupervisorOverrideService');
+
+const supervisorWithRole = (permissions: { action: string; subject: string }[], roleName = 'Manager') => ({
+  id: 'user-sup',
+  name: 'Sam Supervisor',
+  email: 'sam@example.com',
+  roles: [{ role: { name: roleName, roleType: null, permissions: permissions.map(permission => ({ permission })) } }]
+});
+
+const override = (stationName: string, fromStatus: string, toStatus: string, supervisorId: string, day: number): OverrideRecord => ({
+  id: `override-${stationName}-${day}`,
+  timestamp: new Date(`2026-03-0${day}T10:00:00Z`),
+  orderItemId: 'item-1',
+  unitId: null,
+  unitLabel: null,
+  stationId: `station-${stationName}`,
+  stationName,
+  stepName: stationName,
+  fromStatus,
+  toStatus,
+  reason: 'Label was damaged',
+  operator: { id: 'user-op', name: 'Olive Operator' },
+  supervisor: { id: supervisorId, name: supervisorId === 'user-sup' ? 'Sam Supervisor' : 'Mia Manager' }
+});
+
+describe('supervisorOverrides', () => {
+  it('offers the completion of every step worked at the scanning station', () => {
+    const office = getStationTransitions(DEFAULT_PRODUCTION_WORKFLOW, 'Office', 'CUTTING');
+    expect(office.map(transition => [transition.fromStep.name, transition.toStatus])).toEqual([
+      ['Start Production', 'CUTTING'],
+      ['Final Check', 'READY']
+    ]);
+
+    // A backward move - the item is already past sewing
+    const sewing = getStationTransitions(DEFAULT_PRODUCTION_WORKFLOW, 'Sewing', 'PACKAGING');
+    expect(sewing).toHaveLength(1);
+    expect(sewing[0]).toMatchObject({ fromStatus: 'PACKAGING', toStatus: 'FOAM_CUTTING', stepNumber: 3 });
+
+    expect(getStationTransitions(DEFAULT_PRODUCTION_WORKFLOW, 'Embroidery', 'CUTTING')).toEqual([]);
+  });
+
+  it('summarizes overrides per station with the most common forced moves first', () => {
+    const summary = summarizeOverridesByStation([
+      override('Sewing', 'CUTTING', 'FOAM_CUTTING', 'user-sup', 1),
+      override('Office', 'CUTTING', 'CUTTING', 'user-sup', 2),
+      override('Sewing', 'PACKAGING', 'FOAM_CUTTING', 'user-mgr', 3),
+      override('Sewing', 'CUTTING', 'FOAM_CUTTING', 'user-mgr', 4)
+    ]);
+
+    expect(summary.map(station => [station.stationName, station.count])).toEqual([['Sewing', 3], ['Office', 1]]);
+    expect(summary[0].transitions[0]).toEqual({ fromStatus: 'CUTTING', toStatus: 'FOAM_CUTTING', count: 2 });
+    expect(summary[0].supervisors[0]).toEqual({ id: 'user-mgr', name: 'Mia Manager', count: 2 });
+    expect(summary[0].lastOverrideAt).toEqual(new Date('2026-03-04T10:00:00Z'));
+  });
+
+  describe('SupervisorOverrideService', () => {
+    const service = new SupervisorOverrideServiceImpl();
+    const request = {
+      orderItemId: 'item-1',
+      stationId: 'station-sewing',
+      stepPosition: 3,
+      reason: 'Cutting forgot to scan',
+      operatorId: 'user-op',
+      supervisorBadge: 'EMP-SAM',
+      supervisorPin: '1234',
+      ipAddress: '10.0.0.5'
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+      mockKioskOperatorService.verifyPin.mockResolvedValue({ id: 'user-sup', name: 'Sam Supervisor', hasPin: true });
+      mockWorkflowService.getWorkflowForItem.mockResolvedValue(DEFAULT_PRODUCTION_WORKFLOW);
+      mockOrderItemUnitService.syncUnits.mockResolvedValue([]);
+      mockPrisma.station.findUnique.mockResolvedValue({ id: 'station-sewing', name: 'Sewing' });
+      mockPrisma.orderItem.findUnique.mockResolvedValue({
+        id: 'item-1', itemStatus: 'CUTTING', currentStepId: null, order: { id: 'order-1', orderStatus: 'ORDER_PROCESSING' }
+      });
+      mockPrisma.itemProcessingLog.findMany.mockResolvedValue([]);
+      mockPrisma.itemStatusLog.create.mockResolvedValue({ id: 'status-log-1' });
+    });
+
+    it('only lets badge holders with the override permission approve', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(supervisorWithRole([{ action: 'update', subject: 'Order' }], 'Warehouse Staff'));
+      await expect(service.authorizeSupervisor('EMP-SAM', '1234')).rejects.toMatchObject({ name: 'SupervisorPermissionError' });
+
+      mockPrisma.user.findUnique.mockResolvedValue(supervisorWithRole([{ action: 'override', subject: 'WorkflowTransition' }]));
+      await expect(service.authorizeSupervisor('EMP-SAM', '1234')).resolves.toMatchObject({ id: 'user-sup' });
+
+      mockPrisma.user.findUnique.mockResolvedValue(supervisorWithRole([], 'Super Admin'));
+      await expect(service.authorizeSupervisor('EMP-SAM', '1234')).resolves.toMatchObject({ id: 'user-sup' });
+    });
+
+    it('requires a reason before checking the supervisor', async () => {
+      await expect(service.overrideTransition({ ...request, reason: '  ' })).rejects.toMatchObject({ name: 'SupervisorOverrideValidationError' });
+      expect(mockKioskOperatorService.verifyPin).not.toHaveBeenCalled();
+    });
+
+    it('forces the station step and logs it with the operator and the approving supervisor', async () => {
+      mockPrisma.user.findUnique.mockImplementation(async ({ where }: { where: { id: string } }) => (where.id === 'user-op'
+        ? { id: 'user-op', name: 'Olive Operator' }
+        : supervisorWithRole([{ action: 'override', subject: 'WorkflowTransition' }])));
+
+      const result = await service.overrideTransition(request);
+
+      expect(result).toMatchObject({ fromStatus: 'CUTTING', toStatus: 'FOAM_CUTTING', lineStatus: 'FOAM_CUTTING', orderStatusChanges: [] });
+      expect(mockPrisma.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { itemStatus: 'FOAM_CUTTING', currentStepId: null }
+      });
+      expect(mockPrisma.itemStatusLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: 'CUTTING',
+          toStatus: 'FOAM_CUTTING',
+          userId: 'user-op',
+          approvedById: 'user-sup',
+          triggeredBy: 'supervisor_override'
+        })
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-sup',
+          action: 'SUPERVISOR_OVERRIDE',
+          entityId: 'item-1',
+          ipAddress: '10.0.0.5',
+          newValue: expect.objectContaining({
+            stationName: 'Sewing',
+            reason: 'Cutting forgot to scan',
+            operator: { id: 'user-op', name: 'Olive Operator' },
+            supervisor: { id: 'user-sup', name: 'Sam Supervisor' }
+          })
+        })
+      });
+    });
+
+    it('rejects steps the station does not work', async () => {
+      mockPrisma.user.findUnique.mockImplementation(async ({ where }: { where: { id: string } }) => (where.id === 'user-op'
+        ? { id: 'user-op', name: 'Olive Operator' }
+        : supervisorWithRole([{ action: 'override', subject: 'WorkflowTransition' }])));
+
+      await expect(service.overrideTransition({ ...request, stepPosition: 6 })).rejects.toMatchObject({ name: 'SupervisorOverrideValidationError' });
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -27,6 +27,15 @@ describe('TimezoneService', () => {
       expect(result.end).toBeInstanceOf(Date);
     });
 
+    it('should end the day on its last millisecond in the given timezone', () => {
+      const result = TimezoneService.convertLocalDateToUTCRange('2025-09-10', {
+        timezone: 'America/Chicago'
+      });
+
+      expect(result.start.toISOString()).toBe('2025-09-10T05:00:00.000Z');
+      expect(result.end.toISOString()).toBe('2025-09-11T04:59:59.999Z');
+    });
+
     it('should throw error for invalid date format', () => {
       expect(() => {
         TimezoneService.convertLocalDateToUTCRange('invalid-date');
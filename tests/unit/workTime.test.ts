@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getActiveSeconds,
+  getLatestShiftEnd,
+  getPausedSeconds,
+  getStaleWorkEndTime,
+  parseShiftEndTimes
+} from '../../utils/workTime';
+
+const mockPrisma = vi.hoisted(() => ({
+  itemProcessingLog: {
+    findMany: vi.fn(),
+    update: vi.fn()
+  },
+  itemProcessingPause: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+    createMany: vi.fn()
+  },
+  $transaction: vi.fn()
+}));
+
+vi.mock('~/server/lib/db', () => ({
+  unenhancedPrisma: mockPrisma
+}));
+
+const { autoCloseStaleWork, pauseWorkAtShiftEnd } = await import('../../server/lib/productionTimer');
+
+const at = (time: string) => new Date(`2026-03-02T${time}:00Z`);
+
+describe('workTime', () => {
+  describe('getActiveSeconds', () => {
+    it('leaves breaks out of the time worked', () => {
+      const pauses = [
+        { pausedAt: at('10:00'), resumedAt: at('10:15') },
+        { pausedAt: at('12:00'), resumedAt: at('12:30') }
+      ];
+
+      expect(getActiveSeconds(at('08:00'), at('13:00'), pauses)).toBe((5 * 60 - 45) * 60);
+    });
+
+    it('counts an open pause up to the end of the log', () => {
+      expect(getActiveSeconds(at('08:00'), at('18:00'), [{ pausedAt: at('17:00'), resumedAt: null }])).toBe(9 * 3600);
+    });
+
+    it('counts overlapping pauses once and ignores pauses outside the window', () => {
+      const pauses = [
+        { pausedAt: at('10:00'), resumedAt: at('10:30') },
+        { pausedAt: at('10:15'), resumedAt: at('10:45') },
+        { pausedAt: at('07:00'), resumedAt: at('07:30') }
+      ];
+
+      expect(getPausedSeconds(pauses, at('08:00'), at('12:00'))).toBe(45 * 60);
+    });
+  });
+
+  describe('shift ends', () => {
+    it('parses shift-end times and skips invalid ones', () => {
+      expect(parseShiftEndTimes('12:00, 17:30,25:00,noon')).toEqual([
+        { hours: 12, minutes: 0 },
+        { hours: 17, minutes: 30 }
+      ]);
+      expect(parseShiftEndTimes('')).toEqual([]);
+    });
+
+    it('finds the latest shift end in the shop time zone', () => {
+      const shiftEnds = parseShiftEndTimes('12:00,17:00');
+
+      // 18:30 in Phoenix (UTC-7) - today's 17:00 shift end
+      expect(getLatestShiftEnd(shiftEnds, new Date('2026-03-03T01:30:00Z'), 'America/Phoenix')?.toISOString())
+        .toBe('2026-03-03T00:00:00.000Z');
+      // 09:00 in Phoenix - yesterday's 17:00 shift end
+      expect(getLatestShiftEnd(shiftEnds, new Date('2026-03-02T16:00:00Z'), 'America/Phoenix')?.toISOString())
+        .toBe('2026-03-02T00:00:00.000Z');
+      expect(getLatestShiftEnd([], new Date())).toBeNull();
+    });
+  });
+
+  describe('getStaleWorkEndTime', () => {
+    it('ends paused work where the pause began, and other work at the policy limit', () => {
+      expect(getStaleWorkEndTime(at('08:00'), [{ pausedAt: at('17:00'), resumedAt: null }], 24)).toEqual(at('17:00'));
+      expect(getStaleWorkEndTime(at('08:00'), [], 12)).toEqual(at('20:00'));
+    });
+  });
+
+  describe('productionTimer', () => {
+    const settings = { shiftEndTimes: parseShiftEndTimes('17:00'), timeZone: 'UTC', autoCloseAfterHours: 24 };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+    });
+
+    it('pauses running work back-dated to the shift end', async () => {
+      mockPrisma.itemProcessingLog.findMany.mockResolvedValue([{ id: 'log-1' }, { id: 'log-2' }]);
+
+      const result = await pauseWorkAtShiftEnd(at('17:04'), settings);
+
+      expect(result).toEqual({ shiftEnd: at('17:00'), paused: 2 });
+      expect(mockPrisma.itemProcessingLog.findMany.mock.calls[0][0].where.startTime).toEqual({ lt: at('17:00') });
+      expect(mockPrisma.itemProcessingPause.createMany).toHaveBeenCalledWith({
+        data: [
+          { processingLogId: 'log-1', reason: 'SHIFT_END', pausedAt: at('17:00') },
+          { processingLogId: 'log-2', reason: 'SHIFT_END', pausedAt: at('17:00') }
+        ]
+      });
+    });
+
+    it('closes stale work at its shift-end pause and counts only the active time', async () => {
+      const lunch = { id: 'pause-0', pausedAt: new Date('2026-03-01T12:00:00Z'), resumedAt: new Date('2026-03-01T12:30:00Z') };
+      const shiftEnd = { id: 'pause-1', pausedAt: new Date('2026-03-01T17:00:00Z'), resumedAt: null };
+      mockPrisma.itemProcessingLog.findMany.mockResolvedValue([
+        { id: 'log-1', startTime: new Date('2026-03-01T08:00:00Z'), notes: null, pauses: [lunch, shiftEnd] }
+      ]);
+      mockPrisma.itemProcessingPause.findMany.mockResolvedValue([lunch, shiftEnd]);
+
+      const result = await autoCloseStaleWork(at('09:00'), settings);
+
+      expect(result).toEqual({ closed: 1 });
+      expect(mockPrisma.itemProcessingPause.update).toHaveBeenCalledWith({
+        where: { id: 'pause-1' },
+        data: { resumedAt: new Date('2026-03-01T17:00:00Z') }
+      });
+      expect(mockPrisma.itemProcessingLog.update).toHaveBeenCalledWith({
+        where: { id: 'log-1' },
+        data: expect.objectContaining({
+          endTime: new Date('2026-03-01T17:00:00Z'),
+          durationInSeconds: 8.5 * 3600,
+          autoClosed: true
+        })
+      });
+    });
+
+    it('leaves work open when the stale-work policy is off', async () => {
+      await expect(autoCloseStaleWork(at('09:00'), { ...settings, autoCloseAfterHours: 0 })).resolves.toEqual({ closed: 0 });
+      expect(mockPrisma.itemProcessingLog.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
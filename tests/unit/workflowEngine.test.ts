@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COVER_FOR_COVER_WORKFLOW,
+  DEFAULT_PRODUCTION_WORKFLOW,
+  findCurrentStepIndex,
+  findStationStepIndex,
+  getBuiltInWorkflow,
+  getOrderedWorkflowSteps,
+  getReworkTargets,
+  resolveWorkflowTransition,
+  validateWorkflowDefinition,
+  type WorkflowDefinition
+} from '../../utils/workflowEngine';
+import { getNextStatus } from '../../utils/barcodeUtils';
+
+describe('workflowEngine', () => {
+  describe('default workflow (legacy parity)', () => {
+    it('should only let Office start production', () => {
+      expect(getNextStatus('NOT_STARTED_PRODUCTION', 'Office')).toBe('CUTTING');
+      expect(getNextStatus('NOT_STARTED_PRODUCTION', 'Cutting')).toBeNull();
+    });
+
+    it('should move items through each station in order', () => {
+      expect(getNextStatus('CUTTING', 'Cutting', 'Office')).toBe('SEWING');
+      expect(getNextStatus('SEWING', 'Sewing', 'Cutting')).toBe('FOAM_CUTTING');
+      expect(getNextStatus('FOAM_CUTTING', 'Foam Cutting', 'Sewing')).toBe('STUFFING');
+      expect(getNextStatus('STUFFING', 'Stuffing', 'Foam Cutting')).toBe('PACKAGING');
+      expect(getNextStatus('PACKAGING', 'Packaging', 'Stuffing')).toBe('PRODUCT_FINISHED');
+      expect(getNextStatus('PRODUCT_FINISHED', 'Office', 'Packaging')).toBe('READY');
+    });
+
+    it('should allow skipping forward but not backward', () => {
+      expect(getNextStatus('CUTTING', 'Sewing', 'Office')).toBe('FOAM_CUTTING');
+      expect(getNextStatus('STUFFING', 'Cutting', 'Foam Cutting')).toBeNull();
+    });
+
+    it('should block Office from scanning twice in a row', () => {
+      expect(getNextStatus('CUTTING', 'Office', 'Office')).toBeNull();
+      expect(getNextStatus('CUTTING', 'Office')).toBeNull();
+      expect(getNextStatus('CUTTING', 'Office', 'Cutting')).toBe('READY');
+    });
+
+    it('should let Office finalize an item from any later step', () => {
+      expect(getNextStatus('SEWING', 'Office', 'Cutting')).toBe('READY');
+      expect(getNextStatus('PACKAGING', 'Office')).toBe('READY');
+    });
+
+    it('should not process items that are already ready', () => {
+      expect(getNextStatus('READY', 'Office', 'Packaging')).toBeNull();
+    });
+  });
+
+  describe('cover for cover workflow', () => {
+    it('should go from sewing straight to packaging', () => {
+      const transition = resolveWorkflowTransition(COVER_FOR_COVER_WORKFLOW, {
+        itemStatus: 'SEWING',
+        stationName: 'Sewing',
+        lastScannedStation: 'Cutting'
+      });
+
+      expect(transition?.toStatus).toBe('PACKAGING');
+      expect(transition?.toStep?.name).toBe('Packaging');
+    });
+
+    it('should place items at a status outside the workflow on the next step', () => {
+      const steps = getOrderedWorkflowSteps(COVER_FOR_COVER_WORKFLOW);
+      expect(steps[findCurrentStepIndex(steps, 'STUFFING')].name).toBe('Packaging');
+    });
+
+    it('should be selected for the COVER_FOR_COVER product type', () => {
+      expect(getBuiltInWorkflow('COVER_FOR_COVER')).toBe(COVER_FOR_COVER_WORKFLOW);
+      expect(getBuiltInWorkflow(null)).toBe(DEFAULT_PRODUCTION_WORKFLOW);
+    });
+  });
+
+  describe('custom workflows', () => {
+    const qualityCheckWorkflow: WorkflowDefinition = {
+      name: 'With Quality Check',
+      steps: [
+        { id: 'step-1', position: 1, name: 'Start Production', stationName: 'Office', itemStatus: 'NOT_STARTED_PRODUCTION' },
+        { id: 'step-2', position: 2, name: 'Sewing', stationName: 'Sewing', itemStatus: 'SEWING' },
+        { id: 'step-3', position: 3, name: 'Quality Check', stationName: 'Quality', itemStatus: 'SEWING' },
+        { id: 'step-4', position: 4, name: 'Packaging', stationName: 'Packaging', itemStatus: 'PACKAGING' }
+      ]
+    };
+
+    it('should use the current step ID to tell apart steps sharing a status', () => {
+      const transition = resolveWorkflowTransition(qualityCheckWorkflow, {
+        itemStatus: 'SEWING',
+        currentStepId: 'step-3',
+        stationName: 'Quality',
+        lastScannedStation: 'Sewing'
+      });
+
+      expect(transition?.fromStep.name).toBe('Quality Check');
+      expect(transition?.toStep?.id).toBe('step-4');
+      expect(transition?.stepNumber).toBe(3);
+      expect(transition?.description).toBe('Quality Check completed - Moving to Packaging');
+    });
+
+    it('should complete the workflow after the last step', () => {
+      const transition = resolveWorkflowTransition(qualityCheckWorkflow, {
+        itemStatus: 'PACKAGING',
+        currentStepId: 'step-4',
+        stationName: 'Packaging',
+        lastScannedStation: 'Quality'
+      });
+
+      expect(transition?.toStep).toBeNull();
+      expect(transition?.toStatus).toBe('READY');
+    });
+
+    it('should reject stations that are not part of the workflow', () => {
+      expect(resolveWorkflowTransition(qualityCheckWorkflow, {
+        itemStatus: 'SEWING',
+        currentStepId: 'step-2',
+        stationName: 'Foam Cutting'
+      })).toBeNull();
+    });
+
+    it('should find the step a station works on from the current step, not the status', () => {
+      const steps = getOrderedWorkflowSteps(qualityCheckWorkflow);
+
+      expect(findStationStepIndex(steps, 'Quality', 'SEWING', 'step-3')).toBe(2);
+      expect(findStationStepIndex(steps, 'Packaging', 'SEWING', 'step-3')).toBe(3);
+      expect(findStationStepIndex(steps, 'Foam Cutting', 'SEWING', 'step-3')).toBe(-1);
+    });
+
+    it('should give Office its final step once production is under way', () => {
+      const steps = getOrderedWorkflowSteps(DEFAULT_PRODUCTION_WORKFLOW);
+
+      expect(findStationStepIndex(steps, 'Office', 'NOT_STARTED_PRODUCTION')).toBe(0);
+      expect(findStationStepIndex(steps, 'Office', 'PRODUCT_FINISHED')).toBe(6);
+    });
+  });
+
+  describe('getReworkTargets', () => {
+    it('should offer the production steps the item has already passed', () => {
+      const targets = getReworkTargets(DEFAULT_PRODUCTION_WORKFLOW, 'FOAM_CUTTING');
+
+      expect(targets.map(step => step.name)).toEqual(['Cutting', 'Sewing']);
+    });
+
+    it('should never offer the first step', () => {
+      expect(getReworkTargets(DEFAULT_PRODUCTION_WORKFLOW, 'NOT_STARTED_PRODUCTION')).toEqual([]);
+      expect(getReworkTargets(DEFAULT_PRODUCTION_WORKFLOW, 'CUTTING')).toEqual([]);
+    });
+
+    it('should offer every step after the first for READY items', () => {
+      const targets = getReworkTargets(COVER_FOR_COVER_WORKFLOW, 'READY');
+
+      expect(targets.map(step => step.position)).toEqual([2, 3, 4, 5]);
+    });
+  });
+
+  describe('validateWorkflowDefinition', () => {
+    it('should accept the built-in workflows', () => {
+      expect(validateWorkflowDefinition(DEFAULT_PRODUCTION_WORKFLOW)).toEqual([]);
+      expect(validateWorkflowDefinition(COVER_FOR_COVER_WORKFLOW)).toEqual([]);
+    });
+
+    it('should report missing names, stations and bad statuses', () => {
+      const errors = validateWorkflowDefinition({
+        name: '',
+        steps: [
+          { position: 1, name: 'Cut', stationName: '', itemStatus: 'CUTTING' },
+          { position: 2, name: '', stationName: 'Office', itemStatus: 'READY' }
+        ]
+      });
+
+      expect(errors).toContain('Workflow name is required');
+      expect(errors).toContain('The first step must use the NOT_STARTED_PRODUCTION status');
+      expect(errors).toContain('Step 1 needs a station');
+      expect(errors).toContain('Step 2 needs a name');
+      expect(errors.some(error => error.startsWith('Step 2 cannot use the READY status'))).toBe(true);
+    });
+  });
+});
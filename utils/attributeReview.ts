@@ -0,0 +1,96 @@
+// Attribute review - production covers whose attributes still need a person to check them.
+// Attributes need review until they are verified, and again if parsing errors are written back onto them later
+// (e.g. by a re-parse). The queue is worked in the order covers reach the cutting table, so the ones cut soonest
+// are checked first.
+// Printing labels or starting production on an item that needs review is governed by the
+// UNVERIFIED_ATTRIBUTES_POLICY setting: "block" stops it, "warn" lets it through with a warning, "off" ignores it.
+
+import { compareCutItems, type CutOrderFields } from './cutPlanning';
+import { LOW_CONFIDENCE_THRESHOLD } from './descriptionGrammar';
+
+export type UnverifiedItemPolicy = 'block' | 'warn' | 'off';
+export type UnverifiedItemAction = 'print' | 'production';
+
+export const UNVERIFIED_ITEM_POLICIES: UnverifiedItemPolicy[] = ['block', 'warn', 'off'];
+
+// Orders whose items can still reach the cutting table
+export const ATTRIBUTE_REVIEW_ORDER_STATUSES = ['PENDING', 'APPROVED', 'ORDER_PROCESSING'] as const;
+
+// Most item labels listed in an unverified items message
+const MAX_LISTED_ITEMS = 5;
+
+export interface ReviewableAttributes {
+  verified: boolean;
+  parsingErrors: string[];
+  parseConfidence: number | null;
+}
+
+export interface AttributeReviewItem extends CutOrderFields {
+  orderItemId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  productNumber: number | null;
+  itemName: string;
+  lineDescription: string | null;
+  itemStatus: string;
+  orderStatus: string;
+  attributes: (ReviewableAttributes & Record<string, unknown>) | null;
+  reasons: string[];
+  // Fields the description grammar was unsure of, for attributes parsed from the description
+  lowConfidenceFields: string[];
+}
+
+/**
+ * Read the unverified items policy from the runtime config; anything unrecognized is "warn"
+ */
+export function parseUnverifiedItemPolicy(value?: string | null): UnverifiedItemPolicy {
+  const policy = (value || '').trim().toLowerCase();
+  return (UNVERIFIED_ITEM_POLICIES as string[]).includes(policy) ? policy as UnverifiedItemPolicy : 'warn';
+}
+
+/**
+ * Whether a production item's attributes need checking before it is cut
+ */
+export function needsAttributeReview(attributes: ReviewableAttributes | null | undefined): boolean {
+  return !attributes || !attributes.verified || attributes.parsingErrors.length > 0;
+}
+
+/**
+ * Why an item is in the review queue, most important first
+ */
+export function getAttributeReviewReasons(attributes: ReviewableAttributes | null | undefined): string[] {
+  if (!attributes) {
+    return ['No product attributes'];
+  }
+
+  const reasons: string[] = [];
+  if (!attributes.verified) {
+    reasons.push('Not verified');
+  }
+  if (attributes.parseConfidence !== null && attributes.parseConfidence < LOW_CONFIDENCE_THRESHOLD) {
+    reasons.push(`Low parse confidence (${Math.round(attributes.parseConfidence * 100)}%)`);
+  }
+  return [...reasons, ...attributes.parsingErrors];
+}
+
+/**
+ * Sort the review queue into the order items reach cutting: covers on the cutting table, then covers waiting
+ * on approved orders, then covers on orders still pending approval; the cut plan's order within each
+ */
+export function compareAttributeReviewItems(a: AttributeReviewItem, b: AttributeReviewItem): number {
+  const stage = (item: AttributeReviewItem) => (item.itemStatus === 'CUTTING' ? 0 : item.orderStatus === 'PENDING' ? 2 : 1);
+  return stage(a) - stage(b) || compareCutItems(a, b);
+}
+
+/**
+ * The message shown when labels are printed or production starts on items that need review
+ */
+export function describeUnverifiedItems(itemLabels: string[], action: UnverifiedItemAction): string {
+  const listed = itemLabels.slice(0, MAX_LISTED_ITEMS).join(', ');
+  const more = itemLabels.length > MAX_LISTED_ITEMS ? ` and ${itemLabels.length - MAX_LISTED_ITEMS} more` : '';
+  const verb = itemLabels.length === 1 ? 'has' : 'have';
+  const doing = action === 'print' ? 'printing labels' : 'starting production';
+
+  return `${listed}${more} ${verb} attributes that need review - check them in the attribute review queue before ${doing}`;
+}
@@ -302,8 +302,9 @@ export class BarcodeGenerator {
 
   /**
    * Generate proper Code 128B pattern (the one that worked with your phone)
+   * Also used to size and draw barcodes on server-rendered ZPL and PDF labels.
    */
-  private static generateCode128Pattern(data: string): number[] {
+  static generateCode128Pattern(data: string): number[] {
     const values: number[] = [];
 
     // Add start code B (104)
@@ -1,5 +1,6 @@
 // Barcode utility functions for the warehouse scanning system
 import { STATION_CODES } from './constants';
+import { DEFAULT_PRODUCTION_WORKFLOW, WORKFLOW_COMPLETE_STATUS, getOrderedWorkflowSteps, resolveWorkflowTransition } from './workflowEngine';
 
 export interface BarcodeData {
   prefix: string;
@@ -16,29 +17,13 @@ export interface StatusTransition {
   station: string;
 }
 
-// Status transition mapping based on station (6-step workflow)
-export const STATUS_TRANSITIONS: StatusTransition[] = [
-  // Step 1: Office confirms order printed and goes into production
-  { from: 'NOT_STARTED_PRODUCTION', to: 'CUTTING', station: 'Office' },
-  
-  // Step 2: Cutting station completes work
-  { from: 'CUTTING', to: 'SEWING', station: 'Cutting' },
-  
-  // Step 3: Sewing station completes work  
-  { from: 'SEWING', to: 'FOAM_CUTTING', station: 'Sewing' },
-  
-  // Step 4: Foam Cutting station completes work
-  { from: 'FOAM_CUTTING', to: 'STUFFING', station: 'Foam Cutting' },
-  
-  // Step 5: Stuffing station completes work
-  { from: 'STUFFING', to: 'PACKAGING', station: 'Stuffing' },
-  
-  // Step 6: Packaging station completes work
-  { from: 'PACKAGING', to: 'PRODUCT_FINISHED', station: 'Packaging' },
-  
-  // Step 6: Office confirms finished product ready for delivery/pickup
-  { from: 'PRODUCT_FINISHED', to: 'READY', station: 'Office' }
-];
+// Status transition mapping based on station, derived from the built-in workflow
+// Items assigned a database workflow are resolved server-side by WorkflowService instead
+export const STATUS_TRANSITIONS: StatusTransition[] = getOrderedWorkflowSteps(DEFAULT_PRODUCTION_WORKFLOW).map((step, index, steps) => ({
+  from: step.itemStatus,
+  to: steps[index + 1]?.itemStatus || WORKFLOW_COMPLETE_STATUS,
+  station: step.stationName
+}));
 
 /**
  * Decode a barcode string into its components
@@ -73,12 +58,13 @@ export function decodeBarcode(barcode: string): BarcodeData | null {
     const personCode = prefix[1];
     const sequenceCode = prefix[2];
 
-    // Validate station code
-    if (!STATION_CODES[stationCode]) {
+    // Validate station code - codes outside STATION_CODES belong to stations added later,
+    // in which case the registered BarcodeScanner decides the station
+    if (!/^[A-Z0-9]$/.test(stationCode)) {
       throw new Error(`Invalid station code: ${stationCode}`);
     }
 
-    const station = STATION_CODES[stationCode];
+    const station = STATION_CODES[stationCode] || '';
 
     return {
       prefix,
@@ -95,50 +81,8 @@ export function decodeBarcode(barcode: string): BarcodeData | null {
 }
 
 /**
- * Get the workflow order index for a status
- * Lower index = earlier in workflow
- */
-function getStatusWorkflowIndex(status: string): number {
-  const workflowOrder = [
-    'NOT_STARTED_PRODUCTION',
-    'CUTTING',
-    'SEWING',
-    'FOAM_CUTTING',
-    'STUFFING',
-    'PACKAGING',
-    'PRODUCT_FINISHED',
-    'READY'
-  ];
-  return workflowOrder.indexOf(status);
-}
-
-/**
- * Get the workflow order index for a station
- * Lower index = earlier in workflow
- */
-function getStationWorkflowIndex(station: string): number {
-  const stationOrder = [
-    'Office',      // 0 - starts production
-    'Cutting',     // 1
-    'Sewing',      // 2
-    'Foam Cutting',// 3
-    'Stuffing',    // 4
-    'Packaging',   // 5
-    'Office'       // 6 - finalizes (same as 0 but at end)
-  ];
-  
-  // Special handling for Office - it can be at start (0) or end (6)
-  if (station === 'Office') {
-    // Return -1 to indicate Office can handle both start and end
-    return -1;
-  }
-  
-  return stationOrder.indexOf(station);
-}
-
-/**
- * Get the next status for a given current status and station
- * Now supports skipping forward but not backward
+ * Get the next status for a given current status and station using the built-in workflow
+ * Supports skipping forward but not backward
  * 
  * @param currentStatus - The current item status
  * @param station - The station where the scan occurred
@@ -146,76 +90,13 @@ function getStationWorkflowIndex(station: string): number {
  * @returns The next status or null if no valid transition
  */
 export function getNextStatus(currentStatus: string, station: string, lastScannedStation?: string | null): string | null {
-  // Special case: NOT_STARTED_PRODUCTION can ONLY be processed by Office
-  if (currentStatus === 'NOT_STARTED_PRODUCTION') {
-    if (station === 'Office') {
-      return 'CUTTING';
-    }
-    return null; // No other station can start production
-  }
-  
-  // Special case: Office finalizing to READY
-  // Office can finalize from ANY status EXCEPT:
-  // 1. NOT_STARTED_PRODUCTION (handled above)
-  // 2. CUTTING (if Office was the last scanner - can't scan twice in a row)
-  if (station === 'Office') {
-    // BACKWARD COMPATIBILITY: If we don't have lastScannedStation info (null/undefined),
-    // allow Office to finalize from any status except NOT_STARTED_PRODUCTION and CUTTING
-    // This ensures existing items in production can still be finalized
-    if (!lastScannedStation) {
-      // For items without processing log history, allow finalization from any status except CUTTING
-      // CUTTING is blocked because it's the immediate next status after Office's first scan
-      if (currentStatus === 'CUTTING') {
-        return null; // Don't allow Office to finalize immediately after starting production
-      }
-      return 'READY'; // Allow finalization from all other statuses
-    }
-    
-    // NEW BEHAVIOR: If we have lastScannedStation info
-    // If current status is CUTTING and Office was the last scanner, prevent double scan
-    if (currentStatus === 'CUTTING' && lastScannedStation === 'Office') {
-      return null; // Office cannot scan twice in a row
-    }
-    
-    // If any other station has scanned (lastScannedStation is not Office), allow Office to finalize
-    if (lastScannedStation !== 'Office') {
-      return 'READY';
-    }
-    
-    // If Office was the last scanner but status has progressed beyond CUTTING, allow finalization
-    // This handles edge cases where Office scanned, then the system was updated
-    if (currentStatus !== 'CUTTING') {
-      return 'READY';
-    }
-    
-    return null;
-  }
-  
-  // For all other statuses, find the next transition based on the scanning station
-  // Allow skipping forward but not backward
-  
-  const currentStatusIndex = getStatusWorkflowIndex(currentStatus);
-  const scanningStationIndex = getStationWorkflowIndex(station);
-  
-  // Find the transition that this station would normally handle
-  const stationTransition = STATUS_TRANSITIONS.find(t => t.station === station);
-  
-  if (!stationTransition) {
-    return null; // Invalid station
-  }
-  
-  // Get the target status for this station
-  const targetStatus = stationTransition.to;
-  const targetStatusIndex = getStatusWorkflowIndex(targetStatus);
-  
-  // Check if we're moving forward in the workflow
-  // Allow the transition if the target status is ahead of current status
-  if (targetStatusIndex > currentStatusIndex) {
-    return targetStatus;
-  }
-  
-  // Don't allow going backward
-  return null;
+  const transition = resolveWorkflowTransition(DEFAULT_PRODUCTION_WORKFLOW, {
+    itemStatus: currentStatus,
+    stationName: station,
+    lastScannedStation
+  });
+
+  return transition ? transition.toStatus : null;
 }
 
 /**
@@ -243,6 +124,7 @@ export function getStatusDisplayName(status: string): string {
     'CUTTING': 'Item being processed at Cutting',
     'SEWING': 'Item being processed at Sewing', 
     'FOAM_CUTTING': 'Item being processed at Foam Cutting',
+    'STUFFING': 'Item being processed at Stuffing',
     'PACKAGING': 'Item being processed at Packaging',
     'PRODUCT_FINISHED': 'Item Done',
     'READY': 'Item Ready'
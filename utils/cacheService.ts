@@ -171,6 +171,13 @@ export class CacheService {
     return 'metrics:dashboard:all';
   }
 
+  /**
+   * Generate cache key for the dashboard's at-risk orders list
+   */
+  static getOrdersAtRiskCacheKey(): string {
+    return 'metrics:dashboard:orders-at-risk';
+  }
+
   /**
    * Generate cache key for orders metrics with filters
    * @param filters - Order filters object
@@ -0,0 +1,254 @@
+// Capacity planning - turns historical station times and current staffing into station backlogs
+// and promised completion dates for open orders.
+// Orders are worked by priority, then oldest first (the order-level view of the warehouse priority list);
+// each station works through the hours queued ahead of an order, and the slowest station sets the date.
+
+import { addBusinessDays } from './customerPortal';
+import {
+  WORKFLOW_COMPLETE_STATUS,
+  findCurrentStepIndex,
+  getOrderedWorkflowSteps,
+  type WorkflowDefinition
+} from './workflowEngine';
+
+export const CAPACITY_HOURS_PER_WORKER_PER_DAY = 8;
+
+// Station history window used for average times
+export const CAPACITY_HISTORY_DAYS = 90;
+
+// Logs longer than a shift are almost always a missed scan-out, so they are left out of the averages
+export const CAPACITY_MAX_LOG_SECONDS = 8 * 60 * 60;
+
+// Time assumed for a station that has no history yet
+export const CAPACITY_DEFAULT_STEP_HOURS = 0.5;
+
+const PRIORITY_RANK: Record<string, number> = {
+  HIGH: 0,
+  MEDIUM: 1,
+  LOW: 2,
+  NO_PRIORITY: 3
+};
+
+export interface CapacityStationInput {
+  stationName: string;
+  averageHoursPerItem: number | null; // NULL when the station has no history
+  sampleSize: number;
+  workerCount: number;
+  hoursPerDay: number;
+}
+
+export interface CapacityWorkerAssignment {
+  userId: string;
+  stationNames: string[];
+}
+
+export interface CapacityOrderInput {
+  id: string;
+  orderNumber: string;
+  customerName?: string | null;
+  priority: string;
+  dueDate: Date | string | null;
+  createdAt: Date | string;
+  // Station names of the steps each item still has to go through, for each of its covers (defaults to 1)
+  items: { remainingStations: string[]; quantity?: number }[];
+}
+
+export interface StationBacklog {
+  stationName: string;
+  backlogHours: number;
+  backlogDays: number;
+  hoursPerDay: number;
+  workerCount: number;
+  averageHoursPerItem: number;
+  hasHistory: boolean;
+  unstaffed: boolean;
+}
+
+export interface OrderPromise {
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  priority: string;
+  dueDate: string | null;
+  promisedDate: string;
+  workingDays: number;
+  bottleneckStation: string | null;
+  stationHours: Record<string, number>;
+  atRisk: boolean;
+  daysLate: number;
+}
+
+export interface CapacityPlan {
+  generatedAt: string;
+  stations: StationBacklog[];
+  orders: OrderPromise[];
+}
+
+/**
+ * Split each worker's day across the stations they can work at
+ * A worker assigned to two stations adds half a day to each.
+ *
+ * @returns Worker count and hours per day by station name
+ */
+export function distributeWorkerHours(
+  assignments: CapacityWorkerAssignment[],
+  hoursPerWorker: number = CAPACITY_HOURS_PER_WORKER_PER_DAY
+): Map<string, { workerCount: number; hoursPerDay: number }> {
+  const staffing = new Map<string, { workerCount: number; hoursPerDay: number }>();
+
+  for (const assignment of assignments) {
+    const stationNames = [...new Set(assignment.stationNames)];
+    if (stationNames.length === 0) {
+      continue;
+    }
+
+    const share = hoursPerWorker / stationNames.length;
+    for (const stationName of stationNames) {
+      const existing = staffing.get(stationName) || { workerCount: 0, hoursPerDay: 0 };
+      existing.workerCount += 1;
+      existing.hoursPerDay += share;
+      staffing.set(stationName, existing);
+    }
+  }
+
+  return staffing;
+}
+
+/**
+ * Get the stations an item still has to visit, starting with the step it is waiting at
+ */
+export function getRemainingStationNames(
+  workflow: WorkflowDefinition,
+  itemStatus: string,
+  currentStepId?: string | null
+): string[] {
+  if (itemStatus === WORKFLOW_COMPLETE_STATUS) {
+    return [];
+  }
+
+  const steps = getOrderedWorkflowSteps(workflow);
+  const currentIndex = findCurrentStepIndex(steps, itemStatus, currentStepId);
+  if (currentIndex < 0) {
+    return [];
+  }
+
+  return steps.slice(currentIndex).map(step => step.stationName);
+}
+
+/**
+ * Sort orders into the sequence the floor works them: priority first, then oldest first
+ */
+export function compareCapacityQueue(a: CapacityOrderInput, b: CapacityOrderInput): number {
+  const rankDifference = (PRIORITY_RANK[a.priority] ?? PRIORITY_RANK.NO_PRIORITY) - (PRIORITY_RANK[b.priority] ?? PRIORITY_RANK.NO_PRIORITY);
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Build the capacity plan for a set of open orders
+ * Stations with no staff are planned as if one worker covered them, and flagged as unstaffed.
+ *
+ * @param stations - History and staffing for each station
+ * @param orders - Open orders with the remaining stations for each item
+ * @param startDate - The day planning starts from (defaults to today)
+ */
+export function buildCapacityPlan(
+  stations: CapacityStationInput[],
+  orders: CapacityOrderInput[],
+  startDate: Date = new Date()
+): CapacityPlan {
+  const start = startOfDay(startDate);
+  const stationsByName = new Map(stations.map(station => [station.stationName, station]));
+
+  const hoursPerItem = (stationName: string) => stationsByName.get(stationName)?.averageHoursPerItem ?? CAPACITY_DEFAULT_STEP_HOURS;
+  const hoursPerDay = (stationName: string) => {
+    const staffed = stationsByName.get(stationName)?.hoursPerDay || 0;
+    return staffed > 0 ? staffed : CAPACITY_HOURS_PER_WORKER_PER_DAY;
+  };
+
+  const queuedHours = new Map<string, number>();
+  const promises: OrderPromise[] = [];
+
+  for (const order of [...orders].sort(compareCapacityQueue)) {
+    const stationHours: Record<string, number> = {};
+    for (const item of order.items) {
+      for (const stationName of item.remainingStations) {
+        stationHours[stationName] = (stationHours[stationName] || 0) + hoursPerItem(stationName) * (item.quantity ?? 1);
+      }
+    }
+
+    let busiestDays = 0;
+    let bottleneckStation: string | null = null;
+    for (const [stationName, hours] of Object.entries(stationHours)) {
+      const cumulative = (queuedHours.get(stationName) || 0) + hours;
+      queuedHours.set(stationName, cumulative);
+
+      const days = cumulative / hoursPerDay(stationName);
+      if (days > busiestDays) {
+        busiestDays = days;
+        bottleneckStation = stationName;
+      }
+    }
+
+    const workingDays = Math.ceil(busiestDays);
+    const promisedDate = addBusinessDays(start, workingDays);
+    const dueDate = order.dueDate ? startOfDay(new Date(order.dueDate)) : null;
+    const daysLate = dueDate ? Math.max(0, Math.round((promisedDate.getTime() - dueDate.getTime()) / DAY_MS)) : 0;
+
+    promises.push({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      customerName: order.customerName || null,
+      priority: order.priority,
+      dueDate: dueDate ? dueDate.toISOString() : null,
+      promisedDate: promisedDate.toISOString(),
+      workingDays,
+      bottleneckStation,
+      stationHours: roundHours(stationHours),
+      atRisk: daysLate > 0,
+      daysLate
+    });
+  }
+
+  const stationNames = new Set([...stations.map(station => station.stationName), ...queuedHours.keys()]);
+  const backlogs: StationBacklog[] = [...stationNames].map(stationName => {
+    const station = stationsByName.get(stationName);
+    const backlogHours = queuedHours.get(stationName) || 0;
+
+    return {
+      stationName,
+      backlogHours: round(backlogHours),
+      backlogDays: round(backlogHours / hoursPerDay(stationName)),
+      hoursPerDay: round(station?.hoursPerDay || 0),
+      workerCount: station?.workerCount || 0,
+      averageHoursPerItem: round(hoursPerItem(stationName)),
+      hasHistory: station?.averageHoursPerItem != null,
+      unstaffed: !station?.hoursPerDay
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    stations: backlogs.sort((a, b) => b.backlogDays - a.backlogDays),
+    orders: promises
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundHours(hours: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(hours).map(([stationName, value]) => [stationName, round(value)]));
+}
@@ -22,4 +22,15 @@ export const STATION_NAME_TO_CODE: { [key: string]: string } = {
   'Foam Cutting': 'F',
   'Stuffing': 'T',
   'Packaging': 'P'
-};
\ No newline at end of file
+};
+
+// Reason codes for sending an item back to an earlier step (ReworkReason enum)
+export const REWORK_REASONS: { [key: string]: string } = {
+  'BAD_CUT': 'Bad cut',
+  'SEWING_DEFECT': 'Sewing defect',
+  'FOAM_DEFECT': 'Foam defect',
+  'WRONG_MEASUREMENTS': 'Wrong measurements',
+  'MATERIAL_DEFECT': 'Material defect',
+  'DAMAGED': 'Damaged',
+  'OTHER': 'Other'
+};
@@ -0,0 +1,331 @@
+// Spa cover configurator - builds a cover from valid choices and writes its canonical QuickBooks description
+// The description is written by the description grammar, so a configured cover parses back to the same attributes
+// with no errors: Color, Size (or LengthxWidth), Shape, R:, Skirt:, TD:, then every upgrade.
+// Which fields apply depends on the shape, e.g. round covers have no corner radius and no slit skirt.
+// Used by components/CoverConfigurator.vue on the order editor and the product selector.
+
+import { COVER_FOAM_TAPERS, formatCoverDescription, type ParsedProductAttributes } from './descriptionGrammar';
+import { TIE_DOWN_PLACEMENT_LABELS } from './coverDrawing';
+
+export const COVER_CONFIGURATOR_SHAPES = ['Square', 'Rectangle', 'Round', 'Oval', 'Octagon'] as const;
+
+export type CoverConfiguratorShape = typeof COVER_CONFIGURATOR_SHAPES[number];
+
+export const COVER_SKIRT_TYPES = ['CONN', 'SLIT', 'NONE'] as const;
+
+export type CoverSkirtType = typeof COVER_SKIRT_TYPES[number];
+
+export const COVER_TIE_DOWN_PLACEMENTS = ['HANDLE_SIDE', 'CORNER_SIDE', 'FOLD_SIDE'] as const;
+
+export type CoverTieDownPlacement = typeof COVER_TIE_DOWN_PLACEMENTS[number];
+
+export interface CoverShapeRules {
+  hasLengthWidth: boolean; // Sized by length and width rather than a single size
+  hasRadius: boolean;      // Has corners that take a radius
+  skirtTypes: CoverSkirtType[];
+}
+
+// Covers with no corners cannot take a slit skirt
+export const COVER_SHAPE_RULES: Record<CoverConfiguratorShape, CoverShapeRules> = {
+  Square: { hasLengthWidth: false, hasRadius: true, skirtTypes: ['CONN', 'SLIT', 'NONE'] },
+  Rectangle: { hasLengthWidth: true, hasRadius: true, skirtTypes: ['CONN', 'SLIT', 'NONE'] },
+  Round: { hasLengthWidth: false, hasRadius: false, skirtTypes: ['CONN', 'NONE'] },
+  Oval: { hasLengthWidth: true, hasRadius: false, skirtTypes: ['CONN', 'NONE'] },
+  Octagon: { hasLengthWidth: false, hasRadius: false, skirtTypes: ['CONN', 'SLIT', 'NONE'] }
+};
+
+export const COVER_SIZE_RANGE_IN = { min: 24, max: 144 };
+export const MAX_COVER_SKIRT_IN = 12;
+export const MAX_COVER_TIE_DOWNS = 12;
+export const MAX_COVER_EXTRA_HANDLES = 4;
+
+// Skirts longer than this are extra long
+export const EXTRA_LONG_SKIRT_OVER_IN = 6;
+
+// How skirt types are written in a description
+const SKIRT_TYPE_DESCRIPTIONS: Record<CoverSkirtType, string> = {
+  CONN: 'Conn',
+  SLIT: 'Slit',
+  NONE: 'None'
+};
+
+export interface CoverConfiguration {
+  color: string;
+  shape: CoverConfiguratorShape;
+  size: string;   // Inches, for shapes sized by a single size
+  length: string; // Inches, for shapes sized by length and width
+  width: string;
+  radiusSize: string;
+  skirtLength: string;
+  skirtType: CoverSkirtType;
+  tieDownsQty: number;
+  tieDownPlacement: CoverTieDownPlacement;
+  distance: string; // Inches from the corner, or from the fold for fold side tie downs
+  foamUpgrade: string;
+  doublePlasticWrap: boolean;
+  webbing: boolean;
+  metalForLifter: boolean;
+  steamStopper: boolean;
+  fabricUpgrade: boolean;
+  extraHandleQty: number;
+  packaging: boolean;
+}
+
+export interface CoverProductSpecs {
+  size: string;
+  shape: string;
+  foamThickness: string;
+  skit: string;
+  tiedown: string;
+  color: string;
+}
+
+export function createCoverConfiguration(overrides: Partial<CoverConfiguration> = {}): CoverConfiguration {
+  return {
+    color: '',
+    shape: 'Square',
+    size: '',
+    length: '',
+    width: '',
+    radiusSize: '',
+    skirtLength: '5',
+    skirtType: 'CONN',
+    tieDownsQty: 4,
+    tieDownPlacement: 'HANDLE_SIDE',
+    distance: '',
+    foamUpgrade: '',
+    doublePlasticWrap: false,
+    webbing: false,
+    metalForLifter: false,
+    steamStopper: false,
+    fabricUpgrade: false,
+    extraHandleQty: 0,
+    packaging: false,
+    ...overrides
+  };
+}
+
+/**
+ * Check a configuration for missing values and combinations the shop does not build
+ * A configuration with no errors always produces a description the parser reads back without errors.
+ *
+ * @returns One message per problem, empty when the cover can be built
+ */
+export function validateCoverConfiguration(config: CoverConfiguration): string[] {
+  const errors: string[] = [];
+  const rules = COVER_SHAPE_RULES[config.shape];
+
+  const color = config.color.trim();
+  if (!color) {
+    errors.push('Color is required');
+  } else if (/[\d,:]/.test(color)) {
+    // The parser takes the color up to the first comma before the size, and the size is the first number
+    errors.push('Color cannot contain numbers, commas or colons');
+  }
+
+  if (!rules) {
+    errors.push(`Shape must be one of ${COVER_CONFIGURATOR_SHAPES.join(', ')}`);
+    return errors;
+  }
+
+  const { lengthIn, widthIn } = getConfiguredDimensions(config);
+  if (rules.hasLengthWidth) {
+    checkSize(errors, 'Length', config.length);
+    checkSize(errors, 'Width', config.width);
+    if (lengthIn !== null && widthIn !== null && widthIn > lengthIn) {
+      errors.push('Length must be the longer side');
+    }
+  } else {
+    checkSize(errors, 'Size', config.size);
+  }
+
+  if (config.radiusSize.trim()) {
+    const radius = parseInches(config.radiusSize);
+    if (!rules.hasRadius) {
+      errors.push(`${config.shape} covers have no corner radius`);
+    } else if (radius === null) {
+      errors.push('Radius must be a number of inches');
+    } else if (widthIn !== null && radius > widthIn / 2) {
+      errors.push('Radius cannot be more than half the width of the cover');
+    }
+  }
+
+  if (!rules.skirtTypes.includes(config.skirtType)) {
+    errors.push(`${config.shape} covers cannot have a ${SKIRT_TYPE_DESCRIPTIONS[config.skirtType]?.toLowerCase() || config.skirtType} skirt`);
+  } else if (config.skirtType !== 'NONE') {
+    const skirt = parseInches(config.skirtLength);
+    if (skirt === null || skirt <= 0) {
+      errors.push('Skirt length is required');
+    } else if (skirt > MAX_COVER_SKIRT_IN) {
+      errors.push(`Skirt length cannot be more than ${MAX_COVER_SKIRT_IN}"`);
+    }
+  }
+
+  if (!Number.isInteger(config.tieDownsQty) || config.tieDownsQty < 0 || config.tieDownsQty > MAX_COVER_TIE_DOWNS) {
+    errors.push(`Tie downs must be a whole number from 0 to ${MAX_COVER_TIE_DOWNS}`);
+  } else if (config.tieDownsQty > 0) {
+    if (!COVER_TIE_DOWN_PLACEMENTS.includes(config.tieDownPlacement)) {
+      errors.push('Tie down placement is required');
+    }
+    if (config.distance.trim()) {
+      const distance = parseInches(config.distance);
+      if (distance === null) {
+        errors.push('Tie down distance must be a number of inches');
+      } else if (lengthIn !== null && distance >= lengthIn / 2) {
+        errors.push('Tie down distance must be less than half the length of the cover');
+      }
+    }
+  } else if (config.distance.trim() && parseInches(config.distance) !== 0) {
+    errors.push('Tie down distance needs tie downs');
+  }
+
+  if (config.foamUpgrade && !COVER_FOAM_TAPERS.includes(config.foamUpgrade)) {
+    errors.push(`Foam upgrade must be one of ${COVER_FOAM_TAPERS.join(', ')}`);
+  }
+
+  if (!Number.isInteger(config.extraHandleQty) || config.extraHandleQty < 0 || config.extraHandleQty > MAX_COVER_EXTRA_HANDLES) {
+    errors.push(`Extra handles must be a whole number from 0 to ${MAX_COVER_EXTRA_HANDLES}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Write the canonical description of a configured cover, e.g.
+ * "Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side, DPW: No, WebU: No, MFL: No, SteamS: No, FabricU: No, EH: 0, ELS: No, Pack: No"
+ * Only meaningful for a configuration that passes validateCoverConfiguration.
+ */
+export function buildCoverDescription(config: CoverConfiguration): string {
+  return formatCoverDescription(getConfiguredCoverAttributes(config));
+}
+
+/**
+ * The attributes the parser reads back from a configured cover's description
+ * Fields that do not apply to the shape are left blank, and numbers are written the way the description writes them.
+ */
+export function getConfiguredCoverAttributes(config: CoverConfiguration): ParsedProductAttributes {
+  const rules = COVER_SHAPE_RULES[config.shape];
+  const hasTieDowns = config.tieDownsQty > 0;
+  const skirtLength = config.skirtType === 'NONE' ? '0' : formatInches(config.skirtLength);
+  const length = rules?.hasLengthWidth ? formatInches(config.length) : '';
+  const radius = rules?.hasRadius ? formatInches(config.radiusSize) : '';
+  const distance = hasTieDowns ? formatInches(config.distance) : '';
+  const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+  return {
+    productType: 'SPA_COVER',
+    color: config.color.trim(),
+    size: rules?.hasLengthWidth ? length : formatInches(config.size),
+    shape: config.shape,
+    radiusSize: radius && radius !== '0' ? radius : '',
+    length,
+    width: rules?.hasLengthWidth ? formatInches(config.width) : '',
+    skirtLength,
+    skirtType: config.skirtType,
+    tieDownsQty: String(config.tieDownsQty),
+    tieDownPlacement: hasTieDowns ? config.tieDownPlacement : 'NONE',
+    distance: distance || '0',
+    foamUpgrade: config.foamUpgrade,
+    doublePlasticWrapUpgrade: yesNo(config.doublePlasticWrap),
+    webbingUpgrade: yesNo(config.webbing),
+    metalForLifterUpgrade: yesNo(config.metalForLifter),
+    steamStopperUpgrade: yesNo(config.steamStopper),
+    fabricUpgrade: yesNo(config.fabricUpgrade),
+    extraHandleQty: String(config.extraHandleQty),
+    extraLongSkirt: yesNo(Number(skirtLength) > EXTRA_LONG_SKIRT_OVER_IN),
+    packaging: config.packaging,
+    notes: ''
+  };
+}
+
+/**
+ * Start a configuration from a cover's existing attributes, e.g. ones parsed from a hand-typed description
+ * Values the configurator does not offer are kept so validation points them out.
+ */
+export function coverConfigurationFromAttributes(attributes: Partial<Record<keyof ParsedProductAttributes, unknown>>): CoverConfiguration {
+  const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+  const isYes = (value: unknown) => text(value).toLowerCase() === 'yes';
+  const count = (value: unknown) => {
+    const parsed = parseInt(text(value), 10);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  };
+
+  const shape = COVER_CONFIGURATOR_SHAPES.find(option => option.toLowerCase() === text(attributes.shape).toLowerCase()) || 'Square';
+  const skirtType = text(attributes.skirtType).toUpperCase();
+  const placement = text(attributes.tieDownPlacement).toUpperCase();
+  const tieDownsQty = placement === 'NONE' ? 0 : count(attributes.tieDownsQty);
+  const hasLengthWidth = COVER_SHAPE_RULES[shape].hasLengthWidth;
+
+  return createCoverConfiguration({
+    color: text(attributes.color),
+    shape,
+    size: hasLengthWidth ? '' : text(attributes.size),
+    length: hasLengthWidth ? text(attributes.length) || text(attributes.size) : '',
+    width: hasLengthWidth ? text(attributes.width) : '',
+    radiusSize: text(attributes.radiusSize) === '0' ? '' : text(attributes.radiusSize),
+    skirtLength: skirtType === 'NONE' ? '' : text(attributes.skirtLength),
+    skirtType: (COVER_SKIRT_TYPES as readonly string[]).includes(skirtType) ? skirtType as CoverSkirtType : 'CONN',
+    tieDownsQty,
+    tieDownPlacement: (COVER_TIE_DOWN_PLACEMENTS as readonly string[]).includes(placement) ? placement as CoverTieDownPlacement : 'HANDLE_SIDE',
+    distance: tieDownsQty > 0 && text(attributes.distance) !== '0' ? text(attributes.distance) : '',
+    foamUpgrade: text(attributes.foamUpgrade),
+    doublePlasticWrap: isYes(attributes.doublePlasticWrapUpgrade),
+    webbing: isYes(attributes.webbingUpgrade),
+    metalForLifter: isYes(attributes.metalForLifterUpgrade),
+    steamStopper: isYes(attributes.steamStopperUpgrade),
+    fabricUpgrade: isYes(attributes.fabricUpgrade),
+    extraHandleQty: count(attributes.extraHandleQty),
+    packaging: attributes.packaging === true || isYes(attributes.packaging)
+  });
+}
+
+/**
+ * The product catalog's specs for a configured cover, in the style of the catalog's existing products
+ * e.g. 87X87 / Square / 5-2.5 STEAM STOPPER / 5-CONN / 4-TD HANDLE SIDE / DARK GRAY
+ */
+export function getCoverProductSpecs(config: CoverConfiguration): CoverProductSpecs {
+  const attributes = getConfiguredCoverAttributes(config);
+  const foam = attributes.foamUpgrade || '4-2';
+
+  return {
+    size: attributes.length ? `${attributes.length}X${attributes.width}` : `${attributes.size}X${attributes.size}`,
+    shape: attributes.shape,
+    foamThickness: config.steamStopper ? `${foam} STEAM STOPPER` : foam,
+    skit: config.skirtType === 'NONE' ? 'NONE' : `${attributes.skirtLength}-${config.skirtType}`,
+    tiedown: config.tieDownsQty > 0
+      ? `${config.tieDownsQty}-TD ${TIE_DOWN_PLACEMENT_LABELS[config.tieDownPlacement].toUpperCase()}`
+      : 'NONE',
+    color: attributes.color.toUpperCase()
+  };
+}
+
+function getConfiguredDimensions(config: CoverConfiguration): { lengthIn: number | null; widthIn: number | null } {
+  if (COVER_SHAPE_RULES[config.shape]?.hasLengthWidth) {
+    return { lengthIn: parseInches(config.length), widthIn: parseInches(config.width) };
+  }
+  const size = parseInches(config.size);
+  return { lengthIn: size, widthIn: size };
+}
+
+// Sizes are whole inches - the parser reads the size as the first whole number in the description
+function checkSize(errors: string[], label: string, value: string): void {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    errors.push(`${label} is required`);
+  } else if (!/^\d+$/.test(trimmed)) {
+    errors.push(`${label} must be whole inches`);
+  } else if (Number(trimmed) < COVER_SIZE_RANGE_IN.min || Number(trimmed) > COVER_SIZE_RANGE_IN.max) {
+    errors.push(`${label} must be between ${COVER_SIZE_RANGE_IN.min}" and ${COVER_SIZE_RANGE_IN.max}"`);
+  }
+}
+
+function parseInches(value: string): number | null {
+  const trimmed = value.trim();
+  return /^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+// Written without leading or trailing zeros, e.g. "08" -> "8", "5.50" -> "5.5"
+function formatInches(value: string): string {
+  const inches = parseInches(value);
+  return inches === null ? '' : String(inches);
+}
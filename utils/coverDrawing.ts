@@ -0,0 +1,334 @@
+// Spa cover spec drawing - a dimensioned top and side view of a cover, drawn from its parsed attributes
+// The top view has the hinge (fold line) running the length of the cover, so the handle sides are the long
+// edges and the fold sides are the short edges where the fold line ends. Tie down positions follow the
+// placement and distance on the order; they show where to sew them, not a measured template.
+// The side view is a section across the fold with the foam taper and the skirt.
+// Rendered as an SVG string so it can go into pages, print windows and printed travelers alike.
+
+import { getCoverFootprint } from './shippingPackages';
+import type { BomCoverAttributes } from './materials';
+
+export type CoverDrawingShape = 'RECTANGLE' | 'ROUND' | 'OVAL';
+
+export interface CoverTieDown {
+  xIn: number; // Along the length, from the left end
+  yIn: number; // Across the width, from the top handle side
+}
+
+export interface CoverFoamTaper {
+  centerIn: number; // Thickness at the fold
+  edgeIn: number;   // Thickness at the handle sides
+  isStandard: boolean;
+}
+
+export interface CoverDrawing {
+  productType: string;
+  shape: CoverDrawingShape;
+  shapeLabel: string;
+  hasSize: boolean;
+  lengthIn: number;
+  widthIn: number;
+  radiusIn: number;
+  skirtIn: number;
+  skirtType: string | null;
+  tieDownPlacement: string | null;
+  tieDownDistanceIn: number;
+  tieDowns: CoverTieDown[];
+  foam: CoverFoamTaper | null; // NULL for covers with no foam core
+}
+
+export interface CoverDrawingSvgOptions {
+  width?: number; // Rendered width in px; the height follows the drawing
+  title?: string;
+}
+
+// Foam core when the order has no taper upgrade
+export const STANDARD_FOAM_TAPER = { centerIn: 4, edgeIn: 2 };
+
+export const TIE_DOWN_PLACEMENT_LABELS: Record<string, string> = {
+  HANDLE_SIDE: 'Handle Side',
+  CORNER_SIDE: 'Corner Side',
+  FOLD_SIDE: 'Fold Side',
+  NONE: 'None'
+};
+
+export const SKIRT_TYPE_LABELS: Record<string, string> = {
+  CONN: 'Connected',
+  SLIT: 'Slit',
+  NONE: 'No skirt'
+};
+
+const VIEW_WIDTH = 480;
+const TOP_VIEW_HEIGHT = 260;
+const SIDE_VIEW_HEIGHT = 140;
+const TITLE_HEIGHT = 24;
+const MARGIN = 44;
+
+/**
+ * Work out the cover outline, tie down positions and foam profile from its attributes
+ */
+export function getCoverDrawing(attributes: BomCoverAttributes): CoverDrawing {
+  const text = (value: unknown) => (value === null || value === undefined || String(value).trim() === '' ? null : String(value).trim());
+  const size = text(attributes.size);
+  const length = text(attributes.length);
+  const width = text(attributes.width);
+  const { lengthIn, widthIn } = getCoverFootprint({ size, length, width });
+
+  const shapeText = (text(attributes.shape) || '').toLowerCase();
+  const shape: CoverDrawingShape = shapeText === 'round' ? 'ROUND' : shapeText === 'oval' ? 'OVAL' : 'RECTANGLE';
+  const productType = text(attributes.productType) || 'SPA_COVER';
+
+  const skirtType = text(attributes.skirtType);
+  const tieDownPlacement = text(attributes.tieDownPlacement);
+  const tieDownCount = tieDownPlacement === 'NONE' ? 0 : Math.floor(parseNumber(attributes.tieDownsQty));
+  const tieDownDistanceIn = parseNumber(attributes.distance);
+
+  const drawing: CoverDrawing = {
+    productType,
+    shape,
+    shapeLabel: text(attributes.shape) || 'Square',
+    hasSize: !!(size || length || width),
+    lengthIn,
+    widthIn: shape === 'ROUND' ? lengthIn : widthIn,
+    radiusIn: shape === 'RECTANGLE' ? Math.min(parseNumber(attributes.radiusSize), widthIn / 2) : 0,
+    skirtIn: skirtType === 'NONE' ? 0 : parseNumber(attributes.skirtLength),
+    skirtType,
+    tieDownPlacement,
+    tieDownDistanceIn,
+    tieDowns: [],
+    foam: productType === 'COVER_FOR_COVER' ? null : parseFoamTaper(text(attributes.foamUpgrade))
+  };
+  drawing.tieDowns = placeTieDowns(drawing, tieDownCount);
+
+  return drawing;
+}
+
+/**
+ * Render the spec drawing as a standalone SVG
+ */
+export function renderCoverDrawingSvg(attributes: BomCoverAttributes, options: CoverDrawingSvgOptions = {}): string {
+  const drawing = getCoverDrawing(attributes);
+  const height = TITLE_HEIGHT + TOP_VIEW_HEIGHT + SIDE_VIEW_HEIGHT;
+  const width = options.width || VIEW_WIDTH;
+  const title = options.title || `${drawing.productType === 'COVER_FOR_COVER' ? 'Cover for Cover' : 'Spa Cover'} - ${drawing.shapeLabel}`;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${VIEW_WIDTH} ${height}" width="${width}" height="${round(width * height / VIEW_WIDTH)}" font-family="Arial, sans-serif" font-size="11" class="cover-spec-drawing">`,
+    `<rect x="0" y="0" width="${VIEW_WIDTH}" height="${height}" fill="#fff"/>`,
+    label(VIEW_WIDTH / 2, 16, title, { size: 13, bold: true }),
+    renderTopView(drawing, TITLE_HEIGHT),
+    renderSideView(drawing, TITLE_HEIGHT + TOP_VIEW_HEIGHT),
+    '</svg>'
+  ];
+
+  return parts.join('');
+}
+
+/**
+ * Format inches for a dimension, e.g. 87.5 -> 87.5"
+ */
+export function formatInches(value: number): string {
+  return `${round(value)}"`;
+}
+
+function renderTopView(drawing: CoverDrawing, top: number): string {
+  const scale = Math.min((VIEW_WIDTH - MARGIN * 2) / drawing.lengthIn, (TOP_VIEW_HEIGHT - MARGIN * 2) / drawing.widthIn);
+  const coverWidth = drawing.lengthIn * scale;
+  const coverHeight = drawing.widthIn * scale;
+  const left = (VIEW_WIDTH - coverWidth) / 2;
+  const coverTop = top + MARGIN - 6;
+  const x = (inches: number) => round(left + inches * scale);
+  const y = (inches: number) => round(coverTop + inches * scale);
+  const parts: string[] = [label(8, top + 14, 'TOP VIEW', { anchor: 'start', size: 10, bold: true })];
+
+  if (drawing.shape === 'RECTANGLE') {
+    const radius = round(drawing.radiusIn * scale);
+    parts.push(`<rect x="${x(0)}" y="${y(0)}" width="${round(coverWidth)}" height="${round(coverHeight)}" rx="${radius}" ry="${radius}" fill="#f3f4f6" stroke="#111" stroke-width="2"/>`);
+  } else {
+    parts.push(`<ellipse cx="${x(drawing.lengthIn / 2)}" cy="${y(drawing.widthIn / 2)}" rx="${round(coverWidth / 2)}" ry="${round(coverHeight / 2)}" fill="#f3f4f6" stroke="#111" stroke-width="2"/>`);
+  }
+
+  // Fold line along the hinge
+  parts.push(
+    `<line x1="${x(0)}" y1="${y(drawing.widthIn / 2)}" x2="${x(drawing.lengthIn)}" y2="${y(drawing.widthIn / 2)}" stroke="#6b7280" stroke-width="1" stroke-dasharray="6 4"/>`,
+    label(x(drawing.lengthIn / 2), y(drawing.widthIn / 2) - 4, 'FOLD', { size: 9, color: '#6b7280' })
+  );
+
+  // Length along the top, width down the right side
+  parts.push(dimension(x(0), y(0) - 16, x(drawing.lengthIn), y(0) - 16, drawing.hasSize ? formatInches(drawing.lengthIn) : 'Size not set'));
+  if (drawing.shape !== 'ROUND') {
+    parts.push(dimension(x(drawing.lengthIn) + 16, y(0), x(drawing.lengthIn) + 16, y(drawing.widthIn), formatInches(drawing.widthIn), true));
+  }
+
+  if (drawing.radiusIn > 0) {
+    // Callout from the top left corner arc
+    const arcX = x(drawing.radiusIn * (1 - Math.SQRT1_2));
+    const arcY = y(drawing.radiusIn * (1 - Math.SQRT1_2));
+    parts.push(
+      `<line x1="${arcX}" y1="${arcY}" x2="${round(arcX + 22)}" y2="${round(arcY + 22)}" stroke="#111" stroke-width="1"/>`,
+      label(round(arcX + 24), round(arcY + 32), `R ${formatInches(drawing.radiusIn)}`, { anchor: 'start', size: 10 })
+    );
+  }
+
+  for (const tieDown of drawing.tieDowns) {
+    parts.push(`<rect x="${round(x(tieDown.xIn) - 4)}" y="${round(y(tieDown.yIn) - 4)}" width="8" height="8" fill="#2563eb" stroke="#1e3a8a" stroke-width="1"/>`);
+  }
+
+  const tieDownText = drawing.tieDowns.length > 0
+    ? `${drawing.tieDowns.length} tie down${drawing.tieDowns.length === 1 ? '' : 's'}, ${TIE_DOWN_PLACEMENT_LABELS[drawing.tieDownPlacement || ''] || drawing.tieDownPlacement || 'Handle Side'}`
+      + (drawing.tieDownDistanceIn > 0 ? `, ${formatInches(drawing.tieDownDistanceIn)} from ${drawing.tieDownPlacement === 'FOLD_SIDE' ? 'the fold' : 'the corner'}` : '')
+    : 'No tie downs';
+  parts.push(label(VIEW_WIDTH / 2, top + TOP_VIEW_HEIGHT - 12, tieDownText, { size: 10 }));
+
+  return parts.join('');
+}
+
+function renderSideView(drawing: CoverDrawing, top: number): string {
+  const parts: string[] = [label(8, top + 14, 'SIDE VIEW (ACROSS THE FOLD)', { anchor: 'start', size: 10, bold: true })];
+  const foam = drawing.foam || { centerIn: 0.5, edgeIn: 0.5, isStandard: false };
+  const usableHeight = SIDE_VIEW_HEIGHT - 58;
+
+  // The thickness and skirt are drawn to their own scale so a 2" edge still reads next to a 90" width
+  const verticalScale = Math.min(8, usableHeight / Math.max(foam.centerIn + drawing.skirtIn, 1));
+  const left = MARGIN + 10;
+  const right = VIEW_WIDTH - MARGIN - 10;
+  const middle = (left + right) / 2;
+  const base = top + 30 + round(foam.centerIn * verticalScale);
+  const edgeTop = round(base - foam.edgeIn * verticalScale);
+  const centerTop = round(base - foam.centerIn * verticalScale);
+
+  parts.push(`<polygon points="${left},${base} ${left},${edgeTop} ${middle},${centerTop} ${right},${edgeTop} ${right},${base}" fill="#e5e7eb" stroke="#111" stroke-width="2"/>`);
+  parts.push(`<line x1="${middle}" y1="${centerTop}" x2="${middle}" y2="${base}" stroke="#6b7280" stroke-width="1" stroke-dasharray="4 3"/>`);
+
+  if (drawing.skirtIn > 0) {
+    const skirtBottom = round(base + drawing.skirtIn * verticalScale);
+    const dash = drawing.skirtType === 'SLIT' ? ' stroke-dasharray="5 3"' : '';
+    parts.push(
+      `<line x1="${left}" y1="${base}" x2="${left}" y2="${skirtBottom}" stroke="#111" stroke-width="3"${dash}/>`,
+      `<line x1="${right}" y1="${base}" x2="${right}" y2="${skirtBottom}" stroke="#111" stroke-width="3"${dash}/>`,
+      dimension(left - 16, base, left - 16, skirtBottom, formatInches(drawing.skirtIn), true, 'left')
+    );
+  }
+
+  if (drawing.foam) {
+    parts.push(
+      label(middle, centerTop - 6, `${formatInches(drawing.foam.centerIn)} at fold`, { size: 10 }),
+      label(right - 4, edgeTop - 6, `${formatInches(drawing.foam.edgeIn)} edge`, { anchor: 'end', size: 10 })
+    );
+  }
+
+  const details = [
+    drawing.foam ? `Foam ${formatInches(drawing.foam.centerIn)}-${formatInches(drawing.foam.edgeIn)} taper${drawing.foam.isStandard ? ' (standard)' : ''}` : 'No foam core',
+    drawing.skirtIn > 0
+      ? `Skirt ${formatInches(drawing.skirtIn)} ${SKIRT_TYPE_LABELS[drawing.skirtType || ''] || drawing.skirtType || ''}`.trim()
+      : 'No skirt'
+  ];
+  parts.push(label(VIEW_WIDTH / 2, top + SIDE_VIEW_HEIGHT - 10, details.join('  |  '), { size: 10 }));
+
+  return parts.join('');
+}
+
+/**
+ * Spread the tie downs over the edges their placement puts them on
+ * Handle side: the long edges, the distance in from each corner. Corner side: the short edges, the distance
+ * in from each corner. Fold side: the short edges, either side of the fold line by the distance.
+ */
+function placeTieDowns(drawing: CoverDrawing, count: number): CoverTieDown[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const { lengthIn, widthIn, tieDownDistanceIn } = drawing;
+  const placement = drawing.tieDownPlacement || 'HANDLE_SIDE';
+  const firstEdge = Math.ceil(count / 2);
+  const perEdge = [firstEdge, count - firstEdge];
+  const tieDowns: CoverTieDown[] = [];
+
+  perEdge.forEach((edgeCount, edge) => {
+    if (placement === 'HANDLE_SIDE') {
+      const offset = tieDownDistanceIn > 0 ? Math.min(tieDownDistanceIn, lengthIn / 2) : lengthIn / (edgeCount * 2);
+      for (const xIn of spread(edgeCount, offset, lengthIn - offset)) {
+        tieDowns.push({ xIn, yIn: edge === 0 ? 0 : widthIn });
+      }
+    } else {
+      const offset = placement === 'FOLD_SIDE'
+        ? widthIn / 2 - (tieDownDistanceIn > 0 ? Math.min(tieDownDistanceIn, widthIn / 2) : widthIn / 4)
+        : (tieDownDistanceIn > 0 ? Math.min(tieDownDistanceIn, widthIn / 2) : widthIn / (edgeCount * 2));
+      for (const yIn of spread(edgeCount, offset, widthIn - offset)) {
+        tieDowns.push({ xIn: edge === 0 ? 0 : lengthIn, yIn });
+      }
+    }
+  });
+
+  // Round and oval covers have no corners - the tie downs go on the edge at the same angle from the middle
+  if (drawing.shape !== 'RECTANGLE') {
+    return tieDowns.map(tieDown => {
+      const angle = Math.atan2((tieDown.yIn - widthIn / 2) / (widthIn / 2), (tieDown.xIn - lengthIn / 2) / (lengthIn / 2));
+      return {
+        xIn: round(lengthIn / 2 + Math.cos(angle) * lengthIn / 2),
+        yIn: round(widthIn / 2 + Math.sin(angle) * widthIn / 2)
+      };
+    });
+  }
+
+  return tieDowns.map(tieDown => ({ xIn: round(tieDown.xIn), yIn: round(tieDown.yIn) }));
+}
+
+function spread(count: number, from: number, to: number): number[] {
+  if (count <= 0) return [];
+  if (count === 1) return [(from + to) / 2];
+  return Array.from({ length: count }, (_, index) => from + (to - from) * index / (count - 1));
+}
+
+/**
+ * Read the taper from a foam upgrade like 5"-2.5" or 4-5-4; density upgrades like 2# keep the standard taper
+ */
+function parseFoamTaper(foamUpgrade: string | null): CoverFoamTaper {
+  const thicknesses = (foamUpgrade?.match(/\d+(\.\d+)?/g) || [])
+    .map(Number)
+    .filter(value => value > 0 && value <= 12);
+  if (!foamUpgrade || /#/.test(foamUpgrade) || thicknesses.length < 2) {
+    return { ...STANDARD_FOAM_TAPER, isStandard: true };
+  }
+
+  return {
+    centerIn: Math.max(...thicknesses),
+    edgeIn: Math.min(...thicknesses),
+    isStandard: false
+  };
+}
+
+function dimension(x1: number, y1: number, x2: number, y2: number, text: string, vertical = false, textSide: 'left' | 'right' = 'right'): string {
+  const tick = (x: number, y: number) => vertical
+    ? `<line x1="${x - 4}" y1="${y}" x2="${x + 4}" y2="${y}" stroke="#111" stroke-width="1"/>`
+    : `<line x1="${x}" y1="${y - 4}" x2="${x}" y2="${y + 4}" stroke="#111" stroke-width="1"/>`;
+  const textX = vertical ? (textSide === 'right' ? x1 + 6 : x1 - 6) : (x1 + x2) / 2;
+  const textY = vertical ? (y1 + y2) / 2 + 4 : y1 - 5;
+
+  return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#111" stroke-width="1"/>`
+    + tick(x1, y1)
+    + tick(x2, y2)
+    + label(round(textX), round(textY), text, { anchor: vertical ? (textSide === 'right' ? 'start' : 'end') : 'middle', size: 11, bold: true });
+}
+
+function label(x: number, y: number, text: string, options: { anchor?: 'start' | 'middle' | 'end'; size?: number; bold?: boolean; color?: string } = {}): string {
+  return `<text x="${x}" y="${y}" text-anchor="${options.anchor || 'middle'}" font-size="${options.size || 11}"`
+    + `${options.bold ? ' font-weight="bold"' : ''} fill="${options.color || '#111'}">${escapeXml(text)}</text>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseNumber(value: unknown): number {
+  const match = String(value ?? '').match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,148 @@
+// Customer portal helpers - turn internal order/item statuses into the customer-facing progress view
+// Stage names are deliberately generic (no stations or employees) because customers see them directly.
+
+import { PROCESSING_STATUS_ORDER, WORKFLOW_COMPLETE_STATUS, getBuiltInWorkflow, getOrderedWorkflowSteps } from './workflowEngine';
+
+// Business days from approval to ready when the order has no due date
+export const PORTAL_STANDARD_LEAD_TIME_DAYS = 10;
+
+export const PORTAL_STAGE_LABELS: Record<string, string> = {
+  NOT_STARTED_PRODUCTION: 'Order Received',
+  CUTTING: 'Cutting',
+  SEWING: 'Sewing',
+  FOAM_CUTTING: 'Foam Cutting',
+  STUFFING: 'Assembly',
+  PACKAGING: 'Packaging',
+  PRODUCT_FINISHED: 'Final Inspection',
+  READY: 'Ready'
+};
+
+export const PORTAL_ORDER_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Received',
+  APPROVED: 'Confirmed',
+  ORDER_PROCESSING: 'In Production',
+  READY_TO_SHIP: 'Ready to Ship',
+  SHIPPED: 'Shipped',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+  ARCHIVED: 'Completed'
+};
+
+export interface PortalStatusLog {
+  toStatus: string;
+  timestamp: Date | string;
+}
+
+export interface PortalItemStage {
+  status: string;
+  label: string;
+  state: 'complete' | 'current' | 'upcoming';
+  reachedAt: string | null;
+}
+
+export interface PortalReadyDateSource {
+  orderStatus: string;
+  dueDate?: Date | string | null;
+  approvedAt?: Date | string | null;
+  readyToShipAt?: Date | string | null;
+  createdAt: Date | string;
+}
+
+/**
+ * Build the progress stages shown for one item
+ * Stages follow the built-in workflow for the product type. When an item was sent back for rework,
+ * stages after its current status show as upcoming again.
+ *
+ * @param productType - SPA_COVER or COVER_FOR_COVER
+ * @param itemStatus - The item's current processing status
+ * @param logs - The item's status logs (any order)
+ */
+export function buildPortalItemProgress(
+  productType: string | null | undefined,
+  itemStatus: string,
+  logs: PortalStatusLog[]
+): PortalItemStage[] {
+  const statuses = getOrderedWorkflowSteps(getBuiltInWorkflow(productType)).map(step => step.itemStatus);
+  statuses.push(WORKFLOW_COMPLETE_STATUS);
+
+  const currentRank = PROCESSING_STATUS_ORDER.indexOf(itemStatus);
+
+  return statuses.map(status => {
+    const rank = PROCESSING_STATUS_ORDER.indexOf(status);
+    const state: PortalItemStage['state'] = rank < currentRank || (rank === currentRank && status === WORKFLOW_COMPLETE_STATUS)
+      ? 'complete'
+      : rank === currentRank ? 'current' : 'upcoming';
+
+    let reachedAt: string | null = null;
+    if (state !== 'upcoming') {
+      const latest = logs
+        .filter(log => log.toStatus === status)
+        .map(log => new Date(log.timestamp))
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      reachedAt = latest ? latest.toISOString() : null;
+    }
+
+    return {
+      status,
+      label: PORTAL_STAGE_LABELS[status] || status.replace(/_/g, ' '),
+      state,
+      reachedAt
+    };
+  });
+}
+
+/**
+ * Add business days (Monday-Friday) to a date
+ */
+export function addBusinessDays(start: Date, days: number): Date {
+  const result = new Date(start);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    const day = result.getDay();
+    if (day !== 0 && day !== 6) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Work out the date an order is expected to be ready
+ * Uses the actual ready date once known, then the order's due date, then the standard lead time from approval.
+ *
+ * @returns The date and whether it is an estimate, or null for cancelled orders
+ */
+export function estimatePortalReadyDate(order: PortalReadyDateSource): { date: string; isEstimate: boolean } | null {
+  if (order.orderStatus === 'CANCELLED') {
+    return null;
+  }
+
+  if (order.readyToShipAt) {
+    return { date: new Date(order.readyToShipAt).toISOString(), isEstimate: false };
+  }
+
+  if (order.dueDate) {
+    return { date: new Date(order.dueDate).toISOString(), isEstimate: true };
+  }
+
+  const start = new Date(order.approvedAt || order.createdAt);
+  return { date: addBusinessDays(start, PORTAL_STANDARD_LEAD_TIME_DAYS).toISOString(), isEstimate: true };
+}
+
+/**
+ * Public carrier tracking page for a tracking number, when the carrier is known
+ * Manually entered tracking numbers have no carrier, so UPS numbers are recognised by their 1Z prefix.
+ */
+export function getPortalTrackingUrl(trackingNumber: string, carrier?: string | null): string | null {
+  const code = carrier || (/^1Z[0-9A-Z]{16}$/i.test(trackingNumber) ? 'UPS' : null);
+
+  switch (code) {
+    case 'UPS':
+      return `https://www.ups.com/track?tracknum=${encodeURIComponent(trackingNumber)}`;
+    case 'FEDEX':
+      return `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(trackingNumber)}`;
+    default:
+      return null;
+  }
+}
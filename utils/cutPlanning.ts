@@ -0,0 +1,173 @@
+// Cut planning - groups the covers waiting for the cutting table by vinyl color and fabric, so a roll is
+// loaded once for a run of covers instead of once per cover.
+// Batches never hold an urgent cover back for a later one: covers due far apart go into separate batches
+// of the same vinyl, and batches are suggested in due date order (priority and age break ties, as on the
+// warehouse priority list). Yardage is an estimate from the cover's top panel and skirt.
+
+import { getCoverMeasurements, type BomCoverAttributes } from './materials';
+import { getCoverFootprint } from './shippingPackages';
+
+// Items still waiting for, or on, the cutting table
+export const CUT_PLAN_STATUSES = ['NOT_STARTED_PRODUCTION', 'CUTTING'] as const;
+
+export const VINYL_ROLL_WIDTH_IN = 60;
+// Added to each edge of a panel for seams and hems
+export const VINYL_SEAM_ALLOWANCE_IN = 2;
+export const VINYL_WASTE_PERCENT = 10;
+
+// A batch is cut from one roll, and only covers due within this many days of its most urgent cover join it
+export const CUT_BATCH_MAX_YARDS = 50;
+export const CUT_BATCH_DUE_WINDOW_DAYS = 5;
+
+const PRIORITY_RANK: Record<string, number> = {
+  HIGH: 0,
+  MEDIUM: 1,
+  LOW: 2,
+  NO_PRIORITY: 3
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CutPlanItem {
+  orderItemId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  productNumber: number | null;
+  description: string;
+  itemStatus: string;
+  color: string | null;
+  fabric: string | null; // NULL for standard vinyl
+  quantity: number;
+  yards: number;
+  priority: string;
+  dueDate: Date | null;
+  createdAt: Date;
+}
+
+export type CutOrderFields = Pick<CutPlanItem, 'dueDate' | 'priority' | 'createdAt'>;
+
+export interface CutBatch {
+  key: string;
+  color: string;
+  fabric: string | null;
+  items: CutPlanItem[];
+  coverCount: number;
+  totalYards: number;
+  earliestDueDate: Date | null;
+  hasHighPriority: boolean;
+}
+
+export interface CutBatchOptions {
+  maxYards?: number;
+  dueWindowDays?: number;
+}
+
+/**
+ * Estimate the yards of vinyl one cover takes off the roll
+ * The top panel is cut as its bounding rectangle; the skirt is a strip the length of the perimeter.
+ */
+export function estimateVinylYards(attributes: BomCoverAttributes): number {
+  const text = (value: unknown) => (value === null || value === undefined || String(value).trim() === '' ? null : String(value));
+  const { lengthIn, widthIn } = getCoverFootprint({
+    size: text(attributes.size),
+    shape: text(attributes.shape),
+    length: text(attributes.length),
+    width: text(attributes.width)
+  });
+  const { perimeterFt } = getCoverMeasurements(attributes);
+  const hasSkirt = (text(attributes.skirtType) || '').toUpperCase() !== 'NONE';
+  const skirtIn = hasSkirt ? parseFloat(text(attributes.skirtLength)?.match(/\d+(\.\d+)?/)?.[0] || '0') : 0;
+
+  const panelSqIn = (lengthIn + VINYL_SEAM_ALLOWANCE_IN * 2) * (widthIn + VINYL_SEAM_ALLOWANCE_IN * 2);
+  const skirtSqIn = skirtIn > 0 ? perimeterFt * 12 * (skirtIn + VINYL_SEAM_ALLOWANCE_IN * 2) : 0;
+
+  const yards = ((panelSqIn + skirtSqIn) * (1 + VINYL_WASTE_PERCENT / 100)) / (VINYL_ROLL_WIDTH_IN * 36);
+  return Math.round(yards * 10) / 10;
+}
+
+/**
+ * Normalize a fabric upgrade - "No" and blank mean standard vinyl
+ */
+export function getCutFabric(fabricUpgrade: unknown): string | null {
+  const value = fabricUpgrade === null || fabricUpgrade === undefined ? '' : String(fabricUpgrade).trim();
+  return value === '' || value.toLowerCase() === 'no' ? null : value;
+}
+
+/**
+ * Group the covers waiting to be cut into suggested batches of the same color and fabric
+ * @param items - Unclaimed items waiting for cutting
+ * @returns Batches in the order they should be cut
+ */
+export function buildCutBatches(items: CutPlanItem[], options: CutBatchOptions = {}): CutBatch[] {
+  const maxYards = options.maxYards ?? CUT_BATCH_MAX_YARDS;
+  const dueWindowMs = (options.dueWindowDays ?? CUT_BATCH_DUE_WINDOW_DAYS) * DAY_MS;
+
+  const groups = new Map<string, CutPlanItem[]>();
+  for (const item of [...items].sort(compareCutItems)) {
+    const key = getCutGroupKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  const batches: CutBatch[] = [];
+  for (const [key, groupItems] of groups) {
+    let current: CutPlanItem[] = [];
+
+    const close = () => {
+      if (current.length > 0) {
+        batches.push(summarizeBatch(`${key}#${batches.length + 1}`, current));
+        current = [];
+      }
+    };
+
+    for (const item of groupItems) {
+      const first = current[0];
+      const yards = current.reduce((sum, batchItem) => sum + batchItem.yards * batchItem.quantity, 0);
+      const tooLate = first?.dueDate && (!item.dueDate || item.dueDate.getTime() - first.dueDate.getTime() > dueWindowMs);
+      const tooLong = current.length > 0 && yards + item.yards * item.quantity > maxYards;
+      if (tooLate || tooLong) {
+        close();
+      }
+      current.push(item);
+    }
+    close();
+  }
+
+  return batches.sort((a, b) => compareCutItems(a.items[0], b.items[0]));
+}
+
+function summarizeBatch(key: string, items: CutPlanItem[]): CutBatch {
+  return {
+    key,
+    color: items[0].color || 'No color',
+    fabric: items[0].fabric,
+    items,
+    coverCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalYards: Math.round(items.reduce((sum, item) => sum + item.yards * item.quantity, 0) * 10) / 10,
+    earliestDueDate: items[0].dueDate,
+    hasHighPriority: items.some(item => item.priority === 'HIGH')
+  };
+}
+
+function getCutGroupKey(item: CutPlanItem): string {
+  return `${(item.color || '').trim().toLowerCase()}|${(item.fabric || '').toLowerCase()}`;
+}
+
+/**
+ * Sort covers into the order they reach the cutting table: due date first (no due date last), then priority, then oldest order
+ */
+export function compareCutItems(a: CutOrderFields, b: CutOrderFields): number {
+  const dueA = a.dueDate ? a.dueDate.getTime() : Number.POSITIVE_INFINITY;
+  const dueB = b.dueDate ? b.dueDate.getTime() : Number.POSITIVE_INFINITY;
+  if (dueA !== dueB) {
+    return dueA - dueB;
+  }
+
+  const rankA = PRIORITY_RANK[a.priority] ?? PRIORITY_RANK.NO_PRIORITY;
+  const rankB = PRIORITY_RANK[b.priority] ?? PRIORITY_RANK.NO_PRIORITY;
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
@@ -0,0 +1,572 @@
+// Product description grammar - the one parser for spa cover descriptions, whether typed in QuickBooks or written by the app
+// Two dialects are read:
+//   LINE     "Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side-6, FoamU: 5-2.5, DPW: No, ..."
+//            Comma separated segments - the color, the size (or LengthxWidth) and the shape, then KEY: value fields.
+//   CATALOG  The product catalog's seven lines - size, shape, pieces, foam, skirt, tie downs, color.
+// Every field gets a confidence from 0 to 1 so descriptions that needed guessing can be picked out for review.
+// formatCoverDescription writes attributes back as a canonical LINE description that parses to the same attributes.
+// Bump DESCRIPTION_GRAMMAR_VERSION whenever a description would parse differently, then preview the effect on stored
+// attributes with scripts/reparse-product-attributes.ts.
+
+import { TIE_DOWN_PLACEMENT_LABELS } from './coverDrawing';
+
+export const DESCRIPTION_GRAMMAR_VERSION = 2;
+
+export type DescriptionFormat = 'LINE' | 'CATALOG';
+
+export interface ParsedProductAttributes {
+  productType: string;
+  color: string;
+  size: string;
+  shape: string;
+  radiusSize: string;
+  length: string;
+  width: string;
+  skirtLength: string;
+  skirtType: string;
+  tieDownsQty: string;
+  tieDownPlacement: string;
+  distance: string;
+  foamUpgrade: string;
+  doublePlasticWrapUpgrade: string;
+  webbingUpgrade: string;
+  metalForLifterUpgrade: string;
+  steamStopperUpgrade: string;
+  fabricUpgrade: string;
+  extraHandleQty: string;
+  extraLongSkirt: string;
+  packaging: boolean;
+  notes: string;
+}
+
+// Attributes a description sets - the product type and notes never come from it
+export type ParsedAttributeField = Exclude<keyof ParsedProductAttributes, 'productType' | 'notes'>;
+
+export interface CatalogProductSpecs {
+  size: string;
+  shape: string;
+  pieces: number;
+  foamThickness: string;
+  skit: string;
+  tiedown: string;
+  color: string;
+}
+
+export interface DescriptionParse {
+  version: number;
+  format: DescriptionFormat;
+  attributes: ParsedProductAttributes;
+  confidence: Record<ParsedAttributeField, number>;
+  overallConfidence: number; // The lowest field confidence
+  errors: string[];
+  catalog: CatalogProductSpecs | null; // The catalog specs, for a complete CATALOG description
+}
+
+export const FIELD_CONFIDENCE = {
+  EXACT: 1,        // Written in the canonical form, or left out where leaving it out has a meaning
+  ASSUMED: 0.9,    // Worked out from a shop rule, e.g. a skirt over 6" is extra long
+  NORMALIZED: 0.8, // Written in a variant that maps to one value, e.g. "Connected" or "Y"
+  INFERRED: 0.5,   // A guess, e.g. "EH: Yes" taken as 2 handles or a size picked out of unsegmented text
+  DEFAULTED: 0.3,  // Missing, so the usual value was used
+  UNREADABLE: 0
+} as const;
+
+// Parses with a field below this, or with errors, need a person to check them
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Foam upgrades the shop builds; blank is the standard 4"-2" taper
+export const COVER_FOAM_TAPERS = ['2#', '5-2.5', '6-4', '4-5-4', '54"'];
+
+const COVER_SHAPES = ['Square', 'Rectangle', 'Round', 'Oval', 'Octagon', 'Custom'];
+const SHAPE_ALIASES: Record<string, string> = { rectangular: 'Rectangle', circle: 'Round', octagonal: 'Octagon' };
+
+// How each skirt type is written in a LINE description, and the variants that are read as it
+const SKIRT_TYPE_WORDS: Record<string, string> = { CONN: 'Conn', SLIT: 'Slit', NONE: 'None' };
+const SKIRT_TYPE_ALIASES: Record<string, string> = { CONNECTED: 'CONN', SLITTED: 'SLIT', NO: 'NONE' };
+
+const REQUIRED_FIELDS: Array<{ field: ParsedAttributeField; error: string }> = [
+  { field: 'color', error: 'No color found' },
+  { field: 'size', error: 'No size found' },
+  { field: 'shape', error: 'No shape found' },
+  { field: 'skirtLength', error: 'No skirt found (expected e.g. "Skirt: 5-Conn")' },
+  { field: 'tieDownsQty', error: 'No tie downs found (expected e.g. "TD: 4-Handle Side")' }
+];
+
+const CATALOG_LINE_COUNT = 7;
+
+interface ParseState {
+  attributes: ParsedProductAttributes;
+  confidence: Record<ParsedAttributeField, number>;
+  errors: string[];
+}
+
+type FieldParser = (value: string, state: ParseState, key: string) => void;
+
+const LINE_FIELDS: Record<string, FieldParser> = {
+  r: parseRadius,
+  skirt: parseSkirt,
+  td: parseTieDowns,
+  foamu: (value, state) => parseFoam(value, state),
+  dpw: yesNoField('doublePlasticWrapUpgrade'),
+  webu: yesNoField('webbingUpgrade'),
+  mfl: yesNoField('metalForLifterUpgrade'),
+  steams: yesNoField('steamStopperUpgrade'),
+  fabricu: yesNoField('fabricUpgrade'),
+  eh: parseExtraHandles,
+  els: yesNoField('extraLongSkirt'),
+  pack: parsePackaging
+};
+
+/**
+ * Parse a description into cover attributes
+ * Never throws - fields that cannot be read keep their default value with a confidence of 0 and an error.
+ */
+export function parseCoverDescription(description: string | null | undefined): DescriptionParse {
+  const state = createParseState();
+  const text = (description || '').trim();
+
+  if (!text) {
+    state.errors.push('No description provided');
+    return toParse(state, 'LINE', null);
+  }
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const isCatalog = lines.length >= CATALOG_LINE_COUNT && !lines.some(line => /^[A-Za-z]+\s*:/.test(line));
+
+  if (isCatalog) {
+    const catalog = parseCatalogLines(lines, state);
+    finishParse(state);
+    return toParse(state, 'CATALOG', catalog);
+  }
+
+  parseLineSegments(text.split(/[,\n]/).map(segment => segment.trim()).filter(Boolean), state);
+  finishParse(state);
+  return toParse(state, 'LINE', null);
+}
+
+/**
+ * Write attributes as a canonical LINE description, e.g.
+ * "Dark Gray, 87, Square, R: 8, Skirt: 5-Conn, TD: 4-Handle Side, DPW: No, WebU: No, MFL: No, SteamS: No, FabricU: No, EH: 0, ELS: No, Pack: No"
+ * Every upgrade is written, so the description parses back to the same attributes with full confidence.
+ */
+export function formatCoverDescription(attributes: Partial<ParsedProductAttributes>): string {
+  const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+  const yesNo = (value: unknown) => (text(value).toLowerCase() === 'yes' ? 'Yes' : 'No');
+
+  const length = text(attributes.length);
+  const width = text(attributes.width);
+  const parts = [
+    text(attributes.color),
+    length && width ? `${length}x${width}` : text(attributes.size),
+    text(attributes.shape)
+  ];
+
+  const radius = text(attributes.radiusSize);
+  if (radius && radius !== '0') {
+    parts.push(`R: ${radius}`);
+  }
+
+  const skirtType = text(attributes.skirtType).toUpperCase() || 'CONN';
+  parts.push(`Skirt: ${skirtType === 'NONE' ? '0' : text(attributes.skirtLength) || '0'}-${SKIRT_TYPE_WORDS[skirtType] || skirtType}`);
+
+  const tieDowns = text(attributes.tieDownsQty) || '0';
+  const placement = tieDowns === '0' ? 'NONE' : text(attributes.tieDownPlacement) || 'HANDLE_SIDE';
+  const distance = text(attributes.distance);
+  parts.push(`TD: ${tieDowns}-${TIE_DOWN_PLACEMENT_LABELS[placement] || placement}${distance && distance !== '0' && placement !== 'NONE' ? `-${distance}` : ''}`);
+
+  if (text(attributes.foamUpgrade)) {
+    parts.push(`FoamU: ${text(attributes.foamUpgrade)}`);
+  }
+
+  parts.push(
+    `DPW: ${yesNo(attributes.doublePlasticWrapUpgrade)}`,
+    `WebU: ${yesNo(attributes.webbingUpgrade)}`,
+    `MFL: ${yesNo(attributes.metalForLifterUpgrade)}`,
+    `SteamS: ${yesNo(attributes.steamStopperUpgrade)}`,
+    `FabricU: ${yesNo(attributes.fabricUpgrade)}`,
+    `EH: ${text(attributes.extraHandleQty) || '0'}`
+  );
+  if (text(attributes.extraLongSkirt)) {
+    parts.push(`ELS: ${yesNo(attributes.extraLongSkirt)}`);
+  }
+  parts.push(`Pack: ${attributes.packaging === true || yesNo(attributes.packaging) === 'Yes' ? 'Yes' : 'No'}`);
+
+  return parts.join(', ');
+}
+
+/**
+ * Write catalog specs as the catalog's seven-line description
+ */
+export function formatCatalogDescription(specs: CatalogProductSpecs): string {
+  return [specs.size, specs.shape, String(specs.pieces), specs.foamThickness, specs.skit, specs.tiedown, specs.color].join('\n');
+}
+
+/**
+ * Fields read with less than the review threshold's confidence
+ */
+export function getLowConfidenceFields(parse: DescriptionParse): ParsedAttributeField[] {
+  return (Object.keys(parse.confidence) as ParsedAttributeField[]).filter(field => parse.confidence[field] < LOW_CONFIDENCE_THRESHOLD);
+}
+
+/**
+ * Whether a parse needs a person to check it before production
+ */
+export function isLowConfidenceParse(parse: DescriptionParse): boolean {
+  return parse.errors.length > 0 || parse.overallConfidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+function createParseState(): ParseState {
+  const attributes: ParsedProductAttributes = {
+    productType: 'SPA_COVER',
+    color: '',
+    size: '',
+    shape: '',
+    radiusSize: '',
+    length: '',
+    width: '',
+    skirtLength: '',
+    skirtType: 'CONN',
+    tieDownsQty: '',
+    tieDownPlacement: 'HANDLE_SIDE',
+    distance: '0',
+    foamUpgrade: '',
+    doublePlasticWrapUpgrade: 'No',
+    webbingUpgrade: 'No',
+    metalForLifterUpgrade: 'No',
+    steamStopperUpgrade: 'No',
+    fabricUpgrade: 'No',
+    extraHandleQty: '0',
+    extraLongSkirt: '',
+    packaging: false,
+    notes: ''
+  };
+
+  // Optional fields that are left out mean "none"; required fields start unread
+  const confidence = {} as Record<ParsedAttributeField, number>;
+  for (const field of Object.keys(attributes) as Array<keyof ParsedProductAttributes>) {
+    if (field !== 'productType' && field !== 'notes') {
+      confidence[field] = FIELD_CONFIDENCE.EXACT;
+    }
+  }
+  for (const { field } of REQUIRED_FIELDS) {
+    confidence[field] = FIELD_CONFIDENCE.UNREADABLE;
+  }
+  confidence.skirtType = FIELD_CONFIDENCE.DEFAULTED;
+  confidence.tieDownPlacement = FIELD_CONFIDENCE.DEFAULTED;
+
+  return { attributes, confidence, errors: [] };
+}
+
+function setField<K extends ParsedAttributeField>(state: ParseState, field: K, value: ParsedProductAttributes[K], confidence: number): void {
+  state.attributes[field] = value;
+  state.confidence[field] = confidence;
+}
+
+function toParse(state: ParseState, format: DescriptionFormat, catalog: CatalogProductSpecs | null): DescriptionParse {
+  return {
+    version: DESCRIPTION_GRAMMAR_VERSION,
+    format,
+    attributes: state.attributes,
+    confidence: state.confidence,
+    overallConfidence: Math.min(...Object.values(state.confidence)),
+    errors: state.errors,
+    catalog
+  };
+}
+
+function finishParse(state: ParseState): void {
+  // Skirts longer than 6" are extra long unless the description says otherwise
+  if (!state.attributes.extraLongSkirt && Number(state.attributes.skirtLength) > 6) {
+    setField(state, 'extraLongSkirt', 'Yes', FIELD_CONFIDENCE.ASSUMED);
+  }
+
+  for (const { field, error } of REQUIRED_FIELDS) {
+    if (!state.attributes[field]) {
+      state.errors.push(error);
+    }
+  }
+}
+
+function parseLineSegments(segments: string[], state: ParseState): void {
+  const colorParts: string[] = [];
+  const unrecognized: string[] = [];
+  let hasSize = false;
+
+  for (const segment of segments) {
+    const keyed = segment.match(/^([A-Za-z]+)\s*:\s*(.*)$/);
+    if (keyed) {
+      const parser = LINE_FIELDS[keyed[1].toLowerCase()];
+      if (parser) {
+        parser(keyed[2].trim(), state, keyed[1]);
+      } else {
+        state.errors.push(`Unknown field "${keyed[1]}"`);
+      }
+      continue;
+    }
+
+    const dimensions = segment.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/i);
+    if (dimensions && !hasSize) {
+      setField(state, 'size', dimensions[1], FIELD_CONFIDENCE.EXACT);
+      setField(state, 'length', dimensions[1], FIELD_CONFIDENCE.EXACT);
+      setField(state, 'width', dimensions[2], FIELD_CONFIDENCE.EXACT);
+      hasSize = true;
+      continue;
+    }
+    if (/^\d+(\.\d+)?$/.test(segment) && !hasSize) {
+      setField(state, 'size', segment, FIELD_CONFIDENCE.EXACT);
+      hasSize = true;
+      continue;
+    }
+
+    const shape = matchShape(segment);
+    if (shape && !state.attributes.shape) {
+      setField(state, 'shape', shape.shape, shape.confidence);
+      continue;
+    }
+
+    // The color comes before the size and cannot contain digits
+    if (!hasSize && !/\d/.test(segment)) {
+      colorParts.push(segment);
+      continue;
+    }
+
+    unrecognized.push(segment);
+  }
+
+  if (colorParts.length > 0) {
+    setField(state, 'color', colorParts.join(', '), colorParts.length === 1 ? FIELD_CONFIDENCE.EXACT : FIELD_CONFIDENCE.INFERRED);
+  }
+
+  // Descriptions typed without commas - pick the size and shape out of the text
+  for (const segment of unrecognized) {
+    const number = segment.match(/\b(\d+(?:\.\d+)?)\b/);
+    if (!state.attributes.size && number) {
+      setField(state, 'size', number[1], FIELD_CONFIDENCE.INFERRED);
+    }
+    const shapeWord = segment.match(new RegExp(`\\b(${[...COVER_SHAPES, ...Object.keys(SHAPE_ALIASES)].join('|')})\\b`, 'i'));
+    if (!state.attributes.shape && shapeWord) {
+      setField(state, 'shape', matchShape(shapeWord[1])?.shape || shapeWord[1], FIELD_CONFIDENCE.INFERRED);
+    }
+    state.errors.push(`Unrecognized text "${segment}"`);
+  }
+}
+
+function parseCatalogLines(lines: string[], state: ParseState): CatalogProductSpecs | null {
+  const [sizeLine, shapeLine, piecesLine, foamLine, skirtLine, tieDownLine, colorLine] = lines;
+
+  const size = sizeLine.match(/^(\d+(?:\.\d+)?)(?:\s*x\s*(\d+(?:\.\d+)?))?$/i);
+  if (size) {
+    setField(state, 'size', size[1], FIELD_CONFIDENCE.EXACT);
+    if (size[2] && size[2] !== size[1]) {
+      setField(state, 'length', size[1], FIELD_CONFIDENCE.EXACT);
+      setField(state, 'width', size[2], FIELD_CONFIDENCE.EXACT);
+    }
+  } else {
+    state.errors.push(`Size "${sizeLine}" is not in the form 93X93`);
+  }
+
+  const shape = matchShape(shapeLine);
+  setField(state, 'shape', shape?.shape || shapeLine, shape?.confidence ?? FIELD_CONFIDENCE.INFERRED);
+
+  const pieces = parseInt(piecesLine, 10);
+  if (!/^\d+$/.test(piecesLine) || pieces <= 0) {
+    state.errors.push(`Pieces "${piecesLine}" is not a number`);
+  }
+
+  // e.g. 5-2.5 STEAM STOPPER or 5"-2.5" STEAM STOPPER
+  const hasSteamStopper = /steam\s*stopper/i.test(foamLine);
+  setField(state, 'steamStopperUpgrade', hasSteamStopper ? 'Yes' : 'No', FIELD_CONFIDENCE.EXACT);
+  const foam = foamLine.replace(/steam\s*stopper/i, '').replace(/(\d)"/g, '$1').trim();
+  if (foam && !/^(4-2|standard)$/i.test(foam)) {
+    parseFoam(foam, state);
+  }
+
+  // e.g. 5-CONN, 5-FL-SLIT, 5 Connected, Flap, NONE
+  const skirtText = skirtLine.toUpperCase();
+  const skirtLength = skirtLine.match(/^(\d+(?:\.\d+)?)/);
+  if (skirtText === 'NONE') {
+    setField(state, 'skirtLength', '0', FIELD_CONFIDENCE.EXACT);
+    setField(state, 'skirtType', 'NONE', FIELD_CONFIDENCE.EXACT);
+  } else {
+    const isCanonical = /^\d+(\.\d+)?-(CONN|SLIT)$/.test(skirtText);
+    if (skirtLength) {
+      setField(state, 'skirtLength', skirtLength[1], FIELD_CONFIDENCE.EXACT);
+    }
+    if (/SLIT/.test(skirtText)) {
+      setField(state, 'skirtType', 'SLIT', isCanonical ? FIELD_CONFIDENCE.EXACT : FIELD_CONFIDENCE.NORMALIZED);
+    } else if (/CONN/.test(skirtText)) {
+      setField(state, 'skirtType', 'CONN', isCanonical ? FIELD_CONFIDENCE.EXACT : FIELD_CONFIDENCE.NORMALIZED);
+    }
+  }
+
+  // e.g. 6-TD, 4-TD CORNER SIDE, 4 Corner, 4-H, NONE
+  const tieDownText = tieDownLine.toUpperCase();
+  const tieDownQty = tieDownLine.match(/^(\d+)/);
+  if (tieDownText === 'NONE') {
+    setField(state, 'tieDownsQty', '0', FIELD_CONFIDENCE.EXACT);
+    setField(state, 'tieDownPlacement', 'NONE', FIELD_CONFIDENCE.EXACT);
+  } else if (tieDownQty) {
+    setField(state, 'tieDownsQty', tieDownQty[1], FIELD_CONFIDENCE.EXACT);
+    const placement = matchTieDownPlacement(tieDownText.replace(/^\d+\s*-?\s*(TD\b)?/, ''));
+    if (placement) {
+      setField(state, 'tieDownPlacement', placement.placement, placement.confidence);
+    }
+  }
+
+  setField(state, 'color', colorLine, FIELD_CONFIDENCE.EXACT);
+
+  for (const extra of lines.slice(CATALOG_LINE_COUNT)) {
+    state.errors.push(`Unrecognized text "${extra}"`);
+  }
+
+  // A line that needs checking still makes a product, as long as the piece count is there
+  if (!(pieces > 0)) {
+    return null;
+  }
+  return {
+    size: sizeLine,
+    shape: shapeLine,
+    pieces,
+    foamThickness: foamLine,
+    skit: skirtLine,
+    tiedown: tieDownLine,
+    color: colorLine
+  };
+}
+
+function parseRadius(value: string, state: ParseState): void {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    setField(state, 'radiusSize', value, FIELD_CONFIDENCE.EXACT);
+  } else {
+    setField(state, 'radiusSize', '', FIELD_CONFIDENCE.UNREADABLE);
+    state.errors.push(`Radius "${value}" is not a number`);
+  }
+}
+
+// Skirt: [Length]-[Type], e.g. 5-Conn
+function parseSkirt(value: string, state: ParseState): void {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*-\s*([A-Za-z]+)$/);
+  if (!match) {
+    state.errors.push(`Skirt "${value}" is not in the form 5-Conn`);
+    return;
+  }
+
+  setField(state, 'skirtLength', match[1], FIELD_CONFIDENCE.EXACT);
+  const word = match[2].toUpperCase();
+  if (SKIRT_TYPE_WORDS[word]) {
+    setField(state, 'skirtType', word, FIELD_CONFIDENCE.EXACT);
+  } else if (SKIRT_TYPE_ALIASES[word]) {
+    setField(state, 'skirtType', SKIRT_TYPE_ALIASES[word], FIELD_CONFIDENCE.NORMALIZED);
+  } else {
+    state.errors.push(`Unknown skirt type "${match[2]}"`);
+  }
+}
+
+// TD: [Quantity]-[Placement]-[Distance], e.g. 4-Handle Side or 6-Corner Side-12; the distance is optional
+function parseTieDowns(value: string, state: ParseState): void {
+  const match = value.match(/^(\d+)(?:\s*-\s*([A-Za-z ]+?))?(?:\s*-\s*(\d+(?:\.\d+)?))?$/);
+  if (!match) {
+    state.errors.push(`Tie downs "${value}" are not in the form 4-Handle Side`);
+    return;
+  }
+
+  setField(state, 'tieDownsQty', match[1], FIELD_CONFIDENCE.EXACT);
+  if (match[2]) {
+    const placement = matchTieDownPlacement(match[2].toUpperCase());
+    if (placement) {
+      setField(state, 'tieDownPlacement', placement.placement, placement.confidence);
+    } else {
+      state.errors.push(`Unknown tie down placement "${match[2].trim()}"`);
+    }
+  }
+  if (match[3]) {
+    setField(state, 'distance', match[3], FIELD_CONFIDENCE.EXACT);
+  }
+}
+
+function parseFoam(value: string, state: ParseState): void {
+  if (/^(no|none)$/i.test(value)) {
+    setField(state, 'foamUpgrade', '', FIELD_CONFIDENCE.EXACT);
+    return;
+  }
+  // Foam the shop does not list is kept, but checked
+  setField(state, 'foamUpgrade', value, COVER_FOAM_TAPERS.includes(value) ? FIELD_CONFIDENCE.EXACT : FIELD_CONFIDENCE.INFERRED);
+}
+
+// EH: [Quantity] - a bare Yes is the usual pair of extra handles
+function parseExtraHandles(value: string, state: ParseState, key: string): void {
+  if (/^\d+$/.test(value)) {
+    setField(state, 'extraHandleQty', String(parseInt(value, 10)), FIELD_CONFIDENCE.EXACT);
+    return;
+  }
+  const yesNo = readYesNo(value);
+  if (yesNo) {
+    setField(state, 'extraHandleQty', yesNo.value === 'Yes' ? '2' : '0', yesNo.value === 'Yes' ? FIELD_CONFIDENCE.INFERRED : yesNo.confidence);
+  } else {
+    setField(state, 'extraHandleQty', '0', FIELD_CONFIDENCE.UNREADABLE);
+    state.errors.push(`${key} "${value}" is not a number`);
+  }
+}
+
+function parsePackaging(value: string, state: ParseState, key: string): void {
+  const yesNo = readYesNo(value);
+  if (yesNo) {
+    setField(state, 'packaging', yesNo.value === 'Yes', yesNo.confidence);
+  } else {
+    setField(state, 'packaging', false, FIELD_CONFIDENCE.UNREADABLE);
+    state.errors.push(`${key} "${value}" is not Yes or No`);
+  }
+}
+
+function yesNoField(field: 'doublePlasticWrapUpgrade' | 'webbingUpgrade' | 'metalForLifterUpgrade' | 'steamStopperUpgrade' | 'fabricUpgrade' | 'extraLongSkirt'): FieldParser {
+  return (value, state, key) => {
+    const yesNo = readYesNo(value);
+    if (yesNo) {
+      setField(state, field, yesNo.value, yesNo.confidence);
+    } else {
+      setField(state, field, field === 'extraLongSkirt' ? '' : 'No', FIELD_CONFIDENCE.UNREADABLE);
+      state.errors.push(`${key} "${value}" is not Yes or No`);
+    }
+  };
+}
+
+function readYesNo(value: string): { value: 'Yes' | 'No'; confidence: number } | null {
+  const lower = value.toLowerCase();
+  if (lower === 'yes' || lower === 'no') {
+    return { value: lower === 'yes' ? 'Yes' : 'No', confidence: FIELD_CONFIDENCE.EXACT };
+  }
+  if (['y', 'true', '1'].includes(lower)) {
+    return { value: 'Yes', confidence: FIELD_CONFIDENCE.NORMALIZED };
+  }
+  if (['n', 'false', '0'].includes(lower)) {
+    return { value: 'No', confidence: FIELD_CONFIDENCE.NORMALIZED };
+  }
+  return null;
+}
+
+function matchShape(text: string): { shape: string; confidence: number } | null {
+  const lower = text.trim().toLowerCase();
+  const shape = COVER_SHAPES.find(option => option.toLowerCase() === lower);
+  if (shape) {
+    return { shape, confidence: FIELD_CONFIDENCE.EXACT };
+  }
+  return SHAPE_ALIASES[lower] ? { shape: SHAPE_ALIASES[lower], confidence: FIELD_CONFIDENCE.NORMALIZED } : null;
+}
+
+// Placements are written as words (Handle Side) or, in the catalog, shortened (4-H, 4 Corner)
+function matchTieDownPlacement(text: string): { placement: string; confidence: number } | null {
+  const words = text.trim().replace(/\s+/g, '_');
+  if (['HANDLE_SIDE', 'CORNER_SIDE', 'FOLD_SIDE', 'NONE'].includes(words)) {
+    return { placement: words, confidence: FIELD_CONFIDENCE.EXACT };
+  }
+  if (/HANDLE/.test(words) || words === 'H') {
+    return { placement: 'HANDLE_SIDE', confidence: FIELD_CONFIDENCE.NORMALIZED };
+  }
+  if (/CORNER/.test(words) || words === 'C') {
+    return { placement: 'CORNER_SIDE', confidence: FIELD_CONFIDENCE.NORMALIZED };
+  }
+  if (/FOLD/.test(words) || words === 'F') {
+    return { placement: 'FOLD_SIDE', confidence: FIELD_CONFIDENCE.NORMALIZED };
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+// Employee badge helpers - each worker gets a Code128 badge they scan at a shared kiosk to become its active
+// operator, with a short PIN for sensitive actions such as sending an item back for rework.
+
+export const BADGE_PREFIX = 'BDG';
+export const KIOSK_PIN_MAX_ATTEMPTS = 5;
+export const KIOSK_PIN_LOCK_MINUTES = 15;
+
+// A kiosk drops its operator after this long without a scan, so the next person has to badge in
+export const KIOSK_OPERATOR_IDLE_MINUTES = 15;
+
+// No 0/O or 1/I, so a badge code read out over the phone is not mistaken
+const BADGE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const BADGE_CODE_LENGTH = 10;
+
+/**
+ * Generate a new badge code
+ * Badge codes have no dashes, so the kiosk can tell them apart from item barcodes (PREFIX-ORDER-ITEM).
+ */
+export function generateBadgeCode(): string {
+  const bytes = new Uint8Array(BADGE_CODE_LENGTH);
+  globalThis.crypto.getRandomValues(bytes);
+  return BADGE_PREFIX + Array.from(bytes, byte => BADGE_ALPHABET[byte % BADGE_ALPHABET.length]).join('');
+}
+
+/**
+ * Whether a scanned value is an employee badge rather than an item barcode
+ */
+export function isBadgeCode(value: string): boolean {
+  return new RegExp(`^${BADGE_PREFIX}[${BADGE_ALPHABET}]{${BADGE_CODE_LENGTH}}$`).test(value.trim().toUpperCase());
+}
+
+/**
+ * Kiosk PINs are 4 to 6 digits, short enough to key in with gloves on
+ */
+export function isValidKioskPin(pin: string): boolean {
+  return /^\d{4,6}$/.test(pin);
+}
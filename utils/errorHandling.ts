@@ -59,6 +59,30 @@ export const ERROR_CODES = {
     retryable: false
   },
 
+  SCAN_CONFLICT: {
+    code: 'SCAN_CONFLICT',
+    message: 'Offline scan conflicts with a later change',
+    userMessage: 'This item changed after the scan was made offline, so the scan was not applied.',
+    suggestions: ['Check the item\'s current status', 'Rescan the item if the work still needs to be recorded'],
+    retryable: false
+  },
+
+  UNVERIFIED_ATTRIBUTES: {
+    code: 'UNVERIFIED_ATTRIBUTES',
+    message: 'Item attributes need review',
+    userMessage: 'This item\'s attributes have not been verified, so production cannot start yet.',
+    suggestions: ['Ask the office to verify the item in the attribute review queue', 'Rescan the item once it is verified'],
+    retryable: false
+  },
+
+  INVALID_SCAN_TIME: {
+    code: 'INVALID_SCAN_TIME',
+    message: 'Invalid scan time',
+    userMessage: 'The time recorded for this scan cannot be used.',
+    suggestions: ['Check the kiosk clock', 'Rescan the item'],
+    retryable: false
+  },
+
   USER_HAS_ACTIVE_WORK: {
     code: 'USER_HAS_ACTIVE_WORK',
     message: 'User already has active work',
@@ -0,0 +1,256 @@
+// Job costing - what each order item actually cost to make against what it sold for
+// Labor is the active station time of every processing log times the current hourly rate of whoever did the work.
+// Material comes from the item's bill-of-materials requirements, falling back to the item's standard cost
+// (Item.cost) when it has none. Standard overhead is charged per labor hour and per produced unit from the
+// runtime config (jobCosting), and scrap from reworks is added on top.
+
+export type JobCostGroupBy = 'item' | 'order' | 'customer' | 'customerType' | 'productType' | 'shape' | 'color' | 'size' | 'month';
+
+export const JOB_COST_GROUPINGS: JobCostGroupBy[] = ['item', 'order', 'customer', 'customerType', 'productType', 'shape', 'color', 'size', 'month'];
+
+export const JOB_COST_GROUP_LABELS: Record<JobCostGroupBy, string> = {
+  item: 'Line Item',
+  order: 'Order',
+  customer: 'Customer',
+  customerType: 'Customer Type',
+  productType: 'Product Type',
+  shape: 'Shape',
+  color: 'Color',
+  size: 'Size',
+  month: 'Month'
+};
+
+const CUSTOMER_TYPE_LABELS: Record<string, string> = {
+  WHOLESALER: 'Wholesaler',
+  CA_WHOLESALE: 'CA Wholesale',
+  RETAILER: 'Retailer',
+  CA_RETAIL: 'CA Retail'
+};
+
+const PRODUCT_TYPE_LABELS: Record<string, string> = {
+  SPA_COVER: 'Spa Cover',
+  COVER_FOR_COVER: 'Cover For Cover'
+};
+
+export interface JobCostingSettings {
+  overheadPerLaborHour: number;
+  overheadPerUnit: number; // Charged per produced unit, on top of the hourly overhead
+}
+
+// Runtime config values, strings when they come from the environment
+export interface JobCostingRuntimeConfig {
+  overheadPerLaborHour?: string | number;
+  overheadPerUnit?: string | number;
+}
+
+export interface JobCostLaborEntry {
+  durationInSeconds: number;
+  hourlyRate: number | null; // NULL when the worker has no rate set
+}
+
+export interface JobCostMaterialEntry {
+  quantity: number;
+  costPerUnit: number | null;
+}
+
+export interface JobCostItemInput {
+  orderItemId: string;
+  orderId: string;
+  orderNumber: string;
+  orderDate: Date;
+  customerId: string;
+  customerName: string;
+  customerType: string | null;
+  itemName: string;
+  quantity: number;
+  pricePerItem: number;
+  isProduct: boolean;
+  standardCost: number | null; // Item.cost per unit
+  attributes: {
+    productType: string | null;
+    shape: string | null;
+    color: string | null;
+    size: string | null;
+  };
+  labor: JobCostLaborEntry[];
+  materials: JobCostMaterialEntry[];
+  scrapCost: number;
+}
+
+export interface JobCostTotals {
+  revenue: number;
+  laborHours: number;
+  unratedLaborHours: number; // Station time by workers without an hourly rate, left out of the labor cost
+  laborCost: number;
+  materialCost: number;
+  scrapCost: number;
+  overheadCost: number;
+  totalCost: number;
+  margin: number;
+  marginPercent: number | null; // NULL when there is no revenue
+}
+
+export interface JobCostItem extends JobCostTotals {
+  input: JobCostItemInput;
+  materialSource: 'bom' | 'standard' | 'none';
+}
+
+export interface JobCostGroup extends JobCostTotals {
+  key: string;
+  label: string;
+  orderCount: number;
+  itemCount: number;
+}
+
+/**
+ * Build the job costing settings from the runtime config; missing or invalid values are 0
+ */
+export function parseJobCostingSettings(config?: JobCostingRuntimeConfig | null): JobCostingSettings {
+  const amount = (value: string | number | undefined) => {
+    const parsed = Number(value ?? 0);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+  };
+
+  return {
+    overheadPerLaborHour: amount(config?.overheadPerLaborHour),
+    overheadPerUnit: amount(config?.overheadPerUnit)
+  };
+}
+
+/**
+ * Cost a single order item
+ */
+export function costJobItem(input: JobCostItemInput, settings: JobCostingSettings): JobCostItem {
+  let laborSeconds = 0;
+  let unratedSeconds = 0;
+  let laborCost = 0;
+  for (const entry of input.labor) {
+    laborSeconds += entry.durationInSeconds;
+    if (entry.hourlyRate === null) {
+      unratedSeconds += entry.durationInSeconds;
+    } else {
+      laborCost += (entry.durationInSeconds / 3600) * entry.hourlyRate;
+    }
+  }
+
+  let materialCost = 0;
+  let materialSource: JobCostItem['materialSource'] = 'none';
+  if (input.materials.length > 0) {
+    materialCost = input.materials.reduce((sum, entry) => sum + entry.quantity * (entry.costPerUnit ?? 0), 0);
+    materialSource = 'bom';
+  } else if (input.standardCost !== null) {
+    materialCost = input.standardCost * input.quantity;
+    materialSource = 'standard';
+  }
+
+  const laborHours = laborSeconds / 3600;
+  const overheadCost = laborHours * settings.overheadPerLaborHour
+    + (input.isProduct ? input.quantity * settings.overheadPerUnit : 0);
+
+  return {
+    input,
+    materialSource,
+    ...buildTotals({
+      revenue: input.pricePerItem * input.quantity,
+      laborHours,
+      unratedLaborHours: unratedSeconds / 3600,
+      laborCost,
+      materialCost,
+      scrapCost: input.scrapCost,
+      overheadCost
+    })
+  };
+}
+
+/**
+ * Roll costed items up into report rows
+ * Months are listed in order; every other grouping has the biggest revenue first.
+ */
+export function summarizeJobCosts(items: JobCostItem[], groupBy: JobCostGroupBy): JobCostGroup[] {
+  const groups = new Map<string, { label: string; items: JobCostItem[] }>();
+
+  for (const item of items) {
+    const { key, label } = getGroup(item.input, groupBy);
+    const group = groups.get(key) || { label, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  }
+
+  const rows = [...groups.entries()].map(([key, group]): JobCostGroup => ({
+    key,
+    label: group.label,
+    orderCount: new Set(group.items.map(item => item.input.orderId)).size,
+    itemCount: group.items.length,
+    ...sumJobCostTotals(group.items)
+  }));
+
+  return groupBy === 'month'
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * Add up the totals of costed items or report rows
+ */
+export function sumJobCostTotals(rows: JobCostTotals[]): JobCostTotals {
+  const sum = (field: keyof Omit<JobCostTotals, 'marginPercent' | 'totalCost' | 'margin'>) =>
+    rows.reduce((total, row) => total + row[field], 0);
+
+  return buildTotals({
+    revenue: sum('revenue'),
+    laborHours: sum('laborHours'),
+    unratedLaborHours: sum('unratedLaborHours'),
+    laborCost: sum('laborCost'),
+    materialCost: sum('materialCost'),
+    scrapCost: sum('scrapCost'),
+    overheadCost: sum('overheadCost')
+  });
+}
+
+function getGroup(input: JobCostItemInput, groupBy: JobCostGroupBy): { key: string; label: string } {
+  const attribute = (value: string | null, labels: Record<string, string> = {}) =>
+    (value ? { key: value, label: labels[value] || value } : { key: '', label: 'Not specified' });
+
+  switch (groupBy) {
+    case 'item':
+      return { key: input.orderItemId, label: `#${input.orderNumber} - ${input.itemName}` };
+    case 'order':
+      return { key: input.orderId, label: `#${input.orderNumber} (${input.customerName})` };
+    case 'customer':
+      return { key: input.customerId, label: input.customerName };
+    case 'customerType':
+      return attribute(input.customerType, CUSTOMER_TYPE_LABELS);
+    case 'productType':
+      return attribute(input.attributes.productType, PRODUCT_TYPE_LABELS);
+    case 'shape':
+    case 'color':
+    case 'size':
+      return attribute(input.attributes[groupBy]);
+    case 'month': {
+      const month = input.orderDate.toISOString().slice(0, 7);
+      return { key: month, label: month };
+    }
+  }
+}
+
+function buildTotals(values: Omit<JobCostTotals, 'totalCost' | 'margin' | 'marginPercent'>): JobCostTotals {
+  const totalCost = values.laborCost + values.materialCost + values.scrapCost + values.overheadCost;
+  const margin = values.revenue - totalCost;
+
+  return {
+    revenue: roundMoney(values.revenue),
+    laborHours: Math.round(values.laborHours * 100) / 100,
+    unratedLaborHours: Math.round(values.unratedLaborHours * 100) / 100,
+    laborCost: roundMoney(values.laborCost),
+    materialCost: roundMoney(values.materialCost),
+    scrapCost: roundMoney(values.scrapCost),
+    overheadCost: roundMoney(values.overheadCost),
+    totalCost: roundMoney(totalCost),
+    margin: roundMoney(margin),
+    marginPercent: values.revenue > 0 ? Math.round((margin / values.revenue) * 1000) / 10 : null
+  };
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
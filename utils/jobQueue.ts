@@ -0,0 +1,81 @@
+// Background job queue helpers - retry backoff, concurrency slots and recurring schedules for the
+// Postgres-backed queue in server/lib/JobQueueService.ts.
+
+export const JOB_DEFAULT_MAX_ATTEMPTS = 5;
+
+// Retry backoff: 30s, 1m, 2m, 4m... capped at 1h
+export const JOB_BASE_RETRY_MS = 30 * 1000;
+export const JOB_MAX_RETRY_MS = 60 * 60 * 1000;
+
+// A RUNNING job older than this was orphaned by a crash or restart
+export const JOB_DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const JOB_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'DEAD', 'CANCELLED'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface JobFailureOutcome {
+  status: 'PENDING' | 'DEAD';
+  runAt: Date | null;
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have already been made
+ */
+export function getJobRetryDelayMs(attempts: number, baseMs: number = JOB_BASE_RETRY_MS): number {
+  const delay = baseMs * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, JOB_MAX_RETRY_MS);
+}
+
+/**
+ * Decide what happens to a job after a failed attempt
+ * Jobs with attempts left go back to PENDING with a backoff; the rest are dead-lettered.
+ */
+export function resolveJobFailure(
+  attempts: number,
+  maxAttempts: number,
+  now: Date = new Date(),
+  baseMs: number = JOB_BASE_RETRY_MS
+): JobFailureOutcome {
+  if (attempts >= maxAttempts) {
+    return { status: 'DEAD', runAt: null };
+  }
+
+  return { status: 'PENDING', runAt: new Date(now.getTime() + getJobRetryDelayMs(attempts, baseMs)) };
+}
+
+/**
+ * Work out how many jobs of each type this worker may claim
+ * Each job type is limited by its own concurrency (counted across all workers), and the worker
+ * by its free slots. Types are served in the order given.
+ *
+ * @param limits - Concurrency per job name
+ * @param running - Jobs currently RUNNING per job name
+ * @param workerSlots - Free slots on this worker
+ */
+export function getJobClaimLimits(
+  limits: Record<string, number>,
+  running: Record<string, number>,
+  workerSlots: number
+): Record<string, number> {
+  const claims: Record<string, number> = {};
+  let remaining = Math.max(0, workerSlots);
+
+  for (const [name, concurrency] of Object.entries(limits)) {
+    const available = Math.max(0, concurrency - (running[name] || 0));
+    const claim = Math.min(available, remaining);
+    if (claim > 0) {
+      claims[name] = claim;
+      remaining -= claim;
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Unique key that keeps a single queued run of a recurring job
+ */
+export function getRecurringJobKey(name: string): string {
+  return `recurring:${name}`;
+}
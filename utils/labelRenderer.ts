@@ -0,0 +1,338 @@
+/**
+ * Server-side Label Rendering
+ *
+ * Renders the split production label (3x3 inch top part over a 3x2 inch bottom part) as ZPL for
+ * thermal printers or as PDF, so labels can go straight to a network printer instead of through
+ * the browser print dialog. Label text is trimmed with the same rules as the on-screen SplitLabel.
+ */
+
+import { BarcodeGenerator } from './barcodeGenerator';
+import { optimizeLabelInfo } from './labelOptimizer';
+import { getUnitLabelEntries, type UnitLabelEntry } from './orderItemUnits';
+
+export const LABEL_WIDTH_IN = 3;
+export const LABEL_TOP_HEIGHT_IN = 3;
+export const LABEL_BOTTOM_HEIGHT_IN = 2;
+
+export interface LabelSpec {
+  label: string;
+  value: string;
+}
+
+export interface LabelContent {
+  customer: string;
+  orderNumber: string;
+  date: string;
+  barcode: string;
+  unitLabel: string | null;   // e.g. "Unit 2 of 3" for multi-quantity order items
+  specs: LabelSpec[];         // Full spec grid on the top part
+  compactSpecs: LabelSpec[];  // Shorter list for the bottom part
+  upgrades: LabelSpec[];
+}
+
+// Upgrade attributes shown on the label, in the order SplitLabel shows them
+const LABEL_UPGRADE_FIELDS: Array<{ field: string; label: string }> = [
+  { field: 'doublePlasticWrapUpgrade', label: 'Double Wrap' },
+  { field: 'webbingUpgrade', label: 'Webbing' },
+  { field: 'metalForLifterUpgrade', label: 'Metal Lifter' },
+  { field: 'steamStopperUpgrade', label: 'Steam Stop' },
+  { field: 'fabricUpgrade', label: 'Fabric' },
+  { field: 'extraLongSkirt', label: 'Extra Long Skirt' }
+];
+
+const PRODUCT_TYPE_LABELS: Record<string, string> = {
+  SPA_COVER: 'Spa Cover',
+  COVER_FOR_COVER: 'Cover for Cover',
+  POOL_COVER: 'Pool Cover',
+  HOT_TUB_COVER: 'Hot Tub Cover'
+};
+
+/**
+ * Build the labels for an order item - one per unit when the order item is tracked by unit
+ */
+export function buildOrderItemLabels(orderItem: any, order: any): LabelContent[] {
+  const entries = getUnitLabelEntries(orderItem || {});
+  return entries[0].unitNumber === null
+    ? [buildLabelContent(orderItem, order)]
+    : entries.map(entry => buildLabelContent(orderItem, order, entry));
+}
+
+/**
+ * Build the label text for an order item from the order item, its product attributes and its order
+ * @param unit - The unit the label is for, when the order item is tracked by unit
+ */
+export function buildLabelContent(orderItem: any, order: any, unit?: UnitLabelEntry): LabelContent {
+  const attributes = orderItem?.productAttributes || {};
+  const orderNumber = order?.salesOrderNumber || order?.id?.slice(-8) || 'N/A';
+  const attribute = (name: string) => formatAttribute(attributes[name]);
+
+  const info = optimizeLabelInfo({
+    customerName: order?.customer?.name || '',
+    type: PRODUCT_TYPE_LABELS[attributes.productType] || attributes.productType || 'Standard',
+    color: attributes.color || 'Standard',
+    size: attributes.size || 'Custom',
+    date: order?.createdAt || new Date(),
+    upgrades: [],
+    // A unit's label carries the unit's own product number, so each unit is scanned on its own
+    barcode: `${orderNumber}-${unit?.productNumber || orderItem?.id || ''}`
+  }, {
+    maxCustomerLength: 12,
+    maxUpgradeLength: 15,
+    maxTypeLength: 10,
+    maxColorLength: 8
+  });
+
+  const tieDownPlacement = attribute('tieDownPlacement');
+  const skirtType = attribute('skirtType');
+
+  const upgrades: LabelSpec[] = [];
+  for (const { field, label } of LABEL_UPGRADE_FIELDS) {
+    const value = attributes[field];
+    if (value && value !== 'No') {
+      upgrades.push({ label, value: value === true ? 'Yes' : String(value) });
+    }
+  }
+  if (attributes.extraHandleQty && attributes.extraHandleQty !== '0') {
+    upgrades.push({ label: 'Extra Handles', value: `+${attributes.extraHandleQty}` });
+  }
+
+  return {
+    customer: info.customer,
+    orderNumber,
+    date: info.date,
+    barcode: info.barcode,
+    unitLabel: unit?.unitLabel || null,
+    specs: [
+      { label: 'Type', value: info.type },
+      { label: 'Skirt Length', value: `${attribute('skirtLength') || '1'}"` },
+      { label: 'Color', value: info.color },
+      { label: "TD's", value: attribute('tieDownsQty') || '4' },
+      { label: 'Size', value: info.size },
+      { label: 'Location', value: tieDownPlacement === 'HANDLE_SIDE' ? 'Handle Side' : (tieDownPlacement || 'Standard') },
+      { label: 'Shape', value: attribute('shape') || 'Round' },
+      { label: 'TD Distance', value: `${attribute('distance') || '4'}"` },
+      { label: 'TD Length', value: attribute('tieDownLength') || '-' },
+      { label: 'Radius', value: `${attribute('radiusSize') || '12'}"` },
+      { label: 'Foam', value: attribute('foamUpgrade') || 'Standard' },
+      { label: 'Skirt Type', value: skirtType === 'CONN' ? 'Connected' : (skirtType || 'Standard') }
+    ],
+    compactSpecs: [
+      { label: 'Type', value: info.type },
+      { label: 'Shape', value: attribute('shape') || 'Round' },
+      { label: 'Color', value: info.color },
+      { label: 'Skirt', value: `${attribute('skirtLength') || '1'}"` },
+      { label: 'Size', value: info.size },
+      { label: 'Ties', value: attribute('tieDownsQty') || '4' },
+      { label: 'TD Len', value: attribute('tieDownLength') || '-' }
+    ],
+    upgrades
+  };
+}
+
+/**
+ * Render labels as ZPL II, one label format per label
+ * @param labels - Label content from buildLabelContent
+ * @param dpi - Print head resolution (203 or 300 on most Zebra printers)
+ */
+export function renderZplLabels(labels: LabelContent[], dpi: number = 203): string {
+  return labels.map(label => renderZplLabel(label, dpi)).join('\n');
+}
+
+function renderZplLabel(label: LabelContent, dpi: number): string {
+  const dots = (inches: number) => Math.round(inches * dpi);
+  const width = dots(LABEL_WIDTH_IN);
+  const margin = dots(0.1);
+  const columnX = margin + Math.floor((width - margin * 2) / 2);
+  const commands: string[] = [
+    '^XA',
+    '^CI28',
+    `^PW${width}`,
+    `^LL${dots(LABEL_TOP_HEIGHT_IN + LABEL_BOTTOM_HEIGHT_IN)}`,
+    '^LH0,0'
+  ];
+
+  const text = (x: number, y: number, heightIn: number, value: string, bold = false) => {
+    const height = dots(heightIn);
+    commands.push(`^FO${x},${y}^A0N,${height},${bold ? Math.round(height * 1.1) : height}^FH^FD${escapeZpl(value)}^FS`);
+  };
+
+  const barcode = (y: number, heightIn: number) => {
+    const moduleWidth = getBarcodeModuleWidth(label.barcode, width - margin * 2, 3);
+    commands.push(`^FO${margin},${y}^BY${moduleWidth}^BCN,${dots(heightIn)},Y,N,N^FH^FD${escapeZpl(label.barcode)}^FS`);
+  };
+
+  const specGrid = (y: number, lineIn: number, specs: LabelSpec[]) => {
+    specs.forEach((spec, index) => {
+      const x = index % 2 === 0 ? margin : columnX;
+      text(x, y + dots(lineIn) * Math.floor(index / 2), lineIn * 0.75, `${spec.label}: ${spec.value}`);
+    });
+    return y + dots(lineIn) * Math.ceil(specs.length / 2);
+  };
+
+  // Top part (3x3)
+  text(margin, dots(0.1), 0.14, `Customer: ${label.customer}`, true);
+  text(columnX, dots(0.1), 0.14, `Order #${label.orderNumber}`, true);
+  text(columnX, dots(0.28), 0.12, label.date);
+  if (label.unitLabel) {
+    text(margin, dots(0.28), 0.12, label.unitLabel, true);
+  }
+  barcode(dots(0.5), 0.4);
+  const upgradesY = specGrid(dots(1.2), 0.17, label.specs);
+  specGrid(upgradesY, 0.17, label.upgrades);
+
+  // Bottom part (3x2), below the perforation
+  const bottom = dots(LABEL_TOP_HEIGHT_IN);
+  commands.push(`^FO0,${bottom}^GB${width},1,1^FS`);
+  text(margin, bottom + dots(0.08), 0.12, `Customer: ${label.customer}`, true);
+  text(columnX, bottom + dots(0.08), 0.12, label.orderNumber, true);
+  text(columnX, bottom + dots(0.24), 0.1, label.date);
+  if (label.unitLabel) {
+    text(margin, bottom + dots(0.24), 0.1, label.unitLabel, true);
+  }
+  barcode(bottom + dots(0.42), 0.3);
+  specGrid(bottom + dots(1.0), 0.13, [...label.compactSpecs, ...label.upgrades].slice(0, 12));
+
+  commands.push('^XZ');
+  return commands.join('\n');
+}
+
+/**
+ * Render labels as a PDF, one 3x5 inch page per label
+ * Uses only the standard Helvetica fonts, so the output is plain ASCII.
+ */
+export function renderPdfLabels(labels: LabelContent[]): string {
+  const pageWidth = LABEL_WIDTH_IN * 72;
+  const pageHeight = (LABEL_TOP_HEIGHT_IN + LABEL_BOTTOM_HEIGHT_IN) * 72;
+  const margin = 7;
+  const columnX = margin + (pageWidth - margin * 2) / 2;
+
+  const pages = labels.map((label) => {
+    const ops: string[] = [];
+    // PDF puts the origin at the bottom left; layout below is measured from the top
+    const text = (x: number, top: number, size: number, value: string, bold = false) => {
+      ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${round(pageHeight - top - size)} Td (${escapePdf(value)}) Tj ET`);
+    };
+
+    const barcode = (top: number, height: number) => {
+      const pattern = BarcodeGenerator.generateCode128Pattern(label.barcode);
+      const moduleWidth = Math.min(2, (pageWidth - margin * 2) / pattern.length);
+      // Draw each run of bar modules as one filled rectangle
+      let runStart = -1;
+      [...pattern, 0].forEach((module, index) => {
+        if (module === 1 && runStart < 0) {
+          runStart = index;
+        } else if (module === 0 && runStart >= 0) {
+          ops.push(`${round(margin + runStart * moduleWidth)} ${round(pageHeight - top - height)} ${round((index - runStart) * moduleWidth)} ${height} re`);
+          runStart = -1;
+        }
+      });
+      ops.push('f');
+      text(margin, top + height + 2, 7, label.barcode);
+    };
+
+    const specGrid = (top: number, line: number, specs: LabelSpec[]) => {
+      specs.forEach((spec, index) => {
+        text(index % 2 === 0 ? margin : columnX, top + line * Math.floor(index / 2), line * 0.7, `${spec.label}: ${spec.value}`);
+      });
+      return top + line * Math.ceil(specs.length / 2);
+    };
+
+    // Top part (3x3)
+    text(margin, 7, 9, `Customer: ${label.customer}`, true);
+    text(columnX, 7, 9, `Order #${label.orderNumber}`, true);
+    text(columnX, 19, 8, label.date);
+    if (label.unitLabel) {
+      text(margin, 19, 8, label.unitLabel, true);
+    }
+    barcode(34, 30);
+    const upgradesY = specGrid(84, 12, label.specs);
+    specGrid(upgradesY, 12, label.upgrades);
+
+    // Bottom part (3x2), below the perforation
+    const bottom = LABEL_TOP_HEIGHT_IN * 72;
+    ops.push(`0 ${pageHeight - bottom} ${pageWidth} 0.5 re f`);
+    text(margin, bottom + 6, 8, `Customer: ${label.customer}`, true);
+    text(columnX, bottom + 6, 8, label.orderNumber, true);
+    text(columnX, bottom + 17, 7, label.date);
+    if (label.unitLabel) {
+      text(margin, bottom + 17, 7, label.unitLabel, true);
+    }
+    barcode(bottom + 30, 22);
+    specGrid(bottom + 72, 10, [...label.compactSpecs, ...label.upgrades].slice(0, 12));
+
+    return ops.join('\n');
+  });
+
+  return buildPdf(pages, pageWidth, pageHeight);
+}
+
+/**
+ * Pick the widest barcode module (in dots) that keeps the barcode inside the label
+ */
+export function getBarcodeModuleWidth(data: string, availableDots: number, maxModuleWidth: number = 3): number {
+  const modules = BarcodeGenerator.generateCode128Pattern(data).length;
+  return Math.max(1, Math.min(maxModuleWidth, Math.floor(availableDots / modules)));
+}
+
+/**
+ * Assemble page content streams into a PDF with the standard Helvetica (F1) and Helvetica-Bold (F2) fonts
+ * Also used for quote PDFs.
+ */
+export function buildPdf(pageStreams: string[], pageWidth: number, pageHeight: number): string {
+  // Objects 1-4 are the catalog, page tree and fonts; each page then takes a page and a content object
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageStreams.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pageStreams.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pageStreams.forEach((stream, index) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return pdf;
+}
+
+function formatAttribute(value: unknown): string {
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (value === '' || value === null || value === undefined) {
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Escape the characters ZPL treats as commands; fields are sent with ^FH so _XX is a hex byte
+ */
+function escapeZpl(value: string): string {
+  return value.replace(/[_^~]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Escape text for a PDF string; characters outside printable ASCII become "?"
+ */
+export function escapePdf(value: string): string {
+  return value
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/[\\()]/g, char => `\\${char}`);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,268 @@
+// Material bill-of-materials helpers - work out how much vinyl, foam, webbing... a cover needs from its
+// parsed attributes, and whether the stock on hand covers what the approved backlog has reserved.
+
+import { getCoverFootprint } from './shippingPackages';
+
+export const BOM_BASES = ['PER_ITEM', 'COVER_AREA', 'PERIMETER', 'SKIRT_AREA', 'TIE_DOWN', 'EXTRA_HANDLE'] as const;
+
+export type BomBasis = typeof BOM_BASES[number];
+
+export const BOM_BASIS_LABELS: Record<BomBasis, string> = {
+  PER_ITEM: 'Per cover',
+  COVER_AREA: 'Per sq ft of cover',
+  PERIMETER: 'Per linear ft of perimeter',
+  SKIRT_AREA: 'Per sq ft of skirt',
+  TIE_DOWN: 'Per tie down',
+  EXTRA_HANDLE: 'Per extra handle'
+};
+
+// Parsed cover attributes (ProductAttribute / OrderItem fields), keyed by attribute name
+export type BomCoverAttributes = Record<string, string | number | boolean | null | undefined>;
+
+// Attribute values a rule requires; a list matches any of its values
+export type BomConditions = Record<string, string | boolean | Array<string | boolean>>;
+
+export interface CoverMeasurements {
+  areaSqFt: number;
+  perimeterFt: number;
+  skirtAreaSqFt: number;
+  tieDowns: number;
+  extraHandles: number;
+}
+
+export interface BomRuleSource {
+  id: string;
+  materialId: string;
+  stationId: string;
+  productType?: string | null;
+  conditions?: unknown;
+  basis: BomBasis;
+  quantityPerUnit: number;
+  wastePercent?: number | null;
+}
+
+export interface MaterialRequirementLine {
+  materialId: string;
+  stationId: string;
+  quantity: number;
+  ruleIds: string[];
+}
+
+export interface MaterialStockSource {
+  quantityOnHand: number;
+  quantityReserved: number;
+  reorderPoint: number;
+}
+
+export interface MaterialStockStatus {
+  available: number;   // On hand less what approved items have reserved
+  shortfall: number;   // Reserved quantity the stock on hand cannot cover
+  isShort: boolean;
+  isLow: boolean;      // At or below the reorder point once reservations are taken out
+}
+
+export interface MaterialStockLevel extends MaterialStockSource, MaterialStockStatus {
+  id: string;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  unit: string;
+}
+
+/**
+ * Merge an item's parsed attributes over the fields on the order line
+ */
+export function getCoverAttributes(item: Record<string, unknown> & { productAttributes?: Record<string, unknown> | null }): BomCoverAttributes {
+  const attributes: BomCoverAttributes = {};
+
+  for (const source of [item, item.productAttributes || {}]) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== null && value !== undefined && value !== '' && ['string', 'number', 'boolean'].includes(typeof value)) {
+        attributes[key] = value as string | number | boolean;
+      }
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Work out the cover's area, perimeter and hardware counts from its attributes
+ * Round covers use the circle; other shapes are a rectangle with the corner radius taken off.
+ */
+export function getCoverMeasurements(attributes: BomCoverAttributes): CoverMeasurements {
+  const { lengthIn, widthIn } = getCoverFootprint({
+    size: asString(attributes.size),
+    shape: asString(attributes.shape),
+    length: asString(attributes.length),
+    width: asString(attributes.width)
+  });
+
+  const isRound = (asString(attributes.shape) || '').toLowerCase() === 'round';
+  const radiusIn = Math.min(parseNumber(attributes.radiusSize), widthIn / 2);
+
+  const areaSqIn = isRound
+    ? Math.PI * Math.pow(lengthIn / 2, 2)
+    : lengthIn * widthIn - (4 - Math.PI) * Math.pow(radiusIn, 2);
+  const perimeterIn = isRound
+    ? Math.PI * lengthIn
+    : 2 * (lengthIn + widthIn) - (8 - 2 * Math.PI) * radiusIn;
+
+  const hasSkirt = (asString(attributes.skirtType) || '').toUpperCase() !== 'NONE';
+  const skirtIn = hasSkirt ? parseNumber(attributes.skirtLength) : 0;
+
+  return {
+    areaSqFt: roundQuantity(areaSqIn / 144),
+    perimeterFt: roundQuantity(perimeterIn / 12),
+    skirtAreaSqFt: roundQuantity((perimeterIn * skirtIn) / 144),
+    tieDowns: Math.floor(parseNumber(attributes.tieDownsQty)),
+    extraHandles: Math.floor(parseNumber(attributes.extraHandleQty))
+  };
+}
+
+/**
+ * The cover's longest side in inches, used for size buckets; NULL when the cover has no size at all
+ */
+export function getCoverSizeIn(attributes: BomCoverAttributes): number | null {
+  const size = asText(attributes.size);
+  const length = asText(attributes.length);
+  const width = asText(attributes.width);
+
+  // No size on the cover - it is in no size bucket rather than the default size
+  if (!size && !length && !width) {
+    return null;
+  }
+
+  return getCoverFootprint({ size, length, width }).lengthIn;
+}
+
+/**
+ * Check whether a cover has every attribute value a rule asks for
+ * Values are compared as trimmed, case-insensitive text, so "yes" matches "Yes" and true matches "true".
+ */
+export function matchesBomConditions(conditions: unknown, attributes: BomCoverAttributes): boolean {
+  if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    return true;
+  }
+
+  return Object.entries(conditions as BomConditions).every(([attribute, expected]) => {
+    const actual = normalizeValue(attributes[attribute]);
+    const allowed = (Array.isArray(expected) ? expected : [expected]).map(normalizeValue);
+    return allowed.includes(actual);
+  });
+}
+
+/**
+ * How many basis units (covers, square feet, tie downs...) a cover has for a rule
+ */
+export function getBasisQuantity(basis: BomBasis, measurements: CoverMeasurements): number {
+  switch (basis) {
+    case 'COVER_AREA':
+      return measurements.areaSqFt;
+    case 'PERIMETER':
+      return measurements.perimeterFt;
+    case 'SKIRT_AREA':
+      return measurements.skirtAreaSqFt;
+    case 'TIE_DOWN':
+      return measurements.tieDowns;
+    case 'EXTRA_HANDLE':
+      return measurements.extraHandles;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Work out the materials an order item needs from the BOM rules that apply to it
+ * Rules for the same material at the same station are added together, so each line is one reservation.
+ *
+ * @param attributes - The cover's parsed attributes, including productType
+ * @param rules - Active BOM rules
+ * @param quantity - Number of covers on the order line
+ */
+export function computeMaterialRequirements(
+  attributes: BomCoverAttributes,
+  rules: BomRuleSource[],
+  quantity: number = 1
+): MaterialRequirementLine[] {
+  const measurements = getCoverMeasurements(attributes);
+  const productType = asString(attributes.productType);
+  const lines = new Map<string, MaterialRequirementLine>();
+
+  for (const rule of rules) {
+    if (rule.productType && rule.productType !== productType) {
+      continue;
+    }
+    if (!matchesBomConditions(rule.conditions, attributes)) {
+      continue;
+    }
+
+    const perCover = rule.quantityPerUnit * getBasisQuantity(rule.basis, measurements) * (1 + (rule.wastePercent || 0) / 100);
+    if (perCover <= 0) {
+      continue;
+    }
+
+    const key = `${rule.materialId}:${rule.stationId}`;
+    const line = lines.get(key) || { materialId: rule.materialId, stationId: rule.stationId, quantity: 0, ruleIds: [] };
+    line.quantity += perCover * Math.max(1, quantity);
+    line.ruleIds.push(rule.id);
+    lines.set(key, line);
+  }
+
+  return [...lines.values()].map(line => ({ ...line, quantity: roundQuantity(line.quantity) }));
+}
+
+/**
+ * Compare a material's stock with what the approved backlog has reserved
+ */
+export function getMaterialStockStatus(material: MaterialStockSource): MaterialStockStatus {
+  const available = roundQuantity(material.quantityOnHand - material.quantityReserved);
+  const shortfall = Math.max(0, -available);
+
+  return {
+    available,
+    shortfall,
+    isShort: shortfall > 0,
+    isLow: shortfall === 0 && material.reorderPoint > 0 && available <= material.reorderPoint
+  };
+}
+
+/**
+ * One unit's share of a multi-quantity line's requirement
+ * Shares are cut at running totals, so every unit's share adds back up to the line's quantity after rounding.
+ * @param quantity - The line's requirement
+ * @param unitCount - Units on the line
+ * @param position - How many units took their share before this one
+ */
+export function getUnitShare(quantity: number, unitCount: number, position: number): number {
+  const takenBefore = roundQuantity(quantity * Math.min(position, unitCount) / unitCount);
+  const takenAfter = roundQuantity(quantity * Math.min(position + 1, unitCount) / unitCount);
+  return roundQuantity(takenAfter - takenBefore);
+}
+
+/**
+ * Round to the 3 decimal places material quantities are stored with
+ */
+export function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function parseNumber(value: string | number | boolean | null | undefined): number {
+  if (typeof value === 'number') {
+    return value > 0 ? value : 0;
+  }
+  const match = String(value ?? '').match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+function asString(value: string | number | boolean | null | undefined): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function asText(value: string | number | boolean | null | undefined): string | null {
+  return value === null || value === undefined || String(value).trim() === '' ? null : String(value);
+}
+
+function normalizeValue(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
@@ -4,6 +4,7 @@ import { OptimizedQueries } from './optimizedQueries';
 import { LeadTimeCalculator } from './leadTimeCalculator';
 import { PerformanceMonitor } from './performanceMonitor';
 import { PerformanceSafeguards } from './performanceSafeguards';
+import { capacityPlanningService } from '~/server/lib/CapacityPlanningService';
 
 /**
  * Interface for dashboard metrics data
@@ -17,6 +18,20 @@ export interface DashboardMetrics {
   readyToShip: number;
 }
 
+/**
+ * Interface for open orders expected to finish after their due date
+ */
+export interface OrderAtRisk {
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  priority: string;
+  dueDate: string;
+  promisedDate: string;
+  daysLate: number;
+  bottleneckStation: string | null;
+}
+
 /**
  * Interface for order filtering parameters
  */
@@ -481,6 +496,48 @@ export class MetricsService {
     }
   }
 
+  /**
+   * Get open orders whose due date is at risk according to the capacity plan
+   * @returns Promise<OrderAtRisk[]> - At-risk orders, latest first (empty on failure)
+   */
+  static async getOrdersAtRisk(): Promise<OrderAtRisk[]> {
+    const startTime = Date.now();
+
+    try {
+      const cacheKey = CacheService.getOrdersAtRiskCacheKey();
+      const cachedData = CacheService.get<OrderAtRisk[]>(cacheKey);
+
+      if (cachedData) {
+        PerformanceMonitor.recordQuery('getOrdersAtRisk', Date.now() - startTime, true);
+        return cachedData;
+      }
+
+      const plan = await capacityPlanningService.getPlan();
+      const result: OrderAtRisk[] = plan.orders
+        .filter(order => order.atRisk && order.dueDate)
+        .sort((a, b) => b.daysLate - a.daysLate)
+        .map(order => ({
+          orderId: order.orderId,
+          orderNumber: order.orderNumber,
+          customerName: order.customerName,
+          priority: order.priority,
+          dueDate: order.dueDate!,
+          promisedDate: order.promisedDate,
+          daysLate: order.daysLate,
+          bottleneckStation: order.bottleneckStation
+        }));
+
+      CacheService.set(cacheKey, result);
+
+      PerformanceMonitor.recordQuery('getOrdersAtRisk', Date.now() - startTime, false);
+      return result;
+    } catch (error) {
+      console.error('Error calculating orders at risk:', error);
+      PerformanceMonitor.recordQuery('getOrdersAtRisk', Date.now() - startTime, false);
+      return [];
+    }
+  }
+
   /**
    * Extract value from Promise.allSettled result with fallback
    * @param result - PromiseSettledResult from Promise.allSettled
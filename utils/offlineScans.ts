@@ -0,0 +1,149 @@
+// Offline kiosk scan helpers - when the kiosk loses its connection, scans are kept in a local queue with the
+// time they were actually made and replayed in order once it is back. The server uses the same limits to
+// decide whether a back-dated scan can still be applied.
+
+export const OFFLINE_SCAN_MAX_AGE_HOURS = 72;
+export const OFFLINE_SCAN_MAX_ATTEMPTS = 5;
+
+// Kiosk clocks drift; a scan time this far ahead of the server is treated as "now"
+export const SCAN_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type OfflineScanState = 'pending' | 'conflict';
+
+export interface OfflineScan {
+  id: string;            // Sent as clientScanId so a replay that already went through is not applied twice
+  barcode: string;
+  scannedAt: string;     // ISO time the worker scanned the item
+  operatorBadge?: string; // Badge of the kiosk operator at the time, credited when the scan is replayed
+  attempts: number;
+  state: OfflineScanState;
+  message?: string;      // Why the server turned the scan down
+}
+
+export type ReplayOutcome = 'applied' | 'conflict' | 'retry';
+
+export type ScanTimeResult =
+  | { time: Date; isBackdated: boolean; error: null }
+  | { time: null; isBackdated: boolean; error: string };
+
+/**
+ * Stamp a kiosk scan with an ID and the time it was made, so it can be queued if it cannot be sent
+ */
+export function createOfflineScan(barcode: string, now: Date = new Date(), operatorBadge?: string): OfflineScan {
+  return {
+    id: `scan_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
+    barcode: barcode.trim(),
+    scannedAt: now.toISOString(),
+    ...(operatorBadge ? { operatorBadge } : {}),
+    attempts: 0,
+    state: 'pending'
+  };
+}
+
+/**
+ * Scans still waiting to be replayed, oldest first
+ * Order matters: an item scanned at Cutting and then Sewing while offline has to reach the server in that order.
+ */
+export function getPendingScans(scans: OfflineScan[]): OfflineScan[] {
+  return scans
+    .filter(scan => scan.state === 'pending')
+    .sort((a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime());
+}
+
+// Fields a failed $fetch may carry, depending on where it failed
+interface ReplayErrorFields {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  statusCode?: unknown;
+  statusMessage?: unknown;
+  response?: { status?: unknown };
+  data?: { message?: unknown; statusMessage?: unknown };
+}
+
+function getErrorFields(error: unknown): ReplayErrorFields {
+  return typeof error === 'object' && error !== null ? (error as ReplayErrorFields) : {};
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  const fields = getErrorFields(error);
+  const status = fields.statusCode ?? fields.status ?? fields.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a request failed because the server could not be reached, rather than because it said no
+ */
+export function isNetworkFailure(error: unknown): boolean {
+  if (getErrorStatus(error)) {
+    return false;
+  }
+  return getErrorFields(error).name === 'FetchError' || error instanceof TypeError;
+}
+
+/**
+ * The reason a server gave for turning down a replayed scan, for the worker to see
+ */
+export function getReplayErrorMessage(error: unknown): string {
+  const fields = getErrorFields(error);
+  const candidates = [fields.data?.statusMessage, fields.statusMessage, fields.data?.message, fields.message];
+  const message = candidates.find(candidate => typeof candidate === 'string' && candidate.length > 0);
+  return typeof message === 'string' ? message : 'The scan was not applied';
+}
+
+/**
+ * Decide what to do with a queued scan after a failed replay
+ * Unreachable servers, timeouts, server errors and an expired kiosk login are retried later without skipping
+ * ahead; anything the server turned down (a conflict, a wrong station, an unknown barcode) is kept aside for
+ * the worker to see.
+ *
+ * @param error - The error the replay threw
+ * @param attempts - Replays tried so far, including this one
+ */
+export function getReplayOutcome(error: unknown, attempts: number): ReplayOutcome {
+  if (isNetworkFailure(error)) {
+    return 'retry';
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 401) {
+    return 'retry';
+  }
+
+  const isTransient = status !== undefined && (status >= 500 || status === 408 || status === 429);
+  if (isTransient && attempts < OFFLINE_SCAN_MAX_ATTEMPTS) {
+    return 'retry';
+  }
+
+  return 'conflict';
+}
+
+/**
+ * Work out when a scan happened from the scannedAt a kiosk sent
+ * Scans sent live have no scannedAt and happen now. Queued scans keep their own time, as long as it is not
+ * in the future (beyond clock drift) or too old to trust.
+ */
+export function resolveScanTime(scannedAt: unknown, now: Date = new Date()): ScanTimeResult {
+  if (scannedAt === undefined || scannedAt === null || scannedAt === '') {
+    return { time: now, isBackdated: false, error: null };
+  }
+
+  const time = new Date(scannedAt as string);
+  if (typeof scannedAt !== 'string' || isNaN(time.getTime())) {
+    return { time: null, isBackdated: true, error: 'The scan time is not a valid date' };
+  }
+
+  if (time.getTime() > now.getTime() + SCAN_CLOCK_SKEW_MS) {
+    return { time: null, isBackdated: true, error: 'The scan time is in the future. Check the kiosk clock.' };
+  }
+
+  if (now.getTime() - time.getTime() > OFFLINE_SCAN_MAX_AGE_HOURS * 60 * 60 * 1000) {
+    return {
+      time: null,
+      isBackdated: true,
+      error: `Offline scans older than ${OFFLINE_SCAN_MAX_AGE_HOURS} hours cannot be synced. Rescan the item.`
+    };
+  }
+
+  return { time: time > now ? now : time, isBackdated: true, error: null };
+}
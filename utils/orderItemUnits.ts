@@ -0,0 +1,121 @@
+// Per-unit tracking for order items with a quantity of more than 1
+// Each physical unit gets its own product number, label and progress through production; the order
+// item itself reports the least advanced of its units. Used by server/lib/OrderItemUnitService.ts,
+// the kiosk, labels, packing slips and reports.
+import { PROCESSING_STATUS_ORDER, WORKFLOW_COMPLETE_STATUS } from './workflowEngine';
+
+export interface OrderItemUnitState {
+  id?: string;
+  unitNumber: number;
+  productNumber: number;
+  itemStatus: string;
+  currentStepId?: string | null;
+}
+
+export interface UnitTrackedItem {
+  quantity: number;
+  isProduct?: boolean | null;
+}
+
+export interface UnitLabelEntry {
+  unitId: string | null;
+  unitNumber: number | null; // NULL for order items tracked as a single line
+  productNumber: number | null;
+  unitLabel: string | null; // e.g. "Unit 2 of 3"
+}
+
+/**
+ * Whether an order item is tracked unit by unit
+ * Only production items are, and only when there is more than one of them on the line.
+ */
+export function tracksUnits(item: UnitTrackedItem): boolean {
+  return !!item.isProduct && item.quantity > 1;
+}
+
+/**
+ * Label for a unit, e.g. "Unit 2 of 3"
+ */
+export function formatUnitLabel(unitNumber: number, unitCount: number): string {
+  return `Unit ${unitNumber} of ${unitCount}`;
+}
+
+/**
+ * Sort units by their position on the order item
+ */
+export function sortUnits<T extends { unitNumber: number }>(units: T[]): T[] {
+  return [...units].sort((a, b) => a.unitNumber - b.unitNumber);
+}
+
+/**
+ * Status and workflow step the order item reports for its units - those of the least advanced unit
+ * @returns null when the order item has no units
+ */
+export function getRolledUpUnitStatus(units: OrderItemUnitState[]): { itemStatus: string; currentStepId: string | null } | null {
+  let leastAdvanced: OrderItemUnitState | null = null;
+  for (const unit of sortUnits(units)) {
+    if (!leastAdvanced || statusRank(unit.itemStatus) < statusRank(leastAdvanced.itemStatus)) {
+      leastAdvanced = unit;
+    }
+  }
+
+  return leastAdvanced
+    ? { itemStatus: leastAdvanced.itemStatus, currentStepId: leastAdvanced.currentStepId || null }
+    : null;
+}
+
+/**
+ * How many of an order item's units are finished
+ */
+export function getUnitProgress(units: Pick<OrderItemUnitState, 'itemStatus'>[]): { ready: number; total: number } {
+  return {
+    ready: units.filter(unit => unit.itemStatus === WORKFLOW_COMPLETE_STATUS).length,
+    total: units.length
+  };
+}
+
+/**
+ * Find the unit a scanned label belongs to
+ * Labels carry the unit's product number. A label without one (printed before the item was split
+ * into units) goes to the first unit that is not finished yet.
+ * @param scannedItemId - Item part of the scanned barcode
+ * @returns The unit, or null when the order item has no units
+ */
+export function selectScannedUnit<T extends OrderItemUnitState>(units: T[], scannedItemId?: string | number | null): T | null {
+  const sorted = sortUnits(units);
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const productNumber = typeof scannedItemId === 'number' ? scannedItemId : parseInt(String(scannedItemId ?? ''), 10);
+  const match = !isNaN(productNumber) ? sorted.find(unit => unit.productNumber === productNumber) : undefined;
+
+  return match
+    || sorted.find(unit => unit.itemStatus !== WORKFLOW_COMPLETE_STATUS)
+    || sorted[0];
+}
+
+/**
+ * One label entry per physical unit of an order item
+ * Order items without units get a single entry for the whole line.
+ */
+export function getUnitLabelEntries(orderItem: {
+  productNumber?: number | null;
+  units?: (Pick<OrderItemUnitState, 'unitNumber' | 'productNumber'> & { id?: string })[] | null;
+}): UnitLabelEntry[] {
+  const units = sortUnits(orderItem.units || []);
+  if (units.length === 0) {
+    return [{ unitId: null, unitNumber: null, productNumber: orderItem.productNumber ?? null, unitLabel: null }];
+  }
+
+  return units.map(unit => ({
+    unitId: unit.id || null,
+    unitNumber: unit.unitNumber,
+    productNumber: unit.productNumber,
+    unitLabel: formatUnitLabel(unit.unitNumber, units.length)
+  }));
+}
+
+function statusRank(itemStatus: string): number {
+  const rank = PROCESSING_STATUS_ORDER.indexOf(itemStatus);
+  return rank < 0 ? PROCESSING_STATUS_ORDER.length : rank;
+}
@@ -0,0 +1,228 @@
+// Payroll - piece-rate and hourly pay worked out from the station work in ItemProcessingLog
+// A worker is paid their hourly rate for active station time, plus every piece rate that matches a cover they
+// finished at the rate's station. Statements are approved by a supervisor and the pay period is then locked;
+// station work changed after the lock is flagged against the statement instead of changing it.
+// Used by server/lib/PayrollService.ts and the admin payroll page.
+
+import { getBasisQuantity, getCoverMeasurements, getCoverSizeIn, matchesBomConditions, type BomCoverAttributes } from './materials';
+
+export const PIECE_RATE_BASES = ['PER_ITEM', 'TIE_DOWN', 'EXTRA_HANDLE'] as const;
+
+export type PieceRateBasis = typeof PIECE_RATE_BASES[number];
+
+export const PIECE_RATE_BASIS_LABELS: Record<PieceRateBasis, string> = {
+  PER_ITEM: 'Per cover',
+  TIE_DOWN: 'Per tie down',
+  EXTRA_HANDLE: 'Per extra handle'
+};
+
+// Roles that may approve statements; creating, calculating and locking periods is for admins only
+export const PAYROLL_APPROVER_ROLES = ['Super Admin', 'Admin', 'Manager'];
+export const PAYROLL_ADMIN_ROLES = ['Super Admin', 'Admin'];
+
+export interface PieceRateSource {
+  id: string;
+  name: string;
+  stationId: string;
+  productType?: string | null;
+  conditions?: unknown;
+  minSizeIn?: number | null;
+  maxSizeIn?: number | null;
+  basis: PieceRateBasis;
+  rate: number;
+}
+
+// A finished station log of the employee being paid
+export interface PayrollWorkLog {
+  id: string;
+  stationId: string;
+  stationName: string;
+  orderItemId: string;
+  unitId: string | null;
+  quantity: number; // Order item quantity - a log without a unit covers every unit of the item
+  durationInSeconds: number;
+  attributes: BomCoverAttributes;
+}
+
+export interface PayStatementLine {
+  type: 'HOURLY' | 'PIECE';
+  description: string;
+  stationName: string | null;
+  pieceRateId: string | null;
+  quantity: number; // Hours, or the basis units paid (covers, handles...)
+  rate: number | null; // NULL when the employee has no hourly rate
+  amount: number;
+}
+
+export interface PayStatementFigures {
+  hours: number;
+  pieces: number;
+  hourlyRate: number | null;
+  hourlyPay: number;
+  piecePay: number;
+  totalPay: number;
+  lines: PayStatementLine[];
+}
+
+export interface PayrollExportStatement {
+  employeeId: string;
+  employeeName: string;
+  employeeEmail: string;
+  lines: PayStatementLine[];
+}
+
+/**
+ * How many basis units of a piece rate a cover earns at the rate's station; 0 when the rate does not apply
+ */
+export function getPieceRateUnits(rate: PieceRateSource, attributes: BomCoverAttributes): number {
+  if (rate.productType && rate.productType !== String(attributes.productType ?? '')) {
+    return 0;
+  }
+  if (!matchesBomConditions(rate.conditions, attributes)) {
+    return 0;
+  }
+
+  if (rate.minSizeIn != null || rate.maxSizeIn != null) {
+    const sizeIn = getCoverSizeIn(attributes);
+    if (sizeIn === null || (rate.minSizeIn != null && sizeIn < rate.minSizeIn) || (rate.maxSizeIn != null && sizeIn > rate.maxSizeIn)) {
+      return 0;
+    }
+  }
+
+  return getBasisQuantity(rate.basis, getCoverMeasurements(attributes));
+}
+
+/**
+ * Work out an employee's pay from their finished station logs
+ * A cover is paid once per station - finishing it at the same station again (rework) adds hours but no pieces.
+ *
+ * @param logs - The employee's finished logs in the pay period
+ * @param rates - Active piece rates
+ * @param hourlyRate - The employee's hourly rate, NULL when they are paid by the piece only
+ */
+export function calculatePayStatement(logs: PayrollWorkLog[], rates: PieceRateSource[], hourlyRate: number | null): PayStatementFigures {
+  const seconds = logs.reduce((sum, log) => sum + Math.max(0, log.durationInSeconds), 0);
+  const hours = roundHours(seconds / 3600);
+  const hourlyPay = roundMoney(hours * (hourlyRate ?? 0));
+
+  const paidPieces = new Set<string>();
+  const pieceLines = new Map<string, PayStatementLine>();
+  let pieces = 0;
+
+  for (const log of logs) {
+    const pieceKey = `${log.orderItemId}:${log.unitId || ''}:${log.stationId}`;
+    if (paidPieces.has(pieceKey)) {
+      continue;
+    }
+    paidPieces.add(pieceKey);
+
+    const covers = log.unitId ? 1 : Math.max(1, log.quantity);
+    pieces += covers;
+
+    for (const rate of rates) {
+      if (rate.stationId !== log.stationId) {
+        continue;
+      }
+      const units = getPieceRateUnits(rate, log.attributes) * covers;
+      if (units <= 0) {
+        continue;
+      }
+
+      const line = pieceLines.get(rate.id) || {
+        type: 'PIECE',
+        description: rate.name,
+        stationName: log.stationName,
+        pieceRateId: rate.id,
+        quantity: 0,
+        rate: rate.rate,
+        amount: 0
+      };
+      line.quantity += units;
+      pieceLines.set(rate.id, line);
+    }
+  }
+
+  const piecesPaid = [...pieceLines.values()]
+    .map(line => ({ ...line, quantity: roundHours(line.quantity), amount: roundMoney(line.quantity * (line.rate ?? 0)) }))
+    .sort((a, b) => (a.stationName || '').localeCompare(b.stationName || '') || a.description.localeCompare(b.description));
+  const piecePay = roundMoney(piecesPaid.reduce((sum, line) => sum + line.amount, 0));
+
+  const lines: PayStatementLine[] = [];
+  if (hours > 0) {
+    lines.push({
+      type: 'HOURLY',
+      description: 'Station hours',
+      stationName: null,
+      pieceRateId: null,
+      quantity: hours,
+      rate: hourlyRate,
+      amount: hourlyPay
+    });
+  }
+  lines.push(...piecesPaid);
+
+  return {
+    hours,
+    pieces,
+    hourlyRate,
+    hourlyPay,
+    piecePay,
+    totalPay: roundMoney(hourlyPay + piecePay),
+    lines
+  };
+}
+
+/**
+ * Check whether a statement's figures still match what the station logs give now
+ */
+export function payStatementMatches(statement: Pick<PayStatementFigures, 'hours' | 'pieces' | 'totalPay'>, current: PayStatementFigures): boolean {
+  return statement.hours === current.hours
+    && statement.pieces === current.pieces
+    && statement.totalPay === current.totalPay;
+}
+
+/**
+ * The shop's calendar day (YYYY-MM-DD) a pay period boundary falls on
+ * @param timeZone - IANA time zone of the shop; the local zone when not given
+ */
+export function formatPayPeriodDate(date: Date, timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Build the payroll import CSV - one row per earning line, so hours and each piece rate import separately
+ */
+export function buildPayrollCsv(period: { startDate: Date; endDate: Date }, statements: PayrollExportStatement[], timeZone?: string): string {
+  const headers = ['Employee ID', 'Employee Name', 'Email', 'Period Start', 'Period End', 'Earning Code', 'Description', 'Hours', 'Units', 'Rate', 'Amount'];
+  const startDate = formatPayPeriodDate(period.startDate, timeZone);
+  const endDate = formatPayPeriodDate(period.endDate, timeZone);
+
+  const rows = statements.flatMap(statement => statement.lines.map(line => [
+    statement.employeeId,
+    statement.employeeName,
+    statement.employeeEmail,
+    startDate,
+    endDate,
+    line.type === 'HOURLY' ? 'REG' : 'PIECE',
+    line.stationName ? `${line.stationName} - ${line.description}` : line.description,
+    line.type === 'HOURLY' ? line.quantity : '',
+    line.type === 'PIECE' ? line.quantity : '',
+    line.rate === null ? '' : line.rate.toFixed(2),
+    line.amount.toFixed(2)
+  ]));
+
+  return [headers, ...rows].map(row =>
+    row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,201 @@
+// Pricing - what a cover should sell for under the customer's price list
+// Each price list belongs to one customer type and is in effect between its dates; the order date picks the list.
+// A cover's price is the base price of its size bucket plus an adder for every upgrade it has, worked out from
+// the same attributes and measurements as the material BOM. The order editor compares it with the entered price.
+// Used by server/lib/PricingService.ts and the admin pricing page.
+
+import { getBasisQuantity, getCoverMeasurements, getCoverSizeIn, matchesBomConditions, type BomCoverAttributes } from './materials';
+
+export const PRICE_RULE_BASES = ['PER_ITEM', 'COVER_AREA', 'PERIMETER', 'SKIRT_AREA', 'TIE_DOWN', 'EXTRA_HANDLE'] as const;
+
+export type PriceRuleBasis = typeof PRICE_RULE_BASES[number];
+
+export const PRICE_RULE_BASIS_LABELS: Record<PriceRuleBasis, string> = {
+  PER_ITEM: 'Per cover',
+  COVER_AREA: 'Per sq ft of cover',
+  PERIMETER: 'Per linear ft of perimeter',
+  SKIRT_AREA: 'Per sq ft of skirt',
+  TIE_DOWN: 'Per tie down',
+  EXTRA_HANDLE: 'Per extra handle'
+};
+
+export const PRICE_LIST_CUSTOMER_TYPES = ['RETAILER', 'CA_RETAIL', 'WHOLESALER', 'CA_WHOLESALE'] as const;
+
+export type PriceListCustomerType = typeof PRICE_LIST_CUSTOMER_TYPES[number];
+
+export const PRICE_LIST_CUSTOMER_TYPE_LABELS: Record<PriceListCustomerType, string> = {
+  RETAILER: 'Retailer',
+  CA_RETAIL: 'CA Retail',
+  WHOLESALER: 'Wholesaler',
+  CA_WHOLESALE: 'CA Wholesale'
+};
+
+// Roles that may view computed prices on orders; price lists are managed by admins
+export const PRICING_VIEWER_ROLES = ['Super Admin', 'Admin', 'Office Employee'];
+export const PRICING_ADMIN_ROLES = ['Super Admin', 'Admin'];
+
+export interface PriceListSource {
+  id: string;
+  name: string;
+  customerType: string;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  isActive: boolean;
+}
+
+export interface PriceRuleSource {
+  id: string;
+  name: string;
+  kind: 'BASE' | 'ADDER';
+  productType?: string | null;
+  conditions?: unknown;
+  minSizeIn?: number | null;
+  maxSizeIn?: number | null;
+  basis: PriceRuleBasis;
+  amount: number;
+}
+
+export interface PriceLine {
+  priceRuleId: string;
+  kind: 'BASE' | 'ADDER';
+  description: string;
+  quantity: number; // Basis units priced (covers, sq ft, handles...)
+  rate: number;
+  amount: number;
+}
+
+export interface CoverPrice {
+  basePrice: number | null; // NULL when no base price covers the cover's size
+  adderTotal: number;
+  unitPrice: number | null;
+  lines: PriceLine[];
+}
+
+export interface PriceCheck {
+  enteredPrice: number;
+  computedPrice: number | null;
+  difference: number | null; // Entered less computed
+  differencePercent: number | null;
+  isDeviation: boolean;
+}
+
+/**
+ * Pick the price list in effect for a customer type on a date
+ * When lists overlap, the one that took effect most recently wins.
+ */
+export function selectPriceList<T extends PriceListSource>(lists: T[], customerType: string, date: Date): T | null {
+  const time = date.getTime();
+
+  return lists
+    .filter(list => list.isActive
+      && list.customerType === customerType
+      && list.effectiveFrom.getTime() <= time
+      && (!list.effectiveTo || list.effectiveTo.getTime() >= time))
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0] || null;
+}
+
+/**
+ * How many basis units of a price rule a cover is charged; 0 when the rule does not apply
+ */
+export function getPriceRuleUnits(rule: PriceRuleSource, attributes: BomCoverAttributes): number {
+  if (rule.productType && rule.productType !== String(attributes.productType ?? '')) {
+    return 0;
+  }
+  if (!matchesBomConditions(rule.conditions, attributes)) {
+    return 0;
+  }
+
+  if (rule.minSizeIn != null || rule.maxSizeIn != null) {
+    const sizeIn = getCoverSizeIn(attributes);
+    if (sizeIn === null || (rule.minSizeIn != null && sizeIn < rule.minSizeIn) || (rule.maxSizeIn != null && sizeIn > rule.maxSizeIn)) {
+      return 0;
+    }
+  }
+
+  return getBasisQuantity(rule.basis, getCoverMeasurements(attributes));
+}
+
+/**
+ * Work out a cover's price from a price list's rules
+ * One base price applies - the matching rule with the narrowest size bucket, then the one with the most
+ * conditions - and every matching adder is added to it.
+ *
+ * @param attributes - The cover's parsed attributes, including productType
+ * @param rules - Active rules of the price list
+ */
+export function computeCoverPrice(attributes: BomCoverAttributes, rules: PriceRuleSource[]): CoverPrice {
+  const lines: PriceLine[] = [];
+
+  const bases = rules
+    .filter(rule => rule.kind === 'BASE')
+    .map(rule => ({ rule, units: getPriceRuleUnits(rule, attributes) }))
+    .filter(({ units }) => units > 0)
+    .sort((a, b) => getBucketWidth(a.rule) - getBucketWidth(b.rule) || countConditions(b.rule) - countConditions(a.rule));
+
+  const base = bases[0];
+  if (base) {
+    lines.push(toPriceLine(base.rule, base.units));
+  }
+
+  for (const rule of rules) {
+    if (rule.kind !== 'ADDER') {
+      continue;
+    }
+    const units = getPriceRuleUnits(rule, attributes);
+    if (units > 0) {
+      lines.push(toPriceLine(rule, units));
+    }
+  }
+
+  const basePrice = base ? lines[0].amount : null;
+  const adderTotal = roundMoney(lines.filter(line => line.kind === 'ADDER').reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    basePrice,
+    adderTotal,
+    unitPrice: basePrice === null ? null : roundMoney(basePrice + adderTotal),
+    lines
+  };
+}
+
+/**
+ * Compare the price entered on an order line with the computed price - any difference of a cent or more is flagged
+ */
+export function checkPrice(enteredPrice: number, computedPrice: number | null): PriceCheck {
+  if (computedPrice === null) {
+    return { enteredPrice, computedPrice, difference: null, differencePercent: null, isDeviation: false };
+  }
+
+  const difference = roundMoney(enteredPrice - computedPrice);
+  return {
+    enteredPrice,
+    computedPrice,
+    difference,
+    differencePercent: computedPrice > 0 ? Math.round((difference / computedPrice) * 1000) / 10 : null,
+    isDeviation: Math.abs(difference) >= 0.01
+  };
+}
+
+function toPriceLine(rule: PriceRuleSource, units: number): PriceLine {
+  return {
+    priceRuleId: rule.id,
+    kind: rule.kind,
+    description: rule.name,
+    quantity: units,
+    rate: rule.amount,
+    amount: roundMoney(units * rule.amount)
+  };
+}
+
+// Open-ended buckets are the widest
+function getBucketWidth(rule: PriceRuleSource): number {
+  return (rule.maxSizeIn ?? Number.POSITIVE_INFINITY) - (rule.minSizeIn ?? 0);
+}
+
+function countConditions(rule: PriceRuleSource): number {
+  return rule.conditions && typeof rule.conditions === 'object' ? Object.keys(rule.conditions).length : 0;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,240 @@
+// Warehouse priority scoring - ranks production items by a weighted score instead of the order priority alone
+// Each factor is scaled from 0 to 1 and multiplied by its weight, so the weights are the most points a factor
+// can add. Weights and customer type scores come from the runtime config (priorityScoring); admins can also
+// pin an item to the top of the list or boost its score.
+
+export type PriorityScoreFactor = 'dueDate' | 'orderAge' | 'customerType' | 'manualPriority' | 'siblingProgress';
+
+export type PriorityScoringWeights = Record<PriorityScoreFactor, number>;
+
+export interface PriorityScoringConfig {
+  weights: PriorityScoringWeights;
+  customerTypeScores: Record<string, number>; // 0 to 1 per customer type
+}
+
+// Runtime config values, all optional strings when they come from the environment
+export interface PriorityScoringRuntimeConfig {
+  dueDateWeight?: string | number;
+  orderAgeWeight?: string | number;
+  customerTypeWeight?: string | number;
+  manualPriorityWeight?: string | number;
+  siblingProgressWeight?: string | number;
+  customerTypeScores?: string;
+}
+
+export const DEFAULT_PRIORITY_SCORING_WEIGHTS: PriorityScoringWeights = {
+  dueDate: 40,
+  orderAge: 15,
+  customerType: 10,
+  manualPriority: 25,
+  siblingProgress: 10
+};
+
+// Dealers buy in volume and resell on a schedule, so wholesale orders rank ahead of retail by default
+export const DEFAULT_CUSTOMER_TYPE_SCORES: Record<string, number> = {
+  WHOLESALER: 1,
+  CA_WHOLESALE: 1,
+  RETAILER: 0.5,
+  CA_RETAIL: 0.5
+};
+
+// Orders due this many days out or later get no due-date points; orders due today or overdue get all of them
+export const DUE_DATE_HORIZON_DAYS = 14;
+
+// Orders this old get all of the order-age points
+export const ORDER_AGE_HORIZON_DAYS = 30;
+
+// Largest boost (or penalty) an admin can give an item, in score points
+export const PRIORITY_BOOST_LIMIT = 100;
+
+// Number of items shown on the priority list
+export const PRIORITY_LIST_LIMIT = 75;
+
+const MANUAL_PRIORITY_SCORES: Record<string, number> = {
+  HIGH: 1,
+  MEDIUM: 0.5,
+  LOW: 0,
+  NO_PRIORITY: 0
+};
+
+// Sibling items that have been through production
+const SIBLING_DONE_STATUSES = ['PRODUCT_FINISHED', 'READY'];
+
+const FACTOR_LABELS: Record<PriorityScoreFactor, string> = {
+  dueDate: 'Due date',
+  orderAge: 'Order age',
+  customerType: 'Customer',
+  manualPriority: 'Priority',
+  siblingProgress: 'Rest of order'
+};
+
+const CUSTOMER_TYPE_LABELS: Record<string, string> = {
+  WHOLESALER: 'Wholesaler',
+  CA_WHOLESALE: 'CA Wholesale',
+  RETAILER: 'Retailer',
+  CA_RETAIL: 'CA Retail'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PriorityScoreInput {
+  priority: string;
+  dueDate: Date | string | null;
+  orderCreatedAt: Date | string;
+  customerType: string | null;
+  siblingStatuses: string[]; // Statuses of the order's other production items
+  boost: number;
+}
+
+export interface PriorityScoreComponent {
+  factor: PriorityScoreFactor;
+  label: string;
+  detail: string;
+  points: number;
+  maxPoints: number;
+}
+
+export interface PriorityScore {
+  total: number;
+  boost: number;
+  components: PriorityScoreComponent[];
+}
+
+export interface RankablePriorityItem {
+  score: number;
+  pinnedAt: Date | string | null;
+  nextStationName: string | null;
+  orderCreatedAt: Date | string;
+}
+
+/**
+ * Build the scoring config from the runtime config
+ * Missing, negative or non-numeric weights fall back to the defaults. Customer type scores are given as
+ * "TYPE:score" pairs (e.g. "WHOLESALER:1,RETAILER:0.25") and override the defaults per type.
+ */
+export function parsePriorityScoringConfig(config?: PriorityScoringRuntimeConfig | null): PriorityScoringConfig {
+  const weight = (value: string | number | undefined, fallback: number) => {
+    if (value === undefined || value === null || value === '') {
+      return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  const customerTypeScores = { ...DEFAULT_CUSTOMER_TYPE_SCORES };
+  for (const pair of (config?.customerTypeScores || '').split(',')) {
+    const [type, value] = pair.split(':').map(part => part.trim());
+    const score = Number(value);
+    if (type && value && Number.isFinite(score)) {
+      customerTypeScores[type.toUpperCase()] = clamp(score);
+    }
+  }
+
+  return {
+    weights: {
+      dueDate: weight(config?.dueDateWeight, DEFAULT_PRIORITY_SCORING_WEIGHTS.dueDate),
+      orderAge: weight(config?.orderAgeWeight, DEFAULT_PRIORITY_SCORING_WEIGHTS.orderAge),
+      customerType: weight(config?.customerTypeWeight, DEFAULT_PRIORITY_SCORING_WEIGHTS.customerType),
+      manualPriority: weight(config?.manualPriorityWeight, DEFAULT_PRIORITY_SCORING_WEIGHTS.manualPriority),
+      siblingProgress: weight(config?.siblingProgressWeight, DEFAULT_PRIORITY_SCORING_WEIGHTS.siblingProgress)
+    },
+    customerTypeScores
+  };
+}
+
+/**
+ * Score a production item for the priority list
+ * - Due date: the less slack before the order's due date, the more points; overdue orders get all of them
+ * - Order age: older orders score higher, up to ORDER_AGE_HORIZON_DAYS
+ * - Customer: the configured score of the customer type
+ * - Priority: the order's manual priority (HIGH, MEDIUM, LOW)
+ * - Rest of order: the share of the order's other items that are already done, so nearly complete orders can ship
+ *
+ * @returns The total (including the admin boost) and the points of each factor, rounded to one decimal
+ */
+export function calculatePriorityScore(
+  input: PriorityScoreInput,
+  config: PriorityScoringConfig = parsePriorityScoringConfig(),
+  now: Date = new Date()
+): PriorityScore {
+  const component = (factor: PriorityScoreFactor, value: number, detail: string): PriorityScoreComponent => ({
+    factor,
+    label: FACTOR_LABELS[factor],
+    detail,
+    points: round(clamp(value) * config.weights[factor]),
+    maxPoints: config.weights[factor]
+  });
+
+  const components: PriorityScoreComponent[] = [];
+
+  if (input.dueDate) {
+    const daysLeft = (new Date(input.dueDate).getTime() - now.getTime()) / DAY_MS;
+    const wholeDays = Math.ceil(Math.abs(daysLeft));
+    const detail = daysLeft < 0
+      ? `Overdue by ${wholeDays}d`
+      : daysLeft < 1 ? 'Due today' : `Due in ${wholeDays}d`;
+    components.push(component('dueDate', 1 - daysLeft / DUE_DATE_HORIZON_DAYS, detail));
+  } else {
+    components.push(component('dueDate', 0, 'No due date'));
+  }
+
+  const ageDays = Math.max(0, (now.getTime() - new Date(input.orderCreatedAt).getTime()) / DAY_MS);
+  components.push(component('orderAge', ageDays / ORDER_AGE_HORIZON_DAYS, `Ordered ${Math.floor(ageDays)}d ago`));
+
+  const customerType = input.customerType || '';
+  components.push(component(
+    'customerType',
+    config.customerTypeScores[customerType] ?? 0,
+    CUSTOMER_TYPE_LABELS[customerType] || customerType || 'Unknown type'
+  ));
+
+  components.push(component('manualPriority', MANUAL_PRIORITY_SCORES[input.priority] ?? 0, `${input.priority} priority`));
+
+  const siblingCount = input.siblingStatuses.length;
+  const siblingsDone = input.siblingStatuses.filter(status => SIBLING_DONE_STATUSES.includes(status)).length;
+  components.push(component(
+    'siblingProgress',
+    siblingCount > 0 ? siblingsDone / siblingCount : 0,
+    siblingCount > 0 ? `${siblingsDone} of ${siblingCount} other items done` : 'Only item on the order'
+  ));
+
+  const total = components.reduce((sum, { points }) => sum + points, 0) + input.boost;
+
+  return {
+    total: round(total),
+    boost: input.boost,
+    components
+  };
+}
+
+/**
+ * Sort items into the order they are shown on the priority list
+ * Pinned items come first (earliest pin first). When a station is given, the items waiting for that
+ * station's step come next, so each station sees its own work ranked at the top. The rest is by score,
+ * highest first, with older orders winning ties.
+ */
+export function rankPriorityItems<T extends RankablePriorityItem>(items: T[], stationName?: string | null): T[] {
+  const pinTime = (item: T) => (item.pinnedAt ? new Date(item.pinnedAt).getTime() : Infinity);
+  const atStation = (item: T) => (stationName && item.nextStationName === stationName ? 0 : 1);
+
+  return [...items].sort((a, b) => {
+    if (pinTime(a) !== pinTime(b)) {
+      return pinTime(a) - pinTime(b);
+    }
+    if (atStation(a) !== atStation(b)) {
+      return atStation(a) - atStation(b);
+    }
+    if (a.score !== b.score) {
+      return b.score - a.score;
+    }
+    return new Date(a.orderCreatedAt).getTime() - new Date(b.orderCreatedAt).getTime();
+  });
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
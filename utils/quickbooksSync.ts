@@ -0,0 +1,222 @@
+// Outbound QuickBooks sync helpers - build the sparse invoice update we push back to QBO and decide
+// whether a push is safe, worth retrying, or would overwrite an edit someone made in QuickBooks.
+
+import { PORTAL_ORDER_STATUS_LABELS } from './customerPortal';
+
+export const QBO_SYNC_MAX_ATTEMPTS = 5;
+
+// Retry backoff: 1m, 4m, 16m, 64m, capped at 6h
+export const QBO_SYNC_BASE_RETRY_MS = 60 * 1000;
+export const QBO_SYNC_MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+
+// QBO rejects custom field values and tracking numbers longer than this
+export const QBO_STRING_FIELD_MAX_LENGTH = 31;
+
+// Fault code QBO returns when the SyncToken in an update is not the invoice's current one
+export const QBO_STALE_OBJECT_ERROR_CODE = '5010';
+
+export const QBO_SYNCED_FIELDS = ['shipDate', 'trackingNumber', 'shipMethod', 'productionStatus'] as const;
+
+export type QboSyncedField = typeof QBO_SYNCED_FIELDS[number];
+
+export type InvoiceSyncValues = Record<QboSyncedField, string | null>;
+
+export interface InvoiceSyncSource {
+  orderStatus: string;
+  shipDate: Date | string | null;
+  trackingNumber: string | null;
+  shipments?: {
+    carrier: string;
+    serviceName: string | null;
+    serviceCode: string;
+    status: string;
+    createdAt: Date | string;
+  }[];
+}
+
+// The parts of a QBO Invoice we read and write
+export interface QboInvoice {
+  Id: string;
+  SyncToken: string;
+  ShipDate?: string;
+  TrackingNum?: string;
+  ShipMethodRef?: { value: string; name?: string };
+  CustomField?: { DefinitionId: string; Name?: string; Type: string; StringValue?: string }[];
+}
+
+export interface QboInvoiceUpdate {
+  Id: string;
+  SyncToken: string;
+  sparse: true;
+  ShipDate?: string;
+  TrackingNum?: string;
+  ShipMethodRef?: { value: string; name: string };
+  CustomField?: { DefinitionId: string; Type: 'StringType'; StringValue: string }[];
+}
+
+export interface PreviousInvoiceSync {
+  syncToken: string | null;
+  pushedValues: Partial<InvoiceSyncValues> | null;
+}
+
+// Shape of the errors $fetch throws for QBO requests; the Fault body is in `data`
+interface QboRequestError {
+  statusCode?: number;
+  status?: number;
+  message?: string;
+  data?: { Fault?: { Error?: { code?: string | number; Message?: string; Detail?: string }[] } };
+}
+
+export interface InvoiceConflict {
+  conflict: boolean;
+  changedFields: QboSyncedField[];
+}
+
+/**
+ * Work out the values we want on the invoice from the order and its shipments
+ * The ship method comes from the most recent shipment that has not been voided.
+ */
+export function buildInvoiceSyncValues(source: InvoiceSyncSource): InvoiceSyncValues {
+  const latestShipment = (source.shipments || [])
+    .filter(shipment => shipment.status !== 'VOIDED')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+
+  const shipMethod = latestShipment
+    ? truncate(`${latestShipment.carrier} ${latestShipment.serviceName || latestShipment.serviceCode}`)
+    : null;
+
+  return {
+    shipDate: source.shipDate ? formatQboDate(new Date(source.shipDate)) : null,
+    trackingNumber: source.trackingNumber ? truncate(source.trackingNumber) : null,
+    shipMethod,
+    productionStatus: truncate(PORTAL_ORDER_STATUS_LABELS[source.orderStatus] || source.orderStatus)
+  };
+}
+
+/**
+ * Read the values of the fields we own from a QBO invoice
+ */
+export function readInvoiceSyncValues(invoice: QboInvoice, productionStatusFieldId?: string | null): InvoiceSyncValues {
+  const customField = productionStatusFieldId
+    ? invoice.CustomField?.find(field => field.DefinitionId === productionStatusFieldId)
+    : undefined;
+
+  return {
+    shipDate: invoice.ShipDate || null,
+    trackingNumber: invoice.TrackingNum || null,
+    shipMethod: invoice.ShipMethodRef?.value || null,
+    productionStatus: customField?.StringValue || null
+  };
+}
+
+/**
+ * Build a sparse invoice update so only the fields we own are touched
+ * Empty values are left out rather than cleared - QBO treats an omitted field as unchanged.
+ * The production status is skipped when no custom field has been configured.
+ */
+export function buildSparseInvoiceUpdate(
+  invoice: Pick<QboInvoice, 'Id' | 'SyncToken'>,
+  values: InvoiceSyncValues,
+  productionStatusFieldId?: string | null
+): QboInvoiceUpdate {
+  const update: QboInvoiceUpdate = {
+    Id: invoice.Id,
+    SyncToken: invoice.SyncToken,
+    sparse: true
+  };
+
+  if (values.shipDate) {
+    update.ShipDate = values.shipDate;
+  }
+  if (values.trackingNumber) {
+    update.TrackingNum = values.trackingNumber;
+  }
+  if (values.shipMethod) {
+    update.ShipMethodRef = { value: values.shipMethod, name: values.shipMethod };
+  }
+  if (productionStatusFieldId && values.productionStatus) {
+    update.CustomField = [{ DefinitionId: productionStatusFieldId, Type: 'StringType', StringValue: values.productionStatus }];
+  }
+
+  return update;
+}
+
+/**
+ * Check whether pushing would overwrite an edit made in QuickBooks
+ * An unchanged SyncToken means nobody has touched the invoice since our last write. Otherwise a field
+ * conflicts when QBO holds a value that is neither what we last pushed nor what we are about to push.
+ */
+export function detectInvoiceConflict(
+  invoice: QboInvoice,
+  nextValues: InvoiceSyncValues,
+  previous: PreviousInvoiceSync | null,
+  productionStatusFieldId?: string | null
+): InvoiceConflict {
+  if (previous?.syncToken && previous.syncToken === invoice.SyncToken) {
+    return { conflict: false, changedFields: [] };
+  }
+
+  const currentValues = readInvoiceSyncValues(invoice, productionStatusFieldId);
+  const changedFields = QBO_SYNCED_FIELDS.filter(field => {
+    const current = currentValues[field];
+    if (!current || current === nextValues[field]) {
+      return false;
+    }
+
+    return current !== (previous?.pushedValues?.[field] ?? null);
+  });
+
+  return { conflict: changedFields.length > 0, changedFields };
+}
+
+/**
+ * Check whether an error is QBO rejecting our SyncToken because the invoice changed under us
+ */
+export function isStaleObjectError(error: unknown): boolean {
+  const errors = (error as QboRequestError | null)?.data?.Fault?.Error || [];
+  return errors.some(entry => String(entry?.code) === QBO_STALE_OBJECT_ERROR_CODE);
+}
+
+/**
+ * Check whether a failed push is worth retrying
+ * Validation errors and missing invoices will fail the same way every time.
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  if (isStaleObjectError(error)) {
+    return true;
+  }
+
+  const statusCode = (error as QboRequestError | null)?.statusCode ?? (error as QboRequestError | null)?.status;
+  return statusCode !== 400 && statusCode !== 404;
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have already been made
+ */
+export function getSyncRetryDelayMs(attempts: number): number {
+  const delay = QBO_SYNC_BASE_RETRY_MS * Math.pow(4, Math.max(0, attempts - 1));
+  return Math.min(delay, QBO_SYNC_MAX_RETRY_MS);
+}
+
+/**
+ * Pull a readable message out of a QBO fault or fetch error
+ */
+export function getSyncErrorMessage(error: unknown): string {
+  const requestError = error as QboRequestError | null;
+  const fault = requestError?.data?.Fault?.Error?.[0];
+  if (fault) {
+    return [fault.Message, fault.Detail].filter(Boolean).join(': ');
+  }
+
+  return requestError?.message || String(error);
+}
+
+function formatQboDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function truncate(value: string): string {
+  return value.length > QBO_STRING_FIELD_MAX_LENGTH ? value.slice(0, QBO_STRING_FIELD_MAX_LENGTH) : value;
+}
@@ -0,0 +1,166 @@
+/**
+ * Quote PDF
+ *
+ * Renders a quote as a letter-size PDF to attach to the quote email, with the same minimal PDF writer the
+ * labels use. Lines that do not fit on a page continue on the next one.
+ */
+
+import { buildPdf, escapePdf } from './labelRenderer';
+import { formatQuoteDate } from './quotes';
+
+export interface QuoteDocumentLine {
+  name: string;
+  description: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface QuoteDocument {
+  companyName: string;
+  quoteNumber: string;
+  customerName: string;
+  date: Date;
+  expirationDate: Date | null;
+  memo: string | null;
+  lines: QuoteDocumentLine[];
+  total: number;
+  acceptUrl: string | null;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+
+// Column x positions; the item column takes the rest of the width
+const QTY_X = 360;
+const UNIT_PRICE_X = 420;
+const AMOUNT_X = 500;
+
+/**
+ * Render a quote as a PDF
+ */
+export function renderQuotePdf(quote: QuoteDocument): string {
+  const pages: string[][] = [[]];
+  let y = MARGIN;
+
+  const ops = () => pages[pages.length - 1];
+  // PDF puts the origin at the bottom left; layout below is measured from the top
+  const text = (x: number, top: number, size: number, value: string, bold = false) => {
+    ops().push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${PAGE_HEIGHT - top - size} Td (${escapePdf(value)}) Tj ET`);
+  };
+  const rule = (top: number) => {
+    ops().push(`${MARGIN} ${PAGE_HEIGHT - top} ${PAGE_WIDTH - MARGIN * 2} 0.5 re f`);
+  };
+  const tableHeader = () => {
+    text(MARGIN, y, 9, 'Item', true);
+    text(QTY_X, y, 9, 'Qty', true);
+    text(UNIT_PRICE_X, y, 9, 'Unit Price', true);
+    text(AMOUNT_X, y, 9, 'Amount', true);
+    y += 14;
+    rule(y);
+    y += 6;
+  };
+  // Start a new page when the next block would run into the bottom margin
+  const ensureSpace = (height: number, repeatHeader: boolean) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    pages.push([]);
+    y = MARGIN;
+    text(MARGIN, y, 9, `${quote.companyName} - Quote ${quote.quoteNumber} (continued)`);
+    y += 24;
+    if (repeatHeader) tableHeader();
+  };
+
+  text(MARGIN, y, 20, quote.companyName, true);
+  text(AMOUNT_X - 60, y, 16, 'QUOTE', true);
+  y += 32;
+  text(MARGIN, y, 10, 'Prepared for', true);
+  text(AMOUNT_X - 60, y, 10, `Quote # ${quote.quoteNumber}`);
+  y += 14;
+  text(MARGIN, y, 10, quote.customerName);
+  text(AMOUNT_X - 60, y, 10, `Date: ${formatQuoteDate(quote.date)}`);
+  y += 14;
+  if (quote.expirationDate) {
+    text(AMOUNT_X - 60, y, 10, `Valid until: ${formatQuoteDate(quote.expirationDate)}`);
+  }
+  y += 30;
+
+  tableHeader();
+  for (const line of quote.lines) {
+    const descriptionLines = line.description ? wrapPdfText(line.description, QTY_X - MARGIN - 10, 8) : [];
+    ensureSpace(14 + descriptionLines.length * 10 + 6, true);
+
+    text(MARGIN, y, 10, line.name, true);
+    text(QTY_X, y, 10, String(line.quantity));
+    text(UNIT_PRICE_X, y, 10, formatMoney(line.unitPrice));
+    text(AMOUNT_X, y, 10, formatMoney(line.quantity * line.unitPrice));
+    y += 14;
+    for (const descriptionLine of descriptionLines) {
+      text(MARGIN, y, 8, descriptionLine);
+      y += 10;
+    }
+    y += 6;
+  }
+
+  ensureSpace(30, false);
+  rule(y);
+  y += 8;
+  text(UNIT_PRICE_X, y, 11, 'Total', true);
+  text(AMOUNT_X, y, 11, formatMoney(quote.total), true);
+  y += 36;
+
+  if (quote.memo) {
+    const memoLines = wrapPdfText(quote.memo, PAGE_WIDTH - MARGIN * 2, 10);
+    ensureSpace(14 + memoLines.length * 13, false);
+    for (const memoLine of memoLines) {
+      text(MARGIN, y, 10, memoLine);
+      y += 13;
+    }
+    y += 14;
+  }
+
+  if (quote.acceptUrl) {
+    const urlLines = wrapPdfText(quote.acceptUrl, PAGE_WIDTH - MARGIN * 2, 9);
+    ensureSpace(16 + urlLines.length * 12, false);
+    text(MARGIN, y, 10, 'To accept this quote, open:', true);
+    y += 16;
+    for (const urlLine of urlLines) {
+      text(MARGIN, y, 9, urlLine);
+      y += 12;
+    }
+  }
+
+  return buildPdf(pages.map(page => page.join('\n')), PAGE_WIDTH, PAGE_HEIGHT);
+}
+
+/**
+ * Break text into lines that fit a width, using Helvetica's average character width
+ * Words longer than a line (e.g. a URL) are split.
+ */
+export function wrapPdfText(value: string, width: number, fontSize: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (fontSize * 0.5)));
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (line.length > maxChars) {
+        lines.push(line.slice(0, maxChars));
+        line = line.slice(maxChars);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
+}
@@ -0,0 +1,192 @@
+// Quotes - estimates written in the app from the cover configurator and the price lists.
+// A quote is emailed to the customer as a PDF with an accept link, pushed to QuickBooks as an Estimate, and turned
+// into an order (linked through Order.estimateId) with one click. Quotes are valid for quotes.validDays from the
+// runtime config unless they are given an expiration date, and the customer is reminded once,
+// quotes.reminderDaysBeforeExpiry days before the quote expires. Expiration dates are calendar days (midnight UTC)
+// and a quote can be accepted until the end of its expiration date.
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'EXPIRED' | 'CONVERTED';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  ACCEPTED: 'Accepted',
+  EXPIRED: 'Expired',
+  CONVERTED: 'Converted'
+};
+
+export const QUOTE_STATUS_CLASSES: Record<QuoteStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  SENT: 'bg-blue-100 text-blue-800',
+  ACCEPTED: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-yellow-100 text-yellow-800',
+  CONVERTED: 'bg-indigo-100 text-indigo-800'
+};
+
+// Quotes that can still be changed and sent; an accepted quote is what the customer agreed to
+export const OPEN_QUOTE_STATUSES: QuoteStatus[] = ['DRAFT', 'SENT', 'EXPIRED'];
+
+// Who can write, send and convert quotes
+export const QUOTE_EDITOR_ROLES = ['Super Admin', 'Admin', 'Office Employee'];
+
+export const QUOTE_NUMBER_PREFIX = 'Q-';
+const FIRST_QUOTE_NUMBER = 1001;
+
+export const DEFAULT_QUOTE_VALID_DAYS = 30;
+export const DEFAULT_QUOTE_REMINDER_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuoteRuntimeConfig {
+  validDays?: string | number;
+  reminderDaysBeforeExpiry?: string | number;
+}
+
+export interface QuoteSettings {
+  validDays: number;
+  reminderDaysBeforeExpiry: number; // 0 sends no reminders
+}
+
+export interface QuoteLineAmount {
+  quantity: number;
+  pricePerItem: number;
+}
+
+export interface QuoteReminderSource {
+  status: QuoteStatus;
+  expirationDate: Date | null;
+  reminderSentAt: Date | null;
+  customerEmail: string | null;
+}
+
+export interface QuoteQboLine {
+  quickbooksEstimateLineId: string | null;
+  itemQboId: string;
+  lineDescription: string | null;
+  quantity: number;
+  pricePerItem: number;
+}
+
+export interface QuoteQboSource {
+  quickbooksEstimateId: string | null;
+  syncToken: string | null;
+  customerQboId: string;
+  estimateNumber: string | null;
+  transactionDate: Date | null;
+  expirationDate: Date | null;
+  customerEmail: string | null;
+  customerMemo: string | null;
+  status: QuoteStatus;
+  lines: QuoteQboLine[];
+}
+
+/**
+ * Build the quote settings from the runtime config; missing or invalid values use the defaults
+ */
+export function parseQuoteSettings(config?: QuoteRuntimeConfig | null): QuoteSettings {
+  const days = (value: string | number | undefined, fallback: number, allowZero: boolean) => {
+    if (value === undefined || value === '') {
+      return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && (parsed > 0 || (allowZero && parsed === 0)) ? parsed : fallback;
+  };
+
+  return {
+    validDays: days(config?.validDays, DEFAULT_QUOTE_VALID_DAYS, false),
+    reminderDaysBeforeExpiry: days(config?.reminderDaysBeforeExpiry, DEFAULT_QUOTE_REMINDER_DAYS, true)
+  };
+}
+
+/**
+ * Total of a quote's lines, rounded to the cent
+ */
+export function getQuoteTotal(lines: QuoteLineAmount[]): number {
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.pricePerItem, 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * The expiration date of a quote sent on a date
+ */
+export function getQuoteExpirationDate(sentAt: Date, settings: QuoteSettings): Date {
+  return new Date(Date.UTC(sentAt.getUTCFullYear(), sentAt.getUTCMonth(), sentAt.getUTCDate() + settings.validDays));
+}
+
+/**
+ * When a quote with an expiration date stops being accepted - the end of that day
+ */
+export function getQuoteExpiresAt(expirationDate: Date): Date {
+  return new Date(expirationDate.getTime() + DAY_MS);
+}
+
+/**
+ * Write a quote's calendar date, e.g. "11/18/2026"
+ */
+export function formatQuoteDate(date: Date): string {
+  return `${date.getUTCMonth() + 1}/${date.getUTCDate()}/${date.getUTCFullYear()}`;
+}
+
+/**
+ * The number for a new quote, following the last one written in the app, e.g. "Q-1042" -> "Q-1043"
+ */
+export function getNextQuoteNumber(lastNumber: string | null | undefined): string {
+  const last = lastNumber?.startsWith(QUOTE_NUMBER_PREFIX) ? parseInt(lastNumber.slice(QUOTE_NUMBER_PREFIX.length), 10) : NaN;
+  return `${QUOTE_NUMBER_PREFIX}${Number.isNaN(last) ? FIRST_QUOTE_NUMBER : last + 1}`;
+}
+
+/**
+ * Whether a sent quote is past its expiration date
+ */
+export function isQuoteExpired(quote: Pick<QuoteReminderSource, 'status' | 'expirationDate'>, now: Date = new Date()): boolean {
+  return quote.status === 'SENT' && quote.expirationDate !== null && getQuoteExpiresAt(quote.expirationDate).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a sent quote expires within the reminder window and has not had its reminder yet
+ */
+export function isQuoteDueForReminder(quote: QuoteReminderSource, settings: QuoteSettings, now: Date = new Date()): boolean {
+  if (quote.status !== 'SENT' || !quote.expirationDate || quote.reminderSentAt || !quote.customerEmail || settings.reminderDaysBeforeExpiry <= 0) {
+    return false;
+  }
+  const remainingMs = getQuoteExpiresAt(quote.expirationDate).getTime() - now.getTime();
+  return remainingMs > 0 && remainingMs <= settings.reminderDaysBeforeExpiry * DAY_MS;
+}
+
+/**
+ * Build the QBO Estimate for a quote
+ * Updates are sparse but replace every line; lines pushed before keep their QBO line Id.
+ */
+export function buildQboEstimate(source: QuoteQboSource): Record<string, unknown> {
+  const date = (value: Date | null) => (value ? value.toISOString().slice(0, 10) : undefined);
+
+  const estimate: Record<string, unknown> = {
+    CustomerRef: { value: source.customerQboId },
+    TxnStatus: source.status === 'ACCEPTED' || source.status === 'CONVERTED' ? 'Accepted' : 'Pending',
+    Line: source.lines.map(line => ({
+      ...(line.quickbooksEstimateLineId ? { Id: line.quickbooksEstimateLineId } : {}),
+      DetailType: 'SalesItemLineDetail',
+      Amount: getQuoteTotal([line]),
+      Description: line.lineDescription || undefined,
+      SalesItemLineDetail: {
+        ItemRef: { value: line.itemQboId },
+        Qty: line.quantity,
+        UnitPrice: line.pricePerItem
+      }
+    }))
+  };
+
+  if (source.estimateNumber) estimate.DocNumber = source.estimateNumber;
+  if (source.transactionDate) estimate.TxnDate = date(source.transactionDate);
+  if (source.expirationDate) estimate.ExpirationDate = date(source.expirationDate);
+  if (source.customerEmail) estimate.BillEmail = { Address: source.customerEmail };
+  if (source.customerMemo) estimate.CustomerMemo = { value: source.customerMemo };
+
+  if (source.quickbooksEstimateId) {
+    estimate.Id = source.quickbooksEstimateId;
+    estimate.SyncToken = source.syncToken;
+    estimate.sparse = true;
+  }
+
+  return estimate;
+}
@@ -0,0 +1,107 @@
+// Shipping package estimation - derives box dimensions and weight for production items
+// Spa covers ship folded in half along the hinge, so the box is the full length by half the width.
+// Cover for covers have no foam core and ship rolled in a small box.
+
+export interface ShippingPackageDimensions {
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  weightLb: number;
+}
+
+export interface PackageSourceItem {
+  id?: string;
+  size?: string | null;
+  shape?: string | null;
+  length?: string | null;
+  width?: string | null;
+  productType?: string | null;
+  foamUpgrade?: string | null;
+}
+
+// Padding added to each side of the folded cover for the box and plastic wrap
+const PACKAGING_ALLOWANCE_IN = 4;
+// Height of a folded cover (two tapered halves stacked) including packaging
+const FOLDED_SPA_COVER_HEIGHT_IN = 12;
+// Typical spa cover weight per square foot of cover (vinyl + foam core)
+const SPA_COVER_LB_PER_SQ_FT = 1.1;
+const HEAVY_FOAM_LB_PER_SQ_FT = 0.3;
+const SPA_COVER_FALLBACK_SIZE_IN = 84;
+
+export const COVER_FOR_COVER_PACKAGE: ShippingPackageDimensions = {
+  lengthIn: 30,
+  widthIn: 20,
+  heightIn: 10,
+  weightLb: 15
+};
+
+/**
+ * Parse an inch value from an attribute string like "84", "84\"" or "84.5 in"
+ */
+function parseInches(value?: string | null): number | null {
+  if (!value) return null;
+  const match = String(value).match(/\d+(\.\d+)?/);
+  if (!match) return null;
+  const inches = parseFloat(match[0]);
+  return inches > 0 ? inches : null;
+}
+
+/**
+ * Work out the cover footprint (length x width in inches) from size/shape/length/width
+ */
+export function getCoverFootprint(item: PackageSourceItem): { lengthIn: number; widthIn: number } {
+  const size = parseInches(item.size);
+  const length = parseInches(item.length) || size || SPA_COVER_FALLBACK_SIZE_IN;
+  const width = parseInches(item.width) || size || length;
+
+  return {
+    lengthIn: Math.max(length, width),
+    widthIn: Math.min(length, width)
+  };
+}
+
+/**
+ * Estimate the shipping package for one production item
+ */
+export function estimateItemPackage(item: PackageSourceItem): ShippingPackageDimensions {
+  if (item.productType === 'COVER_FOR_COVER') {
+    return { ...COVER_FOR_COVER_PACKAGE };
+  }
+
+  const { lengthIn, widthIn } = getCoverFootprint(item);
+  const isRound = (item.shape || '').toLowerCase() === 'round';
+
+  // Round covers use the circle area; everything else is treated as the full rectangle
+  const areaSqFt = isRound
+    ? Math.PI * Math.pow(lengthIn / 2, 2) / 144
+    : (lengthIn * widthIn) / 144;
+
+  const hasHeavyFoam = !!item.foamUpgrade && item.foamUpgrade !== 'No';
+  const weightPerSqFt = SPA_COVER_LB_PER_SQ_FT + (hasHeavyFoam ? HEAVY_FOAM_LB_PER_SQ_FT : 0);
+
+  return {
+    lengthIn: lengthIn + PACKAGING_ALLOWANCE_IN,
+    widthIn: Math.ceil(widthIn / 2) + PACKAGING_ALLOWANCE_IN,
+    heightIn: FOLDED_SPA_COVER_HEIGHT_IN,
+    weightLb: Math.ceil(areaSqFt * weightPerSqFt)
+  };
+}
+
+/**
+ * Estimate the packages for an order - one package per unit of each production item
+ */
+export function estimateOrderPackages(items: Array<PackageSourceItem & { quantity?: number }>): Array<ShippingPackageDimensions & { orderItemIds: string[] }> {
+  const packages: Array<ShippingPackageDimensions & { orderItemIds: string[] }> = [];
+
+  for (const item of items) {
+    const units = Math.max(1, item.quantity || 1);
+    for (let unit = 0; unit < units; unit++) {
+      packages.push({
+        ...estimateItemPackage(item),
+        orderItemIds: item.id ? [item.id] : []
+      });
+    }
+  }
+
+  return packages;
+}
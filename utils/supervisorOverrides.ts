@@ -0,0 +1,116 @@
+// Supervisor overrides of blocked kiosk scans
+// When the workflow refuses a scan (a backward move, a skipped station, a second Office scan) a supervisor
+// with the override permission can force the station's step with a reason. Overrides are recorded in the
+// item status log and the audit log, and reported per station. Used by server/lib/SupervisorOverrideService.ts,
+// the kiosk and the reports page.
+
+// Permission a role needs before its members can approve an override (Super Admins always can)
+export const SUPERVISOR_OVERRIDE_PERMISSION = { action: 'override', subject: 'WorkflowTransition' } as const;
+
+// Audit log action and status log trigger of an override
+export const SUPERVISOR_OVERRIDE_AUDIT_ACTION = 'SUPERVISOR_OVERRIDE';
+export const SUPERVISOR_OVERRIDE_TRIGGER = 'supervisor_override';
+
+export const OVERRIDE_REASON_MIN_LENGTH = 5;
+
+export interface OverrideUser {
+  id: string;
+  name: string;
+}
+
+// What the audit log keeps of an override (its newValue)
+export interface OverrideAuditDetails {
+  orderItemId: string;
+  unitId: string | null;
+  unitLabel: string | null;
+  stationId: string;
+  stationName: string;
+  stepName: string;
+  fromStatus: string;
+  toStatus: string;
+  reason: string;
+  operator: OverrideUser;
+  supervisor: OverrideUser;
+}
+
+export interface OverrideRecord extends OverrideAuditDetails {
+  id: string;
+  timestamp: Date;
+}
+
+export interface OverrideStationSummary {
+  stationId: string;
+  stationName: string;
+  count: number;
+  // Most frequent forced moves first - the ones the process keeps getting wrong
+  transitions: { fromStatus: string; toStatus: string; count: number }[];
+  supervisors: { id: string; name: string; count: number }[];
+  lastOverrideAt: Date;
+}
+
+/**
+ * Check whether an audit log value is the record of an override
+ */
+export function isOverrideAuditDetails(value: unknown): value is OverrideAuditDetails {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const details = value as Partial<OverrideAuditDetails>;
+  return typeof details.orderItemId === 'string'
+    && typeof details.stationName === 'string'
+    && typeof details.toStatus === 'string'
+    && !!details.operator
+    && !!details.supervisor;
+}
+
+/**
+ * Group overrides by the station whose scan was blocked
+ * @returns One summary per station, the station with most overrides first
+ */
+export function summarizeOverridesByStation(overrides: OverrideRecord[]): OverrideStationSummary[] {
+  const stations = new Map<string, OverrideStationSummary>();
+
+  for (const override of overrides) {
+    const key = override.stationId || override.stationName;
+    let summary = stations.get(key);
+    if (!summary) {
+      summary = {
+        stationId: override.stationId,
+        stationName: override.stationName,
+        count: 0,
+        transitions: [],
+        supervisors: [],
+        lastOverrideAt: override.timestamp
+      };
+      stations.set(key, summary);
+    }
+
+    summary.count++;
+    if (override.timestamp > summary.lastOverrideAt) {
+      summary.lastOverrideAt = override.timestamp;
+    }
+
+    const transition = summary.transitions.find(t => t.fromStatus === override.fromStatus && t.toStatus === override.toStatus);
+    if (transition) {
+      transition.count++;
+    } else {
+      summary.transitions.push({ fromStatus: override.fromStatus, toStatus: override.toStatus, count: 1 });
+    }
+
+    const supervisor = summary.supervisors.find(s => s.id === override.supervisor.id);
+    if (supervisor) {
+      supervisor.count++;
+    } else {
+      summary.supervisors.push({ ...override.supervisor, count: 1 });
+    }
+  }
+
+  return Array.from(stations.values())
+    .map(summary => ({
+      ...summary,
+      transitions: summary.transitions.sort((a, b) => b.count - a.count),
+      supervisors: summary.supervisors.sort((a, b) => b.count - a.count)
+    }))
+    .sort((a, b) => b.count - a.count || a.stationName.localeCompare(b.stationName));
+}
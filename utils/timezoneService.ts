@@ -181,7 +181,8 @@ export class TimezoneService {
       // Get the timezone offset for the specific date
       const utcTime = localDate.getTime();
       const localTime = new Date(localDate.toLocaleString('en-US', { timeZone: timezone })).getTime();
-      const timezoneOffset = utcTime - localTime;
+      // The formatted wall clock has no milliseconds, so leave them out of the offset
+      const timezoneOffset = utcTime - localDate.getMilliseconds() - localTime;
       
       return new Date(utcTime + timezoneOffset);
     } catch (error) {
@@ -0,0 +1,139 @@
+// Station work time helpers - pause segments on processing logs, shift-end times and the stale-work
+// policy used by server/lib/productionTimer.ts. Only active time counts towards a log's duration.
+
+export const WORK_PAUSE_REASONS = ['BREAK', 'LUNCH', 'SHIFT_END', 'OTHER'] as const;
+
+// Logs still open this long after they started are closed by the stale-work job
+export const DEFAULT_WORK_AUTO_CLOSE_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WorkPause {
+  pausedAt: Date;
+  resumedAt: Date | null;
+}
+
+export interface ShiftTime {
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Seconds of a time window spent paused
+ * Open pauses run to the end of the window, and overlapping pauses are only counted once.
+ */
+export function getPausedSeconds(pauses: WorkPause[], from: Date, to: Date): number {
+  const segments = pauses
+    .map(pause => ({
+      start: Math.max(pause.pausedAt.getTime(), from.getTime()),
+      end: Math.min((pause.resumedAt ?? to).getTime(), to.getTime())
+    }))
+    .filter(segment => segment.end > segment.start)
+    .sort((a, b) => a.start - b.start);
+
+  let pausedMs = 0;
+  let coveredUntil = from.getTime();
+  for (const segment of segments) {
+    const start = Math.max(segment.start, coveredUntil);
+    if (segment.end > start) {
+      pausedMs += segment.end - start;
+      coveredUntil = segment.end;
+    }
+  }
+
+  return Math.floor(pausedMs / 1000);
+}
+
+/**
+ * Seconds actually worked between a log's start and end, leaving out its pauses
+ */
+export function getActiveSeconds(startTime: Date, endTime: Date, pauses: WorkPause[] = []): number {
+  const totalSeconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+  return Math.max(0, totalSeconds - getPausedSeconds(pauses, startTime, endTime));
+}
+
+/**
+ * The pause a log is currently in, if any
+ */
+export function getOpenPause<T extends WorkPause>(pauses: T[]): T | null {
+  return pauses.find(pause => !pause.resumedAt) || null;
+}
+
+/**
+ * Parse a comma-separated list of shift-end times such as "12:00,17:30"
+ * Entries that are not valid 24-hour times are ignored.
+ */
+export function parseShiftEndTimes(value: string | undefined | null): ShiftTime[] {
+  if (!value) {
+    return [];
+  }
+
+  return value.split(',')
+    .map(entry => /^(\d{1,2}):(\d{2})$/.exec(entry.trim()))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => ({ hours: Number(match[1]), minutes: Number(match[2]) }))
+    .filter(time => time.hours < 24 && time.minutes < 60);
+}
+
+/**
+ * The most recent shift end at or before now, within the last day
+ *
+ * @param shiftEnds - Shift-end times, as wall-clock times in the shop's time zone
+ * @param now - Current time
+ * @param timeZone - IANA time zone of the shop; the server's own zone when not given
+ */
+export function getLatestShiftEnd(shiftEnds: ShiftTime[], now: Date = new Date(), timeZone?: string): Date | null {
+  const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const nowWallClock = getWallClockMs(now, zone);
+  const todayWallClock = nowWallClock - (((nowWallClock % DAY_MS) + DAY_MS) % DAY_MS);
+
+  let latest: Date | null = null;
+  for (const dayStart of [todayWallClock, todayWallClock - DAY_MS]) {
+    for (const shiftEnd of shiftEnds) {
+      const wallClock = dayStart + (shiftEnd.hours * 60 + shiftEnd.minutes) * 60 * 1000;
+      const candidate = wallClockToDate(wallClock, zone);
+      if (candidate <= now && (!latest || candidate > latest)) {
+        latest = candidate;
+      }
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * When a stale log is closed
+ * A paused log ends where its pause began; otherwise it ends at the policy limit rather than now,
+ * so a forgotten log never counts more than the limit.
+ */
+export function getStaleWorkEndTime(startTime: Date, pauses: WorkPause[], maxHours: number): Date {
+  const openPause = getOpenPause(pauses);
+  if (openPause) {
+    return openPause.pausedAt;
+  }
+
+  return new Date(startTime.getTime() + maxHours * 60 * 60 * 1000);
+}
+
+// Wall-clock time in a time zone, expressed as if it were UTC
+function getWallClockMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+}
+
+function wallClockToDate(wallClock: number, timeZone: string): Date {
+  // The offset is taken twice so a shift end on a daylight saving change lands on the right side
+  const guess = wallClock - (getWallClockMs(new Date(wallClock), timeZone) - wallClock);
+  return new Date(wallClock - (getWallClockMs(new Date(guess), timeZone) - guess));
+}
@@ -0,0 +1,293 @@
+// Production workflow engine - resolves station scans against an ordered list of workflow steps
+// Workflows are stored in the database (Workflow / WorkflowStep); the built-in definitions below
+// mirror the original 6-step flow and are used for seeding and as a fallback when none are configured.
+// A step is identified by its ID (an item's currentStepId), not its status: the status is only what reports show
+// while an item waits there, and steps may share one - e.g. a Quality Check step that reports SEWING - so adding a
+// step or a station needs no new OrderItemProcessingStatus value.
+
+export interface WorkflowStepDefinition {
+  id?: string;
+  position: number;
+  name: string;
+  stationName: string;
+  itemStatus: string;
+  description?: string | null;
+}
+
+export interface WorkflowDefinition {
+  id?: string | null;
+  name: string;
+  productType?: string | null;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowScanContext {
+  itemStatus: string;
+  currentStepId?: string | null;
+  stationName: string;
+  lastScannedStation?: string | null;
+}
+
+export interface WorkflowTransition {
+  fromStep: WorkflowStepDefinition;
+  toStep: WorkflowStepDefinition | null; // NULL when the scan completes the workflow
+  fromStatus: string;
+  toStatus: string;
+  stepNumber: number;
+  description: string;
+}
+
+// Status an item takes once it has passed the last step of its workflow
+export const WORKFLOW_COMPLETE_STATUS = 'READY';
+
+// Canonical order of the processing statuses, used to place items whose status is not part of their workflow
+export const PROCESSING_STATUS_ORDER = [
+  'NOT_STARTED_PRODUCTION',
+  'CUTTING',
+  'SEWING',
+  'FOAM_CUTTING',
+  'STUFFING',
+  'PACKAGING',
+  'PRODUCT_FINISHED',
+  'READY'
+];
+
+// Standard spa cover flow: Office → Cutting → Sewing → Foam Cutting → Stuffing → Packaging → Office
+export const DEFAULT_PRODUCTION_WORKFLOW: WorkflowDefinition = {
+  name: 'Standard Spa Cover',
+  productType: 'SPA_COVER',
+  steps: [
+    { position: 1, name: 'Start Production', stationName: 'Office', itemStatus: 'NOT_STARTED_PRODUCTION', description: 'Office confirmed order printed - Production started' },
+    { position: 2, name: 'Cutting', stationName: 'Cutting', itemStatus: 'CUTTING' },
+    { position: 3, name: 'Sewing', stationName: 'Sewing', itemStatus: 'SEWING' },
+    { position: 4, name: 'Foam Cutting', stationName: 'Foam Cutting', itemStatus: 'FOAM_CUTTING' },
+    { position: 5, name: 'Stuffing', stationName: 'Stuffing', itemStatus: 'STUFFING' },
+    { position: 6, name: 'Packaging', stationName: 'Packaging', itemStatus: 'PACKAGING', description: 'Packaging completed - Product finished' },
+    { position: 7, name: 'Final Check', stationName: 'Office', itemStatus: 'PRODUCT_FINISHED', description: 'Office confirmed - Ready for delivery/pickup' }
+  ]
+};
+
+// Cover for cover has no foam core, so foam cutting and stuffing are skipped
+export const COVER_FOR_COVER_WORKFLOW: WorkflowDefinition = {
+  name: 'Cover For Cover',
+  productType: 'COVER_FOR_COVER',
+  steps: [
+    { position: 1, name: 'Start Production', stationName: 'Office', itemStatus: 'NOT_STARTED_PRODUCTION', description: 'Office confirmed order printed - Production started' },
+    { position: 2, name: 'Cutting', stationName: 'Cutting', itemStatus: 'CUTTING' },
+    { position: 3, name: 'Sewing', stationName: 'Sewing', itemStatus: 'SEWING' },
+    { position: 4, name: 'Packaging', stationName: 'Packaging', itemStatus: 'PACKAGING', description: 'Packaging completed - Product finished' },
+    { position: 5, name: 'Final Check', stationName: 'Office', itemStatus: 'PRODUCT_FINISHED', description: 'Office confirmed - Ready for delivery/pickup' }
+  ]
+};
+
+export const BUILT_IN_WORKFLOWS: WorkflowDefinition[] = [DEFAULT_PRODUCTION_WORKFLOW, COVER_FOR_COVER_WORKFLOW];
+
+/**
+ * Get the built-in workflow for a product type, falling back to the standard spa cover flow
+ */
+export function getBuiltInWorkflow(productType?: string | null): WorkflowDefinition {
+  return BUILT_IN_WORKFLOWS.find(workflow => workflow.productType === productType) || DEFAULT_PRODUCTION_WORKFLOW;
+}
+
+/**
+ * Return the workflow steps sorted by position
+ */
+export function getOrderedWorkflowSteps(workflow: WorkflowDefinition): WorkflowStepDefinition[] {
+  return [...workflow.steps].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Find the index of the step an item is currently waiting at
+ * Uses the stored step ID first, then the item status. Items whose status is not part of the
+ * workflow (e.g. FOAM_CUTTING on a cover for cover) are placed at the next step in canonical order.
+ *
+ * @returns The step index, or -1 if the item is past the end of the workflow
+ */
+export function findCurrentStepIndex(
+  steps: WorkflowStepDefinition[],
+  itemStatus: string,
+  currentStepId?: string | null
+): number {
+  if (currentStepId) {
+    const byId = steps.findIndex(step => step.id === currentStepId);
+    if (byId >= 0) {
+      return byId;
+    }
+  }
+
+  const byStatus = steps.findIndex(step => step.itemStatus === itemStatus);
+  if (byStatus >= 0) {
+    return byStatus;
+  }
+
+  const statusIndex = PROCESSING_STATUS_ORDER.indexOf(itemStatus);
+  if (statusIndex < 0) {
+    return -1;
+  }
+
+  return steps.findIndex(step => PROCESSING_STATUS_ORDER.indexOf(step.itemStatus) > statusIndex);
+}
+
+/**
+ * Find the step a station works on for an item: the station's first step at or after the item's current step
+ * Falls back to the station's first step when the item's place in the workflow is not known.
+ *
+ * @returns The step index, or -1 if the station is not part of the workflow
+ */
+export function findStationStepIndex(
+  steps: WorkflowStepDefinition[],
+  stationName: string,
+  itemStatus: string,
+  currentStepId?: string | null
+): number {
+  const currentIndex = findCurrentStepIndex(steps, itemStatus, currentStepId);
+  const stepIndex = currentIndex < 0
+    ? -1
+    : steps.findIndex((step, index) => index >= currentIndex && step.stationName === stationName);
+
+  return stepIndex >= 0 ? stepIndex : steps.findIndex(step => step.stationName === stationName);
+}
+
+/**
+ * Resolve the transition caused by scanning an item at a station
+ *
+ * Rules (same as the original hard-coded flow):
+ * - Production can only be started by the station of the first step
+ * - A station completes the first step at or after the item's current step, so stations may skip forward but never backward
+ * - A station that completed the previous step cannot immediately skip ahead (e.g. Office scanning twice in a row)
+ *
+ * @returns The transition, or null if the station cannot process the item in its current state
+ */
+export function resolveWorkflowTransition(
+  workflow: WorkflowDefinition,
+  context: WorkflowScanContext
+): WorkflowTransition | null {
+  const steps = getOrderedWorkflowSteps(workflow);
+
+  if (steps.length === 0 || context.itemStatus === WORKFLOW_COMPLETE_STATUS) {
+    return null;
+  }
+
+  const currentIndex = findCurrentStepIndex(steps, context.itemStatus, context.currentStepId);
+  if (currentIndex < 0) {
+    return null;
+  }
+
+  // Production has not started yet - only the first step's station can start it
+  if (currentIndex === 0) {
+    return steps[0].stationName === context.stationName
+      ? buildTransition(steps, 0, context.itemStatus)
+      : null;
+  }
+
+  const targetIndex = steps.findIndex((step, index) => index >= currentIndex && step.stationName === context.stationName);
+  if (targetIndex < 0) {
+    return null;
+  }
+
+  const previousStep = steps[currentIndex - 1];
+  const justScannedHere = !context.lastScannedStation || context.lastScannedStation === context.stationName;
+  if (targetIndex > currentIndex && previousStep.stationName === context.stationName && justScannedHere) {
+    return null;
+  }
+
+  return buildTransition(steps, targetIndex, context.itemStatus);
+}
+
+/**
+ * Get the earlier steps an item can be sent back to for rework
+ * The first step (starting production) is never a rework target. Items that are already READY
+ * can be sent back to any step after it.
+ *
+ * @returns The steps in workflow order (empty if the item has not passed any reworkable step)
+ */
+export function getReworkTargets(
+  workflow: WorkflowDefinition,
+  itemStatus: string,
+  currentStepId?: string | null
+): WorkflowStepDefinition[] {
+  const steps = getOrderedWorkflowSteps(workflow);
+  const currentIndex = itemStatus === WORKFLOW_COMPLETE_STATUS
+    ? steps.length
+    : findCurrentStepIndex(steps, itemStatus, currentStepId);
+
+  if (currentIndex <= 1) {
+    return [];
+  }
+
+  return steps.slice(1, currentIndex);
+}
+
+/**
+ * Get the transitions a supervisor can force when a station's scan was blocked
+ * Each is the completion of one of the station's steps, wherever the item currently is in the workflow -
+ * e.g. a skipped station, a step done out of order or a second Office scan.
+ *
+ * @returns One transition per step worked at the station, in workflow order
+ */
+export function getStationTransitions(
+  workflow: WorkflowDefinition,
+  stationName: string,
+  itemStatus: string
+): WorkflowTransition[] {
+  const steps = getOrderedWorkflowSteps(workflow);
+
+  return steps
+    .map((step, index) => (step.stationName === stationName ? buildTransition(steps, index, itemStatus) : null))
+    .filter((transition): transition is WorkflowTransition => !!transition);
+}
+
+/**
+ * Build the transition for completing the step at the given index
+ */
+function buildTransition(steps: WorkflowStepDefinition[], completedIndex: number, fromStatus: string): WorkflowTransition {
+  const fromStep = steps[completedIndex];
+  const toStep = steps[completedIndex + 1] || null;
+
+  return {
+    fromStep,
+    toStep,
+    fromStatus,
+    toStatus: toStep ? toStep.itemStatus : WORKFLOW_COMPLETE_STATUS,
+    stepNumber: completedIndex + 1,
+    description: fromStep.description || (toStep
+      ? `${fromStep.name} completed - Moving to ${toStep.name}`
+      : `${fromStep.name} completed - Ready for delivery/pickup`)
+  };
+}
+
+/**
+ * Validate a workflow definition before it is saved
+ *
+ * @returns A list of human-readable problems (empty when valid)
+ */
+export function validateWorkflowDefinition(workflow: WorkflowDefinition): string[] {
+  const errors: string[] = [];
+  const steps = getOrderedWorkflowSteps(workflow);
+
+  if (!workflow.name?.trim()) {
+    errors.push('Workflow name is required');
+  }
+
+  if (steps.length < 2) {
+    errors.push('A workflow needs at least two steps');
+  }
+
+  if (steps.length > 0 && steps[0].itemStatus !== 'NOT_STARTED_PRODUCTION') {
+    errors.push('The first step must use the NOT_STARTED_PRODUCTION status');
+  }
+
+  steps.forEach((step, index) => {
+    if (!step.name?.trim()) {
+      errors.push(`Step ${index + 1} needs a name`);
+    }
+    if (!step.stationName) {
+      errors.push(`Step ${index + 1} needs a station`);
+    }
+    if (step.itemStatus === WORKFLOW_COMPLETE_STATUS) {
+      errors.push(`Step ${index + 1} cannot use the ${WORKFLOW_COMPLETE_STATUS} status - items become ready after the last step`);
+    }
+  });
+
+  return errors;
+}